@@ -0,0 +1,114 @@
+import { ABTest, ABTestVariant } from '@/lib/ab-testing'
+import {
+  applyVariantContent,
+  buildVariantStats,
+  getCampaignABTest,
+  pickVariantForContact,
+  VariantTrackingRow,
+} from '@/lib/campaign-ab-testing'
+
+const createVariant = (id: string, overrides: Partial<ABTestVariant> = {}): ABTestVariant => ({
+  id,
+  ab_test_id: 'test-1',
+  name: `Variant ${id}`,
+  subject_template: `Subject ${id}`,
+  is_control: id === 'a',
+  traffic_percentage: 50,
+  emails_sent: 0,
+  emails_delivered: 0,
+  emails_opened: 0,
+  emails_clicked: 0,
+  emails_replied: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides
+})
+
+const createTest = (overrides: Partial<ABTest> = {}): ABTest => ({
+  id: 'test-1',
+  campaign_id: 'campaign-1',
+  user_id: 'user-1',
+  name: 'Subject test',
+  test_type: 'subject_line',
+  status: 'running',
+  variants: [createVariant('a'), createVariant('b')],
+  traffic_split: [50, 50],
+  winner_criteria: 'open_rate',
+  confidence_level: 0.95,
+  minimum_sample_size: 100,
+  test_duration_hours: 24,
+  auto_select_winner: true,
+  statistical_significance: false,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides
+})
+
+const row = (variant: string | null, overrides: Partial<VariantTrackingRow> = {}): VariantTrackingRow => ({
+  ab_test_variant: variant,
+  status: 'delivered',
+  sent_at: '2024-01-02T10:00:00Z',
+  delivered_at: '2024-01-02T10:00:00Z',
+  opened_at: null,
+  clicked_at: null,
+  replied_at: null,
+  bounced_at: null,
+  ...overrides
+})
+
+describe('campaign-ab-testing', () => {
+  describe('getCampaignABTest', () => {
+    it('should only return enabled tests with at least two variants', () => {
+      expect(getCampaignABTest({ ab_test_enabled: false, ab_test_config: createTest() })).toBeNull()
+      expect(getCampaignABTest({ ab_test_enabled: true, ab_test_config: {} })).toBeNull()
+      expect(getCampaignABTest({ ab_test_enabled: true, ab_test_config: createTest({ status: 'stopped' }) })).toBeNull()
+      expect(getCampaignABTest({ ab_test_enabled: true, ab_test_config: createTest() })?.id).toBe('test-1')
+    })
+  })
+
+  describe('pickVariantForContact', () => {
+    it('should keep a persisted assignment', () => {
+      expect(pickVariantForContact(createTest(), 'contact-1', 'b').id).toBe('b')
+    })
+
+    it('should assign deterministically when no variant is stored', () => {
+      const test = createTest()
+      expect(pickVariantForContact(test, 'contact-1').id).toBe(pickVariantForContact(test, 'contact-1').id)
+    })
+
+    it('should send the promoted winner to everyone', () => {
+      const test = createTest({ winner_variant_id: 'b' })
+      expect(pickVariantForContact(test, 'contact-1', 'a').id).toBe('b')
+    })
+  })
+
+  describe('applyVariantContent', () => {
+    it('should replace the subject for subject line tests', () => {
+      const test = createTest()
+      expect(applyVariantContent(test, test.variants[1], 'Base', 'Body')).toEqual({ subject: 'Subject b', content: 'Body' })
+    })
+
+    it('should replace the body for content tests', () => {
+      const test = createTest({ test_type: 'content' })
+      const variant = createVariant('b', { content_template: '<p>B</p>' })
+      expect(applyVariantContent(test, variant, 'Base', 'Body')).toEqual({ subject: 'Base', content: '<p>B</p>' })
+    })
+  })
+
+  describe('buildVariantStats', () => {
+    it('should count sends and engagement per variant from tracking rows', () => {
+      const result = buildVariantStats(createTest(), [
+        row('a', { opened_at: '2024-01-02T11:00:00Z' }),
+        row('a', { bounced_at: '2024-01-02T10:05:00Z', status: 'bounced' }),
+        row('b', { opened_at: '2024-01-02T11:00:00Z', clicked_at: '2024-01-02T11:05:00Z', replied_at: '2024-01-03T09:00:00Z' }),
+        row('b', { status: 'pending', sent_at: null, delivered_at: null }),
+        row(null),
+        row('unknown')
+      ])
+
+      const [a, b] = result.variants
+      expect(a).toMatchObject({ emails_sent: 2, emails_delivered: 1, emails_opened: 1, emails_clicked: 0 })
+      expect(b).toMatchObject({ emails_sent: 1, emails_delivered: 1, emails_opened: 1, emails_clicked: 1, emails_replied: 1 })
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import {
+  COMPANY_ENRICHMENT_MAX_AGE_DAYS,
+  accountRuleBlockReason,
+  hasAccountRules,
+  isCompanyEnrichmentFresh,
+  recordAccountSend,
+  resolveAccountRules,
+  type AccountRuleState,
+} from '@/lib/companies'
+
+const emptyState = (): AccountRuleState => ({ repliedCompanyIds: new Set(), contactedByCompany: new Map() })
+
+describe('companies', () => {
+  it('resolves account rules from the campaign settings', () => {
+    expect(resolveAccountRules({ send_settings: { account_rules: { stop_on_reply: true, max_contacts_per_account: 2.7 } } }))
+      .toEqual({ stopOnReply: true, maxContactsPerAccount: 2 })
+    expect(resolveAccountRules({ schedule_settings: { account_rules: { max_contacts_per_account: 0 } } }))
+      .toEqual({ stopOnReply: false, maxContactsPerAccount: null })
+    expect(hasAccountRules(resolveAccountRules({ send_settings: null }))).toBe(false)
+  })
+
+  it('blocks colleagues of a contact that replied', () => {
+    const rules = { stopOnReply: true, maxContactsPerAccount: null }
+    const state = emptyState()
+    state.repliedCompanyIds.add('acme')
+
+    expect(accountRuleBlockReason(rules, state, { id: 'c1', company_id: 'acme' })).toBe('Someone at this company already replied')
+    expect(accountRuleBlockReason(rules, state, { id: 'c2', company_id: 'globex' })).toBeNull()
+    expect(accountRuleBlockReason(rules, state, { id: 'c3', company_id: null })).toBeNull()
+  })
+
+  it('limits the contacts emailed per company', () => {
+    const rules = { stopOnReply: false, maxContactsPerAccount: 2 }
+    const state = emptyState()
+
+    recordAccountSend(state, { id: 'c1', company_id: 'acme' })
+    expect(accountRuleBlockReason(rules, state, { id: 'c2', company_id: 'acme' })).toBeNull()
+
+    recordAccountSend(state, { id: 'c2', company_id: 'acme' })
+    expect(accountRuleBlockReason(rules, state, { id: 'c3', company_id: 'acme' })).toBe('Already emailing 2 contact(s) at this company')
+    // Follow-ups to contacts already emailed are not blocked
+    expect(accountRuleBlockReason(rules, state, { id: 'c1', company_id: 'acme' })).toBeNull()
+  })
+
+  it('reuses company enrichment only while it is recent', () => {
+    const now = new Date('2025-11-01T00:00:00Z')
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    expect(isCompanyEnrichmentFresh({ enrichment_data: { industry: 'Software' }, enrichment_updated_at: daysAgo(10) }, now)).toBe(true)
+    expect(isCompanyEnrichmentFresh({
+      enrichment_data: { industry: 'Software' },
+      enrichment_updated_at: daysAgo(COMPANY_ENRICHMENT_MAX_AGE_DAYS + 1),
+    }, now)).toBe(false)
+    expect(isCompanyEnrichmentFresh({ enrichment_data: null, enrichment_updated_at: daysAgo(1) }, now)).toBe(false)
+  })
+})
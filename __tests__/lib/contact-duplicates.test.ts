@@ -0,0 +1,110 @@
+import {
+  buildMergedContact,
+  findDuplicateClusters,
+  findSkippedNameBlocks,
+  MAX_BLOCK_SIZE,
+  getFieldConflicts,
+  normalizeCompany,
+  normalizeEmailForMatching,
+  normalizeLinkedInUrl,
+  normalizePhone,
+  type DuplicateCandidate,
+} from '@/lib/contact-duplicates'
+
+const contact = (id: string, fields: Partial<DuplicateCandidate>): DuplicateCandidate => ({
+  id,
+  email: `${id}@example.com`,
+  created_at: `2025-01-0${id.length}T00:00:00Z`,
+  ...fields,
+})
+
+describe('contact duplicate detection', () => {
+  it('normalizes Gmail dots and plus-aliases but leaves other domains alone', () => {
+    expect(normalizeEmailForMatching('Jane.Doe+news@GoogleMail.com')).toBe('janedoe@gmail.com')
+    expect(normalizeEmailForMatching('jane.doe+news@acme.com')).toBe('jane.doe+news@acme.com')
+    expect(normalizeEmailForMatching('not-an-email')).toBeNull()
+  })
+
+  it('normalizes phones, LinkedIn URLs and company names', () => {
+    expect(normalizePhone('+49 (30) 1234-5678')).toBe(normalizePhone('030 12345678'))
+    expect(normalizePhone('12-34')).toBeNull()
+    expect(normalizeLinkedInUrl('https://de.linkedin.com/in/Jane-Doe/?trk=x')).toBe('in/jane-doe')
+    expect(normalizeLinkedInUrl('https://example.com/jane')).toBeNull()
+    expect(normalizeCompany('ACME Solutions GmbH')).toBe('acme solutions')
+    expect(normalizeCompany('Acme Solutions, Inc.')).toBe('acme solutions')
+  })
+
+  it('clusters transitively across different match reasons', () => {
+    const clusters = findDuplicateClusters([
+      contact('a', { email: 'jane.doe@gmail.com', phone: '+1 415 555 0100' }),
+      contact('b', { email: 'janedoe+work@gmail.com' }),
+      contact('c', { email: 'jane@acme.com', phone: '(415) 555-0100', linkedin_url: 'linkedin.com/in/janedoe' }),
+      contact('d', { email: 'jd@acme.io', linkedin_url: 'https://www.linkedin.com/in/janedoe/' }),
+      contact('e', { email: 'someone@else.com', phone: '+1 212 555 0199' }),
+    ])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].contacts.map(c => c.id).sort()).toEqual(['a', 'b', 'c', 'd'])
+    expect(clusters[0].reasons.sort()).toEqual(['email', 'linkedin', 'phone'])
+  })
+
+  it('matches similar names at the same company', () => {
+    const clusters = findDuplicateClusters([
+      contact('a', { first_name: 'Jonathan', last_name: 'Müller', company: 'Acme GmbH' }),
+      contact('b', { first_name: 'Jonathan', last_name: 'Mueller', company: 'ACME' }),
+      contact('c', { first_name: 'Jonathan', last_name: 'Müller', company: 'Globex' }),
+      contact('d', { first_name: 'Maria', last_name: 'Schmidt', company: 'Acme GmbH' }),
+    ])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].contacts.map(c => c.id).sort()).toEqual(['a', 'b'])
+    expect(clusters[0].reasons).toEqual(['name_company'])
+  })
+
+  it('reports company blocks too large to compare by name', () => {
+    const contacts = Array.from({ length: MAX_BLOCK_SIZE + 1 }, (_, i) =>
+      contact(`big-${i}`, { first_name: `Person${i}`, last_name: 'Doe', company: 'Globex Corp' }))
+    contacts.push(contact('small', { first_name: 'Jane', last_name: 'Doe', company: 'Acme' }))
+
+    expect(findSkippedNameBlocks(contacts)).toEqual([{ companyPrefix: 'glo', contacts: MAX_BLOCK_SIZE + 1 }])
+  })
+
+  it('suggests the most complete contact as primary and lists field conflicts', () => {
+    const [cluster] = findDuplicateClusters([
+      contact('a', { email: 'jane@acme.com', first_name: 'Jane' }),
+      contact('bb', { email: 'Jane@acme.com', first_name: 'Janet', company: 'Acme', position: 'CTO' }),
+    ])
+
+    expect(cluster.suggestedPrimaryId).toBe('bb')
+    expect(getFieldConflicts(cluster.contacts).map(c => c.field)).toEqual(['first_name'])
+  })
+
+  it('builds the merged contact from resolutions, keeping tags, lists, custom fields and notes', () => {
+    const primary = contact('a', {
+      first_name: 'Jane',
+      company: null,
+      tags: ['vip'],
+      lists: ['l1'],
+      custom_fields: { source: 'primary' },
+      notes: 'Met at conference',
+    })
+    const duplicate = contact('b', {
+      first_name: 'Janet',
+      company: 'Acme',
+      tags: ['vip', 'lead'],
+      lists: ['l2'],
+      custom_fields: { source: 'dup', plan: 'pro' },
+      notes: 'Asked for pricing',
+    })
+
+    const merged = buildMergedContact(primary, [duplicate], { first_name: 'b' })
+
+    expect(merged.first_name).toBe('Janet')
+    expect(merged.company).toBe('Acme')
+    expect(merged.email).toBe('a@example.com')
+    expect(merged.tags).toEqual(['vip', 'lead'])
+    expect(merged.lists).toEqual(['l1', 'l2'])
+    expect(merged.custom_fields).toEqual({ source: 'primary', plan: 'pro' })
+    expect(merged.notes).toBe('Met at conference\n\n---\n\nAsked for pricing')
+  })
+})
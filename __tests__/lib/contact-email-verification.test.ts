@@ -0,0 +1,71 @@
+import {
+  getStoredVerification,
+  STORED_VERIFICATION_MAX_AGE_MS,
+  verifyContactEmails,
+} from '@/lib/contact-email-verification'
+import { EmailValidationService } from '@/lib/email-validation'
+
+/**
+ * Supabase stand-in that records contacts updates
+ */
+const createSupabaseStub = () => {
+  const updates: Array<{ values: any; ids: string[] }> = []
+  const supabase: any = {
+    from: jest.fn(() => ({
+      update: (values: any) => ({
+        in: async (_column: string, ids: string[]) => {
+          updates.push({ values, ids })
+          return { error: null }
+        },
+      }),
+    })),
+  }
+  return { supabase, updates }
+}
+
+describe('contact email verification', () => {
+  const now = new Date('2025-11-14T12:00:00Z')
+
+  beforeEach(() => {
+    EmailValidationService.configure({
+      resolver: { resolveMx: async () => [{ exchange: 'mx.example.com', priority: 10 }] },
+      smtpProbe: false,
+    })
+  })
+
+  afterAll(() => {
+    EmailValidationService.resetConfig()
+  })
+
+  it('reuses recent stored statuses but not unknown or stale ones', () => {
+    const recent = new Date(now.getTime() - 60 * 1000).toISOString()
+    const stale = new Date(now.getTime() - STORED_VERIFICATION_MAX_AGE_MS - 1).toISOString()
+
+    expect(getStoredVerification({ id: 'a', email: 'a@example.com', email_verification_status: 'risky', email_checked_at: recent }, now)).toBe('risky')
+    expect(getStoredVerification({ id: 'a', email: 'a@example.com', email_verification_status: 'unknown', email_checked_at: recent }, now)).toBeNull()
+    expect(getStoredVerification({ id: 'a', email: 'a@example.com', email_verification_status: 'invalid', email_checked_at: stale }, now)).toBeNull()
+    expect(getStoredVerification({ id: 'a', email: 'a@example.com', email_verification_status: null, email_checked_at: null }, now)).toBeNull()
+  })
+
+  it('verifies only contacts without a stored result and stores the new results', async () => {
+    const { supabase, updates } = createSupabaseStub()
+
+    const verifications = await verifyContactEmails(
+      supabase,
+      [
+        // Probed as invalid by an earlier import; DNS alone would call it valid
+        { id: 'probed', email: 'gone@example.com', email_verification_status: 'invalid', email_checked_at: now.toISOString() },
+        { id: 'new', email: 'info@example.com', email_verification_status: null, email_checked_at: null },
+      ],
+      { smtp: false, now },
+    )
+
+    expect(verifications.map(({ contact_id, status }) => ({ contact_id, status }))).toEqual([
+      { contact_id: 'probed', status: 'invalid' },
+      { contact_id: 'new', status: 'risky' },
+    ])
+    expect(updates).toEqual([
+      { values: { email_verification_status: 'risky', email_checked_at: now.toISOString() }, ids: ['new'] },
+    ])
+  })
+})
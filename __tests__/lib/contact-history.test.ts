@@ -0,0 +1,77 @@
+import { diffContactFields, planRevert, sameFieldValue, type ContactChange } from '@/lib/contact-history'
+
+const change = (overrides: Partial<ContactChange>): ContactChange => ({
+  id: 'change-1',
+  user_id: 'user-1',
+  contact_id: 'contact-1',
+  group_id: 'group-1',
+  field: 'company',
+  old_value: null,
+  new_value: null,
+  actor_type: 'enrichment',
+  actor_id: 'website',
+  source: 'enrichment',
+  reverts_change_id: null,
+  created_at: '2025-10-29T10:00:00Z',
+  ...overrides,
+})
+
+describe('contact history', () => {
+  it('records only fields whose value changed', () => {
+    const before = {
+      company: 'Acme',
+      position: null,
+      tags: ['lead'],
+      enrichment_data: { industry: 'Pumps', company_name: 'Acme' },
+      updated_at: '2025-10-01T00:00:00Z',
+    }
+
+    expect(diffContactFields(before, {
+      company: 'Acme GmbH',
+      position: undefined,
+      tags: ['lead'],
+      // Same object with keys in another order, as Postgres returns jsonb
+      enrichment_data: { company_name: 'Acme', industry: 'Pumps' },
+      city: 'Berlin',
+      updated_at: '2025-10-29T10:00:00Z',
+    })).toEqual([
+      { field: 'company', oldValue: 'Acme', newValue: 'Acme GmbH' },
+      { field: 'city', oldValue: null, newValue: 'Berlin' },
+    ])
+  })
+
+  it('compares values structurally', () => {
+    expect(sameFieldValue(null, undefined)).toBe(true)
+    expect(sameFieldValue(['a', 'b'], ['b', 'a'])).toBe(false)
+    expect(sameFieldValue({ a: 1, b: { c: 2 } }, { b: { c: 2 }, a: 1 })).toBe(true)
+  })
+
+  it('reverts fields that still hold the changed value and reports the others', () => {
+    const current = {
+      company: 'Acme GmbH',
+      city: 'Munich',
+      enrichment_data: { company_name: 'Acme GmbH' },
+    }
+
+    const plan = planRevert(current, [
+      change({ id: 'c1', field: 'company', old_value: 'Acme', new_value: 'Acme GmbH' }),
+      change({ id: 'c2', field: 'city', old_value: null, new_value: 'Berlin' }),
+      change({ id: 'c3', field: 'enrichment_data', old_value: null, new_value: { company_name: 'Acme GmbH' } }),
+    ])
+
+    expect(plan.updates).toEqual({ company: 'Acme', enrichment_data: null })
+    expect(plan.reverted.map(c => c.id)).toEqual(['c1', 'c3'])
+    expect(plan.conflicts).toEqual([
+      { change: expect.objectContaining({ id: 'c2' }), currentValue: 'Munich' },
+    ])
+  })
+
+  it('never reverts bookkeeping columns', () => {
+    const plan = planRevert({ updated_at: '2025-10-29T10:00:00Z' }, [
+      change({ field: 'updated_at', old_value: '2025-10-01T00:00:00Z', new_value: '2025-10-29T10:00:00Z' }),
+    ])
+
+    expect(plan.updates).toEqual({})
+    expect(plan.reverted).toEqual([])
+  })
+})
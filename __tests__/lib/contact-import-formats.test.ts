@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+import { deflateRawSync } from 'zlib'
+import {
+  detectImportFormat,
+  excelSerialToDate,
+  parseCsvText,
+  parseVCards,
+  parseXlsx,
+  readCsvRowBatches,
+} from '@/lib/contact-import-formats'
+import { CSVParser } from '@/lib/csv-parser'
+
+const mappedColumn = (headers: string[], field: string) =>
+  CSVParser.detectFieldMappings(headers).find(m => m.contactField === field)?.csvField
+
+/** Build a zip archive with deflated entries, enough for an XLSX workbook */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name)
+    const raw = Buffer.from(content)
+    const data = deflateRawSync(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, nameBuffer, data)
+    centrals.push(central, nameBuffer)
+    offset += local.length + nameBuffer.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+const workbook = buildZip({
+  'xl/workbook.xml': `<workbook><sheets>
+    <sheet name="Summary" sheetId="1" r:id="rId1"/>
+    <sheet name="Leads &amp; Partners" sheetId="2" r:id="rId2"/>
+  </sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships>
+    <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+  </Relationships>`,
+  'xl/sharedStrings.xml': `<sst><si><t>Email</t></si><si><t>Company</t></si>
+    <si><r><t>jane@</t></r><r><t>acme.com</t></r></si><si><t>Acme &amp; Co</t></si></sst>`,
+  'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Total</t></is></c></row></sheetData></worksheet>',
+  'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Employees</t></is></c></row>
+    <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c><c r="D2"><v>42</v></c></row>
+    <row r="3"/>
+    <row r="4"><c r="A4" t="inlineStr"><is><t>max@globex.com</t></is></c></row>
+  </sheetData></worksheet>`,
+})
+
+describe('contact import formats', () => {
+  it('detects the import format from the file extension', () => {
+    expect(detectImportFormat('contacts.CSV')).toBe('csv')
+    expect(detectImportFormat('leads.xlsx')).toBe('xlsx')
+    expect(detectImportFormat('iCloud Export.vcf')).toBe('vcard')
+    expect(detectImportFormat('contacts.xls')).toBeNull()
+  })
+
+  it('maps Google Contacts and Outlook exports and keeps multi-line quoted fields together', () => {
+    const google = parseCsvText([
+      'First Name,Last Name,Organization Name,Organization Title,E-mail 1 - Label,E-mail 1 - Value,Phone 1 - Value,Notes',
+      'Jane,Doe,Acme,CTO,* Work,jane@acme.com,+1 555 0100,"Met at the fair,',
+      'follow up in May"',
+      'Max,Mustermann,Globex,CEO,,max@globex.com,,',
+    ].join('\r\n'))
+
+    expect(google.dialect).toBe('google')
+    expect(google.rows).toHaveLength(2)
+    expect(google.rows[0].Notes).toBe('Met at the fair,\nfollow up in May')
+    expect(mappedColumn(google.headers, 'email')).toBe('E-mail 1 - Value')
+    expect(mappedColumn(google.headers, 'company')).toBe('Organization Name')
+    expect(mappedColumn(google.headers, 'position')).toBe('Organization Title')
+    expect(mappedColumn(google.headers, 'phone')).toBe('Phone 1 - Value')
+
+    const outlook = parseCsvText(
+      'First Name,Last Name,Company,Job Title,Business Street,Business City,Business Postal Code,Business Country/Region,Business Phone,E-mail Address\n' +
+      'Jane,Doe,Acme,CTO,Main St 1,Berlin,10115,Germany,030 123,jane@acme.com\n'
+    )
+
+    expect(outlook.dialect).toBe('outlook')
+    expect(mappedColumn(outlook.headers, 'email')).toBe('E-mail Address')
+    expect(mappedColumn(outlook.headers, 'phone')).toBe('Business Phone')
+    expect(mappedColumn(outlook.headers, 'city')).toBe('Business City')
+    expect(mappedColumn(outlook.headers, 'country')).toBe('Business Country/Region')
+  })
+
+  it('skips the LinkedIn Connections preamble and maps the profile URL to LinkedIn', () => {
+    const linkedin = parseCsvText([
+      'Notes:',
+      '"When exporting your connection data, you may notice that some of the email addresses are missing."',
+      '',
+      'First Name,Last Name,URL,Email Address,Company,Position,Connected On',
+      'Jane,Doe,https://www.linkedin.com/in/janedoe,jane@acme.com,Acme,CTO,01 Mar 2024',
+    ].join('\n'))
+
+    expect(linkedin.dialect).toBe('linkedin')
+    expect(linkedin.totalRows).toBe(1)
+    expect(mappedColumn(linkedin.headers, 'linkedin_url')).toBe('LinkedIn Profile')
+    expect(mappedColumn(linkedin.headers, 'website')).toBe('')
+    expect(linkedin.rows[0]['LinkedIn Profile']).toBe('https://www.linkedin.com/in/janedoe')
+  })
+
+  it('streams CSV rows in batches across chunk boundaries', async () => {
+    const content = 'email;company\n' + Array.from({ length: 5 }, (_, i) => `user${i}@acme.com;"Acme ""${i}"""`).join('\n')
+    const bytes = Buffer.from(content)
+    const chunks = Array.from({ length: Math.ceil(bytes.length / 7) }, (_, i) => bytes.subarray(i * 7, i * 7 + 7))
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks.shift()
+        if (chunk) controller.enqueue(new Uint8Array(chunk))
+        else controller.close()
+      },
+    })
+
+    const batches = []
+    for await (const batch of readCsvRowBatches(stream, { batchSize: 2 })) {
+      batches.push(batch)
+    }
+
+    expect(batches.map(b => b.rows.length)).toEqual([2, 2, 1])
+    expect(batches[0].delimiter).toBe(';')
+    expect(batches[2].rows[0]).toEqual({ email: 'user4@acme.com', company: 'Acme "4"' })
+  })
+
+  it('lists XLSX sheets and reads the picked sheet', () => {
+    const first = parseXlsx(workbook)
+    expect(first.sheets).toEqual(['Summary', 'Leads & Partners'])
+    expect(first.sheet).toBe('Summary')
+
+    const leads = parseXlsx(workbook, { sheet: 'Leads & Partners' })
+    expect(leads.headers).toEqual(['Email', 'Company', 'Employees'])
+    expect(leads.rows).toEqual([
+      { Email: 'jane@acme.com', Company: 'Acme & Co', Employees: '42' },
+      { Email: 'max@globex.com', Company: '', Employees: '' },
+    ])
+
+    expect(parseXlsx(workbook, { sheet: 'Missing' }).errors[0].error).toBe('Sheet "Missing" not found')
+  })
+
+  it('converts date-formatted XLSX cells from serial numbers', () => {
+    const dated = buildZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/styles.xml': `<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/></numFmts>
+        <cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>`,
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="inlineStr"><is><t>Met on</t></is></c><c r="B1" t="inlineStr"><is><t>Called at</t></is></c><c r="C1" t="inlineStr"><is><t>Employees</t></is></c></row>
+        <row r="2"><c r="A2" s="1"><v>45658</v></c><c r="B2" s="2"><v>45658.75</v></c><c r="C2" s="0"><v>45658</v></c></row>
+      </sheetData></worksheet>`,
+    })
+
+    expect(parseXlsx(dated).rows).toEqual([{ 'Met on': '2025-01-01', 'Called at': '2025-01-01 18:00', Employees: '45658' }])
+    expect(excelSerialToDate(0, true)).toBe('1904-01-01')
+  })
+
+  it('rejects XLSX parts that inflate beyond the size cap', () => {
+    const bomb = Buffer.from(workbook)
+    // Declare a 1 GB uncompressed size for the first central directory entry
+    const directory = bomb.readUInt32LE(bomb.length - 22 + 16)
+    bomb.writeUInt32LE(1024 * 1024 * 1024, directory + 24)
+
+    expect(() => parseXlsx(bomb)).toThrow('XLSX workbook part xl/workbook.xml is too large to import')
+  })
+
+  it('parses vCard 3 and 4 contacts', () => {
+    const cards = parseVCards([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Doe;Jane;;;',
+      'FN:Jane Doe',
+      'ORG:Acme\\, Inc.;Sales',
+      'TITLE:CTO',
+      'EMAIL;TYPE=INTERNET,HOME:jane@home.example',
+      'item1.EMAIL;TYPE=INTERNET,WORK,pref:jane@acme.com',
+      'TEL;TYPE=WORK:+1 555 0100',
+      'ADR;TYPE=WORK:;;Main St 1;Berlin;;10115;Germany',
+      'URL:https://www.linkedin.com/in/janedoe',
+      'NOTE:Met at the fair\\nfollow up in',
+      '  May',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Max Mustermann',
+      'EMAIL;PREF=2:max@private.example',
+      'EMAIL;TYPE=work;PREF=1:max@globex.com',
+      'TEL;VALUE=uri;TYPE="voice,work":tel:+49-30-1234',
+      'URL:https://globex.com',
+      'END:VCARD',
+    ].join('\r\n'))
+
+    expect(cards.totalRows).toBe(2)
+    expect(cards.rows[0]).toMatchObject({
+      'Email': 'jane@acme.com',
+      'First Name': 'Jane',
+      'Last Name': 'Doe',
+      'Company': 'Acme, Inc.',
+      'Job Title': 'CTO',
+      'Phone': '+1 555 0100',
+      'Street': 'Main St 1',
+      'City': 'Berlin',
+      'Postal Code': '10115',
+      'Country': 'Germany',
+      'LinkedIn': 'https://www.linkedin.com/in/janedoe',
+      'Website': '',
+      'Notes': 'Met at the fair\nfollow up in May',
+    })
+    expect(cards.rows[1]).toMatchObject({
+      'Email': 'max@globex.com',
+      'First Name': 'Max',
+      'Last Name': 'Mustermann',
+      'Phone': '+49-30-1234',
+      'Website': 'https://globex.com',
+    })
+
+    const mappings = CSVParser.detectFieldMappings(cards.headers)
+    const mapped = (field: string) => mappings.find(m => m.contactField === field)?.csvField
+    expect([mapped('email'), mapped('position'), mapped('linkedin_url'), mapped('postcode')])
+      .toEqual(['Email', 'Job Title', 'LinkedIn', 'Postal Code'])
+  })
+})
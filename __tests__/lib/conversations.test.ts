@@ -0,0 +1,54 @@
+import { conversationParticipants, conversationSubjectKey, groupMessages, type ThreadMessage } from '@/lib/conversations'
+
+const message = (overrides: Partial<ThreadMessage> & Pick<ThreadMessage, 'sourceId' | 'sentAt'>): ThreadMessage => ({
+  source: 'incoming',
+  messageId: null,
+  inReplyTo: null,
+  references: [],
+  subject: 'Quick question',
+  participants: ['jane@acme.com'],
+  direction: 'inbound',
+  emailAccountId: null,
+  contactId: null,
+  campaignId: null,
+  ...overrides,
+})
+
+const ids = (groups: ThreadMessage[][]) => groups.map(group => group.map(item => item.sourceId))
+
+describe('conversations', () => {
+  it('normalizes subjects and participants', () => {
+    expect(conversationSubjectKey('Re: AW: Fwd:  Quick   Question')).toBe('quick question')
+    expect(conversationSubjectKey('RE[2]: WG: Angebot')).toBe('angebot')
+    expect(conversationSubjectKey(null)).toBe('')
+
+    expect(conversationParticipants(
+      ['Jane Doe <Jane@Acme.com>', 'sales@me.io, tom@acme.com', ['jane@acme.com']],
+      ['Sales@me.io']
+    )).toEqual(['jane@acme.com', 'tom@acme.com'])
+  })
+
+  it('links messages by Message-ID, In-Reply-To and References', () => {
+    const groups = groupMessages([
+      message({ sourceId: 'reply-2', sentAt: '2025-11-03T10:00:00Z', messageId: '<c@x>', references: ['<a@x>', '<b@x>'], subject: 'Something else' }),
+      message({ source: 'campaign', sourceId: 'send', direction: 'outbound', sentAt: '2025-11-01T10:00:00Z', messageId: '<a@x>' }),
+      message({ source: 'outgoing', sourceId: 'sent-copy', direction: 'outbound', sentAt: '2025-11-01T10:00:01Z', messageId: '<a@x>' }),
+      message({ sourceId: 'reply-1', sentAt: '2025-11-02T10:00:00Z', messageId: '<b@x>', inReplyTo: '<a@x>' }),
+      message({ sourceId: 'other', sentAt: '2025-11-02T12:00:00Z', messageId: '<d@x>', subject: 'Invoice' }),
+    ])
+
+    expect(ids(groups)).toEqual([['send', 'sent-copy', 'reply-1', 'reply-2'], ['other']])
+  })
+
+  it('falls back to subject and participants without usable headers', () => {
+    const groups = groupMessages([
+      message({ source: 'campaign', sourceId: 'send', direction: 'outbound', sentAt: '2025-11-01T10:00:00Z', messageId: '<a@x>' }),
+      message({ sourceId: 'reply', sentAt: '2025-11-02T10:00:00Z', messageId: '<b@y>', inReplyTo: '<unknown@y>', subject: 'AW: Quick question' }),
+      message({ sourceId: 'colleague', sentAt: '2025-11-02T11:00:00Z', subject: 'Re: Quick question', participants: ['tom@acme.com'] }),
+      message({ sourceId: 'existing', sentAt: '2025-10-01T10:00:00Z', subject: null, participants: [], conversationId: 'conv-1' }),
+      message({ sourceId: 'joined', sentAt: '2025-11-04T10:00:00Z', subject: null, participants: [], conversationId: 'conv-1' }),
+    ])
+
+    expect(ids(groups)).toEqual([['existing', 'joined'], ['send', 'reply'], ['colleague']])
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  CustomFieldValidationError,
+  applyCustomFieldVariables,
+  coerceCustomFieldValue,
+  customFieldKey,
+  customFieldLocale,
+  normalizeCustomFieldDefinition,
+  validateCustomFields,
+  type CustomFieldSpec,
+} from '@/lib/custom-fields'
+
+const field = (type: CustomFieldSpec['type'], options: string[] = []): CustomFieldSpec => ({
+  key: 'field',
+  label: 'Field',
+  type,
+  options,
+})
+
+describe('custom-fields', () => {
+  it('derives keys from labels', () => {
+    expect(customFieldKey('Contract Value (€)')).toBe('contract_value')
+    expect(customFieldKey('Größe')).toBe('grosse')
+    expect(customFieldKey('2024 Budget')).toBe('field_2024_budget')
+    expect(customFieldKey('!!!')).toBe('field')
+  })
+
+  it('coerces values to the field type', () => {
+    expect(coerceCustomFieldValue(field('number'), '1.234,5')).toEqual({ value: 1234.5 })
+    expect(coerceCustomFieldValue(field('number'), '1,234.5')).toEqual({ value: 1234.5 })
+    expect(coerceCustomFieldValue(field('number'), 'lots').error).toBe('Field must be a number')
+
+    expect(coerceCustomFieldValue(field('date'), '31.12.2025')).toEqual({ value: '2025-12-31' })
+    expect(coerceCustomFieldValue(field('date'), '2025-02-30').error).toBe('Field must be a date')
+
+    expect(coerceCustomFieldValue(field('boolean'), 'Ja')).toEqual({ value: true })
+    expect(coerceCustomFieldValue(field('boolean'), 'no')).toEqual({ value: false })
+
+    expect(coerceCustomFieldValue(field('select', ['Starter', 'Pro']), 'pro')).toEqual({ value: 'Pro' })
+    expect(coerceCustomFieldValue(field('multi_select', ['A', 'B', 'C']), 'c; a | c')).toEqual({ value: ['C', 'A'] })
+    expect(coerceCustomFieldValue(field('multi_select', ['A']), 'A, Z').error).toBe('Field: "Z" is not one of A')
+
+    expect(coerceCustomFieldValue(field('text'), '  ')).toEqual({ value: null })
+  })
+
+  it('validates the defined fields and keeps other keys', () => {
+    const specs: CustomFieldSpec[] = [
+      { key: 'seats', label: 'Seats', type: 'number', options: [] },
+      { key: 'plan', label: 'Plan', type: 'select', options: ['Starter', 'Pro'] },
+    ]
+
+    expect(validateCustomFields(specs, { seats: '12', plan: '', legacy_column: 'x' })).toEqual({
+      values: { seats: 12, legacy_column: 'x' },
+      errors: [],
+    })
+    expect(validateCustomFields(specs, { plan: 'Gold' }).errors).toEqual(['Plan must be one of Starter, Pro'])
+  })
+
+  it('checks field definitions', () => {
+    expect(normalizeCustomFieldDefinition({ label: ' Plan ', type: 'select', options: ['Pro', ' Pro', 'Starter'] }))
+      .toEqual({ key: 'plan', label: 'Plan', type: 'select', options: ['Pro', 'Starter'], position: 0 })
+    expect(normalizeCustomFieldDefinition({ label: 'Notes', type: 'text', options: ['ignored'] }).options).toEqual([])
+
+    expect(() => normalizeCustomFieldDefinition({ label: 'Plan', type: 'multi_select' }))
+      .toThrow(CustomFieldValidationError)
+    expect(() => normalizeCustomFieldDefinition({ label: 'Plan', key: 'Plan!', type: 'text' }))
+      .toThrow(CustomFieldValidationError)
+  })
+
+  it('formats merge variables by type and locale', () => {
+    const specs = [
+      { key: 'seats', type: 'number' as const },
+      { key: 'renewal', type: 'date' as const },
+      { key: 'active', type: 'boolean' as const },
+      { key: 'modules', type: 'multi_select' as const },
+    ]
+    const values = { seats: 1234.5, renewal: '2025-12-31', active: true, modules: ['CRM', 'Mail'], other: 'raw' }
+
+    expect(applyCustomFieldVariables(
+      '{{custom.seats}} / {{ custom.renewal }} / {{custom.active}} / {{custom.modules}} / {{custom.other}} / {{custom.missing}}',
+      specs,
+      values,
+      'en-US'
+    )).toBe('1,234.5 / December 31, 2025 / Yes / CRM, Mail / raw / ')
+
+    expect(applyCustomFieldVariables('&#123;&#123;custom.seats&#125;&#125; {{custom.active}}', specs, values, 'de-DE'))
+      .toBe('1.234,5 Ja')
+    expect(customFieldLocale({ country: 'Deutschland' })).toBe('de-DE')
+    expect(customFieldLocale({ country: null })).toBe('en-US')
+  })
+})
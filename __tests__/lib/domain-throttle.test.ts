@@ -0,0 +1,85 @@
+import {
+  buildDomainDeferral,
+  getEarliestDeferral,
+  releaseDomainSend,
+  reserveDomainSend,
+  resolveDomainCaps,
+} from '@/lib/domain-throttle'
+
+const createSupabaseStub = (result: { data: any; error: any }) => ({
+  rpc: jest.fn(async () => result),
+})
+
+describe('domain throttle', () => {
+  it('reads caps from the campaign rate limiting settings', () => {
+    expect(resolveDomainCaps({
+      send_settings: { rate_limiting: { domain_limit: 10, domain_hourly_limit: 3 } },
+    })).toEqual({ hourlyLimit: 3, dailyLimit: 10 })
+
+    expect(resolveDomainCaps({
+      schedule_settings: { rate_limiting: { domain_limit: 0 } },
+    })).toEqual({ hourlyLimit: null, dailyLimit: null })
+  })
+
+  it('defers hourly caps to the next full hour', () => {
+    const now = new Date('2025-10-25T14:37:12Z')
+    const deferral = buildDomainDeferral('gmail.com', 'hour', { hourlyLimit: 3, dailyLimit: 10 }, now)
+
+    expect(deferral.deferredUntil.toISOString()).toBe('2025-10-25T15:00:00.000Z')
+    expect(deferral.reason).toBe('Hourly limit of 3 emails to gmail.com reached')
+  })
+
+  it('defers daily caps to the next UTC day', () => {
+    const now = new Date('2025-10-25T23:59:00Z')
+    const deferral = buildDomainDeferral('acme.com', 'day', { hourlyLimit: null, dailyLimit: 10 }, now)
+
+    expect(deferral.deferredUntil.toISOString()).toBe('2025-10-26T00:00:00.000Z')
+    expect(deferral.reason).toBe('Daily limit of 10 emails to acme.com reached')
+  })
+
+  it('picks the earliest retry time', () => {
+    expect(getEarliestDeferral([])).toBeNull()
+    expect(getEarliestDeferral([
+      { deferredUntil: new Date('2025-10-26T00:00:00Z') },
+      { deferredUntil: new Date('2025-10-25T15:00:00Z') },
+    ])?.toISOString()).toBe('2025-10-25T15:00:00.000Z')
+  })
+
+  it('returns a deferral when the domain is capped', async () => {
+    const supabase = createSupabaseStub({ data: 'day', error: null })
+    const deferral = await reserveDomainSend(supabase as any, 'user-1', 'Jane@Acme.com', { hourlyLimit: null, dailyLimit: 5 })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('reserve_recipient_domain_send', {
+      p_user_id: 'user-1',
+      p_domain: 'acme.com',
+      p_hourly_limit: null,
+      p_daily_limit: 5,
+    })
+    expect(deferral?.window).toBe('day')
+  })
+
+  it('skips counting without caps and fails open on errors', async () => {
+    const uncapped = createSupabaseStub({ data: null, error: null })
+    expect(await reserveDomainSend(uncapped as any, 'user-1', 'a@acme.com', { hourlyLimit: null, dailyLimit: null })).toBeNull()
+    expect(uncapped.rpc).not.toHaveBeenCalled()
+
+    const failing = createSupabaseStub({ data: null, error: { message: 'boom' } })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(await reserveDomainSend(failing as any, 'user-1', 'a@acme.com', { hourlyLimit: 2, dailyLimit: null })).toBeNull()
+  })
+
+  it('releases a reservation in the hour it was counted', async () => {
+    const supabase = createSupabaseStub({ data: null, error: null })
+    await releaseDomainSend(supabase as any, 'user-1', 'Jane@Acme.com', { hourlyLimit: 3, dailyLimit: null }, new Date('2025-10-25T14:59:59Z'))
+
+    expect(supabase.rpc).toHaveBeenCalledWith('release_recipient_domain_send', {
+      p_user_id: 'user-1',
+      p_domain: 'acme.com',
+      p_reserved_at: '2025-10-25T14:59:59.000Z',
+    })
+
+    const uncapped = createSupabaseStub({ data: null, error: null })
+    await releaseDomainSend(uncapped as any, 'user-1', 'a@acme.com', { hourlyLimit: null, dailyLimit: null }, new Date())
+    expect(uncapped.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,93 @@
+import {
+  buildReplySubject,
+  buildThreadContext,
+  buildThreadHeaders,
+  loadThreadContext,
+  normalizeMessageId,
+} from '@/lib/email-threading'
+
+/**
+ * Supabase stand-in that answers every query on a table with the given rows
+ */
+const createSupabaseStub = (tables: Record<string, any[]>) => ({
+  from: jest.fn((table: string) => {
+    const chain: any = {
+      select: () => chain,
+      eq: () => chain,
+      in: () => chain,
+      order: () => chain,
+      limit: async () => ({ data: tables[table] || [], error: null }),
+    }
+    return chain
+  }),
+})
+
+describe('email threading', () => {
+  it('normalizes Message-IDs and rejects provider ids', () => {
+    expect(normalizeMessageId('abc@mail.example.com')).toBe('<abc@mail.example.com>')
+    expect(normalizeMessageId(' <abc@mail.example.com> ')).toBe('<abc@mail.example.com>')
+    expect(normalizeMessageId('18c2f0a9b7d3e4f1')).toBeNull()
+    expect(normalizeMessageId(null)).toBeNull()
+  })
+
+  it('builds a single reply prefix', () => {
+    expect(buildReplySubject('Quick question')).toBe('Re: Quick question')
+    expect(buildReplySubject('RE: Quick question')).toBe('Re: Quick question')
+    expect(buildReplySubject('AW: Kurze Frage')).toBe('Re: Kurze Frage')
+  })
+
+  it('chains References from the previous message', () => {
+    const headers = buildThreadHeaders({
+      messageId: '<step2@example.com>',
+      references: '<step1@example.com>',
+      providerThreadId: 'thread-1',
+    })
+
+    expect(headers).toEqual({
+      inReplyTo: '<step2@example.com>',
+      references: '<step1@example.com> <step2@example.com>',
+      providerThreadId: 'thread-1',
+    })
+  })
+
+  it('keeps the thread root when the References chain gets long', () => {
+    const references = Array.from({ length: 12 }, (_, i) => `<m${i}@example.com>`).join(' ')
+    const headers = buildThreadHeaders({ messageId: '<latest@example.com>', references })!
+    const ids = headers.references.split(' ')
+
+    expect(ids).toHaveLength(10)
+    expect(ids[0]).toBe('<m0@example.com>')
+    expect(ids[ids.length - 1]).toBe('<latest@example.com>')
+  })
+
+  it('returns no context without a usable Message-ID', () => {
+    expect(buildThreadContext({ messageId: 'job-123' }, 'Hello')).toBeNull()
+  })
+
+  it('falls back to the synced sent copy for older sends', async () => {
+    const supabase = createSupabaseStub({
+      email_tracking: [{
+        message_id: 'job-1',
+        header_message_id: null,
+        thread_references: null,
+        provider_thread_id: null,
+        subject_line: 'Quick question',
+        email_account_id: 'account-1',
+      }],
+      outgoing_emails: [{ message_id: '<sent-copy@example.com>', subject: 'Quick question' }],
+    })
+
+    const context = await loadThreadContext(supabase, {
+      campaignId: 'campaign-1',
+      contactId: 'contact-1',
+      fallbackSubject: 'Follow-up',
+    })
+
+    expect(context).toEqual({
+      inReplyTo: '<sent-copy@example.com>',
+      references: '<sent-copy@example.com>',
+      providerThreadId: null,
+      subject: 'Re: Quick question',
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { EmailValidationService } from '@/lib/email-validation'
 import dns from 'dns/promises'
+import net from 'net'
 
 // Mock DNS module
 jest.mock('dns/promises')
@@ -196,4 +197,150 @@ describe('EmailValidationService', () => {
       expect(result.provider).toBe('unknown')
     })
   })
-})
\ No newline at end of file
+})
+describe('EmailValidationService SMTP verification', () => {
+  // Minimal SMTP server that accepts RCPT TO for known mailboxes (or everything when catch-all)
+  function startFakeMx(mailboxes: string[] | '*') {
+    const state = { connections: 0, server: null as unknown as net.Server, port: 0 }
+    state.server = net.createServer(socket => {
+      state.connections++
+      socket.write('220 mx.fake.test ESMTP\r\n')
+      let buffer = ''
+      socket.on('data', chunk => {
+        buffer += chunk.toString()
+        let newline: number
+        while ((newline = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, newline)
+          buffer = buffer.slice(newline + 2)
+          const rcpt = line.match(/^RCPT TO:<(.+)>$/i)
+          if (/^EHLO/i.test(line)) socket.write('250-mx.fake.test\r\n250 SIZE 1000000\r\n')
+          else if (/^MAIL FROM/i.test(line)) socket.write('250 2.1.0 OK\r\n')
+          else if (rcpt) {
+            const accepted = mailboxes === '*' || mailboxes.includes(rcpt[1])
+            socket.write(accepted ? '250 2.1.5 OK\r\n' : '550 5.1.1 No such user\r\n')
+          } else if (/^QUIT/i.test(line)) socket.end('221 2.0.0 Bye\r\n')
+          else socket.write('502 5.5.2 Command not recognized\r\n')
+        }
+      })
+    })
+    return new Promise<typeof state>(resolve => {
+      state.server.listen(0, '127.0.0.1', () => {
+        state.port = (state.server.address() as net.AddressInfo).port
+        resolve(state)
+      })
+    })
+  }
+
+  const resolveMx = jest.fn(async (domain: string) =>
+    domain === 'nomail.test' ? [] : [{ exchange: '127.0.0.1', priority: 10 }]
+  )
+
+  let mx: Awaited<ReturnType<typeof startFakeMx>>
+
+  afterEach(async () => {
+    EmailValidationService.resetConfig()
+    resolveMx.mockClear()
+    if (mx) await new Promise(resolve => mx.server.close(resolve))
+  })
+
+  async function useFakeMx(mailboxes: string[] | '*') {
+    mx = await startFakeMx(mailboxes)
+    EmailValidationService.configure({
+      resolver: { resolveMx },
+      smtpProbe: true,
+      smtpPort: mx.port,
+      heloHost: 'verifier.test',
+      mailFrom: 'verify@verifier.test',
+      timeoutMs: 2000
+    })
+  }
+
+  it('accepts a mailbox the server confirms on a non catch-all domain', async () => {
+    await useFakeMx(['jane@acme.test'])
+
+    const result = await EmailValidationService.validateEmail('Jane@Acme.test')
+
+    expect(result).toMatchObject({ email: 'jane@acme.test', status: 'valid', isValid: true, mxHost: '127.0.0.1' })
+    expect(result.checks).toMatchObject({ mx: true, smtp: 'accepted', catchAll: false, roleAccount: false })
+  })
+
+  it('marks a mailbox rejected at RCPT TO as invalid', async () => {
+    await useFakeMx(['jane@acme.test'])
+
+    const result = await EmailValidationService.validateEmail('ghost@acme.test')
+
+    expect(result).toMatchObject({ status: 'invalid', isValid: false, reason: 'Mailbox does not exist' })
+    expect(result.checks?.smtp).toBe('rejected')
+  })
+
+  it('flags catch-all domains and role accounts as risky', async () => {
+    await useFakeMx('*')
+
+    const catchAll = await EmailValidationService.validateEmail('anyone@catchall.test')
+    expect(catchAll).toMatchObject({ status: 'risky', reason: 'Catch-all domain accepts any address' })
+    expect(catchAll.checks?.catchAll).toBe(true)
+
+    EmailValidationService.configure({ smtpProbe: false })
+    const role = await EmailValidationService.validateEmail('info@acme.test')
+    expect(role).toMatchObject({ status: 'risky', reason: 'Role account' })
+  })
+
+  it('rejects domains without MX records and disposable domains without probing', async () => {
+    await useFakeMx('*')
+
+    expect(await EmailValidationService.validateEmail('jane@nomail.test')).toMatchObject({ status: 'invalid' })
+    expect(await EmailValidationService.validateEmail('jane@inbox.mailinator.com')).toMatchObject({
+      status: 'risky',
+      reason: 'Disposable email domain'
+    })
+    expect(mx.connections).toBe(0)
+  })
+
+  it('caches results per address and per domain', async () => {
+    await useFakeMx(['jane@acme.test', 'john@acme.test'])
+
+    const { results, summary } = await EmailValidationService.validateEmails([
+      'jane@acme.test',
+      'john@acme.test',
+      'nobody@acme.test'
+    ])
+    expect(summary).toEqual({ total: 3, valid: 2, invalid: 1, risky: 0 })
+    expect(results.map(r => r.status)).toEqual(['valid', 'valid', 'invalid'])
+    expect(resolveMx).toHaveBeenCalledTimes(1)
+
+    const connections = mx.connections
+    const again = await EmailValidationService.validateEmail('jane@acme.test')
+    expect(again.cached).toBe(true)
+    expect(mx.connections).toBe(connections)
+  })
+
+  it('probes only when asked and does not reuse unprobed results for probes', async () => {
+    await useFakeMx(['jane@acme.test'])
+
+    const quick = await EmailValidationService.validateEmail('ghost@acme.test', { smtp: false })
+    expect(quick).toMatchObject({ status: 'valid' })
+    expect(quick.checks?.smtp).toBe('skipped')
+    expect(mx.connections).toBe(0)
+
+    const probed = await EmailValidationService.validateEmail('ghost@acme.test')
+    expect(probed).toMatchObject({ status: 'invalid' })
+    expect(probed.cached).toBeFalsy()
+    expect(mx.connections).toBe(1)
+  })
+
+  it('falls back to the MX result when the mail server cannot be reached', async () => {
+    await useFakeMx('*')
+    EmailValidationService.configure({ smtpPort: 1 })
+
+    const result = await EmailValidationService.validateEmail('jane@acme.test')
+
+    expect(result).toMatchObject({ status: 'valid' })
+    expect(result.checks?.smtp).toBe('unknown')
+  })
+
+  it('knows which statuses to exclude', () => {
+    expect(EmailValidationService.isExcluded('risky', ['invalid', 'risky'])).toBe(true)
+    expect(EmailValidationService.isExcluded('risky', ['invalid'])).toBe(false)
+    expect(EmailValidationService.isExcluded('unknown', ['invalid', 'risky'])).toBe(false)
+  })
+})
@@ -0,0 +1,141 @@
+import {
+  fieldsStillNeeded,
+  getEnrichmentProvider,
+  listEnrichmentProviders,
+  mergeWaterfallResults,
+  parseWaterfallOrder,
+  recordProviderCall,
+  registerEnrichmentProvider,
+  reserveProviderCall,
+  unregisterEnrichmentProvider,
+  type EnrichmentProvider,
+  type EnrichmentProviderRun,
+} from '@/lib/enrichment-providers'
+
+const run = (provider: string, fields: EnrichmentProviderRun['fields'], status: EnrichmentProviderRun['status'] = 'success'): EnrichmentProviderRun => ({
+  provider,
+  category: provider === 'linkedin' ? 'person' : 'company',
+  status,
+  fields,
+  costUsd: 0,
+  durationMs: 0,
+})
+
+const config = { minConfidence: 0.5, overwriteConfidence: 0.9 }
+const now = new Date('2025-10-28T10:00:00Z')
+
+describe('enrichment providers', () => {
+  it('registers providers by name', () => {
+    const provider: EnrichmentProvider = {
+      name: 'csv_lookup',
+      category: 'company',
+      fields: ['company', 'phone'],
+      costPerCallUsd: 0,
+      isAvailable: () => true,
+      enrich: async () => ({ success: true, fields: {} }),
+    }
+
+    registerEnrichmentProvider(provider)
+    expect(getEnrichmentProvider('csv_lookup')).toBe(provider)
+    expect(listEnrichmentProviders()).toContain(provider)
+
+    unregisterEnrichmentProvider('csv_lookup')
+    expect(getEnrichmentProvider('csv_lookup')).toBeUndefined()
+  })
+
+  it('parses the waterfall order', () => {
+    expect(parseWaterfallOrder(' website, linkedin ,website,,jina')).toEqual(['website', 'linkedin', 'jina'])
+    expect(parseWaterfallOrder('')).toBeNull()
+    expect(parseWaterfallOrder(undefined)).toBeNull()
+  })
+
+  it('skips a fallback provider once earlier providers filled its fields', () => {
+    const jina = { fields: ['company', 'enrichment_data'] as EnrichmentProvider['fields'] }
+    const linkedin = { fields: ['position', 'linkedin_profile_data'] as EnrichmentProvider['fields'] }
+
+    const websiteSucceeded = [run('website', {
+      company: { value: 'Acme GmbH', confidence: 0.9 },
+      enrichment_data: { value: { company_name: 'Acme GmbH' }, confidence: 0.9 },
+    })]
+    expect(fieldsStillNeeded(jina, websiteSucceeded, 0.5)).toEqual([])
+    expect(fieldsStillNeeded(linkedin, websiteSucceeded, 0.5)).toEqual(['position', 'linkedin_profile_data'])
+
+    const websiteFailed = [run('website', {}, 'failed')]
+    expect(fieldsStillNeeded(jina, websiteFailed, 0.5)).toEqual(['company', 'enrichment_data'])
+
+    const lowConfidence = [run('website', { company: { value: 'Acme', confidence: 0.3 } })]
+    expect(fieldsStillNeeded(jina, lowConfidence, 0.5)).toEqual(['company', 'enrichment_data'])
+  })
+
+  it('merges fields in waterfall order and records the provider of each field', () => {
+    const merged = mergeWaterfallResults(
+      { first_name: 'Jane', last_name: '', company: 'Old Name', city: null },
+      [
+        run('website', {
+          company: { value: 'Acme GmbH', confidence: 0.9 },
+          enrichment_data: { value: { company_name: 'Acme GmbH' }, confidence: 0.9 },
+        }),
+        run('jina', { company: { value: 'Acme', confidence: 0.5 } }, 'skipped'),
+        run('linkedin', {
+          first_name: { value: 'Janet', confidence: 0.8 },
+          last_name: { value: 'Doe', confidence: 0.8 },
+          company: { value: 'Acme Old Corp', confidence: 0.7 },
+          city: { value: 'Berlin', confidence: 0.8 },
+          country: { value: '', confidence: 0.8 },
+          position: { value: 'CTO', confidence: 0.4 },
+        }),
+      ],
+      config,
+      now,
+    )
+
+    expect(merged.values).toEqual({
+      company: 'Acme GmbH',
+      enrichment_data: { company_name: 'Acme GmbH' },
+      last_name: 'Doe',
+      city: 'Berlin',
+    })
+    expect(merged.fieldSources.company).toEqual({ provider: 'website', confidence: 0.9, updated_at: '2025-10-28T10:00:00.000Z' })
+    expect(merged.fieldSources.last_name?.provider).toBe('linkedin')
+    expect(merged.fieldSources.first_name).toBeUndefined()
+  })
+
+  it('lets a later confident provider fill a field the first provider was unsure about', () => {
+    const merged = mergeWaterfallResults(
+      { company: 'Acme' },
+      [
+        run('jina', { company: { value: 'Acme Inc', confidence: 0.5 } }),
+        run('company_db', { company: { value: 'Acme Incorporated', confidence: 0.95 } }),
+      ],
+      config,
+      now,
+    )
+
+    expect(merged.values.company).toBe('Acme Incorporated')
+    expect(merged.fieldSources.company?.provider).toBe('company_db')
+  })
+
+  it('reserves rate-limited calls atomically and completes the reserved row', async () => {
+    const update = jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) })
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const rpc = jest.fn()
+      .mockResolvedValueOnce({ data: 'call-1', error: null })
+      .mockResolvedValueOnce({ data: null, error: null })
+    const supabase = { rpc, from: jest.fn(() => ({ update, insert })) } as any
+    const limit = { maxCalls: 1, windowSeconds: 60 }
+
+    expect(await reserveProviderCall(supabase, 'user-1', 'contact-1', 'jina', limit)).toBe('call-1')
+    expect(await reserveProviderCall(supabase, 'user-1', 'contact-1', 'jina', limit)).toBeNull()
+    expect(rpc).toHaveBeenCalledWith('reserve_enrichment_provider_call', {
+      p_user_id: 'user-1',
+      p_contact_id: 'contact-1',
+      p_provider: 'jina',
+      p_window_seconds: 60,
+      p_max_calls: 1,
+    })
+
+    await recordProviderCall(supabase, 'user-1', 'contact-1', run('jina', {}), 'call-1')
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'success' }))
+    expect(insert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,48 @@
+import { buildNudgePrompt, isReplyTo, reminderDueAt } from '@/lib/follow-up-reminders'
+
+// Mock external dependencies to avoid import errors
+jest.mock('@/lib/outreach-agent-compose', () => ({ generateDraftWithAgent: jest.fn() }))
+
+describe('follow-up reminders', () => {
+  const reminder = {
+    message_id: '<sent-1@mail.example.com>',
+    recipient_email: 'jane@acme.com',
+    sent_at: '2025-11-03T09:00:00.000Z',
+    subject: 'Quick question',
+  }
+
+  it('is due N days after sending', () => {
+    expect(reminderDueAt(new Date(reminder.sent_at), 3).toISOString()).toBe('2025-11-06T09:00:00.000Z')
+  })
+
+  it('counts answers from the recipient or to the sent message as replies', () => {
+    expect(isReplyTo(reminder, { from_address: 'Jane Doe <Jane@Acme.com>', date_received: '2025-11-04T10:00:00Z' })).toBe(true)
+    expect(isReplyTo(reminder, {
+      from_address: 'tom@acme.com',
+      in_reply_to: 'sent-1@mail.example.com',
+      date_received: '2025-11-04T10:00:00Z',
+    })).toBe(true)
+    expect(isReplyTo(reminder, {
+      from_address: 'tom@acme.com',
+      email_references: '<root@x.com> <sent-1@mail.example.com>',
+      date_received: '2025-11-04T10:00:00Z',
+    })).toBe(true)
+  })
+
+  it('ignores earlier mail, auto-replies and unrelated senders', () => {
+    expect(isReplyTo(reminder, { from_address: 'jane@acme.com', date_received: '2025-11-02T10:00:00Z' })).toBe(false)
+    expect(isReplyTo(reminder, {
+      from_address: 'jane@acme.com',
+      date_received: '2025-11-04T10:00:00Z',
+      classification_status: 'auto_reply',
+    })).toBe(false)
+    expect(isReplyTo(reminder, { from_address: 'tom@acme.com', date_received: '2025-11-04T10:00:00Z' })).toBe(false)
+  })
+
+  it('asks the persona for a short nudge with the original email', () => {
+    const prompt = buildNudgePrompt(reminder, 'Hi Jane, would a short call work?')
+    expect(prompt).toContain('jane@acme.com')
+    expect(prompt).toContain('"Quick question" sent on 2025-11-03')
+    expect(prompt).toMatch(/Original email:\nHi Jane, would a short call work\?$/)
+  })
+})
@@ -0,0 +1,26 @@
+import { buildExtraHeaderLines, sanitizeHeaderValue } from '@/lib/gmail-imap-smtp'
+
+describe('gmail message headers', () => {
+  it('collapses line breaks so a value cannot start a new header', () => {
+    expect(sanitizeHeaderValue('<a@example.com>\r\nBcc: victim@example.com')).toBe('<a@example.com> Bcc: victim@example.com')
+    expect(sanitizeHeaderValue('plain value')).toBe('plain value')
+  })
+
+  it('keeps only known extra headers', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const lines = buildExtraHeaderLines({
+      'list-unsubscribe': '<https://example.com/u/1>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      Bcc: 'victim@example.com',
+      'X-Injected\r\nBcc': 'victim@example.com',
+    })
+
+    expect(lines).toEqual([
+      'List-Unsubscribe: <https://example.com/u/1>',
+      'List-Unsubscribe-Post: List-Unsubscribe=One-Click',
+    ])
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
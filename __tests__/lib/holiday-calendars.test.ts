@@ -0,0 +1,76 @@
+import {
+  findQuietDay,
+  getEasterSunday,
+  getPublicHolidays,
+  inferContactCountry,
+  nextSendableTime,
+  previewHolidayDelays,
+} from '@/lib/holiday-calendars'
+
+const datesOf = (country: string, year: number) => getPublicHolidays(country, year).map(h => h.date)
+
+describe('holiday calendars', () => {
+  it('computes Easter Sunday for any year', () => {
+    expect(getEasterSunday(2024).toISOString().slice(0, 10)).toBe('2024-03-31')
+    expect(getEasterSunday(2025).toISOString().slice(0, 10)).toBe('2025-04-20')
+    expect(getEasterSunday(2038).toISOString().slice(0, 10)).toBe('2038-04-25')
+  })
+
+  it('includes movable feasts relative to Easter', () => {
+    const holidays = datesOf('DE', 2025)
+    expect(holidays).toEqual(expect.arrayContaining(['2025-04-18', '2025-04-21', '2025-05-29', '2025-06-09', '2025-10-03']))
+  })
+
+  it('resolves nth-weekday holidays and US observed days', () => {
+    const holidays = datesOf('US', 2021)
+    expect(holidays).toContain('2021-05-31') // Memorial Day
+    expect(holidays).toContain('2021-11-25') // Thanksgiving
+    expect(holidays).toContain('2021-07-05') // Independence Day (observed)
+  })
+
+  it('gives Christmas and Boxing Day on a weekend separate substitute days', () => {
+    const holidays = getPublicHolidays('GB', 2021).filter(h => h.observed).map(h => h.date)
+    expect(holidays).toEqual(['2021-12-27', '2021-12-28'])
+  })
+
+  it('infers the recipient country from contact fields or the timezone', () => {
+    expect(inferContactCountry({ country: 'Deutschland' })).toBe('DE')
+    expect(inferContactCountry({ address: 'Rue de Rivoli 1, 75001 Paris, France' })).toBe('FR')
+    expect(inferContactCountry({ timezone: 'Europe/Vienna' })).toBe('AT')
+    expect(inferContactCountry({ email: 'jane@acme.co.uk' })).toBe('GB')
+    expect(inferContactCountry({ email: 'jane@acme.com' })).toBeNull()
+  })
+
+  it('applies campaign quiet days per country', () => {
+    const settings = { quiet_days: { DE: ['12-31'], '*': ['2025-08-04'] } }
+    expect(findQuietDay('2025-12-31', 'DE', settings)?.name).toBe('Quiet day')
+    expect(findQuietDay('2025-12-31', 'FR', settings)).toBeNull()
+    expect(findQuietDay('2025-08-04', 'FR', settings)?.name).toBe('Quiet day')
+  })
+
+  it('moves sends past consecutive holidays in the recipient timezone', () => {
+    const { sendAt, skipped } = nextSendableTime(new Date('2025-12-25T09:00:00Z'), {
+      country: 'DE',
+      timezone: 'Europe/Berlin',
+      settings: { avoid_holidays: true },
+    })
+    expect(sendAt.toISOString()).toBe('2025-12-27T09:00:00.000Z')
+    expect(skipped.map(s => s.name)).toEqual(['Christmas Day', 'Second Day of Christmas'])
+  })
+
+  it('previews which contacts are delayed by which holiday', () => {
+    const delays = previewHolidayDelays([
+      { id: 'c1', email: 'anna@firma.de', country: 'Germany' },
+      { id: 'c2', email: 'bob@acme.com', country: 'US' },
+    ], {
+      startTime: new Date('2025-10-03T08:00:00Z'),
+      batchSize: 10,
+      intervalMinutes: 20,
+      settings: { avoid_holidays: true },
+    })
+
+    expect(delays).toHaveLength(1)
+    expect(delays[0]).toMatchObject({ contact_id: 'c1', country: 'DE', holiday: 'German Unity Day', holiday_date: '2025-10-03' })
+    expect(delays[0].delayed_until).toBe('2025-10-04T08:00:00.000Z')
+  })
+})
@@ -0,0 +1,94 @@
+import {
+  getCampaignSenderIds,
+  getEffectiveDailyLimit,
+  getPinnedSenderDeferral,
+  getPoolRemainingQuota,
+  getWarmupFactor,
+  isRotationEnabled,
+  pickSenderCandidate,
+  recordSenderSend,
+  scoreSenderCandidate,
+  type SenderCandidate,
+} from '@/lib/inbox-rotation'
+
+const createCandidate = (id: string, overrides: Partial<SenderCandidate> = {}): SenderCandidate => ({
+  account: { id, email: `${id}@example.com`, provider: 'smtp', daily_send_limit: 50 } as SenderCandidate['account'],
+  warmupPlan: null,
+  dailyLimit: 50,
+  sentToday: 0,
+  reputationScore: 100,
+  ...overrides,
+})
+
+describe('inbox rotation', () => {
+  it('builds the sender pool with from_email_account_id first and no duplicates', () => {
+    expect(getCampaignSenderIds({ from_email_account_id: 'a', email_account_ids: ['b', 'a', 'c'] })).toEqual(['a', 'b', 'c'])
+    expect(getCampaignSenderIds({ email_account_ids: null })).toEqual([])
+  })
+
+  it('rotates only with several accounts unless account_rotation is switched off', () => {
+    expect(isRotationEnabled({ from_email_account_id: 'a' })).toBe(false)
+    expect(isRotationEnabled({ from_email_account_id: 'a', email_account_ids: ['b'] })).toBe(true)
+    expect(
+      isRotationEnabled({
+        from_email_account_id: 'a',
+        email_account_ids: ['b'],
+        send_settings: { rate_limiting: { account_rotation: false } },
+      }),
+    ).toBe(false)
+  })
+
+  it('caps the daily limit by the warmup target and scales weight by warmup progress', () => {
+    const plan = { id: 'plan-1', current_week: 1, total_weeks: 4, daily_target: 10 }
+
+    expect(getEffectiveDailyLimit({ daily_send_limit: 50 }, plan)).toBe(10)
+    expect(getEffectiveDailyLimit({ daily_send_limit: null }, null)).toBe(50)
+    expect(getWarmupFactor(plan)).toBe(0.25)
+    expect(getWarmupFactor({ ...plan, current_week: 6 })).toBe(1)
+    expect(getWarmupFactor(null)).toBe(1)
+  })
+
+  it('weights accounts by remaining quota and reputation and skips unusable ones', () => {
+    expect(scoreSenderCandidate(createCandidate('a', { sentToday: 30 }))).toBe(20)
+    expect(scoreSenderCandidate(createCandidate('b', { reputationScore: 50 }))).toBe(25)
+    expect(scoreSenderCandidate(createCandidate('c', { sentToday: 50 }))).toBe(0)
+    expect(scoreSenderCandidate(createCandidate('d', { reputationScore: 20 }))).toBe(0)
+  })
+
+  it('picks senders in proportion to their weight', () => {
+    const full = createCandidate('full')
+    const warming = createCandidate('warming', {
+      dailyLimit: 50,
+      warmupPlan: { id: 'plan-1', current_week: 1, total_weeks: 4, daily_target: 50 },
+    })
+    const pool = [full, warming]
+
+    // Weights are 50 and 12.5, so the first 80% of the range goes to the full account
+    expect(pickSenderCandidate(pool, () => 0.79)).toBe(full)
+    expect(pickSenderCandidate(pool, () => 0.81)).toBe(warming)
+  })
+
+  it('stops picking an account once its quota is used up', () => {
+    const almostDone = createCandidate('a', { dailyLimit: 1 })
+    const exhausted = createCandidate('b', { sentToday: 50 })
+    const pool = [almostDone, exhausted]
+
+    expect(getPoolRemainingQuota(pool)).toBe(1)
+    expect(pickSenderCandidate(pool, () => 0.99)).toBe(almostDone)
+
+    recordSenderSend(almostDone)
+
+    expect(getPoolRemainingQuota(pool)).toBe(0)
+    expect(pickSenderCandidate(pool)).toBeNull()
+  })
+
+  it('defers contacts of an exhausted pinned sender until the quota resets at UTC midnight', () => {
+    const now = new Date('2025-11-12T18:30:00Z')
+
+    expect(getPinnedSenderDeferral(createCandidate('a', { sentToday: 49 }), now)).toBeNull()
+    expect(getPinnedSenderDeferral(createCandidate('a', { sentToday: 50 }), now)).toEqual({
+      reason: 'Original sender a@example.com reached its daily limit',
+      deferredUntil: new Date('2025-11-13T00:00:00Z'),
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  computeRetryDelayMs,
+  resolveFailure,
+  runJobQueue,
+  type QueueJob,
+} from '@/lib/job-queue'
+
+const createJob = (overrides: Partial<QueueJob> = {}): QueueJob => ({
+  id: 'job-1',
+  queue: 'campaign_send',
+  payload: { campaignId: 'campaign-1' },
+  status: 'running',
+  priority: 0,
+  attempts: 1,
+  max_attempts: 3,
+  run_at: '2025-10-22T10:00:00.000Z',
+  locked_by: 'worker-1',
+  locked_until: '2025-10-22T10:05:00.000Z',
+  last_error: null,
+  dedupe_key: null,
+  created_at: '2025-10-22T10:00:00.000Z',
+  updated_at: '2025-10-22T10:00:00.000Z',
+  completed_at: null,
+  ...overrides,
+})
+
+/**
+ * Minimal stand-in for the Supabase client: records job_queue updates and
+ * returns the given jobs from claim_queue_jobs
+ */
+const createSupabaseStub = (jobs: QueueJob[]) => {
+  const updates: Array<Record<string, any>> = []
+
+  const supabase: any = {
+    rpc: jest.fn(async (fn: string) => (fn === 'claim_queue_jobs' ? { data: jobs, error: null } : { data: true, error: null })),
+    from: jest.fn(() => ({
+      update: (values: Record<string, any>) => {
+        updates.push(values)
+        const chain: any = { eq: () => chain, then: (resolve: any) => resolve({ error: null }) }
+        return chain
+      },
+    })),
+  }
+
+  return { supabase, updates }
+}
+
+describe('job queue', () => {
+  describe('computeRetryDelayMs', () => {
+    it('backs off exponentially and caps the delay', () => {
+      const policy = { baseDelayMs: 1000, maxDelayMs: 5000 }
+      expect(computeRetryDelayMs(1, policy)).toBe(1000)
+      expect(computeRetryDelayMs(2, policy)).toBe(2000)
+      expect(computeRetryDelayMs(3, policy)).toBe(4000)
+      expect(computeRetryDelayMs(4, policy)).toBe(5000)
+    })
+  })
+
+  describe('resolveFailure', () => {
+    const now = new Date('2025-10-22T10:00:00.000Z')
+
+    it('schedules a retry while attempts remain', () => {
+      const outcome = resolveFailure({ attempts: 2, max_attempts: 3 }, now, { baseDelayMs: 1000, maxDelayMs: 60000 })
+      expect(outcome).toEqual({ status: 'pending', runAt: new Date('2025-10-22T10:00:02.000Z') })
+    })
+
+    it('dead-letters the job on its final attempt', () => {
+      expect(resolveFailure({ attempts: 3, max_attempts: 3 }, now)).toEqual({ status: 'dead' })
+    })
+  })
+
+  describe('runJobQueue', () => {
+    it('completes jobs whose handler succeeds', async () => {
+      const { supabase, updates } = createSupabaseStub([createJob()])
+      const handler = jest.fn(async () => undefined)
+
+      const result = await runJobQueue(supabase, 'campaign_send', handler, { workerId: 'worker-1' })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(result).toMatchObject({ claimed: 1, completed: 1, retried: 0, deadLettered: 0 })
+      expect(updates[0]).toMatchObject({ status: 'completed', locked_by: null })
+    })
+
+    it('retries failed jobs and dead-letters exhausted ones', async () => {
+      const { supabase, updates } = createSupabaseStub([
+        createJob({ id: 'retry', attempts: 1 }),
+        createJob({ id: 'dead', attempts: 3 }),
+      ])
+      const onDeadLetter = jest.fn(async () => undefined)
+
+      const result = await runJobQueue(
+        supabase,
+        'campaign_send',
+        async () => {
+          throw new Error('SMTP unavailable')
+        },
+        { workerId: 'worker-1', onDeadLetter },
+      )
+
+      expect(result).toMatchObject({ claimed: 2, completed: 0, retried: 1, deadLettered: 1 })
+      expect(updates.map((update) => update.status)).toEqual(['pending', 'dead'])
+      expect(updates[0].last_error).toBe('SMTP unavailable')
+      expect(onDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ id: 'dead' }), expect.any(Error))
+    })
+  })
+})
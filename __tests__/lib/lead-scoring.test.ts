@@ -0,0 +1,131 @@
+import {
+  DEFAULT_LEAD_SCORING_MODEL,
+  collectLeadScoreEvents,
+  computeLeadScore,
+  decayFactor,
+  normalizeLeadScoringModel,
+  parseCompanySize,
+  type LeadScoringModel,
+} from '@/lib/lead-scoring'
+
+const now = new Date('2025-10-31T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+const model: LeadScoringModel = {
+  firmographic: [
+    { id: 'saas', label: 'SaaS', attribute: 'industry', keywords: ['software'], points: 20 },
+    { id: 'size', label: '50-500 employees', attribute: 'company_size', minEmployees: 50, maxEmployees: 500, points: 10 },
+    { id: 'exec', label: 'Executive', attribute: 'position', keywords: ['ceo', 'founder'], points: 15 },
+    { id: 'vip', label: 'VIP tag', attribute: 'tags', keywords: ['vip'], points: 5 },
+  ],
+  behaviour: {
+    open: { points: 4, maxEvents: 2 },
+    click: { points: 10, maxEvents: 3 },
+    reply: { points: 30, maxEvents: 1 },
+  },
+  halfLifeDays: 10,
+  negative: { bounce: -50, complaint: -100, unsubscribe: -100, out_of_office: -10 },
+}
+
+describe('lead scoring', () => {
+  it('parses company sizes from enrichment values', () => {
+    expect(parseCompanySize(250)).toBe(250)
+    expect(parseCompanySize('51-200')).toBe(51)
+    expect(parseCompanySize('1,000+ employees')).toBe(1000)
+    expect(parseCompanySize('10.000')).toBe(10000)
+    expect(parseCompanySize('unknown')).toBeNull()
+    expect(parseCompanySize(null)).toBeNull()
+  })
+
+  it('halves event weight every half-life', () => {
+    expect(decayFactor(0, 30)).toBe(1)
+    expect(decayFactor(30, 30)).toBeCloseTo(0.5)
+    expect(decayFactor(60, 30)).toBeCloseTo(0.25)
+  })
+
+  it('awards firmographic points from contact and enrichment data', () => {
+    const breakdown = computeLeadScore({
+      position: 'Co-Founder & CEO',
+      tags: ['VIP', 'customer'],
+      enrichment_data: { industry: 'Enterprise Software', company_size: '51-200' },
+    }, [], model, now)
+
+    expect(breakdown.items.map(item => [item.key, item.points])).toEqual([
+      ['saas', 20],
+      ['size', 10],
+      ['exec', 15],
+      ['vip', 5],
+    ])
+    expect(breakdown.score).toBe(50)
+  })
+
+  it('decays behavioural events and only counts the most recent ones', () => {
+    const breakdown = computeLeadScore({}, [
+      { type: 'open', occurredAt: daysAgo(0) },
+      { type: 'open', occurredAt: daysAgo(10) },
+      { type: 'open', occurredAt: daysAgo(20) },
+      { type: 'reply', occurredAt: daysAgo(20) },
+    ], model, now)
+
+    expect(breakdown.items).toEqual([
+      { category: 'behaviour', key: 'open', label: 'Email opens', count: 3, points: 6 },
+      { category: 'behaviour', key: 'reply', label: 'Replies', count: 1, points: 7.5 },
+    ])
+    expect(breakdown.rawScore).toBe(13.5)
+    expect(breakdown.score).toBe(14)
+  })
+
+  it('subtracts negative signals and clamps the score', () => {
+    const breakdown = computeLeadScore(
+      { linkedin_industry: 'Software' },
+      [
+        { type: 'bounce', occurredAt: daysAgo(100) },
+        { type: 'out_of_office', occurredAt: daysAgo(10) },
+        { type: 'out_of_office', occurredAt: daysAgo(40) },
+      ],
+      model,
+      now
+    )
+
+    expect(breakdown.items.filter(item => item.category === 'negative')).toEqual([
+      { category: 'negative', key: 'bounce', label: 'Bounced', count: 1, points: -50 },
+      { category: 'negative', key: 'out_of_office', label: 'Out of office', count: 2, points: -5 },
+    ])
+    expect(breakdown.rawScore).toBe(-35)
+    expect(breakdown.score).toBe(0)
+  })
+
+  it('collects events from tracking rows and classified replies', () => {
+    const events = collectLeadScoreEvents(
+      { unsubscribed_at: daysAgo(1) },
+      [{
+        opened_at: daysAgo(5), first_opened_at: daysAgo(5), last_opened_at: daysAgo(3),
+        clicked_at: null, last_clicked_at: null, replied_at: daysAgo(2),
+        bounced_at: null, complained_at: null, unsubscribed_at: null, status: 'replied', sent_at: daysAgo(6),
+      }],
+      [{ reply_type: 'auto_reply', created_at: daysAgo(4) }, { reply_type: 'human_reply', created_at: daysAgo(2) }]
+    )
+
+    expect(events).toEqual([
+      { type: 'open', occurredAt: daysAgo(3) },
+      { type: 'reply', occurredAt: daysAgo(2) },
+      { type: 'out_of_office', occurredAt: daysAgo(4) },
+      { type: 'unsubscribe', occurredAt: daysAgo(1) },
+    ])
+  })
+
+  it('fills missing parts of a stored model with the defaults', () => {
+    const normalized = normalizeLeadScoringModel({
+      behaviour: { reply: { points: 40 } },
+      negative: { bounce: -20 },
+      firmographic: [{ id: 'x', attribute: 'unknown', points: 5 }],
+    })
+
+    expect(normalized.firmographic).toEqual([])
+    expect(normalized.behaviour.reply).toEqual({ points: 40, maxEvents: DEFAULT_LEAD_SCORING_MODEL.behaviour.reply.maxEvents })
+    expect(normalized.behaviour.open).toEqual(DEFAULT_LEAD_SCORING_MODEL.behaviour.open)
+    expect(normalized.negative.bounce).toBe(-20)
+    expect(normalized.halfLifeDays).toBe(DEFAULT_LEAD_SCORING_MODEL.halfLifeDays)
+    expect(normalizeLeadScoringModel(null)).toEqual(DEFAULT_LEAD_SCORING_MODEL)
+  })
+})
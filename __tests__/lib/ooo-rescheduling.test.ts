@@ -0,0 +1,47 @@
+import { getOOOResumeTime, oooPostponementReason, resolveOOORules } from '@/lib/ooo-rescheduling'
+import { referralOpener } from '@/lib/referrals'
+
+// Mock external dependencies to avoid import errors
+jest.mock('@/lib/supabase-server', () => ({ createServerSupabaseClient: jest.fn() }))
+jest.mock('@/lib/supabase-client', () => ({ createClientSupabase: jest.fn() }))
+jest.mock('@/lib/contacts', () => ({ ContactService: jest.fn() }))
+
+describe('out-of-office rescheduling', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-11-05T10:00:00Z'))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('reads the buffer and alternate settings of a campaign', () => {
+    expect(resolveOOORules({})).toEqual({ bufferDays: 1, enrollAlternates: false })
+    expect(resolveOOORules({ send_settings: { out_of_office: { buffer_days: 3, enroll_alternates: true } } }))
+      .toEqual({ bufferDays: 3, enrollAlternates: true })
+    expect(resolveOOORules({ schedule_settings: { out_of_office: { buffer_days: 0 } } }).bufferDays).toBe(0)
+    expect(resolveOOORules({ send_settings: { out_of_office: { buffer_days: 90 } } }).bufferDays).toBe(30)
+    expect(resolveOOORules({ send_settings: { out_of_office: { buffer_days: -2 } } }).bufferDays).toBe(1)
+  })
+
+  it('postpones until the return date plus the buffer', () => {
+    expect(getOOOResumeTime({ auto_reply_until: '2025-11-10T00:00:00Z' }, 2)?.toISOString())
+      .toBe('2025-11-12T00:00:00.000Z')
+
+    // Back since yesterday, but still inside the buffer
+    expect(getOOOResumeTime({ auto_reply_until: '2025-11-04T12:00:00Z' }, 1)?.toISOString())
+      .toBe('2025-11-05T12:00:00.000Z')
+
+    expect(getOOOResumeTime({ auto_reply_until: '2025-11-01T00:00:00Z' }, 1)).toBeNull()
+    expect(getOOOResumeTime({ auto_reply_until: null }, 1)).toBeNull()
+    expect(getOOOResumeTime({}, 1)).toBeNull()
+  })
+
+  it('describes the postponement and the alternate opener', () => {
+    expect(oooPostponementReason('2025-11-10T00:00:00+00:00')).toBe('Out of office until 2025-11-10')
+    expect(referralOpener('Paul Schmidt', '<p>Hi {{first_name}},</p>', 'out_of_office'))
+      .toBe('Paul Schmidt is out of the office and named you as their contact.')
+    expect(referralOpener('', '<p>Hallo {{first_name}},</p>', 'out_of_office'))
+      .toBe('Ihr Kollege ist derzeit nicht im Büro und hat Sie als Ansprechpartner genannt.')
+  })
+})
@@ -0,0 +1,49 @@
+import { applyReferralOpener, extractReferrals, referralOpener } from '@/lib/referrals'
+
+// Mock external dependencies to avoid import errors
+jest.mock('@/lib/contacts', () => ({ ContactService: jest.fn() }))
+
+describe('referrals', () => {
+  it('extracts referred people with name and role', () => {
+    expect(extractReferrals('I am not the right person. Please talk to Jane Doe (jane.doe@acme.com), our Head of Marketing.'))
+      .toEqual([{ email: 'jane.doe@acme.com', firstName: 'Jane', lastName: 'Doe', role: 'Head of Marketing' }])
+
+    const [german] = extractReferrals('Bitte wenden Sie sich an Herrn Max Mustermann, Leiter Einkauf: max.mustermann@firma.de')
+    expect(german).toMatchObject({ email: 'max.mustermann@firma.de', firstName: 'Max', lastName: 'Mustermann' })
+    expect(german.role).toMatch(/^Leiter Einkauf/i)
+
+    expect(extractReferrals('Ask my colleague tom@acme.com')).toEqual([
+      { email: 'tom@acme.com', firstName: 'Tom', lastName: null, role: null },
+    ])
+  })
+
+  it('skips the sender, automated mailboxes and quoted text', () => {
+    const text = [
+      'Wrong person, sorry. Try lisa.meyer@acme.com, not no-reply@acme.com.',
+      'Best, Paul <paul@acme.com>',
+      '',
+      'On Mon, 3 Nov 2025 Sales <sales@example.com> wrote:',
+      '> Contact us at hello@example.com',
+    ].join('\n')
+
+    expect(extractReferrals(text, ['Paul <paul@acme.com>', 'sales@example.com']).map(referral => referral.email))
+      .toEqual(['lisa.meyer@acme.com'])
+  })
+
+  it('writes the opener in the language of the email', () => {
+    expect(referralOpener('Paul Schmidt', '<p>Hi {{first_name}},</p><p>Quick question.</p>'))
+      .toBe('Paul Schmidt suggested I reach out to you directly.')
+    expect(referralOpener('Paul Schmidt', '<p>Hallo {{first_name}},</p>'))
+      .toBe('Paul Schmidt hat mir empfohlen, mich direkt an Sie zu wenden.')
+    expect(referralOpener('', 'Hi there,')).toMatch(/^Your colleague/)
+  })
+
+  it('places the opener after the greeting', () => {
+    expect(applyReferralOpener('<p>Hi {{first_name}},</p><p>Quick question.</p>', 'Paul & co sent me.'))
+      .toBe('<p>Hi {{first_name}},</p><p>Paul &amp; co sent me.</p><p>Quick question.</p>')
+    expect(applyReferralOpener('<p>We help teams ship faster.</p>', 'Paul sent me.'))
+      .toBe('<p>Paul sent me.</p><p>We help teams ship faster.</p>')
+    expect(applyReferralOpener('Hi Jane,\n\nQuick question.', 'Paul sent me.'))
+      .toBe('Hi Jane,\n\nPaul sent me.\n\nQuick question.')
+  })
+})
@@ -0,0 +1,166 @@
+import { EmailClassifier, classificationLabel, stripQuotedText, type IncomingEmail } from '@/lib/email-classifier'
+import {
+  LLMReplyClassifier,
+  buildClassificationPrompt,
+  computeClassificationMetrics,
+  parseClassificationResponse,
+  selectFewShotExamples,
+} from '@/lib/reply-classifier'
+
+// Mock external dependencies to avoid import errors
+jest.mock('openai', () => ({}))
+
+const reply = (textContent: string, overrides: Partial<IncomingEmail> = {}): IncomingEmail => ({
+  id: 'e1',
+  messageId: '<m1@example.com>',
+  inReplyTo: '<sent1@example.com>',
+  fromAddress: 'anna@example.de',
+  toAddress: 'sales@example.com',
+  subject: 'Re: Quick question',
+  textContent,
+  dateReceived: '2025-11-03T10:00:00Z',
+  ...overrides,
+})
+
+describe('reply classification', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('detects the finer intents of human replies', async () => {
+    const classifier = new EmailClassifier()
+    const intent = async (text: string) => (await classifier.classifyEmail(reply(text))).intent
+
+    expect(await intent('Sounds good, can we schedule a call on Thursday?')).toBe('meeting_request')
+    expect(await intent('Interesting, please send me more information.')).toBe('interested')
+    expect(await intent('Not right now, maybe next quarter.')).toBe('not_now')
+    expect(await intent('I am not the right person, please contact my colleague Tom.')).toBe('wrong_person')
+    expect(await intent('Looks nice but way too expensive for us.')).toBe('objection_pricing')
+    expect(await intent('We already use HubSpot for this.')).toBe('competitor')
+    expect(await intent('Kein Interesse, danke.')).toBe('not_interested')
+    expect(await intent('Ok.')).toBe('unknown')
+  })
+
+  it('ignores the quoted original message', async () => {
+    const text = 'Thanks, not for us.\n\nOn Mon, 3 Nov 2025 Sales <sales@example.com> wrote:\n> Are you interested in a call?'
+
+    expect(stripQuotedText(text)).toBe('Thanks, not for us.')
+    expect((await new EmailClassifier().classifyEmail(reply(text))).intent).toBe('unknown')
+  })
+
+  it('builds a few-shot prompt from balanced examples', () => {
+    const rows = [
+      { subject: 'Re: a', excerpt: 'Call me Tuesday', corrected_label: 'meeting_request' },
+      { subject: 'Re: b', excerpt: 'Tuesday works', corrected_label: 'meeting_request' },
+      { subject: 'Re: c', excerpt: 'How about Friday', corrected_label: 'meeting_request' },
+      { subject: 'Re: d', excerpt: 'Ask Tom', corrected_label: 'wrong_person' },
+      { subject: 'Re: e', excerpt: '', corrected_label: 'question' },
+      { subject: 'Re: f', excerpt: 'Hm', corrected_label: 'made_up' },
+    ]
+    const examples = selectFewShotExamples(rows)
+
+    expect(examples.map(example => example.excerpt)).toEqual(['Call me Tuesday', 'Tuesday works', 'Ask Tom'])
+
+    const prompt = buildClassificationPrompt(reply('Please talk to Tom.\n> old text'), examples)
+    expect(prompt).toContain('- wrong_person: not the right contact')
+    expect(prompt).toContain('Reply: Ask Tom\nLabel: wrong_person')
+    expect(prompt).toContain('Reply: Please talk to Tom.\n')
+    expect(prompt).not.toContain('old text')
+  })
+
+  it('parses LLM answers', () => {
+    expect(parseClassificationResponse('Here you go: {"label": "Not_Now", "sentiment": "neutral", "confidence": 0.8}'))
+      .toEqual({ label: 'not_now', sentiment: 'neutral', confidence: 0.8 })
+    expect(parseClassificationResponse('{"label": "competitor", "sentiment": "angry", "confidence": 3}'))
+      .toEqual({ label: 'competitor', sentiment: 'neutral', confidence: 1 })
+    expect(parseClassificationResponse('{"label": "maybe"}')).toBeNull()
+    expect(parseClassificationResponse('no json')).toBeNull()
+  })
+
+  it('classifies with the LLM and falls back to the heuristics', async () => {
+    const generateText = jest.fn().mockResolvedValue({
+      text: '{"label": "objection_pricing", "sentiment": "negative", "confidence": 0.9}',
+      tokensUsed: 10,
+      provider: 'openai',
+      processingTime: 1,
+    })
+    const classifier = new LLMReplyClassifier({ provider: 'openai', service: { generateText } })
+
+    expect(await classifier.classifyEmail(reply('Budget is tight this year.'))).toMatchObject({
+      type: 'human_reply',
+      intent: 'objection_pricing',
+      sentiment: 'negative',
+      confidence: 0.9,
+      requiresHumanReview: true,
+      classifier: 'llm',
+    })
+
+    generateText.mockRejectedValueOnce(new Error('Rate limit exceeded'))
+    const fallback = await classifier.classifyEmail(reply('We already use another tool.'))
+    expect(fallback.intent).toBe('competitor')
+    expect(fallback.classifier).toBeUndefined()
+
+    generateText.mockClear()
+    const bounce = await classifier.classifyEmail(reply('550 5.1.1 User unknown', {
+      fromAddress: 'mailer-daemon@example.com',
+      subject: 'Undelivered Mail Returned to Sender',
+    }))
+    expect(bounce.type).toBe('bounce')
+    expect(generateText).not.toHaveBeenCalled()
+  })
+
+  it('keeps bounce and auto-reply labels to what the heuristics detected', async () => {
+    const generateText = jest.fn().mockResolvedValue({
+      text: '{"label": "auto_reply", "sentiment": "neutral", "confidence": 0.95}',
+      tokensUsed: 10,
+      provider: 'openai',
+      processingTime: 1,
+    })
+    const classifier = new LLMReplyClassifier({ provider: 'openai', service: { generateText } })
+
+    const human = await classifier.classifyEmail(reply('Thanks, can you send me your pricing?'))
+    expect(human.type).toBe('human_reply')
+    expect(human.classifier).toBeUndefined()
+
+    generateText.mockResolvedValueOnce({
+      text: '{"label": "bounce", "sentiment": "neutral", "confidence": 0.95}',
+      tokensUsed: 10,
+      provider: 'openai',
+      processingTime: 1,
+    })
+    expect((await classifier.classifyEmail(reply('Thanks, can you send me your pricing?'))).type).toBe('human_reply')
+
+    const outOfOffice = reply('I am out of office until 12/01/2025 with limited access to email.', {
+      subject: 'Automatic reply: Quick question',
+    })
+    const heuristic = await new EmailClassifier().classifyEmail(outOfOffice)
+    expect(heuristic.type).toBe('auto_reply')
+    expect(await classifier.classifyEmail(outOfOffice)).toEqual(heuristic)
+  })
+
+  it('reports accuracy from corrections', () => {
+    const metrics = computeClassificationMetrics({ heuristic: 20, llm: 10 }, [
+      { classifier: 'heuristic', predicted_label: 'interested', corrected_label: 'meeting_request' },
+      { classifier: 'heuristic', predicted_label: 'interested', corrected_label: 'meeting_request' },
+      { classifier: 'heuristic', predicted_label: 'interested', corrected_label: 'interested' },
+      { classifier: 'llm', predicted_label: 'not_now', corrected_label: 'not_now' },
+    ])
+
+    expect(metrics).toMatchObject({ classified: 30, reviewed: 4, corrected: 2, accuracy: 0.5, estimatedAccuracy: 0.933 })
+    expect(metrics.classifiers).toEqual([
+      { classifier: 'heuristic', classified: 20, reviewed: 3, corrected: 2, accuracy: 0.333 },
+      { classifier: 'llm', classified: 10, reviewed: 1, corrected: 0, accuracy: 1 },
+    ])
+    expect(metrics.labels[0]).toEqual({ label: 'interested', reviewed: 3, corrected: 2, accuracy: 0.333 })
+    expect(metrics.confusions).toEqual([{ predicted: 'interested', corrected: 'meeting_request', count: 2 }])
+    expect(computeClassificationMetrics({}, []).accuracy).toBeNull()
+    expect(classificationLabel('human_reply', 'positive')).toBe('unknown')
+    expect(classificationLabel('unclassified')).toBeNull()
+  })
+})
@@ -0,0 +1,187 @@
+import {
+  SegmentRuleValidationError,
+  customFieldSegmentFields,
+  segmentRuleFields,
+  segmentRulesDependOnTime,
+  segmentRulesFromConditions,
+  segmentRulesFromFilterCriteria,
+  segmentRulesFromLegacy,
+  validateSegmentRules,
+  type SegmentRuleNode,
+} from '@/lib/segment-rules'
+
+const campaignId = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+const sequenceId = '9b2d1c3e-1f4a-4c6b-8d7e-2a3b4c5d6e7f'
+
+const issuesOf = (rules: unknown): string[] => {
+  try {
+    validateSegmentRules(rules)
+    return []
+  } catch (error) {
+    return error instanceof SegmentRuleValidationError ? error.issues : ['unexpected error']
+  }
+}
+
+describe('segment rules', () => {
+  it('accepts nested groups with related-data predicates', () => {
+    const rules = validateSegmentRules({
+      type: 'group',
+      logic: 'AND',
+      children: [
+        { type: 'in_campaign', campaign_id: campaignId },
+        {
+          type: 'group',
+          logic: 'OR',
+          children: [
+            { type: 'opened_email', within_days: '7' },
+            { type: 'replied_to_sequence', sequence_id: sequenceId },
+          ],
+        },
+        {
+          type: 'group',
+          logic: 'NOT',
+          children: [{ type: 'has_tag', tags: [' customer ', ''] }],
+        },
+        { type: 'enriched_industry', industry: ' Software ' },
+        { type: 'field', field: 'engagement_open_count', operator: 'greater_than', value: '2' },
+      ],
+    })
+
+    expect(rules).toEqual({
+      type: 'group',
+      logic: 'AND',
+      children: [
+        { type: 'in_campaign', campaign_id: campaignId },
+        {
+          type: 'group',
+          logic: 'OR',
+          children: [
+            { type: 'opened_email', within_days: 7 },
+            { type: 'replied_to_sequence', sequence_id: sequenceId },
+          ],
+        },
+        { type: 'group', logic: 'NOT', children: [{ type: 'has_tag', tags: ['customer'], match: 'any' }] },
+        { type: 'enriched_industry', industry: 'Software' },
+        { type: 'field', field: 'engagement_open_count', operator: 'greater_than', value: 2 },
+      ],
+    })
+  })
+
+  it('reports every invalid rule with its path', () => {
+    expect(issuesOf({
+      type: 'group',
+      logic: 'XOR',
+      children: [
+        { type: 'field', field: 'password', operator: 'equals', value: 'x' },
+        { type: 'field', field: 'company', operator: 'greater_than', value: 'x' },
+        { type: 'in_campaign', campaign_id: "1'; drop table contacts; --" },
+        { type: 'opened_email', within_days: 0 },
+        { type: 'field', field: 'created_at', operator: 'greater_than', value: 'yesterday' },
+      ],
+    })).toEqual([
+      'rules.logic: must be AND, OR or NOT',
+      'rules.children[0].field: unknown field "password"',
+      'rules.children[1].operator: "greater_than" is not supported for company',
+      'rules.children[2].campaign_id: expected an id',
+      'rules.children[3].within_days: expected a number of days between 1 and 3650',
+      'rules.children[4].value: expected a date',
+    ])
+  })
+
+  it('limits nesting depth', () => {
+    let rules: SegmentRuleNode = { type: 'field', field: 'company', operator: 'is_empty' }
+    for (let depth = 0; depth < 10; depth++) {
+      rules = { type: 'group', logic: 'AND', children: [rules] }
+    }
+
+    expect(issuesOf(rules)).toEqual([expect.stringContaining('nested deeper than 8 levels')])
+  })
+
+  it('accepts rules on defined custom fields only', () => {
+    const customFields = customFieldSegmentFields([
+      { key: 'seats', label: 'Seats', type: 'number' },
+      { key: 'modules', label: 'Modules', type: 'multi_select' },
+    ])
+
+    expect(validateSegmentRules({
+      type: 'group',
+      logic: 'AND',
+      children: [
+        { type: 'field', field: 'custom.seats', operator: 'greater_than', value: '10' },
+        { type: 'field', field: 'custom.modules', operator: 'contains', value: 'CRM' },
+      ],
+    }, customFields)).toEqual({
+      type: 'group',
+      logic: 'AND',
+      children: [
+        { type: 'field', field: 'custom.seats', operator: 'greater_than', value: 10, value_type: 'number' },
+        { type: 'field', field: 'custom.modules', operator: 'contains', value: 'CRM', value_type: 'array' },
+      ],
+    })
+    expect(issuesOf({ type: 'field', field: 'custom.unknown', operator: 'is_empty' }))
+      .toEqual([expect.stringContaining('custom.unknown')])
+  })
+
+  it('detects rules that change as time passes', () => {
+    expect(segmentRulesDependOnTime({
+      type: 'group',
+      logic: 'NOT',
+      children: [{ type: 'opened_email', within_days: 30 }],
+    })).toBe(true)
+    expect(segmentRulesDependOnTime({ type: 'field', field: 'created_at', operator: 'within_last_days', value: 30 })).toBe(true)
+    expect(segmentRulesDependOnTime({ type: 'field', field: 'created_at', operator: 'greater_than', value: '2025-01-01' })).toBe(false)
+    expect(segmentRuleFields({
+      type: 'group',
+      logic: 'AND',
+      children: [{ type: 'has_tag', tags: ['a'], match: 'all' }, { type: 'field', field: 'company', operator: 'is_empty' }],
+    })).toEqual(['has_tag', 'company'])
+  })
+
+  it('converts flat conditions of the original format', () => {
+    expect(segmentRulesFromConditions([
+      {
+        logic: 'OR',
+        rules: [
+          { field: 'job_title', operator: 'contains', value: 'CEO' },
+          { field: 'email_status', operator: 'equals', value: 'valid' },
+        ],
+      },
+      { logic: 'AND', rules: [{ field: 'status', operator: 'not_equals', value: 'bounced' }] },
+    ])).toEqual({
+      type: 'group',
+      logic: 'AND',
+      children: [
+        { type: 'group', logic: 'OR', children: [{ type: 'field', field: 'position', operator: 'contains', value: 'CEO' }] },
+        {
+          type: 'group',
+          logic: 'AND',
+          children: [{
+            type: 'group',
+            logic: 'NOT',
+            children: [{ type: 'field', field: 'engagement_bounce_count', operator: 'greater_than', value: 0 }],
+          }],
+        },
+      ],
+    })
+  })
+
+  it('converts the filters of the creation form', () => {
+    const rules = segmentRulesFromFilterCriteria({ company: ' Acme ', location: 'Berlin', industry: 'technology', jobTitle: '' })
+
+    expect(rules.children).toEqual([
+      { type: 'field', field: 'company', operator: 'contains', value: 'Acme' },
+      {
+        type: 'group',
+        logic: 'OR',
+        children: [
+          { type: 'field', field: 'city', operator: 'contains', value: 'Berlin' },
+          { type: 'field', field: 'country', operator: 'contains', value: 'Berlin' },
+        ],
+      },
+      { type: 'enriched_industry', industry: 'technology' },
+    ])
+    expect(validateSegmentRules(rules)).toEqual(rules)
+    expect(segmentRulesFromLegacy({ company: 'Acme' })).toEqual(segmentRulesFromFilterCriteria({ company: 'Acme' }))
+    expect(segmentRulesFromLegacy(null)).toEqual({ type: 'group', logic: 'AND', children: [] })
+  })
+})
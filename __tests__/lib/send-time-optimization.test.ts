@@ -0,0 +1,86 @@
+import {
+  buildSendTimeModel,
+  getLocalHour,
+  nextOccurrenceOfHour,
+  nextOptimizedSendTime,
+  pickBestHour,
+  predictSendHour,
+  type SendTimeContact,
+} from '@/lib/send-time-optimization'
+
+const now = new Date('2025-10-20T12:00:00Z')
+
+const contacts = new Map<string, SendTimeContact>([
+  ['anna', { id: 'anna', email: 'anna@firma.de', timezone: 'Europe/Berlin' }],
+  ['ben', { id: 'ben', email: 'ben@firma.de', timezone: 'Europe/Berlin' }],
+  ['cara', { id: 'cara', email: 'cara@elsewhere.com', timezone: 'America/New_York' }],
+  ['dan', { id: 'dan', email: 'dan@newco.io', timezone: 'UTC' }],
+])
+
+describe('send-time optimization', () => {
+  it('reads the local hour in the recipient timezone', () => {
+    expect(getLocalHour(new Date('2025-10-20T07:30:00Z'), 'Europe/Berlin')).toBe(9)
+    expect(getLocalHour(new Date('2025-10-20T07:30:00Z'), 'America/New_York')).toBe(3)
+  })
+
+  it('smooths the histogram so a consistent window beats a single spike', () => {
+    const histogram = new Array(24).fill(0)
+    histogram[9] = 3
+    histogram[10] = 3
+    histogram[22] = 4
+    expect(pickBestHour(histogram)?.hour).toBe(9)
+    expect(pickBestHour(new Array(24).fill(0))).toBeNull()
+  })
+
+  it('predicts from the contact history when there is enough of it', () => {
+    const model = buildSendTimeModel([
+      { contact_id: 'anna', opened_at: '2025-10-01T06:10:00Z' },
+      { contact_id: 'anna', opened_at: '2025-10-08T06:40:00Z', clicked_at: '2025-10-08T06:45:00Z' },
+    ], contacts, 'UTC', now)
+
+    expect(predictSendHour(model, contacts.get('anna')!)).toMatchObject({
+      hour: 8,
+      timezone: 'Europe/Berlin',
+      source: 'contact',
+      sampleSize: 3,
+    })
+  })
+
+  it('falls back to the recipient domain, then to no prediction', () => {
+    const events = Array.from({ length: 10 }, (_, i) => ({
+      contact_id: 'anna',
+      opened_at: `2025-09-${String(i + 10).padStart(2, '0')}T12:05:00Z`,
+    }))
+    const model = buildSendTimeModel(events, contacts, 'UTC', now)
+
+    expect(predictSendHour(model, contacts.get('ben')!)).toMatchObject({ hour: 14, source: 'domain' })
+    expect(predictSendHour(model, contacts.get('cara')!)).toBeNull()
+    expect(predictSendHour(model, contacts.get('dan')!)).toBeNull()
+  })
+
+  it('finds the next occurrence of a local hour', () => {
+    expect(nextOccurrenceOfHour(new Date('2025-10-20T10:20:00Z'), 9, 'Europe/Berlin').toISOString())
+      .toBe('2025-10-21T07:00:00.000Z')
+    expect(nextOccurrenceOfHour(new Date('2025-10-20T07:20:00Z'), 9, 'Europe/Berlin').toISOString())
+      .toBe('2025-10-20T07:20:00.000Z')
+    expect(nextOccurrenceOfHour(new Date('2025-10-20T00:00:00Z'), 9, 'Asia/Kolkata').toISOString())
+      .toBe('2025-10-20T03:30:00.000Z')
+  })
+
+  it('keeps optimized sends inside business hours and time windows', () => {
+    const businessHours = { business_hours_only: true, business_hours_start: '09:00', business_hours_end: '17:00' }
+
+    // Monday 08:00 Berlin: the predicted 10:00 is allowed
+    expect(nextOptimizedSendTime(new Date('2025-10-20T06:00:00Z'), 10, 'Europe/Berlin', businessHours)?.toISOString())
+      .toBe('2025-10-20T08:00:00.000Z')
+    // Friday evening: 20:00 is outside business hours, so the closest allowed hour on Monday
+    expect(nextOptimizedSendTime(new Date('2025-10-24T18:00:00Z'), 20, 'Europe/Berlin', businessHours)?.toISOString())
+      .toBe('2025-10-27T15:00:00.000Z')
+
+    const windows = { custom_time_windows: [{ start_time: '13:00', end_time: '15:00', days: [2] }] }
+    expect(nextOptimizedSendTime(new Date('2025-10-20T06:00:00Z'), 9, 'UTC', windows)?.toISOString())
+      .toBe('2025-10-21T13:00:00.000Z')
+    expect(nextOptimizedSendTime(new Date('2025-10-20T06:00:00Z'), 9, 'UTC', { custom_time_windows: [{ start_time: '10:00', end_time: '10:00' }] }))
+      .toBeNull()
+  })
+})
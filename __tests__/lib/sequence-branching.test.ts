@@ -0,0 +1,156 @@
+import { EmailStep, StepCondition } from '@/lib/campaigns'
+import {
+  appendBranchPathEntry,
+  buildEngagementSignals,
+  evaluateStepCondition,
+  resolveBranchDecision,
+  formatBranchPath,
+  toBranchPathEntry,
+  StepEngagementSignals,
+} from '@/lib/sequence-branching'
+
+const createStep = (stepNumber: number, conditions: StepCondition[] = []): EmailStep => ({
+  id: `step-${stepNumber}`,
+  step_number: stepNumber,
+  name: `Step ${stepNumber}`,
+  subject_template: `Subject ${stepNumber}`,
+  content_template: `Content ${stepNumber}`,
+  delay_days: stepNumber === 1 ? 0 : 2,
+  delay_hours: 0,
+  conditions,
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+})
+
+const signals = (overrides: Partial<StepEngagementSignals> = {}): StepEngagementSignals => ({
+  opened: false,
+  clicked: false,
+  replied: false,
+  open_count: 0,
+  click_count: 0,
+  last_email_sent_at: null,
+  previous_step_opened: false,
+  previous_step_clicked: false,
+  ...overrides
+})
+
+describe('sequence-branching', () => {
+  describe('buildEngagementSignals', () => {
+    it('should aggregate opens, clicks and replies across tracking rows', () => {
+      const result = buildEngagementSignals([
+        { message_id: 'job-1', sent_at: '2024-01-01T10:00:00Z', opened_at: '2024-01-01T11:00:00Z', clicked_at: null, replied_at: null, open_count: 2 },
+        { message_id: 'job-2', sent_at: '2024-01-03T10:00:00Z', opened_at: null, clicked_at: '2024-01-03T12:00:00Z', replied_at: null }
+      ], ['job-2'])
+
+      expect(result.opened).toBe(true)
+      expect(result.open_count).toBe(2)
+      expect(result.clicked).toBe(true)
+      expect(result.replied).toBe(false)
+      expect(result.last_email_sent_at).toBe('2024-01-03T10:00:00Z')
+      expect(result.previous_step_opened).toBe(false)
+      expect(result.previous_step_clicked).toBe(true)
+    })
+
+    it('should return empty signals when there is no tracking data', () => {
+      expect(buildEngagementSignals([])).toEqual(signals())
+    })
+  })
+
+  describe('evaluateStepCondition', () => {
+    it('should treat boolean conditions without a value as true', () => {
+      const condition: StepCondition = { id: 'c1', type: 'email_opened', operator: 'equals', value: undefined, action: 'skip_step' }
+      expect(evaluateStepCondition(condition, signals({ opened: true }))).toBe(true)
+      expect(evaluateStepCondition(condition, signals())).toBe(false)
+    })
+
+    it('should support not_equals for "not opened" branches', () => {
+      const condition: StepCondition = { id: 'c1', type: 'email_opened', operator: 'not_equals', value: true, action: 'branch_to_step' }
+      expect(evaluateStepCondition(condition, signals())).toBe(true)
+    })
+
+    it('should compare elapsed hours since the last send', () => {
+      const condition: StepCondition = { id: 'c1', type: 'time_elapsed', operator: 'greater_than', value: 48, action: 'stop_sequence' }
+      const now = new Date('2024-01-04T12:00:00Z')
+      expect(evaluateStepCondition(condition, signals({ last_email_sent_at: '2024-01-01T12:00:00Z' }), now)).toBe(true)
+      expect(evaluateStepCondition(condition, signals({ last_email_sent_at: '2024-01-03T12:00:00Z' }), now)).toBe(false)
+    })
+  })
+
+  describe('resolveBranchDecision', () => {
+    it('should continue when no condition matches', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'reply_received', operator: 'equals', value: true, action: 'stop_sequence' }])
+      const step2 = createStep(2)
+      const decision = resolveBranchDecision(step1, step2, [step1, step2], signals())
+
+      expect(decision.action).toBe('continue')
+      expect(decision.next_step).toBe(2)
+    })
+
+    it('should branch to the target step by id', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'link_clicked', operator: 'equals', value: true, action: 'branch_to_step', target_step_id: 'step-3', delay_hours: 4 }])
+      const sequence = [step1, createStep(2), createStep(3)]
+      const decision = resolveBranchDecision(step1, sequence[1], sequence, signals({ clicked: true }))
+
+      expect(decision.action).toBe('branch')
+      expect(decision.next_step).toBe(3)
+      expect(decision.delay_hours).toBe(4)
+      expect(decision.condition_id).toBe('c1')
+    })
+
+    it('should skip to the step after the upcoming one', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'email_opened', operator: 'equals', value: true, action: 'skip_step' }])
+      const sequence = [step1, createStep(2), createStep(3)]
+      const decision = resolveBranchDecision(step1, sequence[1], sequence, signals({ opened: true }))
+
+      expect(decision.action).toBe('skip')
+      expect(decision.next_step).toBe(3)
+    })
+
+    it('should stop when skipping past the last step', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'email_opened', operator: 'equals', value: true, action: 'skip_step' }])
+      const sequence = [step1, createStep(2)]
+      const decision = resolveBranchDecision(step1, sequence[1], sequence, signals({ opened: true }))
+
+      expect(decision.action).toBe('stop')
+      expect(decision.next_step).toBeNull()
+    })
+
+    it('should only apply a delay once per transition', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'email_opened', operator: 'not_equals', value: true, action: 'delay_step', delay_hours: 12 }])
+      const sequence = [step1, createStep(2)]
+
+      expect(resolveBranchDecision(step1, sequence[1], sequence, signals()).action).toBe('delay')
+      expect(resolveBranchDecision(step1, sequence[1], sequence, signals(), { delayAlreadyApplied: true }).action).toBe('continue')
+    })
+  })
+
+  describe('appendBranchPathEntry', () => {
+    it('should not record a re-evaluated job twice', () => {
+      const step1 = createStep(1, [{ id: 'c1', type: 'email_opened', operator: 'not_equals', value: true, action: 'delay_step', delay_hours: 12 }])
+      const sequence = [step1, createStep(2)]
+
+      // First evaluation delays, then the held-back job is evaluated again each cycle
+      let path = appendBranchPathEntry([], resolveBranchDecision(step1, sequence[1], sequence, signals()))
+      for (let cycle = 0; cycle < 3; cycle++) {
+        path = appendBranchPathEntry(path, resolveBranchDecision(step1, sequence[1], sequence, signals(), { delayAlreadyApplied: true }))
+      }
+
+      expect(path.map(entry => entry.action)).toEqual(['delay', 'continue'])
+      expect(appendBranchPathEntry(path, resolveBranchDecision(step1, sequence[1], sequence, signals(), { delayAlreadyApplied: true }))).toBe(path)
+    })
+  })
+
+  describe('formatBranchPath', () => {
+    it('should render the steps a contact went through', () => {
+      const path = [
+        toBranchPathEntry({ action: 'delay', from_step: 1, next_step: 2, reason: 'r' }),
+        toBranchPathEntry({ action: 'branch', from_step: 1, next_step: 3, reason: 'r' }),
+        toBranchPathEntry({ action: 'stop', from_step: 3, next_step: null, reason: 'r' })
+      ]
+
+      expect(formatBranchPath(path)).toBe('1 → 3 → stop')
+      expect(formatBranchPath([])).toBe('')
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import {
+  aggregateEdgeStats,
+  edgeBypassesFilter,
+  matchesEdgeCondition,
+  validateSequenceGraph,
+  SequenceGraph,
+  SequenceGraphEdge,
+} from '@/lib/sequence-graph'
+
+const edge = (source: string, target: string, overrides: Partial<SequenceGraphEdge> = {}): SequenceGraphEdge => ({
+  source,
+  target,
+  condition_type: 'no_reply',
+  delay_days: 3,
+  delay_hours: 0,
+  priority: 0,
+  ...overrides
+})
+
+const graph = (edges: SequenceGraphEdge[], entry: string | null = 'a'): SequenceGraph => ({
+  entry_campaign_id: entry,
+  nodes: ['a', 'b', 'c'].map((id, index) => ({ id, name: id.toUpperCase(), position: { x: index * 100, y: 0 } })),
+  edges
+})
+
+const engagement = { openedCount: 0, clickedCount: 0, replied: false, bounced: false, autoReplyActive: false }
+
+describe('sequence-graph', () => {
+  describe('validateSequenceGraph', () => {
+    it('should accept a branching acyclic graph', () => {
+      const result = validateSequenceGraph(graph([
+        edge('a', 'b', { condition_type: 'opened' }),
+        edge('a', 'c', { condition_type: 'not_opened', priority: 1 })
+      ]))
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('should detect cycles', () => {
+      const result = validateSequenceGraph(graph([edge('a', 'b'), edge('b', 'c'), edge('c', 'b')]))
+
+      expect(result.valid).toBe(false)
+      expect(result.cycles).toEqual([['b', 'c', 'b']])
+      expect(result.errors).toContain('Cycle detected: B → C → B')
+    })
+
+    it('should report campaigns unreachable from the entry', () => {
+      const result = validateSequenceGraph(graph([edge('a', 'b')]))
+
+      expect(result.valid).toBe(false)
+      expect(result.unreachable).toEqual(['c'])
+    })
+
+    it('should reject self loops, duplicates and unknown campaigns', () => {
+      const result = validateSequenceGraph(graph([
+        edge('a', 'b'),
+        edge('a', 'b'),
+        edge('b', 'c'),
+        edge('c', 'c'),
+        edge('c', 'z')
+      ]))
+
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'Duplicate edge A → B',
+        'C cannot link to itself',
+        'Edge C → z references a campaign outside this sequence'
+      ]))
+    })
+
+    it('should require an entry campaign', () => {
+      expect(validateSequenceGraph(graph([edge('a', 'b'), edge('b', 'c')], null)).errors).toContain('An entry campaign is required')
+    })
+  })
+
+  describe('matchesEdgeCondition', () => {
+    it('should evaluate engagement conditions', () => {
+      expect(matchesEdgeCondition('opened', { ...engagement, openedCount: 1 })).toBe(true)
+      expect(matchesEdgeCondition('not_opened', engagement)).toBe(true)
+      expect(matchesEdgeCondition('not_opened', { ...engagement, openedCount: 2 })).toBe(false)
+      expect(matchesEdgeCondition('clicked', engagement)).toBe(false)
+      expect(matchesEdgeCondition('replied', { ...engagement, replied: true })).toBe(true)
+      expect(matchesEdgeCondition('no_reply', { ...engagement, replied: true })).toBe(false)
+      expect(matchesEdgeCondition('bounced', { ...engagement, bounced: true })).toBe(true)
+      expect(matchesEdgeCondition('auto_reply', { ...engagement, autoReplyActive: true })).toBe(true)
+      expect(matchesEdgeCondition('always', engagement)).toBe(true)
+    })
+
+    it('should let bounce and auto-reply edges bypass their filters', () => {
+      expect(edgeBypassesFilter('bounced', 'bounced')).toBe(true)
+      expect(edgeBypassesFilter('auto_reply', 'auto_reply')).toBe(true)
+      expect(edgeBypassesFilter('no_reply', 'bounced')).toBe(false)
+    })
+  })
+
+  describe('aggregateEdgeStats', () => {
+    it('should count enrollments per link by status', () => {
+      const stats = aggregateEdgeStats([
+        { current_link_id: 'l1', status: 'in_progress' },
+        { current_link_id: 'l1', status: 'completed' },
+        { current_link_id: 'l2', status: 'stopped' },
+        { current_link_id: null, status: 'in_progress' }
+      ])
+
+      expect(stats).toEqual({
+        l1: { total: 2, in_progress: 1, completed: 1, stopped: 0 },
+        l2: { total: 1, in_progress: 0, completed: 0, stopped: 1 }
+      })
+    })
+  })
+})
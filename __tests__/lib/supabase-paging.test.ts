@@ -0,0 +1,28 @@
+import { PAGE_SIZE, selectAllPages } from '@/lib/supabase-paging'
+
+const rows = (from: number, to: number, total: number) =>
+  Array.from({ length: Math.max(0, Math.min(to, total - 1) - from + 1) }, (_, index) => ({ id: from + index }))
+
+describe('selectAllPages', () => {
+  it('reads pages until a short page', async () => {
+    const page = jest.fn(async (from: number, to: number) => ({ data: rows(from, to, 2500), error: null, count: 2500 }))
+
+    const result = await selectAllPages(page)
+
+    expect(result.data).toHaveLength(2500)
+    expect(result.count).toBe(2500)
+    expect(result.error).toBeNull()
+    expect(page.mock.calls).toEqual([[0, PAGE_SIZE - 1], [PAGE_SIZE, 2 * PAGE_SIZE - 1], [2 * PAGE_SIZE, 3 * PAGE_SIZE - 1]])
+  })
+
+  it('stops at maxRows and on errors', async () => {
+    const page = jest.fn(async (from: number, to: number) => ({ data: rows(from, to, 10000), error: null }))
+    const capped = await selectAllPages(page, { maxRows: 1500 })
+    expect(capped.data).toHaveLength(1500)
+    expect(page).toHaveBeenLastCalledWith(PAGE_SIZE, 1499)
+
+    const failing = await selectAllPages(async () => ({ data: null, error: { message: 'boom' } as any }))
+    expect(failing.error?.message).toBe('boom')
+    expect(failing.data).toEqual([])
+  })
+})
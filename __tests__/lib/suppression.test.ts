@@ -0,0 +1,91 @@
+import {
+  buildListUnsubscribeHeaders,
+  buildSuppressionSet,
+  isSuppressed,
+  parseSuppressionCsv,
+  parseSuppressionValue,
+  suppressionSearchFilter,
+  toSuppressionCsv,
+  SuppressionEntry,
+} from '@/lib/suppression'
+
+describe('suppression', () => {
+  describe('parseSuppressionValue', () => {
+    it('classifies emails and domains', () => {
+      expect(parseSuppressionValue(' Jane@Example.com ')).toEqual({ email: 'jane@example.com' })
+      expect(parseSuppressionValue('@Example.com')).toEqual({ domain: 'example.com' })
+      expect(parseSuppressionValue('example.co.uk')).toEqual({ domain: 'example.co.uk' })
+    })
+
+    it('rejects invalid values', () => {
+      expect(parseSuppressionValue('not an email')).toBeNull()
+      expect(parseSuppressionValue('jane@')).toBeNull()
+      expect(parseSuppressionValue('')).toBeNull()
+    })
+  })
+
+  describe('isSuppressed', () => {
+    const set = buildSuppressionSet([
+      { email: 'jane@example.com', domain: null },
+      { email: null, domain: 'blocked.io' },
+    ])
+
+    it('matches exact emails case-insensitively', () => {
+      expect(isSuppressed(set, 'JANE@example.com')).toBe(true)
+      expect(isSuppressed(set, 'john@example.com')).toBe(false)
+    })
+
+    it('matches every address on a suppressed domain', () => {
+      expect(isSuppressed(set, 'anyone@blocked.io')).toBe(true)
+      expect(isSuppressed(set, 'anyone@sub.blocked.io')).toBe(false)
+    })
+  })
+
+  describe('parseSuppressionCsv', () => {
+    it('skips the header row and reads reasons', () => {
+      const { entries, invalid } = parseSuppressionCsv('email,reason\njane@example.com,asked\n@blocked.io\nnope')
+
+      expect(entries).toEqual([
+        { email: 'jane@example.com', reason: 'asked' },
+        { domain: 'blocked.io', reason: null },
+      ])
+      expect(invalid).toEqual(['nope'])
+    })
+
+    it('round-trips its own export format', () => {
+      const entries = [
+        { id: '1', user_id: 'u', email: 'jane@example.com', domain: null, reason: 'Complained, loudly', source: 'manual', created_at: '2025-01-01' },
+        { id: '2', user_id: 'u', email: null, domain: 'blocked.io', reason: null, source: 'import', created_at: '2025-01-02' },
+      ] as SuppressionEntry[]
+
+      const csv = toSuppressionCsv(entries)
+      expect(csv.split('\n')[0]).toBe('type,value,reason,source,created_at')
+
+      const parsed = parseSuppressionCsv(csv)
+      expect(parsed.entries.map((entry) => entry.email || entry.domain)).toEqual(['jane@example.com', 'blocked.io'])
+      expect(parsed.invalid).toEqual([])
+    })
+  })
+
+  describe('buildListUnsubscribeHeaders', () => {
+    it('builds RFC 8058 one-click headers', () => {
+      expect(buildListUnsubscribeHeaders('https://app.test/u/abc', 'unsub@app.test')).toEqual({
+        'List-Unsubscribe': '<https://app.test/u/abc>, <mailto:unsub@app.test?subject=unsubscribe>',
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      })
+    })
+  })
+
+  describe('suppressionSearchFilter', () => {
+    it('quotes the term so filter syntax in it stays literal', () => {
+      expect(suppressionSearchFilter(' Acme.com ')).toBe('email.ilike."%acme.com%",domain.ilike."%acme.com%"')
+      expect(suppressionSearchFilter('a,email.neq.x)')).toBe('email.ilike."%a,email.neq.x)%",domain.ilike."%a,email.neq.x)%"')
+    })
+
+    it('escapes LIKE wildcards and quotes', () => {
+      expect(suppressionSearchFilter('100%_"x')).toBe(
+        'email.ilike."%100\\\\%\\\\_\\"x%",domain.ilike."%100\\\\%\\\\_\\"x%"',
+      )
+    })
+  })
+})
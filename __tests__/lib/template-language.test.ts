@@ -0,0 +1,140 @@
+import {
+  TemplateSyntaxError,
+  analyzeTemplate,
+  checkCampaignTemplates,
+  renderContactTemplate,
+  renderTemplate,
+  templateVariableCatalog,
+  templatesRequireContactData,
+  undefinedTemplateVariables,
+} from '@/lib/template-language'
+
+const contact = {
+  id: 'c1',
+  email: 'anna@example.de',
+  first_name: 'anna',
+  last_name: 'Müller',
+  company: 'Acme GmbH',
+  country: 'Germany',
+  enrichment_data: { industry: 'Software', products_services: ['CRM', 'Mail', 'Chat'] },
+  custom_fields: { seats: 1234.5, renewal: '2025-12-31', active: true },
+}
+
+describe('template language', () => {
+  it('renders variables with defaults and filters', () => {
+    const context = { first_name: '', company: 'acme corp', title: 'a very long title' }
+
+    expect(renderTemplate('Hi {{ first_name | default: "there" }}', context)).toBe('Hi there')
+    expect(renderTemplate('{{ company | titlecase }} / {{ company | upcase }}', context)).toBe('Acme Corp / ACME CORP')
+    expect(renderTemplate('{{ title | truncate: 6 }}', context)).toBe('a very…')
+    expect(renderTemplate('{{ missing }}|{{ missing | append: "!" }}', context)).toBe('|')
+  })
+
+  it('formats dates and numbers in the locale', () => {
+    const context = { date: '2025-12-31', amount: '1234.5' }
+
+    expect(renderTemplate('{{ date | date: "DD.MM.YYYY" }}', context)).toBe('31.12.2025')
+    expect(renderTemplate('{{ date | date: "long" }}', context, { locale: 'de-DE' })).toBe('31. Dezember 2025')
+    expect(renderTemplate('{{ amount | number: 2 }}', context, { locale: 'de-DE' })).toBe('1.234,50')
+  })
+
+  it('evaluates conditionals and loops', () => {
+    const template = [
+      '{% if seats > 10 and plan == "pro" %}big{% elsif seats %}small{% else %}none{% endif %}',
+      '{% unless company %} no company{% endunless %}',
+      ' {% for item in items limit: 2 %}{{ forloop.index }}.{{ item }}{% unless forloop.last %}, {% endunless %}{% endfor %}',
+    ].join('')
+
+    expect(renderTemplate(template, { seats: 12, plan: 'Pro', items: ['a', 'b', 'c'] })).toBe('big no company 1.a, 2.b')
+    expect(renderTemplate(template, { seats: '3', company: 'Acme', items: [] })).toBe('small ')
+    expect(renderTemplate('{% if tags contains "vip" %}VIP{% endif %}', { tags: ['VIP', 'lead'] })).toBe('VIP')
+  })
+
+  it('picks spintax variations per seed', () => {
+    const template = '{Hi|Hello|Hey} {{ name }}'
+    const outputs = new Set(['a', 'b', 'c', 'd', 'e', 'f'].map(seed => renderTemplate(template, { name: 'Anna' }, { seed })))
+
+    expect(renderTemplate(template, { name: 'Anna' }, { seed: 'x' })).toBe(renderTemplate(template, { name: 'Anna' }, { seed: 'x' }))
+    expect(outputs.size).toBeGreaterThan(1)
+    outputs.forEach(output => expect(['Hi Anna', 'Hello Anna', 'Hey Anna']).toContain(output))
+    expect(renderTemplate('a{color:red}', {})).toBe('a{color:red}')
+  })
+
+  it('reports syntax problems', () => {
+    const issues = (template: string) => analyzeTemplate(template).issues
+
+    expect(issues('{% if first_name %}Hi')).toEqual(['"if" is never closed with "endif"'])
+    expect(issues('{{ name | shout }}')).toEqual(['{{ name | shout }}: unknown filter "shout"'])
+    expect(issues('{% endfor %}')).toEqual(['{% endfor %}: "endfor" without a matching "for"'])
+    expect(issues('{a|{% if x %}b{% endif %}}')[0]).toContain('spintax options cannot contain {% %} tags')
+    expect(() => renderTemplate('{{ name | default }}', {})).toThrow(TemplateSyntaxError)
+  })
+
+  it('does not reach outside the context', () => {
+    expect(renderTemplate('{{ constructor }}{{ name.constructor }}{{ items.__proto__ }}', { name: 'x', items: [] })).toBe('')
+  })
+
+  it('lists required and undefined variables', () => {
+    const analysis = analyzeTemplate(
+      '{{ first_name }} {% if company %}{{ company }}{% endif %} {{ city | default: "your city" }} {{ custom.seats }} {{ foo }}'
+    )
+
+    expect(analysis.variables).toEqual([
+      { path: 'first_name', required: true },
+      { path: 'company', required: false },
+      { path: 'city', required: false },
+      { path: 'custom.seats', required: true },
+      { path: 'foo', required: true },
+    ])
+    expect(undefinedTemplateVariables(analysis.variables, templateVariableCatalog([{ key: 'seats', label: 'Seats' }])))
+      .toEqual(['foo'])
+  })
+
+  it('renders contact templates with typed custom fields', () => {
+    const body = renderContactTemplate(
+      '{{ first_name | capitalize }} at {{ company }}: {{ custom.seats }}, {{ custom.renewal }}, {{ custom.active }}, ' +
+      '{{ enrichment.products_services | join: " / " }} {{personalised}} &#123;&#123;Nachname&#125;&#125;',
+      contact,
+      {
+        customFields: [
+          { key: 'seats', type: 'number' },
+          { key: 'renewal', type: 'date' },
+          { key: 'active', type: 'boolean' },
+        ],
+      }
+    )
+
+    expect(body).toBe('Anna at Acme GmbH: 1.234,5, 31. Dezember 2025, Ja, CRM / Mail / Chat {{personalised}} Müller')
+    expect(renderContactTemplate('{{ company }}', { company: 'A & B' }, { escapeHtml: true })).toBe('A &amp; B')
+    expect(renderContactTemplate('Hi {{ first_name }}', {})).toBe('Hi there')
+  })
+
+  it('warns about contacts without required data and fails only on syntax errors', () => {
+    const templates = [
+      { label: 'Subject', content: 'Hi {{ first_name }}' },
+      { label: 'Body', content: '{{ position }} at {{ company | default: "your company" }}' },
+    ]
+
+    expect(templatesRequireContactData(templates)).toBe(true)
+    expect(templatesRequireContactData([templates[0]])).toBe(false)
+    expect(checkCampaignTemplates(templates, [contact, { ...contact, email: 'b@example.com', position: 'CTO' }])).toEqual({
+      errors: [],
+      warnings: [
+        'Body: 1 contact(s) have no value for {{position}} (anna@example.de). ' +
+        'Add a default, e.g. {{ position | default: "…" }}, or wrap it in {% if position %}',
+      ],
+    })
+    expect(checkCampaignTemplates([{ label: 'Body', content: '{% if x %}' }], [])).toEqual({
+      errors: ['Body: "if" is never closed with "endif"'],
+      warnings: [],
+    })
+  })
+
+  it('does not take defaults from Object.prototype', () => {
+    const templates = [{ label: 'Body', content: '{{ constructor }} {{ __proto__ }} {{ toString }}' }]
+
+    expect(renderContactTemplate(templates[0].content, {})).toBe('  ')
+    expect(templatesRequireContactData(templates)).toBe(true)
+    expect(checkCampaignTemplates(templates, [contact]).warnings).toHaveLength(3)
+  })
+})
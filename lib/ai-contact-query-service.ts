@@ -317,6 +317,7 @@ function buildSystemPrompt(agent: any, agentId: string): string {
   lines.push('- Counts: engagement_sent_count, engagement_open_count, engagement_click_count, engagement_reply_count, engagement_bounce_count')
   lines.push('- Timestamps: last_contacted_at, last_opened_at, last_clicked_at, last_replied_at, engagement_last_positive_at')
   lines.push('- Opt-out: unsubscribed_at')
+  lines.push('- Lead score: lead_score (0-100, from the user\'s lead scoring model: firmographic fit + decayed engagement - bounces/OOO/unsubscribes), lead_score_breakdown (JSONB)')
   lines.push('')
   lines.push('### 4. ENRICHMENT DATA (Website & company data)')
   lines.push('- Status: enrichment_status (pending/completed/failed), enrichment_sources (array: [website, linkedin])')
@@ -351,6 +352,7 @@ function buildSystemPrompt(agent: any, agentId: string): string {
   lines.push('6. "recently contacted", "last 30 days", "recently engaged" → query_contacts_by_recency()')
   lines.push('7. "enriched contacts", "with LinkedIn", "complete data" → query_contacts_by_enrichment()')
   lines.push('8. "bounced", "unsubscribed", "active contacts" → query_contacts_by_status()')
+  lines.push('9. "hottest leads", "best leads", "highest lead score", "sales-ready" → query_contacts_by_lead_score(minLeadScore: 60)')
   lines.push('')
   lines.push('## Natural Language → Query Mapping (How to interpret user questions):')
   lines.push('')
@@ -373,6 +375,9 @@ function buildSystemPrompt(agent: any, agentId: string): string {
   lines.push('**Active/responsive contacts:**')
   lines.push('→ query_contacts_by_engagement(minEngagementScore: 50, minOpens: 1)')
   lines.push('')
+  lines.push('**Hot leads / Sales-ready / Highest scoring leads:**')
+  lines.push('→ query_contacts_by_lead_score(minLeadScore: 60)')
+  lines.push('')
   lines.push('**Contacts who opened but didn\'t reply:**')
   lines.push('→ query_contacts_by_engagement(minOpens: 1, minReplies: 0)')
   lines.push('')
@@ -657,6 +662,7 @@ function formatFunctionName(name: string): string {
   const nameMap: Record<string, string> = {
     query_contacts_basic: 'Profile Filtering',
     query_contacts_by_engagement: 'Engagement Filtering',
+    query_contacts_by_lead_score: 'Lead Score Filtering',
     query_never_contacted: 'Never Contacted Filter',
     query_contacts_by_agent_fit: 'ICP Fit Scoring',
     query_contacts_by_status: 'Status Filtering',
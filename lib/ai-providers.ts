@@ -179,6 +179,21 @@ export interface PersonalizationResult {
   processingTime: number
 }
 
+export interface TextGenerationRequest {
+  prompt: string
+  system?: string
+  provider: 'openai' | 'anthropic' | 'gemini'
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface TextGenerationResult {
+  text: string
+  tokensUsed: number
+  provider: string
+  processingTime: number
+}
+
 export class AIPersonalizationService {
   private static clients: Map<string, any> = new Map()
   private static rateLimits: Map<string, { count: number; resetTime: number }> = new Map()
@@ -285,6 +300,79 @@ export class AIPersonalizationService {
     }
   }
 
+  /**
+   * Plain completion for prompts other than personalization (e.g. reply
+   * classification). Shares the provider clients and rate limits.
+   */
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResult> {
+    const startTime = Date.now()
+    await AIPersonalizationService.initialize()
+
+    const client = AIPersonalizationService.clients.get(request.provider)
+    if (!client) {
+      throw new Error(`${request.provider} client not initialized`)
+    }
+
+    await AIPersonalizationService.checkRateLimit(request.provider)
+
+    const maxTokens = request.maxTokens ?? 500
+    const temperature = request.temperature ?? 0
+
+    switch (request.provider) {
+      case 'openai': {
+        const completion = await (client as OpenAI).chat.completions.create({
+          model: 'gpt-4o-mini',
+          messages: [
+            ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+            { role: 'user' as const, content: request.prompt }
+          ],
+          max_tokens: maxTokens,
+          temperature,
+        })
+        return {
+          text: completion.choices[0]?.message?.content || '',
+          tokensUsed: completion.usage?.total_tokens || 0,
+          provider: 'openai',
+          processingTime: Date.now() - startTime,
+        }
+      }
+      case 'anthropic': {
+        const response = await client.messages.create({
+          model: 'claude-3-haiku-20240307',
+          max_tokens: maxTokens,
+          temperature,
+          ...(request.system ? { system: request.system } : {}),
+          messages: [{ role: 'user', content: request.prompt }]
+        })
+        const content = response.content[0]
+        return {
+          text: content?.type === 'text' ? content.text : '',
+          tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+          provider: 'anthropic',
+          processingTime: Date.now() - startTime,
+        }
+      }
+      case 'gemini': {
+        const model = (client as GoogleGenerativeAI).getGenerativeModel({
+          model: 'gemini-2.5-flash-lite',
+          ...(request.system ? { systemInstruction: request.system } : {}),
+          generationConfig: { maxOutputTokens: maxTokens, temperature },
+        })
+        const result = await model.generateContent(request.prompt)
+        const text = result.response.text()
+        return {
+          text,
+          // Gemini doesn't provide exact token counts, estimate based on characters
+          tokensUsed: Math.ceil((request.prompt.length + text.length) / 4),
+          provider: 'gemini',
+          processingTime: Date.now() - startTime,
+        }
+      }
+      default:
+        throw new Error(`Unsupported AI provider: ${request.provider}`)
+    }
+  }
+
   private async personalizeWithOpenAI(request: PersonalizationRequest, startTime: number): Promise<PersonalizationResult> {
     const client = AIPersonalizationService.clients.get('openai') as OpenAI
     if (!client) {
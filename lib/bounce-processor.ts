@@ -11,6 +11,7 @@
 import { createServerSupabaseClient } from './supabase-server'
 import { parseBounceEmail, parseVERPAddress, type BounceInfo } from './bounce-email-parser'
 import { recalculateContactEngagement } from './contact-engagement'
+import { recordContactChanges } from './contact-history'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from './database.types'
 
@@ -328,6 +329,12 @@ export class BounceProcessor {
       return false
     }
 
+    const { data: before } = await this.supabase
+      .from('contacts')
+      .select('user_id, engagement_status, engagement_bounce_count')
+      .eq('id', contactId)
+      .single()
+
     const { error } = await this.supabase
       .from('contacts')
       .update(updates)
@@ -338,6 +345,19 @@ export class BounceProcessor {
       return false
     }
 
+    if (before) {
+      await recordContactChanges(this.supabase, {
+        userId: before.user_id,
+        contactId,
+        before,
+        updates: bounceInfo.bounceType === 'soft'
+          ? { engagement_bounce_count: (before.engagement_bounce_count || 0) + 1 }
+          : { engagement_status: updates.engagement_status },
+        actor: { type: 'bounce_processor' },
+        source: 'bounce'
+      })
+    }
+
     console.log(`✅ Updated contact ${contactId} status`)
     return true
   }
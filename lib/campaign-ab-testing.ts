@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { ABTestService, type ABTest, type ABTestAnalysis, type ABTestVariant } from './ab-testing'
+import { selectAllPages } from './supabase-paging'
+
+type Supabase = SupabaseClient<Database>
+
+export interface VariantTrackingRow {
+  ab_test_variant: string | null
+  status: string | null
+  sent_at: string | null
+  delivered_at: string | null
+  opened_at: string | null
+  clicked_at: string | null
+  replied_at: string | null
+  bounced_at: string | null
+}
+
+export interface ABTestRefreshResult {
+  test: ABTest
+  analysis: ABTestAnalysis | null
+  promotedVariantId: string | null
+}
+
+/**
+ * Read the A/B test stored on a campaign (campaigns.ab_test_config).
+ * Returns null when testing is disabled or the config is not a usable test.
+ */
+export function getCampaignABTest(campaign: { ab_test_enabled?: boolean | null; ab_test_config?: any }): ABTest | null {
+  if (!campaign?.ab_test_enabled) return null
+
+  const config = campaign.ab_test_config
+  if (!config || !Array.isArray(config.variants) || config.variants.length < 2) {
+    return null
+  }
+
+  if (config.status === 'stopped') return null
+
+  return config as ABTest
+}
+
+/**
+ * Pick the variant a contact should receive. A promoted winner always takes
+ * precedence, then any variant already persisted for the contact, then a
+ * deterministic hash-based assignment.
+ */
+export function pickVariantForContact(
+  test: ABTest,
+  contactId: string,
+  existingVariantId?: string | null,
+): ABTestVariant {
+  if (test.winner_variant_id) {
+    const winner = test.variants.find((variant) => variant.id === test.winner_variant_id)
+    if (winner) return winner
+  }
+
+  if (existingVariantId) {
+    const existing = test.variants.find((variant) => variant.id === existingVariantId)
+    if (existing) return existing
+  }
+
+  return ABTestService.assignVariant(test, contactId)
+}
+
+/**
+ * Swap in the variant's subject or body depending on the test type
+ */
+export function applyVariantContent(
+  test: ABTest,
+  variant: ABTestVariant,
+  subject: string,
+  content: string,
+): { subject: string; content: string } {
+  if (test.test_type === 'subject_line' && variant.subject_template) {
+    return { subject: variant.subject_template, content }
+  }
+
+  if (test.test_type === 'content' && variant.content_template) {
+    return { subject, content: variant.content_template }
+  }
+
+  return { subject, content }
+}
+
+/**
+ * Recompute per-variant counters from email_tracking rows
+ */
+export function buildVariantStats(test: ABTest, rows: VariantTrackingRow[]): ABTest {
+  const counters = new Map<string, Pick<ABTestVariant, 'emails_sent' | 'emails_delivered' | 'emails_opened' | 'emails_clicked' | 'emails_replied'>>()
+
+  for (const variant of test.variants) {
+    counters.set(variant.id, {
+      emails_sent: 0,
+      emails_delivered: 0,
+      emails_opened: 0,
+      emails_clicked: 0,
+      emails_replied: 0,
+    })
+  }
+
+  for (const row of rows) {
+    const counter = row.ab_test_variant ? counters.get(row.ab_test_variant) : undefined
+    if (!counter) continue
+
+    const sent = Boolean(row.sent_at) || ['sent', 'delivered', 'opened', 'clicked', 'replied', 'bounced'].includes(row.status || '')
+    if (!sent) continue
+
+    counter.emails_sent += 1
+    if (!row.bounced_at && row.status !== 'bounced') {
+      counter.emails_delivered += 1
+    }
+    if (row.opened_at || row.status === 'opened') {
+      counter.emails_opened += 1
+    }
+    if (row.clicked_at || row.status === 'clicked') {
+      counter.emails_clicked += 1
+    }
+    if (row.replied_at || row.status === 'replied') {
+      counter.emails_replied += 1
+    }
+  }
+
+  const now = new Date().toISOString()
+  return {
+    ...test,
+    variants: test.variants.map((variant) => ({
+      ...variant,
+      ...counters.get(variant.id),
+      updated_at: now,
+    })),
+    updated_at: now,
+  }
+}
+
+/**
+ * Resolve and persist the variant for a contact on campaign_contacts.ab_test_variant
+ */
+export async function assignCampaignVariant(
+  supabase: Supabase,
+  campaignId: string,
+  test: ABTest,
+  contactId: string,
+  existingVariantId?: string | null,
+): Promise<ABTestVariant> {
+  const variant = pickVariantForContact(test, contactId, existingVariantId)
+
+  if (variant.id !== existingVariantId) {
+    const { error } = await supabase
+      .from('campaign_contacts')
+      .upsert(
+        {
+          campaign_id: campaignId,
+          contact_id: contactId,
+          ab_test_variant: variant.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'campaign_id,contact_id' },
+      )
+
+    if (error) {
+      console.warn(`⚠️ A/B test: failed to persist variant for contact ${contactId}:`, error.message)
+    }
+  }
+
+  return variant
+}
+
+/**
+ * Recompute variant statistics from email_tracking and run the significance
+ * analysis without persisting anything or promoting a winner.
+ */
+export async function evaluateCampaignABTest(
+  supabase: Supabase,
+  campaignId: string,
+  test: ABTest,
+): Promise<{ test: ABTest; analysis: ABTestAnalysis | null }> {
+  const { data: rows, error } = await selectAllPages<VariantTrackingRow>((from, to) =>
+    supabase
+      .from('email_tracking')
+      .select('ab_test_variant, status, sent_at, delivered_at, opened_at, clicked_at, replied_at, bounced_at')
+      .eq('campaign_id', campaignId)
+      .not('ab_test_variant', 'is', null)
+      .order('id')
+      .range(from, to),
+  )
+
+  if (error) {
+    throw new Error(`Failed to load A/B test tracking data: ${error.message}`)
+  }
+
+  let updated = buildVariantStats(test, rows)
+  if (updated.status === 'draft' && updated.variants.some((variant) => variant.emails_sent > 0)) {
+    updated = { ...updated, status: 'running', started_at: updated.started_at || new Date().toISOString() }
+  }
+
+  let analysis: ABTestAnalysis | null = null
+  try {
+    analysis = ABTestService.analyzeTest(updated)
+  } catch (analysisError) {
+    console.warn(`⚠️ A/B test: analysis failed for campaign ${campaignId}:`, analysisError)
+  }
+
+  return { test: updated, analysis }
+}
+
+/**
+ * Refresh variant statistics, persist them and promote the winner once the
+ * test can be stopped. Called by the campaign processor between sends.
+ */
+export async function refreshCampaignABTest(
+  supabase: Supabase,
+  campaignId: string,
+  test: ABTest,
+): Promise<ABTestRefreshResult> {
+  const evaluation = await evaluateCampaignABTest(supabase, campaignId, test)
+  const analysis = evaluation.analysis
+  let updated = evaluation.test
+  let promotedVariantId: string | null = null
+
+  if (analysis && updated.status === 'running' && !updated.winner_variant_id && ABTestService.shouldStopTest(updated, analysis)) {
+    // Without a significant winner the control keeps running for the remaining contacts
+    const controlVariant = updated.variants.find((variant) => variant.is_control) || updated.variants[0]
+    promotedVariantId = analysis.winner_variant_id || controlVariant.id
+
+    updated = {
+      ...updated,
+      status: 'completed',
+      winner_variant_id: promotedVariantId,
+      statistical_significance: analysis.status === 'significant',
+      completed_at: new Date().toISOString(),
+    }
+
+    await promoteWinnerToPendingContacts(supabase, campaignId, promotedVariantId)
+    console.log(`🏆 A/B test: promoted variant ${promotedVariantId} for campaign ${campaignId}`)
+  }
+
+  const { error: saveError } = await supabase
+    .from('campaigns')
+    .update({ ab_test_config: updated as any, updated_at: new Date().toISOString() })
+    .eq('id', campaignId)
+
+  if (saveError) {
+    console.error(`❌ A/B test: failed to save results for campaign ${campaignId}:`, saveError)
+  }
+
+  return { test: updated, analysis, promotedVariantId }
+}
+
+/**
+ * Reassign contacts that have not been emailed yet to the winning variant
+ */
+async function promoteWinnerToPendingContacts(
+  supabase: Supabase,
+  campaignId: string,
+  winnerVariantId: string,
+): Promise<void> {
+  const { error } = await supabase.rpc('promote_ab_test_winner', {
+    p_campaign_id: campaignId,
+    p_winner_variant_id: winnerVariantId,
+  })
+
+  if (error) {
+    console.error('❌ A/B test: failed to promote winner to pending contacts', error)
+  }
+}
@@ -2,6 +2,22 @@ import { z } from 'zod'
 import { Campaign, EmailStep, CampaignContact, CampaignUtils } from './campaigns'
 import { ABTestService } from './ab-testing'
 import { EmailLinkRewriter } from './email-link-rewriter'
+import { emailTracker } from './email-tracking'
+import { findSuppressedRecipients } from './suppression'
+import { checkCampaignTemplates } from './template-language'
+import { accountRuleBlockReason, hasAccountRules, loadAccountRuleState, resolveAccountRules } from './companies'
+import { clearSendDeferral, recordSendDeferral, releaseDomainSend, reserveDomainSend, resolveDomainCaps } from './domain-throttle'
+import { getOOOResumeTime, oooPostponementReason, recordOOOPostponement, resolveOOORules } from './ooo-rescheduling'
+import { loadThreadContext, type ThreadContext, type ThreadHeaders } from './email-threading'
+import { createOutlookMailService } from './outlook-mail'
+import { findThreadSenders, getCampaignSenderIds, isRotationEnabled, loadSenderPool, pickSenderCandidate } from './inbox-rotation'
+import {
+  appendBranchPathEntry,
+  buildEngagementSignals,
+  resolveBranchDecision,
+  type BranchDecision,
+  type BranchPathEntry
+} from './sequence-branching'
 
 // Campaign execution interfaces
 export interface CampaignExecution {
@@ -118,6 +134,15 @@ export class CampaignExecutionEngine {
       throw new Error('No valid contacts found for campaign')
     }
 
+    // Templates must parse; contacts without the data a template uses only get a warning
+    const templateCheck = checkCampaignTemplates(CampaignUtils.getSequenceTemplates(campaign.email_sequence), contacts)
+    if (templateCheck.errors.length > 0) {
+      throw new Error(`Campaign validation failed: ${templateCheck.errors.join(', ')}`)
+    }
+    if (templateCheck.warnings.length > 0) {
+      console.warn(`⚠️ Campaign ${campaign.id} template warnings: ${templateCheck.warnings.join(' ')}`)
+    }
+
     // Create campaign execution record
     const execution: Omit<CampaignExecution, 'id' | 'created_at' | 'updated_at'> = {
       campaign_id: campaign.id,
@@ -287,6 +312,84 @@ export class CampaignExecutionEngine {
       return
     }
 
+    // Never email addresses or domains on the account's suppression list
+    const suppressed = await findSuppressedRecipients(supabaseClient, campaign.user_id, progress.contacts.email)
+    if (suppressed.length > 0) {
+      await supabaseClient
+        .from('email_jobs')
+        .update({
+          status: 'cancelled',
+          error_message: 'Recipient is on the suppression list',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+      return
+    }
+
+    // Account-based rules, e.g. stop once someone at the same company replied
+    const accountRules = resolveAccountRules(campaign)
+    if (hasAccountRules(accountRules)) {
+      const accountState = await loadAccountRuleState(supabaseClient, campaign.id)
+      const accountBlock = accountRuleBlockReason(accountRules, accountState, progress.contacts)
+      if (accountBlock) {
+        await supabaseClient
+          .from('email_jobs')
+          .update({
+            status: 'cancelled',
+            error_message: accountBlock,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', job.id)
+
+        await supabaseClient
+          .from('campaign_contact_progress')
+          .update({
+            status: 'completed',
+            next_email_scheduled_at: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('contact_id', job.contact_id)
+          .eq('campaign_id', job.campaign_id)
+        return
+      }
+    }
+
+    // Hold the step back while the contact is out of office, until the return date plus the buffer
+    const oooResumeAt = getOOOResumeTime(progress.contacts, resolveOOORules(campaign).bufferDays)
+    if (oooResumeAt) {
+      const reason = oooPostponementReason(progress.contacts.auto_reply_until)
+      await supabaseClient
+        .from('email_jobs')
+        .update({
+          status: 'pending',
+          scheduled_at: oooResumeAt.toISOString(),
+          error_message: reason,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+
+      await supabaseClient
+        .from('campaign_contact_progress')
+        .update({
+          next_email_scheduled_at: oooResumeAt.toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('contact_id', job.contact_id)
+        .eq('campaign_id', job.campaign_id)
+
+      await recordOOOPostponement(supabaseClient, {
+        userId: campaign.user_id,
+        contactId: job.contact_id,
+        campaignId: job.campaign_id,
+        emailJobId: job.id,
+        stage: job.step_number > 1 ? 'sequence_step' : 'campaign',
+        autoReplyUntil: progress.contacts.auto_reply_until,
+        postponedUntil: oooResumeAt
+      })
+      console.log(`🏖️ Postponing job ${job.id} until ${oooResumeAt.toISOString()} - ${reason}`)
+      return
+    }
+
     // Get email account
     const { data: emailAccount, error: accountError } = await supabaseClient
       .from('email_accounts')
@@ -314,7 +417,62 @@ export class CampaignExecutionEngine {
       }
     }
 
+    // Reply in the thread of the previous step when the step asks for it
+    const step = campaign.email_sequence?.find(s => s.id === job.step_id) ||
+      campaign.email_sequence?.find(s => s.step_number === job.step_number)
+    let thread: ThreadContext | null = null
+    if (step?.send_in_same_thread && job.step_number > 1) {
+      try {
+        thread = await loadThreadContext(supabaseClient, {
+          campaignId: job.campaign_id,
+          contactId: job.contact_id,
+          emailAccountId: emailAccount.id,
+          fallbackSubject: personalizedSubject
+        })
+      } catch (error) {
+        console.warn('⚠️ Failed to load previous message for threading:', error)
+      }
+
+      if (thread) {
+        personalizedSubject = thread.subject
+        console.log(`🧵 Sending step ${job.step_number} as a reply to ${thread.inReplyTo}`)
+      } else {
+        console.log(`ℹ️ No previous message to reply to for step ${job.step_number}, starting a new thread`)
+      }
+    }
+
+    // Postpone the job while the recipient's domain is over its hourly/daily cap
+    const domainCaps = resolveDomainCaps(campaign)
+    const reservedAt = new Date()
+    const domainDeferral = await reserveDomainSend(
+      supabaseClient,
+      campaign.user_id,
+      progress.contacts.email,
+      domainCaps
+    )
+    if (domainDeferral) {
+      await supabaseClient
+        .from('email_jobs')
+        .update({
+          status: 'pending',
+          scheduled_at: domainDeferral.deferredUntil.toISOString(),
+          error_message: domainDeferral.reason,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+      await recordSendDeferral(supabaseClient, {
+        userId: campaign.user_id,
+        campaignId: job.campaign_id,
+        contactId: job.contact_id,
+        emailJobId: job.id,
+        deferral: domainDeferral
+      })
+      console.log(`⏸️ Deferring job ${job.id} until ${domainDeferral.deferredUntil.toISOString()} - ${domainDeferral.reason}`)
+      return
+    }
+
     // Send email (this would integrate with the email sending service)
+    let emailSent = false
     try {
       const emailResult = await this.sendEmail({
         to: progress.contacts.email,
@@ -323,9 +481,18 @@ export class CampaignExecutionEngine {
         emailAccount,
         trackingId: job.id,
         campaignId: job.campaign_id,
-        contactId: job.contact_id
+        contactId: job.contact_id,
+        thread: thread || undefined,
+        listUnsubscribeHeaders: await emailTracker
+          .generateListUnsubscribeHeaders(progress.contacts.email, job.campaign_id, job.contact_id)
+          .catch((error) => {
+            console.warn('⚠️ Failed to create unsubscribe headers:', error)
+            return undefined
+          })
       })
 
+      emailSent = true
+
       // Update job as sent
       await supabaseClient
         .from('email_jobs')
@@ -334,10 +501,15 @@ export class CampaignExecutionEngine {
           personalized_subject: personalizedSubject,
           personalized_content: personalizedContent,
           sent_at: new Date().toISOString(),
+          error_message: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', job.id)
 
+      if (job.error_message) {
+        await clearSendDeferral(supabaseClient, job.campaign_id, job.contact_id)
+      }
+
       // Update contact progress
       await supabaseClient
         .from('campaign_contact_progress')
@@ -372,6 +544,11 @@ export class CampaignExecutionEngine {
           contact_id: job.contact_id,
           message_id: job.id, // Required unique field
           tracking_pixel_id: job.id, // Use job ID as tracking pixel ID
+          email_account_id: emailAccount.id,
+          subject_line: personalizedSubject,
+          header_message_id: emailResult.headerMessageId || null,
+          thread_references: thread?.references || null,
+          provider_thread_id: emailResult.threadId || thread?.providerThreadId || null,
           status: 'delivered', // Set status to delivered when successfully sent
           sent_at: new Date().toISOString(),
           // Treat SMTP acceptance as delivery to recipient server
@@ -382,12 +559,17 @@ export class CampaignExecutionEngine {
       await this.scheduleNextStep(progress, campaign, supabaseClient)
 
     } catch (error) {
+      if (!emailSent) {
+        await releaseDomainSend(supabaseClient, campaign.user_id, progress.contacts.email, domainCaps, reservedAt)
+      }
       throw new Error(`Email sending failed: ${error}`)
     }
   }
 
   /**
-   * Schedule next step for contact based on sequence logic
+   * Schedule next step for contact based on sequence logic.
+   * Custom step conditions are not evaluated here: engagement from the delay
+   * window is only known once the follow-up comes due (see applyStepConditions).
    */
   static async scheduleNextStep(
     progress: ContactProgress & { contacts: any },
@@ -397,93 +579,52 @@ export class CampaignExecutionEngine {
     const currentStep = campaign.email_sequence.find(s => s.step_number === progress.current_step)
     if (!currentStep) return
 
-    // Evaluate step conditions and get next action
     const stepResult = await this.evaluateStepConditions(currentStep, progress, supabaseClient)
 
-    switch (stepResult.action) {
-      case 'stop':
-        await supabaseClient
-          .from('campaign_contact_progress')
-          .update({
-            status: 'completed',
-            updated_at: new Date().toISOString()
-          })
-          .eq('contact_id', progress.contact_id)
-          .eq('campaign_id', progress.campaign_id)
-        break
+    if (stepResult.action === 'stop') {
+      await supabaseClient
+        .from('campaign_contact_progress')
+        .update({
+          status: 'completed',
+          updated_at: new Date().toISOString()
+        })
+        .eq('contact_id', progress.contact_id)
+        .eq('campaign_id', progress.campaign_id)
+      return
+    }
 
-      case 'skip':
-        // Move to next step immediately
-        const nextStepNumber = progress.current_step + 1
-        const nextStep = campaign.email_sequence.find(s => s.step_number === nextStepNumber)
-        if (nextStep) {
-          await this.scheduleEmailJob(progress, nextStep, campaign, new Date(), supabaseClient)
-          await supabaseClient
-            .from('campaign_contact_progress')
-            .update({
-              current_step: nextStepNumber,
-              updated_at: new Date().toISOString()
-            })
-            .eq('contact_id', progress.contact_id)
-            .eq('campaign_id', progress.campaign_id)
-        }
-        break
-
-      case 'branch':
-        if (stepResult.next_step) {
-          const branchStep = campaign.email_sequence.find(s => s.step_number === stepResult.next_step)
-          if (branchStep) {
-            const scheduleTime = new Date(Date.now() + (stepResult.delay_hours || 0) * 60 * 60 * 1000)
-            await this.scheduleEmailJob(progress, branchStep, campaign, scheduleTime, supabaseClient)
-            await supabaseClient
-              .from('campaign_contact_progress')
-              .update({
-                current_step: stepResult.next_step,
-                next_email_scheduled_at: scheduleTime.toISOString(),
-                updated_at: new Date().toISOString()
-              })
-              .eq('contact_id', progress.contact_id)
-              .eq('campaign_id', progress.campaign_id)
-          }
-        }
-        break
+    // Schedule next step with delay
+    const nextStepNum = progress.current_step + 1
+    const nextStepToSchedule = campaign.email_sequence.find(s => s.step_number === nextStepNum)
+    if (nextStepToSchedule) {
+      const delayHours = CampaignUtils.calculateStepDelay(nextStepToSchedule)
+      const scheduleTime = new Date(Date.now() + delayHours * 60 * 60 * 1000)
 
-      case 'continue':
-      default:
-        // Schedule next step with delay
-        const nextStepNum = progress.current_step + 1
-        const nextStepToSchedule = campaign.email_sequence.find(s => s.step_number === nextStepNum)
-        if (nextStepToSchedule) {
-          const delayHours = CampaignUtils.calculateStepDelay(nextStepToSchedule)
-          const scheduleTime = new Date(Date.now() + delayHours * 60 * 60 * 1000)
-          
-          await this.scheduleEmailJob(progress, nextStepToSchedule, campaign, scheduleTime, supabaseClient)
-          await supabaseClient
-            .from('campaign_contact_progress')
-            .update({
-              current_step: nextStepNum,
-              next_email_scheduled_at: scheduleTime.toISOString(),
-              updated_at: new Date().toISOString()
-            })
-            .eq('contact_id', progress.contact_id)
-            .eq('campaign_id', progress.campaign_id)
-        } else {
-          // No more steps, mark as completed
-          await supabaseClient
-            .from('campaign_contact_progress')
-            .update({
-              status: 'completed',
-              updated_at: new Date().toISOString()
-            })
-            .eq('contact_id', progress.contact_id)
-            .eq('campaign_id', progress.campaign_id)
-        }
-        break
+      await this.scheduleEmailJob(progress, nextStepToSchedule, campaign, scheduleTime, supabaseClient)
+      await supabaseClient
+        .from('campaign_contact_progress')
+        .update({
+          current_step: nextStepNum,
+          next_email_scheduled_at: scheduleTime.toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('contact_id', progress.contact_id)
+        .eq('campaign_id', progress.campaign_id)
+    } else {
+      // No more steps, mark as completed
+      await supabaseClient
+        .from('campaign_contact_progress')
+        .update({
+          status: 'completed',
+          updated_at: new Date().toISOString()
+        })
+        .eq('contact_id', progress.contact_id)
+        .eq('campaign_id', progress.campaign_id)
     }
   }
 
   /**
-   * Evaluate step conditions to determine next action
+   * Check the hard stop rules (reply, unsubscribe, bounces) for a contact
    */
   static async evaluateStepConditions(
     step: EmailStep,
@@ -514,79 +655,213 @@ export class CampaignExecutionEngine {
       }
     }
 
-    // Evaluate custom conditions
-    for (const condition of step.conditions) {
-      const conditionMet = await this.evaluateCondition(condition, progress, supabaseClient)
-      
-      if (conditionMet) {
-        switch (condition.action) {
-          case 'stop_sequence':
-            return {
-              action: 'stop',
-              reason: `Condition met: ${condition.type}`
-            }
-          case 'skip_step':
-            return {
-              action: 'skip',
-              reason: `Condition met: ${condition.type}`
-            }
-          case 'branch_to_step':
-            return {
-              action: 'branch',
-              next_step: parseInt(condition.target_step_id || '0'),
-              delay_hours: condition.delay_hours,
-              reason: `Condition met: ${condition.type}`
-            }
-          case 'delay_step':
-            return {
-              action: 'delay',
-              delay_hours: condition.delay_hours || 24,
-              reason: `Condition met: ${condition.type}`
-            }
-        }
-      }
-    }
-
     return {
       action: 'continue',
-      reason: 'No conditions met - continue sequence'
+      reason: 'No stop rule matched - continue sequence'
     }
   }
 
   /**
-   * Evaluate individual condition
+   * Evaluate branching conditions for follow-up jobs that are due now.
+   * Conditions are read from the step the contact received last and checked
+   * against that contact's email_tracking opens, clicks and replies. The due
+   * job is then sent, cancelled, rerouted or postponed, and the decision is
+   * appended to campaign_contacts.branch_path.
    */
-  static async evaluateCondition(
-    condition: any,
-    progress: ContactProgress,
+  static async applyStepConditions(
+    campaign: Campaign,
     supabaseClient: any
-  ): Promise<boolean> {
-    switch (condition.type) {
-      case 'reply_received':
-        return !!progress.reply_received_at
-
-      case 'email_opened':
-        return progress.engagement_data.emails_opened > 0
-
-      case 'link_clicked':
-        return progress.engagement_data.emails_clicked > 0
-
-      case 'time_elapsed':
-        if (progress.last_email_sent_at) {
-          const elapsed = Date.now() - new Date(progress.last_email_sent_at).getTime()
-          const elapsedHours = elapsed / (1000 * 60 * 60)
-          return elapsedHours >= (condition.value || 24)
+  ): Promise<number> {
+    const sequence = campaign.email_sequence || []
+    if (!sequence.some(step => step.conditions && step.conditions.length > 0)) {
+      return 0
+    }
+
+    const { data: dueJobs, error: jobsError } = await supabaseClient
+      .from('email_jobs')
+      .select('*')
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'pending')
+      .gt('step_number', 1)
+      .lte('scheduled_at', new Date().toISOString())
+
+    if (jobsError) {
+      throw new Error('Failed to fetch due follow-up jobs')
+    }
+
+    let rerouted = 0
+
+    for (const job of (dueJobs || []) as EmailJob[]) {
+      try {
+        const upcomingStep = sequence.find(s => s.step_number === job.step_number)
+        if (!upcomingStep) continue
+
+        const { data: sentJobs } = await supabaseClient
+          .from('email_jobs')
+          .select('id, step_number, sent_at')
+          .eq('campaign_id', campaign.id)
+          .eq('contact_id', job.contact_id)
+          .eq('status', 'sent')
+          .order('sent_at', { ascending: false })
+
+        if (!sentJobs || sentJobs.length === 0) continue
+
+        const previousStepNumber = sentJobs[0].step_number
+        const previousStep = sequence.find(s => s.step_number === previousStepNumber)
+        if (!previousStep) continue
+
+        const { data: trackingRows } = await supabaseClient
+          .from('email_tracking')
+          .select('message_id, sent_at, opened_at, clicked_at, replied_at, open_count, click_count')
+          .eq('campaign_id', campaign.id)
+          .eq('contact_id', job.contact_id)
+
+        const signals = buildEngagementSignals(
+          trackingRows || [],
+          sentJobs.filter((j: any) => j.step_number === previousStepNumber).map((j: any) => j.id)
+        )
+
+        const { data: campaignContact } = await supabaseClient
+          .from('campaign_contacts')
+          .select('id, branch_path')
+          .eq('campaign_id', campaign.id)
+          .eq('contact_id', job.contact_id)
+          .maybeSingle()
+
+        const branchPath: BranchPathEntry[] = Array.isArray(campaignContact?.branch_path)
+          ? campaignContact.branch_path
+          : []
+        const delayAlreadyApplied = branchPath.some(entry =>
+          entry.action === 'delay' && entry.from_step === previousStep.step_number && entry.to_step === job.step_number
+        )
+
+        const decision = resolveBranchDecision(previousStep, upcomingStep, sequence, signals, {
+          delayAlreadyApplied
+        })
+
+        await this.applyBranchDecision(job, decision, campaign, supabaseClient)
+
+        if (campaignContact?.id) {
+          await supabaseClient
+            .from('campaign_contacts')
+            .update({
+              branch_path: appendBranchPathEntry(branchPath, decision),
+              current_sequence: decision.next_step ?? previousStep.step_number,
+              ...(decision.action === 'stop'
+                ? { status: 'completed', completed_at: new Date().toISOString() }
+                : {}),
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', campaignContact.id)
         }
-        return false
 
-      case 'previous_step_opened':
-        return progress.engagement_data.last_opened_at !== undefined
+        if (decision.action !== 'continue') {
+          rerouted++
+          console.log(`🔀 Contact ${job.contact_id}: ${decision.action} after step ${decision.from_step} (${decision.reason})`)
+        }
+      } catch (error) {
+        console.error(`⚠️ Failed to evaluate step conditions for job ${job.id}:`, error)
+      }
+    }
 
-      case 'previous_step_clicked':
-        return progress.engagement_data.last_clicked_at !== undefined
+    return rerouted
+  }
+
+  /**
+   * Apply a branch decision to a due follow-up job
+   */
+  private static async applyBranchDecision(
+    job: EmailJob,
+    decision: BranchDecision,
+    campaign: Campaign,
+    supabaseClient: any
+  ): Promise<void> {
+    const now = new Date()
+
+    switch (decision.action) {
+      case 'continue':
+        return
 
-      default:
-        return false
+      case 'delay': {
+        const delayedUntil = new Date(now.getTime() + (decision.delay_hours || 24) * 60 * 60 * 1000)
+        await supabaseClient
+          .from('email_jobs')
+          .update({
+            scheduled_at: delayedUntil.toISOString(),
+            updated_at: now.toISOString()
+          })
+          .eq('id', job.id)
+        await supabaseClient
+          .from('campaign_contact_progress')
+          .update({
+            next_email_scheduled_at: delayedUntil.toISOString(),
+            updated_at: now.toISOString()
+          })
+          .eq('contact_id', job.contact_id)
+          .eq('campaign_id', job.campaign_id)
+        return
+      }
+
+      case 'stop':
+        await supabaseClient
+          .from('email_jobs')
+          .update({
+            status: 'cancelled',
+            error_message: decision.reason,
+            updated_at: now.toISOString()
+          })
+          .eq('id', job.id)
+        await supabaseClient
+          .from('campaign_contact_progress')
+          .update({
+            status: 'completed',
+            next_email_scheduled_at: null,
+            updated_at: now.toISOString()
+          })
+          .eq('contact_id', job.contact_id)
+          .eq('campaign_id', job.campaign_id)
+        return
+
+      case 'skip':
+      case 'branch': {
+        const targetStep = campaign.email_sequence.find(s => s.step_number === decision.next_step)
+        if (!targetStep) return
+
+        await supabaseClient
+          .from('email_jobs')
+          .update({
+            status: 'cancelled',
+            error_message: decision.reason,
+            updated_at: now.toISOString()
+          })
+          .eq('id', job.id)
+
+        const { data: progress } = await supabaseClient
+          .from('campaign_contact_progress')
+          .select('*, contacts(*)')
+          .eq('contact_id', job.contact_id)
+          .eq('campaign_id', job.campaign_id)
+          .single()
+
+        if (!progress) return
+
+        const delayHours = decision.action === 'skip'
+          ? CampaignUtils.calculateStepDelay(targetStep)
+          : decision.delay_hours || 0
+        const scheduleTime = new Date(now.getTime() + delayHours * 60 * 60 * 1000)
+
+        await this.scheduleEmailJob(progress, targetStep, campaign, scheduleTime, supabaseClient)
+        await supabaseClient
+          .from('campaign_contact_progress')
+          .update({
+            current_step: targetStep.step_number,
+            next_email_scheduled_at: scheduleTime.toISOString(),
+            updated_at: now.toISOString()
+          })
+          .eq('contact_id', job.contact_id)
+          .eq('campaign_id', job.campaign_id)
+        return
+      }
     }
   }
 
@@ -600,21 +875,35 @@ export class CampaignExecutionEngine {
     scheduledAt: Date,
     supabaseClient: any
   ): Promise<void> {
-    // Get available email account (this would implement account rotation)
-    const { data: emailAccounts, error: accountsError } = await supabaseClient
-      .from('email_accounts')
-      .select('*')
-      .eq('user_id', campaign.user_id)
-      .eq('status', 'active')
-      .order('created_at', { ascending: true })
-      .limit(1)
+    // Follow-ups keep the sender that started the thread; first emails rotate across the pool
+    const threadSenders = await findThreadSenders(supabaseClient, campaign, [progress.contact_id])
+    const pinnedSenderId = threadSenders.get(progress.contact_id)
+    const senderIds = getCampaignSenderIds(campaign)
+    const poolIds = isRotationEnabled(campaign) ? senderIds : senderIds.slice(0, 1)
+
+    const senders = await loadSenderPool(
+      supabaseClient,
+      campaign.user_id,
+      pinnedSenderId ? [pinnedSenderId, ...poolIds.filter(id => id !== pinnedSenderId)] : poolIds
+    )
+    const pinnedSender = senders.find(sender => sender.account.id === pinnedSenderId)
+    let emailAccount = pinnedSender?.account || pickSenderCandidate(senders.filter(sender => poolIds.includes(sender.account.id)))?.account
+
+    if (!emailAccount && poolIds.length === 0) {
+      const { data: emailAccounts } = await supabaseClient
+        .from('email_accounts')
+        .select('*')
+        .eq('user_id', campaign.user_id)
+        .eq('status', 'active')
+        .order('created_at', { ascending: true })
+        .limit(1)
+      emailAccount = emailAccounts?.[0]
+    }
 
-    if (accountsError || !emailAccounts || emailAccounts.length === 0) {
+    if (!emailAccount) {
       throw new Error('No active email accounts available')
     }
 
-    const emailAccount = emailAccounts[0]
-
     // Apply A/B test variant if applicable
     let subject = step.subject_template
     let content = step.content_template
@@ -960,6 +1249,8 @@ export class CampaignExecutionEngine {
     senderName?: string
     campaignId?: string
     contactId?: string
+    listUnsubscribeHeaders?: Record<string, string>
+    thread?: ThreadHeaders
   }): Promise<any> {
     console.log(`📧 Sending email to ${params.to} with subject: ${params.subject}`)
 
@@ -1013,7 +1304,10 @@ export class CampaignExecutionEngine {
           subject: params.subject,
           text: params.content.replace(/<[^>]*>/g, ''), // Strip HTML for text version
           html: htmlContent,
-          encoding: 'utf8' // Ensure proper UTF-8 encoding for umlauts
+          encoding: 'utf8', // Ensure proper UTF-8 encoding for umlauts
+          inReplyTo: params.thread?.inReplyTo,
+          references: params.thread?.references,
+          headers: params.listUnsubscribeHeaders
         })
 
         console.log(`✅ Email sent successfully via SMTP: ${info.messageId}`)
@@ -1052,6 +1346,7 @@ export class CampaignExecutionEngine {
 
         return {
           messageId: info.messageId,
+          headerMessageId: info.messageId,
           status: 'sent',
           provider: 'smtp',
           trackingId: params.trackingId
@@ -1088,13 +1383,19 @@ export class CampaignExecutionEngine {
             subject: params.subject,
             html: htmlContent,
             text: params.content.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-            senderName: params.senderName
+            senderName: params.senderName,
+            inReplyTo: params.thread?.inReplyTo,
+            references: params.thread?.references,
+            threadId: params.thread?.providerThreadId || undefined,
+            headers: params.listUnsubscribeHeaders
           })
 
           console.log(`✅ Gmail email sent successfully: ${result.messageId}`)
 
           return {
             messageId: result.messageId || `gmail_${params.trackingId}`,
+            headerMessageId: result.headerMessageId,
+            threadId: result.threadId,
             status: 'sent',
             provider: 'gmail',
             trackingId: params.trackingId,
@@ -1106,15 +1407,34 @@ export class CampaignExecutionEngine {
         }
 
       } else if (params.emailAccount.provider === 'outlook') {
-        // Outlook OAuth sending - for now return success but note it needs implementation  
-        console.log(`⚠️ Outlook OAuth sending not fully implemented yet`)
-        
+        // Outlook OAuth sending via Microsoft Graph
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+          (process.env.VERCEL_URL ?
+            (process.env.VERCEL_URL.startsWith('http') ? process.env.VERCEL_URL : `https://${process.env.VERCEL_URL}`) :
+            'http://localhost:3000')
+        const trackingPixel = `<img src="${baseUrl}/api/tracking/pixel/${params.trackingId}" width="1" height="1" style="display:none;" alt="">`
+        htmlContent = htmlContent.includes('</body>')
+          ? htmlContent.replace('</body>', `${trackingPixel}</body>`)
+          : `${htmlContent}${trackingPixel}`
+
+        const outlookService = createOutlookMailService(params.emailAccount)
+        const result = await outlookService.sendEmail({
+          to: params.to,
+          subject: params.subject,
+          html: htmlContent,
+          text: params.content.replace(/<[^>]*>/g, ''),
+          senderName: params.senderName,
+          inReplyTo: params.thread?.inReplyTo,
+          references: params.thread?.references,
+          headers: params.listUnsubscribeHeaders
+        })
+
         return {
-          messageId: `outlook_mock_${params.trackingId}`,
+          messageId: result.messageId,
+          headerMessageId: result.headerMessageId,
           status: 'sent',
           provider: 'outlook',
-          trackingId: params.trackingId,
-          note: 'Outlook OAuth implementation needed'
+          trackingId: params.trackingId
         }
 
       } else {
@@ -4,8 +4,16 @@
  */
 
 import { CampaignExecutionEngine } from './campaign-execution'
+import {
+  applyVariantContent,
+  assignCampaignVariant,
+  getCampaignABTest,
+  refreshCampaignABTest,
+} from './campaign-ab-testing'
 import { createServerSupabaseClient } from './supabase-server'
 import { advanceSequenceForCampaign } from './sequence-automation'
+import { emailTracker } from './email-tracking'
+import { isSuppressed, loadSuppressionSet, type SuppressionSet } from './suppression'
 
 export class FixedCampaignProcessor {
   private static instance: FixedCampaignProcessor | null = null
@@ -340,9 +348,33 @@ export class FixedCampaignProcessor {
       // Send emails with delays to avoid rate limits
       const delayConfig = this.getSendDelayConfig()
 
+      // Refresh A/B test results first so a promoted winner applies to this batch
+      let abTest = getCampaignABTest(campaign)
+      if (abTest) {
+        try {
+          abTest = (await refreshCampaignABTest(supabase, campaign.id, abTest)).test
+        } catch (abError) {
+          console.warn('⚠️ A/B test refresh failed, using stored test config:', abError)
+        }
+      }
+
+      // Never email addresses or domains on the account's suppression list
+      let suppressionSet: SuppressionSet | null = null
+      try {
+        suppressionSet = await loadSuppressionSet(supabase, campaign.user_id)
+      } catch (suppressionError) {
+        console.error('❌ Failed to load suppression list, aborting batch:', suppressionError)
+        return
+      }
+
       for (let i = 0; i < contacts.length; i++) {
         const contact = contacts[i]
 
+        if (isSuppressed(suppressionSet, contact.email)) {
+          console.log(`🚫 Skipping ${contact.email} - on suppression list`)
+          continue
+        }
+
         try {
           console.log(`\n📧 Processing email ${i+1}/${contacts.length} to ${contact.email}`)
 
@@ -355,7 +387,7 @@ export class FixedCampaignProcessor {
           // Check if this contact has personalized content stored
           const { data: campaignContact } = await supabase
             .from('campaign_contacts')
-            .select('personalized_subject, personalized_body, ai_personalization_used')
+            .select('personalized_subject, personalized_body, ai_personalization_used, ab_test_variant')
             .eq('campaign_id', campaign.id)
             .eq('contact_id', contact.id)
             .single()
@@ -370,6 +402,17 @@ export class FixedCampaignProcessor {
             console.log(`✨ Using personalized content for ${contact.first_name} ${contact.last_name}`)
           }
 
+          // Swap in the contact's A/B test variant before variable replacement
+          let abVariantId: string | null = null
+          if (abTest) {
+            const variant = await assignCampaignVariant(supabase, campaign.id, abTest, contact.id, campaignContact?.ab_test_variant)
+            const variantContent = applyVariantContent(abTest, variant, personalizedSubject, personalizedContent)
+            personalizedSubject = variantContent.subject
+            personalizedContent = variantContent.content
+            abVariantId = variant.id
+            console.log(`🧪 Using A/B variant "${variant.name}" for ${contact.email}`)
+          }
+
           // Apply standard variable replacement
           personalizedSubject = this.personalizeContent(personalizedSubject, contact, campaignContact?.ai_personalization_used)
           personalizedContent = this.personalizeContent(personalizedContent, contact, campaignContact?.ai_personalization_used)
@@ -392,6 +435,7 @@ export class FixedCampaignProcessor {
             subject_line: personalizedSubject,
             email_body: personalizedContent,
             email_account_id: emailAccount.id,
+            ...(abVariantId ? { ab_test_variant: abVariantId } : {}),
             status: 'pending',
             sent_at: null,
             delivered_at: null,
@@ -414,6 +458,14 @@ export class FixedCampaignProcessor {
           const trackingPixelId = trackingRecord.tracking_pixel_id
           console.log(`📡 Created tracking record with pixel ID: ${trackingPixelId}`)
 
+          // RFC 8058 one-click unsubscribe headers
+          let listUnsubscribeHeaders: Record<string, string> | undefined
+          try {
+            listUnsubscribeHeaders = await emailTracker.generateListUnsubscribeHeaders(contact.email, campaign.id, contact.id)
+          } catch (unsubscribeError) {
+            console.warn(`⚠️ Failed to create unsubscribe headers for ${contact.email}:`, unsubscribeError)
+          }
+
           // Send email with proper error handling
           const result = await this.sendEmail({
             to: contact.email,
@@ -422,7 +474,8 @@ export class FixedCampaignProcessor {
             emailAccount: emailAccount,
             senderName: senderName,
             trackingId: trackingId,
-            pixelId: trackingPixelId
+            pixelId: trackingPixelId,
+            listUnsubscribeHeaders
           })
 
           if (result.status === 'sent') {
@@ -569,6 +622,12 @@ export class FixedCampaignProcessor {
         console.log(`🔄 Using existing campaign execution: ${executionId}`)
       }
 
+      // Route due follow-ups through the branching conditions of the previous step
+      const rerouted = await CampaignExecutionEngine.applyStepConditions(campaign, supabase)
+      if (rerouted > 0) {
+        console.log(`🔀 ${rerouted} contacts branched, skipped, delayed or stopped by step conditions`)
+      }
+
       // Process the next batch of emails
       console.log(`⚡ Processing next batch for execution ${executionId}`)
       await CampaignExecutionEngine.processNextBatch(executionId, supabase)
@@ -592,6 +651,7 @@ export class FixedCampaignProcessor {
     senderName: string
     trackingId: string
     pixelId?: string
+    listUnsubscribeHeaders?: Record<string, string>
   }): Promise<any> {
     console.log(`📧 Sending email to ${params.to} with subject: ${params.subject}`)
     console.log(`🔍 Email account provider: ${params.emailAccount.provider}`)
@@ -644,6 +704,7 @@ export class FixedCampaignProcessor {
     senderName: string
     trackingId: string
     pixelId?: string
+    listUnsubscribeHeaders?: Record<string, string>
   }): Promise<any> {
     console.log(`📧 Sending SMTP email to ${params.to}`)
 
@@ -666,7 +727,8 @@ export class FixedCampaignProcessor {
       to: params.to,
       subject: params.subject,
       text: params.content.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-      html: htmlContent
+      html: htmlContent,
+      headers: params.listUnsubscribeHeaders
     })
 
     console.log(`✅ SMTP email sent successfully: ${info.messageId}`)
@@ -690,6 +752,7 @@ export class FixedCampaignProcessor {
     senderName: string
     trackingId: string
     pixelId?: string
+    listUnsubscribeHeaders?: Record<string, string>
   }): Promise<any> {
     console.log(`📧 Sending Gmail email to ${params.to}`)
     console.log(`🔑 Gmail account ID: ${params.emailAccount.id}`)
@@ -713,6 +776,7 @@ export class FixedCampaignProcessor {
         subject: params.subject,
         html: htmlContent,
         text: params.content.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+        headers: params.listUnsubscribeHeaders
       })
 
       console.log(`✅ Gmail email sent successfully: ${result.messageId}`)
@@ -4,15 +4,71 @@
  */
 
 import { CampaignExecutionEngine } from './campaign-execution'
+import {
+  applyVariantContent,
+  assignCampaignVariant,
+  getCampaignABTest,
+  refreshCampaignABTest,
+} from './campaign-ab-testing'
 import { createServerSupabaseClient } from './supabase-server'
 import { EmailLinkRewriter } from './email-link-rewriter'
 import { generateVERPAddress } from './bounce-email-parser'
 import { advanceSequenceForCampaign } from './sequence-automation'
+import { emailTracker } from './email-tracking'
+import { getEmailDomain, isSuppressed, loadSuppressionSet, type SuppressionSet } from './suppression'
+import { enqueueJob, runJobQueue, type QueueRunResult } from './job-queue'
+import {
+  accountRuleBlockReason,
+  hasAccountRules,
+  loadAccountRuleState,
+  recordAccountSend,
+  resolveAccountRules,
+  type AccountRuleState,
+} from './companies'
+import {
+  clearSendDeferral,
+  getEarliestDeferral,
+  listSendDeferrals,
+  recordSendDeferral,
+  releaseDomainSend,
+  reserveDomainSend,
+  resolveDomainCaps,
+  type DomainDeferral,
+} from './domain-throttle'
+import { getDefaultTimezone, inferContactCountry, nextSendableTime } from './holiday-calendars'
+import {
+  getOOOResumeTime,
+  oooPostponementReason,
+  recordOOOPostponement,
+  resolveOOORules,
+} from './ooo-rescheduling'
+import {
+  listCustomFieldDefinitions,
+  type CustomFieldDefinition,
+} from './custom-fields'
+import { renderContactTemplate } from './template-language'
+import {
+  getLocalHour,
+  loadSendTimeModel,
+  nextOptimizedSendTime,
+  predictSendHour,
+  type SendTimeModel,
+} from './send-time-optimization'
+import {
+  findThreadSenders,
+  getCampaignSenderIds,
+  getPoolRemainingQuota,
+  getPinnedSenderDeferral,
+  isRotationEnabled,
+  loadSenderPool,
+  pickSenderCandidate,
+  recordSenderSend,
+  type SenderCandidate,
+} from './inbox-rotation'
 
 export class CampaignProcessor {
   private static instance: CampaignProcessor | null = null
   private processingInterval: NodeJS.Timeout | null = null
-  private isProcessing = false
 
   private constructor() {}
 
@@ -54,17 +110,12 @@ export class CampaignProcessor {
   }
 
   /**
-   * Process campaigns that are ready to be executed
+   * Enqueue campaigns that are ready to be executed and drain the campaign_send queue.
+   * Campaign sends go through the job queue, so concurrent workers (interval, cron,
+   * manual triggers) never process the same campaign at the same time.
    */
   public async processReadyCampaigns(): Promise<void> {
     console.log('🚀 === CAMPAIGN PROCESSOR STARTED ===')
-    
-    if (this.isProcessing) {
-      console.log('⏳ Campaign processing already in progress, skipping...')
-      return
-    }
-
-    this.isProcessing = true
 
     try {
       console.log('🔍 Checking for campaigns ready to process...')
@@ -209,24 +260,75 @@ export class CampaignProcessor {
         }
       }
 
-      console.log(`🎯 Processing ${campaignsToProcess.length} campaigns that need work`)
+      console.log(`🎯 Queueing ${campaignsToProcess.length} campaigns that need work`)
 
       for (const campaign of campaignsToProcess) {
-        console.log(`\n🎯 === PROCESSING CAMPAIGN: ${campaign.name} ===`)
-        await this.processCampaign(campaign)
+        const job = await enqueueJob(supabase, 'campaign_send', { campaignId: campaign.id }, {
+          dedupeKey: `campaign:${campaign.id}`,
+          maxAttempts: 3
+        })
+        if (!job) {
+          console.log(`⏭️ ${campaign.name} already has a queued or running send job`)
+        }
       }
 
-      console.log('🎉 === CAMPAIGN PROCESSING COMPLETED ===')
+      const queueResult = await this.drainCampaignQueue()
+      console.log(`🎉 === CAMPAIGN PROCESSING COMPLETED === (${queueResult.completed}/${queueResult.claimed} jobs completed, ${queueResult.retried} retrying, ${queueResult.deadLettered} dead-lettered)`)
 
     } catch (error) {
       console.error('❌ Error in campaign processing:', error)
       console.error('📋 Error stack:', error.stack)
     } finally {
-      this.isProcessing = false
       console.log('🏁 Campaign processor finished')
     }
   }
 
+  /**
+   * Run leased campaign_send jobs. A campaign is only paused once its job
+   * has exhausted its retries.
+   */
+  public async drainCampaignQueue(limit: number = 10): Promise<QueueRunResult> {
+    const supabase = createServerSupabaseClient()
+
+    return runJobQueue<{ campaignId: string }>(
+      supabase,
+      'campaign_send',
+      async (job) => {
+        const { data: campaign, error } = await supabase
+          .from('campaigns')
+          .select('*')
+          .eq('id', job.payload.campaignId)
+          .single()
+
+        if (error || !campaign) {
+          throw new Error(`Campaign ${job.payload.campaignId} not found`)
+        }
+
+        if (!['sending', 'scheduled'].includes(campaign.status)) {
+          console.log(`⏭️ Campaign ${campaign.id} is ${campaign.status}, nothing to send`)
+          return
+        }
+
+        console.log(`\n🎯 === PROCESSING CAMPAIGN: ${campaign.name} ===`)
+        await this.processCampaign(campaign)
+      },
+      {
+        limit,
+        // Batches wait between sends; the lease is extended while the job runs
+        visibilityTimeoutSeconds: 600,
+        onDeadLetter: async (job) => {
+          await supabase
+            .from('campaigns')
+            .update({
+              status: 'paused',
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', job.payload.campaignId)
+        }
+      }
+    )
+  }
+
   /**
    * Process a single campaign
    */
@@ -273,16 +375,8 @@ export class CampaignProcessor {
 
     } catch (error) {
       console.error(`❌ Error processing campaign ${campaign.id}:`, error)
-      
-      // Update campaign status to failed
-      const supabase = createServerSupabaseClient()
-      await supabase
-        .from('campaigns')
-        .update({ 
-          status: 'paused',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', campaign.id)
+      // Rethrow so the queue retries with backoff and pauses the campaign once retries are exhausted
+      throw error
     }
   }
 
@@ -466,24 +560,16 @@ export class CampaignProcessor {
 
       console.log(`👥 Found ${contacts.length} contacts to email in this batch (campaign total: ${totalCampaignContacts})`)
 
-      // Choose email account: honor campaign.from_email_account_id if provided
-      let emailAccount: any = null
-      if (campaign.from_email_account_id) {
-        const { data: acc, error: eaErr } = await supabase
-          .from('email_accounts')
-          .select('*')
-          .eq('user_id', campaign.user_id)
-          .eq('id', campaign.from_email_account_id)
-          .eq('status', 'active')
-          .single()
-        if (eaErr || !acc) {
-          throw new Error('Selected email account is not available')
-        }
-        emailAccount = acc
-      } else {
+      // ============================================================================
+      // SENDER POOL, WARMUP & DAILY LIMIT CHECKING
+      // ============================================================================
+
+      // Sender pool: from_email_account_id plus email_account_ids, or the first active account
+      let senderIds = getCampaignSenderIds(campaign)
+      if (senderIds.length === 0) {
         const { data: emailAccounts, error: emailAccountError } = await supabase
           .from('email_accounts')
-          .select('*')
+          .select('id')
           .eq('user_id', campaign.user_id)
           .eq('status', 'active')
           .order('created_at', { ascending: true })
@@ -491,51 +577,47 @@ export class CampaignProcessor {
         if (emailAccountError || !emailAccounts || emailAccounts.length === 0) {
           throw new Error('No active email account found for this user')
         }
-        emailAccount = emailAccounts[0]
+        senderIds = [emailAccounts[0].id]
       }
-      console.log(`📧 Using email account: ${emailAccount.email} (${emailAccount.provider})`)
 
-      // ============================================================================
-      // WARMUP & DAILY LIMIT CHECKING
-      // ============================================================================
+      const rotationEnabled = isRotationEnabled(campaign)
+      if (!rotationEnabled) {
+        senderIds = senderIds.slice(0, 1)
+      }
 
-      // Check if email account has warmup enabled
-      let warmupPlan = null
-      let effectiveDailyLimit = emailAccount.daily_send_limit || 50
+      // Contacts already emailed in this campaign or sequence keep their original sender
+      const threadSenders = await findThreadSenders(supabase, campaign, contacts.map((c: any) => c.id))
+      const pinnedIds = Array.from(new Set(threadSenders.values())).filter(id => !senderIds.includes(id))
 
-      if (emailAccount.warmup_enabled && emailAccount.warmup_plan_id) {
-        // Fetch active warmup plan
-        const { data: warmupData } = await supabase
-          .from('warmup_plans')
-          .select('*')
-          .eq('id', emailAccount.warmup_plan_id)
-          .eq('status', 'active')
-          .single()
+      const senders = await loadSenderPool(supabase, campaign.user_id, [...senderIds, ...pinnedIds])
+      const sendersById = new Map(senders.map(sender => [sender.account.id, sender]))
+      const senderPool = senders.filter(sender => senderIds.includes(sender.account.id))
 
-        if (warmupData) {
-          warmupPlan = warmupData
-          // Warmup limit takes precedence over account limit
-          effectiveDailyLimit = Math.min(effectiveDailyLimit, warmupPlan.daily_target || 5)
+      if (senderPool.length === 0) {
+        throw new Error('Selected email account is not available')
+      }
 
-          console.log(`🔥 WARMUP ACTIVE - Week ${warmupPlan.current_week}/${warmupPlan.total_weeks}`)
-          console.log(`   Daily limit: ${warmupPlan.daily_target}/day (warmup-enforced)`)
-          console.log(`   Total sent: ${warmupPlan.total_sent} emails`)
-          console.log(`   Today sent: ${emailAccount.current_daily_sent || 0}/${warmupPlan.daily_target}`)
+      for (const sender of senderPool) {
+        console.log(`📧 Sender ${sender.account.email} (${sender.account.provider}): ${sender.sentToday}/${sender.dailyLimit} sent today, reputation ${sender.reputationScore}`)
+        if (sender.warmupPlan) {
+          console.log(`🔥 WARMUP ACTIVE - Week ${sender.warmupPlan.current_week}/${sender.warmupPlan.total_weeks}, ${sender.warmupPlan.daily_target}/day (warmup-enforced)`)
         }
       }
+      if (rotationEnabled) {
+        console.log(`🔄 Inbox rotation across ${senderPool.length} accounts`)
+      }
 
-      // Check if daily limit already reached
-      const currentDailySent = emailAccount.current_daily_sent || 0
-      const remainingToday = effectiveDailyLimit - currentDailySent
+      // Check if the whole pool already reached its daily limit
+      const remainingToday = getPoolRemainingQuota(senderPool)
+      const effectiveDailyLimit = senderPool.reduce((sum, sender) => sum + sender.dailyLimit, 0)
 
       if (remainingToday <= 0) {
-        console.log(`❌ Daily limit reached for ${emailAccount.email}`)
-        console.log(`   Sent today: ${currentDailySent}/${effectiveDailyLimit}`)
+        console.log(`❌ Daily limit reached for all sender accounts`)
         console.log(`   Skipping campaign ${campaign.id} - will retry tomorrow after counter resets`)
         return // Skip this batch - daily quota exhausted
       }
 
-      console.log(`✅ Daily quota check: ${currentDailySent}/${effectiveDailyLimit} sent today, ${remainingToday} remaining`)
+      console.log(`✅ Daily quota check: ${remainingToday}/${effectiveDailyLimit} remaining today across the sender pool`)
 
       // Check batch scheduling before processing
       const batchDelayMs = this.getBatchDelayMs()
@@ -562,7 +644,7 @@ export class CampaignProcessor {
       console.log(`🚀 Starting campaign processing for ${campaign.id}`)
       console.log(`📊 Batch size calculation:`)
       console.log(`   - Requested: ${requestedBatchSize} emails`)
-      console.log(`   - Effective daily limit: ${effectiveDailyLimit} emails/day ${warmupPlan ? '(warmup-enforced)' : ''}`)
+      console.log(`   - Effective daily limit: ${effectiveDailyLimit} emails/day across ${senderPool.length} account(s)`)
       console.log(`   - Remaining today: ${remainingToday} emails`)
       console.log(`   - Final batch size: ${batchSize} emails`)
       console.log(`📊 Campaign send_settings:`, JSON.stringify(campaign.send_settings?.rate_limiting, null, 2))
@@ -590,9 +672,87 @@ export class CampaignProcessor {
 
       let emailsProcessedInThisBatch = 0 // Track only NEW emails sent in this batch
 
+      // Refresh A/B test results first so a promoted winner applies to this batch
+      let abTest = getCampaignABTest(campaign)
+      if (abTest) {
+        try {
+          abTest = (await refreshCampaignABTest(supabase, campaign.id, abTest)).test
+        } catch (abError) {
+          console.warn('⚠️ A/B test refresh failed, using stored test config:', abError)
+        }
+      }
+
+      // Never email addresses or domains on the account's suppression list
+      let suppressionSet: SuppressionSet | null = null
+      try {
+        suppressionSet = await loadSuppressionSet(supabase, campaign.user_id)
+      } catch (suppressionError) {
+        console.error('❌ Failed to load suppression list, aborting batch:', suppressionError)
+        return
+      }
+
+      // Account-based rules: companies that replied and contacts emailed per company
+      const accountRules = resolveAccountRules(campaign)
+      let accountState: AccountRuleState | null = null
+      if (hasAccountRules(accountRules)) {
+        try {
+          accountState = await loadAccountRuleState(supabase, campaign.id)
+        } catch (accountError) {
+          console.error('❌ Failed to load account rule state, aborting batch:', accountError)
+          return
+        }
+      }
+
+      // Typed custom fields, so {{custom.key}} variables are formatted by type
+      let customFields: CustomFieldDefinition[] = []
+      try {
+        customFields = await listCustomFieldDefinitions(supabase, campaign.user_id)
+      } catch (customFieldError) {
+        console.error('⚠️ Failed to load custom fields, formatting their variables as stored:', customFieldError)
+      }
+
+      // Per-recipient-domain caps, shared with the user's other campaigns
+      const domainCaps = resolveDomainCaps(campaign)
+      const cappedDomains = new Map<string, DomainDeferral>()
+      const deferredContacts = new Map<string, { reason: string; deferredUntil: Date }>()
+
+      // Contacts on an auto-reply are postponed until their return date plus the buffer
+      const oooRules = resolveOOORules(campaign)
+
+      // Public holidays and quiet days in the recipient's country
+      const holidaySettings = campaign.send_settings || campaign.schedule_settings || {}
+
+      // "optimized" send time mode: each contact goes out at the local hour they usually engage
+      let sendTimeModel: SendTimeModel | null = null
+      if (holidaySettings.send_time_mode === 'optimized') {
+        try {
+          sendTimeModel = await loadSendTimeModel(supabase, campaign.user_id, contacts, campaign.timezone || 'UTC')
+        } catch (modelError) {
+          console.warn('⚠️ Failed to build send-time model, using the campaign window:', modelError)
+        }
+      }
+      const previouslyDeferred = new Set<string>()
+      try {
+        const deferrals = await listSendDeferrals(supabase, campaign.id)
+        deferrals.forEach(deferral => previouslyDeferred.add(deferral.contact_id))
+      } catch (deferralError) {
+        console.warn('⚠️ Failed to load previous send deferrals:', deferralError)
+      }
+
       for (let i = 0; i < contacts.length; i++) {
         const contact = contacts[i]
 
+        if (isSuppressed(suppressionSet, contact.email)) {
+          console.log(`🚫 Skipping ${contact.email} - on suppression list`)
+          continue
+        }
+
+        const accountBlock = accountState && accountRuleBlockReason(accountRules, accountState, contact)
+        if (accountBlock) {
+          console.log(`🏢 Skipping ${contact.email} - ${accountBlock}`)
+          continue
+        }
+
         // Check if email already sent to this contact to prevent duplicates
         const { data: existingTracking } = await supabase
           .from('email_tracking')
@@ -607,14 +767,109 @@ export class CampaignProcessor {
           continue // Skip this contact
         }
 
+        const oooResumeAt = getOOOResumeTime(contact, oooRules.bufferDays)
+        if (oooResumeAt) {
+          const reason = oooPostponementReason(contact.auto_reply_until)
+          deferredContacts.set(contact.id, { reason, deferredUntil: oooResumeAt })
+          try {
+            await recordOOOPostponement(supabase, {
+              userId: campaign.user_id,
+              contactId: contact.id,
+              campaignId: campaign.id,
+              stage: 'campaign',
+              autoReplyUntil: contact.auto_reply_until,
+              postponedUntil: oooResumeAt
+            })
+          } catch (postponementError) {
+            console.warn('⚠️ Failed to record out-of-office postponement:', postponementError)
+          }
+          console.log(`🏖️ Postponing ${contact.email} until ${oooResumeAt.toISOString()} - ${reason}`)
+          continue
+        }
+
+        if (holidaySettings.avoid_holidays) {
+          const country = inferContactCountry(contact)
+          const { sendAt, skipped } = nextSendableTime(new Date(), {
+            country,
+            timezone: contact.timezone || getDefaultTimezone(country),
+            settings: { ...holidaySettings, avoid_weekends: false }
+          })
+          if (skipped.length > 0) {
+            const reason = `${skipped[0].name}${country ? ` in ${country}` : ''}`
+            deferredContacts.set(contact.id, { reason, deferredUntil: sendAt })
+            console.log(`🎉 Deferring ${contact.email} until ${sendAt.toISOString()} - ${reason}`)
+            continue
+          }
+        }
+
+        if (sendTimeModel) {
+          const prediction = predictSendHour(sendTimeModel, contact)
+          // Business hours and time windows still apply; the closest allowed hour is used instead
+          const now = new Date()
+          const sendAt = prediction && nextOptimizedSendTime(now, prediction.hour, prediction.timezone, holidaySettings)
+          if (prediction && sendAt && sendAt.getTime() > now.getTime()) {
+            const reason = `Best send time ${String(getLocalHour(sendAt, prediction.timezone)).padStart(2, '0')}:00 ${prediction.timezone} (${prediction.source} history)`
+            deferredContacts.set(contact.id, { reason, deferredUntil: sendAt })
+            console.log(`🕘 Deferring ${contact.email} until ${sendAt.toISOString()} - ${reason}`)
+            continue
+          }
+        }
+
         // Enforce batch size limit ONLY for NEW emails to be sent
         if (emailsProcessedInThisBatch >= batchSize) {
           console.log(`⚖️ Batch size reached (${batchSize} new emails sent). Stopping current batch. Remaining: ${contacts.length - i} contacts`)
           break
         }
 
+        // Pick the sender: contacts already in a thread keep their original sender
+        const pinnedSenderId = threadSenders.get(contact.id)
+        let sender: SenderCandidate | null = null
+        if (pinnedSenderId && sendersById.has(pinnedSenderId)) {
+          sender = sendersById.get(pinnedSenderId)!
+          const pinnedDeferral = getPinnedSenderDeferral(sender)
+          if (pinnedDeferral) {
+            deferredContacts.set(contact.id, pinnedDeferral)
+            console.log(`⏭️ Deferring ${contact.email} until ${pinnedDeferral.deferredUntil.toISOString()} - ${pinnedDeferral.reason}`)
+            continue
+          }
+        } else {
+          if (pinnedSenderId) {
+            console.warn(`⚠️ Original sender for ${contact.email} is no longer active, rotating to another account`)
+          }
+          sender = pickSenderCandidate(senderPool)
+          if (!sender) {
+            console.log(`❌ All sender accounts reached their daily limit. Stopping current batch.`)
+            break
+          }
+        }
+        const emailAccount = sender.account
+        const warmupPlan = sender.warmupPlan
+
+        // Defer contacts whose domain reached its hourly/daily cap; other domains keep flowing
+        const recipientDomain = getEmailDomain(contact.email)
+        const reservedAt = new Date()
+        const domainDeferral = cappedDomains.get(recipientDomain) ||
+          await reserveDomainSend(supabase, campaign.user_id, contact.email, domainCaps)
+        if (domainDeferral) {
+          cappedDomains.set(recipientDomain, domainDeferral)
+          deferredContacts.set(contact.id, domainDeferral)
+          await recordSendDeferral(supabase, {
+            userId: campaign.user_id,
+            campaignId: campaign.id,
+            contactId: contact.id,
+            deferral: domainDeferral
+          })
+          console.log(`⏸️ Deferring ${contact.email} until ${domainDeferral.deferredUntil.toISOString()} - ${domainDeferral.reason}`)
+          continue
+        }
+
         emailsProcessedInThisBatch++ // Count this NEW email toward batch limit
 
+        // Hand the domain reservation back when this contact does not get emailed
+        let sendSucceeded = false
+        const releaseDomainReservation = () =>
+          releaseDomainSend(supabase, campaign.user_id, contact.email, domainCaps, reservedAt)
+
         const trackingId = `${campaign.id}_${contact.id}_${Date.now()}`
         let trackingPixelId: string | null = null
         try {
@@ -627,7 +882,7 @@ export class CampaignProcessor {
           // Check if this contact has personalized content stored in campaign_contacts
           const { data: campaignContact, error: campaignContactError } = await supabase
             .from('campaign_contacts')
-            .select('personalized_subject, personalized_body, ai_personalization_used')
+            .select('personalized_subject, personalized_body, ai_personalization_used, ab_test_variant')
             .eq('campaign_id', campaign.id)
             .eq('contact_id', contact.id)
             .single()
@@ -689,17 +944,22 @@ export class CampaignProcessor {
             }
           }
 
+          // Swap in the contact's A/B test variant before variable replacement
+          let abVariantId: string | null = null
+          if (abTest) {
+            const variant = await assignCampaignVariant(supabase, campaign.id, abTest, contact.id, campaignContact?.ab_test_variant)
+            const variantContent = applyVariantContent(abTest, variant, personalizedSubject, personalizedContent)
+            personalizedSubject = variantContent.subject
+            personalizedContent = variantContent.content
+            abVariantId = variant.id
+            console.log(`🧪 Using A/B variant "${variant.name}" for ${contact.email}`)
+          }
+
           // Apply standard variable replacement to the personalized content
           console.log(`🔧 Before personalization - Contact: ${JSON.stringify({name: contact.first_name + ' ' + contact.last_name, email: contact.email})}`)
           console.log(`🔧 Before personalization - Subject: ${personalizedSubject}`)
           console.log(`🔧 Before personalization - Content preview: ${personalizedContent.substring(0, 200)}...`)
 
-          personalizedSubject = this.personalizeContent(personalizedSubject, contact, campaignContact?.ai_personalization_used)
-          personalizedContent = this.personalizeContent(personalizedContent, contact, campaignContact?.ai_personalization_used)
-
-          console.log(`✅ After personalization - Subject: ${personalizedSubject}`)
-          console.log(`✅ After personalization - Content preview: ${personalizedContent.substring(0, 200)}...`)
-
           // Extract sender name from campaign description (mandatory field)
           let senderName = 'Eisbrief' // Fallback for legacy campaigns
           try {
@@ -715,6 +975,19 @@ export class CampaignProcessor {
             senderName = (emailAccount as any).name || 'Eisbrief'
           }
 
+          personalizedSubject = this.personalizeContent(personalizedSubject, contact, campaignContact?.ai_personalization_used, {
+            customFields,
+            senderName
+          })
+          personalizedContent = this.personalizeContent(personalizedContent, contact, campaignContact?.ai_personalization_used, {
+            customFields,
+            senderName,
+            escapeHtml: true
+          })
+
+          console.log(`✅ After personalization - Subject: ${personalizedSubject}`)
+          console.log(`✅ After personalization - Content preview: ${personalizedContent.substring(0, 200)}...`)
+
           // Create email tracking record FIRST to get the tracking_pixel_id
           const trackingInsert = {
             user_id: campaign.user_id,
@@ -724,6 +997,7 @@ export class CampaignProcessor {
             subject_line: personalizedSubject,
             email_body: personalizedContent,
             email_account_id: emailAccount.id,
+            ...(abVariantId ? { ab_test_variant: abVariantId } : {}),
             status: 'pending', // explicitly set initial status
             sent_at: null as string | null // override DB defaults so analytics wait for the actual send
           }
@@ -736,6 +1010,7 @@ export class CampaignProcessor {
 
           if (trackingError || !trackingRecord) {
             console.error('❌ Error creating tracking record:', trackingError)
+            await releaseDomainReservation()
             continue // Skip this contact
           }
 
@@ -775,6 +1050,14 @@ export class CampaignProcessor {
             }
           }
 
+          // RFC 8058 one-click unsubscribe headers
+          let listUnsubscribeHeaders: Record<string, string> | undefined
+          try {
+            listUnsubscribeHeaders = await emailTracker.generateListUnsubscribeHeaders(contact.email, campaign.id, contact.id)
+          } catch (unsubscribeError) {
+            console.warn(`⚠️ Failed to create unsubscribe headers for ${contact.email}:`, unsubscribeError)
+          }
+
           // Send email with the actual tracking pixel ID
           const result = await this.sendEmail({
             to: contact.email,
@@ -786,12 +1069,19 @@ export class CampaignProcessor {
             pixelId: trackingPixelId || undefined,
             campaignId: campaign.id,
             contactId: contact.id,
-            campaignName: campaign.name
+            campaignName: campaign.name,
+            listUnsubscribeHeaders
           })
 
           if (result.status === 'sent') {
+            sendSucceeded = true
             emailsSent++
             sentContactIds.push(contact.id)
+            recordSenderSend(sender)
+            if (accountState) recordAccountSend(accountState, contact)
+            if (previouslyDeferred.has(contact.id)) {
+              await clearSendDeferral(supabase, campaign.id, contact.id)
+            }
             console.log(`✅ Email ${i+1}/${contacts.length} sent to ${contact.email}`)
 
             // Update tracking record with sent+delivered timestamps and status (SMTP accepted)
@@ -892,6 +1182,7 @@ export class CampaignProcessor {
             emailsFailed++
             failedContactIds.push(contact.id)
             console.log(`❌ Failed to send email ${i+1}/${contacts.length} to ${contact.email}: ${result.error}`)
+            await releaseDomainReservation()
 
             // Update existing tracking record with failure info
             const nowIso = new Date().toISOString()
@@ -931,6 +1222,9 @@ export class CampaignProcessor {
           emailsFailed++
           failedContactIds.push(contact.id)
           console.error(`❌ Error sending to ${contact.email}:`, error)
+          if (!sendSucceeded) {
+            await releaseDomainReservation()
+          }
 
           const errorMessage = error instanceof Error ? error.message : 'Unknown error'
           const nowIso = new Date().toISOString()
@@ -1011,8 +1305,47 @@ export class CampaignProcessor {
           console.log(`✅ Marked batch ${currentBatchNumber} as sent`)
         }
 
-        // Find next pending batch
-        const nextPendingBatch = updatedBatches.find((batch: any) => batch.status === 'pending')
+        // Batches appended while this batch was sending (referral enrollments) are kept
+        const { data: latestCampaign } = await supabase
+          .from('campaigns')
+          .select('batch_schedule')
+          .eq('id', campaign.id)
+          .single()
+        const latestSchedule = (latestCampaign?.batch_schedule || campaign.batch_schedule) as any
+        const knownBatchNumbers = new Set(campaign.batch_schedule.batches.map((batch: any) => batch.batch_number))
+        const appendedBatches = (latestSchedule.batches || []).filter((batch: any) => !knownBatchNumbers.has(batch.batch_number))
+        if (appendedBatches.length > 0) {
+          updatedBatches = [...updatedBatches, ...appendedBatches]
+          updateData.total_contacts += appendedBatches.reduce((sum: number, batch: any) => sum + (batch.contact_count || 0), 0)
+        }
+
+        // Deferred contacts (domain caps, holidays, send-time optimization, out of office) get one extra batch per retry time
+        const deferredByTime = new Map<string, string[]>()
+        deferredContacts.forEach((deferral, contactId) => {
+          const retryAt = deferral.deferredUntil.toISOString()
+          deferredByTime.set(retryAt, [...(deferredByTime.get(retryAt) || []), contactId])
+        })
+        let retryBatchNumber = Math.max(...updatedBatches.map((batch: any) => batch.batch_number))
+        for (const [retryAt, deferredIds] of Array.from(deferredByTime.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+          retryBatchNumber++
+          updatedBatches = [
+            ...updatedBatches,
+            {
+              batch_number: retryBatchNumber,
+              scheduled_time: retryAt,
+              contact_ids: deferredIds,
+              contact_count: deferredIds.length,
+              status: 'pending',
+              deferred: true
+            }
+          ]
+          console.log(`⏸️ ${deferredIds.length} deferred contacts rescheduled as batch ${retryBatchNumber} at ${retryAt}`)
+        }
+
+        // Find the earliest pending batch
+        const nextPendingBatch = updatedBatches
+          .filter((batch: any) => batch.status === 'pending')
+          .sort((a: any, b: any) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime())[0]
 
         // Check if ALL batches are actually sent (not just no pending batches)
         const allBatchesSent = updatedBatches.every((batch: any) => batch.status === 'sent')
@@ -1021,8 +1354,9 @@ export class CampaignProcessor {
 
         // Update batch schedule
         updateData.batch_schedule = {
-          ...campaign.batch_schedule,
-          batches: updatedBatches
+          ...latestSchedule,
+          batches: updatedBatches,
+          total_batches: updatedBatches.length
         }
 
         if (nextPendingBatch) {
@@ -1046,7 +1380,8 @@ export class CampaignProcessor {
         // Fallback to old logic if no batch schedule
         const remainingContacts = totalCampaignContacts - ((campaign.emails_sent || 0) + emailsSent)
         const hasMoreContacts = remainingContacts > 0
-        const newStatus = !hasMoreContacts ? 'completed' : (totalProcessed > 0 ? 'sending' : 'paused')
+        const retryTime = getEarliestDeferral(Array.from(deferredContacts.values()))
+        const newStatus = !hasMoreContacts ? 'completed' : (totalProcessed > 0 || retryTime ? 'sending' : 'paused')
 
         updateData.total_contacts = totalCampaignContacts
         updateData.status = newStatus
@@ -1061,6 +1396,9 @@ export class CampaignProcessor {
           }
 
           console.log(`📅 Next batch scheduled for: ${nextBatchTime.toISOString()}`)
+        } else if (retryTime) {
+          updateData.next_batch_send_time = retryTime.toISOString()
+          console.log(`⏸️ All remaining contacts deferred, retrying at ${retryTime.toISOString()}`)
         } else if (emailsSent > 0) {
           updateData.next_batch_send_time = null
         }
@@ -1170,6 +1508,12 @@ export class CampaignProcessor {
         console.log(`🔄 Using existing campaign execution: ${executionId}`)
       }
 
+      // Route due follow-ups through the branching conditions of the previous step
+      const rerouted = await CampaignExecutionEngine.applyStepConditions(campaign, supabase)
+      if (rerouted > 0) {
+        console.log(`🔀 ${rerouted} contacts branched, skipped, delayed or stopped by step conditions`)
+      }
+
       // Process the next batch of emails
       console.log(`⚡ Processing next batch for execution ${executionId}`)
       await CampaignExecutionEngine.processNextBatch(executionId, supabase)
@@ -1196,6 +1540,7 @@ export class CampaignProcessor {
     campaignId?: string
     contactId?: string
     campaignName?: string
+    listUnsubscribeHeaders?: Record<string, string>
   }): Promise<any> {
     console.log(`📧 Sending email to ${params.to} with subject: ${params.subject}`)
 
@@ -1263,7 +1608,8 @@ export class CampaignProcessor {
           headers: {
             'X-Campaign-ID': params.campaignId || '',
             'X-Contact-ID': params.contactId || '',
-            'X-Tracking-ID': params.trackingId
+            'X-Tracking-ID': params.trackingId,
+            ...params.listUnsubscribeHeaders
           }
         }
 
@@ -1329,7 +1675,8 @@ export class CampaignProcessor {
             subject: params.subject,
             html: htmlContent,
             text: params.content.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-            senderName: params.senderName
+            senderName: params.senderName,
+            headers: params.listUnsubscribeHeaders
           })
 
           console.log(`✅ Gmail email sent successfully: ${result.messageId}`)
@@ -1386,28 +1733,19 @@ export class CampaignProcessor {
   }
 
   /**
-   * Personalize email content with contact data
+   * Personalize email content with contact data. Subjects and bodies use the
+   * template language (variables, filters, conditionals, spintax); see
+   * lib/template-language.ts.
    */
-  private personalizeContent(content: string, contact: any, isAIPersonalized: boolean = false): string {
+  private personalizeContent(
+    content: string,
+    contact: any,
+    isAIPersonalized: boolean = false,
+    options: { customFields?: CustomFieldDefinition[]; senderName?: string | null; escapeHtml?: boolean } = {}
+  ): string {
     if (!content) return ''
 
-    let personalizedContent = content
-      .replace(/\{\{first_name\}\}/g, contact.first_name || contact.name || 'there')
-      .replace(/\{\{last_name\}\}/g, contact.last_name || '')
-      .replace(/\{\{name\}\}/g, contact.name || `${contact.first_name || ''} ${contact.last_name || ''}`.trim() || 'there')
-      .replace(/\{\{email\}\}/g, contact.email || '')
-      .replace(/\{\{company\}\}/g, contact.company || '')
-      .replace(/\{\{company_name\}\}/g, contact.company_name || contact.company || '')
-      .replace(/\{\{position\}\}/g, contact.position || contact.job_title || '')
-      .replace(/\{\{phone\}\}/g, contact.phone || '')
-      .replace(/\{\{website\}\}/g, contact.website || '')
-      // Handle HTML entity encoded variables
-      .replace(/&#123;&#123;first_name&#125;&#125;/g, contact.first_name || contact.name || 'there')
-      .replace(/&#123;&#123;last_name&#125;&#125;/g, contact.last_name || '')
-      .replace(/&#123;&#123;email&#125;&#125;/g, contact.email || '')
-      .replace(/&#123;&#123;company&#125;&#125;/g, contact.company || '')
-      .replace(/&#123;&#123;company_name&#125;&#125;/g, contact.company_name || contact.company || '')
-      .replace(/&#123;&#123;sender_name&#125;&#125;/g, 'Your Name')
+    let personalizedContent = renderContactTemplate(content, contact, options)
 
     // Only apply fallback personalized reason replacement if this is NOT AI-personalized content
     if (!isAIPersonalized) {
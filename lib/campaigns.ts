@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { checkCampaignTemplates, type LabelledTemplate } from './template-language'
 
 // Core campaign interfaces
 export interface Campaign {
@@ -8,6 +9,8 @@ export interface Campaign {
   description?: string
   status: 'draft' | 'active' | 'paused' | 'completed' | 'archived'
   contact_list_ids: string[]
+  from_email_account_id?: string
+  email_account_ids?: string[]     // sender pool for inbox rotation
   email_sequence: EmailStep[]
   ai_settings: AIPersonalizationSettings
   schedule_settings: ScheduleSettings
@@ -31,6 +34,7 @@ export interface EmailStep {
   conditions: StepCondition[]
   ab_test_variant?: string
   personalization_template_id?: string
+  send_in_same_thread?: boolean  // reply to the previous step (In-Reply-To/References, "Re:" subject)
   is_active: boolean
   created_at: string
   updated_at: string
@@ -67,6 +71,11 @@ export interface ScheduleSettings {
   avoid_weekends: boolean
   avoid_holidays: boolean
   holiday_list: string[]       // ISO date strings
+  quiet_days?: Record<string, string[]> // country code (or "*") -> ISO dates or recurring MM-DD
+  send_time_mode?: 'window' | 'optimized' // optimized: each contact at their predicted best hour
+  exclude_email_statuses?: Array<'invalid' | 'risky'> // verification statuses dropped at launch
+  account_rules?: AccountRuleSettings
+  out_of_office?: OutOfOfficeSettings
   rate_limiting: RateLimitSettings
   send_immediately: boolean
 }
@@ -80,10 +89,21 @@ export interface TimeWindow {
   timezone?: string
 }
 
+export interface AccountRuleSettings {
+  stop_on_reply?: boolean            // stop emailing a company once one of its contacts replied
+  max_contacts_per_account?: number  // email at most this many contacts per company
+}
+
+export interface OutOfOfficeSettings {
+  buffer_days?: number         // days after a contact's return date before emailing them again
+  enroll_alternates?: boolean  // enrol the alternate named in an out-of-office reply
+}
+
 export interface RateLimitSettings {
   daily_limit: number
   hourly_limit: number
   domain_limit: number         // max emails per domain per day
+  domain_hourly_limit?: number // max emails per domain per hour
   account_rotation: boolean
   warmup_mode: boolean
   batch_size: number
@@ -197,6 +217,7 @@ export const emailStepSchema = z.object({
     delay_hours: z.number().min(0).max(168).optional() // max 1 week
   })),
   personalization_template_id: z.string().uuid().optional(),
+  send_in_same_thread: z.boolean().default(false),
   is_active: z.boolean().default(true)
 })
 
@@ -217,10 +238,22 @@ export const scheduleSettingsSchema = z.object({
   avoid_weekends: z.boolean().default(true),
   avoid_holidays: z.boolean().default(true),
   holiday_list: z.array(z.string()).default([]),
+  quiet_days: z.record(z.array(z.string())).optional(),
+  send_time_mode: z.enum(['window', 'optimized']).optional(),
+  exclude_email_statuses: z.array(z.enum(['invalid', 'risky'])).optional(),
+  account_rules: z.object({
+    stop_on_reply: z.boolean().optional(),
+    max_contacts_per_account: z.number().int().min(1).max(100).optional()
+  }).optional(),
+  out_of_office: z.object({
+    buffer_days: z.number().min(0).max(30).optional(),
+    enroll_alternates: z.boolean().optional()
+  }).optional(),
   rate_limiting: z.object({
     daily_limit: z.number().min(1).max(200).default(50),
     hourly_limit: z.number().min(1).max(50).default(10),
     domain_limit: z.number().min(1).max(20).default(10),
+    domain_hourly_limit: z.number().min(1).max(20).optional(),
     account_rotation: z.boolean().default(true),
     warmup_mode: z.boolean().default(false),
     batch_size: z.number().min(1).max(50).default(10),
@@ -480,6 +513,16 @@ export class CampaignUtils {
     }
   }
 
+  /**
+   * Subject and content templates of a sequence, labelled for launch checks
+   */
+  static getSequenceTemplates(sequence: EmailStep[]): LabelledTemplate[] {
+    return sequence.flatMap(step => [
+      { label: `Step ${step.step_number} subject`, content: step.subject_template },
+      { label: `Step ${step.step_number} content`, content: step.content_template },
+    ])
+  }
+
   /**
    * Validate campaign before launch
    */
@@ -505,6 +548,9 @@ export class CampaignUtils {
       errors.push(...sequenceValidation.errors)
     }
     
+    // Templates must parse; contact data is checked once the contacts are known
+    errors.push(...checkCampaignTemplates(this.getSequenceTemplates(campaign.email_sequence), []).errors)
+
     // Validate AI settings
     if (campaign.ai_settings.enabled) {
       if (!campaign.ai_settings.template_id && !campaign.ai_settings.custom_prompt) {
@@ -0,0 +1,315 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from './database.types'
+import { selectAllPages } from './supabase-paging'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Company accounts.
+ *
+ * Contacts are grouped into companies keyed by domain: the business email
+ * domain, or the website host for contacts with a personal mailbox. The
+ * database links contacts and keeps each company's engagement totals current
+ * (see company_domain() and refresh_company_stats()); this module reads
+ * companies, shares company enrichment between colleagues and evaluates the
+ * account-based rules of campaigns.
+ */
+
+export type Company = Tables<'companies'>
+
+export type CompanyContact = Pick<
+  Tables<'contacts'>,
+  'id' | 'email' | 'first_name' | 'last_name' | 'position' | 'engagement_status' | 'engagement_score' |
+  'last_contacted_at' | 'last_replied_at'
+>
+
+export interface CompanyListOptions {
+  search?: string
+  page?: number
+  limit?: number
+  sortBy?: 'engagement_score' | 'contact_count' | 'name' | 'last_engaged_at'
+}
+
+/** Company enrichment older than this is not reused for new colleagues */
+export const COMPANY_ENRICHMENT_MAX_AGE_DAYS = 180
+
+const COMPANY_CONTACT_COLUMNS =
+  'id, email, first_name, last_name, position, engagement_status, engagement_score, last_contacted_at, last_replied_at'
+
+export async function listCompanies(
+  supabase: Supabase,
+  userId: string,
+  options: CompanyListOptions = {}
+): Promise<{ companies: Company[]; total: number }> {
+  const page = Math.max(1, options.page || 1)
+  const limit = Math.min(100, Math.max(1, options.limit || 25))
+  const sortBy = options.sortBy || 'engagement_score'
+
+  let query = supabase
+    .from('companies')
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .gt('contact_count', 0)
+
+  const search = options.search?.trim()
+  if (search) {
+    const pattern = `%${search.replace(/[%_,()]/g, ' ')}%`
+    query = query.or(`name.ilike.${pattern},domain.ilike.${pattern}`)
+  }
+
+  const { data, error, count } = await query
+    .order(sortBy, { ascending: sortBy === 'name', nullsFirst: false })
+    .range((page - 1) * limit, page * limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to list companies: ${error.message}`)
+  }
+
+  return { companies: data || [], total: count || 0 }
+}
+
+export async function getCompany(supabase: Supabase, userId: string, companyId: string): Promise<Company | null> {
+  const { data, error } = await supabase
+    .from('companies')
+    .select('*')
+    .eq('id', companyId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load company: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function getCompanyContacts(
+  supabase: Supabase,
+  userId: string,
+  companyId: string
+): Promise<CompanyContact[]> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select(COMPANY_CONTACT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('company_id', companyId)
+    .order('engagement_score', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load company contacts: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * The company of a contact and the other contacts at it. Returns null when the
+ * contact does not exist; company is null for contacts without a company domain.
+ */
+export async function getContactColleagues(
+  supabase: Supabase,
+  userId: string,
+  contactId: string
+): Promise<{ company: Company | null; colleagues: CompanyContact[] } | null> {
+  const { data: contact, error } = await supabase
+    .from('contacts')
+    .select('id, company_id')
+    .eq('id', contactId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load contact: ${error.message}`)
+  }
+  if (!contact) return null
+  if (!contact.company_id) return { company: null, colleagues: [] }
+
+  const [company, contacts] = await Promise.all([
+    getCompany(supabase, userId, contact.company_id),
+    getCompanyContacts(supabase, userId, contact.company_id),
+  ])
+
+  return { company, colleagues: contacts.filter(colleague => colleague.id !== contactId) }
+}
+
+export function isCompanyEnrichmentFresh(
+  company: Pick<Company, 'enrichment_data' | 'enrichment_updated_at'>,
+  now: Date = new Date()
+): boolean {
+  if (!company.enrichment_data || !company.enrichment_updated_at) return false
+  const ageMs = now.getTime() - new Date(company.enrichment_updated_at).getTime()
+  return ageMs <= COMPANY_ENRICHMENT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Store a contact's company enrichment on its company, so colleagues reuse it
+ * instead of analysing the same website again
+ */
+export async function saveCompanyEnrichment(
+  supabase: Supabase,
+  userId: string,
+  contactId: string,
+  enrichmentData: Record<string, any>
+): Promise<void> {
+  const { data: contact, error: contactError } = await supabase
+    .from('contacts')
+    .select('company_id')
+    .eq('id', contactId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (contactError) {
+    throw new Error(`Failed to load contact: ${contactError.message}`)
+  }
+  if (!contact?.company_id) return
+
+  const now = new Date().toISOString()
+  const industry = typeof enrichmentData.industry === 'string' && enrichmentData.industry.trim()
+    ? enrichmentData.industry.trim()
+    : null
+
+  const { error } = await supabase
+    .from('companies')
+    .update({
+      enrichment_data: enrichmentData as Json,
+      enrichment_updated_at: now,
+      ...(industry ? { industry } : {}),
+      updated_at: now,
+    })
+    .eq('id', contact.company_id)
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to save company enrichment: ${error.message}`)
+  }
+}
+
+// ============================================================================
+// Account-based campaign rules
+// ============================================================================
+
+export interface AccountRules {
+  /** Stop emailing everyone at a company once one of its contacts replied to the campaign */
+  stopOnReply: boolean
+  /** Email at most this many contacts per company in the campaign */
+  maxContactsPerAccount: number | null
+}
+
+export interface AccountRuleSettings {
+  send_settings?: { account_rules?: { stop_on_reply?: boolean; max_contacts_per_account?: number | null } } | null
+  schedule_settings?: { account_rules?: { stop_on_reply?: boolean; max_contacts_per_account?: number | null } } | null
+}
+
+/** Per-company state of one campaign */
+export interface AccountRuleState {
+  repliedCompanyIds: Set<string>
+  /** Contacts emailed so far, by company */
+  contactedByCompany: Map<string, Set<string>>
+}
+
+export function resolveAccountRules(campaign: AccountRuleSettings): AccountRules {
+  const rules = (campaign.send_settings || campaign.schedule_settings)?.account_rules
+  const max = rules?.max_contacts_per_account
+  return {
+    stopOnReply: rules?.stop_on_reply === true,
+    maxContactsPerAccount: typeof max === 'number' && Number.isFinite(max) && max > 0 ? Math.floor(max) : null,
+  }
+}
+
+export function hasAccountRules(rules: AccountRules): boolean {
+  return rules.stopOnReply || rules.maxContactsPerAccount !== null
+}
+
+/**
+ * Why a contact must not be emailed under the campaign's account rules, or null
+ */
+export function accountRuleBlockReason(
+  rules: AccountRules,
+  state: AccountRuleState,
+  contact: { id: string; company_id?: string | null }
+): string | null {
+  if (!contact.company_id) return null
+
+  if (rules.stopOnReply && state.repliedCompanyIds.has(contact.company_id)) {
+    return 'Someone at this company already replied'
+  }
+
+  if (rules.maxContactsPerAccount !== null) {
+    const contacted = state.contactedByCompany.get(contact.company_id)
+    if (contacted && !contacted.has(contact.id) && contacted.size >= rules.maxContactsPerAccount) {
+      return `Already emailing ${contacted.size} contact(s) at this company`
+    }
+  }
+
+  return null
+}
+
+/** Count a send in the state, so later contacts of the same batch see it */
+export function recordAccountSend(state: AccountRuleState, contact: { id: string; company_id?: string | null }): void {
+  if (!contact.company_id) return
+  const contacted = state.contactedByCompany.get(contact.company_id) || new Set<string>()
+  contacted.add(contact.id)
+  state.contactedByCompany.set(contact.company_id, contacted)
+}
+
+/**
+ * Companies that replied to a campaign and the contacts emailed per company so far
+ */
+export async function loadAccountRuleState(supabase: Supabase, campaignId: string): Promise<AccountRuleState> {
+  const [trackingResult, repliesResult] = await Promise.all([
+    selectAllPages((from, to) => supabase
+      .from('email_tracking')
+      .select('id, contact_id, replied_at, sent_at')
+      .eq('campaign_id', campaignId)
+      .not('sent_at', 'is', null)
+      .order('id')
+      .range(from, to)),
+    selectAllPages((from, to) => supabase
+      .from('email_replies')
+      .select('id, contact_id')
+      .eq('campaign_id', campaignId)
+      .eq('reply_type', 'human_reply')
+      .order('id')
+      .range(from, to)),
+  ])
+
+  if (trackingResult.error) {
+    throw new Error(`Failed to load campaign sends: ${trackingResult.error.message}`)
+  }
+  if (repliesResult.error) {
+    throw new Error(`Failed to load campaign replies: ${repliesResult.error.message}`)
+  }
+
+  const contactedIds = new Set<string>()
+  const repliedIds = new Set<string>()
+  for (const row of trackingResult.data) {
+    if (!row.contact_id) continue
+    contactedIds.add(row.contact_id)
+    if (row.replied_at) repliedIds.add(row.contact_id)
+  }
+  for (const row of repliesResult.data) {
+    if (row.contact_id) repliedIds.add(row.contact_id)
+  }
+
+  const state: AccountRuleState = { repliedCompanyIds: new Set(), contactedByCompany: new Map() }
+  const ids = Array.from(new Set([...Array.from(contactedIds), ...Array.from(repliedIds)]))
+
+  for (let start = 0; start < ids.length; start += 500) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, company_id')
+      .in('id', ids.slice(start, start + 500))
+      .not('company_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load contact companies: ${error.message}`)
+    }
+
+    for (const contact of data || []) {
+      if (repliedIds.has(contact.id)) state.repliedCompanyIds.add(contact.company_id!)
+      if (contactedIds.has(contact.id)) recordAccountSend(state, contact)
+    }
+  }
+
+  return state
+}
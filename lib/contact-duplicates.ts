@@ -0,0 +1,393 @@
+/**
+ * Fuzzy duplicate detection for contacts.
+ *
+ * Contacts are linked when they share a normalized email (Gmail dots and
+ * plus-aliases removed), the same LinkedIn profile, the same phone number, or a
+ * near-identical name at the same company. Linked contacts are grouped into
+ * clusters with union-find, so A~B and B~C end up in one cluster even when A
+ * and C have nothing in common directly.
+ */
+
+export type DuplicateMatchReason = 'email' | 'linkedin' | 'phone' | 'name_company'
+
+export interface DuplicateCandidate {
+  id: string
+  email: string
+  first_name?: string | null
+  last_name?: string | null
+  company?: string | null
+  phone?: string | null
+  linkedin_url?: string | null
+  created_at?: string | null
+  [field: string]: any
+}
+
+export interface DuplicateMatch {
+  contactIds: [string, string]
+  reason: DuplicateMatchReason
+  score: number // 0-1, 1 for exact key matches
+}
+
+export interface DuplicateCluster<T extends DuplicateCandidate = DuplicateCandidate> {
+  contacts: T[]
+  reasons: DuplicateMatchReason[]
+  matches: DuplicateMatch[]
+  suggestedPrimaryId: string
+}
+
+/** Company-prefix block too large for pairwise name comparison */
+export interface SkippedNameBlock {
+  companyPrefix: string
+  contacts: number
+}
+
+export interface FieldConflict {
+  field: string
+  values: Array<{ contactId: string; value: any }>
+}
+
+/** Contact columns the merge dialog lets the user pick a value for */
+export const MERGEABLE_FIELDS = [
+  'email',
+  'first_name',
+  'last_name',
+  'company',
+  'position',
+  'phone',
+  'website',
+  'linkedin_url',
+  'twitter_url',
+  'address',
+  'postcode',
+  'city',
+  'country',
+  'timezone',
+  'sex',
+] as const
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number]
+
+export const NAME_SIMILARITY_THRESHOLD = 0.9
+export const COMPANY_SIMILARITY_THRESHOLD = 0.85
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com'])
+export const MAX_BLOCK_SIZE = 500
+
+const COMPANY_SUFFIXES = new Set([
+  'ab', 'ag', 'as', 'bv', 'co', 'company', 'corp', 'corporation', 'gmbh', 'group',
+  'inc', 'incorporated', 'kg', 'limited', 'llc', 'llp', 'ltd', 'nv', 'oy', 'plc',
+  'pty', 'sa', 'sarl', 'sas', 'se', 'spa', 'srl', 'ug'
+])
+
+function stripDiacritics(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Lowercased email; for Gmail addresses dots and +aliases in the local part are
+ * dropped and googlemail.com is folded into gmail.com
+ */
+export function normalizeEmailForMatching(email: string | null | undefined): string | null {
+  if (!email) return null
+  const trimmed = email.trim().toLowerCase()
+  const at = trimmed.lastIndexOf('@')
+  if (at <= 0) return null
+
+  let local = trimmed.slice(0, at)
+  let domain = trimmed.slice(at + 1)
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.split('+')[0].replace(/\./g, '')
+    domain = 'gmail.com'
+  }
+  return local ? `${local}@${domain}` : null
+}
+
+/**
+ * Digits only, compared on the last 10 digits so "+49 30 1234567" and
+ * "030 1234567" style variants of the same number still line up
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length < 7) return null
+  return digits.slice(-10)
+}
+
+/**
+ * Profile slug of a LinkedIn URL (`linkedin.com/in/<slug>`), ignoring protocol,
+ * country subdomains, query strings and trailing slashes
+ */
+export function normalizeLinkedInUrl(url: string | null | undefined): string | null {
+  if (!url) return null
+  const match = url.trim().toLowerCase().match(/linkedin\.com\/(in|pub)\/([^/?#]+)/)
+  if (!match) return null
+  try {
+    return `${match[1]}/${decodeURIComponent(match[2])}`
+  } catch {
+    return `${match[1]}/${match[2]}`
+  }
+}
+
+/**
+ * Company name without punctuation and legal-form suffixes ("ACME GmbH" → "acme")
+ */
+export function normalizeCompany(company: string | null | undefined): string | null {
+  if (!company) return null
+  const words = stripDiacritics(company.toLowerCase())
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) words.pop()
+  const normalized = words.join(' ')
+  return normalized || null
+}
+
+export function normalizeName(first: string | null | undefined, last: string | null | undefined): string | null {
+  const full = stripDiacritics(`${first || ''} ${last || ''}`.toLowerCase())
+    .replace(/[^a-z\s'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return full || null
+}
+
+/**
+ * Jaro-Winkler similarity (0-1)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array(a.length).fill(false)
+  const bMatches = new Array(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+class UnionFind {
+  private parent = new Map<string, string>()
+
+  find(id: string): string {
+    let root = id
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!
+    // Path compression
+    let node = id
+    while (node !== root) {
+      const next = this.parent.get(node)!
+      this.parent.set(node, root)
+      node = next
+    }
+    return root
+  }
+
+  union(a: string, b: string) {
+    if (!this.parent.has(a)) this.parent.set(a, a)
+    if (!this.parent.has(b)) this.parent.set(b, b)
+    const rootA = this.find(a)
+    const rootB = this.find(b)
+    if (rootA !== rootB) this.parent.set(rootB, rootA)
+  }
+}
+
+function isFilled(value: any): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof value === 'string') return value.trim() !== ''
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'object') return Object.keys(value).length > 0
+  return true
+}
+
+/**
+ * The contact to keep: the one with the most filled-in fields, oldest first on ties
+ */
+export function pickPrimaryContact<T extends DuplicateCandidate>(contacts: T[]): T {
+  const completeness = (contact: T) => MERGEABLE_FIELDS.filter(field => isFilled(contact[field])).length
+  return contacts.slice().sort((a, b) => {
+    const diff = completeness(b) - completeness(a)
+    if (diff !== 0) return diff
+    return (a.created_at || '').localeCompare(b.created_at || '')
+  })[0]
+}
+
+/**
+ * Contacts with a full name and company, blocked by the first letters of the
+ * normalized company so only plausible pairs are compared
+ */
+function buildNameCompanyBlocks(contacts: DuplicateCandidate[]): Map<string, Array<{ id: string; name: string; company: string }>> {
+  const blocks = new Map<string, Array<{ id: string; name: string; company: string }>>()
+  for (const contact of contacts) {
+    const name = normalizeName(contact.first_name, contact.last_name)
+    const company = normalizeCompany(contact.company)
+    if (!name || !company || !name.includes(' ')) continue
+    const blockKey = company.slice(0, 3)
+    const block = blocks.get(blockKey) || []
+    block.push({ id: contact.id, name, company })
+    blocks.set(blockKey, block)
+  }
+  return blocks
+}
+
+/**
+ * Blocks larger than MAX_BLOCK_SIZE, whose contacts findDuplicateClusters does
+ * not compare by name and company (exact email/LinkedIn/phone matches still apply)
+ */
+export function findSkippedNameBlocks(contacts: DuplicateCandidate[]): SkippedNameBlock[] {
+  return Array.from(buildNameCompanyBlocks(contacts).entries())
+    .filter(([, block]) => block.length > MAX_BLOCK_SIZE)
+    .map(([companyPrefix, block]) => ({ companyPrefix, contacts: block.length }))
+}
+
+/**
+ * Group contacts that are likely the same person
+ */
+export function findDuplicateClusters<T extends DuplicateCandidate>(contacts: T[]): DuplicateCluster<T>[] {
+  const unionFind = new UnionFind()
+  const matches: DuplicateMatch[] = []
+
+  const link = (a: string, b: string, reason: DuplicateMatchReason, score = 1) => {
+    if (a === b) return
+    matches.push({ contactIds: [a, b], reason, score })
+    unionFind.union(a, b)
+  }
+
+  // Exact key matches: everyone sharing a key is linked to the first contact with it
+  const keyed: Array<[DuplicateMatchReason, (contact: T) => string | null]> = [
+    ['email', contact => normalizeEmailForMatching(contact.email)],
+    ['linkedin', contact => normalizeLinkedInUrl(contact.linkedin_url)],
+    ['phone', contact => normalizePhone(contact.phone)],
+  ]
+  for (const [reason, keyOf] of keyed) {
+    const firstByKey = new Map<string, string>()
+    for (const contact of contacts) {
+      const key = keyOf(contact)
+      if (!key) continue
+      const first = firstByKey.get(key)
+      if (first) link(first, contact.id, reason)
+      else firstByKey.set(key, contact.id)
+    }
+  }
+
+  // Name + company: only compare contacts whose companies share a prefix
+  const blocks = buildNameCompanyBlocks(contacts)
+  for (const block of Array.from(blocks.values())) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const companyScore = stringSimilarity(block[i].company, block[j].company)
+        if (companyScore < COMPANY_SIMILARITY_THRESHOLD) continue
+        const nameScore = stringSimilarity(block[i].name, block[j].name)
+        if (nameScore < NAME_SIMILARITY_THRESHOLD) continue
+        link(block[i].id, block[j].id, 'name_company', Math.round(Math.min(nameScore, companyScore) * 100) / 100)
+      }
+    }
+  }
+
+  const byId = new Map(contacts.map(contact => [contact.id, contact]))
+  const grouped = new Map<string, DuplicateCluster<T>>()
+  for (const match of matches) {
+    const root = unionFind.find(match.contactIds[0])
+    const cluster = grouped.get(root) || { contacts: [], reasons: [], matches: [], suggestedPrimaryId: '' }
+    cluster.matches.push(match)
+    if (!cluster.reasons.includes(match.reason)) cluster.reasons.push(match.reason)
+    grouped.set(root, cluster)
+  }
+
+  const clusters: DuplicateCluster<T>[] = []
+  for (const cluster of Array.from(grouped.values())) {
+    const ids = new Set<string>()
+    for (const match of cluster.matches) match.contactIds.forEach(id => ids.add(id))
+    cluster.contacts = Array.from(ids).map(id => byId.get(id)!).filter(Boolean)
+    cluster.suggestedPrimaryId = pickPrimaryContact(cluster.contacts).id
+    clusters.push(cluster)
+  }
+
+  return clusters.sort((a, b) => b.contacts.length - a.contacts.length)
+}
+
+/**
+ * Mergeable fields where the contacts in a cluster disagree
+ */
+export function getFieldConflicts(contacts: DuplicateCandidate[]): FieldConflict[] {
+  const conflicts: FieldConflict[] = []
+  for (const field of MERGEABLE_FIELDS) {
+    const values = contacts
+      .filter(contact => isFilled(contact[field]))
+      .map(contact => ({ contactId: contact.id, value: contact[field] }))
+    const distinct = new Set(values.map(v => String(v.value).trim().toLowerCase()))
+    if (distinct.size > 1) conflicts.push({ field, values })
+  }
+  return conflicts
+}
+
+/**
+ * Field values for the surviving contact. Conflicts use the contact chosen in
+ * `resolutions` (field → contact id), otherwise the primary's value, otherwise
+ * the first duplicate that has one. Tags, lists and segments are unioned,
+ * custom fields merged (primary wins) and notes concatenated.
+ */
+export function buildMergedContact(
+  primary: DuplicateCandidate,
+  duplicates: DuplicateCandidate[],
+  resolutions: Partial<Record<MergeableField, string>> = {}
+): Record<string, any> {
+  const all = [primary, ...duplicates]
+  const merged: Record<string, any> = {}
+
+  for (const field of MERGEABLE_FIELDS) {
+    const chosenId = resolutions[field]
+    const chosen = chosenId ? all.find(contact => contact.id === chosenId) : undefined
+    if (chosen && isFilled(chosen[field])) {
+      merged[field] = chosen[field]
+      continue
+    }
+    const source = all.find(contact => isFilled(contact[field]))
+    if (source) merged[field] = source[field]
+  }
+
+  const union = (field: string) =>
+    Array.from(new Set(all.flatMap(contact => (Array.isArray(contact[field]) ? contact[field] : []))))
+  merged.tags = union('tags')
+  merged.lists = union('lists')
+  merged.segments = union('segments')
+
+  merged.custom_fields = all
+    .slice()
+    .reverse()
+    .reduce((fields, contact) => ({ ...fields, ...(contact.custom_fields || {}) }), {} as Record<string, any>)
+
+  const notes = all
+    .map(contact => (typeof contact.notes === 'string' ? contact.notes.trim() : ''))
+    .filter((note, index, list) => note && list.indexOf(note) === index)
+  if (notes.length > 0) merged.notes = notes.join('\n\n---\n\n')
+
+  return merged
+}
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+import { EmailValidationService, type EmailValidationStatus } from './email-validation'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Stored email verification results.
+ *
+ * EmailValidationService only caches results in memory, so the SMTP-probed
+ * results of a background import are gone by the time a campaign launches on
+ * another worker. Contacts keep their last status in
+ * contacts.email_verification_status and contacts.email_checked_at; launches
+ * reuse recent results and only verify the contacts without one.
+ */
+
+/** Stored results older than this are verified again */
+export const STORED_VERIFICATION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+const UPDATE_CHUNK_SIZE = 500
+
+export interface ContactEmailRow {
+  id: string
+  email: string
+  email_verification_status?: string | null
+  email_checked_at?: string | null
+}
+
+export interface ContactVerification {
+  contact_id: string
+  email: string
+  status: EmailValidationStatus
+  reason?: string
+}
+
+/**
+ * A stored status is reused while it is recent. 'unknown' is never reused
+ * since it only says the last lookup failed.
+ */
+export function getStoredVerification(contact: ContactEmailRow, now: Date = new Date()): EmailValidationStatus | null {
+  if (!contact.email_verification_status || contact.email_verification_status === 'unknown' || !contact.email_checked_at) return null
+  const checkedAt = new Date(contact.email_checked_at).getTime()
+  if (!Number.isFinite(checkedAt) || now.getTime() - checkedAt > STORED_VERIFICATION_MAX_AGE_MS) return null
+  return contact.email_verification_status as EmailValidationStatus
+}
+
+/**
+ * Verify contacts, reusing stored results and storing new ones. Request paths
+ * keep `smtp: false`; mailbox probes belong to background imports.
+ */
+export async function verifyContactEmails(
+  supabase: Supabase,
+  contacts: ContactEmailRow[],
+  options: { smtp?: boolean; now?: Date } = {},
+): Promise<ContactVerification[]> {
+  const now = options.now || new Date()
+  const verifications: ContactVerification[] = []
+  const unverified: ContactEmailRow[] = []
+
+  for (const contact of contacts) {
+    const stored = getStoredVerification(contact, now)
+    if (stored) {
+      verifications.push({ contact_id: contact.id, email: contact.email, status: stored })
+    } else {
+      unverified.push(contact)
+    }
+  }
+
+  if (unverified.length === 0) return verifications
+
+  const { results } = await EmailValidationService.validateEmails(unverified.map((contact) => contact.email), { smtp: options.smtp })
+  const verified = results.map((result, index) => ({
+    contact_id: unverified[index].id,
+    email: result.email,
+    status: result.status,
+    reason: result.reason,
+  }))
+
+  await storeContactVerifications(supabase, verified, now)
+  return [...verifications, ...verified]
+}
+
+/**
+ * Write verification statuses to the contacts, one update per status and chunk
+ */
+export async function storeContactVerifications(
+  supabase: Supabase,
+  verifications: Array<Pick<ContactVerification, 'contact_id' | 'status'>>,
+  checkedAt: Date = new Date(),
+): Promise<void> {
+  const idsByStatus = new Map<EmailValidationStatus, string[]>()
+  for (const verification of verifications) {
+    const ids = idsByStatus.get(verification.status) || []
+    ids.push(verification.contact_id)
+    idsByStatus.set(verification.status, ids)
+  }
+
+  for (const [status, ids] of Array.from(idsByStatus.entries())) {
+    for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('contacts')
+        .update({ email_verification_status: status, email_checked_at: checkedAt.toISOString() })
+        .in('id', ids.slice(i, i + UPDATE_CHUNK_SIZE))
+
+      // The launch still has this run's results; only the next one verifies again
+      if (error) {
+        console.warn(`⚠️ Failed to store ${status} email verification results:`, error.message)
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from './database.types'
+import { recalculateLeadScore } from './lead-scoring'
 
 export type ContactEngagementStatus = 'not_contacted' | 'pending' | 'engaged' | 'bad'
 
@@ -172,6 +173,13 @@ export async function recalculateContactEngagement(
     }
   }
 
+  // Every engagement event is also a lead scoring event
+  try {
+    await recalculateLeadScore(supabase, contactId)
+  } catch (error) {
+    console.error('recalculateContactEngagement: failed to recalculate lead score', error)
+  }
+
   return {
     status,
     score,
@@ -0,0 +1,349 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables, TablesUpdate } from './database.types'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Contact change history.
+ *
+ * Every write that changes contact fields (manual edits, tag operations,
+ * enrichment runs, bounce handling, ...) appends one contact_history row per
+ * changed field with the old and new value and the actor. Rows are never
+ * updated; a revert writes the old value back and appends rows pointing at the
+ * reverted change through reverts_change_id. Changes made by one operation
+ * share a group_id, so a whole enrichment run can be reverted at once.
+ */
+
+export type ContactChange = Tables<'contact_history'>
+
+export type ContactChangeActorType = 'user' | 'enrichment' | 'bounce_processor' | 'ai_persona' | 'system'
+
+export interface ContactChangeActor {
+  type: ContactChangeActorType
+  /** User id, persona id, enrichment providers, ... */
+  id?: string | null
+}
+
+export type ContactChangeSource =
+  | 'contact_update'
+  | 'tags_add'
+  | 'tags_remove'
+  | 'enrichment'
+  | 'bounce'
+  | 'merge'
+  | 'autonomous_reply'
+  | 'revert'
+
+export interface ContactFieldChange {
+  field: string
+  oldValue: Json | null
+  newValue: Json | null
+}
+
+export interface ContactHistoryEntry extends ContactChange {
+  reverted: boolean
+}
+
+export interface RevertPlan {
+  updates: Record<string, Json | null>
+  reverted: ContactChange[]
+  conflicts: Array<{ change: ContactChange; currentValue: Json | null }>
+}
+
+export interface RevertResult {
+  groupId: string | null
+  revertedChangeIds: string[]
+  conflicts: Array<{ changeId: string; field: string }>
+  contact: Tables<'contacts'> | null
+}
+
+/**
+ * Raised when reverting a change whose field has been changed again since
+ */
+export class ContactRevertConflictError extends Error {
+  constructor(public readonly fields: string[]) {
+    super(`Field changed since, cannot revert: ${fields.join(', ')}`)
+    this.name = 'ContactRevertConflictError'
+  }
+}
+
+/** Bookkeeping columns that change with every write and are not worth a history row */
+const UNTRACKED_FIELDS = new Set([
+  'id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'email_checked_at',
+  'enrichment_updated_at',
+  'engagement_updated_at',
+  'linkedin_extracted_at',
+  'notes_updated_at',
+])
+
+/**
+ * JSON with sorted object keys, so jsonb values read back from Postgres compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined || value === null) return 'null'
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function sameFieldValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b)
+}
+
+/**
+ * Fields an update actually changes, compared with the row before the update
+ */
+export function diffContactFields(
+  before: Record<string, any>,
+  updates: Record<string, any>,
+): ContactFieldChange[] {
+  return Object.keys(updates)
+    .filter(field => !UNTRACKED_FIELDS.has(field) && updates[field] !== undefined)
+    .filter(field => !sameFieldValue(before[field], updates[field]))
+    .map(field => ({
+      field,
+      oldValue: (before[field] ?? null) as Json | null,
+      newValue: (updates[field] ?? null) as Json | null,
+    }))
+}
+
+/**
+ * Work out how to undo a set of changes against the contact as it is now.
+ * A field is only reverted while it still holds the value the change wrote;
+ * otherwise it was changed again since and is reported as a conflict.
+ */
+export function planRevert(current: Record<string, any>, changes: ContactChange[]): RevertPlan {
+  const plan: RevertPlan = { updates: {}, reverted: [], conflicts: [] }
+
+  // Newest change per field wins if an operation touched a field twice
+  const latestByField = new Map<string, ContactChange>()
+  for (const change of changes) {
+    const latest = latestByField.get(change.field)
+    if (!latest || change.created_at > latest.created_at) {
+      latestByField.set(change.field, change)
+    }
+  }
+
+  for (const [field, change] of Array.from(latestByField.entries())) {
+    if (UNTRACKED_FIELDS.has(field)) continue
+
+    const currentValue = (current[field] ?? null) as Json | null
+    if (!sameFieldValue(currentValue, change.new_value)) {
+      plan.conflicts.push({ change, currentValue })
+      continue
+    }
+
+    plan.updates[field] = change.old_value
+    plan.reverted.push(change)
+  }
+
+  return plan
+}
+
+/**
+ * Append history rows for an update. Returns the group id, or null when nothing changed.
+ * Failures are logged and never fail the write that is being recorded.
+ */
+export async function recordContactChanges(
+  supabase: Supabase,
+  input: {
+    userId: string
+    contactId: string
+    before: Record<string, any>
+    updates: Record<string, any>
+    actor: ContactChangeActor
+    source: ContactChangeSource
+    groupId?: string
+    revertsChangeIds?: Record<string, string>
+  },
+): Promise<string | null> {
+  return recordBulkContactChanges(supabase, {
+    userId: input.userId,
+    entries: [{ contactId: input.contactId, before: input.before, updates: input.updates }],
+    actor: input.actor,
+    source: input.source,
+    groupId: input.groupId,
+    revertsChangeIds: input.revertsChangeIds,
+  })
+}
+
+/**
+ * Same as recordContactChanges for an operation on many contacts, in a single insert
+ */
+export async function recordBulkContactChanges(
+  supabase: Supabase,
+  input: {
+    userId: string
+    entries: Array<{ contactId: string; before: Record<string, any>; updates: Record<string, any> }>
+    actor: ContactChangeActor
+    source: ContactChangeSource
+    groupId?: string
+    revertsChangeIds?: Record<string, string>
+  },
+): Promise<string | null> {
+  const groupId = input.groupId || crypto.randomUUID()
+  const rows = input.entries.flatMap(entry => diffContactFields(entry.before, entry.updates).map(change => ({
+    user_id: input.userId,
+    contact_id: entry.contactId,
+    group_id: groupId,
+    field: change.field,
+    old_value: change.oldValue,
+    new_value: change.newValue,
+    actor_type: input.actor.type,
+    actor_id: input.actor.id ?? null,
+    source: input.source,
+    reverts_change_id: input.revertsChangeIds?.[change.field] ?? null,
+  })))
+
+  if (rows.length === 0) return null
+
+  const { error } = await supabase.from('contact_history').insert(rows)
+  if (error) {
+    console.warn(`⚠️ Failed to record contact history (${input.source}):`, error.message)
+    return null
+  }
+
+  return groupId
+}
+
+/**
+ * History of a contact, newest first, with a flag for changes that were reverted
+ */
+export async function getContactHistory(
+  supabase: Supabase,
+  userId: string,
+  contactId: string,
+  options: { limit?: number; before?: string } = {},
+): Promise<ContactHistoryEntry[]> {
+  let query = supabase
+    .from('contact_history')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 200)
+
+  if (options.before) {
+    query = query.lt('created_at', options.before)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load contact history: ${error.message}`)
+  }
+
+  const revertedIds = await getRevertedChangeIds(supabase, userId, contactId)
+  return (data || []).map(change => ({ ...change, reverted: revertedIds.has(change.id) }))
+}
+
+async function getRevertedChangeIds(supabase: Supabase, userId: string, contactId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('contact_history')
+    .select('reverts_change_id')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+    .not('reverts_change_id', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to load reverted changes: ${error.message}`)
+  }
+
+  return new Set((data || []).map(row => row.reverts_change_id as string))
+}
+
+/**
+ * Revert a single change, or every change of one operation (e.g. an enrichment run).
+ * A single change that conflicts raises ContactRevertConflictError; for a group the
+ * fields that can still be reverted are, and the others are reported as conflicts.
+ * Returns null when the change or the contact does not exist.
+ */
+export async function revertContactChanges(
+  supabase: Supabase,
+  userId: string,
+  contactId: string,
+  target: { changeId: string } | { groupId: string },
+  actor: ContactChangeActor,
+): Promise<RevertResult | null> {
+  let query = supabase
+    .from('contact_history')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+
+  query = 'changeId' in target ? query.eq('id', target.changeId) : query.eq('group_id', target.groupId)
+
+  const { data: changes, error } = await query
+  if (error) {
+    throw new Error(`Failed to load changes to revert: ${error.message}`)
+  }
+  if (!changes || changes.length === 0) {
+    return null
+  }
+
+  const revertedIds = await getRevertedChangeIds(supabase, userId, contactId)
+  const pending = changes.filter(change => !revertedIds.has(change.id))
+  if (pending.length === 0) {
+    return { groupId: null, revertedChangeIds: [], conflicts: [], contact: null }
+  }
+
+  const { data: contact, error: contactError } = await supabase
+    .from('contacts')
+    .select('*')
+    .eq('id', contactId)
+    .eq('user_id', userId)
+    .single()
+
+  if (contactError || !contact) {
+    return null
+  }
+
+  const plan = planRevert(contact, pending)
+  if ('changeId' in target && plan.conflicts.length > 0) {
+    throw new ContactRevertConflictError(plan.conflicts.map(conflict => conflict.change.field))
+  }
+
+  let updated: Tables<'contacts'> | null = contact
+  let groupId: string | null = null
+
+  if (plan.reverted.length > 0) {
+    const { data, error: updateError } = await supabase
+      .from('contacts')
+      .update({ ...(plan.updates as TablesUpdate<'contacts'>), updated_at: new Date().toISOString() })
+      .eq('id', contactId)
+      .eq('user_id', userId)
+      .select('*')
+      .single()
+
+    if (updateError) {
+      throw new Error(`Failed to revert contact changes: ${updateError.message}`)
+    }
+    updated = data
+
+    groupId = await recordContactChanges(supabase, {
+      userId,
+      contactId,
+      before: contact,
+      updates: plan.updates,
+      actor,
+      source: 'revert',
+      revertsChangeIds: Object.fromEntries(plan.reverted.map(change => [change.field, change.id])),
+    })
+  }
+
+  return {
+    groupId,
+    revertedChangeIds: plan.reverted.map(change => change.id),
+    conflicts: plan.conflicts.map(conflict => ({ changeId: conflict.change.id, field: conflict.change.field })),
+    contact: updated,
+  }
+}
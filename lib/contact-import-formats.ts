@@ -0,0 +1,758 @@
+import { inflateRawSync } from 'zlib'
+import { CSVParser } from './csv-parser'
+
+/**
+ * Readers for the contact import formats: CSV (including the Google Contacts,
+ * Outlook and LinkedIn Connections exports), XLSX workbooks and vCard 3/4.
+ *
+ * Every reader produces header names plus string rows, so the result runs
+ * through the same CSVParser.detectFieldMappings / transformRowsToContacts
+ * pipeline as a plain CSV upload.
+ */
+
+export type ImportFileFormat = 'csv' | 'xlsx' | 'vcard'
+export type CsvDialect = 'generic' | 'google' | 'outlook' | 'linkedin'
+
+export interface ImportRowBatch {
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+export interface ParsedImportFile {
+  format: ImportFileFormat
+  dialect: CsvDialect
+  headers: string[]
+  rows: Record<string, string>[]
+  totalRows: number
+  /** Worksheet names of an XLSX workbook, in workbook order */
+  sheets: string[]
+  sheet: string | null
+  errors: Array<{ row: number; error: string }>
+}
+
+export interface ImportParseOptions {
+  sheet?: string | null
+  maxRows?: number
+}
+
+export const IMPORT_FILE_EXTENSIONS: Record<ImportFileFormat, string[]> = {
+  csv: ['.csv', '.tsv', '.txt'],
+  xlsx: ['.xlsx'],
+  vcard: ['.vcf', '.vcard'],
+}
+
+/** CSV is streamed, so it may be larger than the formats that are read into memory */
+export const MAX_IMPORT_FILE_SIZE: Record<ImportFileFormat, number> = {
+  csv: 100 * 1024 * 1024,
+  xlsx: 25 * 1024 * 1024,
+  vcard: 25 * 1024 * 1024,
+}
+
+export const MAX_IMPORT_ROWS = 250000
+
+/** Largest uncompressed XLSX part we inflate; guards against zip bombs */
+export const MAX_XLSX_ENTRY_SIZE = 256 * 1024 * 1024
+
+/** Built-in number formats Excel renders as dates or times */
+const XLSX_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+export function detectImportFormat(fileName: string): ImportFileFormat | null {
+  const name = fileName.toLowerCase()
+  const match = (Object.keys(IMPORT_FILE_EXTENSIONS) as ImportFileFormat[])
+    .find(format => IMPORT_FILE_EXTENSIONS[format].some(ext => name.endsWith(ext)))
+  return match || null
+}
+
+// ============================================================================
+// CSV dialects
+// ============================================================================
+
+const DIALECT_SIGNATURES: Array<{ dialect: CsvDialect; headers: string[] }> = [
+  { dialect: 'linkedin', headers: ['first name', 'last name', 'url', 'email address', 'connected on'] },
+  { dialect: 'google', headers: ['e-mail 1 - value'] },
+  { dialect: 'outlook', headers: ['e-mail address', 'business phone'] },
+]
+
+/**
+ * Headers that would be auto-mapped to the wrong field for a dialect. Google and
+ * Outlook headers are covered by CSVParser aliases; LinkedIn's bare "URL" column
+ * is the profile link, not a company website (and a name containing "url" would
+ * still be claimed by the website field).
+ */
+const DIALECT_HEADER_RENAMES: Partial<Record<CsvDialect, Record<string, string>>> = {
+  linkedin: { URL: 'LinkedIn Profile' },
+}
+
+export function detectCsvDialect(headers: string[]): CsvDialect {
+  const present = new Set(headers.map(h => h.trim().toLowerCase()))
+  const match = DIALECT_SIGNATURES.find(signature => signature.headers.every(h => present.has(h)))
+  return match ? match.dialect : 'generic'
+}
+
+export function applyDialectHeaders(headers: string[], dialect: CsvDialect): string[] {
+  const renames = DIALECT_HEADER_RENAMES[dialect]
+  if (!renames) return headers
+  return headers.map(header => renames[header.trim()] || header)
+}
+
+/**
+ * LinkedIn's Connections.csv starts with a "Notes:" paragraph and a blank line
+ * before the header row
+ */
+function isPreambleRecord(values: string[], index: number, sawPreamble: boolean): boolean {
+  if (index === 0 && values[0]?.trim().toLowerCase().startsWith('notes:')) return true
+  return sawPreamble && values.filter(v => v.trim()).length <= 1
+}
+
+/**
+ * Incremental CSV tokenizer. Unlike CSVParser.parseCSV it keeps quoted fields
+ * that span several lines together (Google and Outlook put multi-line notes and
+ * addresses in quotes), and it can be fed the file one chunk at a time.
+ */
+export class CsvRecordReader {
+  private field = ''
+  private record: string[] = []
+  private inQuotes = false
+  private pendingQuote = false
+  private skipLineFeed = false
+
+  constructor(private readonly delimiter: string = ',') {}
+
+  push(chunk: string): string[][] {
+    const records: string[][] = []
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false
+        if (char === '\n') continue
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          this.field += '"'
+          continue
+        }
+        this.inQuotes = false
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true
+        } else if (char === '\r') {
+          // Line breaks inside quoted fields are normalized to \n
+          this.field += '\n'
+          this.skipLineFeed = true
+        } else {
+          this.field += char
+        }
+      } else if (char === '"') {
+        this.inQuotes = true
+      } else if (char === this.delimiter) {
+        this.record.push(this.field)
+        this.field = ''
+      } else if (char === '\n' || char === '\r') {
+        this.record.push(this.field)
+        records.push(this.record)
+        this.record = []
+        this.field = ''
+        this.skipLineFeed = char === '\r'
+      } else {
+        this.field += char
+      }
+    }
+
+    return records
+  }
+
+  flush(): string[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false
+      this.inQuotes = false
+    }
+    if (this.field === '' && this.record.length === 0) return []
+    this.record.push(this.field)
+    const records = [this.record]
+    this.record = []
+    this.field = ''
+    return records
+  }
+}
+
+/**
+ * Turns CSV records into header-keyed rows: skips the LinkedIn preamble, takes the
+ * first remaining record as the header row and applies dialect header renames
+ */
+class CsvRowBuilder {
+  dialect: CsvDialect = 'generic'
+  private columns: string[] = []
+  private recordIndex = 0
+  private sawPreamble = false
+
+  get headers(): string[] {
+    return this.columns.filter(column => column.length > 0)
+  }
+
+  add(values: string[]): Record<string, string> | null {
+    const index = this.recordIndex++
+
+    if (this.columns.length === 0) {
+      if (isPreambleRecord(values, index, this.sawPreamble)) {
+        this.sawPreamble = true
+        return null
+      }
+      if (values.every(v => !v.trim())) return null
+
+      const headers = values.map(v => v.replace(/^\uFEFF/, '').trim())
+      this.dialect = detectCsvDialect(headers)
+      this.columns = applyDialectHeaders(headers, this.dialect)
+      return null
+    }
+
+    if (values.every(v => !v.trim())) return null
+
+    const row: Record<string, string> = {}
+    this.columns.forEach((column, i) => {
+      if (column) row[column] = (values[i] || '').trim()
+    })
+    return row
+  }
+}
+
+/**
+ * Stream a CSV file in row batches without holding the whole file in memory.
+ * The delimiter is detected from the first chunk.
+ */
+export async function* readCsvRowBatches(
+  stream: ReadableStream<Uint8Array>,
+  options: { batchSize?: number; maxRows?: number } = {},
+): AsyncGenerator<ImportRowBatch & { dialect: CsvDialect; delimiter: string }> {
+  const { batchSize = 500, maxRows = MAX_IMPORT_ROWS } = options
+  const reader = stream.getReader()
+  const decoder = new TextDecoder('utf-8')
+  const builder = new CsvRowBuilder()
+  let records: CsvRecordReader | null = null
+  let delimiter = ','
+  let batch: Record<string, string>[] = []
+  let emitted = 0
+
+  const collect = (values: string[][]) => {
+    for (const record of values) {
+      if (emitted + batch.length >= maxRows) return
+      const row = builder.add(record)
+      if (row) batch.push(row)
+    }
+  }
+
+  try {
+    while (emitted + batch.length < maxRows) {
+      const { done, value } = await reader.read()
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      if (!records && text) {
+        delimiter = CSVParser.detectDelimiter(text.replace(/^\uFEFF/, ''))
+        records = new CsvRecordReader(delimiter)
+      }
+      if (records) {
+        collect(records.push(text))
+        if (done) collect(records.flush())
+      }
+
+      while (batch.length >= batchSize || (done && batch.length > 0)) {
+        const rows = batch.slice(0, batchSize)
+        batch = batch.slice(batchSize)
+        emitted += rows.length
+        yield { headers: builder.headers, rows, dialect: builder.dialect, delimiter }
+      }
+
+      if (done) break
+    }
+
+    if (batch.length > 0) {
+      yield { headers: builder.headers, rows: batch, dialect: builder.dialect, delimiter }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function parseCsvText(text: string, maxRows: number = MAX_IMPORT_ROWS): ParsedImportFile {
+  const content = text.replace(/^\uFEFF/, '')
+  const records = new CsvRecordReader(CSVParser.detectDelimiter(content))
+  const builder = new CsvRowBuilder()
+  const rows: Record<string, string>[] = []
+  let totalRows = 0
+
+  for (const record of [...records.push(content), ...records.flush()]) {
+    const row = builder.add(record)
+    if (!row) continue
+    totalRows++
+    if (rows.length < maxRows) rows.push(row)
+  }
+
+  return {
+    format: 'csv',
+    dialect: builder.dialect,
+    headers: builder.headers,
+    rows,
+    totalRows,
+    sheets: [],
+    sheet: null,
+    errors: builder.headers.length === 0 ? [{ row: 0, error: 'No valid headers found in CSV' }] : [],
+  }
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function xmlAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`))
+  return match ? decodeXml(match[1]) : null
+}
+
+/** Concatenated text of all <t> runs (plain and rich-text strings) */
+function xmlText(fragment: string): string {
+  let text = ''
+  for (const match of fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1])
+  }
+  return text
+}
+
+/**
+ * Minimal zip reader: walks the central directory and inflates entries on demand.
+ * Zip64 archives are not supported (spreadsheets that large exceed the upload limit).
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  const entries = new Map<string, () => Buffer>()
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('File is not a valid XLSX workbook')
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('XLSX workbook has a corrupt zip directory')
+    }
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const uncompressedSize = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    entries.set(name, () => {
+      // The declared size can lie, so inflation is capped as well
+      if (uncompressedSize > MAX_XLSX_ENTRY_SIZE) {
+        throw new Error(`XLSX workbook part ${name} is too large to import`)
+      }
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) return data
+      if (method === 8) {
+        try {
+          return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_SIZE })
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new Error(`XLSX workbook part ${name} is too large to import`)
+          }
+          throw error
+        }
+      }
+      throw new Error(`Unsupported compression method ${method} in XLSX workbook`)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function columnIndex(cellRef: string | null): number | null {
+  const letters = cellRef?.match(/^[A-Z]+/i)?.[0]
+  if (!letters) return null
+  return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/** Whether a custom number format code renders a date or time */
+function isDateFormatCode(code: string): boolean {
+  const unquoted = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')
+  return /[dmyhs]/i.test(unquoted)
+}
+
+/**
+ * Excel date serial (days since 1899-12-30, or 1904-01-01 for Mac workbooks)
+ * as YYYY-MM-DD, with HH:MM when the serial has a time of day
+ */
+export function excelSerialToDate(serial: number, date1904 = false): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)
+  const date = new Date(epoch + Math.round(serial * 24 * 60 * 60) * 1000)
+  const iso = date.toISOString()
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+}
+
+interface XlsxWorkbook {
+  sheets: Array<{ name: string; path: string }>
+  readSheet: (path: string) => string[][]
+}
+
+function openXlsxWorkbook(buffer: Buffer): XlsxWorkbook {
+  const entries = readZipEntries(buffer)
+  const readText = (path: string) => {
+    const entry = entries.get(path)
+    return entry ? entry().toString('utf8') : null
+  }
+
+  const workbookXml = readText('xl/workbook.xml')
+  if (!workbookXml) {
+    throw new Error('File is not a valid XLSX workbook')
+  }
+
+  const relationships = new Map<string, string>()
+  for (const match of (readText('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttribute(match[0], 'Id')
+    const target = xmlAttribute(match[0], 'Target')
+    if (id && target) {
+      relationships.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    }
+  }
+
+  const sheets: XlsxWorkbook['sheets'] = []
+  for (const match of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = xmlAttribute(match[0], 'name')
+    const path = relationships.get(xmlAttribute(match[0], 'r:id') || '')
+    if (name && path) sheets.push({ name, path })
+  }
+
+  const sharedStrings = [...(readText('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => xmlText(match[1]))
+
+  // Numeric cells are date serials when their style (s="n" -> cellXfs[n]) uses a date format
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbookXml)
+  const stylesXml = readText('xl/styles.xml') || ''
+  const customDateFormats = new Set<number>()
+  for (const match of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(xmlAttribute(match[0], 'numFmtId'))
+    if (isDateFormatCode(xmlAttribute(match[0], 'formatCode') || '')) customDateFormats.add(id)
+  }
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || ''
+  const dateStyles = [...cellXfs.matchAll(/<xf\b[^>]*>/g)].map(match => {
+    const formatId = Number(xmlAttribute(match[0], 'numFmtId'))
+    return XLSX_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)
+  })
+
+  const readSheet = (path: string): string[][] => {
+    const sheetXml = readText(path)
+    if (!sheetXml) {
+      throw new Error(`Worksheet ${path} is missing from the workbook`)
+    }
+
+    const rows: string[][] = []
+    for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const values: string[] = []
+      for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attributes = cellMatch[1]
+        const body = cellMatch[2] || ''
+        const type = xmlAttribute(attributes, 't')
+        const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+        let value = ''
+
+        if (type === 's') {
+          value = sharedStrings[Number(raw)] ?? ''
+        } else if (type === 'inlineStr') {
+          value = xmlText(body)
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE'
+        } else if (raw !== undefined) {
+          value = decodeXml(raw)
+          const style = Number(xmlAttribute(attributes, 's'))
+          if ((!type || type === 'n') && dateStyles[style] && value.trim() !== '' && !isNaN(Number(value))) {
+            value = excelSerialToDate(Number(value), date1904)
+          }
+        }
+
+        const index = columnIndex(xmlAttribute(attributes, 'r')) ?? values.length
+        values[index] = value
+      }
+      rows.push(Array.from(values, value => value ?? ''))
+    }
+    return rows
+  }
+
+  return { sheets, readSheet }
+}
+
+export function parseXlsx(buffer: Buffer, options: ImportParseOptions = {}): ParsedImportFile {
+  const { maxRows = MAX_IMPORT_ROWS } = options
+  const workbook = openXlsxWorkbook(buffer)
+  const result: ParsedImportFile = {
+    format: 'xlsx',
+    dialect: 'generic',
+    headers: [],
+    rows: [],
+    totalRows: 0,
+    sheets: workbook.sheets.map(sheet => sheet.name),
+    sheet: null,
+    errors: [],
+  }
+
+  const sheet = options.sheet
+    ? workbook.sheets.find(s => s.name === options.sheet)
+    : workbook.sheets[0]
+  if (!sheet) {
+    result.errors.push({ row: 0, error: options.sheet ? `Sheet "${options.sheet}" not found` : 'Workbook has no sheets' })
+    return result
+  }
+  result.sheet = sheet.name
+
+  const builder = new CsvRowBuilder()
+  for (const record of workbook.readSheet(sheet.path)) {
+    const row = builder.add(record)
+    if (!row) continue
+    result.totalRows++
+    if (result.rows.length < maxRows) result.rows.push(row)
+  }
+
+  result.headers = builder.headers
+  result.dialect = builder.dialect
+  if (result.headers.length === 0) {
+    result.errors.push({ row: 0, error: `Sheet "${sheet.name}" has no header row` })
+  }
+  return result
+}
+
+// ============================================================================
+// vCard
+// ============================================================================
+
+/** Column names chosen so CSVParser.detectFieldMappings maps them exactly */
+export const VCARD_COLUMNS = [
+  'Email', 'First Name', 'Last Name', 'Company', 'Job Title', 'Phone', 'Website',
+  'LinkedIn', 'Twitter', 'Street', 'City', 'Postal Code', 'Country', 'Notes', 'Birthday',
+] as const
+
+type VCardColumn = (typeof VCARD_COLUMNS)[number]
+
+interface VCardProperty {
+  name: string
+  params: Record<string, string[]>
+  value: string
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+/** Split a structured value (N, ADR, ORG) on unescaped semicolons */
+function splitStructured(value: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1]
+      i++
+    } else if (value[i] === ';') {
+      parts.push(current)
+      current = ''
+    } else {
+      current += value[i]
+    }
+  }
+  parts.push(current)
+  return parts.map(part => unescapeVCard(part).trim())
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  return Buffer.from(bytes, 'latin1').toString('utf8')
+}
+
+function parseVCardProperty(line: string): VCardProperty | null {
+  // The first unquoted colon separates name and parameters from the value
+  let colon = -1
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string[]> = {}
+  for (const param of rawParams) {
+    const equals = param.indexOf('=')
+    const key = equals >= 0 ? param.slice(0, equals) : 'TYPE'
+    const rawValue = equals >= 0 ? param.slice(equals + 1) : param
+    const values = rawValue.replace(/"/g, '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean)
+    params[key.toUpperCase()] = [...(params[key.toUpperCase()] || []), ...values]
+  }
+
+  let value = line.slice(colon + 1)
+  if (params.ENCODING?.includes('quoted-printable')) {
+    value = decodeQuotedPrintable(value)
+  }
+
+  return {
+    // Grouped properties ("item1.EMAIL") are treated like ungrouped ones
+    name: rawName.replace(/^[^.]+\./, '').toUpperCase(),
+    params,
+    value,
+  }
+}
+
+/** PREF=1 (vCard 4) or TYPE=pref (vCard 3) first, then file order */
+function preferred(properties: VCardProperty[]): VCardProperty | undefined {
+  const rank = (p: VCardProperty) =>
+    p.params.PREF ? Number(p.params.PREF[0]) || 1 : p.params.TYPE?.includes('pref') ? 1 : 100
+  return [...properties].sort((a, b) => rank(a) - rank(b))[0]
+}
+
+function vCardToRow(properties: VCardProperty[]): Record<VCardColumn, string> {
+  const row = Object.fromEntries(VCARD_COLUMNS.map(column => [column, ''])) as Record<VCardColumn, string>
+  const byName = (name: string) => properties.filter(p => p.name === name)
+
+  row.Email = unescapeVCard(preferred(byName('EMAIL'))?.value || '').replace(/^mailto:/i, '').trim()
+
+  const name = byName('N')[0]
+  if (name) {
+    const [family = '', given = ''] = splitStructured(name.value)
+    row['First Name'] = given
+    row['Last Name'] = family
+  }
+  if (!row['First Name'] && !row['Last Name']) {
+    const formatted = unescapeVCard(byName('FN')[0]?.value || '').trim()
+    const space = formatted.lastIndexOf(' ')
+    row['First Name'] = space > 0 ? formatted.slice(0, space) : formatted
+    row['Last Name'] = space > 0 ? formatted.slice(space + 1) : ''
+  }
+
+  row.Company = splitStructured(byName('ORG')[0]?.value || '')[0] || ''
+  row['Job Title'] = unescapeVCard(byName('TITLE')[0]?.value || byName('ROLE')[0]?.value || '').trim()
+  row.Phone = unescapeVCard(preferred(byName('TEL'))?.value || '').replace(/^tel:/i, '').trim()
+
+  const address = preferred(byName('ADR'))
+  if (address) {
+    const [, extended = '', street = '', city = '', , postcode = '', country = ''] = splitStructured(address.value)
+    row.Street = [street, extended].filter(Boolean).join(', ')
+    row.City = city
+    row['Postal Code'] = postcode
+    row.Country = country
+  }
+
+  const urls = [...byName('URL'), ...byName('X-SOCIALPROFILE')]
+    .map(p => ({ type: p.params.TYPE || [], value: unescapeVCard(p.value).trim() }))
+    .filter(u => u.value)
+  row.LinkedIn = urls.find(u => u.type.includes('linkedin') || /linkedin\.com/i.test(u.value))?.value || ''
+  row.Twitter = urls.find(u => u.type.includes('twitter') || /(twitter|x)\.com\//i.test(u.value))?.value || ''
+  row.Website = urls.find(u => u.value !== row.LinkedIn && u.value !== row.Twitter)?.value || ''
+
+  row.Notes = unescapeVCard(byName('NOTE')[0]?.value || '').trim()
+  row.Birthday = (byName('BDAY')[0]?.value || '').trim()
+
+  return row
+}
+
+export function parseVCards(text: string, options: ImportParseOptions = {}): ParsedImportFile {
+  const { maxRows = MAX_IMPORT_ROWS } = options
+  const result: ParsedImportFile = {
+    format: 'vcard',
+    dialect: 'generic',
+    headers: [...VCARD_COLUMNS],
+    rows: [],
+    totalRows: 0,
+    sheets: [],
+    sheet: null,
+    errors: [],
+  }
+
+  // Unfold continuation lines (RFC 6350 3.2), and vCard 2.1 quoted-printable soft breaks
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/=\r?\n(?=[^\r\n])/g, '=\n')
+    .replace(/\r?\n[ \t]/g, '')
+    .replace(/=\n/g, '')
+    .split(/\r?\n/)
+
+  let card: VCardProperty[] | null = null
+  let cardStart = 0
+
+  lines.forEach((line, index) => {
+    const upper = line.trim().toUpperCase()
+    if (upper === 'BEGIN:VCARD') {
+      card = []
+      cardStart = index + 1
+      return
+    }
+    if (upper === 'END:VCARD') {
+      if (card) {
+        result.totalRows++
+        const row = vCardToRow(card)
+        if (!row.Email) {
+          result.errors.push({ row: cardStart, error: 'vCard has no email address' })
+        }
+        if (result.rows.length < maxRows) result.rows.push(row)
+      }
+      card = null
+      return
+    }
+    if (card && line.trim()) {
+      const property = parseVCardProperty(line)
+      if (property) card.push(property)
+    }
+  })
+
+  if (result.totalRows === 0) {
+    result.errors.push({ row: 0, error: 'No vCards found in file' })
+  }
+  return result
+}
+
+/**
+ * Parse an in-memory import file of any supported format
+ */
+export function parseImportFile(
+  data: Buffer,
+  format: ImportFileFormat,
+  options: ImportParseOptions = {},
+): ParsedImportFile {
+  switch (format) {
+    case 'xlsx':
+      return parseXlsx(data, options)
+    case 'vcard':
+      return parseVCards(data.toString('utf8'), options)
+    default:
+      return parseCsvText(data.toString('utf8'), options.maxRows)
+  }
+}
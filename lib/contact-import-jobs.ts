@@ -0,0 +1,340 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from './database.types'
+import { ContactService } from './contacts'
+import { CSVParser, type FieldMapping } from './csv-parser'
+import { CUSTOM_FIELD_MAPPING_PREFIX, listCustomFieldDefinitions } from './custom-fields'
+import { enqueueJob, runJobQueue, type QueueRunResult } from './job-queue'
+import type { CsvDialect, ImportFileFormat } from './contact-import-formats'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Background contact imports.
+ *
+ * The upload request only parses the file and stages its rows in
+ * contact_import_rows, chunk by chunk. The contact_import queue then imports
+ * the staged rows a chunk at a time, updating the job's progress counters
+ * that the import dialog polls.
+ */
+
+export type ContactImportJob = Tables<'contact_import_jobs'>
+export type ContactImportStatus = 'staging' | 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface ContactImportOptions {
+  skipDuplicates: boolean
+  validateEmails: boolean
+  importInvalidContacts: boolean
+  /** Also skip catch-all, role and disposable addresses */
+  excludeRiskyEmails: boolean
+}
+
+export interface ContactImportError {
+  row: number
+  error: string
+  data?: any
+}
+
+export interface ImportValidationSummary {
+  total: number
+  valid: number
+  invalid: number
+  risky: number
+}
+
+export interface ImportChunkResult {
+  processedRows: number
+  created: number
+  skipped: number
+  errors: ContactImportError[]
+  validationSummary: ImportValidationSummary
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ContactImportOptions = {
+  skipDuplicates: true,
+  validateEmails: true,
+  importInvalidContacts: false,
+  excludeRiskyEmails: false,
+}
+
+export const IMPORT_CHUNK_SIZE = 500
+const MAX_STORED_ERRORS = 100
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000
+
+/**
+ * Add a processed chunk to the job's running totals
+ */
+export function applyImportChunk(
+  job: Pick<ContactImportJob, 'processed_rows' | 'created_count' | 'skipped_count' | 'error_count' | 'errors' | 'validation_summary'>,
+  chunk: ImportChunkResult,
+) {
+  const summary = (job.validation_summary || {}) as Partial<ImportValidationSummary>
+  const storedErrors = Array.isArray(job.errors) ? (job.errors as unknown as ContactImportError[]) : []
+
+  return {
+    processed_rows: job.processed_rows + chunk.processedRows,
+    created_count: job.created_count + chunk.created,
+    skipped_count: job.skipped_count + chunk.skipped,
+    error_count: job.error_count + chunk.errors.length,
+    errors: [...storedErrors, ...chunk.errors].slice(0, MAX_STORED_ERRORS) as unknown as Json,
+    validation_summary: {
+      total: (summary.total || 0) + chunk.validationSummary.total,
+      valid: (summary.valid || 0) + chunk.validationSummary.valid,
+      invalid: (summary.invalid || 0) + chunk.validationSummary.invalid,
+      risky: (summary.risky || 0) + chunk.validationSummary.risky,
+    } as unknown as Json,
+  }
+}
+
+export async function createImportJob(
+  supabase: Supabase,
+  userId: string,
+  input: {
+    fileName: string
+    format: ImportFileFormat
+    dialect: CsvDialect
+    sheet: string | null
+    fieldMappings: FieldMapping[]
+    options: ContactImportOptions
+  },
+): Promise<ContactImportJob> {
+  const { data, error } = await supabase
+    .from('contact_import_jobs')
+    .insert({
+      user_id: userId,
+      file_name: input.fileName,
+      format: input.format,
+      dialect: input.dialect,
+      sheet_name: input.sheet,
+      field_mappings: input.fieldMappings as unknown as Json,
+      options: input.options as unknown as Json,
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create import job: ${error?.message || 'no data returned'}`)
+  }
+
+  return data
+}
+
+/**
+ * Stage parsed rows; row numbers are 1-based positions in the file's data rows
+ */
+export async function stageImportRows(
+  supabase: Supabase,
+  jobId: string,
+  firstRowNumber: number,
+  rows: Record<string, string>[],
+): Promise<void> {
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('contact_import_rows')
+    .insert(rows.map((data, i) => ({ job_id: jobId, row_number: firstRowNumber + i, data })))
+
+  if (error) {
+    throw new Error(`Failed to stage import rows: ${error.message}`)
+  }
+}
+
+/**
+ * Mark staging as finished and hand the job to the contact_import queue
+ */
+export async function startImportJob(supabase: Supabase, jobId: string, totalRows: number): Promise<void> {
+  const { error } = await supabase
+    .from('contact_import_jobs')
+    .update({ status: 'pending', total_rows: totalRows, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  if (error) {
+    throw new Error(`Failed to start import job ${jobId}: ${error.message}`)
+  }
+
+  await enqueueJob(supabase, 'contact_import', { importJobId: jobId }, {
+    dedupeKey: `contact_import:${jobId}`,
+    maxAttempts: 3,
+  })
+}
+
+export async function failImportJob(supabase: Supabase, jobId: string, message: string): Promise<void> {
+  const now = new Date().toISOString()
+  await supabase
+    .from('contact_import_jobs')
+    .update({ status: 'failed', error: message.slice(0, 2000), completed_at: now, updated_at: now })
+    .eq('id', jobId)
+
+  // Staged rows are no longer needed once the job cannot continue
+  await supabase.from('contact_import_rows').delete().eq('job_id', jobId)
+}
+
+export async function getImportJob(supabase: Supabase, userId: string, jobId: string): Promise<ContactImportJob | null> {
+  const { data, error } = await supabase
+    .from('contact_import_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load import job ${jobId}: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Import the next chunk of staged rows. Returns true once no staged rows are left.
+ */
+export async function processImportChunk(
+  supabase: Supabase,
+  jobId: string,
+  chunkSize: number = IMPORT_CHUNK_SIZE,
+): Promise<boolean> {
+  const { data: job, error: jobError } = await supabase
+    .from('contact_import_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (jobError || !job) {
+    throw new Error(`Import job ${jobId} not found`)
+  }
+  if (job.status === 'completed' || job.status === 'failed') {
+    return true
+  }
+
+  const { data: staged, error: rowsError } = await supabase
+    .from('contact_import_rows')
+    .select('row_number, data')
+    .eq('job_id', jobId)
+    .order('row_number', { ascending: true })
+    .limit(chunkSize)
+
+  if (rowsError) {
+    throw new Error(`Failed to load staged rows for import job ${jobId}: ${rowsError.message}`)
+  }
+
+  const now = new Date().toISOString()
+
+  if (!staged || staged.length === 0) {
+    await supabase
+      .from('contact_import_jobs')
+      .update({ status: 'completed', completed_at: now, updated_at: now })
+      .eq('id', jobId)
+    return true
+  }
+
+  const options = { ...DEFAULT_IMPORT_OPTIONS, ...(job.options as Partial<ContactImportOptions>) }
+  const mappings = job.field_mappings as unknown as FieldMapping[]
+  const customFields = mappings.some(mapping => mapping.contactField?.startsWith(CUSTOM_FIELD_MAPPING_PREFIX))
+    ? await listCustomFieldDefinitions(supabase, job.user_id)
+    : []
+  const transformResults = CSVParser.transformRowsToContacts(
+    staged.map(row => row.data as Record<string, string>),
+    mappings,
+    customFields,
+  )
+
+  const toImport = options.importInvalidContacts
+    ? transformResults
+    : transformResults.filter(result => result.errors.length === 0)
+
+  const importResult = await new ContactService().bulkCreateContacts(
+    job.user_id,
+    toImport.map(result => result.contact),
+    {
+      skipDuplicates: options.skipDuplicates,
+      validateEmails: options.validateEmails,
+      excludeEmailStatuses: options.excludeRiskyEmails ? ['invalid', 'risky'] : ['invalid'],
+      smtpProbe: true,
+      source: `import:${job.file_name}`,
+    },
+  )
+
+  // Report errors against the row in the uploaded file (+1 for the header row)
+  const fileRow = (rowIndex: number) => staged[rowIndex].row_number + 1
+  const errors: ContactImportError[] = [
+    ...transformResults
+      .filter(result => result.errors.length > 0)
+      .map(result => ({ row: fileRow(result.rowIndex), error: result.errors.join(', '), data: result.contact })),
+    ...importResult.errors.map(error => {
+      const imported = Array.isArray(error.data) ? null : toImport[error.row - 1]
+      return imported
+        ? { row: fileRow(imported.rowIndex), error: error.error, data: error.data }
+        : { row: 0, error: error.error }
+    }),
+  ]
+
+  const progress = applyImportChunk(job, {
+    processedRows: staged.length,
+    created: importResult.created,
+    skipped: importResult.skipped,
+    errors,
+    validationSummary: importResult.validationSummary,
+  })
+
+  const { error: updateError } = await supabase
+    .from('contact_import_jobs')
+    .update({ ...progress, status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  if (updateError) {
+    throw new Error(`Failed to record progress for import job ${jobId}: ${updateError.message}`)
+  }
+
+  await supabase
+    .from('contact_import_rows')
+    .delete()
+    .eq('job_id', jobId)
+    .lte('row_number', staged[staged.length - 1].row_number)
+
+  return false
+}
+
+/**
+ * Drain the contact_import queue for up to timeBudgetMs. A job that still has
+ * staged rows when its time is up is re-queued, so the next run continues it.
+ */
+export async function runContactImportQueue(
+  supabase: Supabase,
+  options: { timeBudgetMs?: number } = {},
+): Promise<QueueRunResult> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+  const total: QueueRunResult = { claimed: 0, completed: 0, retried: 0, deadLettered: 0, errors: [] }
+
+  while (Date.now() < deadline) {
+    const result = await runJobQueue<{ importJobId: string }>(
+      supabase,
+      'contact_import',
+      async (queueJob) => {
+        const { importJobId } = queueJob.payload
+        let done = false
+        while (!done && Date.now() < deadline) {
+          done = await processImportChunk(supabase, importJobId)
+        }
+
+        if (!done) {
+          await enqueueJob(supabase, 'contact_import', { importJobId }, { maxAttempts: 3 })
+        }
+      },
+      {
+        limit: 1,
+        visibilityTimeoutSeconds: 120,
+        onDeadLetter: async (queueJob, error) => {
+          await failImportJob(supabase, queueJob.payload.importJobId, error.message)
+        },
+      },
+    )
+
+    total.claimed += result.claimed
+    total.completed += result.completed
+    total.retried += result.retried
+    total.deadLettered += result.deadLettered
+    total.errors.push(...result.errors)
+
+    if (result.claimed === 0) break
+  }
+
+  return total
+}
@@ -41,6 +41,10 @@ export async function executeContactQuery(
       contacts = await executeEngagementQuery(supabase, userId, parameters)
       break
 
+    case 'query_contacts_by_lead_score':
+      contacts = await executeLeadScoreQuery(supabase, userId, parameters)
+      break
+
     case 'query_never_contacted':
       contacts = await executeNeverContactedQuery(supabase, userId, parameters.limit || 100)
       break
@@ -191,6 +195,43 @@ async function executeEngagementQuery(
   return data || []
 }
 
+/**
+ * Execute lead score query, highest scores first
+ */
+async function executeLeadScoreQuery(
+  supabase: Supabase,
+  userId: string,
+  params: {
+    minLeadScore?: number
+    maxLeadScore?: number
+    limit?: number
+  }
+): Promise<Contact[]> {
+  let query = supabase
+    .from('contacts')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (params.minLeadScore !== undefined) {
+    query = query.gte('lead_score', params.minLeadScore)
+  }
+
+  if (params.maxLeadScore !== undefined) {
+    query = query.lte('lead_score', params.maxLeadScore)
+  }
+
+  query = query.limit(params.limit || 100)
+  query = query.order('lead_score', { ascending: false })
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to query contacts by lead score: ${error.message}`)
+  }
+
+  return data || []
+}
+
 /**
  * Execute never contacted query
  */
@@ -94,6 +94,28 @@ export const CONTACT_QUERY_FUNCTIONS: ContactQueryFunction[] = [
       }
     }
   },
+  {
+    name: 'query_contacts_by_lead_score',
+    description: 'Query contacts by lead score, the 0-100 score from the user\'s lead scoring model that combines firmographic fit (industry, company size, job title), recent engagement with time decay, and negative signals such as bounces, out-of-office replies and unsubscribes. Use this for "hottest leads", "best leads", "highest scoring", "sales-ready" or "low quality leads".',
+    parameters: {
+      type: 'object',
+      properties: {
+        minLeadScore: {
+          type: 'number',
+          description: 'Minimum lead score (0-100)'
+        },
+        maxLeadScore: {
+          type: 'number',
+          description: 'Maximum lead score (0-100), e.g. to find weak leads'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of contacts to return',
+          default: 100
+        }
+      }
+    }
+  },
   {
     name: 'query_never_contacted',
     description: 'Get contacts that have never been contacted before (last_contacted_at is NULL). Use this to find fresh prospects.',
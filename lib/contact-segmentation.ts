@@ -1,27 +1,31 @@
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
-import { cookies } from 'next/headers'
-import { Contact } from './contacts'
-
-export interface SegmentRule {
-  field: string
-  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'in' | 'not_in'
-  value: string | string[] | number
-}
-
-export interface SegmentCondition {
-  rules: SegmentRule[]
-  logic: 'AND' | 'OR'
-}
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from './database.types'
+import { createServerSupabaseClient } from './supabase-server'
+import { listCustomFieldDefinitions, type CustomFieldDefinition } from './custom-fields'
+import {
+  SEGMENT_FIELDS,
+  customFieldSegmentFields,
+  segmentRuleFields,
+  segmentRulesDependOnTime,
+  segmentRulesFromLegacy,
+  validateSegmentRules,
+  type SegmentFieldDefinition,
+  type SegmentRuleNode,
+} from './segment-rules'
+
+export type { SegmentCondition, SegmentRule, SegmentRuleNode } from './segment-rules'
+
+type Supabase = SupabaseClient<Database>
 
 export interface ContactSegment {
   id: string
   user_id: string
   name: string
   description?: string
-  conditions: SegmentCondition[]
-  logic: 'AND' | 'OR' // Logic between conditions
+  rules: SegmentRuleNode
   contact_count: number
-  is_dynamic: boolean // True for dynamic segments, false for static
+  is_dynamic: boolean // Dynamic segments follow contact changes, static ones keep their members
+  refreshed_at: string | null
   created_at: string
   updated_at: string
 }
@@ -40,60 +44,108 @@ export interface SegmentStats {
   }>
 }
 
+export interface SegmentRefreshSummary {
+  dirtyContacts: number
+  incrementalRefreshes: number
+  fullRefreshes: number
+  errors: string[]
+}
+
+/** Time-relative segments ("opened in the last 7 days") are re-evaluated this often */
+export const TIME_RELATIVE_SEGMENT_REFRESH_MINUTES = 60
+
+/** Segment ids per update when marking segments without time-relative rules refreshed */
+const MARK_REFRESHED_CHUNK_SIZE = 100
+
+type SegmentRow = Tables<'contact_segments'>
+
+/**
+ * Contact segments.
+ *
+ * Members are materialized in contact_segment_members by refresh_segment_members()
+ * when a segment is saved. Afterwards database triggers mark contacts dirty when
+ * they or their campaigns, opens, replies or tags change, and runSegmentRefresh()
+ * re-evaluates only those contacts, so contact_count stays accurate without
+ * recounting whole contact bases.
+ */
 export class ContactSegmentationService {
-  private supabase = createRouteHandlerClient({ cookies })
+  private supabase: Supabase
+
+  constructor(supabase?: Supabase) {
+    this.supabase = supabase || createServerSupabaseClient()
+  }
 
   /**
-   * Create a new contact segment
+   * Create a new contact segment and materialize its members
    */
-  async createSegment(userId: string, segmentData: Omit<ContactSegment, 'id' | 'user_id' | 'contact_count' | 'created_at' | 'updated_at'>) {
-    // Calculate initial contact count
-    const contactCount = await this.calculateSegmentCount(userId, segmentData.conditions, segmentData.logic)
+  async createSegment(userId: string, segmentData: {
+    name: string
+    description?: string
+    rules: unknown
+    is_dynamic?: boolean
+  }): Promise<ContactSegment> {
+    const rules = validateSegmentRules(segmentData.rules, await this.customSegmentFields(userId))
 
     const { data, error } = await this.supabase
       .from('contact_segments')
       .insert({
         user_id: userId,
-        ...segmentData,
-        contact_count: contactCount,
+        name: segmentData.name,
+        description: segmentData.description || '',
+        // Superseded by rules, kept for the NOT NULL column
+        conditions: [],
+        rules: rules as unknown as Json,
+        is_dynamic: segmentData.is_dynamic ?? true,
+        contact_count: 0,
       })
       .select()
       .single()
 
     if (error) throw error
-    return data
+
+    const contactCount = await this.refreshSegment(data.id)
+    return toContactSegment({ ...data, contact_count: contactCount })
   }
 
   /**
-   * Update an existing segment
+   * Update an existing segment, re-materializing members when the rules change
    */
-  async updateSegment(segmentId: string, userId: string, updates: Partial<ContactSegment>) {
-    // Recalculate contact count if conditions changed
-    if (updates.conditions || updates.logic) {
-      const segment = await this.getSegment(segmentId, userId)
-      if (segment) {
-        const contactCount = await this.calculateSegmentCount(
-          userId, 
-          updates.conditions || segment.conditions,
-          updates.logic || segment.logic
-        )
-        updates.contact_count = contactCount
-      }
+  async updateSegment(segmentId: string, userId: string, updates: {
+    name?: string
+    description?: string
+    rules?: unknown
+    is_dynamic?: boolean
+  }): Promise<ContactSegment | null> {
+    const existing = await this.getSegment(segmentId, userId)
+    if (!existing) return null
+
+    const changes: Database['public']['Tables']['contact_segments']['Update'] = {
+      updated_at: new Date().toISOString(),
+    }
+    if (updates.name !== undefined) changes.name = updates.name
+    if (updates.description !== undefined) changes.description = updates.description
+    if (updates.is_dynamic !== undefined) changes.is_dynamic = updates.is_dynamic
+    if (updates.rules !== undefined) {
+      changes.rules = validateSegmentRules(updates.rules, await this.customSegmentFields(userId)) as unknown as Json
     }
 
     const { data, error } = await this.supabase
       .from('contact_segments')
-      .update({
-        ...updates,
-        updated_at: new Date().toISOString(),
-      })
+      .update(changes)
       .eq('id', segmentId)
       .eq('user_id', userId)
       .select()
       .single()
 
     if (error) throw error
-    return data
+
+    // A static segment that becomes dynamic catches up on changes it ignored
+    const needsRefresh = updates.rules !== undefined || (updates.is_dynamic === true && !existing.is_dynamic)
+    if (needsRefresh) {
+      data.contact_count = await this.refreshSegment(segmentId)
+    }
+
+    return toContactSegment(data)
   }
 
   /**
@@ -112,24 +164,24 @@ export class ContactSegmentationService {
   /**
    * Get a specific segment
    */
-  async getSegment(segmentId: string, userId: string) {
+  async getSegment(segmentId: string, userId: string): Promise<ContactSegment | null> {
     const { data, error } = await this.supabase
       .from('contact_segments')
       .select('*')
       .eq('id', segmentId)
       .eq('user_id', userId)
-      .single()
+      .maybeSingle()
 
     if (error) throw error
-    return data
+    if (!data) return null
+
+    return data.rules ? toContactSegment(data) : this.upgradeLegacySegment(data)
   }
 
   /**
-   * Get all segments for a user
+   * Get all segments for a user. Counts come from the materialized members.
    */
-  async getUserSegments(userId: string, options: {
-    includeContactCount?: boolean
-  } = {}) {
+  async getUserSegments(userId: string): Promise<ContactSegment[]> {
     const { data, error } = await this.supabase
       .from('contact_segments')
       .select('*')
@@ -138,24 +190,15 @@ export class ContactSegmentationService {
 
     if (error) throw error
 
-    // Update contact counts for dynamic segments if requested
-    if (options.includeContactCount && data) {
-      for (const segment of data) {
-        if (segment.is_dynamic) {
-          const count = await this.calculateSegmentCount(userId, segment.conditions, segment.logic)
-          if (count !== segment.contact_count) {
-            await this.updateSegment(segment.id, userId, { contact_count: count })
-            segment.contact_count = count
-          }
-        }
-      }
+    const segments: ContactSegment[] = []
+    for (const row of data || []) {
+      segments.push(row.rules ? toContactSegment(row) : await this.upgradeLegacySegment(row))
     }
-
-    return data || []
+    return segments
   }
 
   /**
-   * Get contacts that match a segment
+   * Get contacts that are members of a segment
    */
   async getSegmentContacts(segmentId: string, userId: string, options: {
     page?: number
@@ -168,23 +211,6 @@ export class ContactSegmentationService {
       throw new Error('Segment not found')
     }
 
-    return this.getContactsByConditions(userId, segment.conditions, segment.logic, options)
-  }
-
-  /**
-   * Get contacts that match specific conditions
-   */
-  async getContactsByConditions(
-    userId: string, 
-    conditions: SegmentCondition[], 
-    logic: 'AND' | 'OR',
-    options: {
-      page?: number
-      limit?: number
-      sortBy?: string
-      sortOrder?: 'asc' | 'desc'
-    } = {}
-  ) {
     const {
       page = 1,
       limit = 50,
@@ -192,32 +218,21 @@ export class ContactSegmentationService {
       sortOrder = 'desc'
     } = options
 
-    let query = this.supabase
-      .from('contacts')
-      .select('*', { count: 'exact' })
-      .eq('user_id', userId)
-      .neq('status', 'deleted')
-
-    // Build the query based on conditions
-    const whereClause = this.buildWhereClause(conditions, logic)
-    if (whereClause) {
-      query = query.or(whereClause)
-    }
-
-    // Apply sorting
-    query = query.order(sortBy, { ascending: sortOrder === 'asc' })
-
-    // Apply pagination
     const from = (page - 1) * limit
     const to = from + limit - 1
-    query = query.range(from, to)
 
-    const { data, error, count } = await query
+    const { data, error, count } = await this.supabase
+      .from('contacts')
+      .select('*, contact_segment_members!inner(segment_id)', { count: 'exact' })
+      .eq('user_id', userId)
+      .eq('contact_segment_members.segment_id', segmentId)
+      .order(sortBy, { ascending: sortOrder === 'asc' })
+      .range(from, to)
 
     if (error) throw error
 
     return {
-      contacts: data || [],
+      contacts: (data || []).map(({ contact_segment_members: _membership, ...contact }) => contact),
       pagination: {
         page,
         limit,
@@ -228,87 +243,31 @@ export class ContactSegmentationService {
   }
 
   /**
-   * Calculate the number of contacts that match segment conditions
+   * Number of contacts matching rules that are not saved yet, for previews
    */
-  async calculateSegmentCount(userId: string, conditions: SegmentCondition[], logic: 'AND' | 'OR'): Promise<number> {
-    let query = this.supabase
-      .from('contacts')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .neq('status', 'deleted')
-
-    const whereClause = this.buildWhereClause(conditions, logic)
-    if (whereClause) {
-      query = query.or(whereClause)
-    }
+  async countMatchingContacts(userId: string, rules: unknown): Promise<number> {
+    const validated = validateSegmentRules(rules, await this.customSegmentFields(userId))
 
-    const { count, error } = await query
+    const { count, error } = await this.supabase
+      .rpc('segment_matching_contacts', {
+        p_user_id: userId,
+        p_rules: validated as unknown as Json,
+      }, { count: 'exact', head: true })
 
     if (error) throw error
     return count || 0
   }
 
   /**
-   * Build SQL where clause from segment conditions
+   * Re-evaluate every contact of a segment. Returns the new contact count.
    */
-  private buildWhereClause(conditions: SegmentCondition[], logic: 'AND' | 'OR'): string {
-    if (!conditions || conditions.length === 0) return ''
-
-    const conditionClauses = conditions.map(condition => {
-      const ruleClauses = condition.rules.map(rule => this.buildRuleClause(rule))
-      return ruleClauses.length > 1 
-        ? `(${ruleClauses.join(` ${condition.logic} `)})`
-        : ruleClauses[0]
-    }).filter(Boolean)
-
-    if (conditionClauses.length === 0) return ''
-    if (conditionClauses.length === 1) return conditionClauses[0]
-
-    return logic === 'AND' 
-      ? conditionClauses.join(' AND ')
-      : conditionClauses.join(' OR ')
-  }
+  async refreshSegment(segmentId: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('refresh_segment_members', {
+      p_segment_id: segmentId,
+    })
 
-  /**
-   * Build SQL clause for a single rule
-   */
-  private buildRuleClause(rule: SegmentRule): string {
-    const { field, operator, value } = rule
-
-    switch (operator) {
-      case 'equals':
-        return `${field}.eq.${value}`
-      case 'not_equals':
-        return `${field}.neq.${value}`
-      case 'contains':
-        return `${field}.ilike.%${value}%`
-      case 'not_contains':
-        return `not.${field}.ilike.%${value}%`
-      case 'starts_with':
-        return `${field}.ilike.${value}%`
-      case 'ends_with':
-        return `${field}.ilike.%${value}`
-      case 'is_empty':
-        return `${field}.is.null`
-      case 'is_not_empty':
-        return `not.${field}.is.null`
-      case 'greater_than':
-        return `${field}.gt.${value}`
-      case 'less_than':
-        return `${field}.lt.${value}`
-      case 'in':
-        if (Array.isArray(value)) {
-          return `${field}.in.(${value.join(',')})`
-        }
-        return `${field}.eq.${value}`
-      case 'not_in':
-        if (Array.isArray(value)) {
-          return `not.${field}.in.(${value.join(',')})`
-        }
-        return `${field}.neq.${value}`
-      default:
-        return `${field}.eq.${value}`
-    }
+    if (error) throw error
+    return data ?? 0
   }
 
   /**
@@ -317,105 +276,94 @@ export class ContactSegmentationService {
   static getSegmentTemplates(): Array<{
     name: string
     description: string
-    conditions: SegmentCondition[]
-    logic: 'AND' | 'OR'
+    rules: SegmentRuleNode
   }> {
     return [
       {
         name: 'Active Prospects',
-        description: 'Contacts who are active and have valid emails',
-        conditions: [{
-          rules: [
-            { field: 'status', operator: 'equals', value: 'active' },
-            { field: 'email_status', operator: 'in', value: ['valid', 'risky'] }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        description: 'Subscribed contacts that have not bounced',
+        rules: {
+          type: 'group',
+          logic: 'AND',
+          children: [
+            { type: 'field', field: 'unsubscribed_at', operator: 'is_empty' },
+            { type: 'field', field: 'engagement_bounce_count', operator: 'equals', value: 0 }
+          ]
+        }
       },
       {
         name: 'Technology Companies',
-        description: 'Contacts from technology industry',
-        conditions: [{
-          rules: [
-            { field: 'industry', operator: 'contains', value: 'technology' },
-            { field: 'status', operator: 'equals', value: 'active' }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        description: 'Contacts whose company was enriched as technology',
+        rules: { type: 'enriched_industry', industry: 'technology' }
       },
       {
         name: 'Decision Makers',
         description: 'Contacts with executive or management titles',
-        conditions: [{
-          rules: [
-            { field: 'job_title', operator: 'contains', value: 'CEO' },
-            { field: 'job_title', operator: 'contains', value: 'CTO' },
-            { field: 'job_title', operator: 'contains', value: 'Manager' },
-            { field: 'job_title', operator: 'contains', value: 'Director' },
-            { field: 'job_title', operator: 'contains', value: 'VP' }
-          ],
-          logic: 'OR'
-        }],
-        logic: 'AND'
+        rules: {
+          type: 'group',
+          logic: 'OR',
+          children: ['CEO', 'CTO', 'Manager', 'Director', 'VP'].map(title => ({
+            type: 'field' as const,
+            field: 'position',
+            operator: 'contains' as const,
+            value: title
+          }))
+        }
       },
       {
         name: 'Recently Added',
         description: 'Contacts added in the last 30 days',
-        conditions: [{
-          rules: [
-            { field: 'created_at', operator: 'greater_than', value: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        rules: { type: 'field', field: 'created_at', operator: 'within_last_days', value: 30 }
       },
       {
         name: 'Never Contacted',
-        description: 'Contacts who have never been sent an email',
-        conditions: [{
-          rules: [
-            { field: 'last_contacted', operator: 'is_empty', value: '' },
-            { field: 'status', operator: 'equals', value: 'active' }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        description: 'Subscribed contacts who have never been sent an email',
+        rules: {
+          type: 'group',
+          logic: 'AND',
+          children: [
+            { type: 'field', field: 'last_contacted_at', operator: 'is_empty' },
+            { type: 'field', field: 'unsubscribed_at', operator: 'is_empty' }
+          ]
+        }
+      },
+      {
+        name: 'Opened But No Reply',
+        description: 'Contacts who opened an email in the last 14 days and never replied',
+        rules: {
+          type: 'group',
+          logic: 'AND',
+          children: [
+            { type: 'opened_email', within_days: 14 },
+            {
+              type: 'group',
+              logic: 'NOT',
+              children: [{ type: 'field', field: 'engagement_reply_count', operator: 'greater_than', value: 0 }]
+            }
+          ]
+        }
       },
       {
         name: 'High Engagement',
         description: 'Contacts with high email engagement rates',
-        conditions: [{
-          rules: [
-            { field: 'emails_opened', operator: 'greater_than', value: 2 },
-            { field: 'emails_clicked', operator: 'greater_than', value: 0 }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        rules: {
+          type: 'group',
+          logic: 'AND',
+          children: [
+            { type: 'field', field: 'engagement_open_count', operator: 'greater_than', value: 2 },
+            { type: 'field', field: 'engagement_click_count', operator: 'greater_than', value: 0 }
+          ]
+        }
       },
       {
         name: 'Bounced Emails',
-        description: 'Contacts with bounced email status',
-        conditions: [{
-          rules: [
-            { field: 'status', operator: 'equals', value: 'bounced' }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        description: 'Contacts with bounced emails',
+        rules: { type: 'field', field: 'engagement_bounce_count', operator: 'greater_than', value: 0 }
       },
       {
         name: 'Unsubscribed',
         description: 'Contacts who have unsubscribed',
-        conditions: [{
-          rules: [
-            { field: 'status', operator: 'equals', value: 'unsubscribed' }
-          ],
-          logic: 'AND'
-        }],
-        logic: 'AND'
+        rules: { type: 'field', field: 'unsubscribed_at', operator: 'is_not_empty' }
       }
     ]
   }
@@ -425,7 +373,7 @@ export class ContactSegmentationService {
    */
   async getSegmentStats(userId: string): Promise<SegmentStats> {
     const segments = await this.getUserSegments(userId)
-    
+
     const stats: SegmentStats = {
       total_segments: segments.length,
       dynamic_segments: segments.filter(s => s.is_dynamic).length,
@@ -439,7 +387,7 @@ export class ContactSegmentationService {
 
     // Find largest segment
     if (segments.length > 0) {
-      const largest = segments.reduce((prev, current) => 
+      const largest = segments.reduce((prev, current) =>
         prev.contact_count > current.contact_count ? prev : current
       )
       stats.largest_segment = {
@@ -448,13 +396,11 @@ export class ContactSegmentationService {
       }
     }
 
-    // Calculate most used fields
+    // Calculate most used fields and predicates
     const fieldUsage: Record<string, number> = {}
     segments.forEach(segment => {
-      segment.conditions.forEach(condition => {
-        condition.rules.forEach(rule => {
-          fieldUsage[rule.field] = (fieldUsage[rule.field] || 0) + 1
-        })
+      segmentRuleFields(segment.rules).forEach(field => {
+        fieldUsage[field] = (fieldUsage[field] || 0) + 1
       })
     })
 
@@ -467,132 +413,151 @@ export class ContactSegmentationService {
   }
 
   /**
-   * Refresh contact counts for all dynamic segments
+   * Fully re-evaluate all dynamic segments of a user
    */
   async refreshSegmentCounts(userId: string) {
     const segments = await this.getUserSegments(userId)
-    const dynamicSegments = segments.filter(s => s.is_dynamic)
 
-    for (const segment of dynamicSegments) {
-      const newCount = await this.calculateSegmentCount(userId, segment.conditions, segment.logic)
-      if (newCount !== segment.contact_count) {
-        await this.updateSegment(segment.id, userId, { contact_count: newCount })
-      }
+    for (const segment of segments.filter(s => s.is_dynamic)) {
+      await this.refreshSegment(segment.id)
     }
   }
 
   /**
-   * Get available fields for segmentation
+   * Get available fields for segmentation, including the user's custom fields
    */
-  static getAvailableFields(): Array<{
-    field: string
-    label: string
-    type: 'string' | 'number' | 'date' | 'boolean' | 'array'
-    operators: string[]
-  }> {
-    return [
-      {
-        field: 'email',
-        label: 'Email',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with']
-      },
-      {
-        field: 'first_name',
-        label: 'First Name',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'last_name',
-        label: 'Last Name',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'company_name',
-        label: 'Company',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'job_title',
-        label: 'Job Title',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'industry',
-        label: 'Industry',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'website',
-        label: 'Website',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'phone',
-        label: 'Phone',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'contains', 'not_contains', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'status',
-        label: 'Status',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'in', 'not_in']
-      },
-      {
-        field: 'email_status',
-        label: 'Email Status',
-        type: 'string',
-        operators: ['equals', 'not_equals', 'in', 'not_in']
-      },
-      {
-        field: 'tags',
-        label: 'Tags',
-        type: 'array',
-        operators: ['contains', 'not_contains', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'created_at',
-        label: 'Created Date',
-        type: 'date',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than']
-      },
-      {
-        field: 'last_contacted',
-        label: 'Last Contacted',
-        type: 'date',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than', 'is_empty', 'is_not_empty']
-      },
-      {
-        field: 'emails_sent',
-        label: 'Emails Sent',
-        type: 'number',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than']
-      },
-      {
-        field: 'emails_opened',
-        label: 'Emails Opened',
-        type: 'number',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than']
-      },
-      {
-        field: 'emails_clicked',
-        label: 'Emails Clicked',
-        type: 'number',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than']
-      },
-      {
-        field: 'emails_replied',
-        label: 'Emails Replied',
-        type: 'number',
-        operators: ['equals', 'not_equals', 'greater_than', 'less_than']
+  static getAvailableFields(customFields: CustomFieldDefinition[] = []): SegmentFieldDefinition[] {
+    return [...SEGMENT_FIELDS, ...customFieldSegmentFields(customFields)]
+  }
+
+  private async customSegmentFields(userId: string): Promise<SegmentFieldDefinition[]> {
+    return customFieldSegmentFields(await listCustomFieldDefinitions(this.supabase, userId))
+  }
+
+  /**
+   * Give a segment saved before rule trees existed rules from its conditions
+   * and materialize its members
+   */
+  private async upgradeLegacySegment(row: SegmentRow): Promise<ContactSegment> {
+    const rules = segmentRulesFromLegacy(row.conditions)
+
+    const { error } = await this.supabase
+      .from('contact_segments')
+      .update({ rules: rules as unknown as Json })
+      .eq('id', row.id)
+
+    if (error) throw error
+
+    const contactCount = await this.refreshSegment(row.id)
+    return toContactSegment({ ...row, rules: rules as unknown as Json, contact_count: contactCount })
+  }
+}
+
+function toContactSegment(row: SegmentRow): ContactSegment {
+  return {
+    id: row.id,
+    user_id: row.user_id || '',
+    name: row.name,
+    description: row.description || undefined,
+    rules: (row.rules as unknown as SegmentRuleNode) || { type: 'group', logic: 'AND', children: [] },
+    contact_count: row.contact_count || 0,
+    is_dynamic: row.is_dynamic,
+    refreshed_at: row.refreshed_at,
+    created_at: row.created_at || '',
+    updated_at: row.updated_at || '',
+  }
+}
+
+/**
+ * Keep materialized segments current: re-evaluate dynamic segments for
+ * contacts marked dirty since the last run, then fully refresh time-relative
+ * segments whose last refresh is older than TIME_RELATIVE_SEGMENT_REFRESH_MINUTES
+ * and segments still without rules.
+ */
+export async function runSegmentRefresh(
+  supabase: Supabase,
+  options: { dirtyBatchSize?: number; maxDirtyBatches?: number; maxFullRefreshes?: number } = {},
+): Promise<SegmentRefreshSummary> {
+  const { dirtyBatchSize = 5000, maxDirtyBatches = 10, maxFullRefreshes = 20 } = options
+  const summary: SegmentRefreshSummary = { dirtyContacts: 0, incrementalRefreshes: 0, fullRefreshes: 0, errors: [] }
+
+  for (let batch = 0; batch < maxDirtyBatches; batch++) {
+    const { data, error } = await supabase.rpc('process_segment_dirty_contacts', { p_limit: dirtyBatchSize })
+    if (error) {
+      summary.errors.push(`Dirty contacts: ${error.message}`)
+      break
+    }
+
+    const result = (data || {}) as { contacts?: number; segment_refreshes?: number }
+    summary.dirtyContacts += result.contacts || 0
+    summary.incrementalRefreshes += result.segment_refreshes || 0
+    if ((result.contacts || 0) < dirtyBatchSize) break
+  }
+
+  const staleBefore = new Date(Date.now() - TIME_RELATIVE_SEGMENT_REFRESH_MINUTES * 60 * 1000).toISOString()
+  const { data: candidates, error } = await supabase
+    .from('contact_segments')
+    .select('*')
+    .eq('is_dynamic', true)
+    .or(`refreshed_at.is.null,refreshed_at.lt.${staleBefore}`)
+    .order('refreshed_at', { ascending: true, nullsFirst: true })
+    .limit(500)
+
+  if (error) {
+    summary.errors.push(`Stale segments: ${error.message}`)
+    return summary
+  }
+
+  const stale = (candidates || []).filter(row =>
+    !row.rules || segmentRulesDependOnTime(row.rules as unknown as SegmentRuleNode)
+  )
+
+  // Segments without time-relative rules are kept current by the dirty-contact
+  // pass. Mark them refreshed so they leave the candidate window and cannot
+  // starve the time-relative segments ordered behind them.
+  const staleIds = new Set(stale.map(row => row.id))
+  const currentIds = (candidates || []).map(row => row.id).filter(id => !staleIds.has(id))
+  for (let i = 0; i < currentIds.length; i += MARK_REFRESHED_CHUNK_SIZE) {
+    const { error: markError } = await supabase
+      .from('contact_segments')
+      .update({ refreshed_at: new Date().toISOString() })
+      .in('id', currentIds.slice(i, i + MARK_REFRESHED_CHUNK_SIZE))
+
+    if (markError) {
+      summary.errors.push(`Mark segments refreshed: ${markError.message}`)
+      break
+    }
+  }
+
+  const service = new ContactSegmentationService(supabase)
+  for (const row of stale.slice(0, maxFullRefreshes)) {
+    try {
+      if (row.rules) {
+        await service.refreshSegment(row.id)
+      } else if (row.user_id) {
+        await service.getSegment(row.id, row.user_id)
       }
-    ]
+      summary.fullRefreshes++
+    } catch (refreshError) {
+      summary.errors.push(`Segment ${row.id}: ${refreshError instanceof Error ? refreshError.message : 'Unknown error'}`)
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Segment as returned by the segments API
+ */
+export function toSegmentResponse(segment: ContactSegment) {
+  return {
+    id: segment.id,
+    name: segment.name,
+    description: segment.description || '',
+    contactCount: segment.contact_count,
+    isDynamic: segment.is_dynamic,
+    rules: segment.rules,
+    refreshedAt: segment.refreshed_at,
+    createdAt: segment.created_at,
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,12 @@
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { z } from 'zod'
-import { EmailValidationService } from './email-validation'
+import { EmailValidationService, type EmailValidationStatus, type ExcludableEmailStatus } from './email-validation'
 import { contactSchema, updateContactSchema, csvContactSchema } from './validations'
+import { buildMergedContact, findDuplicateClusters, findSkippedNameBlocks, getFieldConflicts, type DuplicateCandidate, type MergeableField } from './contact-duplicates'
 import type { ContactEngagementStatus } from './contact-engagement'
+import { recordBulkContactChanges, recordContactChanges, type ContactChangeActor } from './contact-history'
+import { CustomFieldValidationError, listCustomFieldDefinitions, validateCustomFields } from './custom-fields'
+import { selectAllPages } from './supabase-paging'
 
 export interface Contact {
   id: string
@@ -34,6 +38,8 @@ export interface Contact {
   enrichment_data?: EnrichmentData | null
   enrichment_status?: string | null
   enrichment_updated_at?: string | null
+  email_verification_status?: EmailValidationStatus | null
+  email_checked_at?: string | null
   created_at: string
   updated_at: string
   
@@ -118,6 +124,20 @@ export class ContactService {
     return await createServerSupabaseClient()
   }
 
+  /**
+   * Normalize custom field values to the types of the user's custom fields
+   */
+  private async normalizeCustomFields(userId: string, values: Record<string, any>): Promise<Record<string, any>> {
+    const definitions = await listCustomFieldDefinitions(await this.getSupabase(), userId)
+    if (definitions.length === 0) return values
+
+    const result = validateCustomFields(definitions, values)
+    if (result.errors.length > 0) {
+      throw new CustomFieldValidationError(result.errors)
+    }
+    return result.values
+  }
+
   async createContact(userId: string, contactData: Partial<Contact>) {
     // Validate input data using Zod schema
     const validatedData = contactSchema.parse(contactData)
@@ -131,12 +151,12 @@ export class ContactService {
     }
 
     // Validate email if requested
-    let emailStatus: 'valid' | 'invalid' | 'risky' | 'unknown' = 'unknown'
+    let emailStatus: EmailValidationStatus | null = null
     try {
-      const emailValidation = await EmailValidationService.validateEmail(validatedData.email)
+      const emailValidation = await EmailValidationService.validateEmail(validatedData.email, { smtp: false })
       emailStatus = emailValidation.status
     } catch (error) {
-      // If email validation fails, we'll keep it as unknown
+      // Left unverified; the next campaign launch checks it
       console.warn('Email validation failed:', error)
     }
 
@@ -147,9 +167,11 @@ export class ContactService {
         user_id: userId,
         ...validatedData,
         email: EmailValidationService.normalizeEmail(validatedData.email),
-        custom_fields: validatedData.custom_fields || {},
+        custom_fields: await this.normalizeCustomFields(userId, validatedData.custom_fields || {}),
         tags: validatedData.tags || [],
         source: validatedData.source || 'manual', // Default to manual if not specified
+        email_verification_status: emailStatus,
+        email_checked_at: emailStatus ? new Date().toISOString() : null,
       })
       .select()
       .single()
@@ -158,11 +180,17 @@ export class ContactService {
     return data
   }
 
-  async updateContact(contactId: string, userId: string, updates: Partial<Contact>) {
+  async updateContact(
+    contactId: string,
+    userId: string,
+    updates: Partial<Contact>,
+    actor: ContactChangeActor = { type: 'user', id: userId }
+  ) {
     // Validate input data using Zod schema
     const validatedUpdates = updateContactSchema.parse(updates)
     
     // If email is being updated, check for duplicates and validate
+    let emailStatus: EmailValidationStatus | null = null
     if (validatedUpdates.email) {
       const duplicate = await this.findDuplicateContact(userId, validatedUpdates.email, contactId)
       if (duplicate) {
@@ -170,10 +198,10 @@ export class ContactService {
       }
 
       // Validate email if being updated
+      validatedUpdates.email = EmailValidationService.normalizeEmail(validatedUpdates.email)
       try {
-        const emailValidation = await EmailValidationService.validateEmail(validatedUpdates.email)
-        validatedUpdates.email = EmailValidationService.normalizeEmail(validatedUpdates.email)
-        // Email validation completed (no email_status column in database)
+        const emailValidation = await EmailValidationService.validateEmail(validatedUpdates.email, { smtp: false })
+        emailStatus = emailValidation.status
       } catch (error) {
         console.warn('Email validation failed during update:', error)
       }
@@ -181,6 +209,12 @@ export class ContactService {
 
     // Handle enrichment data conversion
     const updatePayload = { ...validatedUpdates } as any
+
+    // A new address drops the old address's verification result
+    if (validatedUpdates.email) {
+      updatePayload.email_verification_status = emailStatus
+      updatePayload.email_checked_at = emailStatus ? new Date().toISOString() : null
+    }
     
     // Check if any enrichment fields are being updated
     const enrichmentFields = [
@@ -192,19 +226,27 @@ export class ContactService {
     
     const supabase = await this.getSupabase()
 
-    if (hasEnrichmentUpdate) {
-      // First, get the current contact to preserve existing enrichment data
-      const { data: currentContact, error: fetchError } = await supabase
-        .from('contacts')
-        .select('enrichment_data, company')
-        .eq('id', contactId)
-        .eq('user_id', userId)
-        .single()
+    // Current values, to preserve existing enrichment data and record the change history
+    const { data: currentContact, error: fetchError } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('id', contactId)
+      .eq('user_id', userId)
+      .single()
 
-      if (fetchError) {
-        console.warn('Could not fetch current contact for enrichment update:', fetchError)
-      }
+    if (fetchError) {
+      console.warn('Could not fetch current contact before update:', fetchError)
+    }
+
+    // Edits send only some custom fields, so the others are kept
+    if (validatedUpdates.custom_fields !== undefined) {
+      updatePayload.custom_fields = await this.normalizeCustomFields(userId, {
+        ...((currentContact?.custom_fields as Record<string, any>) || {}),
+        ...validatedUpdates.custom_fields,
+      })
+    }
 
+    if (hasEnrichmentUpdate) {
       // Start with existing enrichment data or empty object
       const existingEnrichmentData = currentContact?.enrichment_data || {}
       const enrichmentData: any = { ...existingEnrichmentData }
@@ -259,6 +301,18 @@ export class ContactService {
       .single()
 
     if (error) throw error
+
+    if (currentContact) {
+      await recordContactChanges(supabase, {
+        userId,
+        contactId,
+        before: currentContact,
+        updates: updatePayload,
+        actor,
+        source: 'contact_update'
+      })
+    }
+
     return data
   }
 
@@ -663,9 +717,11 @@ export class ContactService {
   async bulkCreateContacts(userId: string, contacts: Partial<Contact>[], options: {
     skipDuplicates?: boolean
     validateEmails?: boolean
+    excludeEmailStatuses?: ExcludableEmailStatus[] // Verification statuses to leave out of the import
+    smtpProbe?: boolean // Probe mailboxes over SMTP (background import jobs only; slow)
     source?: string
   } = {}) {
-    const { skipDuplicates = true, validateEmails = true, source = 'import' } = options
+    const { skipDuplicates = true, validateEmails = true, excludeEmailStatuses = ['invalid'], smtpProbe = false, source = 'import' } = options
     
     const results = {
       created: 0,
@@ -695,7 +751,7 @@ export class ContactService {
     let emailValidations: any[] = []
     if (validateEmails) {
       const emails = contacts.map(c => c.email).filter(Boolean) as string[]
-      const validationResult = await EmailValidationService.validateEmails(emails)
+      const validationResult = await EmailValidationService.validateEmails(emails, { smtp: smtpProbe })
       emailValidations = validationResult.results
       results.validationSummary = {
         total: contacts.length,
@@ -706,6 +762,7 @@ export class ContactService {
     }
 
     const contactsToInsert = []
+    const checkedAt = new Date().toISOString()
 
     for (let i = 0; i < contacts.length; i++) {
       const contact = contacts[i]
@@ -726,11 +783,12 @@ export class ContactService {
         if (validateEmails && emailValidations[i]) {
           emailStatus = emailValidations[i].status
           
-          // Skip invalid emails if validation is enabled
-          if (emailStatus === 'invalid') {
+          // Skip emails whose verification status is excluded (invalid by default)
+          if (EmailValidationService.isExcluded(emailStatus, excludeEmailStatuses)) {
+            const label = emailStatus === 'invalid' ? 'Invalid' : 'Risky'
             results.errors.push({
               row: i + 1,
-              error: `Invalid email: ${emailValidations[i].reason || 'Email validation failed'}`,
+              error: `${label} email: ${emailValidations[i].reason || 'Email validation failed'}`,
               data: contact,
             })
             continue
@@ -744,6 +802,8 @@ export class ContactService {
             custom_fields: validatedContact.custom_fields || {},
           tags: validatedContact.tags || [],
           source: source, // Set import source
+          email_verification_status: validateEmails && emailValidations[i] ? emailStatus : null,
+          email_checked_at: validateEmails && emailValidations[i] ? checkedAt : null,
         })
 
         // Add to existing emails to prevent duplicates within the same batch
@@ -816,6 +876,7 @@ export class ContactService {
 
     // Update each contact individually to avoid constraint violations
     const errors = []
+    const historyGroupId = crypto.randomUUID()
     for (const contact of contacts) {
       try {
         const updatedTags = Array.from(new Set([...contact.tags, ...tags])) // Merge and deduplicate
@@ -832,6 +893,16 @@ export class ContactService {
         if (updateError) {
           console.error(`Error updating contact ${contact.id}:`, updateError)
           errors.push({ contactId: contact.id, error: updateError.message })
+        } else {
+          await recordContactChanges(supabase, {
+            userId,
+            contactId: contact.id,
+            before: contact,
+            updates: { tags: updatedTags },
+            actor: { type: 'user', id: userId },
+            source: 'tags_add',
+            groupId: historyGroupId
+          })
         }
       } catch (error) {
         console.error(`Failed to update contact ${contact.id}:`, error)
@@ -870,6 +941,7 @@ export class ContactService {
 
     // Update each contact individually to avoid constraint violations
     const errors = []
+    const historyGroupId = crypto.randomUUID()
     for (const contact of contacts) {
       try {
         const updatedTags = contact.tags.filter((tag: string) => !tags.includes(tag))
@@ -886,6 +958,16 @@ export class ContactService {
         if (updateError) {
           console.error(`Error updating contact ${contact.id}:`, updateError)
           errors.push({ contactId: contact.id, error: updateError.message })
+        } else {
+          await recordContactChanges(supabase, {
+            userId,
+            contactId: contact.id,
+            before: contact,
+            updates: { tags: updatedTags },
+            actor: { type: 'user', id: userId },
+            source: 'tags_remove',
+            groupId: historyGroupId
+          })
         }
       } catch (error) {
         console.error(`Failed to update contact ${contact.id}:`, error)
@@ -903,6 +985,12 @@ export class ContactService {
 
   async bulkUpdateContactStatus(contactIds: string[], userId: string, status: string) {
     const supabase = await this.getSupabase()
+    const { data: before } = await supabase
+      .from('contacts')
+      .select('id, status')
+      .in('id', contactIds)
+      .eq('user_id', userId)
+
     const { error } = await supabase
       .from('contacts')
       .update({
@@ -913,6 +1001,15 @@ export class ContactService {
       .eq('user_id', userId)
 
     if (error) throw error
+
+    await recordBulkContactChanges(supabase, {
+      userId,
+      // status is missing from the generated contacts types
+      entries: ((before || []) as unknown as Array<{ id: string; status: string | null }>)
+        .map(contact => ({ contactId: contact.id, before: contact, updates: { status } })),
+      actor: { type: 'user', id: userId },
+      source: 'contact_update'
+    })
   }
 
   async exportContacts(userId: string, filters: any = {}) {
@@ -1027,39 +1124,102 @@ export class ContactService {
   }
 
   /**
-   * Merge duplicate contacts
+   * Find clusters of likely duplicate contacts (normalized email, LinkedIn URL,
+   * phone, or similar name at the same company). `skippedBlocks` lists company
+   * groups too large to compare by name.
    */
-  async mergeDuplicateContacts(userId: string, primaryContactId: string, duplicateContactId: string) {
-    // Get both contacts
-    const [primary, duplicate] = await Promise.all([
-      this.getContact(primaryContactId, userId),
-      this.getContact(duplicateContactId, userId)
-    ])
-
-    if (!primary || !duplicate) {
-      throw new Error('One or both contacts not found')
+  async findDuplicateClusters(userId: string) {
+    const supabase = await this.getSupabase()
+    const { data: contacts, error } = await selectAllPages<DuplicateCandidate>((from, to) => supabase
+      .from('contacts')
+      .select('id, email, first_name, last_name, company, position, phone, website, linkedin_url, twitter_url, address, postcode, city, country, timezone, sex, tags, lists, notes, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to))
+
+    if (error) {
+      throw new Error(`Failed to load contacts for duplicate detection: ${error.message}`)
+    }
+
+    const clusters = findDuplicateClusters(contacts).map(cluster => ({
+      ...cluster,
+      conflicts: getFieldConflicts(cluster.contacts)
+    }))
+
+    return { clusters, skippedBlocks: findSkippedNameBlocks(contacts) }
+  }
+
+  /**
+   * Merge a cluster of duplicates into the primary contact. Field conflicts are
+   * resolved with `resolutions` (field -> contact id to take the value from);
+   * tags, lists, notes, email_tracking history, campaign_contacts rows, contact
+   * history, referrals and segment memberships are kept. The fields the merge
+   * changed on the primary are recorded in its history.
+   */
+  async mergeContactCluster(
+    userId: string,
+    primaryContactId: string,
+    duplicateContactIds: string[],
+    resolutions: Partial<Record<MergeableField, string>> = {}
+  ) {
+    const duplicateIds = Array.from(new Set(duplicateContactIds)).filter(id => id !== primaryContactId)
+    if (duplicateIds.length === 0) {
+      throw new Error('No duplicate contacts to merge')
+    }
+
+    const supabase = await this.getSupabase()
+    const { data: contacts, error } = await supabase
+      .from('contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', [primaryContactId, ...duplicateIds])
+
+    if (error) {
+      throw new Error(`Failed to load contacts to merge: ${error.message}`)
     }
 
-    // Merge data (primary takes precedence, but fill in missing fields from duplicate)
-    const mergedData = {
-      ...duplicate,
-      ...primary,
-      // Merge tags
-      tags: Array.from(new Set([...primary.tags, ...duplicate.tags])),
-      // Merge custom fields
-      custom_fields: { ...duplicate.custom_fields, ...primary.custom_fields },
-      // Keep the earliest creation date
-      created_at: primary.created_at < duplicate.created_at ? primary.created_at : duplicate.created_at,
-      updated_at: new Date().toISOString()
+    const primary = contacts?.find(contact => contact.id === primaryContactId)
+    const duplicates = (contacts || []).filter(contact => contact.id !== primaryContactId)
+    if (!primary || duplicates.length !== duplicateIds.length) {
+      throw new Error('One or more contacts not found')
     }
 
-    // Update primary contact with merged data
-    await this.updateContact(primaryContactId, userId, mergedData)
+    const merged = buildMergedContact(primary as DuplicateCandidate, duplicates as DuplicateCandidate[], resolutions)
+    if (merged.email) {
+      merged.email = EmailValidationService.normalizeEmail(merged.email)
+    }
 
-    // Delete duplicate contact
-    await this.deleteContact(duplicateContactId, userId)
+    const { data: summary, error: mergeError } = await supabase.rpc('merge_contacts', {
+      p_user_id: userId,
+      p_primary_id: primaryContactId,
+      p_duplicate_ids: duplicateIds,
+      p_updates: merged
+    })
 
-    return mergedData
+    if (mergeError) {
+      throw new Error(`Failed to merge contacts: ${mergeError.message}`)
+    }
+
+    await recordContactChanges(supabase, {
+      userId,
+      contactId: primaryContactId,
+      before: primary,
+      updates: merged,
+      actor: { type: 'user', id: userId },
+      source: 'merge'
+    })
+
+    console.log(`🔗 Merged ${duplicateIds.length} duplicate(s) into contact ${primaryContactId}`, summary)
+    return { contact: { ...primary, ...merged }, mergedContactIds: duplicateIds, summary }
+  }
+
+  /**
+   * Merge duplicate contacts
+   */
+  async mergeDuplicateContacts(userId: string, primaryContactId: string, duplicateContactId: string) {
+    const { contact } = await this.mergeContactCluster(userId, primaryContactId, [duplicateContactId])
+    return contact
   }
 
   /**
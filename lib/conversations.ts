@@ -0,0 +1,862 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { normalizeMessageId, parseReferences } from './email-threading'
+import { enqueueJob, runJobQueue, type QueueRunResult } from './job-queue'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Conversations: one thread per exchange with a contact, across received mail
+ * (incoming_emails), synced sent mail (outgoing_emails) and campaign sends
+ * (email_tracking).
+ *
+ * Messages are linked by Message-ID, In-Reply-To and References. A message
+ * whose headers do not point at a known message falls back to its subject
+ * without reply/forward prefixes plus its participants, the addresses other
+ * than the user's own accounts. syncConversations assigns new messages to
+ * existing conversations or opens new ones, in the background through the
+ * conversation_sync queue. Conversations carry a status (open, snoozed,
+ * done), assignees and labels.
+ */
+
+export const CONVERSATION_STATUSES = ['open', 'snoozed', 'done'] as const
+
+export type ConversationStatus = typeof CONVERSATION_STATUSES[number]
+export type ConversationSource = 'incoming' | 'outgoing' | 'campaign'
+export type ConversationDirection = 'inbound' | 'outbound'
+
+export type Conversation = Tables<'conversations'>
+
+export interface ConversationWithContact extends Conversation {
+  contact: Pick<Tables<'contacts'>, 'id' | 'email' | 'first_name' | 'last_name' | 'company'> | null
+}
+
+/** A message as seen by the grouping: headers, subject and participants */
+export interface ThreadMessage {
+  source: ConversationSource
+  sourceId: string
+  messageId: string | null
+  inReplyTo: string | null
+  references: string[]
+  subject: string | null
+  participants: string[]
+  direction: ConversationDirection
+  sentAt: string
+  emailAccountId: string | null
+  contactId: string | null
+  campaignId: string | null
+  /** Set for messages that already belong to a conversation */
+  conversationId?: string | null
+}
+
+export interface ConversationMessage {
+  id: string
+  source: ConversationSource
+  sourceId: string
+  messageId: string | null
+  direction: ConversationDirection
+  from: string | null
+  to: string | null
+  subject: string | null
+  sentAt: string
+  text: string | null
+  html: string | null
+  campaignId: string | null
+}
+
+export interface ConversationDetail {
+  conversation: ConversationWithContact
+  messages: ConversationMessage[]
+}
+
+export interface ConversationFilters {
+  status?: ConversationStatus
+  label?: string
+  assignee?: string
+  accountId?: string
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+export interface ConversationUpdate {
+  status?: ConversationStatus
+  snoozed_until?: string | null
+  assignees?: string[]
+  labels?: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SYNC_WINDOW_DAYS = 90
+const SYNC_BATCH_SIZE = 500
+/** A background sync job keeps assigning batches for this long */
+const SYNC_TIME_BUDGET_MS = 45_000
+/** Keep .in() filters well below URL length limits */
+const IN_FILTER_CHUNK = 100
+
+const SUBJECT_PREFIX = /^\s*(re|aw|sv|antw|fw|fwd|wg|tr)\s*(\[\d+\])?\s*:\s*/i
+const EMAIL_ADDRESS = /[^\s<>,;:"'()[\]]+@[^\s<>,;:"'()[\]]+\.[a-z]{2,}/gi
+
+/** Received mail first: it has the body as the recipient saw it */
+const SOURCE_PRIORITY: Record<ConversationSource, number> = { incoming: 0, outgoing: 1, campaign: 2 }
+
+/**
+ * Subject without any number of reply/forward prefixes, lowercased
+ */
+export function conversationSubjectKey(subject: string | null | undefined): string {
+  let value = (subject || '').trim()
+  while (SUBJECT_PREFIX.test(value)) {
+    value = value.replace(SUBJECT_PREFIX, '')
+  }
+  return value.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Addresses taking part in a message, minus the user's own accounts; sorted
+ */
+export function conversationParticipants(
+  fields: Array<string | string[] | null | undefined>,
+  ownAddresses: Iterable<string> = []
+): string[] {
+  const own = new Set(Array.from(ownAddresses, address => address.trim().toLowerCase()))
+  const addresses = new Set<string>()
+  fields.forEach(field => {
+    const values = Array.isArray(field) ? field : [field]
+    values.forEach(value => {
+      ;(value || '').match(EMAIL_ADDRESS)?.forEach(address => {
+        const normalized = address.toLowerCase()
+        if (!own.has(normalized)) addresses.add(normalized)
+      })
+    })
+  })
+  return Array.from(addresses).sort()
+}
+
+function fallbackKey(message: Pick<ThreadMessage, 'subject' | 'participants'>): string | null {
+  const subjectKey = conversationSubjectKey(message.subject)
+  if (!subjectKey || message.participants.length === 0) return null
+  return `${subjectKey}|${message.participants.join(',')}`
+}
+
+/**
+ * Group messages into threads. Messages share a thread when one's
+ * In-Reply-To or References names the other's Message-ID, when they have the
+ * same Message-ID (a campaign send and its synced sent copy) or when they
+ * already belong to the same conversation. Messages whose headers name no
+ * known message join the first message with the same subject and participants.
+ * Threads and their messages are ordered oldest first.
+ */
+export function groupMessages<T extends ThreadMessage>(messages: T[]): T[][] {
+  const parent = messages.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+  const union = (a: number, b: number) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB)
+  }
+  const joinOnKey = (seen: Map<string, number>, key: string | null | undefined, index: number) => {
+    if (!key) return
+    const first = seen.get(key)
+    if (first === undefined) seen.set(key, index)
+    else union(first, index)
+  }
+
+  const byMessageId = new Map<string, number>()
+  const byConversation = new Map<string, number>()
+  messages.forEach((message, index) => {
+    joinOnKey(byMessageId, message.messageId, index)
+    joinOnKey(byConversation, message.conversationId, index)
+  })
+
+  const linked = messages.map(() => false)
+  messages.forEach((message, index) => {
+    for (const reference of [message.inReplyTo, ...message.references]) {
+      const target = reference ? byMessageId.get(reference) : undefined
+      if (target !== undefined && target !== index) {
+        union(target, index)
+        linked[index] = true
+      }
+    }
+  })
+
+  const byFallback = new Map<string, number>()
+  messages.forEach((message, index) => {
+    if (!linked[index]) joinOnKey(byFallback, fallbackKey(message), index)
+  })
+
+  const groups = new Map<number, T[]>()
+  messages.forEach((message, index) => {
+    const root = find(index)
+    const group = groups.get(root)
+    if (group) group.push(message)
+    else groups.set(root, [message])
+  })
+
+  const time = (message: ThreadMessage) => new Date(message.sentAt).getTime() || 0
+  return Array.from(groups.values())
+    .map(group => group.sort((a, b) => time(a) - time(b)))
+    .sort((a, b) => time(a[0]) - time(b[0]))
+}
+
+function chunks<T>(values: T[], size: number = IN_FILTER_CHUNK): T[][] {
+  const result: T[][] = []
+  for (let index = 0; index < values.length; index += size) {
+    result.push(values.slice(index, index + size))
+  }
+  return result
+}
+
+/**
+ * Messages since `since` that no conversation holds yet, oldest first, up to
+ * SYNC_BATCH_SIZE per source. `more` is set when a source has more waiting.
+ */
+async function loadSourceMessages(
+  supabase: Supabase,
+  userId: string,
+  since: string,
+  ownAddresses: string[]
+): Promise<{ messages: ThreadMessage[]; more: boolean }> {
+  const { data: unassigned, error } = await supabase.rpc('unassigned_conversation_messages', {
+    p_user_id: userId,
+    p_since: since,
+    p_limit: SYNC_BATCH_SIZE,
+  })
+
+  if (error) {
+    throw new Error(`Failed to load messages for conversations: ${error.message}`)
+  }
+
+  const idsBySource: Record<ConversationSource, string[]> = { incoming: [], outgoing: [], campaign: [] }
+  for (const row of unassigned || []) {
+    idsBySource[row.source as ConversationSource]?.push(row.source_id)
+  }
+  const more = Object.values(idsBySource).some(ids => ids.length >= SYNC_BATCH_SIZE)
+
+  const messages: ThreadMessage[] = []
+  const failed = (loadError: { message: string }) =>
+    new Error(`Failed to load messages for conversations: ${loadError.message}`)
+
+  for (const ids of chunks(idsBySource.incoming)) {
+    const { data, error: loadError } = await supabase
+      .from('incoming_emails')
+      .select('id, message_id, in_reply_to, email_references, subject, from_address, to_address, cc_addresses, date_received, email_account_id, contact_id')
+      .eq('user_id', userId)
+      .in('id', ids)
+
+    if (loadError) throw failed(loadError)
+    for (const email of data || []) {
+      messages.push({
+        source: 'incoming',
+        sourceId: email.id,
+        messageId: normalizeMessageId(email.message_id),
+        inReplyTo: normalizeMessageId(email.in_reply_to),
+        references: parseReferences(email.email_references),
+        subject: email.subject,
+        participants: conversationParticipants([email.from_address, email.to_address, email.cc_addresses], ownAddresses),
+        direction: 'inbound',
+        sentAt: email.date_received,
+        emailAccountId: email.email_account_id,
+        contactId: email.contact_id,
+        campaignId: null,
+      })
+    }
+  }
+
+  for (const ids of chunks(idsBySource.outgoing)) {
+    const { data, error: loadError } = await supabase
+      .from('outgoing_emails')
+      .select('id, message_id, subject, to_address, cc_address, date_sent, email_account_id, contact_id')
+      .eq('user_id', userId)
+      .in('id', ids)
+
+    if (loadError) throw failed(loadError)
+    for (const email of data || []) {
+      messages.push({
+        source: 'outgoing',
+        sourceId: email.id,
+        messageId: normalizeMessageId(email.message_id),
+        inReplyTo: null,
+        references: [],
+        subject: email.subject,
+        participants: conversationParticipants([email.to_address, email.cc_address], ownAddresses),
+        direction: 'outbound',
+        sentAt: email.date_sent,
+        emailAccountId: email.email_account_id,
+        contactId: email.contact_id,
+        campaignId: null,
+      })
+    }
+  }
+
+  for (const ids of chunks(idsBySource.campaign)) {
+    const { data, error: loadError } = await supabase
+      .from('email_tracking')
+      .select('id, message_id, header_message_id, thread_references, subject_line, sent_at, email_account_id, contact_id, campaign_id')
+      .eq('user_id', userId)
+      .in('id', ids)
+
+    if (loadError) throw failed(loadError)
+
+    // Campaign sends only record the contact; look up their addresses
+    const sends = (data || []).filter(send => send.sent_at)
+    const contactIds = Array.from(new Set(sends.map(send => send.contact_id).filter(Boolean)))
+    const contactEmails = new Map<string, string>()
+    if (contactIds.length > 0) {
+      const { data: contacts } = await supabase.from('contacts').select('id, email').in('id', contactIds)
+      contacts?.forEach(contact => contactEmails.set(contact.id, contact.email))
+    }
+
+    for (const send of sends) {
+      const references = parseReferences(send.thread_references)
+      messages.push({
+        source: 'campaign',
+        sourceId: send.id,
+        messageId: normalizeMessageId(send.header_message_id || send.message_id),
+        inReplyTo: references.length > 0 ? references[references.length - 1] : null,
+        references,
+        subject: send.subject_line,
+        participants: conversationParticipants([contactEmails.get(send.contact_id)], ownAddresses),
+        direction: 'outbound',
+        sentAt: send.sent_at as string,
+        emailAccountId: send.email_account_id,
+        contactId: send.contact_id,
+        campaignId: send.campaign_id,
+      })
+    }
+  }
+
+  return { messages, more }
+}
+
+/**
+ * Already assigned messages that new messages reply to, or that reply to them
+ */
+async function loadLinkedMessages(supabase: Supabase, userId: string, messages: ThreadMessage[]): Promise<ThreadMessage[]> {
+  const messageIds = Array.from(new Set(messages.map(message => message.messageId).filter(Boolean))) as string[]
+  const referenced = Array.from(new Set(messages.flatMap(message => [message.inReplyTo, ...message.references, message.messageId]).filter(Boolean))) as string[]
+
+  const rows = new Map<string, ThreadMessage>()
+  const collect = async (column: 'message_id' | 'in_reply_to', values: string[]) => {
+    for (const chunk of chunks(values)) {
+      const { data, error } = await supabase
+        .from('conversation_messages')
+        .select('conversation_id, source, source_id, message_id, in_reply_to, message_references, direction, sent_at')
+        .eq('user_id', userId)
+        .in(column, chunk)
+
+      if (error) {
+        throw new Error(`Failed to load conversation messages: ${error.message}`)
+      }
+      data?.forEach(row => {
+        rows.set(`${row.source}:${row.source_id}`, {
+          source: row.source as ConversationSource,
+          sourceId: row.source_id,
+          messageId: row.message_id,
+          inReplyTo: row.in_reply_to,
+          references: parseReferences(row.message_references),
+          subject: null,
+          participants: [],
+          direction: row.direction as ConversationDirection,
+          sentAt: row.sent_at,
+          emailAccountId: null,
+          contactId: null,
+          campaignId: null,
+          conversationId: row.conversation_id,
+        })
+      })
+    }
+  }
+
+  await collect('message_id', referenced)
+  await collect('in_reply_to', messageIds)
+  return Array.from(rows.values())
+}
+
+/**
+ * Open conversations for the fallback: same subject key and participants
+ */
+async function loadFallbackConversations(
+  supabase: Supabase,
+  userId: string,
+  subjectKeys: string[]
+): Promise<Map<string, string>> {
+  const byKey = new Map<string, string>()
+  for (const chunk of chunks(subjectKeys)) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('id, subject_key, participants, last_message_at')
+      .eq('user_id', userId)
+      .in('subject_key', chunk)
+      .order('last_message_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load conversations: ${error.message}`)
+    }
+    // Ascending order: the most recent conversation with the key wins
+    data?.forEach(conversation => {
+      byKey.set(`${conversation.subject_key}|${[...conversation.participants].sort().join(',')}`, conversation.id)
+    })
+  }
+  return byKey
+}
+
+function firstOf<T>(group: ThreadMessage[], pick: (message: ThreadMessage) => T | null | undefined): T | null {
+  for (const message of group) {
+    const value = pick(message)
+    if (value) return value
+  }
+  return null
+}
+
+async function createConversation(supabase: Supabase, userId: string, group: ThreadMessage[]): Promise<string> {
+  const subject = firstOf(group, message => message.subject)
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: userId,
+      email_account_id: firstOf(group, message => message.emailAccountId),
+      contact_id: firstOf(group, message => message.contactId),
+      campaign_id: firstOf(group, message => message.campaignId),
+      subject,
+      subject_key: conversationSubjectKey(subject),
+      participants: conversationParticipants(group.map(message => message.participants)),
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create conversation: ${error?.message || 'no row returned'}`)
+  }
+  return data.id
+}
+
+/**
+ * Recount a conversation after new messages; a newer inbound message reopens
+ * a conversation that was snoozed or done
+ */
+async function refreshConversation(
+  supabase: Supabase,
+  userId: string,
+  conversationId: string,
+  added: ThreadMessage[]
+): Promise<void> {
+  const [{ data: conversation }, { data: rows, error }] = await Promise.all([
+    supabase
+      .from('conversations')
+      .select('status, participants, email_account_id, contact_id, campaign_id, updated_at')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .single(),
+    supabase
+      .from('conversation_messages')
+      .select('message_id, direction, sent_at')
+      .eq('conversation_id', conversationId)
+      .order('sent_at', { ascending: false }),
+  ])
+
+  if (error || !conversation) {
+    throw new Error(`Failed to refresh conversation: ${error?.message || 'not found'}`)
+  }
+
+  // A campaign send and its synced sent copy count once
+  const distinct = new Set((rows || []).map((row, index) => row.message_id || `#${index}`))
+  const latest = rows?.[0]
+
+  const update: Database['public']['Tables']['conversations']['Update'] = {
+    message_count: distinct.size,
+    last_message_at: latest?.sent_at || null,
+    last_direction: latest?.direction || null,
+    participants: conversationParticipants([conversation.participants, ...added.map(message => message.participants)]),
+    email_account_id: conversation.email_account_id || firstOf(added, message => message.emailAccountId),
+    contact_id: conversation.contact_id || firstOf(added, message => message.contactId),
+    campaign_id: conversation.campaign_id || firstOf(added, message => message.campaignId),
+    updated_at: new Date().toISOString(),
+  }
+
+  const reopens = conversation.status !== 'open' && added.some(message =>
+    message.direction === 'inbound' && new Date(message.sentAt) > new Date(conversation.updated_at)
+  )
+  if (reopens) {
+    update.status = 'open'
+    update.snoozed_until = null
+  }
+
+  const { error: updateError } = await supabase
+    .from('conversations')
+    .update(update)
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+
+  if (updateError) {
+    throw new Error(`Failed to refresh conversation: ${updateError.message}`)
+  }
+}
+
+/**
+ * Assign recent messages that are not in a conversation yet, oldest first and
+ * up to SYNC_BATCH_SIZE per source; `more` is set when messages are left
+ */
+export async function syncConversations(
+  supabase: Supabase,
+  userId: string,
+  options: { since?: Date } = {}
+): Promise<{ assigned: number; created: number; more: boolean }> {
+  const since = (options.since || new Date(Date.now() - SYNC_WINDOW_DAYS * DAY_MS)).toISOString()
+
+  const { data: accounts } = await supabase
+    .from('email_accounts')
+    .select('email')
+    .eq('user_id', userId)
+  const ownAddresses = (accounts || []).map(account => account.email)
+
+  const { messages: pending, more } = await loadSourceMessages(supabase, userId, since, ownAddresses)
+  if (pending.length === 0) return { assigned: 0, created: 0, more }
+
+  const linked = await loadLinkedMessages(supabase, userId, pending)
+  const groups = groupMessages([...linked, ...pending])
+    .map(group => ({ group, added: group.filter(message => !message.conversationId) }))
+    .filter(({ added }) => added.length > 0)
+
+  const subjectKeys = Array.from(new Set(groups.map(({ group }) => conversationSubjectKey(firstOf(group, message => message.subject))).filter(Boolean)))
+  const fallback = await loadFallbackConversations(supabase, userId, subjectKeys)
+
+  let assigned = 0
+  let created = 0
+
+  for (const { group, added } of groups) {
+    let conversationId = firstOf(group, message => message.conversationId)
+    if (!conversationId) {
+      const key = fallbackKey({
+        subject: firstOf(group, message => message.subject),
+        participants: conversationParticipants(group.map(message => message.participants)),
+      })
+      conversationId = (key && fallback.get(key)) || null
+    }
+    if (!conversationId) {
+      conversationId = await createConversation(supabase, userId, group)
+      created++
+    }
+
+    const { error } = await supabase
+      .from('conversation_messages')
+      .upsert(added.map(message => ({
+        user_id: userId,
+        conversation_id: conversationId as string,
+        source: message.source,
+        source_id: message.sourceId,
+        message_id: message.messageId,
+        in_reply_to: message.inReplyTo,
+        message_references: message.references.length > 0 ? message.references.join(' ') : null,
+        direction: message.direction,
+        sent_at: message.sentAt,
+      })), { onConflict: 'source,source_id', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Failed to assign messages to conversation: ${error.message}`)
+    }
+
+    await refreshConversation(supabase, userId, conversationId, added)
+    assigned += added.length
+  }
+
+  return { assigned, created, more }
+}
+
+/**
+ * Sync a user's conversations in the background; a no-op while a sync is queued
+ */
+export async function enqueueConversationSync(supabase: Supabase, userId: string): Promise<void> {
+  await enqueueJob(supabase, 'conversation_sync', { userId }, { dedupeKey: `conversation_sync:${userId}`, maxAttempts: 3 })
+}
+
+/**
+ * Drain the conversation_sync queue: each job assigns a user's messages batch
+ * by batch until none are left or the time budget is used up
+ */
+export async function runConversationSync(
+  supabase: Supabase,
+  options: { timeBudgetMs?: number } = {}
+): Promise<QueueRunResult> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? SYNC_TIME_BUDGET_MS)
+
+  return runJobQueue<{ userId: string }>(
+    supabase,
+    'conversation_sync',
+    async (job) => {
+      let result = await syncConversations(supabase, job.payload.userId)
+      while (result.more && Date.now() < deadline) {
+        result = await syncConversations(supabase, job.payload.userId)
+      }
+    },
+    { limit: 10, visibilityTimeoutSeconds: 120 }
+  )
+}
+
+/**
+ * Snoozed conversations whose time has come are open again; without a user,
+ * for everyone (the follow-up reminders cron)
+ */
+export async function wakeSnoozedConversations(supabase: Supabase, userId?: string): Promise<number> {
+  let query = supabase
+    .from('conversations')
+    .update({ status: 'open', snoozed_until: null, updated_at: new Date().toISOString() })
+    .eq('status', 'snoozed')
+    .lte('snoozed_until', new Date().toISOString())
+
+  if (userId) query = query.eq('user_id', userId)
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    throw new Error(`Failed to wake snoozed conversations: ${error.message}`)
+  }
+  return data?.length || 0
+}
+
+/**
+ * Bring a conversation back to the open list, woken from snooze, with an
+ * optional label saying why
+ */
+export async function surfaceConversation(
+  supabase: Supabase,
+  userId: string,
+  conversationId: string,
+  label?: string
+): Promise<void> {
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('labels')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!conversation) return
+
+  const { error } = await supabase
+    .from('conversations')
+    .update({
+      status: 'open',
+      snoozed_until: null,
+      labels: label ? cleanList([...conversation.labels, label]) : conversation.labels,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to reopen conversation: ${error.message}`)
+  }
+}
+
+export async function listConversations(
+  supabase: Supabase,
+  userId: string,
+  filters: ConversationFilters = {}
+): Promise<{ conversations: ConversationWithContact[]; total: number }> {
+  await wakeSnoozedConversations(supabase, userId)
+
+  const limit = Math.min(filters.limit || 50, 200)
+  const offset = filters.offset || 0
+
+  let query = supabase
+    .from('conversations')
+    .select('*, contact:contacts(id, email, first_name, last_name, company)', { count: 'exact' })
+    .eq('user_id', userId)
+
+  if (filters.status) query = query.eq('status', filters.status)
+  if (filters.label) query = query.contains('labels', [filters.label])
+  if (filters.assignee) query = query.contains('assignees', [filters.assignee])
+  if (filters.accountId) query = query.eq('email_account_id', filters.accountId)
+
+  const search = filters.search?.replace(/[%,()]/g, ' ').trim()
+  if (search) query = query.ilike('subject', `%${search}%`)
+
+  const { data, error, count } = await query
+    .order('last_message_at', { ascending: false, nullsFirst: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to load conversations: ${error.message}`)
+  }
+
+  return { conversations: (data || []) as unknown as ConversationWithContact[], total: count || 0 }
+}
+
+export async function findConversationId(
+  supabase: Supabase,
+  userId: string,
+  source: ConversationSource,
+  sourceId: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('conversation_messages')
+    .select('conversation_id')
+    .eq('user_id', userId)
+    .eq('source', source)
+    .eq('source_id', sourceId)
+    .maybeSingle()
+
+  return data?.conversation_id || null
+}
+
+export async function findConversationIdByMessageId(
+  supabase: Supabase,
+  userId: string,
+  messageId: string
+): Promise<string | null> {
+  const normalized = normalizeMessageId(messageId)
+  if (!normalized) return null
+
+  const { data } = await supabase
+    .from('conversation_messages')
+    .select('conversation_id')
+    .eq('user_id', userId)
+    .eq('message_id', normalized)
+    .limit(1)
+
+  return data?.[0]?.conversation_id || null
+}
+
+/**
+ * A conversation with its messages, oldest first. A campaign send and its
+ * synced sent copy show once.
+ */
+export async function getConversation(
+  supabase: Supabase,
+  userId: string,
+  conversationId: string
+): Promise<ConversationDetail | null> {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select('*, contact:contacts(id, email, first_name, last_name, company)')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load conversation: ${error.message}`)
+  }
+  if (!conversation) return null
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('conversation_messages')
+    .select('id, source, source_id, message_id, direction, sent_at')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('sent_at', { ascending: true })
+
+  if (rowsError) {
+    throw new Error(`Failed to load conversation messages: ${rowsError.message}`)
+  }
+
+  const idsOf = (source: ConversationSource) => (rows || []).filter(row => row.source === source).map(row => row.source_id)
+  const [incoming, outgoing, campaign] = await Promise.all([
+    idsOf('incoming').length > 0
+      ? supabase.from('incoming_emails').select('id, from_address, to_address, subject, text_content, html_content').in('id', idsOf('incoming'))
+      : Promise.resolve({ data: [] as any[] }),
+    idsOf('outgoing').length > 0
+      ? supabase.from('outgoing_emails').select('id, from_address, to_address, subject, text_content, html_content').in('id', idsOf('outgoing'))
+      : Promise.resolve({ data: [] as any[] }),
+    idsOf('campaign').length > 0
+      ? supabase
+          .from('email_tracking')
+          .select('id, subject_line, email_body, campaign_id, email_accounts(email), contacts(email)')
+          .in('id', idsOf('campaign'))
+      : Promise.resolve({ data: [] as any[] }),
+  ])
+
+  const content = new Map<string, Pick<ConversationMessage, 'from' | 'to' | 'subject' | 'text' | 'html' | 'campaignId'>>()
+  ;(incoming.data || []).forEach((email: any) => {
+    content.set(`incoming:${email.id}`, { from: email.from_address, to: email.to_address, subject: email.subject, text: email.text_content, html: email.html_content, campaignId: null })
+  })
+  ;(outgoing.data || []).forEach((email: any) => {
+    content.set(`outgoing:${email.id}`, { from: email.from_address, to: email.to_address, subject: email.subject, text: email.text_content, html: email.html_content, campaignId: null })
+  })
+  ;(campaign.data || []).forEach((send: any) => {
+    content.set(`campaign:${send.id}`, {
+      from: send.email_accounts?.email || null,
+      to: send.contacts?.email || null,
+      subject: send.subject_line,
+      text: null,
+      html: send.email_body,
+      campaignId: send.campaign_id,
+    })
+  })
+
+  const byMessageId = new Map<string, ConversationMessage>()
+  const messages: ConversationMessage[] = []
+  for (const row of rows || []) {
+    const source = row.source as ConversationSource
+    const message: ConversationMessage = {
+      id: row.id,
+      source,
+      sourceId: row.source_id,
+      messageId: row.message_id,
+      direction: row.direction as ConversationDirection,
+      sentAt: row.sent_at,
+      from: null,
+      to: null,
+      subject: null,
+      text: null,
+      html: null,
+      campaignId: null,
+      ...content.get(`${source}:${row.source_id}`),
+    }
+
+    const duplicate = row.message_id ? byMessageId.get(row.message_id) : undefined
+    if (!duplicate) {
+      if (row.message_id) byMessageId.set(row.message_id, message)
+      messages.push(message)
+      continue
+    }
+
+    const campaignId = duplicate.campaignId || message.campaignId
+    if (SOURCE_PRIORITY[source] < SOURCE_PRIORITY[duplicate.source]) {
+      Object.assign(duplicate, message)
+    }
+    duplicate.campaignId = campaignId
+  }
+
+  return { conversation: conversation as unknown as ConversationWithContact, messages }
+}
+
+function cleanList(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim()).filter(Boolean)))
+}
+
+export async function updateConversation(
+  supabase: Supabase,
+  userId: string,
+  conversationId: string,
+  changes: ConversationUpdate
+): Promise<Conversation | null> {
+  const update: Database['public']['Tables']['conversations']['Update'] = {
+    updated_at: new Date().toISOString(),
+  }
+
+  if (changes.status) {
+    update.status = changes.status
+    update.snoozed_until = changes.status === 'snoozed' ? changes.snoozed_until || null : null
+  }
+  if (changes.assignees) update.assignees = cleanList(changes.assignees)
+  if (changes.labels) update.labels = cleanList(changes.labels)
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .update(update)
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update conversation: ${error.message}`)
+  }
+  return data
+}
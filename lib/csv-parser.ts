@@ -1,4 +1,5 @@
 import { AddressParser, ParsedAddress } from './address-parser'
+import { CUSTOM_FIELD_MAPPING_PREFIX, coerceCustomFieldValue, type CustomFieldSpec } from './custom-fields'
 
 interface CSVParseResult {
   headers: string[]
@@ -10,7 +11,7 @@ interface CSVParseResult {
   }>
 }
 
-interface FieldMapping {
+export interface FieldMapping {
   csvField: string
   contactField: string
   required: boolean
@@ -45,20 +46,31 @@ export class CSVParser {
     source: { required: false, label: 'Source' }
   }
 
+  // Normalized header names; the second line of an entry lists the column names
+  // used by Google Contacts ("E-mail 1 - Value") and Outlook ("Business Phone") exports
   private static readonly FIELD_ALIASES = {
-    email: ['email', 'email_address', 'e-mail', 'mail', 'contact_email'],
+    email: ['email', 'email_address', 'e-mail', 'mail', 'contact_email',
+      'e_mail_1___value', 'e_mail_address'],
     first_name: ['first_name', 'firstname', 'first', 'fname', 'given_name', 'vorname'],
     last_name: ['last_name', 'lastname', 'last', 'lname', 'surname', 'family_name', 'nachname'],
-    company: ['company', 'company_name', 'organization', 'org', 'business'],
-    position: ['position', 'job_title', 'title', 'role', 'job'],
-    website: ['website', 'url', 'web', 'site', 'homepage'],
-    phone: ['phone', 'phone_number', 'tel', 'telephone', 'mobile', 'cell'],
+    company: ['company', 'company_name', 'organization', 'org', 'business',
+      'organization_name', 'organization_1___name'],
+    position: ['position', 'job_title', 'title', 'role', 'job',
+      'organization_title', 'organization_1___title'],
+    website: ['website', 'url', 'web', 'site', 'homepage',
+      'website_1___value', 'web_page'],
+    phone: ['phone', 'phone_number', 'tel', 'telephone', 'mobile', 'cell',
+      'phone_1___value', 'business_phone', 'mobile_phone'],
     linkedin_url: ['linkedin_url', 'linkedin', 'linkedin_profile', 'li_url'],
     twitter_url: ['twitter_url', 'twitter', 'twitter_profile', 'twitter_handle'],
-    address: ['address', 'street_address', 'street', 'location_address', 'addr'],
-    postcode: ['postcode', 'postal_code', 'zip_code', 'zip', 'postal'],
-    country: ['country', 'nation', 'location_country'],
-    city: ['city', 'location', 'location_city'],
+    address: ['address', 'street_address', 'street', 'location_address', 'addr',
+      'address_1___street', 'business_street'],
+    postcode: ['postcode', 'postal_code', 'zip_code', 'zip', 'postal',
+      'address_1___postal_code', 'business_postal_code'],
+    country: ['country', 'nation', 'location_country',
+      'address_1___country', 'business_country_region'],
+    city: ['city', 'location', 'location_city',
+      'address_1___city', 'business_city'],
     timezone: ['timezone', 'tz', 'time_zone'],
     sex: ['sex', 'gender', 'geschlecht', 'm_f', 'male_female'],
     source: ['source', 'import_source', 'data_source']
@@ -311,11 +323,13 @@ export class CSVParser {
   }
 
   /**
-   * Transform CSV rows to contact objects using field mappings
+   * Transform CSV rows to contact objects using field mappings. Columns mapped to
+   * custom:<key> are converted to the type of that custom field.
    */
   static transformRowsToContacts(
     rows: Record<string, string>[],
-    mappings: FieldMapping[]
+    mappings: FieldMapping[],
+    customFields: CustomFieldSpec[] = []
   ): Array<{
     contact: Record<string, any>
     rowIndex: number
@@ -335,6 +349,8 @@ export class CSVParser {
       }
     })
 
+    const customFieldsByKey = new Map(customFields.map(field => [field.key, field]))
+
     rows.forEach((row, index) => {
       const contact: Record<string, any> = {
         custom_fields: {},
@@ -346,7 +362,21 @@ export class CSVParser {
       Object.entries(row).forEach(([csvField, value]) => {
         const contactField = mappingLookup.get(csvField)
         
-        if (contactField) {
+        if (contactField?.startsWith(CUSTOM_FIELD_MAPPING_PREFIX)) {
+          // Map to a defined custom field, converting the value to its type
+          const key = contactField.slice(CUSTOM_FIELD_MAPPING_PREFIX.length)
+          const spec = customFieldsByKey.get(key)
+          if (!spec) {
+            if (value && value.trim()) contact.custom_fields[key] = value.trim()
+            return
+          }
+          const { value: converted, error } = coerceCustomFieldValue(spec, value)
+          if (error) {
+            errors.push(error)
+          } else if (converted !== null) {
+            contact.custom_fields[key] = converted
+          }
+        } else if (contactField) {
           // Map to known contact field
           if (value && value.trim()) {
             contact[contactField] = value.trim()
@@ -0,0 +1,422 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Custom contact fields.
+ *
+ * Users define typed fields in custom_field_definitions; the values stay in
+ * contacts.custom_fields under the definition key. Values are normalized on
+ * the way in (numbers as JSON numbers, dates as YYYY-MM-DD, booleans, select
+ * options in their defined spelling, multi-selects as arrays), so segments can
+ * compare them in SQL and templates can format them by type. Keys without a
+ * definition, such as unmapped import columns, are kept as they are.
+ */
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multi_select', 'boolean'] as const
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number]
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  boolean: 'Yes / No',
+}
+
+export type CustomFieldDefinition = Omit<Tables<'custom_field_definitions'>, 'type'> & { type: CustomFieldType }
+
+/** The parts of a definition that validation and formatting need */
+export type CustomFieldSpec = Pick<CustomFieldDefinition, 'key' | 'label' | 'type' | 'options'>
+
+export type CustomFieldValue = string | number | boolean | string[]
+
+export interface CustomFieldDefinitionInput {
+  key?: string
+  label: string
+  type: CustomFieldType
+  options?: string[]
+  position?: number
+}
+
+/** Merge variables of custom fields are written {{custom.key}} */
+export const CUSTOM_FIELD_VARIABLE_PREFIX = 'custom.'
+
+/** Import mappings target custom fields as custom:key */
+export const CUSTOM_FIELD_MAPPING_PREFIX = 'custom:'
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/
+
+const MAX_TEXT_LENGTH = 1000
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'ja', 'j', 'x', 'on'])
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', 'nein', 'off'])
+
+/** Raised when custom field values or definitions do not validate */
+export class CustomFieldValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid custom fields: ${issues.join('; ')}`)
+    this.name = 'CustomFieldValidationError'
+  }
+}
+
+/**
+ * Key for a field label: "Contract Value (€)" becomes contract_value
+ */
+export function customFieldKey(label: string): string {
+  const key = label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50)
+    .replace(/_+$/, '')
+
+  if (!key) return 'field'
+  return /^[a-z]/.test(key) ? key : `field_${key}`.slice(0, 50)
+}
+
+function isEmpty(raw: unknown): boolean {
+  return raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '') ||
+    (Array.isArray(raw) && raw.length === 0)
+}
+
+function parseNumber(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null
+  if (typeof raw !== 'string') return null
+
+  let text = raw.trim().replace(/[\s']/g, '')
+  // "1.234,56" and "1234,5" are decimal commas, "1,234.56" uses a thousands comma
+  if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text) || /^-?\d+,\d+$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.')
+  } else {
+    text = text.replace(/,/g, '')
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null
+  return Number(text)
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+function parseDate(raw: unknown): string | null {
+  if (raw instanceof Date) return Number.isNaN(raw.getTime()) ? null : raw.toISOString().slice(0, 10)
+  if (typeof raw !== 'string') return null
+
+  const text = raw.trim()
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  // Day first, as in 31.12.2025 and 31/12/2025
+  match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/)
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]))
+
+  const parsed = Date.parse(text)
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString().slice(0, 10)
+}
+
+function matchOption(options: string[], value: string): string | null {
+  const wanted = value.trim().toLowerCase()
+  return options.find(option => option.toLowerCase() === wanted) ?? null
+}
+
+/**
+ * Normalize one value for its field. Empty input gives a null value; values
+ * that do not fit the type give an error instead.
+ */
+export function coerceCustomFieldValue(
+  spec: CustomFieldSpec,
+  raw: unknown
+): { value: CustomFieldValue | null; error?: string } {
+  if (isEmpty(raw)) return { value: null }
+
+  switch (spec.type) {
+    case 'text': {
+      if (typeof raw === 'object') return { value: null, error: `${spec.label} must be text` }
+      const text = String(raw).trim()
+      return text.length > MAX_TEXT_LENGTH
+        ? { value: null, error: `${spec.label} must be at most ${MAX_TEXT_LENGTH} characters` }
+        : { value: text }
+    }
+
+    case 'number': {
+      const number = parseNumber(raw)
+      return number === null ? { value: null, error: `${spec.label} must be a number` } : { value: number }
+    }
+
+    case 'date': {
+      const date = parseDate(raw)
+      return date === null ? { value: null, error: `${spec.label} must be a date` } : { value: date }
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw }
+      const text = String(raw).trim().toLowerCase()
+      if (TRUE_VALUES.has(text)) return { value: true }
+      if (FALSE_VALUES.has(text)) return { value: false }
+      return { value: null, error: `${spec.label} must be yes or no` }
+    }
+
+    case 'select': {
+      const option = typeof raw === 'string' || typeof raw === 'number' ? matchOption(spec.options, String(raw)) : null
+      return option === null
+        ? { value: null, error: `${spec.label} must be one of ${spec.options.join(', ')}` }
+        : { value: option }
+    }
+
+    case 'multi_select': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;|]/)
+      const values: string[] = []
+      for (const item of items.map(entry => entry.trim()).filter(Boolean)) {
+        const option = matchOption(spec.options, item)
+        if (option === null) {
+          return { value: null, error: `${spec.label}: "${item}" is not one of ${spec.options.join(', ')}` }
+        }
+        if (!values.includes(option)) values.push(option)
+      }
+      return { value: values.length > 0 ? values : null }
+    }
+  }
+}
+
+/**
+ * Normalize the defined fields of a custom_fields object. Keys without a
+ * definition pass through unchanged; empty values are dropped.
+ */
+export function validateCustomFields(
+  specs: CustomFieldSpec[],
+  values: Record<string, unknown>
+): { values: Record<string, unknown>; errors: string[] } {
+  const result: Record<string, unknown> = { ...values }
+  const errors: string[] = []
+
+  for (const spec of specs) {
+    const { value, error } = coerceCustomFieldValue(spec, values[spec.key])
+    if (error) {
+      errors.push(error)
+      continue
+    }
+
+    if (value === null) {
+      delete result[spec.key]
+    } else {
+      result[spec.key] = value
+    }
+  }
+
+  return { values: result, errors }
+}
+
+/**
+ * Check a definition from a request. Returns it with a key and trimmed
+ * options, or throws CustomFieldValidationError.
+ */
+export function normalizeCustomFieldDefinition(input: CustomFieldDefinitionInput): Required<CustomFieldDefinitionInput> {
+  const issues: string[] = []
+  const label = (input.label || '').trim()
+  const key = input.key ? input.key.trim() : customFieldKey(label)
+  const options = Array.from(new Set((input.options || []).map(option => option.trim()).filter(Boolean)))
+
+  if (!label) issues.push('label is required')
+  if (!CUSTOM_FIELD_KEY_PATTERN.test(key)) {
+    issues.push('key must start with a letter and contain only lowercase letters, digits and underscores')
+  }
+  if (!CUSTOM_FIELD_TYPES.includes(input.type)) issues.push(`unknown type ${JSON.stringify(input.type)}`)
+  if ((input.type === 'select' || input.type === 'multi_select') && options.length === 0) {
+    issues.push('select fields need at least one option')
+  }
+
+  if (issues.length > 0) throw new CustomFieldValidationError(issues)
+
+  return {
+    key,
+    label,
+    type: input.type,
+    options: input.type === 'select' || input.type === 'multi_select' ? options : [],
+    position: input.position ?? 0,
+  }
+}
+
+/**
+ * Value as text for emails: numbers and dates in the recipient's locale,
+ * booleans as Yes / No and multi-selects as a list
+ */
+export function formatCustomFieldValue(spec: Pick<CustomFieldSpec, 'type'>, value: unknown, locale = 'en-US'): string {
+  if (isEmpty(value)) return ''
+
+  switch (spec.type) {
+    case 'number': {
+      const number = parseNumber(value)
+      return number === null ? String(value) : number.toLocaleString(locale)
+    }
+    case 'date': {
+      const date = parseDate(value)
+      if (date === null) return String(value)
+      return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+      })
+    }
+    case 'boolean':
+      if (value === true || TRUE_VALUES.has(String(value).toLowerCase())) return locale.startsWith('de') ? 'Ja' : 'Yes'
+      return locale.startsWith('de') ? 'Nein' : 'No'
+    case 'multi_select':
+      return Array.isArray(value) ? value.join(', ') : String(value)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Replace {{custom.key}} merge variables (also HTML-encoded) with the contact's
+ * formatted values. Undefined keys fall back to the raw stored value.
+ */
+export function applyCustomFieldVariables(
+  content: string,
+  specs: Pick<CustomFieldSpec, 'key' | 'type'>[],
+  customFields: Record<string, unknown> | null | undefined,
+  locale = 'en-US'
+): string {
+  if (!content || !content.includes('custom.')) return content
+
+  const specsByKey = new Map(specs.map(spec => [spec.key, spec]))
+  const replace = (_match: string, key: string) => {
+    const value = customFields?.[key]
+    const spec = specsByKey.get(key)
+    if (spec) return formatCustomFieldValue(spec, value, locale)
+    return isEmpty(value) ? '' : Array.isArray(value) ? value.join(', ') : String(value)
+  }
+
+  return content
+    .replace(/\{\{\s*custom\.([a-z0-9_]+)\s*\}\}/g, replace)
+    .replace(/&#123;&#123;custom\.([a-z0-9_]+)&#125;&#125;/g, replace)
+}
+
+/**
+ * Locale for formatting a contact's values, from its country
+ */
+export function customFieldLocale(contact: { country?: string | null }): string {
+  const country = (contact.country || '').trim().toLowerCase()
+  if (['de', 'germany', 'deutschland', 'at', 'austria', 'österreich', 'ch', 'switzerland', 'schweiz'].includes(country)) {
+    return 'de-DE'
+  }
+  if (['uk', 'gb', 'united kingdom', 'great britain', 'england'].includes(country)) return 'en-GB'
+  return 'en-US'
+}
+
+export async function listCustomFieldDefinitions(supabase: Supabase, userId: string): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load custom fields: ${error.message}`)
+  }
+
+  return (data || []) as CustomFieldDefinition[]
+}
+
+export async function createCustomFieldDefinition(
+  supabase: Supabase,
+  userId: string,
+  input: CustomFieldDefinitionInput
+): Promise<CustomFieldDefinition> {
+  const definition = normalizeCustomFieldDefinition(input)
+
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .insert({ ...definition, user_id: userId })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new CustomFieldValidationError([`a field with the key ${definition.key} already exists`])
+    }
+    throw new Error(`Failed to create custom field: ${error.message}`)
+  }
+
+  return data as CustomFieldDefinition
+}
+
+/**
+ * Update a definition. The key and type are fixed once values exist, so only
+ * label, options and position change.
+ */
+export async function updateCustomFieldDefinition(
+  supabase: Supabase,
+  userId: string,
+  definitionId: string,
+  input: Partial<Pick<CustomFieldDefinitionInput, 'label' | 'options' | 'position'>>
+): Promise<CustomFieldDefinition | null> {
+  const { data: existing, error: loadError } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('id', definitionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (loadError) {
+    throw new Error(`Failed to load custom field: ${loadError.message}`)
+  }
+  if (!existing) return null
+
+  const definition = normalizeCustomFieldDefinition({
+    key: existing.key,
+    type: existing.type as CustomFieldType,
+    label: input.label ?? existing.label,
+    options: input.options ?? existing.options,
+    position: input.position ?? existing.position,
+  })
+
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .update({
+      label: definition.label,
+      options: definition.options,
+      position: definition.position,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', definitionId)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update custom field: ${error.message}`)
+  }
+
+  return data as CustomFieldDefinition
+}
+
+/**
+ * Delete a definition. Stored values stay in custom_fields as untyped data.
+ */
+export async function deleteCustomFieldDefinition(supabase: Supabase, userId: string, definitionId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .delete()
+    .eq('id', definitionId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete custom field: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
@@ -283,7 +283,9 @@ export type Database = {
       }
       campaign_contacts: {
         Row: {
+          ab_test_variant: string | null
           ai_personalization_used: boolean | null
+          branch_path: Json
           campaign_id: string | null
           completed_at: string | null
           contact_id: string | null
@@ -297,7 +299,9 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          ab_test_variant?: string | null
           ai_personalization_used?: boolean | null
+          branch_path?: Json
           campaign_id?: string | null
           completed_at?: string | null
           contact_id?: string | null
@@ -311,7 +315,9 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          ab_test_variant?: string | null
           ai_personalization_used?: boolean | null
+          branch_path?: Json
           campaign_id?: string | null
           completed_at?: string | null
           contact_id?: string | null
@@ -412,6 +418,7 @@ export type Database = {
           ab_test_config: Json | null
           ab_test_enabled: boolean | null
           batch_history: Json | null
+          batch_schedule: Json | null
           contact_list_ids: string[] | null
           contacts_failed: Json | null
           contacts_processed: Json | null
@@ -421,6 +428,7 @@ export type Database = {
           daily_send_limit: number | null
           description: string | null
           email_account_id: string | null
+          email_account_ids: string[]
           email_subject: string | null
           emails_bounced: number | null
           emails_clicked: number | null
@@ -460,6 +468,7 @@ export type Database = {
           ab_test_config?: Json | null
           ab_test_enabled?: boolean | null
           batch_history?: Json | null
+          batch_schedule?: Json | null
           contact_list_ids?: string[] | null
           contacts_failed?: Json | null
           contacts_processed?: Json | null
@@ -469,6 +478,7 @@ export type Database = {
           daily_send_limit?: number | null
           description?: string | null
           email_account_id?: string | null
+          email_account_ids?: string[]
           email_subject?: string | null
           emails_bounced?: number | null
           emails_clicked?: number | null
@@ -508,6 +518,7 @@ export type Database = {
           ab_test_config?: Json | null
           ab_test_enabled?: boolean | null
           batch_history?: Json | null
+          batch_schedule?: Json | null
           contact_list_ids?: string[] | null
           contacts_failed?: Json | null
           contacts_processed?: Json | null
@@ -517,6 +528,7 @@ export type Database = {
           daily_send_limit?: number | null
           description?: string | null
           email_account_id?: string | null
+          email_account_ids?: string[]
           email_subject?: string | null
           emails_bounced?: number | null
           emails_clicked?: number | null
@@ -659,6 +671,204 @@ export type Database = {
           },
         ]
       }
+      companies: {
+        Row: {
+          bounce_count: number
+          click_count: number
+          contact_count: number
+          created_at: string
+          domain: string
+          engaged_contact_count: number
+          engagement_score: number
+          enrichment_data: Json | null
+          enrichment_updated_at: string | null
+          id: string
+          industry: string | null
+          last_engaged_at: string | null
+          name: string | null
+          open_count: number
+          reply_count: number
+          sent_count: number
+          updated_at: string
+          user_id: string
+          website: string | null
+        }
+        Insert: {
+          bounce_count?: number
+          click_count?: number
+          contact_count?: number
+          created_at?: string
+          domain: string
+          engaged_contact_count?: number
+          engagement_score?: number
+          enrichment_data?: Json | null
+          enrichment_updated_at?: string | null
+          id?: string
+          industry?: string | null
+          last_engaged_at?: string | null
+          name?: string | null
+          open_count?: number
+          reply_count?: number
+          sent_count?: number
+          updated_at?: string
+          user_id: string
+          website?: string | null
+        }
+        Update: {
+          bounce_count?: number
+          click_count?: number
+          contact_count?: number
+          created_at?: string
+          domain?: string
+          engaged_contact_count?: number
+          engagement_score?: number
+          enrichment_data?: Json | null
+          enrichment_updated_at?: string | null
+          id?: string
+          industry?: string | null
+          last_engaged_at?: string | null
+          name?: string | null
+          open_count?: number
+          reply_count?: number
+          sent_count?: number
+          updated_at?: string
+          user_id?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      contact_history: {
+        Row: {
+          actor_id: string | null
+          actor_type: string
+          contact_id: string
+          created_at: string
+          field: string
+          group_id: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          reverts_change_id: string | null
+          source: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_type: string
+          contact_id: string
+          created_at?: string
+          field: string
+          group_id: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          reverts_change_id?: string | null
+          source: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_type?: string
+          contact_id?: string
+          created_at?: string
+          field?: string
+          group_id?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          reverts_change_id?: string | null
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      contact_import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_count: number
+          dialect: string
+          error: string | null
+          error_count: number
+          errors: Json
+          field_mappings: Json
+          file_name: string
+          format: string
+          id: string
+          options: Json
+          processed_rows: number
+          sheet_name: string | null
+          skipped_count: number
+          status: string
+          total_rows: number
+          updated_at: string
+          user_id: string
+          validation_summary: Json
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          dialect?: string
+          error?: string | null
+          error_count?: number
+          errors?: Json
+          field_mappings?: Json
+          file_name: string
+          format: string
+          id?: string
+          options?: Json
+          processed_rows?: number
+          sheet_name?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_at?: string
+          user_id: string
+          validation_summary?: Json
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          dialect?: string
+          error?: string | null
+          error_count?: number
+          errors?: Json
+          field_mappings?: Json
+          file_name?: string
+          format?: string
+          id?: string
+          options?: Json
+          processed_rows?: number
+          sheet_name?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_at?: string
+          user_id?: string
+          validation_summary?: Json
+        }
+        Relationships: []
+      }
+      contact_import_rows: {
+        Row: {
+          data: Json
+          job_id: string
+          row_number: number
+        }
+        Insert: {
+          data: Json
+          job_id: string
+          row_number: number
+        }
+        Update: {
+          data?: Json
+          job_id?: string
+          row_number?: number
+        }
+        Relationships: []
+      }
       contact_lists: {
         Row: {
           contact_ids: string[] | null
@@ -703,6 +913,105 @@ export type Database = {
           },
         ]
       }
+      contact_referrals: {
+        Row: {
+          campaign_id: string | null
+          contact_id: string
+          created_at: string
+          enrolled_at: string | null
+          id: string
+          incoming_email_id: string
+          opener: string | null
+          referrer_contact_id: string | null
+          role: string | null
+          source: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          contact_id: string
+          created_at?: string
+          enrolled_at?: string | null
+          id?: string
+          incoming_email_id: string
+          opener?: string | null
+          referrer_contact_id?: string | null
+          role?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          campaign_id?: string | null
+          contact_id?: string
+          created_at?: string
+          enrolled_at?: string | null
+          id?: string
+          incoming_email_id?: string
+          opener?: string | null
+          referrer_contact_id?: string | null
+          role?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_referrals_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_referrals_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_segment_members: {
+        Row: {
+          added_at: string
+          contact_id: string
+          segment_id: string
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          contact_id: string
+          segment_id: string
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          contact_id?: string
+          segment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_segment_members_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_segment_members_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "contact_segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_segments: {
         Row: {
           conditions: Json
@@ -710,7 +1019,10 @@ export type Database = {
           created_at: string | null
           description: string | null
           id: string
+          is_dynamic: boolean
           name: string
+          refreshed_at: string | null
+          rules: Json | null
           updated_at: string | null
           user_id: string | null
         }
@@ -720,7 +1032,10 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          is_dynamic?: boolean
           name: string
+          refreshed_at?: string | null
+          rules?: Json | null
           updated_at?: string | null
           user_id?: string | null
         }
@@ -730,7 +1045,10 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          is_dynamic?: boolean
           name?: string
+          refreshed_at?: string | null
+          rules?: Json | null
           updated_at?: string | null
           user_id?: string | null
         }
@@ -794,10 +1112,13 @@ export type Database = {
           ai_research_data: Json | null
           city: string | null
           company: string | null
+          company_id: string | null
           country: string | null
           created_at: string | null
           custom_fields: Json | null
           email: string
+          email_checked_at: string | null
+          email_verification_status: string | null
           engagement_bounce_count: number
           engagement_click_count: number
           engagement_last_positive_at: string | null
@@ -809,6 +1130,7 @@ export type Database = {
           engagement_updated_at: string | null
           auto_reply_until: string | null
           enrichment_data: Json | null
+          enrichment_field_sources: Json
           enrichment_priority: string | null
           enrichment_sources: string[] | null
           enrichment_status: string | null
@@ -820,6 +1142,9 @@ export type Database = {
           last_name: string | null
           last_opened_at: string | null
           last_replied_at: string | null
+          lead_score: number
+          lead_score_breakdown: Json | null
+          lead_score_updated_at: string | null
           linkedin_about: string | null
           linkedin_activity: Json | null
           linkedin_avatar_url: string | null
@@ -866,6 +1191,7 @@ export type Database = {
           phone: string | null
           position: string | null
           postcode: string | null
+          referred_by_contact_id: string | null
           segments: string[] | null
           sex: string | null
           source: string | null
@@ -883,10 +1209,13 @@ export type Database = {
           ai_research_data?: Json | null
           city?: string | null
           company?: string | null
+          company_id?: string | null
           country?: string | null
           created_at?: string | null
           custom_fields?: Json | null
           email: string
+          email_checked_at?: string | null
+          email_verification_status?: string | null
           engagement_bounce_count?: number
           engagement_click_count?: number
           engagement_last_positive_at?: string | null
@@ -898,6 +1227,7 @@ export type Database = {
           engagement_updated_at?: string | null
           auto_reply_until?: string | null
           enrichment_data?: Json | null
+          enrichment_field_sources?: Json
           enrichment_priority?: string | null
           enrichment_sources?: string[] | null
           enrichment_status?: string | null
@@ -909,6 +1239,9 @@ export type Database = {
           last_name?: string | null
           last_opened_at?: string | null
           last_replied_at?: string | null
+          lead_score?: number
+          lead_score_breakdown?: Json | null
+          lead_score_updated_at?: string | null
           linkedin_about?: string | null
           linkedin_activity?: Json | null
           linkedin_avatar_url?: string | null
@@ -955,6 +1288,7 @@ export type Database = {
           phone?: string | null
           position?: string | null
           postcode?: string | null
+          referred_by_contact_id?: string | null
           segments?: string[] | null
           sex?: string | null
           source?: string | null
@@ -972,10 +1306,13 @@ export type Database = {
           ai_research_data?: Json | null
           city?: string | null
           company?: string | null
+          company_id?: string | null
           country?: string | null
           created_at?: string | null
           custom_fields?: Json | null
           email?: string
+          email_checked_at?: string | null
+          email_verification_status?: string | null
           engagement_bounce_count?: number
           engagement_click_count?: number
           engagement_last_positive_at?: string | null
@@ -987,6 +1324,7 @@ export type Database = {
           engagement_updated_at?: string | null
           auto_reply_until?: string | null
           enrichment_data?: Json | null
+          enrichment_field_sources?: Json
           enrichment_priority?: string | null
           enrichment_sources?: string[] | null
           enrichment_status?: string | null
@@ -998,6 +1336,9 @@ export type Database = {
           last_name?: string | null
           last_opened_at?: string | null
           last_replied_at?: string | null
+          lead_score?: number
+          lead_score_breakdown?: Json | null
+          lead_score_updated_at?: string | null
           linkedin_about?: string | null
           linkedin_activity?: Json | null
           linkedin_avatar_url?: string | null
@@ -1044,6 +1385,7 @@ export type Database = {
           phone?: string | null
           position?: string | null
           postcode?: string | null
+          referred_by_contact_id?: string | null
           segments?: string[] | null
           sex?: string | null
           source?: string | null
@@ -1065,6 +1407,174 @@ export type Database = {
           },
         ]
       }
+      conversation_messages: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          direction: string
+          id: string
+          in_reply_to: string | null
+          message_id: string | null
+          message_references: string | null
+          sent_at: string
+          source: string
+          source_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          direction: string
+          id?: string
+          in_reply_to?: string | null
+          message_id?: string | null
+          message_references?: string | null
+          sent_at: string
+          source: string
+          source_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          direction?: string
+          id?: string
+          in_reply_to?: string | null
+          message_id?: string | null
+          message_references?: string | null
+          sent_at?: string
+          source?: string
+          source_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          assignees: string[]
+          campaign_id: string | null
+          contact_id: string | null
+          created_at: string
+          email_account_id: string | null
+          id: string
+          labels: string[]
+          last_direction: string | null
+          last_message_at: string | null
+          message_count: number
+          participants: string[]
+          snoozed_until: string | null
+          status: string
+          subject: string | null
+          subject_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assignees?: string[]
+          campaign_id?: string | null
+          contact_id?: string | null
+          created_at?: string
+          email_account_id?: string | null
+          id?: string
+          labels?: string[]
+          last_direction?: string | null
+          last_message_at?: string | null
+          message_count?: number
+          participants?: string[]
+          snoozed_until?: string | null
+          status?: string
+          subject?: string | null
+          subject_key?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assignees?: string[]
+          campaign_id?: string | null
+          contact_id?: string | null
+          created_at?: string
+          email_account_id?: string | null
+          id?: string
+          labels?: string[]
+          last_direction?: string | null
+          last_message_at?: string | null
+          message_count?: number
+          participants?: string[]
+          snoozed_until?: string | null
+          status?: string
+          subject?: string | null
+          subject_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_email_account_id_fkey"
+            columns: ["email_account_id"]
+            isOneToOne: false
+            referencedRelation: "email_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_field_definitions: {
+        Row: {
+          created_at: string
+          id: string
+          key: string
+          label: string
+          options: string[]
+          position: number
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       dns_provider_credentials: {
         Row: {
           created_at: string | null
@@ -1509,6 +2019,7 @@ export type Database = {
           bounce_reason: string | null
           bounce_type: string | null
           campaign_id: string | null
+          classifier: string
           confidence_score: number | null
           contact_id: string | null
           created_at: string | null
@@ -1535,6 +2046,7 @@ export type Database = {
           bounce_reason?: string | null
           bounce_type?: string | null
           campaign_id?: string | null
+          classifier?: string
           confidence_score?: number | null
           contact_id?: string | null
           created_at?: string | null
@@ -1561,6 +2073,7 @@ export type Database = {
           bounce_reason?: string | null
           bounce_type?: string | null
           campaign_id?: string | null
+          classifier?: string
           confidence_score?: number | null
           contact_id?: string | null
           created_at?: string | null
@@ -1725,6 +2238,7 @@ export type Database = {
       }
       email_tracking: {
         Row: {
+          ab_test_variant: string | null
           bounce_reason: string | null
           bounce_type: string | null
           bounced_at: string | null
@@ -1739,24 +2253,28 @@ export type Database = {
           email_body: string | null
           first_clicked_at: string | null
           first_opened_at: string | null
+          header_message_id: string | null
           id: string
           last_clicked_at: string | null
           last_opened_at: string | null
           message_id: string
           open_count: number | null
           opened_at: string | null
+          provider_thread_id: string | null
           replied_at: string | null
           sent_at: string | null
           sequence_id: string | null
           status: string | null
           subject_line: string | null
           thread_id: string | null
+          thread_references: string | null
           tracking_pixel_id: string | null
           unsubscribed_at: string | null
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          ab_test_variant?: string | null
           bounce_reason?: string | null
           bounce_type?: string | null
           bounced_at?: string | null
@@ -1771,24 +2289,28 @@ export type Database = {
           email_body?: string | null
           first_clicked_at?: string | null
           first_opened_at?: string | null
+          header_message_id?: string | null
           id?: string
           last_clicked_at?: string | null
           last_opened_at?: string | null
           message_id: string
           open_count?: number | null
           opened_at?: string | null
+          provider_thread_id?: string | null
           replied_at?: string | null
           sent_at?: string | null
           sequence_id?: string | null
           status?: string | null
           subject_line?: string | null
           thread_id?: string | null
+          thread_references?: string | null
           tracking_pixel_id?: string | null
           unsubscribed_at?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          ab_test_variant?: string | null
           bounce_reason?: string | null
           bounce_type?: string | null
           bounced_at?: string | null
@@ -1803,18 +2325,21 @@ export type Database = {
           email_body?: string | null
           first_clicked_at?: string | null
           first_opened_at?: string | null
+          header_message_id?: string | null
           id?: string
           last_clicked_at?: string | null
           last_opened_at?: string | null
           message_id?: string
           open_count?: number | null
           opened_at?: string | null
+          provider_thread_id?: string | null
           replied_at?: string | null
           sent_at?: string | null
           sequence_id?: string | null
           status?: string | null
           subject_line?: string | null
           thread_id?: string | null
+          thread_references?: string | null
           tracking_pixel_id?: string | null
           unsubscribed_at?: string | null
           updated_at?: string | null
@@ -1865,6 +2390,45 @@ export type Database = {
           },
         ]
       }
+      enrichment_provider_calls: {
+        Row: {
+          contact_id: string | null
+          cost_usd: number
+          created_at: string
+          duration_ms: number
+          error: string | null
+          fields: Json
+          id: string
+          provider: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          contact_id?: string | null
+          cost_usd?: number
+          created_at?: string
+          duration_ms?: number
+          error?: string | null
+          fields?: Json
+          id?: string
+          provider: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string | null
+          cost_usd?: number
+          created_at?: string
+          duration_ms?: number
+          error?: string | null
+          fields?: Json
+          id?: string
+          provider?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       imap_connections: {
         Row: {
           consecutive_failures: number | null
@@ -1934,6 +2498,94 @@ export type Database = {
           },
         ]
       }
+      follow_up_reminders: {
+        Row: {
+          agent_id: string | null
+          conversation_id: string | null
+          created_at: string
+          draft_nudge: boolean
+          email_account_id: string
+          fired_at: string | null
+          id: string
+          message_id: string | null
+          nudge_body: string | null
+          nudge_subject: string | null
+          outgoing_email_id: string | null
+          recipient_email: string
+          remind_after_days: number
+          remind_at: string
+          sent_at: string
+          status: string
+          subject: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          draft_nudge?: boolean
+          email_account_id: string
+          fired_at?: string | null
+          id?: string
+          message_id?: string | null
+          nudge_body?: string | null
+          nudge_subject?: string | null
+          outgoing_email_id?: string | null
+          recipient_email: string
+          remind_after_days: number
+          remind_at: string
+          sent_at: string
+          status?: string
+          subject?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          draft_nudge?: boolean
+          email_account_id?: string
+          fired_at?: string | null
+          id?: string
+          message_id?: string | null
+          nudge_body?: string | null
+          nudge_subject?: string | null
+          outgoing_email_id?: string | null
+          recipient_email?: string
+          remind_after_days?: number
+          remind_at?: string
+          sent_at?: string
+          status?: string
+          subject?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_reminders_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_reminders_email_account_id_fkey"
+            columns: ["email_account_id"]
+            isOneToOne: false
+            referencedRelation: "email_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_reminders_outgoing_email_id_fkey"
+            columns: ["outgoing_email_id"]
+            isOneToOne: false
+            referencedRelation: "outgoing_emails"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       incoming_emails: {
         Row: {
           archived_at: string | null
@@ -1942,6 +2594,7 @@ export type Database = {
           cc_addresses: string[] | null
           classification_confidence: number | null
           classification_status: string | null
+          contact_id: string | null
           created_at: string | null
           date_received: string
           email_account_id: string
@@ -1972,6 +2625,7 @@ export type Database = {
           cc_addresses?: string[] | null
           classification_confidence?: number | null
           classification_status?: string | null
+          contact_id?: string | null
           created_at?: string | null
           date_received: string
           email_account_id: string
@@ -1990,54 +2644,249 @@ export type Database = {
           raw_email?: string | null
           subject?: string | null
           text_content?: string | null
-          thread_id?: string | null
-          to_address: string
+          thread_id?: string | null
+          to_address: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          attachments?: Json | null
+          bcc_addresses?: string[] | null
+          cc_addresses?: string[] | null
+          classification_confidence?: number | null
+          classification_status?: string | null
+          contact_id?: string | null
+          created_at?: string | null
+          date_received?: string
+          email_account_id?: string
+          email_references?: string | null
+          email_size?: number | null
+          flags?: string[] | null
+          from_address?: string
+          html_content?: string | null
+          id?: string
+          imap_uid?: number | null
+          in_reply_to?: string | null
+          message_id?: string
+          processed_at?: string | null
+          processing_errors?: string[] | null
+          processing_status?: string | null
+          raw_email?: string | null
+          subject?: string | null
+          text_content?: string | null
+          thread_id?: string | null
+          to_address?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incoming_emails_email_account_id_fkey"
+            columns: ["email_account_id"]
+            isOneToOne: false
+            referencedRelation: "email_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incoming_emails_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_queue: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          priority: number
+          queue: string
+          run_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          priority?: number
+          queue: string
+          run_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          priority?: number
+          queue?: string
+          run_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_scoring_models: {
+        Row: {
+          created_at: string
+          model: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          model: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          model?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ooo_postponements: {
+        Row: {
+          auto_reply_until: string
+          campaign_id: string
+          contact_id: string
+          created_at: string
+          email_job_id: string | null
+          id: string
+          postponed_until: string
+          stage: string
+          user_id: string
+        }
+        Insert: {
+          auto_reply_until: string
+          campaign_id: string
+          contact_id: string
+          created_at?: string
+          email_job_id?: string | null
+          id?: string
+          postponed_until: string
+          stage: string
+          user_id: string
+        }
+        Update: {
+          auto_reply_until?: string
+          campaign_id?: string
+          contact_id?: string
+          created_at?: string
+          email_job_id?: string | null
+          id?: string
+          postponed_until?: string
+          stage?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ooo_postponements_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outgoing_emails: {
+        Row: {
+          archived_at: string | null
+          bcc_address: string | null
+          cc_address: string | null
+          contact_id: string | null
+          created_at: string | null
+          date_sent: string
+          email_account_id: string
+          from_address: string
+          html_content: string | null
+          id: string
+          imap_uid: number | null
+          message_id: string
+          subject: string | null
+          text_content: string | null
+          to_address: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          bcc_address?: string | null
+          cc_address?: string | null
+          contact_id?: string | null
+          created_at?: string | null
+          date_sent: string
+          email_account_id: string
+          from_address: string
+          html_content?: string | null
+          id?: string
+          imap_uid?: number | null
+          message_id: string
+          subject?: string | null
+          text_content?: string | null
+          to_address?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           archived_at?: string | null
-          attachments?: Json | null
-          bcc_addresses?: string[] | null
-          cc_addresses?: string[] | null
-          classification_confidence?: number | null
-          classification_status?: string | null
+          bcc_address?: string | null
+          cc_address?: string | null
+          contact_id?: string | null
           created_at?: string | null
-          date_received?: string
+          date_sent?: string
           email_account_id?: string
-          email_references?: string | null
-          email_size?: number | null
-          flags?: string[] | null
           from_address?: string
           html_content?: string | null
           id?: string
           imap_uid?: number | null
-          in_reply_to?: string | null
           message_id?: string
-          processed_at?: string | null
-          processing_errors?: string[] | null
-          processing_status?: string | null
-          raw_email?: string | null
           subject?: string | null
           text_content?: string | null
-          thread_id?: string | null
-          to_address?: string
+          to_address?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "incoming_emails_email_account_id_fkey"
-            columns: ["email_account_id"]
+            foreignKeyName: "outgoing_emails_contact_id_fkey"
+            columns: ["contact_id"]
             isOneToOne: false
-            referencedRelation: "email_accounts"
+            referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "incoming_emails_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "outgoing_emails_email_account_id_fkey"
+            columns: ["email_account_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "email_accounts"
             referencedColumns: ["id"]
           },
         ]
@@ -2200,6 +3049,293 @@ export type Database = {
         },
       ]
     }
+      recipient_domain_send_counts: {
+        Row: {
+          domain: string
+          hour_start: string
+          sent_count: number
+          user_id: string
+        }
+        Insert: {
+          domain: string
+          hour_start: string
+          sent_count?: number
+          user_id: string
+        }
+        Update: {
+          domain?: string
+          hour_start?: string
+          sent_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reply_classification_feedback: {
+        Row: {
+          classifier: string
+          corrected_label: string
+          created_at: string
+          excerpt: string
+          id: string
+          incoming_email_id: string
+          predicted_confidence: number | null
+          predicted_label: string
+          subject: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          classifier?: string
+          corrected_label: string
+          created_at?: string
+          excerpt?: string
+          id?: string
+          incoming_email_id: string
+          predicted_confidence?: number | null
+          predicted_label: string
+          subject?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          classifier?: string
+          corrected_label?: string
+          created_at?: string
+          excerpt?: string
+          id?: string
+          incoming_email_id?: string
+          predicted_confidence?: number | null
+          predicted_label?: string
+          subject?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reply_classification_feedback_incoming_email_id_fkey"
+            columns: ["incoming_email_id"]
+            isOneToOne: true
+            referencedRelation: "incoming_emails"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reply_jobs: {
+        Row: {
+          agent_id: string
+          audit_log: Json | null
+          confidence_score: number | null
+          contact_id: string | null
+          created_at: string | null
+          draft_body: string
+          draft_subject: string
+          editable_until: string | null
+          email_account_id: string
+          error_message: string | null
+          id: string
+          incoming_email_id: string | null
+          last_editor_id: string | null
+          message_ref: string | null
+          proposed_send_at: string | null
+          rationale: string | null
+          retry_count: number | null
+          risk_flags: Json | null
+          risk_score: number | null
+          scheduled_at: string
+          sent_at: string | null
+          status: string
+          thread_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          audit_log?: Json | null
+          confidence_score?: number | null
+          contact_id?: string | null
+          created_at?: string | null
+          draft_body: string
+          draft_subject: string
+          editable_until?: string | null
+          email_account_id: string
+          error_message?: string | null
+          id?: string
+          incoming_email_id?: string | null
+          last_editor_id?: string | null
+          message_ref?: string | null
+          proposed_send_at?: string | null
+          rationale?: string | null
+          retry_count?: number | null
+          risk_flags?: Json | null
+          risk_score?: number | null
+          scheduled_at: string
+          sent_at?: string | null
+          status?: string
+          thread_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          audit_log?: Json | null
+          confidence_score?: number | null
+          contact_id?: string | null
+          created_at?: string | null
+          draft_body?: string
+          draft_subject?: string
+          editable_until?: string | null
+          email_account_id?: string
+          error_message?: string | null
+          id?: string
+          incoming_email_id?: string | null
+          last_editor_id?: string | null
+          message_ref?: string | null
+          proposed_send_at?: string | null
+          rationale?: string | null
+          retry_count?: number | null
+          risk_flags?: Json | null
+          risk_score?: number | null
+          scheduled_at?: string
+          sent_at?: string | null
+          status?: string
+          thread_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reply_jobs_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reply_jobs_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reply_jobs_email_account_id_fkey"
+            columns: ["email_account_id"]
+            isOneToOne: false
+            referencedRelation: "email_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reply_jobs_incoming_email_id_fkey"
+            columns: ["incoming_email_id"]
+            isOneToOne: false
+            referencedRelation: "incoming_emails"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reply_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reputation_scores: {
+        Row: {
+          alerts: Json
+          domain: string
+          factors: Json
+          ip_address: string | null
+          last_updated: string
+          overall_score: number
+          recommendations: Json
+          status: string
+        }
+        Insert: {
+          alerts?: Json
+          domain: string
+          factors?: Json
+          ip_address?: string | null
+          last_updated?: string
+          overall_score: number
+          recommendations?: Json
+          status: string
+        }
+        Update: {
+          alerts?: Json
+          domain?: string
+          factors?: Json
+          ip_address?: string | null
+          last_updated?: string
+          overall_score?: number
+          recommendations?: Json
+          status?: string
+        }
+        Relationships: []
+      }
+      segment_dirty_contacts: {
+        Row: {
+          contact_id: string
+          marked_at: string
+          user_id: string
+        }
+        Insert: {
+          contact_id: string
+          marked_at?: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string
+          marked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      send_deferrals: {
+        Row: {
+          campaign_id: string
+          contact_id: string
+          created_at: string
+          deferral_count: number
+          deferred_until: string
+          email_job_id: string | null
+          id: string
+          limit_window: string
+          reason: string
+          recipient_domain: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          campaign_id: string
+          contact_id: string
+          created_at?: string
+          deferral_count?: number
+          deferred_until: string
+          email_job_id?: string | null
+          id?: string
+          limit_window: string
+          reason: string
+          recipient_domain: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          campaign_id?: string
+          contact_id?: string
+          created_at?: string
+          deferral_count?: number
+          deferred_until?: string
+          email_job_id?: string | null
+          id?: string
+          limit_window?: string
+          reason?: string
+          recipient_domain?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       sequence_enrollments: {
         Row: {
           completed_at: string | null
@@ -2296,6 +3432,7 @@ export type Database = {
           next_campaign_id: string
           parent_campaign_id: string | null
           persona_override_id: string | null
+          priority: number
           sequence_id: string
           updated_at: string | null
         }
@@ -2316,6 +3453,7 @@ export type Database = {
           next_campaign_id: string
           parent_campaign_id?: string | null
           persona_override_id?: string | null
+          priority?: number
           sequence_id: string
           updated_at?: string | null
         }
@@ -2336,6 +3474,7 @@ export type Database = {
           next_campaign_id?: string
           parent_campaign_id?: string | null
           persona_override_id?: string | null
+          priority?: number
           sequence_id?: string
           updated_at?: string | null
         }
@@ -2375,6 +3514,7 @@ export type Database = {
           created_at: string | null
           description: string | null
           entry_campaign_id: string | null
+          graph_layout: Json
           id: string
           name: string
           status: string
@@ -2385,6 +3525,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           entry_campaign_id?: string | null
+          graph_layout?: Json
           id?: string
           name: string
           status?: string
@@ -2395,6 +3536,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           entry_campaign_id?: string | null
+          graph_layout?: Json
           id?: string
           name?: string
           status?: string
@@ -2448,6 +3590,36 @@ export type Database = {
         }
         Relationships: []
       }
+      suppression_list: {
+        Row: {
+          created_at: string
+          domain: string | null
+          email: string | null
+          id: string
+          reason: string | null
+          source: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          domain?: string | null
+          email?: string | null
+          id?: string
+          reason?: string | null
+          source?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string | null
+          email?: string | null
+          id?: string
+          reason?: string | null
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       tags: {
         Row: {
           color: string | null
@@ -2615,14 +3787,125 @@ export type Database = {
       }
     }
     Functions: {
+      append_campaign_batch: {
+        Args: { p_batch: Json; p_campaign_id: string }
+        Returns: number
+      }
+      claim_queue_jobs: {
+        Args: {
+          p_limit?: number
+          p_queue: string
+          p_visibility_timeout_seconds?: number
+          p_worker_id: string
+        }
+        Returns: Database["public"]["Tables"]["job_queue"]["Row"][]
+      }
+      extend_queue_job_lease: {
+        Args: {
+          p_job_id: string
+          p_visibility_timeout_seconds?: number
+          p_worker_id: string
+        }
+        Returns: boolean
+      }
+      merge_contacts: {
+        Args: {
+          p_duplicate_ids: string[]
+          p_primary_id: string
+          p_updates?: Json
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      process_segment_dirty_contacts: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      promote_ab_test_winner: {
+        Args: { p_campaign_id: string; p_winner_variant_id: string }
+        Returns: number
+      }
+      refresh_company_stats: {
+        Args: {
+          p_company_id: string
+        }
+        Returns: undefined
+      }
+      refresh_segment_members: {
+        Args: {
+          p_contact_ids?: string[]
+          p_segment_id: string
+        }
+        Returns: number
+      }
+      release_recipient_domain_send: {
+        Args: {
+          p_domain: string
+          p_reserved_at?: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      reserve_enrichment_provider_call: {
+        Args: {
+          p_contact_id: string
+          p_max_calls: number
+          p_provider: string
+          p_user_id: string
+          p_window_seconds: number
+        }
+        Returns: string | null
+      }
+      reserve_recipient_domain_send: {
+        Args: {
+          p_daily_limit?: number | null
+          p_domain: string
+          p_hourly_limit?: number | null
+          p_user_id: string
+        }
+        Returns: string | null
+      }
       reset_daily_email_counters: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      save_sequence_graph: {
+        Args: {
+          p_entry_campaign_id: string | null
+          p_layout: Json
+          p_links: Json
+          p_sequence_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      segment_matching_contacts: {
+        Args: {
+          p_contact_ids?: string[]
+          p_rules: Json
+          p_user_id: string
+        }
+        Returns: {
+          contact_id: string
+        }[]
+      }
       sync_legacy_tags: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      unassigned_conversation_messages: {
+        Args: {
+          p_limit?: number
+          p_since: string
+          p_user_id: string
+        }
+        Returns: {
+          source: string
+          source_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
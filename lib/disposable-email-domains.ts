@@ -0,0 +1,122 @@
+/**
+ * Disposable / temporary mailbox providers.
+ *
+ * Keep the list sorted and lowercase. Subdomains of a listed domain are treated
+ * as disposable too (e.g. `abc.mailinator.com`). Additional domains can be
+ * supplied at runtime through `EMAIL_VALIDATION_DISPOSABLE_DOMAINS`
+ * (comma separated).
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: readonly string[] = [
+  '0-mail.com',
+  '10minutemail.co.uk',
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'anonymbox.com',
+  'armyspy.com',
+  'burnermail.io',
+  'byom.de',
+  'cuvox.de',
+  'dayrep.com',
+  'deadaddress.com',
+  'discard.email',
+  'discardmail.com',
+  'discardmail.de',
+  'dispostable.com',
+  'dodgit.com',
+  'dropmail.me',
+  'einrot.com',
+  'emailondeck.com',
+  'emailtemporanea.com',
+  'fakeinbox.com',
+  'fakemail.net',
+  'fleckens.hu',
+  'getairmail.com',
+  'getnada.com',
+  'gishpuppy.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'gustr.com',
+  'harakirimail.com',
+  'hmamail.com',
+  'incognitomail.org',
+  'inboxbear.com',
+  'jetable.org',
+  'jourrapide.com',
+  'kasmail.com',
+  'mail-temp.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailexpire.com',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailnull.com',
+  'mailsac.com',
+  'mailtemp.net',
+  'mintemail.com',
+  'mohmal.com',
+  'moakt.com',
+  'mt2015.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'no-spam.ws',
+  'nowmymail.com',
+  'onewaymail.com',
+  'pokemail.net',
+  'rhyta.com',
+  'sharklasers.com',
+  'shieldemail.com',
+  'sneakemail.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamex.com',
+  'spamgourmet.com',
+  'spamherelots.com',
+  'spaml.de',
+  'superrito.com',
+  'teleworm.us',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempemail.net',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.de',
+  'tempmail.dev',
+  'tempmail.net',
+  'tempmail.org',
+  'tempmailaddress.com',
+  'tempmailo.com',
+  'tempr.email',
+  'throwam.com',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.me',
+  'trashmail.net',
+  'trbvm.com',
+  'wegwerfemail.de',
+  'wegwerfmail.de',
+  'wegwerfmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+]
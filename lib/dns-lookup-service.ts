@@ -218,6 +218,28 @@ export class DNSLookupService {
     }
   }
 
+  /**
+   * Lookup MX records for a domain, ordered by priority (lowest first).
+   * Returns an empty list when the domain has no MX records or does not exist.
+   */
+  static async lookupMX(domain: string): Promise<Array<{ exchange: string; priority: number }>> {
+    try {
+      const records = await Promise.race([
+        dns.resolveMx(domain),
+        this.timeoutPromise(this.DEFAULT_TIMEOUT)
+      ])
+
+      return records
+        .filter(record => record.exchange)
+        .sort((a, b) => a.priority - b.priority)
+    } catch (error: any) {
+      if (error?.code === 'ENOTFOUND' || error?.code === 'ENODATA') {
+        return []
+      }
+      throw new Error(`Failed to lookup MX records for ${domain}: ${this.getDNSErrorMessage(error)}`)
+    }
+  }
+
   /**
    * Lookup TXT records with retry logic
    */
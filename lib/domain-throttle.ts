@@ -0,0 +1,214 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { getEmailDomain } from './suppression'
+
+/**
+ * Per-recipient-domain send caps.
+ *
+ * Sends are counted per user and recipient domain (gmail.com, acme.com, ...) in
+ * hourly buckets shared by all campaigns. A campaign's RateLimitSettings decide
+ * how many emails a domain may receive per day (domain_limit) and per hour
+ * (domain_hourly_limit). Sends over a cap are deferred to the start of the next
+ * window while other domains keep flowing.
+ */
+
+type Supabase = SupabaseClient<Database>
+
+export type DomainLimitWindow = 'hour' | 'day'
+
+export type SendDeferral = Tables<'send_deferrals'>
+
+export interface DomainCaps {
+  hourlyLimit: number | null
+  dailyLimit: number | null
+}
+
+export interface DomainDeferral {
+  domain: string
+  window: DomainLimitWindow
+  reason: string
+  deferredUntil: Date
+}
+
+export interface DomainThrottleSettings {
+  send_settings?: { rate_limiting?: { domain_limit?: number | null; domain_hourly_limit?: number | null } } | null
+  schedule_settings?: { rate_limiting?: { domain_limit?: number | null; domain_hourly_limit?: number | null } } | null
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+function toCap(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : null
+}
+
+/**
+ * Caps from the campaign's rate limiting settings; a missing or zero value means no cap
+ */
+export function resolveDomainCaps(campaign: DomainThrottleSettings): DomainCaps {
+  const rateLimiting = (campaign.send_settings || campaign.schedule_settings)?.rate_limiting
+  return {
+    hourlyLimit: toCap(rateLimiting?.domain_hourly_limit),
+    dailyLimit: toCap(rateLimiting?.domain_limit),
+  }
+}
+
+export function hasDomainCaps(caps: DomainCaps): boolean {
+  return caps.hourlyLimit !== null || caps.dailyLimit !== null
+}
+
+export function startOfUtcHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS)
+}
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Deferral for a capped domain: retry at the start of the next hour or the next UTC day
+ */
+export function buildDomainDeferral(
+  domain: string,
+  window: DomainLimitWindow,
+  caps: DomainCaps,
+  now: Date = new Date(),
+): DomainDeferral {
+  const deferredUntil = window === 'hour'
+    ? new Date(startOfUtcHour(now).getTime() + HOUR_MS)
+    : new Date(startOfUtcDay(now).getTime() + 24 * HOUR_MS)
+
+  const limit = window === 'hour' ? caps.hourlyLimit : caps.dailyLimit
+  const reason = window === 'hour'
+    ? `Hourly limit of ${limit} emails to ${domain} reached`
+    : `Daily limit of ${limit} emails to ${domain} reached`
+
+  return { domain, window, reason, deferredUntil }
+}
+
+/**
+ * Earliest time any of the deferred sends can go out
+ */
+export function getEarliestDeferral(deferrals: Pick<DomainDeferral, 'deferredUntil'>[]): Date | null {
+  if (deferrals.length === 0) return null
+  return new Date(Math.min(...deferrals.map(deferral => deferral.deferredUntil.getTime())))
+}
+
+/**
+ * Count one send to the recipient's domain, or return the deferral when a cap is reached.
+ * Fails open: a counting error is logged and the send goes ahead.
+ */
+export async function reserveDomainSend(
+  supabase: Supabase,
+  userId: string,
+  recipient: string,
+  caps: DomainCaps,
+): Promise<DomainDeferral | null> {
+  const domain = getEmailDomain(recipient)
+  if (!domain || !hasDomainCaps(caps)) return null
+
+  const { data, error } = await supabase.rpc('reserve_recipient_domain_send', {
+    p_user_id: userId,
+    p_domain: domain,
+    p_hourly_limit: caps.hourlyLimit,
+    p_daily_limit: caps.dailyLimit,
+  })
+
+  if (error) {
+    console.warn(`⚠️ Failed to check domain limit for ${domain}, sending anyway:`, error)
+    return null
+  }
+
+  if (data === 'hour' || data === 'day') {
+    return buildDomainDeferral(domain, data, caps)
+  }
+
+  return null
+}
+
+/**
+ * Give back a send counted by reserveDomainSend when the email did not go out.
+ * `reservedAt` selects the hourly bucket the reservation was counted in.
+ */
+export async function releaseDomainSend(
+  supabase: Supabase,
+  userId: string,
+  recipient: string,
+  caps: DomainCaps,
+  reservedAt: Date,
+): Promise<void> {
+  const domain = getEmailDomain(recipient)
+  if (!domain || !hasDomainCaps(caps)) return
+
+  const { error } = await supabase.rpc('release_recipient_domain_send', {
+    p_user_id: userId,
+    p_domain: domain,
+    p_reserved_at: reservedAt.toISOString(),
+  })
+
+  if (error) {
+    console.warn(`⚠️ Failed to release domain send reservation for ${domain}:`, error)
+  }
+}
+
+/**
+ * Remember why a contact's send was postponed (shown in the campaign's email details)
+ */
+export async function recordSendDeferral(
+  supabase: Supabase,
+  params: { userId: string; campaignId: string; contactId: string; emailJobId?: string; deferral: DomainDeferral },
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from('send_deferrals')
+    .select('deferral_count')
+    .eq('campaign_id', params.campaignId)
+    .eq('contact_id', params.contactId)
+    .maybeSingle()
+
+  const { error } = await supabase
+    .from('send_deferrals')
+    .upsert({
+      user_id: params.userId,
+      campaign_id: params.campaignId,
+      contact_id: params.contactId,
+      email_job_id: params.emailJobId || null,
+      recipient_domain: params.deferral.domain,
+      limit_window: params.deferral.window,
+      reason: params.deferral.reason,
+      deferred_until: params.deferral.deferredUntil.toISOString(),
+      deferral_count: (existing?.deferral_count || 0) + 1,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'campaign_id,contact_id' })
+
+  if (error) {
+    console.warn(`⚠️ Failed to record send deferral for contact ${params.contactId}:`, error)
+  }
+}
+
+/**
+ * Drop the deferral once the contact was emailed
+ */
+export async function clearSendDeferral(supabase: Supabase, campaignId: string, contactId: string): Promise<void> {
+  const { error } = await supabase
+    .from('send_deferrals')
+    .delete()
+    .eq('campaign_id', campaignId)
+    .eq('contact_id', contactId)
+
+  if (error) {
+    console.warn(`⚠️ Failed to clear send deferral for contact ${contactId}:`, error)
+  }
+}
+
+export async function listSendDeferrals(supabase: Supabase, campaignId: string): Promise<SendDeferral[]> {
+  const { data, error } = await supabase
+    .from('send_deferrals')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('deferred_until', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load send deferrals: ${error.message}`)
+  }
+
+  return data || []
+}
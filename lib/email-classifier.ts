@@ -15,6 +15,139 @@ export interface EmailClassificationResult {
     forwardedTo?: string
   }
   requiresHumanReview: boolean
+  /** Set by classifiers other than the pattern matcher, stored as email_replies.classifier */
+  classifier?: string
+}
+
+/**
+ * Intents of human replies, from most to least actionable. wrong_person covers
+ * referrals to a colleague as well as plain "I'm not the right contact".
+ */
+export const REPLY_INTENTS = [
+  'meeting_request',
+  'interested',
+  'objection_pricing',
+  'competitor',
+  'wrong_person',
+  'not_now',
+  'question',
+  'not_interested',
+  'unknown',
+] as const
+
+export type ReplyIntent = typeof REPLY_INTENTS[number]
+
+export const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+  meeting_request: 'Meeting request',
+  interested: 'Interested',
+  objection_pricing: 'Pricing objection',
+  competitor: 'Uses a competitor',
+  wrong_person: 'Wrong person / referral',
+  not_now: 'Not now',
+  question: 'Question',
+  not_interested: 'Not interested',
+  unknown: 'Other reply',
+}
+
+/**
+ * One label per email for reclassification and accuracy: the intent for
+ * human replies, the email type otherwise.
+ */
+export const REPLY_LABELS = ['bounce', 'auto_reply', 'unsubscribe', 'spam', ...REPLY_INTENTS] as const
+
+export type ReplyLabel = typeof REPLY_LABELS[number]
+
+export const REPLY_LABEL_NAMES: Record<ReplyLabel, string> = {
+  bounce: 'Bounce',
+  auto_reply: 'Auto-reply',
+  unsubscribe: 'Unsubscribe',
+  spam: 'Spam',
+  ...REPLY_INTENT_LABELS,
+}
+
+export function classificationLabel(type: string, intent?: string | null): ReplyLabel | null {
+  if (type === 'human_reply') {
+    return (REPLY_INTENTS as readonly string[]).includes(intent || '') ? intent as ReplyIntent : 'unknown'
+  }
+  return (REPLY_LABELS as readonly string[]).includes(type) ? type as ReplyLabel : null
+}
+
+export function labelClassification(label: ReplyLabel): { type: EmailClassificationResult['type']; intent: ReplyIntent | null } {
+  return (REPLY_INTENTS as readonly string[]).includes(label)
+    ? { type: 'human_reply', intent: label as ReplyIntent }
+    : { type: label as Exclude<ReplyLabel, ReplyIntent>, intent: null }
+}
+
+/** Intents that need a human answer rather than a sequence step */
+const REVIEW_INTENTS: string[] = ['meeting_request', 'interested', 'objection_pricing', 'competitor', 'wrong_person', 'question']
+
+/**
+ * Ordered intent patterns (English and German). The first match wins, so the
+ * specific intents come before the generic interested/not interested ones:
+ * "not interested right now" is not_now, "send me your pricing" is interested
+ * but "too expensive" is a pricing objection.
+ */
+const INTENT_PATTERNS: Array<{ intent: ReplyIntent; pattern: RegExp }> = [
+  {
+    intent: 'wrong_person',
+    pattern: /wrong person|not the right (person|contact)|no longer (with|at|work)|(have|has) left the company|(reach|contact|speak to|talk to|try) my colleague|(you should|better to|please) (contact|reach out to|speak (to|with))|in charge of (this|that)|responsible for (this|that)|falsche(r)? ansprechpart|nicht (der|die) richtige|nicht mehr (im unternehmen|bei uns|für)|zuständig (ist|sind|wäre)|wenden sie sich (bitte )?an/i,
+  },
+  {
+    intent: 'meeting_request',
+    pattern: /(schedule|book|set up|arrange) (a |an )?(call|meeting|demo|time)|(are|is) you (free|available)|how about (monday|tuesday|wednesday|thursday|friday|next week|tomorrow)|send (me )?(a |an )?(calendar )?invite|calendly|let'?s (talk|meet|chat|jump on)|termin (vereinbaren|vorschlagen|machen)|telefonat|lassen sie uns (telefonieren|sprechen)|haben sie zeit/i,
+  },
+  {
+    intent: 'not_now',
+    pattern: /not (right )?now|not at the moment|not at this time|maybe (later|next (quarter|year|month))|(reach|check|circle) back (in|next|later)|(come|get) back to (me|us) (in|next|later)|next (quarter|year)|no budget (this|until)|too busy|bad timing|derzeit nicht|momentan nicht|aktuell nicht|im moment nicht|später (noch ?mal|wieder)|nächste(s|n)? (jahr|quartal)/i,
+  },
+  {
+    intent: 'objection_pricing',
+    pattern: /too expensive|(price|pricing|cost) is too high|can'?t afford|out of (our|my) (budget|price range)|cheaper|discount|(no|not enough) budget|zu teuer|preis (ist )?zu hoch|kein budget|günstiger|rabatt/i,
+  },
+  {
+    intent: 'competitor',
+    pattern: /(already|currently) (use|using|work with|working with|have)|(we'?re|we are) (happy|satisfied) with (our|the) (current|existing)|existing (provider|vendor|solution)|under contract with|nutzen (bereits|schon)|arbeiten (bereits|schon) mit|haben (bereits|schon) (einen|eine|ein) (anbieter|lösung|dienstleister)|zufrieden mit unserem/i,
+  },
+  {
+    intent: 'not_interested',
+    pattern: /not interested|no thank|no, thank|don'?t contact|do not contact|remove me|kein interesse|nicht interessiert|bitte keine (weiteren )?(e-?mails|nachrichten)/i,
+  },
+  {
+    intent: 'interested',
+    pattern: /interested|tell me more|sounds (good|great|interesting)|send (me )?(more )?(info|information|details|pricing)|would like to (learn|know|hear)|klingt (gut|interessant)|interessiert|mehr (infos|informationen)|gerne mehr/i,
+  },
+  {
+    intent: 'question',
+    pattern: /\?|question|clarify|how (does|do|much)|what (is|are|does)|frage|wie (funktioniert|viel)|was kostet/i,
+  },
+]
+
+/**
+ * The new part of a reply: drops quoted lines and everything from the quote
+ * header of the original message on ("On … wrote:", "Am … schrieb", Outlook's
+ * original-message separator), so words from our own pitch do not count.
+ */
+export function stripQuotedText(content: string): string {
+  const header = content.search(/^\s*(on .+wrote:|am .+schrieb .+:|-{2,}\s*(original message|ursprüngliche nachricht)\s*-{2,}|(from|von):\s.+)$/im)
+  const reply = header > 0 ? content.slice(0, header) : content
+  return reply
+    .split('\n')
+    .filter(line => !line.trim().startsWith('>'))
+    .join('\n')
+    .trim()
+}
+
+/**
+ * A reply classifier. EmailClassifier (pattern matching) is the default;
+ * lib/reply-classifier.ts adds one backed by an LLM.
+ */
+export interface ReplyClassifier {
+  classifyEmail(email: IncomingEmail): Promise<EmailClassificationResult>
+}
+
+/** Whether a human reply with this sentiment and intent should be answered by a person */
+export function replyRequiresHumanReview(sentiment: string | undefined, intent: string | undefined): boolean {
+  return sentiment === 'positive' || REVIEW_INTENTS.includes(intent || '')
 }
 
 export interface IncomingEmail {
@@ -33,8 +166,8 @@ export interface IncomingEmail {
 /**
  * Email classification service using pattern matching and heuristics
  */
-export class EmailClassifier {
-  
+export class EmailClassifier implements ReplyClassifier {
+
   /**
    * Classify an incoming email
    */
@@ -468,7 +601,7 @@ export class EmailClassifier {
       sentiment,
       intent,
       keywords: this.extractKeywords(content, ['interested', 'schedule', 'call', 'meeting']),
-      requiresHumanReview: sentiment === 'positive' || intent === 'interested'
+      requiresHumanReview: replyRequiresHumanReview(sentiment, intent)
     }
   }
 
@@ -498,20 +631,10 @@ export class EmailClassifier {
   /**
    * Analyze intent of email content
    */
-  private analyzeIntent(content: string): string {
-    if (/interested|tell me more|schedule|meeting/i.test(content)) {
-      return 'interested'
-    }
-    
-    if (/not interested|no thank|remove/i.test(content)) {
-      return 'not_interested'
-    }
-    
-    if (/question|help|clarify/i.test(content)) {
-      return 'question'
-    }
-    
-    return 'unknown'
+  private analyzeIntent(content: string): ReplyIntent {
+    const reply = stripQuotedText(content)
+    const match = INTENT_PATTERNS.find(({ pattern }) => pattern.test(reply))
+    return match ? match.intent : 'unknown'
   }
 
   /**
@@ -613,4 +736,4 @@ export class EmailClassifier {
 }
 
 // Export singleton instance
-export const emailClassifier = new EmailClassifier()
\ No newline at end of file
+export const emailClassifier = new EmailClassifier()
@@ -0,0 +1,142 @@
+/**
+ * Thread continuity for follow-up steps.
+ *
+ * A step sent "in the same thread" replies to the previous message of the sequence:
+ * it carries In-Reply-To / References headers, reuses the "Re:" subject and, for
+ * Gmail, the provider thread id. Message IDs come from email_tracking and, for
+ * emails sent before header_message_id existed, from the synced outgoing_emails.
+ */
+
+export interface ThreadHeaders {
+  inReplyTo: string
+  references: string
+  providerThreadId?: string | null
+}
+
+export interface ThreadContext extends ThreadHeaders {
+  subject: string
+}
+
+export interface PreviousMessage {
+  messageId: string
+  references?: string | null
+  subject?: string | null
+  providerThreadId?: string | null
+}
+
+/** Keep the References header short: the thread root plus the most recent messages */
+const MAX_REFERENCES = 10
+
+const REPLY_PREFIX = /^\s*(re|aw|sv|antw)\s*:\s*/i
+
+/**
+ * Wrap a Message-ID in angle brackets. Provider ids without a domain part
+ * (Gmail API ids, internal tracking ids) are not valid Message-IDs and return null.
+ */
+export function normalizeMessageId(value: string | null | undefined): string | null {
+  if (!value) return null
+  const trimmed = value.trim().replace(/^<|>$/g, '')
+  if (!trimmed || !trimmed.includes('@') || /\s/.test(trimmed)) return null
+  return `<${trimmed}>`
+}
+
+export function parseReferences(value: string | null | undefined): string[] {
+  if (!value) return []
+  return (value.match(/<[^<>\s]+>/g) || [])
+}
+
+/**
+ * "Re: <original subject>", without stacking prefixes
+ */
+export function buildReplySubject(subject: string): string {
+  const base = subject.replace(REPLY_PREFIX, '').trim()
+  return `Re: ${base}`
+}
+
+export function buildThreadHeaders(previous: PreviousMessage): ThreadHeaders | null {
+  const inReplyTo = normalizeMessageId(previous.messageId)
+  if (!inReplyTo) return null
+
+  const chain = Array.from(new Set([...parseReferences(previous.references), inReplyTo]))
+  const trimmed = chain.length > MAX_REFERENCES
+    ? [chain[0], ...chain.slice(chain.length - (MAX_REFERENCES - 1))]
+    : chain
+
+  return {
+    inReplyTo,
+    references: trimmed.join(' '),
+    providerThreadId: previous.providerThreadId || null,
+  }
+}
+
+export function buildThreadContext(previous: PreviousMessage, fallbackSubject: string): ThreadContext | null {
+  const headers = buildThreadHeaders(previous)
+  if (!headers) return null
+
+  return {
+    ...headers,
+    subject: buildReplySubject(previous.subject || fallbackSubject),
+  }
+}
+
+/**
+ * Previous message sent to a contact in a campaign, as ThreadContext for the next step.
+ * Returns null when nothing threadable was sent yet.
+ */
+export async function loadThreadContext(
+  supabase: any,
+  params: { campaignId: string; contactId: string; emailAccountId?: string; fallbackSubject: string },
+): Promise<ThreadContext | null> {
+  const { data: sent, error } = await supabase
+    .from('email_tracking')
+    .select('message_id, header_message_id, thread_references, provider_thread_id, subject_line, email_account_id, sent_at')
+    .eq('campaign_id', params.campaignId)
+    .eq('contact_id', params.contactId)
+    .in('status', ['sent', 'delivered', 'opened', 'clicked', 'replied'])
+    .order('sent_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to load previous message: ${error.message}`)
+  }
+
+  const previous = sent?.[0]
+  if (!previous) return null
+
+  const messageId = previous.header_message_id || normalizeMessageId(previous.message_id)
+  if (messageId) {
+    return buildThreadContext({
+      messageId,
+      references: previous.thread_references,
+      subject: previous.subject_line,
+      providerThreadId: previous.provider_thread_id,
+    }, params.fallbackSubject)
+  }
+
+  // Older sends only have a provider/internal id; use the copy synced from the Sent folder
+  const emailAccountId = previous.email_account_id || params.emailAccountId
+  if (!emailAccountId || !previous.subject_line) return null
+
+  const { data: outgoing, error: outgoingError } = await supabase
+    .from('outgoing_emails')
+    .select('message_id, subject, date_sent')
+    .eq('email_account_id', emailAccountId)
+    .eq('contact_id', params.contactId)
+    .eq('subject', previous.subject_line)
+    .order('date_sent', { ascending: false })
+    .limit(1)
+
+  if (outgoingError) {
+    console.warn('⚠️ Failed to look up sent copy for threading:', outgoingError)
+    return null
+  }
+
+  const sentCopy = outgoing?.[0]
+  if (!sentCopy) return null
+
+  return buildThreadContext({
+    messageId: sentCopy.message_id,
+    subject: sentCopy.subject,
+    providerThreadId: previous.provider_thread_id,
+  }, params.fallbackSubject)
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { getBaseUrl } from './email-urls'
+import { addSuppressionEntries, buildListUnsubscribeHeaders } from './suppression'
 
 // Email tracking interfaces
 export interface TrackingPixel {
@@ -476,6 +478,11 @@ export class EmailTracker {
     contactId?: string
   ): Promise<UnsubscribeToken> {
     try {
+      if (!this.supabase) {
+        const { createServerSupabaseClient } = await import('./supabase-server')
+        this.supabase = createServerSupabaseClient()
+      }
+
       const token = this.generateUnsubscribeTokenString()
       
       const unsubscribeToken: UnsubscribeToken = {
@@ -509,6 +516,22 @@ export class EmailTracker {
     }
   }
 
+  /**
+   * Generate RFC 8058 one-click unsubscribe headers for an outgoing email
+   */
+  async generateListUnsubscribeHeaders(
+    recipientEmail: string,
+    campaignId?: string,
+    contactId?: string,
+    mailto?: string
+  ): Promise<Record<string, string>> {
+    const unsubscribeToken = await this.generateUnsubscribeToken(recipientEmail, campaignId, contactId)
+    return buildListUnsubscribeHeaders(
+      `${getBaseUrl()}/api/tracking/unsubscribe/${unsubscribeToken.token}`,
+      mailto
+    )
+  }
+
   /**
    * Process unsubscribe request
    */
@@ -525,6 +548,11 @@ export class EmailTracker {
         userAgent
       })
 
+      if (!this.supabase) {
+        const { createServerSupabaseClient } = await import('./supabase-server')
+        this.supabase = createServerSupabaseClient()
+      }
+
       // Get unsubscribe token data
       const { data: unsubToken, error } = await this.supabase
         .from('unsubscribe_tokens')
@@ -588,6 +616,28 @@ export class EmailTracker {
         if (unsubToken.campaign_id) {
           await this.updateCampaignStats(unsubToken.campaign_id, 'unsubscribed', true)
         }
+
+        // Add to the campaign owner's suppression list so no send path emails them again
+        if (unsubToken.campaign_id) {
+          const { data: campaign } = await this.supabase
+            .from('campaigns')
+            .select('user_id')
+            .eq('id', unsubToken.campaign_id)
+            .single()
+
+          if (campaign?.user_id) {
+            try {
+              await addSuppressionEntries(
+                this.supabase,
+                campaign.user_id,
+                [{ email: unsubToken.recipient_email, reason: 'Unsubscribed via link' }],
+                'unsubscribe'
+              )
+            } catch (suppressionError) {
+              console.error('Error adding unsubscribe to suppression list:', suppressionError)
+            }
+          }
+        }
       }
 
       return { 
@@ -1,11 +1,46 @@
-interface EmailValidationResult {
+import net from 'net'
+import { DNSLookupService } from './dns-lookup-service'
+import { DISPOSABLE_EMAIL_DOMAINS } from './disposable-email-domains'
+
+/**
+ * Email verification pipeline
+ *
+ * 1. Syntax check
+ * 2. Disposable domain check (maintained list + EMAIL_VALIDATION_DISPOSABLE_DOMAINS)
+ * 3. MX lookup via DNSLookupService
+ * 4. SMTP RCPT TO probe against the primary MX (no message is sent)
+ * 5. Catch-all detection by probing a random address on the same domain
+ * 6. Role-account detection (info@, sales@, ...)
+ *
+ * SMTP probing is opt-in (EMAIL_VALIDATION_SMTP_PROBE=true) because each probe
+ * can take seconds per MX host; request paths pass `smtp: false` and leave it to
+ * background imports. Results are cached per address and per domain with a TTL.
+ * The MX resolver and SMTP prober can be swapped with `EmailValidationService.configure()`, which is
+ * how tests point the pipeline at a local fake MX server.
+ */
+
+export type EmailValidationStatus = 'valid' | 'invalid' | 'risky' | 'unknown'
+
+export interface EmailValidationChecks {
+  syntax: boolean
+  disposable: boolean
+  roleAccount: boolean
+  mx: boolean | null // null when the lookup itself failed
+  smtp: 'accepted' | 'rejected' | 'unknown' | 'skipped'
+  catchAll: boolean | null
+}
+
+export interface EmailValidationResult {
   email: string
-  status: 'valid' | 'invalid' | 'risky' | 'unknown'
+  status: EmailValidationStatus
   isValid: boolean
   reason?: string
+  checks?: EmailValidationChecks
+  mxHost?: string
+  cached?: boolean
 }
 
-interface BulkEmailValidationResult {
+export interface BulkEmailValidationResult {
   results: EmailValidationResult[]
   summary: {
     total: number
@@ -15,57 +50,297 @@ interface BulkEmailValidationResult {
   }
 }
 
+export interface MxRecord {
+  exchange: string
+  priority: number
+}
+
+export interface MxResolver {
+  resolveMx(domain: string): Promise<MxRecord[]>
+}
+
+export interface SmtpProbeOptions {
+  port: number
+  heloHost: string
+  mailFrom: string
+  timeoutMs: number
+}
+
+export interface SmtpProbeResult {
+  connected: boolean
+  replies: Record<string, { code: number; message: string }>
+  error?: string
+}
+
+export interface SmtpProber {
+  probe(host: string, recipients: string[], options: SmtpProbeOptions): Promise<SmtpProbeResult>
+}
+
+export interface EmailValidationConfig {
+  resolver: MxResolver
+  prober: SmtpProber
+  smtpProbe: boolean
+  smtpPort: number
+  heloHost: string
+  mailFrom: string
+  timeoutMs: number
+  addressTtlMs: number
+  domainTtlMs: number
+  unknownTtlMs: number
+  concurrency: number
+  disposableDomains: string[]
+}
+
+export interface ValidateEmailOptions {
+  smtp?: boolean
+  skipCache?: boolean
+}
+
+/** Contact email statuses that imports and campaign launches may exclude */
+export type ExcludableEmailStatus = 'invalid' | 'risky'
+
+interface DomainVerification {
+  mxHosts: string[]
+  mxError?: string
+  catchAll: boolean | null
+  smtpReachable: boolean | null
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_MX_HOSTS_TO_TRY = 2
+const MAX_CACHE_ENTRIES = 10000
+
+const ROLE_ACCOUNTS = new Set([
+  'abuse', 'accounting', 'accounts', 'admin', 'administrator', 'billing', 'careers',
+  'contact', 'customerservice', 'enquiries', 'feedback', 'hello', 'help', 'hostmaster',
+  'hr', 'info', 'inquiries', 'jobs', 'kontakt', 'legal', 'mail', 'marketing', 'media',
+  'no-reply', 'noreply', 'office', 'postmaster', 'press', 'privacy', 'recruiting',
+  'sales', 'security', 'service', 'support', 'team', 'webmaster'
+])
+
+class TtlCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>()
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  set(key: string, value: T, ttlMs: number) {
+    if (!this.entries.has(key) && this.entries.size >= MAX_CACHE_ENTRIES) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+  }
+
+  clear() {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Default SMTP prober: EHLO, MAIL FROM, one RCPT TO per recipient, QUIT.
+ * The connection is closed before DATA so nothing is ever delivered.
+ */
+export const netSmtpProber: SmtpProber = {
+  probe(host, recipients, options) {
+    return new Promise(resolve => {
+      const replies: SmtpProbeResult['replies'] = {}
+      const socket = net.connect({ host, port: options.port })
+      let buffer = ''
+      let lines: string[] = []
+      let stage: 'greeting' | 'ehlo' | 'helo' | 'mail' | 'rcpt' | 'quit' = 'greeting'
+      let recipientIndex = 0
+      let connected = false
+      let settled = false
+
+      const finish = (error?: string) => {
+        if (settled) return
+        settled = true
+        socket.destroy()
+        resolve({ connected, replies, error })
+      }
+
+      const send = (command: string) => socket.write(`${command}\r\n`)
+
+      const handleReply = (code: number, message: string) => {
+        switch (stage) {
+          case 'greeting':
+            if (code !== 220) return finish(`Server greeting rejected: ${code} ${message}`)
+            connected = true
+            stage = 'ehlo'
+            return send(`EHLO ${options.heloHost}`)
+          case 'ehlo':
+          case 'helo':
+            if (code !== 250) {
+              if (stage === 'ehlo') {
+                stage = 'helo'
+                return send(`HELO ${options.heloHost}`)
+              }
+              return finish(`HELO rejected: ${code} ${message}`)
+            }
+            stage = 'mail'
+            return send(`MAIL FROM:<${options.mailFrom}>`)
+          case 'mail':
+            if (code !== 250) return finish(`MAIL FROM rejected: ${code} ${message}`)
+            stage = 'rcpt'
+            return send(`RCPT TO:<${recipients[recipientIndex]}>`)
+          case 'rcpt':
+            replies[recipients[recipientIndex]] = { code, message }
+            recipientIndex++
+            if (code === 421 || recipientIndex >= recipients.length) {
+              stage = 'quit'
+              return send('QUIT')
+            }
+            return send(`RCPT TO:<${recipients[recipientIndex]}>`)
+          case 'quit':
+            return finish()
+        }
+      }
+
+      socket.setTimeout(options.timeoutMs, () => finish('SMTP connection timed out'))
+      socket.on('error', error => finish(error.message))
+      socket.on('close', () => finish(stage === 'quit' ? undefined : 'SMTP connection closed'))
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8')
+        let newline: number
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).replace(/\r$/, '')
+          buffer = buffer.slice(newline + 1)
+          lines.push(line)
+          // Multi-line replies use "250-" for every line except the last ("250 ")
+          if (/^\d{3}(?:\s|$)/.test(line)) {
+            const code = parseInt(line.slice(0, 3), 10)
+            const message = lines.map(l => l.slice(4)).join(' ').trim()
+            lines = []
+            handleReply(code, message)
+          }
+        }
+      })
+    })
+  }
+}
+
+const dnsMxResolver: MxResolver = {
+  resolveMx: domain => DNSLookupService.lookupMX(domain)
+}
+
+function defaultConfig(): EmailValidationConfig {
+  let heloHost = process.env.EMAIL_VALIDATION_HELO_HOST || 'localhost'
+  if (!process.env.EMAIL_VALIDATION_HELO_HOST && process.env.NEXT_PUBLIC_APP_URL) {
+    try {
+      heloHost = new URL(process.env.NEXT_PUBLIC_APP_URL).hostname
+    } catch {
+      // keep localhost
+    }
+  }
+
+  return {
+    resolver: dnsMxResolver,
+    prober: netSmtpProber,
+    smtpProbe: process.env.EMAIL_VALIDATION_SMTP_PROBE === 'true',
+    smtpPort: 25,
+    heloHost,
+    mailFrom: process.env.EMAIL_VALIDATION_MAIL_FROM || `verify@${heloHost}`,
+    timeoutMs: 10000,
+    addressTtlMs: 24 * 60 * 60 * 1000, // 24 hours
+    domainTtlMs: 6 * 60 * 60 * 1000, // 6 hours
+    unknownTtlMs: 15 * 60 * 1000, // 15 minutes
+    concurrency: 5,
+    disposableDomains: (process.env.EMAIL_VALIDATION_DISPOSABLE_DOMAINS || '')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase())
+      .filter(Boolean)
+  }
+}
+
 export class EmailValidationService {
+  private static config: EmailValidationConfig = defaultConfig()
+  private static disposableDomains = new Set<string>([...DISPOSABLE_EMAIL_DOMAINS, ...EmailValidationService.config.disposableDomains])
+  private static addressCache = new TtlCache<EmailValidationResult>()
+  private static domainCache = new TtlCache<DomainVerification>()
+  private static pendingDomains = new Map<string, Promise<DomainVerification>>()
+
   /**
-   * Basic email validation using regex
+   * Override parts of the verification pipeline (resolver, SMTP prober, TTLs, ...).
+   * Clears the caches so earlier results from another resolver are not reused.
    */
-  static async validateEmail(email: string): Promise<EmailValidationResult> {
+  static configure(overrides: Partial<EmailValidationConfig>) {
+    this.config = { ...this.config, ...overrides }
+    this.disposableDomains = new Set([...DISPOSABLE_EMAIL_DOMAINS, ...this.config.disposableDomains])
+    this.clearCache()
+  }
+
+  /**
+   * Restore the default resolver, prober and settings
+   */
+  static resetConfig() {
+    this.configure(defaultConfig())
+  }
+
+  static clearCache() {
+    this.addressCache.clear()
+    this.domainCache.clear()
+  }
+
+  /**
+   * Verify an email address: syntax, disposable domain, MX, SMTP mailbox,
+   * catch-all and role account checks
+   */
+  static async validateEmail(email: string, options: ValidateEmailOptions = {}): Promise<EmailValidationResult> {
     const normalizedEmail = this.normalizeEmail(email)
-    
-    // Basic format validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(normalizedEmail)) {
-      return {
-        email: normalizedEmail,
-        status: 'invalid',
-        isValid: false,
-        reason: 'Invalid email format'
-      }
+    const checks: EmailValidationChecks = {
+      syntax: false,
+      disposable: false,
+      roleAccount: false,
+      mx: null,
+      smtp: 'skipped',
+      catchAll: null
     }
 
-    // Check for common disposable email domains
-    const disposableDomains = [
-      '10minutemail.com',
-      'tempmail.org',
-      'guerrillamail.com',
-      'mailinator.com',
-      'yopmail.com'
-    ]
-
-    const domain = normalizedEmail.split('@')[1].toLowerCase()
-    if (disposableDomains.includes(domain)) {
-      return {
-        email: normalizedEmail,
-        status: 'risky',
-        isValid: true,
-        reason: 'Disposable email domain'
-      }
+    if (!EMAIL_REGEX.test(normalizedEmail)) {
+      return this.buildResult(normalizedEmail, 'invalid', checks, 'Invalid email format')
     }
+    checks.syntax = true
 
-    // For now, consider all other emails as valid
-    // In a real implementation, you would integrate with an email validation service
-    return {
-      email: normalizedEmail,
-      status: 'valid',
-      isValid: true
+    const atIndex = normalizedEmail.lastIndexOf('@')
+    const localPart = normalizedEmail.slice(0, atIndex)
+    const domain = normalizedEmail.slice(atIndex + 1)
+
+    if (this.isDisposableDomain(domain)) {
+      checks.disposable = true
+      return this.buildResult(normalizedEmail, 'risky', checks, 'Disposable email domain')
     }
+    checks.roleAccount = this.isRoleAccount(localPart)
+
+    if (!options.skipCache) {
+      // A result cached without a mailbox probe does not answer a request that wants one
+      const cached = this.addressCache.get(normalizedEmail)
+      const wantsProbe = this.config.smtpProbe && options.smtp !== false
+      if (cached && !(wantsProbe && cached.checks?.smtp === 'skipped')) return { ...cached, cached: true }
+    }
+
+    const result = await this.verifyMailbox(normalizedEmail, domain, checks, options)
+    this.addressCache.set(
+      normalizedEmail,
+      result,
+      result.status === 'unknown' ? this.config.unknownTtlMs : this.config.addressTtlMs
+    )
+    return result
   }
 
   /**
-   * Validate multiple emails in bulk
+   * Validate multiple emails in bulk. Addresses are verified a few at a time;
+   * the domain cache means each domain is only looked up and catch-all probed once.
    */
-  static async validateEmails(emails: string[]): Promise<BulkEmailValidationResult> {
-    const results: EmailValidationResult[] = []
+  static async validateEmails(emails: string[], options: ValidateEmailOptions = {}): Promise<BulkEmailValidationResult> {
+    const results: EmailValidationResult[] = new Array(emails.length)
     const summary = {
       total: emails.length,
       valid: 0,
@@ -73,10 +348,17 @@ export class EmailValidationService {
       risky: 0
     }
 
-    for (const email of emails) {
-      const result = await this.validateEmail(email)
-      results.push(result)
+    let next = 0
+    const worker = async () => {
+      while (next < emails.length) {
+        const index = next++
+        results[index] = await this.validateEmail(emails[index], options)
+      }
+    }
+    const workers = Math.max(1, Math.min(this.config.concurrency, emails.length))
+    await Promise.all(Array.from({ length: workers }, () => worker()))
 
+    for (const result of results) {
       switch (result.status) {
         case 'valid':
           summary.valid++
@@ -101,16 +383,179 @@ export class EmailValidationService {
   }
 
   /**
-   * Check if email domain exists (basic check)
+   * Check if the email domain has mail servers (MX records)
    */
   static async checkDomainExists(email: string): Promise<boolean> {
     try {
-      const domain = email.split('@')[1]
-      // In a real implementation, you would do a DNS lookup
-      // For now, just check if it has a valid format
-      return domain && domain.includes('.')
+      const domain = this.normalizeEmail(email).split('@')[1]
+      if (!domain) return false
+      const info = await this.getDomainVerification(domain)
+      return info.mxHosts.length > 0
     } catch {
       return false
     }
   }
-}
\ No newline at end of file
+
+  static isDisposableDomain(domain: string): boolean {
+    const parts = domain.toLowerCase().split('.')
+    for (let i = 0; i < parts.length - 1; i++) {
+      if (this.disposableDomains.has(parts.slice(i).join('.'))) return true
+    }
+    return false
+  }
+
+  static isRoleAccount(localPart: string): boolean {
+    const base = localPart.toLowerCase().split('+')[0]
+    return ROLE_ACCOUNTS.has(base)
+  }
+
+  /**
+   * Whether a validation status should be excluded under the given settings
+   */
+  static isExcluded(status: EmailValidationStatus | undefined, excludeStatuses: ExcludableEmailStatus[] = []): boolean {
+    return !!status && (excludeStatuses as string[]).includes(status)
+  }
+
+  private static async verifyMailbox(
+    email: string,
+    domain: string,
+    checks: EmailValidationChecks,
+    options: ValidateEmailOptions
+  ): Promise<EmailValidationResult> {
+    const info = await this.getDomainVerification(domain, options.skipCache)
+
+    if (info.mxError) {
+      return this.buildResult(email, 'unknown', checks, `Could not look up mail servers: ${info.mxError}`)
+    }
+    if (info.mxHosts.length === 0) {
+      checks.mx = false
+      return this.buildResult(email, 'invalid', checks, 'Domain does not accept email (no MX records)')
+    }
+    checks.mx = true
+    const mxHost = info.mxHosts[0]
+
+    // Known catch-all domains accept every RCPT, so probing the address tells us nothing
+    const smtpEnabled = this.config.smtpProbe && options.smtp !== false
+    if (smtpEnabled && info.catchAll !== true) {
+      if (info.smtpReachable === false) {
+        checks.smtp = 'unknown'
+      } else {
+        await this.probeMailbox(email, domain, info, checks)
+      }
+    }
+    checks.catchAll = info.catchAll
+
+    if (checks.smtp === 'rejected') {
+      return this.buildResult(email, 'invalid', checks, 'Mailbox does not exist', mxHost)
+    }
+    if (checks.catchAll) {
+      return this.buildResult(email, 'risky', checks, 'Catch-all domain accepts any address', mxHost)
+    }
+    if (checks.roleAccount) {
+      return this.buildResult(email, 'risky', checks, 'Role account', mxHost)
+    }
+    // MX exists; a mailbox we could not probe (port 25 blocked, greylisting) is treated as deliverable
+    return this.buildResult(email, 'valid', checks, undefined, mxHost)
+  }
+
+  /**
+   * RCPT TO probe for the address, plus a random address on the same domain
+   * when the domain has not been checked for catch-all yet
+   */
+  private static async probeMailbox(
+    email: string,
+    domain: string,
+    info: DomainVerification,
+    checks: EmailValidationChecks
+  ) {
+    const catchAllProbe = info.catchAll === null
+      ? `pd-verify-${Math.random().toString(36).slice(2, 12)}@${domain}`
+      : null
+    const recipients = catchAllProbe ? [email, catchAllProbe] : [email]
+
+    for (const host of info.mxHosts.slice(0, MAX_MX_HOSTS_TO_TRY)) {
+      let probe: SmtpProbeResult
+      try {
+        probe = await this.config.prober.probe(host, recipients, {
+          port: this.config.smtpPort,
+          heloHost: this.config.heloHost,
+          mailFrom: this.config.mailFrom,
+          timeoutMs: this.config.timeoutMs
+        })
+      } catch (error) {
+        probe = { connected: false, replies: {}, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+
+      if (!probe.connected) {
+        console.warn(`⚠️ SMTP probe to ${host} failed: ${probe.error || 'no connection'}`)
+        continue
+      }
+
+      info.smtpReachable = true
+      const reply = probe.replies[email]
+      checks.smtp = !reply ? 'unknown' : reply.code < 300 ? 'accepted' : reply.code >= 500 ? 'rejected' : 'unknown'
+
+      const catchAllReply = catchAllProbe ? probe.replies[catchAllProbe] : undefined
+      if (catchAllReply && catchAllReply.code < 300) {
+        info.catchAll = true
+      } else if (catchAllReply && catchAllReply.code >= 500) {
+        info.catchAll = false
+      }
+      this.domainCache.set(domain, info, this.config.domainTtlMs)
+      return
+    }
+
+    info.smtpReachable = false
+    checks.smtp = 'unknown'
+    this.domainCache.set(domain, info, this.config.unknownTtlMs)
+  }
+
+  private static async getDomainVerification(domain: string, skipCache = false): Promise<DomainVerification> {
+    if (!skipCache) {
+      const cached = this.domainCache.get(domain)
+      if (cached) return cached
+    }
+
+    // Bulk validation runs several workers; share one lookup per domain
+    const pending = this.pendingDomains.get(domain)
+    if (pending) return pending
+
+    const lookup = this.lookupDomain(domain).finally(() => this.pendingDomains.delete(domain))
+    this.pendingDomains.set(domain, lookup)
+    return lookup
+  }
+
+  private static async lookupDomain(domain: string): Promise<DomainVerification> {
+    const info: DomainVerification = { mxHosts: [], catchAll: null, smtpReachable: null }
+    try {
+      const records = await this.config.resolver.resolveMx(domain)
+      info.mxHosts = records
+        .slice()
+        .sort((a, b) => a.priority - b.priority)
+        .map(record => record.exchange.replace(/\.$/, ''))
+        .filter(Boolean)
+      this.domainCache.set(domain, info, this.config.domainTtlMs)
+    } catch (error) {
+      info.mxError = error instanceof Error ? error.message : 'Unknown error'
+      this.domainCache.set(domain, info, this.config.unknownTtlMs)
+    }
+    return info
+  }
+
+  private static buildResult(
+    email: string,
+    status: EmailValidationStatus,
+    checks: EmailValidationChecks,
+    reason?: string,
+    mxHost?: string
+  ): EmailValidationResult {
+    return {
+      email,
+      status,
+      isValid: status !== 'invalid',
+      ...(reason ? { reason } : {}),
+      checks: { ...checks },
+      ...(mxHost ? { mxHost } : {})
+    }
+  }
+}
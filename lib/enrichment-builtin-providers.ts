@@ -0,0 +1,161 @@
+import { ContactEnrichmentService } from './contact-enrichment'
+import { LinkedInProfileExtractorService } from './linkedin-profile-extractor'
+import { extractFromUrl } from './jina-extractor'
+import { PerplexityService } from './perplexity-service'
+import { createServerSupabaseClient } from './supabase-server'
+import { getCompany, isCompanyEnrichmentFresh } from './companies'
+import {
+  getEnrichmentProvider,
+  registerEnrichmentProvider,
+  type EnrichmentProvider,
+} from './enrichment-providers'
+
+/**
+ * Built-in enrichment providers: the contact's company account, company website
+ * analysis (Perplexity), the Jina website crawler and LinkedIn profiles (Bright Data). Further providers are
+ * added with registerEnrichmentProvider and listed in ENRICHMENT_WATERFALL.
+ */
+
+/**
+ * Reuses the enrichment a colleague at the same company already paid for, so the
+ * website of a company is analysed once rather than once per contact
+ */
+export const accountProvider: EnrichmentProvider = {
+  name: 'account',
+  category: 'company',
+  fields: ['company', 'website', 'enrichment_data'],
+  costPerCallUsd: 0,
+  rateLimit: { maxCalls: 600, windowSeconds: 60 },
+  isAvailable: (contact) => !!contact.company_id,
+  async enrich({ contact, userId }) {
+    const supabase = await createServerSupabaseClient()
+    const company = await getCompany(supabase, userId, contact.company_id)
+    if (!company || !isCompanyEnrichmentFresh(company)) {
+      return { success: false, fields: {}, error: 'Company not enriched yet' }
+    }
+
+    return {
+      success: true,
+      fields: {
+        company: { value: company.name, confidence: 0.9 },
+        website: { value: company.website, confidence: 0.9 },
+        enrichment_data: { value: company.enrichment_data, confidence: 0.9 },
+      },
+    }
+  },
+}
+
+export const websiteProvider: EnrichmentProvider = {
+  name: 'website',
+  category: 'company',
+  fields: ['company', 'website', 'enrichment_data'],
+  costPerCallUsd: 0.005,
+  rateLimit: { maxCalls: 60, windowSeconds: 60 },
+  isAvailable: (contact) => !!contact.website,
+  async enrich({ contactId, userId }) {
+    // ContactEnrichmentService verifies the site and stores enrichment_data itself
+    const result = await new ContactEnrichmentService().enrichContact(contactId, userId)
+    if (!result.success || !result.data) {
+      return { success: false, fields: {}, error: result.error || 'Website enrichment failed' }
+    }
+
+    return {
+      success: true,
+      fields: {
+        company: { value: result.data.company_name, confidence: 0.9 },
+        website: { value: result.website_url, confidence: 0.9 },
+        enrichment_data: { value: result.data, confidence: 0.9 },
+      },
+    }
+  },
+}
+
+/**
+ * Name a company from a page title such as "Acme GmbH | Industrial Pumps"
+ */
+function companyFromTitle(title: string | undefined): string {
+  const name = (title || '').split(/\s+[|\-–—:·]\s+/)[0].trim()
+  return name.length > 0 && name.length <= 80 ? name : ''
+}
+
+export const jinaProvider: EnrichmentProvider = {
+  name: 'jina',
+  category: 'company',
+  fields: ['company', 'enrichment_data'],
+  costPerCallUsd: 0.0002,
+  rateLimit: { maxCalls: 200, windowSeconds: 60 },
+  timeoutMs: 45 * 1000,
+  isAvailable: (contact) => !!contact.website && !!process.env.JINA_API_KEY,
+  async enrich({ contact }) {
+    const url = PerplexityService.normalizeWebsiteUrl(contact.website)
+    const result = await extractFromUrl(url, process.env.JINA_API_KEY!, { maxLength: 20000, timeout: 30000 })
+    if (!result.success) {
+      return { success: false, fields: {}, error: result.error || 'Jina extraction failed' }
+    }
+
+    const companyName = companyFromTitle(result.title)
+    if (!companyName && !result.description) {
+      return { success: false, fields: {}, error: 'No company details found on website' }
+    }
+
+    // The crawler only sees the page text, so its values rank below the website analysis
+    return {
+      success: true,
+      fields: {
+        company: { value: companyName, confidence: 0.5 },
+        enrichment_data: {
+          value: {
+            company_name: companyName,
+            industry: '',
+            products_services: [],
+            target_audience: [],
+            unique_points: result.description ? [result.description] : [],
+            tone_style: '',
+          },
+          confidence: 0.5,
+        },
+      },
+    }
+  },
+}
+
+export const linkedinProvider: EnrichmentProvider = {
+  name: 'linkedin',
+  category: 'person',
+  fields: ['first_name', 'last_name', 'position', 'company', 'city', 'country', 'linkedin_profile_data'],
+  costPerCallUsd: 0.0025,
+  rateLimit: { maxCalls: 20, windowSeconds: 60 },
+  isAvailable: (contact) => !!contact.linkedin_url,
+  async enrich({ contactId, userId }) {
+    const result = await new LinkedInProfileExtractorService().extractContactLinkedIn(contactId, userId)
+    if (!result.success || !result.data) {
+      return { success: false, fields: {}, error: result.error || 'LinkedIn enrichment failed' }
+    }
+
+    const profile = result.data
+    return {
+      success: true,
+      fields: {
+        first_name: { value: profile.first_name, confidence: 0.8 },
+        last_name: { value: profile.last_name, confidence: 0.8 },
+        position: { value: profile.position, confidence: 0.8 },
+        // The profile's employer may be outdated, so the website's company name wins
+        company: { value: profile.current_company, confidence: 0.7 },
+        city: { value: profile.city, confidence: 0.8 },
+        country: { value: profile.country, confidence: 0.8 },
+        linkedin_profile_data: { value: profile, confidence: 0.95 },
+      },
+    }
+  },
+}
+
+/**
+ * Register the built-in providers unless a provider with the same name exists
+ */
+export function registerBuiltinEnrichmentProviders(): void {
+  for (const provider of [accountProvider, websiteProvider, jinaProvider, linkedinProvider]) {
+    if (!getEnrichmentProvider(provider.name)) {
+      registerEnrichmentProvider(provider)
+    }
+  }
+}
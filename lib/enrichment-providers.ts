@@ -0,0 +1,305 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from './database.types'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Enrichment provider plug-ins.
+ *
+ * Every enrichment source (company website, LinkedIn, Jina crawler, a CSV lookup,
+ * a company database, ...) implements EnrichmentProvider and is registered by
+ * name. The SmartEnrichmentOrchestrator runs the registered providers as a
+ * waterfall: providers run in the configured order, a provider is skipped once
+ * earlier providers already supplied every field it could add, and the results
+ * are merged field by field, keeping the provider and confidence of each value.
+ */
+
+/** Contact fields a provider can fill */
+export type EnrichmentField =
+  | 'first_name'
+  | 'last_name'
+  | 'position'
+  | 'company'
+  | 'city'
+  | 'country'
+  | 'phone'
+  | 'website'
+  | 'enrichment_data'
+  | 'linkedin_profile_data'
+
+export const ENRICHMENT_FIELDS: EnrichmentField[] = [
+  'first_name',
+  'last_name',
+  'position',
+  'company',
+  'city',
+  'country',
+  'phone',
+  'website',
+  'enrichment_data',
+  'linkedin_profile_data',
+]
+
+export interface EnrichmentFieldValue {
+  value: unknown
+  /** 0..1, how sure the provider is about this value */
+  confidence: number
+}
+
+export type EnrichmentFieldValues = Partial<Record<EnrichmentField, EnrichmentFieldValue>>
+
+export interface EnrichmentProviderContext {
+  contactId: string
+  userId: string
+  contact: Record<string, any>
+}
+
+export interface EnrichmentProviderResult {
+  success: boolean
+  fields: EnrichmentFieldValues
+  error?: string
+  /** Overrides the provider's costPerCallUsd, e.g. for token-priced APIs */
+  costUsd?: number
+}
+
+export interface EnrichmentProviderRateLimit {
+  maxCalls: number
+  windowSeconds: number
+}
+
+export interface EnrichmentProvider {
+  name: string
+  /** Company providers describe the employer, person providers the contact */
+  category: 'company' | 'person'
+  /** Fields this provider can return; used to skip it when nothing is left to fill */
+  fields: EnrichmentField[]
+  costPerCallUsd: number
+  rateLimit?: EnrichmentProviderRateLimit
+  timeoutMs?: number
+  /** Whether the provider has what it needs (API key, URL, ...) for this contact */
+  isAvailable(contact: Record<string, any>): boolean
+  enrich(context: EnrichmentProviderContext): Promise<EnrichmentProviderResult>
+}
+
+export interface EnrichmentWaterfallConfig {
+  /** Provider names in the order they are tried */
+  providers: string[]
+  /** Values below this confidence are ignored */
+  minConfidence: number
+  /** Values at or above this confidence replace what the contact already has */
+  overwriteConfidence: number
+}
+
+export const DEFAULT_WATERFALL_CONFIG: EnrichmentWaterfallConfig = {
+  providers: ['account', 'website', 'jina', 'linkedin'],
+  minConfidence: 0.5,
+  overwriteConfidence: 0.9,
+}
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 90 * 1000
+
+export interface EnrichmentProviderRun {
+  provider: string
+  category: EnrichmentProvider['category']
+  status: 'success' | 'failed' | 'skipped' | 'rate_limited'
+  fields: EnrichmentFieldValues
+  costUsd: number
+  durationMs: number
+  error?: string
+}
+
+export interface EnrichmentFieldSource {
+  provider: string
+  confidence: number
+  updated_at: string
+}
+
+export interface WaterfallMergeResult {
+  values: Partial<Record<EnrichmentField, unknown>>
+  fieldSources: Partial<Record<EnrichmentField, EnrichmentFieldSource>>
+}
+
+const registry = new Map<string, EnrichmentProvider>()
+
+/**
+ * Register a provider; a provider registered under an existing name replaces it
+ */
+export function registerEnrichmentProvider(provider: EnrichmentProvider): void {
+  registry.set(provider.name, provider)
+}
+
+export function unregisterEnrichmentProvider(name: string): void {
+  registry.delete(name)
+}
+
+export function getEnrichmentProvider(name: string): EnrichmentProvider | undefined {
+  return registry.get(name)
+}
+
+export function listEnrichmentProviders(): EnrichmentProvider[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Parse a comma separated provider order such as ENRICHMENT_WATERFALL="website,linkedin"
+ */
+export function parseWaterfallOrder(value: string | undefined): string[] | null {
+  const names = (value || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+  return names.length > 0 ? Array.from(new Set(names)) : null
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true
+  if (typeof value === 'string') return value.trim().length === 0
+  if (Array.isArray(value)) return value.length === 0
+  return false
+}
+
+/**
+ * Fields a provider would still add given the results of the providers before it
+ */
+export function fieldsStillNeeded(
+  provider: Pick<EnrichmentProvider, 'fields'>,
+  previousRuns: EnrichmentProviderRun[],
+  minConfidence: number,
+): EnrichmentField[] {
+  return provider.fields.filter(field => !previousRuns.some(run => {
+    const candidate = run.fields[field]
+    return run.status === 'success' && !!candidate && !isEmptyValue(candidate.value) && candidate.confidence >= minConfidence
+  }))
+}
+
+/**
+ * Merge provider results field by field. For each field the first provider in
+ * waterfall order with a value of at least minConfidence wins. Values already on
+ * the contact are only replaced by values of at least overwriteConfidence.
+ */
+export function mergeWaterfallResults(
+  existingContact: Record<string, any>,
+  runs: EnrichmentProviderRun[],
+  config: Pick<EnrichmentWaterfallConfig, 'minConfidence' | 'overwriteConfidence'>,
+  now: Date = new Date(),
+): WaterfallMergeResult {
+  const result: WaterfallMergeResult = { values: {}, fieldSources: {} }
+
+  for (const field of ENRICHMENT_FIELDS) {
+    for (const run of runs) {
+      if (run.status !== 'success') continue
+
+      const candidate = run.fields[field]
+      if (!candidate || isEmptyValue(candidate.value) || candidate.confidence < config.minConfidence) continue
+
+      if (!isEmptyValue(existingContact[field]) && candidate.confidence < config.overwriteConfidence) {
+        // Not certain enough to replace the contact's own value
+        continue
+      }
+
+      result.values[field] = candidate.value
+      result.fieldSources[field] = {
+        provider: run.provider,
+        confidence: candidate.confidence,
+        updated_at: now.toISOString(),
+      }
+      break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Reserve a call to a rate-limited provider. The count and the insert of a
+ * pending call row happen under one advisory lock, so concurrent runs cannot
+ * both take the last call of the window. Returns the reserved call id, or null
+ * when the rate limit is reached.
+ */
+export async function reserveProviderCall(
+  supabase: Supabase,
+  userId: string,
+  contactId: string,
+  provider: string,
+  rateLimit: { maxCalls: number; windowSeconds: number },
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('reserve_enrichment_provider_call', {
+    p_user_id: userId,
+    p_contact_id: contactId,
+    p_provider: provider,
+    p_window_seconds: rateLimit.windowSeconds,
+    p_max_calls: rateLimit.maxCalls,
+  })
+
+  if (error) {
+    throw new Error(`Failed to reserve a call for enrichment provider ${provider}: ${error.message}`)
+  }
+
+  return (data as string | null) ?? null
+}
+
+/**
+ * Record a provider call for rate limiting and cost reporting. When the call
+ * was reserved with reserveProviderCall, the pending row is completed instead
+ * of inserting a second one.
+ */
+export async function recordProviderCall(
+  supabase: Supabase,
+  userId: string,
+  contactId: string,
+  run: EnrichmentProviderRun,
+  reservedCallId?: string | null,
+): Promise<void> {
+  const values = {
+    status: run.status,
+    cost_usd: run.costUsd,
+    duration_ms: run.durationMs,
+    fields: Object.keys(run.fields) as unknown as Json,
+    error: run.error?.slice(0, 2000) ?? null,
+  }
+
+  const { error } = reservedCallId
+    ? await supabase
+      .from('enrichment_provider_calls')
+      .update(values)
+      .eq('id', reservedCallId)
+    : await supabase
+      .from('enrichment_provider_calls')
+      .insert({
+        user_id: userId,
+        contact_id: contactId,
+        provider: run.provider,
+        ...values,
+      })
+
+  if (error) {
+    console.warn(`⚠️ Failed to record enrichment provider call (${run.provider}):`, error.message)
+  }
+}
+
+/**
+ * Enrichment spend per provider since a given date
+ */
+export async function getProviderCosts(
+  supabase: Supabase,
+  userId: string,
+  since: Date,
+): Promise<Record<string, { calls: number; costUsd: number }>> {
+  const { data, error } = await supabase
+    .from('enrichment_provider_calls')
+    .select('provider, cost_usd')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to load enrichment costs: ${error.message}`)
+  }
+
+  const costs: Record<string, { calls: number; costUsd: number }> = {}
+  for (const row of data || []) {
+    const entry = costs[row.provider] || (costs[row.provider] = { calls: 0, costUsd: 0 })
+    entry.calls++
+    entry.costUsd += Number(row.cost_usd) || 0
+  }
+  return costs
+}
@@ -0,0 +1,369 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import {
+  findConversationId,
+  findConversationIdByMessageId,
+  surfaceConversation,
+  syncConversations,
+  wakeSnoozedConversations,
+} from './conversations'
+import { buildReplySubject, normalizeMessageId, parseReferences } from './email-threading'
+import { generateDraftWithAgent } from './outreach-agent-compose'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Follow-up reminders: "remind me if no reply in N days" on mail sent from the
+ * mailbox composer.
+ *
+ * The follow-up-reminders cron takes pending reminders that are due. A reply
+ * from the recipient (or any message answering the sent one) closes the
+ * reminder; otherwise it fires: the conversation is opened again, woken from
+ * snooze and labelled follow-up, and the mailbox's assigned persona drafts a
+ * nudge through generateDraftWithAgent for the user to review and send. The
+ * same run wakes snoozed conversations whose time has come.
+ */
+
+export type FollowUpReminder = Tables<'follow_up_reminders'>
+
+export type FollowUpReminderStatus = 'pending' | 'replied' | 'fired' | 'dismissed'
+
+export interface FollowUpReminderInput {
+  emailAccountId: string
+  outgoingEmailId?: string | null
+  messageId?: string | null
+  recipientEmail: string
+  subject?: string | null
+  sentAt?: Date
+  remindAfterDays: number
+  draftNudge?: boolean
+  agentId?: string | null
+}
+
+export interface ReplyCandidate {
+  from_address: string
+  in_reply_to?: string | null
+  email_references?: string | null
+  date_received: string
+  classification_status?: string | null
+}
+
+export interface FollowUpRunSummary {
+  due: number
+  replied: number
+  fired: number
+  drafted: number
+  woken: number
+  errors: string[]
+}
+
+export const FOLLOW_UP_LABEL = 'follow-up'
+export const MAX_REMINDER_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NUDGE_CONTEXT_CHARS = 1500
+
+/** Out-of-office notices and bounces do not answer the email */
+const NON_REPLY_CLASSIFICATIONS = ['auto_reply', 'bounce']
+
+export function reminderDueAt(sentAt: Date, days: number): Date {
+  return new Date(sentAt.getTime() + days * DAY_MS)
+}
+
+/**
+ * Whether a received email answers the reminded one: it arrived after the
+ * send and either names the sent Message-ID or comes from the recipient
+ */
+export function isReplyTo(
+  reminder: Pick<FollowUpReminder, 'message_id' | 'recipient_email' | 'sent_at'>,
+  email: ReplyCandidate
+): boolean {
+  if (new Date(email.date_received) <= new Date(reminder.sent_at)) return false
+  if (email.classification_status && NON_REPLY_CLASSIFICATIONS.includes(email.classification_status)) return false
+
+  const messageId = normalizeMessageId(reminder.message_id)
+  if (messageId) {
+    const headers = [normalizeMessageId(email.in_reply_to), ...parseReferences(email.email_references)]
+    if (headers.includes(messageId)) return true
+  }
+
+  return email.from_address.toLowerCase().includes(reminder.recipient_email.toLowerCase())
+}
+
+export function buildNudgePrompt(
+  reminder: Pick<FollowUpReminder, 'recipient_email' | 'subject' | 'sent_at'>,
+  originalText: string | null
+): string {
+  const sentOn = reminder.sent_at.slice(0, 10)
+  const lines = [
+    `Write a short, friendly follow-up to ${reminder.recipient_email}, who has not replied to my email "${reminder.subject || '(no subject)'}" sent on ${sentOn}.`,
+    'Refer back to the original email, add one sentence of value or a simple question, and keep it under 80 words.',
+    'Write in the language of the original email.',
+  ]
+  if (originalText) {
+    lines.push('', 'Original email:', originalText.slice(0, NUDGE_CONTEXT_CHARS))
+  }
+  return lines.join('\n')
+}
+
+export async function createFollowUpReminder(
+  supabase: Supabase,
+  userId: string,
+  input: FollowUpReminderInput
+): Promise<FollowUpReminder> {
+  const days = Math.min(Math.max(Math.round(input.remindAfterDays), 1), MAX_REMINDER_DAYS)
+  const sentAt = input.sentAt || new Date()
+
+  const { data, error } = await supabase
+    .from('follow_up_reminders')
+    .insert({
+      user_id: userId,
+      email_account_id: input.emailAccountId,
+      outgoing_email_id: input.outgoingEmailId || null,
+      message_id: normalizeMessageId(input.messageId) || input.messageId || null,
+      recipient_email: input.recipientEmail.trim().toLowerCase(),
+      subject: input.subject || null,
+      sent_at: sentAt.toISOString(),
+      remind_after_days: days,
+      remind_at: reminderDueAt(sentAt, days).toISOString(),
+      draft_nudge: input.draftNudge ?? true,
+      agent_id: input.agentId || null,
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create follow-up reminder: ${error?.message || 'no row returned'}`)
+  }
+  return data
+}
+
+/**
+ * Reminders for the sent messages of a conversation and those that fired in
+ * it, newest first
+ */
+export async function listConversationReminders(
+  supabase: Supabase,
+  userId: string,
+  conversationId: string,
+  messageIds: string[]
+): Promise<FollowUpReminder[]> {
+  const ids = Array.from(new Set(messageIds.filter(Boolean)))
+  const [bySentMessage, byConversation] = await Promise.all([
+    ids.length > 0
+      ? supabase.from('follow_up_reminders').select('*').eq('user_id', userId).in('message_id', ids).neq('status', 'dismissed')
+      : Promise.resolve({ data: [] as FollowUpReminder[], error: null }),
+    supabase.from('follow_up_reminders').select('*').eq('user_id', userId).eq('conversation_id', conversationId).neq('status', 'dismissed'),
+  ])
+
+  const error = bySentMessage.error || byConversation.error
+  if (error) {
+    throw new Error(`Failed to load follow-up reminders: ${error.message}`)
+  }
+
+  const reminders = new Map<string, FollowUpReminder>()
+  ;[...(bySentMessage.data || []), ...(byConversation.data || [])].forEach(reminder => reminders.set(reminder.id, reminder))
+  return Array.from(reminders.values()).sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function dismissFollowUpReminder(
+  supabase: Supabase,
+  userId: string,
+  reminderId: string
+): Promise<FollowUpReminder | null> {
+  const { data, error } = await supabase
+    .from('follow_up_reminders')
+    .update({ status: 'dismissed', updated_at: new Date().toISOString() })
+    .eq('id', reminderId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to dismiss follow-up reminder: ${error.message}`)
+  }
+  return data
+}
+
+async function hasReply(supabase: Supabase, reminder: FollowUpReminder): Promise<boolean> {
+  const columns = 'from_address, in_reply_to, email_references, date_received, classification_status'
+  const candidates: ReplyCandidate[] = []
+
+  const { data: fromRecipient, error } = await supabase
+    .from('incoming_emails')
+    .select(columns)
+    .eq('user_id', reminder.user_id)
+    .gt('date_received', reminder.sent_at)
+    .ilike('from_address', `%${reminder.recipient_email}%`)
+    .limit(20)
+
+  if (error) {
+    throw new Error(`Failed to check replies: ${error.message}`)
+  }
+  candidates.push(...(fromRecipient || []))
+
+  // Colleagues answering in the same thread
+  if (reminder.message_id) {
+    const { data: answers } = await supabase
+      .from('incoming_emails')
+      .select(columns)
+      .eq('user_id', reminder.user_id)
+      .gt('date_received', reminder.sent_at)
+      .eq('in_reply_to', reminder.message_id)
+      .limit(20)
+    candidates.push(...(answers || []))
+  }
+
+  return candidates.some(email => isReplyTo(reminder, email))
+}
+
+async function resolveConversationId(supabase: Supabase, reminder: FollowUpReminder): Promise<string | null> {
+  const find = async () =>
+    (reminder.outgoing_email_id && await findConversationId(supabase, reminder.user_id, 'outgoing', reminder.outgoing_email_id)) ||
+    (reminder.message_id && await findConversationIdByMessageId(supabase, reminder.user_id, reminder.message_id)) ||
+    null
+
+  if (reminder.conversation_id) return reminder.conversation_id
+
+  const existing = await find()
+  if (existing) return existing
+
+  // Sent mail is assigned to conversations in the background; catch up here. The
+  // sync takes unassigned messages oldest first, so the reminder's message is in
+  // the first batch after its send time
+  await syncConversations(supabase, reminder.user_id, { since: new Date(reminder.sent_at) })
+  return find()
+}
+
+async function draftNudge(
+  supabase: Supabase,
+  reminder: FollowUpReminder
+): Promise<{ subject: string; body: string } | null> {
+  let agentId = reminder.agent_id
+  if (!agentId) {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('assigned_persona_id, outreach_agent_id')
+      .eq('id', reminder.email_account_id)
+      .maybeSingle()
+    const agents = account as unknown as { assigned_persona_id?: string | null; outreach_agent_id?: string | null } | null
+    agentId = agents?.assigned_persona_id || agents?.outreach_agent_id || null
+  }
+  if (!agentId) return null
+
+  let originalText: string | null = null
+  if (reminder.outgoing_email_id) {
+    const { data: original } = await supabase
+      .from('outgoing_emails')
+      .select('text_content')
+      .eq('id', reminder.outgoing_email_id)
+      .maybeSingle()
+    originalText = original?.text_content || null
+  }
+
+  const draft = await generateDraftWithAgent(supabase, reminder.user_id, agentId, {
+    prompt: buildNudgePrompt(reminder, originalText),
+    hints: { length: 'short' },
+  })
+
+  return {
+    subject: buildReplySubject(reminder.subject || draft.subject),
+    body: draft.body,
+  }
+}
+
+/**
+ * Close or fire a due reminder. Returns what happened.
+ */
+async function processReminder(
+  supabase: Supabase,
+  reminder: FollowUpReminder
+): Promise<'replied' | 'fired' | 'drafted'> {
+  const now = new Date().toISOString()
+
+  if (await hasReply(supabase, reminder)) {
+    await supabase
+      .from('follow_up_reminders')
+      .update({ status: 'replied', updated_at: now })
+      .eq('id', reminder.id)
+    return 'replied'
+  }
+
+  const conversationId = await resolveConversationId(supabase, reminder)
+  if (conversationId) {
+    await surfaceConversation(supabase, reminder.user_id, conversationId, FOLLOW_UP_LABEL)
+  }
+
+  let nudge: { subject: string; body: string } | null = null
+  if (reminder.draft_nudge) {
+    try {
+      nudge = await draftNudge(supabase, reminder)
+    } catch (error) {
+      // The reminder still fires; the user writes the nudge
+      console.error(`⚠️ Nudge draft failed for reminder ${reminder.id}:`, error)
+    }
+  }
+
+  const { error } = await supabase
+    .from('follow_up_reminders')
+    .update({
+      status: 'fired',
+      fired_at: now,
+      conversation_id: conversationId,
+      nudge_subject: nudge?.subject || null,
+      nudge_body: nudge?.body || null,
+      updated_at: now,
+    })
+    .eq('id', reminder.id)
+
+  if (error) {
+    throw new Error(`Failed to fire follow-up reminder: ${error.message}`)
+  }
+  return nudge ? 'drafted' : 'fired'
+}
+
+/**
+ * Cron entry point: fire due reminders and wake snoozed conversations
+ */
+export async function runFollowUpReminders(
+  supabase: Supabase,
+  options: { limit?: number } = {}
+): Promise<FollowUpRunSummary> {
+  const summary: FollowUpRunSummary = { due: 0, replied: 0, fired: 0, drafted: 0, woken: 0, errors: [] }
+
+  try {
+    summary.woken = await wakeSnoozedConversations(supabase)
+  } catch (error) {
+    summary.errors.push(error instanceof Error ? error.message : String(error))
+  }
+
+  const { data: due, error } = await supabase
+    .from('follow_up_reminders')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('remind_at', new Date().toISOString())
+    .order('remind_at', { ascending: true })
+    .limit(options.limit || 50)
+
+  if (error) {
+    summary.errors.push(`Due reminders: ${error.message}`)
+    return summary
+  }
+
+  summary.due = due?.length || 0
+  for (const reminder of due || []) {
+    try {
+      const outcome = await processReminder(supabase, reminder)
+      if (outcome === 'replied') {
+        summary.replied++
+      } else {
+        summary.fired++
+        if (outcome === 'drafted') summary.drafted++
+      }
+    } catch (reminderError) {
+      summary.errors.push(`Reminder ${reminder.id}: ${reminderError instanceof Error ? reminderError.message : String(reminderError)}`)
+    }
+  }
+
+  return summary
+}
@@ -63,6 +63,8 @@ export interface SendEmailOptions {
   senderName?: string // Add sender name option
   inReplyTo?: string // Message-ID being replied to (for threading)
   references?: string // Space-separated list of Message-IDs (for threading)
+  threadId?: string // Provider conversation id to file the message into (Gmail API threadId)
+  headers?: Record<string, string> // Extra headers such as List-Unsubscribe (see EXTRA_HEADER_NAMES)
   attachments?: Array<{
     filename: string
     path?: string
@@ -71,6 +73,42 @@ export interface SendEmailOptions {
   }>
 }
 
+/**
+ * Extra headers callers may add to an outgoing message. Anything else is
+ * dropped so a caller cannot override From, Bcc or the MIME structure.
+ */
+export const EXTRA_HEADER_NAMES = [
+  'List-Unsubscribe',
+  'List-Unsubscribe-Post',
+  'X-Campaign-ID',
+  'X-Contact-ID',
+  'X-Tracking-ID',
+]
+
+/**
+ * Collapse line breaks in a header value. A CR or LF would end the header and
+ * let the rest of the value inject new headers or body content.
+ */
+export function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim()
+}
+
+/**
+ * Render the allowed extra headers as "Name: value" lines
+ */
+export function buildExtraHeaderLines(headers: Record<string, string> | undefined): string[] {
+  const lines: string[] = []
+  for (const [name, value] of Object.entries(headers || {})) {
+    const allowedName = EXTRA_HEADER_NAMES.find((allowed) => allowed.toLowerCase() === name.toLowerCase())
+    if (!allowedName) {
+      console.warn(`⚠️ Dropping unsupported email header: ${sanitizeHeaderValue(name)}`)
+      continue
+    }
+    lines.push(`${allowedName}: ${sanitizeHeaderValue(String(value))}`)
+  }
+  return lines
+}
+
 export class GmailIMAPSMTPService {
   private tokens: OAuthTokens
   private userEmail: string
@@ -506,7 +544,7 @@ export class GmailIMAPSMTPService {
   /**
    * Send email via Gmail API (not SMTP)
    */
-  async sendEmail(options: SendEmailOptions): Promise<{ messageId: string; response: string }> {
+  async sendEmail(options: SendEmailOptions): Promise<{ messageId: string; response: string; headerMessageId: string; threadId?: string }> {
     try {
       console.log(`📧 Sending Gmail API email to ${Array.isArray(options.to) ? options.to.join(', ') : options.to}`)
 
@@ -529,9 +567,9 @@ export class GmailIMAPSMTPService {
       const gmail = google.gmail({ version: 'v1', auth: oauth2Client })
 
       // Prepare email addresses
-      const to = Array.isArray(options.to) ? options.to.join(', ') : options.to
-      const cc = options.cc ? (Array.isArray(options.cc) ? options.cc.join(', ') : options.cc) : undefined
-      const bcc = options.bcc ? (Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc) : undefined
+      const to = sanitizeHeaderValue(Array.isArray(options.to) ? options.to.join(', ') : options.to)
+      const cc = options.cc ? sanitizeHeaderValue(Array.isArray(options.cc) ? options.cc.join(', ') : options.cc) : undefined
+      const bcc = options.bcc ? sanitizeHeaderValue(Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc) : undefined
 
       // Get content
       const htmlContent = options.html || ''
@@ -551,7 +589,7 @@ export class GmailIMAPSMTPService {
 
       // Build email headers with proper sender name encoding
       const fromHeader = options.senderName
-        ? `"${options.senderName}" <${this.userEmail}>`
+        ? `"${sanitizeHeaderValue(options.senderName)}" <${this.userEmail}>`
         : this.userEmail
 
       const headers = [
@@ -561,8 +599,9 @@ export class GmailIMAPSMTPService {
         bcc ? `Bcc: ${bcc}` : null,
         `Subject: =?UTF-8?B?${Buffer.from(options.subject, 'utf8').toString('base64')}?=`,
         `Message-ID: ${messageId}`,
-        options.inReplyTo ? `In-Reply-To: ${options.inReplyTo}` : null,
-        options.references ? `References: ${options.references}` : null,
+        options.inReplyTo ? `In-Reply-To: ${sanitizeHeaderValue(options.inReplyTo)}` : null,
+        options.references ? `References: ${sanitizeHeaderValue(options.references)}` : null,
+        ...buildExtraHeaderLines(options.headers),
         `Date: ${new Date().toUTCString()}`,
         'MIME-Version: 1.0'
       ].filter(Boolean)
@@ -623,15 +662,37 @@ export class GmailIMAPSMTPService {
       const result = await gmail.users.messages.send({
         userId: 'me',
         requestBody: {
-          raw: encodedMessage
+          raw: encodedMessage,
+          ...(options.threadId ? { threadId: options.threadId } : {})
         }
       })
 
       console.log(`✅ Gmail API email sent successfully: ${result.data.id}`)
 
+      // Gmail may replace our Message-ID header; read back the one it actually sent
+      let headerMessageId = messageId
+      if (result.data.id) {
+        try {
+          const sent = await gmail.users.messages.get({
+            userId: 'me',
+            id: result.data.id,
+            format: 'metadata',
+            metadataHeaders: ['Message-ID']
+          })
+          const sentHeader = sent.data.payload?.headers?.find(h => h.name?.toLowerCase() === 'message-id')?.value
+          if (sentHeader) {
+            headerMessageId = sentHeader
+          }
+        } catch (error) {
+          console.warn('⚠️ Could not read back Gmail Message-ID header:', error)
+        }
+      }
+
       return {
         messageId: result.data.id || `gmail_api_${Date.now()}`,
-        response: `Gmail API success: ${result.data.id}`
+        response: `Gmail API success: ${result.data.id}`,
+        headerMessageId,
+        threadId: result.data.threadId || undefined
       }
     } catch (error) {
       console.error('Gmail API sending error:', error)
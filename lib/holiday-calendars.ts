@@ -0,0 +1,715 @@
+/**
+ * Public holiday calendars and per-country quiet days.
+ *
+ * Calendars are computed offline for any year from rules (fixed dates, Easter
+ * offsets, "nth weekday of month", weekend substitutes), so no holiday API is
+ * needed. Only nationwide holidays are bundled; regional ones can be added per
+ * campaign through ScheduleSettings.quiet_days.
+ */
+
+export interface Holiday {
+  date: string // YYYY-MM-DD
+  name: string
+  country: string
+  observed?: boolean
+}
+
+export interface QuietDay {
+  date: string
+  name: string
+  country: string | null
+}
+
+export interface QuietDaySettings {
+  avoid_holidays?: boolean
+  avoid_weekends?: boolean
+  holiday_list?: string[]
+  quiet_days?: Record<string, string[]>
+}
+
+export interface ContactLocation {
+  email?: string | null
+  country?: string | null
+  address?: string | null
+  city?: string | null
+  linkedin_country_code?: string | null
+  linkedin_country?: string | null
+  timezone?: string | null
+}
+
+type Observance = 'nearest_weekday' | 'substitute'
+
+type HolidayRule =
+  | { type: 'fixed'; name: string; month: number; day: number; observed?: Observance; fromYear?: number }
+  | { type: 'easter'; name: string; offset: number; fromYear?: number }
+  | { type: 'nth_weekday'; name: string; month: number; weekday: number; nth: number; fromYear?: number }
+  | { type: 'weekday_on_or_after'; name: string; month: number; day: number; weekday: number; fromYear?: number }
+  | { type: 'custom'; name: string; date: (year: number) => Date; fromYear?: number }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MON = 1
+const THU = 4
+const FRI = 5
+
+const NEW_YEAR: HolidayRule = { type: 'fixed', name: "New Year's Day", month: 1, day: 1 }
+const EPIPHANY: HolidayRule = { type: 'fixed', name: 'Epiphany', month: 1, day: 6 }
+const MAUNDY_THURSDAY: HolidayRule = { type: 'easter', name: 'Maundy Thursday', offset: -3 }
+const GOOD_FRIDAY: HolidayRule = { type: 'easter', name: 'Good Friday', offset: -2 }
+const EASTER_MONDAY: HolidayRule = { type: 'easter', name: 'Easter Monday', offset: 1 }
+const LABOUR_DAY: HolidayRule = { type: 'fixed', name: 'Labour Day', month: 5, day: 1 }
+const ASCENSION: HolidayRule = { type: 'easter', name: 'Ascension Day', offset: 39 }
+const WHIT_MONDAY: HolidayRule = { type: 'easter', name: 'Whit Monday', offset: 50 }
+const CORPUS_CHRISTI: HolidayRule = { type: 'easter', name: 'Corpus Christi', offset: 60 }
+const ASSUMPTION: HolidayRule = { type: 'fixed', name: 'Assumption Day', month: 8, day: 15 }
+const ALL_SAINTS: HolidayRule = { type: 'fixed', name: "All Saints' Day", month: 11, day: 1 }
+const IMMACULATE_CONCEPTION: HolidayRule = { type: 'fixed', name: 'Immaculate Conception', month: 12, day: 8 }
+const CHRISTMAS_EVE: HolidayRule = { type: 'fixed', name: 'Christmas Eve', month: 12, day: 24 }
+const CHRISTMAS: HolidayRule = { type: 'fixed', name: 'Christmas Day', month: 12, day: 25 }
+const ST_STEPHENS: HolidayRule = { type: 'fixed', name: "St. Stephen's Day", month: 12, day: 26 }
+const NEW_YEARS_EVE: HolidayRule = { type: 'fixed', name: "New Year's Eve", month: 12, day: 31 }
+const MIDSUMMER_EVE: HolidayRule = { type: 'weekday_on_or_after', name: 'Midsummer Eve', month: 6, day: 19, weekday: FRI }
+
+const HOLIDAY_RULES: Record<string, HolidayRule[]> = {
+  US: [
+    { ...NEW_YEAR, observed: 'nearest_weekday' } as HolidayRule,
+    { type: 'nth_weekday', name: 'Martin Luther King Jr. Day', month: 1, weekday: MON, nth: 3 },
+    { type: 'nth_weekday', name: "Presidents' Day", month: 2, weekday: MON, nth: 3 },
+    { type: 'nth_weekday', name: 'Memorial Day', month: 5, weekday: MON, nth: -1 },
+    { type: 'fixed', name: 'Juneteenth', month: 6, day: 19, observed: 'nearest_weekday', fromYear: 2021 },
+    { type: 'fixed', name: 'Independence Day', month: 7, day: 4, observed: 'nearest_weekday' },
+    { type: 'nth_weekday', name: 'Labor Day', month: 9, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'Columbus Day', month: 10, weekday: MON, nth: 2 },
+    { type: 'fixed', name: 'Veterans Day', month: 11, day: 11, observed: 'nearest_weekday' },
+    { type: 'nth_weekday', name: 'Thanksgiving Day', month: 11, weekday: THU, nth: 4 },
+    { ...CHRISTMAS, observed: 'nearest_weekday' } as HolidayRule,
+  ],
+  CA: [
+    { ...NEW_YEAR, observed: 'substitute' } as HolidayRule,
+    GOOD_FRIDAY,
+    { type: 'weekday_on_or_after', name: 'Victoria Day', month: 5, day: 18, weekday: MON },
+    { type: 'fixed', name: 'Canada Day', month: 7, day: 1, observed: 'substitute' },
+    { type: 'nth_weekday', name: 'Labour Day', month: 9, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'Thanksgiving', month: 10, weekday: MON, nth: 2 },
+    { ...CHRISTMAS, observed: 'substitute' } as HolidayRule,
+    { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+  ],
+  GB: [
+    { ...NEW_YEAR, observed: 'substitute' } as HolidayRule,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    { type: 'nth_weekday', name: 'Early May Bank Holiday', month: 5, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'Spring Bank Holiday', month: 5, weekday: MON, nth: -1 },
+    { type: 'nth_weekday', name: 'Summer Bank Holiday', month: 8, weekday: MON, nth: -1 },
+    { ...CHRISTMAS, observed: 'substitute' } as HolidayRule,
+    { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+  ],
+  IE: [
+    { ...NEW_YEAR, observed: 'substitute' } as HolidayRule,
+    { type: 'custom', name: "St. Brigid's Day", date: stBrigidsDay, fromYear: 2023 },
+    { type: 'fixed', name: "St. Patrick's Day", month: 3, day: 17, observed: 'substitute' },
+    EASTER_MONDAY,
+    { type: 'nth_weekday', name: 'May Bank Holiday', month: 5, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'June Bank Holiday', month: 6, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'August Bank Holiday', month: 8, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: 'October Bank Holiday', month: 10, weekday: MON, nth: -1 },
+    { ...CHRISTMAS, observed: 'substitute' } as HolidayRule,
+    { ...ST_STEPHENS, observed: 'substitute' } as HolidayRule,
+  ],
+  DE: [
+    NEW_YEAR,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    ASCENSION,
+    WHIT_MONDAY,
+    { type: 'fixed', name: 'German Unity Day', month: 10, day: 3 },
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+  ],
+  AT: [
+    NEW_YEAR,
+    EPIPHANY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    ASCENSION,
+    WHIT_MONDAY,
+    CORPUS_CHRISTI,
+    ASSUMPTION,
+    { type: 'fixed', name: 'National Day', month: 10, day: 26 },
+    ALL_SAINTS,
+    IMMACULATE_CONCEPTION,
+    CHRISTMAS,
+    ST_STEPHENS,
+  ],
+  CH: [
+    NEW_YEAR,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    ASCENSION,
+    WHIT_MONDAY,
+    { type: 'fixed', name: 'Swiss National Day', month: 8, day: 1 },
+    CHRISTMAS,
+    ST_STEPHENS,
+  ],
+  FR: [
+    NEW_YEAR,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    { type: 'fixed', name: 'Victory in Europe Day', month: 5, day: 8 },
+    ASCENSION,
+    WHIT_MONDAY,
+    { type: 'fixed', name: 'Bastille Day', month: 7, day: 14 },
+    ASSUMPTION,
+    ALL_SAINTS,
+    { type: 'fixed', name: 'Armistice Day', month: 11, day: 11 },
+    CHRISTMAS,
+  ],
+  BE: [
+    NEW_YEAR,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    ASCENSION,
+    WHIT_MONDAY,
+    { type: 'fixed', name: 'Belgian National Day', month: 7, day: 21 },
+    ASSUMPTION,
+    ALL_SAINTS,
+    { type: 'fixed', name: 'Armistice Day', month: 11, day: 11 },
+    CHRISTMAS,
+  ],
+  NL: [
+    NEW_YEAR,
+    EASTER_MONDAY,
+    { type: 'custom', name: "King's Day", date: kingsDayNL },
+    { type: 'fixed', name: 'Liberation Day', month: 5, day: 5 },
+    ASCENSION,
+    WHIT_MONDAY,
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+  ],
+  ES: [
+    NEW_YEAR,
+    EPIPHANY,
+    GOOD_FRIDAY,
+    LABOUR_DAY,
+    ASSUMPTION,
+    { type: 'fixed', name: 'National Day of Spain', month: 10, day: 12 },
+    ALL_SAINTS,
+    { type: 'fixed', name: 'Constitution Day', month: 12, day: 6 },
+    IMMACULATE_CONCEPTION,
+    CHRISTMAS,
+  ],
+  IT: [
+    NEW_YEAR,
+    EPIPHANY,
+    EASTER_MONDAY,
+    { type: 'fixed', name: 'Liberation Day', month: 4, day: 25 },
+    LABOUR_DAY,
+    { type: 'fixed', name: 'Republic Day', month: 6, day: 2 },
+    ASSUMPTION,
+    ALL_SAINTS,
+    IMMACULATE_CONCEPTION,
+    CHRISTMAS,
+    ST_STEPHENS,
+  ],
+  PT: [
+    NEW_YEAR,
+    GOOD_FRIDAY,
+    { type: 'fixed', name: 'Freedom Day', month: 4, day: 25 },
+    LABOUR_DAY,
+    CORPUS_CHRISTI,
+    { type: 'fixed', name: 'Portugal Day', month: 6, day: 10 },
+    ASSUMPTION,
+    { type: 'fixed', name: 'Republic Day', month: 10, day: 5 },
+    ALL_SAINTS,
+    { type: 'fixed', name: 'Restoration of Independence', month: 12, day: 1 },
+    IMMACULATE_CONCEPTION,
+    CHRISTMAS,
+  ],
+  PL: [
+    NEW_YEAR,
+    EPIPHANY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    { type: 'fixed', name: 'Constitution Day', month: 5, day: 3 },
+    CORPUS_CHRISTI,
+    ASSUMPTION,
+    ALL_SAINTS,
+    { type: 'fixed', name: 'Independence Day', month: 11, day: 11 },
+    { ...CHRISTMAS_EVE, fromYear: 2025 } as HolidayRule,
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+  ],
+  SE: [
+    NEW_YEAR,
+    EPIPHANY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    ASCENSION,
+    { type: 'fixed', name: 'National Day of Sweden', month: 6, day: 6 },
+    MIDSUMMER_EVE,
+    CHRISTMAS_EVE,
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+    NEW_YEARS_EVE,
+  ],
+  DK: [
+    NEW_YEAR,
+    MAUNDY_THURSDAY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    ASCENSION,
+    WHIT_MONDAY,
+    { type: 'fixed', name: 'Constitution Day', month: 6, day: 5 },
+    CHRISTMAS_EVE,
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+  ],
+  NO: [
+    NEW_YEAR,
+    MAUNDY_THURSDAY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    { type: 'fixed', name: 'Constitution Day', month: 5, day: 17 },
+    ASCENSION,
+    WHIT_MONDAY,
+    CHRISTMAS,
+    { ...ST_STEPHENS, name: 'Second Day of Christmas' } as HolidayRule,
+  ],
+  FI: [
+    NEW_YEAR,
+    EPIPHANY,
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    LABOUR_DAY,
+    ASCENSION,
+    MIDSUMMER_EVE,
+    { type: 'fixed', name: 'Independence Day', month: 12, day: 6 },
+    CHRISTMAS_EVE,
+    CHRISTMAS,
+    ST_STEPHENS,
+  ],
+  AU: [
+    { ...NEW_YEAR, observed: 'substitute' } as HolidayRule,
+    { type: 'fixed', name: 'Australia Day', month: 1, day: 26, observed: 'substitute' },
+    GOOD_FRIDAY,
+    EASTER_MONDAY,
+    { type: 'fixed', name: 'Anzac Day', month: 4, day: 25 },
+    { type: 'nth_weekday', name: "King's Birthday", month: 6, weekday: MON, nth: 2 },
+    { ...CHRISTMAS, observed: 'substitute' } as HolidayRule,
+    { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'substitute' },
+  ],
+  BR: [
+    NEW_YEAR,
+    { type: 'easter', name: 'Carnival Monday', offset: -48 },
+    { type: 'easter', name: 'Carnival Tuesday', offset: -47 },
+    GOOD_FRIDAY,
+    { type: 'fixed', name: 'Tiradentes Day', month: 4, day: 21 },
+    LABOUR_DAY,
+    CORPUS_CHRISTI,
+    { type: 'fixed', name: 'Independence Day', month: 9, day: 7 },
+    { type: 'fixed', name: 'Our Lady of Aparecida', month: 10, day: 12 },
+    { type: 'fixed', name: "All Souls' Day", month: 11, day: 2 },
+    { type: 'fixed', name: 'Republic Proclamation Day', month: 11, day: 15 },
+    { type: 'fixed', name: 'Black Consciousness Day', month: 11, day: 20, fromYear: 2024 },
+    CHRISTMAS,
+  ],
+  MX: [
+    NEW_YEAR,
+    { type: 'nth_weekday', name: 'Constitution Day', month: 2, weekday: MON, nth: 1 },
+    { type: 'nth_weekday', name: "Benito Juárez's Birthday", month: 3, weekday: MON, nth: 3 },
+    LABOUR_DAY,
+    { type: 'fixed', name: 'Independence Day', month: 9, day: 16 },
+    { type: 'nth_weekday', name: 'Revolution Day', month: 11, weekday: MON, nth: 3 },
+    CHRISTMAS,
+  ],
+}
+
+export const HOLIDAY_COUNTRIES: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  IE: 'Ireland',
+  DE: 'Germany',
+  AT: 'Austria',
+  CH: 'Switzerland',
+  FR: 'France',
+  BE: 'Belgium',
+  NL: 'Netherlands',
+  ES: 'Spain',
+  IT: 'Italy',
+  PT: 'Portugal',
+  PL: 'Poland',
+  SE: 'Sweden',
+  DK: 'Denmark',
+  NO: 'Norway',
+  FI: 'Finland',
+  AU: 'Australia',
+  BR: 'Brazil',
+  MX: 'Mexico',
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'US', 'us': 'US', 'united states': 'US', 'united states of america': 'US', 'america': 'US', 'vereinigte staaten': 'US',
+  'uk': 'GB', 'united kingdom': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'northern ireland': 'GB', 'grossbritannien': 'GB', 'vereinigtes konigreich': 'GB',
+  'ireland': 'IE', 'eire': 'IE', 'irland': 'IE',
+  'germany': 'DE', 'deutschland': 'DE', 'allemagne': 'DE',
+  'austria': 'AT', 'osterreich': 'AT',
+  'switzerland': 'CH', 'schweiz': 'CH', 'suisse': 'CH', 'svizzera': 'CH',
+  'france': 'FR', 'frankreich': 'FR',
+  'belgium': 'BE', 'belgique': 'BE', 'belgie': 'BE', 'belgien': 'BE',
+  'netherlands': 'NL', 'the netherlands': 'NL', 'holland': 'NL', 'nederland': 'NL', 'niederlande': 'NL',
+  'spain': 'ES', 'espana': 'ES', 'spanien': 'ES',
+  'italy': 'IT', 'italia': 'IT', 'italien': 'IT',
+  'portugal': 'PT',
+  'poland': 'PL', 'polska': 'PL', 'polen': 'PL',
+  'sweden': 'SE', 'sverige': 'SE', 'schweden': 'SE',
+  'denmark': 'DK', 'danmark': 'DK', 'danemark': 'DK',
+  'norway': 'NO', 'norge': 'NO', 'norwegen': 'NO',
+  'finland': 'FI', 'suomi': 'FI', 'finnland': 'FI',
+  'canada': 'CA', 'kanada': 'CA',
+  'australia': 'AU', 'australien': 'AU',
+  'brazil': 'BR', 'brasil': 'BR', 'brasilien': 'BR',
+  'mexico': 'MX', 'mexiko': 'MX',
+}
+
+const TIMEZONE_COUNTRIES: Record<string, string> = {
+  'America/New_York': 'US', 'America/Chicago': 'US', 'America/Denver': 'US', 'America/Phoenix': 'US',
+  'America/Los_Angeles': 'US', 'America/Anchorage': 'US', 'America/Detroit': 'US', 'Pacific/Honolulu': 'US',
+  'America/Toronto': 'CA', 'America/Vancouver': 'CA', 'America/Montreal': 'CA', 'America/Edmonton': 'CA',
+  'America/Winnipeg': 'CA', 'America/Halifax': 'CA',
+  'Europe/London': 'GB', 'Europe/Dublin': 'IE', 'Europe/Berlin': 'DE', 'Europe/Vienna': 'AT',
+  'Europe/Zurich': 'CH', 'Europe/Paris': 'FR', 'Europe/Brussels': 'BE', 'Europe/Amsterdam': 'NL',
+  'Europe/Madrid': 'ES', 'Europe/Rome': 'IT', 'Europe/Lisbon': 'PT', 'Europe/Warsaw': 'PL',
+  'Europe/Stockholm': 'SE', 'Europe/Copenhagen': 'DK', 'Europe/Oslo': 'NO', 'Europe/Helsinki': 'FI',
+  'Australia/Sydney': 'AU', 'Australia/Melbourne': 'AU', 'Australia/Brisbane': 'AU', 'Australia/Perth': 'AU',
+  'Australia/Adelaide': 'AU', 'America/Sao_Paulo': 'BR', 'America/Mexico_City': 'MX',
+}
+
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  US: 'America/New_York', CA: 'America/Toronto', GB: 'Europe/London', IE: 'Europe/Dublin',
+  DE: 'Europe/Berlin', AT: 'Europe/Vienna', CH: 'Europe/Zurich', FR: 'Europe/Paris',
+  BE: 'Europe/Brussels', NL: 'Europe/Amsterdam', ES: 'Europe/Madrid', IT: 'Europe/Rome',
+  PT: 'Europe/Lisbon', PL: 'Europe/Warsaw', SE: 'Europe/Stockholm', DK: 'Europe/Copenhagen',
+  NO: 'Europe/Oslo', FI: 'Europe/Helsinki', AU: 'Australia/Sydney', BR: 'America/Sao_Paulo',
+  MX: 'America/Mexico_City',
+}
+
+const TLD_COUNTRIES: Record<string, string> = {
+  'co.uk': 'GB', 'uk': 'GB', 'ie': 'IE', 'de': 'DE', 'at': 'AT', 'ch': 'CH', 'fr': 'FR', 'be': 'BE',
+  'nl': 'NL', 'es': 'ES', 'it': 'IT', 'pt': 'PT', 'pl': 'PL', 'se': 'SE', 'dk': 'DK', 'no': 'NO',
+  'fi': 'FI', 'ca': 'CA', 'au': 'AU', 'br': 'BR', 'mx': 'MX',
+}
+
+const calendarCache = new Map<string, Holiday[]>()
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function isWeekendDate(date: Date): boolean {
+  const day = date.getUTCDay()
+  return day === 0 || day === 6
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm) as a UTC date
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return utcDate(year, month, day)
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+  if (nth > 0) {
+    const first = utcDate(year, month, 1)
+    const offset = (weekday - first.getUTCDay() + 7) % 7
+    return addDays(first, offset + (nth - 1) * 7)
+  }
+  const last = utcDate(year, month + 1, 0)
+  const offset = (last.getUTCDay() - weekday + 7) % 7
+  return addDays(last, -offset)
+}
+
+function weekdayOnOrAfter(year: number, month: number, day: number, weekday: number): Date {
+  const start = utcDate(year, month, day)
+  return addDays(start, (weekday - start.getUTCDay() + 7) % 7)
+}
+
+/** First Monday of February, or 1 February when it falls on a Friday */
+function stBrigidsDay(year: number): Date {
+  const feb1 = utcDate(year, 2, 1)
+  return feb1.getUTCDay() === FRI ? feb1 : nthWeekday(year, 2, MON, 1)
+}
+
+/** 27 April, moved to the 26th when it falls on a Sunday */
+function kingsDayNL(year: number): Date {
+  const date = utcDate(year, 4, 27)
+  return date.getUTCDay() === 0 ? utcDate(year, 4, 26) : date
+}
+
+function resolveRule(rule: HolidayRule, year: number): Date {
+  switch (rule.type) {
+    case 'fixed':
+      return utcDate(year, rule.month, rule.day)
+    case 'easter':
+      return addDays(getEasterSunday(year), rule.offset)
+    case 'nth_weekday':
+      return nthWeekday(year, rule.month, rule.weekday, rule.nth)
+    case 'weekday_on_or_after':
+      return weekdayOnOrAfter(year, rule.month, rule.day, rule.weekday)
+    case 'custom':
+      return rule.date(year)
+  }
+}
+
+/**
+ * Nationwide public holidays of a country for a year, including observed
+ * (substitute) days for holidays falling on a weekend
+ */
+export function getPublicHolidays(country: string, year: number): Holiday[] {
+  const code = country.toUpperCase()
+  const cacheKey = `${code}:${year}`
+  const cached = calendarCache.get(cacheKey)
+  if (cached) return cached
+
+  const rules = (HOLIDAY_RULES[code] || []).filter(rule => !rule.fromYear || year >= rule.fromYear)
+  const holidays: Holiday[] = rules.map(rule => ({ date: formatDate(resolveRule(rule, year)), name: rule.name, country: code }))
+  const taken = new Set(holidays.map(holiday => holiday.date))
+
+  // Substitute days are assigned in date order so e.g. Christmas and Boxing Day on a weekend get Monday and Tuesday
+  const weekendRules = rules
+    .map(rule => ({ rule, date: resolveRule(rule, year) }))
+    .filter(({ rule, date }) => rule.type === 'fixed' && rule.observed && isWeekendDate(date))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  for (const { rule, date } of weekendRules) {
+    let observed: Date
+    if ((rule as { observed?: Observance }).observed === 'nearest_weekday') {
+      observed = addDays(date, date.getUTCDay() === 6 ? -1 : 1)
+    } else {
+      observed = addDays(date, date.getUTCDay() === 6 ? 2 : 1)
+      while (taken.has(formatDate(observed)) || isWeekendDate(observed)) {
+        observed = addDays(observed, 1)
+      }
+    }
+    const observedDate = formatDate(observed)
+    taken.add(observedDate)
+    holidays.push({ date: observedDate, name: `${rule.name} (observed)`, country: code, observed: true })
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date))
+  calendarCache.set(cacheKey, holidays)
+  return holidays
+}
+
+export function findHoliday(country: string, date: string): Holiday | null {
+  const year = Number(date.slice(0, 4))
+  return getPublicHolidays(country, year).find(holiday => holiday.date === date) || null
+}
+
+export function hasHolidayCalendar(country: string | null | undefined): boolean {
+  return Boolean(country && HOLIDAY_RULES[country.toUpperCase()])
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function toLocalDateString(date: Date, timezone?: string | null): string {
+  if (!timezone) return formatDate(date)
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date)
+  } catch {
+    return formatDate(date)
+  }
+}
+
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\./g, '')
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * ISO country code from a code or a country name ("DE", "Germany", "Deutschland")
+ */
+export function normalizeCountryCode(value: string | null | undefined): string | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    const code = trimmed.toUpperCase()
+    return code === 'UK' ? 'GB' : code
+  }
+  return COUNTRY_ALIASES[normalizeName(trimmed)] || null
+}
+
+export function getCountryFromTimezone(timezone: string | null | undefined): string | null {
+  return (timezone && TIMEZONE_COUNTRIES[timezone]) || null
+}
+
+export function getDefaultTimezone(country: string | null | undefined): string | null {
+  return (country && COUNTRY_TIMEZONES[country.toUpperCase()]) || null
+}
+
+function countryFromAddress(address: string): string | null {
+  const parts = address.split(/[,\n]/).map(part => part.trim()).filter(Boolean)
+  for (const part of parts.reverse()) {
+    const code = COUNTRY_ALIASES[normalizeName(part)]
+    if (code) return code
+  }
+  return null
+}
+
+function countryFromEmail(email: string): string | null {
+  const domain = email.split('@')[1]?.toLowerCase()
+  if (!domain) return null
+  const match = Object.keys(TLD_COUNTRIES)
+    .sort((a, b) => b.length - a.length)
+    .find(tld => domain.endsWith(`.${tld}`))
+  return match ? TLD_COUNTRIES[match] : null
+}
+
+/**
+ * Recipient country from, in order: the country field, LinkedIn location,
+ * the postal address, the timezone and finally the email's country TLD
+ */
+export function inferContactCountry(contact: ContactLocation): string | null {
+  return normalizeCountryCode(contact.country) ||
+    normalizeCountryCode(contact.linkedin_country_code) ||
+    normalizeCountryCode(contact.linkedin_country) ||
+    (contact.address ? countryFromAddress(contact.address) : null) ||
+    (contact.city ? countryFromAddress(contact.city) : null) ||
+    getCountryFromTimezone(contact.timezone) ||
+    (contact.email ? countryFromEmail(contact.email) : null)
+}
+
+/**
+ * Quiet day for a recipient: the campaign's own holiday list, the campaign's
+ * quiet days for the recipient's country (YYYY-MM-DD or recurring MM-DD, "*" for
+ * every country) and the country's public holidays
+ */
+export function findQuietDay(date: string, country: string | null, settings: QuietDaySettings): QuietDay | null {
+  if (settings.holiday_list?.includes(date)) {
+    return { date, name: 'Campaign holiday', country }
+  }
+
+  const quietDays = [
+    ...(settings.quiet_days?.['*'] || []),
+    ...(country ? settings.quiet_days?.[country] || [] : []),
+  ]
+  if (quietDays.includes(date) || quietDays.includes(date.slice(5))) {
+    return { date, name: 'Quiet day', country }
+  }
+
+  if (settings.avoid_holidays !== false && country) {
+    const holiday = findHoliday(country, date)
+    if (holiday) return { date, name: holiday.name, country }
+  }
+
+  return null
+}
+
+/**
+ * Move an instant past the recipient's quiet days (and weekends when avoided),
+ * keeping the time of day. Returns the holidays that caused the delay.
+ */
+export function nextSendableTime(
+  from: Date,
+  options: { country: string | null; timezone?: string | null; settings: QuietDaySettings; maxDays?: number },
+): { sendAt: Date; skipped: QuietDay[] } {
+  const skipped: QuietDay[] = []
+  let sendAt = new Date(from)
+
+  for (let attempt = 0; attempt < (options.maxDays ?? 30); attempt++) {
+    const date = toLocalDateString(sendAt, options.timezone)
+    const quietDay = findQuietDay(date, options.country, options.settings)
+    const weekend = options.settings.avoid_weekends && isWeekendDate(new Date(`${date}T00:00:00Z`))
+    if (!quietDay && !weekend) break
+    if (quietDay) skipped.push(quietDay)
+    sendAt = addDays(sendAt, 1)
+  }
+
+  return { sendAt, skipped }
+}
+
+export interface HolidayPreviewContact extends ContactLocation {
+  id: string
+  first_name?: string | null
+  last_name?: string | null
+}
+
+export interface HolidayDelay {
+  contact_id: string
+  email: string | null
+  name: string | null
+  country: string
+  holiday: string
+  holiday_date: string
+  planned_at: string
+  delayed_until: string
+}
+
+/**
+ * Contacts whose planned batch falls on a quiet day in their country, with the
+ * holiday and the time they will be sent instead
+ */
+export function previewHolidayDelays(
+  contacts: HolidayPreviewContact[],
+  options: { startTime: Date; batchSize: number; intervalMinutes: number; settings: QuietDaySettings; fallbackTimezone?: string },
+): HolidayDelay[] {
+  const delays: HolidayDelay[] = []
+  const batchSize = Math.max(1, options.batchSize)
+
+  contacts.forEach((contact, index) => {
+    const country = inferContactCountry(contact)
+    const timezone = contact.timezone || getDefaultTimezone(country) || options.fallbackTimezone || null
+    const plannedAt = new Date(options.startTime.getTime() + Math.floor(index / batchSize) * options.intervalMinutes * 60 * 1000)
+    const { sendAt, skipped } = nextSendableTime(plannedAt, { country, timezone, settings: { ...options.settings, avoid_weekends: false } })
+    if (skipped.length === 0) return
+
+    delays.push({
+      contact_id: contact.id,
+      email: contact.email || null,
+      name: [contact.first_name, contact.last_name].filter(Boolean).join(' ') || null,
+      country: country || 'Unknown',
+      holiday: skipped[0].name,
+      holiday_date: skipped[0].date,
+      planned_at: plannedAt.toISOString(),
+      delayed_until: sendAt.toISOString(),
+    })
+  })
+
+  return delays
+}
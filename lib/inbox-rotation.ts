@@ -0,0 +1,270 @@
+import type { Tables } from './database.types'
+import { ReputationMonitor } from './reputation-monitor'
+import { getEmailDomain } from './suppression'
+
+/**
+ * Inbox rotation: spread a campaign's sends across a pool of email accounts.
+ *
+ * Each account is weighted by its remaining daily quota, scaled down while it is
+ * still warming up and by the reputation of its sending domain. Contacts that were
+ * already emailed keep their original sender so replies and follow-ups stay in
+ * the same mailbox thread.
+ */
+
+export type SenderEmailAccount = Tables<'email_accounts'>
+
+export interface SenderWarmupPlan {
+  id: string
+  current_week: number | null
+  total_weeks: number | null
+  daily_target: number | null
+  total_sent?: number | null
+}
+
+export interface SenderCandidate {
+  account: SenderEmailAccount
+  warmupPlan: SenderWarmupPlan | null
+  dailyLimit: number
+  sentToday: number
+  reputationScore: number
+}
+
+export interface CampaignSenderSettings {
+  from_email_account_id?: string | null
+  email_account_ids?: string[] | null
+  send_settings?: { rate_limiting?: { account_rotation?: boolean } } | null
+  schedule_settings?: { rate_limiting?: { account_rotation?: boolean } } | null
+}
+
+/** Unscored domains are treated as "good" rather than penalised */
+export const DEFAULT_REPUTATION_SCORE = 75
+/** Domains below this score ("critical" in ReputationMonitor) are taken out of rotation */
+export const MIN_REPUTATION_SCORE = 40
+
+const DEFAULT_DAILY_LIMIT = 50
+const DEFAULT_WARMUP_TARGET = 5
+const MIN_WARMUP_FACTOR = 0.2
+
+/**
+ * Sender pool for a campaign: from_email_account_id first, then the rest of email_account_ids
+ */
+export function getCampaignSenderIds(campaign: CampaignSenderSettings): string[] {
+  const ids = [campaign.from_email_account_id, ...(campaign.email_account_ids || [])]
+  return Array.from(new Set(ids.filter((id): id is string => Boolean(id))))
+}
+
+/**
+ * Rotation is on by default (RateLimitSettings.account_rotation) and only matters with 2+ accounts
+ */
+export function isRotationEnabled(campaign: CampaignSenderSettings): boolean {
+  const rateLimiting = (campaign.send_settings || campaign.schedule_settings)?.rate_limiting
+  return getCampaignSenderIds(campaign).length > 1 && rateLimiting?.account_rotation !== false
+}
+
+/**
+ * Warmup limit takes precedence over the account limit
+ */
+export function getEffectiveDailyLimit(
+  account: Pick<SenderEmailAccount, 'daily_send_limit'>,
+  warmupPlan: SenderWarmupPlan | null,
+): number {
+  const accountLimit = account.daily_send_limit || DEFAULT_DAILY_LIMIT
+  return warmupPlan ? Math.min(accountLimit, warmupPlan.daily_target || DEFAULT_WARMUP_TARGET) : accountLimit
+}
+
+export function getRemainingQuota(candidate: Pick<SenderCandidate, 'dailyLimit' | 'sentToday'>): number {
+  return Math.max(0, candidate.dailyLimit - candidate.sentToday)
+}
+
+/**
+ * A contact pinned to a sender that used up its daily quota waits for the
+ * quota to reset at the next UTC midnight. Returns null while quota is left.
+ */
+export function getPinnedSenderDeferral(
+  candidate: SenderCandidate,
+  now: Date = new Date(),
+): { reason: string; deferredUntil: Date } | null {
+  if (getRemainingQuota(candidate) > 0) return null
+  return {
+    reason: `Original sender ${candidate.account.email} reached its daily limit`,
+    deferredUntil: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+  }
+}
+
+/**
+ * Accounts early in warmup take a smaller share: week 1 of 4 counts 25%, a finished plan 100%
+ */
+export function getWarmupFactor(warmupPlan: SenderWarmupPlan | null): number {
+  if (!warmupPlan || !warmupPlan.total_weeks) return 1
+  const progress = (warmupPlan.current_week || 1) / warmupPlan.total_weeks
+  return Math.min(1, Math.max(MIN_WARMUP_FACTOR, progress))
+}
+
+/**
+ * Relative share of the next send. 0 means the account must not be used right now.
+ */
+export function scoreSenderCandidate(candidate: SenderCandidate): number {
+  const remaining = getRemainingQuota(candidate)
+  if (remaining <= 0 || candidate.reputationScore < MIN_REPUTATION_SCORE) {
+    return 0
+  }
+
+  return remaining * getWarmupFactor(candidate.warmupPlan) * (candidate.reputationScore / 100)
+}
+
+/**
+ * Weighted random pick across the pool. Returns null when no account can send.
+ */
+export function pickSenderCandidate(
+  pool: SenderCandidate[],
+  random: () => number = Math.random,
+): SenderCandidate | null {
+  const weighted = pool
+    .map((candidate) => ({ candidate, weight: scoreSenderCandidate(candidate) }))
+    .filter((entry) => entry.weight > 0)
+
+  if (weighted.length === 0) return null
+
+  const total = weighted.reduce((sum, entry) => sum + entry.weight, 0)
+  let target = random() * total
+
+  for (const entry of weighted) {
+    target -= entry.weight
+    if (target < 0) return entry.candidate
+  }
+
+  return weighted[weighted.length - 1].candidate
+}
+
+/**
+ * Total sends the pool can still make today
+ */
+export function getPoolRemainingQuota(pool: SenderCandidate[]): number {
+  return pool
+    .filter((candidate) => scoreSenderCandidate(candidate) > 0)
+    .reduce((sum, candidate) => sum + getRemainingQuota(candidate), 0)
+}
+
+export function recordSenderSend(candidate: SenderCandidate): void {
+  candidate.sentToday++
+}
+
+/**
+ * Load the active accounts in a sender pool with their warmup plan and reputation.
+ * Accounts come back in the order of accountIds; inactive or foreign accounts are dropped.
+ */
+export async function loadSenderPool(
+  supabase: any,
+  userId: string,
+  accountIds: string[],
+  reputationMonitor: Pick<ReputationMonitor, 'getStoredReputationScore'> = new ReputationMonitor(supabase),
+): Promise<SenderCandidate[]> {
+  if (accountIds.length === 0) return []
+
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .in('id', accountIds)
+
+  if (error) {
+    throw new Error(`Failed to load sender accounts: ${error.message}`)
+  }
+
+  const rows = ((accounts || []) as SenderEmailAccount[])
+    .sort((a, b) => accountIds.indexOf(a.id) - accountIds.indexOf(b.id))
+
+  const planIds = rows
+    .filter((account) => account.warmup_enabled && account.warmup_plan_id)
+    .map((account) => account.warmup_plan_id as string)
+
+  const warmupPlans = new Map<string, SenderWarmupPlan>()
+  if (planIds.length > 0) {
+    const { data: plans, error: plansError } = await supabase
+      .from('warmup_plans')
+      .select('id, current_week, total_weeks, daily_target, total_sent')
+      .in('id', planIds)
+      .eq('status', 'active')
+
+    if (plansError) {
+      throw new Error(`Failed to load warmup plans: ${plansError.message}`)
+    }
+
+    for (const plan of (plans || []) as SenderWarmupPlan[]) {
+      warmupPlans.set(plan.id, plan)
+    }
+  }
+
+  const domainScores = new Map<string, number | null>()
+  const candidates: SenderCandidate[] = []
+
+  for (const account of rows) {
+    const domain = account.domain || getEmailDomain(account.email)
+    if (!domainScores.has(domain)) {
+      domainScores.set(domain, domain ? await reputationMonitor.getStoredReputationScore(domain) : null)
+    }
+
+    const warmupPlan = (account.warmup_enabled && account.warmup_plan_id && warmupPlans.get(account.warmup_plan_id)) || null
+
+    candidates.push({
+      account,
+      warmupPlan,
+      dailyLimit: getEffectiveDailyLimit(account, warmupPlan),
+      sentToday: account.current_daily_sent || 0,
+      reputationScore: domainScores.get(domain) ?? account.reputation_score ?? DEFAULT_REPUTATION_SCORE,
+    })
+  }
+
+  return candidates
+}
+
+/**
+ * Sender that first emailed each contact in this campaign or, for sequence steps,
+ * anywhere in the same sequence. Follow-ups reuse it to keep the thread intact.
+ */
+export async function findThreadSenders(
+  supabase: any,
+  campaign: { id: string; sequence_id?: string | null },
+  contactIds: string[],
+): Promise<Map<string, string>> {
+  const senders = new Map<string, string>()
+  if (contactIds.length === 0) return senders
+
+  let campaignIds = [campaign.id]
+  if (campaign.sequence_id) {
+    const { data: sequenceCampaigns, error: sequenceError } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('sequence_id', campaign.sequence_id)
+
+    if (sequenceError) {
+      throw new Error(`Failed to load sequence campaigns: ${sequenceError.message}`)
+    }
+
+    campaignIds = Array.from(new Set([...campaignIds, ...(sequenceCampaigns || []).map((row: { id: string }) => row.id)]))
+  }
+
+  for (let i = 0; i < contactIds.length; i += 500) {
+    const { data, error } = await supabase
+      .from('email_tracking')
+      .select('contact_id, email_account_id, sent_at')
+      .in('campaign_id', campaignIds)
+      .in('contact_id', contactIds.slice(i, i + 500))
+      .in('status', ['sent', 'delivered', 'opened', 'clicked', 'replied'])
+      .not('email_account_id', 'is', null)
+      .order('sent_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load previous senders: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      if (!senders.has(row.contact_id)) {
+        senders.set(row.contact_id, row.email_account_id)
+      }
+    }
+  }
+
+  return senders
+}
@@ -0,0 +1,337 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from './database.types'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Durable Postgres-backed job queue (job_queue table).
+ *
+ * Workers lease jobs with claim_queue_jobs (FOR UPDATE SKIP LOCKED), so several
+ * workers can drain the same queue without picking up the same job. A lease that
+ * is not completed or extended before its visibility timeout expires makes the
+ * job claimable again, which is how crashed or timed-out workers recover.
+ */
+
+export const JOB_QUEUES = ['campaign_send', 'reply_job', 'enrichment', 'imap_sync', 'contact_import', 'lead_scoring', 'conversation_sync'] as const
+
+export type JobQueueName = (typeof JOB_QUEUES)[number]
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead'
+
+export type QueueJob<TPayload = Record<string, any>> = Omit<Tables<'job_queue'>, 'payload'> & {
+  payload: TPayload
+}
+
+export interface EnqueueOptions {
+  runAt?: Date
+  priority?: number
+  maxAttempts?: number
+  /** Only one pending/running job per queue may hold the same key */
+  dedupeKey?: string
+}
+
+export interface ClaimOptions {
+  limit?: number
+  visibilityTimeoutSeconds?: number
+}
+
+export interface RetryPolicy {
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface JobHandlerContext {
+  workerId: string
+  extendLease: (visibilityTimeoutSeconds?: number) => Promise<boolean>
+}
+
+export type JobHandler<TPayload> = (job: QueueJob<TPayload>, context: JobHandlerContext) => Promise<void>
+
+export interface RunQueueOptions<TPayload> extends ClaimOptions {
+  workerId?: string
+  retryPolicy?: RetryPolicy
+  /** Called once a job has used up its attempts and was moved to the dead-letter state */
+  onDeadLetter?: (job: QueueJob<TPayload>, error: Error) => Promise<void>
+}
+
+export interface QueueRunResult {
+  claimed: number
+  completed: number
+  retried: number
+  deadLettered: number
+  errors: string[]
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+}
+
+const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 300
+
+/**
+ * Exponential backoff: base, 2x base, 4x base ... capped at maxDelayMs
+ */
+export function computeRetryDelayMs(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const exponent = Math.max(0, attempt - 1)
+  return Math.min(policy.baseDelayMs * Math.pow(2, exponent), policy.maxDelayMs)
+}
+
+/**
+ * Decide what happens to a job after a failed attempt
+ */
+export function resolveFailure(
+  job: Pick<QueueJob, 'attempts' | 'max_attempts'>,
+  now: Date = new Date(),
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): { status: 'pending'; runAt: Date } | { status: 'dead' } {
+  if (job.attempts >= job.max_attempts) {
+    return { status: 'dead' }
+  }
+
+  return { status: 'pending', runAt: new Date(now.getTime() + computeRetryDelayMs(job.attempts, policy)) }
+}
+
+export function createWorkerId(prefix: string = 'worker'): string {
+  return `${prefix}-${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Add a job to a queue. Returns null when a live job with the same dedupe key already exists.
+ */
+export async function enqueueJob<TPayload extends Record<string, any>>(
+  supabase: Supabase,
+  queue: JobQueueName,
+  payload: TPayload,
+  options: EnqueueOptions = {},
+): Promise<QueueJob<TPayload> | null> {
+  const { data, error } = await supabase
+    .from('job_queue')
+    .insert({
+      queue,
+      payload: payload as unknown as Json,
+      run_at: (options.runAt || new Date()).toISOString(),
+      priority: options.priority ?? 0,
+      max_attempts: options.maxAttempts ?? 5,
+      dedupe_key: options.dedupeKey ?? null,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return null
+    }
+    throw new Error(`Failed to enqueue ${queue} job: ${error.message}`)
+  }
+
+  return data as QueueJob<TPayload>
+}
+
+/**
+ * Lease due jobs to a worker
+ */
+export async function claimJobs<TPayload = Record<string, any>>(
+  supabase: Supabase,
+  queue: JobQueueName,
+  workerId: string,
+  options: ClaimOptions = {},
+): Promise<QueueJob<TPayload>[]> {
+  const { data, error } = await supabase.rpc('claim_queue_jobs', {
+    p_queue: queue,
+    p_worker_id: workerId,
+    p_limit: options.limit ?? 10,
+    p_visibility_timeout_seconds: options.visibilityTimeoutSeconds ?? DEFAULT_VISIBILITY_TIMEOUT_SECONDS,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim ${queue} jobs: ${error.message}`)
+  }
+
+  return (data || []) as QueueJob<TPayload>[]
+}
+
+export async function extendJobLease(
+  supabase: Supabase,
+  jobId: string,
+  workerId: string,
+  visibilityTimeoutSeconds: number = DEFAULT_VISIBILITY_TIMEOUT_SECONDS,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('extend_queue_job_lease', {
+    p_job_id: jobId,
+    p_worker_id: workerId,
+    p_visibility_timeout_seconds: visibilityTimeoutSeconds,
+  })
+
+  if (error) {
+    console.error(`❌ Failed to extend lease for job ${jobId}:`, error)
+    return false
+  }
+
+  return Boolean(data)
+}
+
+export async function completeJob(supabase: Supabase, job: Pick<QueueJob, 'id'>, workerId: string): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('job_queue')
+    .update({
+      status: 'completed',
+      locked_by: null,
+      locked_until: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    throw new Error(`Failed to complete job ${job.id}: ${error.message}`)
+  }
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the job
+ */
+export async function failJob(
+  supabase: Supabase,
+  job: Pick<QueueJob, 'id' | 'attempts' | 'max_attempts'>,
+  workerId: string,
+  failure: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<JobStatus> {
+  const outcome = resolveFailure(job, new Date(), policy)
+  const message = failure instanceof Error ? failure.message : String(failure)
+
+  const { error } = await supabase
+    .from('job_queue')
+    .update({
+      status: outcome.status,
+      ...(outcome.status === 'pending' ? { run_at: outcome.runAt.toISOString() } : {}),
+      last_error: message.slice(0, 2000),
+      locked_by: null,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+
+  if (error) {
+    throw new Error(`Failed to record failure for job ${job.id}: ${error.message}`)
+  }
+
+  return outcome.status
+}
+
+/**
+ * Move a dead-lettered job back to the queue with a fresh set of attempts
+ */
+export async function requeueDeadJob(supabase: Supabase, jobId: string): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('job_queue')
+    .update({ status: 'pending', attempts: 0, run_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+
+  if (error) {
+    throw new Error(`Failed to requeue job ${jobId}: ${error.message}`)
+  }
+}
+
+export interface QueueStats {
+  counts: Record<string, Record<string, number>>
+  deadLetters: QueueJob[]
+}
+
+/**
+ * Live job counts per queue and status, plus the most recent dead-lettered jobs
+ */
+export async function getQueueStats(supabase: Supabase, deadLetterLimit: number = 20): Promise<QueueStats> {
+  const [{ data: live, error: liveError }, { data: dead, error: deadError }] = await Promise.all([
+    supabase.from('job_queue').select('queue, status').in('status', ['pending', 'running']),
+    supabase
+      .from('job_queue')
+      .select('*')
+      .eq('status', 'dead')
+      .order('updated_at', { ascending: false })
+      .limit(deadLetterLimit),
+  ])
+
+  if (liveError || deadError) {
+    throw new Error(`Failed to load queue stats: ${(liveError || deadError)!.message}`)
+  }
+
+  const counts: QueueStats['counts'] = {}
+  for (const row of live || []) {
+    counts[row.queue] = counts[row.queue] || {}
+    counts[row.queue][row.status] = (counts[row.queue][row.status] || 0) + 1
+  }
+
+  return { counts, deadLetters: (dead || []) as QueueJob[] }
+}
+
+/**
+ * Claim a batch of jobs and run them one by one. Leases are extended in the
+ * background while a handler runs, so long sends do not become visible again.
+ */
+export async function runJobQueue<TPayload = Record<string, any>>(
+  supabase: Supabase,
+  queue: JobQueueName,
+  handler: JobHandler<TPayload>,
+  options: RunQueueOptions<TPayload> = {},
+): Promise<QueueRunResult> {
+  const workerId = options.workerId || createWorkerId(queue)
+  const visibilityTimeoutSeconds = options.visibilityTimeoutSeconds ?? DEFAULT_VISIBILITY_TIMEOUT_SECONDS
+  const result: QueueRunResult = { claimed: 0, completed: 0, retried: 0, deadLettered: 0, errors: [] }
+
+  const jobs = await claimJobs<TPayload>(supabase, queue, workerId, {
+    limit: options.limit,
+    visibilityTimeoutSeconds,
+  })
+  result.claimed = jobs.length
+
+  if (jobs.length > 0) {
+    console.log(`📥 ${workerId} claimed ${jobs.length} ${queue} job(s)`)
+  }
+
+  for (const job of jobs) {
+    const extendLease = (seconds: number = visibilityTimeoutSeconds) =>
+      extendJobLease(supabase, job.id, workerId, seconds)
+
+    const heartbeat = setInterval(async () => {
+      const stillHeld = await extendLease()
+      if (!stillHeld) {
+        console.warn(`⚠️ ${workerId} lost the lease on ${queue} job ${job.id}`)
+      }
+    }, Math.max(1000, (visibilityTimeoutSeconds * 1000) / 2))
+
+    try {
+      await handler(job, { workerId, extendLease })
+      await completeJob(supabase, job, workerId)
+      result.completed++
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error))
+      result.errors.push(`Job ${job.id}: ${failure.message}`)
+      console.error(`❌ ${queue} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, failure)
+
+      try {
+        const status = await failJob(supabase, job, workerId, failure, options.retryPolicy)
+        if (status === 'dead') {
+          result.deadLettered++
+          console.error(`💀 ${queue} job ${job.id} moved to dead-letter after ${job.attempts} attempts`)
+          if (options.onDeadLetter) {
+            await options.onDeadLetter(job, failure)
+          }
+        } else {
+          result.retried++
+        }
+      } catch (recordError) {
+        console.error(`❌ Failed to record failure for ${queue} job ${job.id}:`, recordError)
+      }
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  return result
+}
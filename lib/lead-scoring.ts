@@ -0,0 +1,619 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from './database.types'
+import { enqueueJob, runJobQueue, type QueueRunResult } from './job-queue'
+import { selectAllPages } from './supabase-paging'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Lead scoring.
+ *
+ * A user's lead scoring model combines three kinds of points:
+ *  - firmographic rules over what enrichment knows about the contact
+ *    (industry, company size, job title keywords, country, company, tags),
+ *  - behavioural events (opens, clicks, replies) whose points halve every
+ *    halfLifeDays, so a reply from last week outweighs one from last year,
+ *  - negative signals (bounces, complaints, unsubscribes, out-of-office replies).
+ *
+ * The score is clamped to 0..100 and stored on the contact with an itemized
+ * breakdown. It is recomputed whenever the contact's engagement is recalculated
+ * (tracking events, replies, bounces), after enrichment, for every contact of a
+ * user when they change their model, and daily by the cron so decay is applied.
+ */
+
+export type FirmographicAttribute = 'industry' | 'company_size' | 'position' | 'country' | 'company' | 'tags'
+
+export interface FirmographicRule {
+  id: string
+  label: string
+  attribute: FirmographicAttribute
+  /** Case-insensitive; the rule matches when any keyword is part of the attribute */
+  keywords?: string[]
+  /** Inclusive employee range, only for company_size */
+  minEmployees?: number
+  maxEmployees?: number
+  points: number
+}
+
+export type BehaviourEvent = 'open' | 'click' | 'reply'
+export type NegativeSignal = 'bounce' | 'complaint' | 'unsubscribe' | 'out_of_office'
+
+export interface BehaviourWeight {
+  /** Points of one event on the day it happened */
+  points: number
+  /** Only the most recent maxEvents events of a kind count */
+  maxEvents: number
+}
+
+export interface LeadScoringModel {
+  firmographic: FirmographicRule[]
+  behaviour: Record<BehaviourEvent, BehaviourWeight>
+  /** Days after which a behavioural event is worth half its points */
+  halfLifeDays: number
+  /**
+   * Points (usually negative) applied once when the signal is present.
+   * Out-of-office replies decay like behavioural events; the others are permanent.
+   */
+  negative: Record<NegativeSignal, number>
+}
+
+export const BEHAVIOUR_EVENTS: BehaviourEvent[] = ['open', 'click', 'reply']
+export const NEGATIVE_SIGNALS: NegativeSignal[] = ['bounce', 'complaint', 'unsubscribe', 'out_of_office']
+
+export const FIRMOGRAPHIC_ATTRIBUTE_LABELS: Record<FirmographicAttribute, string> = {
+  industry: 'Industry',
+  company_size: 'Company size',
+  position: 'Job title',
+  country: 'Country',
+  company: 'Company',
+  tags: 'Tags',
+}
+
+const EVENT_LABELS: Record<BehaviourEvent | NegativeSignal, string> = {
+  open: 'Email opens',
+  click: 'Link clicks',
+  reply: 'Replies',
+  bounce: 'Bounced',
+  complaint: 'Spam complaint',
+  unsubscribe: 'Unsubscribed',
+  out_of_office: 'Out of office',
+}
+
+export const DEFAULT_LEAD_SCORING_MODEL: LeadScoringModel = {
+  firmographic: [
+    {
+      id: 'decision-maker',
+      label: 'Decision maker',
+      attribute: 'position',
+      keywords: ['ceo', 'cto', 'cfo', 'coo', 'cmo', 'founder', 'owner', 'managing director', 'geschäftsführer', 'head of', 'director', 'vp'],
+      points: 15,
+    },
+    {
+      id: 'mid-size-company',
+      label: '11-500 employees',
+      attribute: 'company_size',
+      minEmployees: 11,
+      maxEmployees: 500,
+      points: 10,
+    },
+  ],
+  behaviour: {
+    open: { points: 5, maxEvents: 3 },
+    click: { points: 10, maxEvents: 3 },
+    reply: { points: 30, maxEvents: 2 },
+  },
+  halfLifeDays: 30,
+  negative: {
+    bounce: -50,
+    complaint: -100,
+    unsubscribe: -100,
+    out_of_office: -5,
+  },
+}
+
+/** Stale scores are recomputed by the cron so decay shows up without new events */
+export const LEAD_SCORE_STALE_HOURS = 24
+
+export interface LeadScoreContact {
+  position?: string | null
+  company?: string | null
+  country?: string | null
+  tags?: string[] | null
+  custom_fields?: Json | null
+  enrichment_data?: Json | null
+  linkedin_industry?: string | null
+  linkedin_current_position?: string | null
+  linkedin_headline?: string | null
+  linkedin_country?: string | null
+  linkedin_profile_data?: Json | null
+  unsubscribed_at?: string | null
+}
+
+export interface LeadScoreEvent {
+  type: BehaviourEvent | NegativeSignal
+  occurredAt: string
+}
+
+export interface LeadScoreItem {
+  category: 'firmographic' | 'behaviour' | 'negative'
+  /** Rule id for firmographic items, the event type otherwise */
+  key: string
+  label: string
+  count: number
+  points: number
+}
+
+export interface LeadScoreBreakdown {
+  score: number
+  /** Sum of all items before clamping to 0..100 */
+  rawScore: number
+  items: LeadScoreItem[]
+  computedAt: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const asRecord = (value: unknown): Record<string, any> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {}
+
+const textValues = (...values: unknown[]): string[] =>
+  values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+
+const roundPoints = (points: number): number => Math.round(points * 10) / 10
+
+/**
+ * Employee count from values like 250, "51-200", "1,000+" or "10.000 employees".
+ * Ranges resolve to their lower bound.
+ */
+export function parseCompanySize(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? Math.round(value) : null
+  }
+  if (typeof value !== 'string') return null
+
+  const match = value.match(/\d[\d.,]*/)
+  if (!match) return null
+
+  const count = parseInt(match[0].replace(/[.,](?=\d{3}(\D|$))/g, ''), 10)
+  return Number.isFinite(count) && count > 0 ? count : null
+}
+
+/** Values a firmographic attribute can match for a contact, from its own fields and enrichment data */
+export function getFirmographicValues(contact: LeadScoreContact, attribute: FirmographicAttribute): string[] {
+  const enrichment = asRecord(contact.enrichment_data)
+  const linkedin = asRecord(contact.linkedin_profile_data)
+
+  switch (attribute) {
+    case 'industry':
+      return textValues(enrichment.industry, contact.linkedin_industry, linkedin.industry)
+    case 'position':
+      return textValues(contact.position, contact.linkedin_current_position, linkedin.position, contact.linkedin_headline)
+    case 'country':
+      return textValues(contact.country, contact.linkedin_country, linkedin.country)
+    case 'company':
+      return textValues(contact.company, enrichment.company_name, linkedin.current_company)
+    case 'tags':
+      return textValues(...(contact.tags || []))
+    case 'company_size': {
+      const size = getCompanySize(contact)
+      return size === null ? [] : [String(size)]
+    }
+  }
+}
+
+export function getCompanySize(contact: LeadScoreContact): number | null {
+  const enrichment = asRecord(contact.enrichment_data)
+  const linkedin = asRecord(contact.linkedin_profile_data)
+  const custom = asRecord(contact.custom_fields)
+
+  const candidates = [
+    enrichment.company_size,
+    enrichment.employee_count,
+    enrichment.employees,
+    linkedin.company_size,
+    custom.company_size,
+    custom.employees,
+  ]
+  for (const candidate of candidates) {
+    const size = parseCompanySize(candidate)
+    if (size !== null) return size
+  }
+  return null
+}
+
+function firmographicRuleMatches(contact: LeadScoreContact, rule: FirmographicRule): boolean {
+  if (rule.attribute === 'company_size') {
+    const size = getCompanySize(contact)
+    if (size === null) return false
+    if (rule.minEmployees === undefined && rule.maxEmployees === undefined) return false
+    return (rule.minEmployees === undefined || size >= rule.minEmployees) &&
+      (rule.maxEmployees === undefined || size <= rule.maxEmployees)
+  }
+
+  const keywords = (rule.keywords || []).map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+  if (keywords.length === 0) return false
+
+  const values = getFirmographicValues(contact, rule.attribute).map(value => value.toLowerCase())
+  if (rule.attribute === 'tags') {
+    return values.some(value => keywords.includes(value))
+  }
+  return values.some(value => keywords.some(keyword => value.includes(keyword)))
+}
+
+/** Weight of an event that happened ageDays ago */
+export function decayFactor(ageDays: number, halfLifeDays: number): number {
+  if (ageDays <= 0 || halfLifeDays <= 0) return 1
+  return Math.pow(0.5, ageDays / halfLifeDays)
+}
+
+/**
+ * Score a contact. Pure: all data is passed in, so the same function serves
+ * the bulk recalculation, previews and tests.
+ */
+export function computeLeadScore(
+  contact: LeadScoreContact,
+  events: LeadScoreEvent[],
+  model: LeadScoringModel = DEFAULT_LEAD_SCORING_MODEL,
+  now: Date = new Date()
+): LeadScoreBreakdown {
+  const items: LeadScoreItem[] = []
+
+  for (const rule of model.firmographic) {
+    if (rule.points !== 0 && firmographicRuleMatches(contact, rule)) {
+      items.push({ category: 'firmographic', key: rule.id, label: rule.label, count: 1, points: rule.points })
+    }
+  }
+
+  const ageInDays = (event: LeadScoreEvent) => (now.getTime() - new Date(event.occurredAt).getTime()) / DAY_MS
+  const eventsOf = (type: LeadScoreEvent['type']) => events
+    .filter(event => event.type === type && !Number.isNaN(new Date(event.occurredAt).getTime()))
+    .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime())
+
+  for (const type of BEHAVIOUR_EVENTS) {
+    const weight = model.behaviour[type]
+    const matching = eventsOf(type)
+    if (!weight || matching.length === 0) continue
+
+    const points = matching
+      .slice(0, Math.max(0, weight.maxEvents))
+      .reduce((sum, event) => sum + weight.points * decayFactor(ageInDays(event), model.halfLifeDays), 0)
+
+    items.push({ category: 'behaviour', key: type, label: EVENT_LABELS[type], count: matching.length, points: roundPoints(points) })
+  }
+
+  for (const type of NEGATIVE_SIGNALS) {
+    const penalty = model.negative[type] ?? 0
+    const matching = eventsOf(type)
+    if (penalty === 0 || matching.length === 0) continue
+
+    const points = type === 'out_of_office'
+      ? penalty * decayFactor(ageInDays(matching[0]), model.halfLifeDays)
+      : penalty
+
+    items.push({ category: 'negative', key: type, label: EVENT_LABELS[type], count: matching.length, points: roundPoints(points) })
+  }
+
+  const rawScore = roundPoints(items.reduce((sum, item) => sum + item.points, 0))
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(rawScore))),
+    rawScore,
+    items,
+    computedAt: now.toISOString(),
+  }
+}
+
+type TrackingEventRow = Pick<
+  Database['public']['Tables']['email_tracking']['Row'],
+  'opened_at' | 'first_opened_at' | 'last_opened_at' | 'clicked_at' | 'last_clicked_at' | 'replied_at' |
+  'bounced_at' | 'complained_at' | 'unsubscribed_at' | 'status' | 'sent_at'
+>
+
+type ReplyEventRow = Pick<Database['public']['Tables']['email_replies']['Row'], 'reply_type' | 'created_at'>
+
+/**
+ * Scoring events of one contact. Each tracked email yields at most one event of
+ * each kind; replies come from tracking, out-of-office replies and unsubscribe
+ * requests from the classified replies.
+ */
+export function collectLeadScoreEvents(
+  contact: Pick<LeadScoreContact, 'unsubscribed_at'>,
+  tracking: TrackingEventRow[],
+  replies: ReplyEventRow[]
+): LeadScoreEvent[] {
+  const events: LeadScoreEvent[] = []
+  const push = (type: LeadScoreEvent['type'], occurredAt: string | null | undefined) => {
+    if (occurredAt) events.push({ type, occurredAt })
+  }
+
+  for (const row of tracking) {
+    push('open', row.last_opened_at || row.opened_at || row.first_opened_at)
+    push('click', row.last_clicked_at || row.clicked_at)
+    push('reply', row.replied_at)
+    push('bounce', row.bounced_at || (row.status === 'bounced' ? row.sent_at : null))
+    push('complaint', row.complained_at)
+    push('unsubscribe', row.unsubscribed_at)
+  }
+
+  for (const reply of replies) {
+    if (reply.reply_type === 'auto_reply') push('out_of_office', reply.created_at)
+    if (reply.reply_type === 'unsubscribe') push('unsubscribe', reply.created_at)
+  }
+
+  push('unsubscribe', contact.unsubscribed_at)
+
+  return events
+}
+
+/** Read a stored model leniently, falling back to the defaults for anything missing or malformed */
+export function normalizeLeadScoringModel(input: unknown): LeadScoringModel {
+  const stored = asRecord(input)
+  const behaviour = asRecord(stored.behaviour)
+  const negative = asRecord(stored.negative)
+  const toNumber = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+  const firmographic = Array.isArray(stored.firmographic)
+    ? stored.firmographic
+      .map(asRecord)
+      .filter(rule => typeof rule.id === 'string' && rule.attribute in FIRMOGRAPHIC_ATTRIBUTE_LABELS)
+      .map(rule => ({
+        id: rule.id,
+        label: typeof rule.label === 'string' ? rule.label : rule.id,
+        attribute: rule.attribute as FirmographicAttribute,
+        keywords: Array.isArray(rule.keywords) ? rule.keywords.filter((k: unknown) => typeof k === 'string') : undefined,
+        minEmployees: typeof rule.minEmployees === 'number' ? rule.minEmployees : undefined,
+        maxEmployees: typeof rule.maxEmployees === 'number' ? rule.maxEmployees : undefined,
+        points: toNumber(rule.points, 0),
+      }))
+    : DEFAULT_LEAD_SCORING_MODEL.firmographic
+
+  return {
+    firmographic,
+    behaviour: Object.fromEntries(BEHAVIOUR_EVENTS.map(type => {
+      const fallback = DEFAULT_LEAD_SCORING_MODEL.behaviour[type]
+      const weight = asRecord(behaviour[type])
+      return [type, { points: toNumber(weight.points, fallback.points), maxEvents: toNumber(weight.maxEvents, fallback.maxEvents) }]
+    })) as Record<BehaviourEvent, BehaviourWeight>,
+    halfLifeDays: toNumber(stored.halfLifeDays, DEFAULT_LEAD_SCORING_MODEL.halfLifeDays),
+    negative: Object.fromEntries(NEGATIVE_SIGNALS.map(type =>
+      [type, toNumber(negative[type], DEFAULT_LEAD_SCORING_MODEL.negative[type])]
+    )) as Record<NegativeSignal, number>,
+  }
+}
+
+export async function getLeadScoringModel(supabase: Supabase, userId: string): Promise<LeadScoringModel> {
+  const { data, error } = await supabase
+    .from('lead_scoring_models')
+    .select('model')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load lead scoring model: ${error.message}`)
+  }
+
+  return data ? normalizeLeadScoringModel(data.model) : DEFAULT_LEAD_SCORING_MODEL
+}
+
+/**
+ * Save a user's model and queue the rescoring of all their contacts
+ */
+export async function saveLeadScoringModel(
+  supabase: Supabase,
+  userId: string,
+  model: LeadScoringModel
+): Promise<LeadScoringModel> {
+  const { error } = await supabase
+    .from('lead_scoring_models')
+    .upsert({
+      user_id: userId,
+      model: model as unknown as Json,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' })
+
+  if (error) {
+    throw new Error(`Failed to save lead scoring model: ${error.message}`)
+  }
+
+  await enqueueJob(supabase, 'lead_scoring', { userId }, { dedupeKey: `lead_scoring:${userId}`, maxAttempts: 3 })
+
+  return model
+}
+
+const LEAD_SCORE_CONTACT_COLUMNS =
+  'id, position, company, country, tags, custom_fields, enrichment_data, linkedin_industry, linkedin_current_position, ' +
+  'linkedin_headline, linkedin_country, linkedin_profile_data, unsubscribed_at, lead_score'
+
+const RESCORE_BATCH_SIZE = 200
+
+/**
+ * Recompute and store the lead scores of some of a user's contacts
+ */
+export async function recalculateLeadScores(
+  supabase: Supabase,
+  userId: string,
+  contactIds: string[],
+  model?: LeadScoringModel
+): Promise<{ updated: number; failed: number }> {
+  const scoringModel = model || await getLeadScoringModel(supabase, userId)
+  let updated = 0
+  let failed = 0
+
+  for (let start = 0; start < contactIds.length; start += RESCORE_BATCH_SIZE) {
+    const ids = contactIds.slice(start, start + RESCORE_BATCH_SIZE)
+
+    const [contactsResult, trackingResult, repliesResult] = await Promise.all([
+      supabase.from('contacts').select(LEAD_SCORE_CONTACT_COLUMNS).eq('user_id', userId).in('id', ids),
+      selectAllPages((from, to) => supabase
+        .from('email_tracking')
+        .select('id, contact_id, opened_at, first_opened_at, last_opened_at, clicked_at, last_clicked_at, replied_at, bounced_at, complained_at, unsubscribed_at, status, sent_at')
+        .in('contact_id', ids)
+        .order('id')
+        .range(from, to)),
+      selectAllPages((from, to) => supabase
+        .from('email_replies')
+        .select('id, contact_id, reply_type, created_at')
+        .eq('user_id', userId)
+        .in('contact_id', ids)
+        .in('reply_type', ['auto_reply', 'unsubscribe'])
+        .order('id')
+        .range(from, to)),
+    ])
+
+    const lookupError = contactsResult.error || trackingResult.error || repliesResult.error
+    if (lookupError) {
+      console.error('recalculateLeadScores: lookup failed', lookupError)
+      failed += ids.length
+      continue
+    }
+
+    const now = new Date()
+    const contacts = (contactsResult.data || []) as unknown as Array<LeadScoreContact & { id: string; lead_score: number }>
+
+    for (const contact of contacts) {
+      const breakdown = computeLeadScore(
+        contact,
+        collectLeadScoreEvents(
+          contact,
+          (trackingResult.data || []).filter(row => row.contact_id === contact.id),
+          (repliesResult.data || []).filter(row => row.contact_id === contact.id)
+        ),
+        scoringModel,
+        now
+      )
+
+      const { error } = await supabase
+        .from('contacts')
+        .update({
+          lead_score: breakdown.score,
+          lead_score_breakdown: breakdown as unknown as Json,
+          lead_score_updated_at: breakdown.computedAt,
+        })
+        .eq('id', contact.id)
+
+      if (error) {
+        console.error(`recalculateLeadScores: failed to update contact ${contact.id}`, error)
+        failed++
+      } else {
+        updated++
+      }
+    }
+  }
+
+  return { updated, failed }
+}
+
+/**
+ * Recompute one contact's lead score, e.g. after one of its engagement events
+ */
+export async function recalculateLeadScore(supabase: Supabase, contactId: string): Promise<void> {
+  const { data: contact, error } = await supabase
+    .from('contacts')
+    .select('user_id')
+    .eq('id', contactId)
+    .single()
+
+  if (error || !contact?.user_id) {
+    console.error('recalculateLeadScore: contact lookup failed', error)
+    return
+  }
+
+  await recalculateLeadScores(supabase, contact.user_id, [contactId])
+}
+
+const DEFAULT_TIME_BUDGET_MS = 45_000
+
+export interface LeadScoringRunResult {
+  queue: QueueRunResult
+  /** Contacts rescored because their score was older than LEAD_SCORE_STALE_HOURS */
+  staleContacts: number
+}
+
+/**
+ * Rescore every contact of a user, in contact id order from afterContactId.
+ * Returns the id to continue from when the time budget ran out.
+ */
+async function rescoreUserContacts(
+  supabase: Supabase,
+  userId: string,
+  afterContactId: string | null,
+  deadline: number
+): Promise<string | null> {
+  const model = await getLeadScoringModel(supabase, userId)
+  let cursor = afterContactId
+
+  while (Date.now() < deadline) {
+    let query = supabase
+      .from('contacts')
+      .select('id')
+      .eq('user_id', userId)
+      .order('id', { ascending: true })
+      .limit(RESCORE_BATCH_SIZE)
+    if (cursor) query = query.gt('id', cursor)
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to list contacts for rescoring: ${error.message}`)
+    }
+    if (!data || data.length === 0) return null
+
+    await recalculateLeadScores(supabase, userId, data.map(contact => contact.id), model)
+    cursor = data[data.length - 1].id
+    if (data.length < RESCORE_BATCH_SIZE) return null
+  }
+
+  return cursor
+}
+
+/**
+ * Drain the lead_scoring queue (full rescoring after a model change), then use
+ * the rest of the time budget to rescore contacts whose score has gone stale.
+ */
+export async function runLeadScoring(
+  supabase: Supabase,
+  options: { timeBudgetMs?: number; staleLimit?: number } = {}
+): Promise<LeadScoringRunResult> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS)
+
+  const queue = await runJobQueue<{ userId: string; afterContactId?: string }>(
+    supabase,
+    'lead_scoring',
+    async (job) => {
+      const { userId, afterContactId } = job.payload
+      const resumeFrom = await rescoreUserContacts(supabase, userId, afterContactId ?? null, deadline)
+      if (resumeFrom) {
+        await enqueueJob(supabase, 'lead_scoring', { userId, afterContactId: resumeFrom }, { maxAttempts: 3 })
+      }
+    },
+    { limit: 5, visibilityTimeoutSeconds: 120 }
+  )
+
+  let staleContacts = 0
+  if (Date.now() < deadline) {
+    const staleBefore = new Date(Date.now() - LEAD_SCORE_STALE_HOURS * 60 * 60 * 1000).toISOString()
+    const { data: stale, error } = await supabase
+      .from('contacts')
+      .select('id, user_id')
+      .or(`lead_score_updated_at.is.null,lead_score_updated_at.lt.${staleBefore}`)
+      .order('lead_score_updated_at', { ascending: true, nullsFirst: true })
+      .limit(options.staleLimit ?? 1000)
+
+    if (error) {
+      queue.errors.push(`Failed to list stale lead scores: ${error.message}`)
+    } else {
+      const byUser = new Map<string, string[]>()
+      for (const contact of stale || []) {
+        if (!contact.user_id) continue
+        byUser.set(contact.user_id, [...(byUser.get(contact.user_id) || []), contact.id])
+      }
+      for (const [userId, contactIds] of byUser) {
+        if (Date.now() >= deadline) break
+        const result = await recalculateLeadScores(supabase, userId, contactIds)
+        staleContacts += result.updated
+      }
+    }
+  }
+
+  return { queue, staleContacts }
+}
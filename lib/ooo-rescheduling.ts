@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { getContactOOOStatus } from './contact-ooo-helper'
+import { createReferralsFromReply, enrollReferral, ReferralEnrollmentError, type ContactReferral } from './referrals'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Out-of-office aware scheduling.
+ *
+ * An auto-reply sets contacts.auto_reply_until. Until that date plus the
+ * campaign's buffer, the contact's next campaign email or sequence step is
+ * postponed instead of sent or dropped: batch sends defer the contact to an
+ * extra batch, follow-up jobs move their scheduled_at, and sequence links
+ * still move the contact on with the send held back. Every postponement is
+ * recorded for the contact's engagement timeline. The alternate named in the
+ * auto-reply is offered as a referral and, when the campaign asks for it,
+ * enrolled right away.
+ */
+
+export type OOOPostponement = Tables<'ooo_postponements'>
+
+export type OOOPostponementStage = 'campaign' | 'sequence_step' | 'sequence_link'
+
+export interface OOOPostponementWithCampaign extends OOOPostponement {
+  campaign: Pick<Tables<'campaigns'>, 'id' | 'name'> | null
+}
+
+export interface OOOSettingsSource {
+  send_settings?: { out_of_office?: { buffer_days?: number | null; enroll_alternates?: boolean } | null } | null
+  schedule_settings?: { out_of_office?: { buffer_days?: number | null; enroll_alternates?: boolean } | null } | null
+}
+
+export interface OOORules {
+  bufferDays: number
+  enrollAlternates: boolean
+}
+
+export interface OOOPostponementInput {
+  userId: string
+  contactId: string
+  campaignId: string
+  emailJobId?: string | null
+  stage: OOOPostponementStage
+  autoReplyUntil: string
+  postponedUntil: Date
+}
+
+export interface OOOAlternateInput {
+  incomingEmailId: string
+  fromAddress: string
+  toAddress?: string | null
+  text: string
+  forwardedTo: string
+  contactId: string
+  campaignId: string
+}
+
+export const DEFAULT_OOO_BUFFER_DAYS = 1
+const MAX_OOO_BUFFER_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Rules from the campaign's out-of-office settings; the buffer defaults to one day
+ */
+export function resolveOOORules(campaign: OOOSettingsSource): OOORules {
+  const settings = (campaign.send_settings || campaign.schedule_settings)?.out_of_office
+  const bufferDays = settings?.buffer_days
+  return {
+    bufferDays: typeof bufferDays === 'number' && Number.isFinite(bufferDays) && bufferDays >= 0
+      ? Math.min(bufferDays, MAX_OOO_BUFFER_DAYS)
+      : DEFAULT_OOO_BUFFER_DAYS,
+    enrollAlternates: settings?.enroll_alternates === true,
+  }
+}
+
+/**
+ * When a contact can be emailed again: the return date plus the buffer, or
+ * null when the contact is not out of office (anymore)
+ */
+export function getOOOResumeTime(
+  contact: { auto_reply_until?: string | null },
+  bufferDays: number,
+  now: Date = new Date()
+): Date | null {
+  const { autoReplyUntil } = getContactOOOStatus(contact)
+  if (!autoReplyUntil) return null
+
+  const resumeAt = new Date(new Date(autoReplyUntil).getTime() + bufferDays * DAY_MS)
+  if (Number.isNaN(resumeAt.getTime()) || resumeAt <= now) return null
+  return resumeAt
+}
+
+export function oooPostponementReason(autoReplyUntil: string): string {
+  return `Out of office until ${autoReplyUntil.slice(0, 10)}`
+}
+
+/**
+ * Record a postponement; repeating the same one (same campaign and date) is a no-op
+ */
+export async function recordOOOPostponement(supabase: Supabase, input: OOOPostponementInput): Promise<void> {
+  const { error } = await supabase
+    .from('ooo_postponements')
+    .upsert({
+      user_id: input.userId,
+      contact_id: input.contactId,
+      campaign_id: input.campaignId,
+      email_job_id: input.emailJobId || null,
+      stage: input.stage,
+      auto_reply_until: input.autoReplyUntil,
+      postponed_until: input.postponedUntil.toISOString(),
+    }, { onConflict: 'campaign_id,contact_id,postponed_until', ignoreDuplicates: true })
+
+  if (error) {
+    throw new Error(`Failed to record out-of-office postponement: ${error.message}`)
+  }
+}
+
+export async function listContactPostponements(
+  supabase: Supabase,
+  userId: string,
+  contactId: string
+): Promise<OOOPostponementWithCampaign[]> {
+  const { data, error } = await supabase
+    .from('ooo_postponements')
+    .select('*, campaign:campaigns(id, name)')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load out-of-office postponements: ${error.message}`)
+  }
+
+  return (data || []) as OOOPostponementWithCampaign[]
+}
+
+/**
+ * Offer the alternate named in an auto-reply as a referral, and enrol it in
+ * the campaign when the campaign's out-of-office settings ask for it
+ */
+export async function referOOOAlternate(
+  supabase: Supabase,
+  userId: string,
+  input: OOOAlternateInput
+): Promise<{ referrals: ContactReferral[]; enrolled: ContactReferral[] }> {
+  const referrals = await createReferralsFromReply(supabase, userId, {
+    incomingEmailId: input.incomingEmailId,
+    fromAddress: input.fromAddress,
+    toAddress: input.toAddress,
+    text: input.text,
+    referrerContactId: input.contactId,
+    campaignId: input.campaignId,
+    source: 'out_of_office',
+    emails: [input.forwardedTo],
+  })
+  if (referrals.length === 0) return { referrals, enrolled: [] }
+
+  const { data: campaign } = await supabase
+    .from('campaigns')
+    .select('send_settings')
+    .eq('id', input.campaignId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!campaign || !resolveOOORules(campaign as unknown as OOOSettingsSource).enrollAlternates) {
+    return { referrals, enrolled: [] }
+  }
+
+  const enrolled: ContactReferral[] = []
+  for (const referral of referrals) {
+    try {
+      const result = await enrollReferral(supabase, userId, referral.id)
+      if (result) enrolled.push(result)
+    } catch (error) {
+      // Campaigns that cannot take new contacts keep the alternate as a suggestion
+      if (!(error instanceof ReferralEnrollmentError)) throw error
+      console.warn(`⚠️ Out-of-office alternate ${referral.contact_id} not enrolled: ${error.message}`)
+    }
+  }
+  return { referrals, enrolled }
+}
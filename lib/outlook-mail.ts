@@ -0,0 +1,102 @@
+import MailComposer from 'nodemailer/lib/mail-composer'
+import { OAuthTokens, OAuthTokenManager } from './oauth-providers'
+import type { SendEmailOptions } from './gmail-imap-smtp'
+
+const GRAPH_SEND_MAIL_URL = 'https://graph.microsoft.com/v1.0/me/sendMail'
+
+/**
+ * Outlook / Microsoft 365 sending through Microsoft Graph.
+ *
+ * Messages are posted as MIME so custom headers (In-Reply-To, References,
+ * List-Unsubscribe) and our own Message-ID survive; the JSON message format only
+ * allows x- headers.
+ */
+export class OutlookMailService {
+  private tokens: OAuthTokens
+  private userEmail: string
+
+  constructor(tokens: OAuthTokens, userEmail: string) {
+    this.tokens = tokens
+    this.userEmail = userEmail
+  }
+
+  private async ensureFreshTokens(): Promise<OAuthTokens> {
+    try {
+      this.tokens = await OAuthTokenManager.refreshTokensIfNeeded('outlook', this.tokens)
+      return this.tokens
+    } catch (error) {
+      console.error('❌ Failed to refresh Outlook OAuth tokens:', error)
+      console.warn('⚠️ Using potentially expired tokens as fallback')
+      return this.tokens
+    }
+  }
+
+  async sendEmail(options: SendEmailOptions): Promise<{ messageId: string; response: string; headerMessageId: string }> {
+    const freshTokens = await this.ensureFreshTokens()
+
+    const domain = this.userEmail.split('@')[1] || 'outlook.com'
+    const headerMessageId = `<${Date.now()}.${Math.random().toString(36).substring(2, 15)}@${domain}>`
+
+    const mime = await new MailComposer({
+      from: options.senderName ? { name: options.senderName, address: this.userEmail } : this.userEmail,
+      to: options.to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: options.subject,
+      text: options.text || (options.html ? options.html.replace(/<[^>]*>/g, '') : ''),
+      html: options.html,
+      messageId: headerMessageId,
+      inReplyTo: options.inReplyTo,
+      references: options.references,
+      headers: options.headers,
+      attachments: options.attachments,
+    }).compile().build()
+
+    const response = await fetch(GRAPH_SEND_MAIL_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${freshTokens.access_token}`,
+        'Content-Type': 'text/plain',
+      },
+      body: mime.toString('base64'),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Failed to send email via Microsoft Graph: ${response.status} ${error}`)
+    }
+
+    console.log(`✅ Outlook email sent via Microsoft Graph: ${headerMessageId}`)
+
+    return {
+      messageId: headerMessageId,
+      response: `Microsoft Graph accepted (${response.status})`,
+      headerMessageId,
+    }
+  }
+}
+
+/**
+ * Build an Outlook sender from an email_accounts row
+ */
+export function createOutlookMailService(account: {
+  email: string
+  access_token: string | null
+  refresh_token: string | null
+  token_expires_at: string | null
+}): OutlookMailService {
+  if (!account.access_token || !account.refresh_token) {
+    throw new Error('No OAuth tokens found for this account')
+  }
+
+  return new OutlookMailService(
+    {
+      access_token: account.access_token,
+      refresh_token: account.refresh_token,
+      expires_at: account.token_expires_at ? new Date(account.token_expires_at).getTime() : 0,
+      scope: 'https://graph.microsoft.com/Mail.Send',
+      token_type: 'Bearer',
+    },
+    account.email
+  )
+}
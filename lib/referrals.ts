@@ -0,0 +1,520 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { stripQuotedText } from './email-classifier'
+import { ContactService } from './contacts'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * Referrals from "wrong person" replies.
+ *
+ * When a reply is classified as wrong_person, the people it names ("talk to
+ * Jane Doe, jane@acme.com, our Head of Marketing") are created as contacts
+ * linked to the replying contact (contacts.referred_by_contact_id). New
+ * contacts copy the referrer's company and website, so the company trigger
+ * puts colleagues with a personal mailbox into the same company. Each
+ * referral is offered for enrolment in the reply's campaign: enrolling adds
+ * the contact as an extra batch, and its first email carries a referral
+ * opener after the greeting. Alternates named in an out-of-office reply
+ * are recorded the same way, with source out_of_office.
+ */
+
+export type ContactReferral = Tables<'contact_referrals'>
+
+export type ReferralSource = 'wrong_person' | 'out_of_office'
+
+export interface ContactReferralWithContact extends ContactReferral {
+  contact: Pick<Tables<'contacts'>, 'id' | 'email' | 'first_name' | 'last_name' | 'position'> | null
+  referrer: Pick<Tables<'contacts'>, 'id' | 'email' | 'first_name' | 'last_name'> | null
+  campaign: Pick<Tables<'campaigns'>, 'id' | 'name' | 'status'> | null
+  /** Opener proposed for enrolment, in the language of the campaign */
+  suggestedOpener: string | null
+}
+
+export interface ReferralCandidate {
+  email: string
+  firstName: string | null
+  lastName: string | null
+  role: string | null
+}
+
+export interface ReferralReplyInput {
+  incomingEmailId: string
+  fromAddress: string
+  toAddress?: string | null
+  text: string
+  referrerContactId?: string | null
+  campaignId?: string | null
+  source?: ReferralSource
+  /** Only these addresses, e.g. the alternate of an out-of-office reply */
+  emails?: string[]
+}
+
+/** Raised when a referral cannot be enrolled in its campaign */
+export class ReferralEnrollmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReferralEnrollmentError'
+  }
+}
+
+const MAX_REFERRALS_PER_REPLY = 5
+
+/** Campaign statuses that still send, or can be picked up again by the processor */
+const ENROLLABLE_CAMPAIGN_STATUSES = ['scheduled', 'sending', 'paused', 'completed']
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi
+
+const AUTOMATED_LOCAL_PARTS = /^(no-?reply|do-?not-?reply|mailer-daemon|postmaster|bounce[s]?)$/i
+
+/** Local parts that are mailboxes, not first names */
+const GENERIC_LOCAL_PARTS = new Set([
+  'info', 'sales', 'office', 'kontakt', 'contact', 'hello', 'hallo', 'team', 'mail', 'service', 'support',
+  'admin', 'marketing', 'einkauf', 'purchasing', 'jobs', 'karriere', 'hr', 'buchhaltung', 'accounting',
+])
+
+const NAME_WORD = "[A-ZÄÖÜÀ-ÖØ-Þ][a-zäöüßà-öø-ÿ'’-]+"
+const NAME_SEQUENCE = new RegExp(`${NAME_WORD}(?:\\s+${NAME_WORD}){0,2}`, 'g')
+
+const ROLE_PATTERN = new RegExp(
+  '(head of [a-z&/ ]+?|director of [a-z&/ ]+?|vp of [a-z&/ ]+?|vice president of [a-z&/ ]+?|' +
+  '[a-z]+ manager|leiter(?:in)? (?:der |des )?[a-zäöüß&/ ]+?|' +
+  'ceo|cto|cfo|cmo|coo|cio|founder|co-founder|owner|inhaber(?:in)?|geschäftsführer(?:in)?|managing director|' +
+  'procurement|purchasing|einkauf)' +
+  '(?=\\s*[,.;:)(<\\n]|\\s+(?:and|und|at|bei|who|der|die|is|ist|for|für|-|–)\\s|\\s*$)',
+  'i'
+)
+
+const fold = (value: string) =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/ß/g, 'ss')
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+
+/** First and last name written in the email address: jane.doe@ or jane_doe@ */
+function nameFromLocalPart(localPart: string): { firstName: string | null; lastName: string | null } {
+  const parts = localPart.split(/[._-]+/).filter(part => /^[a-z]{2,}$/i.test(part))
+  if (parts.length >= 2) {
+    return { firstName: capitalize(parts[0]), lastName: parts.slice(1).map(capitalize).join(' ') }
+  }
+  if (parts.length === 1 && parts[0] === localPart && parts[0].length >= 3 && !GENERIC_LOCAL_PARTS.has(parts[0].toLowerCase())) {
+    return { firstName: capitalize(parts[0]), lastName: null }
+  }
+  return { firstName: null, lastName: null }
+}
+
+/**
+ * The words of a written name that belong to the address, or null. Leading
+ * words that are not in the address (Herrn, Kollegin) are dropped; a name
+ * also matches an address made of its initials.
+ */
+function nameForLocalPart(words: string[], localPart: string): string[] | null {
+  const local = fold(localPart).replace(/[^a-z]/g, '')
+  const inLocal = (word: string) => {
+    const folded = fold(word).replace(/[^a-z]/g, '')
+    return folded.length >= 3 && local.includes(folded)
+  }
+
+  if (words.some(inLocal)) {
+    const start = words.findIndex(inLocal)
+    return words.slice(start)
+  }
+  return words.length >= 2 && local === words.map(word => fold(word).charAt(0)).join('') ? words : null
+}
+
+/** The sentence around an address: back to the previous sentence end, on to the next one */
+function sentenceAround(text: string, start: number, end: number): { before: string; after: string } {
+  const head = text.slice(Math.max(0, start - 200), start)
+  const boundary = Math.max(head.lastIndexOf('\n'), head.search(/[.!?]\s(?!.*[.!?]\s)/) + 1)
+  const tail = text.slice(end, end + 150)
+  const tailEnd = tail.search(/\n|[.!?](\s|$)/)
+  return {
+    before: head.slice(Math.max(boundary, 0)),
+    after: tailEnd >= 0 ? tail.slice(0, tailEnd + 1) : tail,
+  }
+}
+
+/**
+ * People a reply refers us to. Only the new part of the reply is read, and
+ * the sender's and our own addresses are skipped. Names are taken from the
+ * sentence when they match the address, otherwise from the address itself.
+ */
+export function extractReferrals(text: string, excludeEmails: string[] = []): ReferralCandidate[] {
+  const reply = stripQuotedText(text)
+  const excluded = new Set(excludeEmails.flatMap(value => value.toLowerCase().match(EMAIL_PATTERN) || []))
+  const candidates: ReferralCandidate[] = []
+  const seen = new Set<string>()
+
+  let match: RegExpExecArray | null
+  EMAIL_PATTERN.lastIndex = 0
+  while ((match = EMAIL_PATTERN.exec(reply)) !== null && candidates.length < MAX_REFERRALS_PER_REPLY) {
+    const email = match[0].replace(/[.-]+$/, '').toLowerCase()
+    const localPart = email.split('@')[0]
+    if (excluded.has(email) || seen.has(email) || AUTOMATED_LOCAL_PARTS.test(localPart)) continue
+    seen.add(email)
+
+    const { before, after } = sentenceAround(reply, match.index, match.index + match[0].length)
+    const sentence = `${before} ${after}`
+
+    let name = nameFromLocalPart(localPart)
+    const written = (sentence.match(NAME_SEQUENCE) || [])
+      .map(sequence => nameForLocalPart(sequence.split(/\s+/), localPart))
+      .find(Boolean)
+    if (written && written.length >= 2) {
+      name = { firstName: written[0], lastName: written.slice(1).join(' ') }
+    } else if (written && name.lastName && fold(written[0]) === fold(name.lastName)) {
+      name = { firstName: name.firstName, lastName: written[0] }
+    } else if (written) {
+      name = { firstName: written[0], lastName: name.lastName }
+    }
+
+    const role = sentence.match(ROLE_PATTERN)
+    candidates.push({
+      email,
+      firstName: name.firstName,
+      lastName: name.lastName,
+      role: role ? role[1].trim() : null,
+    })
+  }
+
+  return candidates
+}
+
+const isGerman = (content: string) =>
+  /^\s*(?:<[^>]+>\s*)*(hallo|guten (tag|morgen)|liebe[r]?|sehr geehrte[r]?|moin|servus|grüß)/i.test(content)
+
+/** Opener for a referred contact, in German when the campaign greets in German */
+export function referralOpener(referrerName: string, content: string, source: ReferralSource = 'wrong_person'): string {
+  const name = referrerName.trim()
+  if (source === 'out_of_office') {
+    if (isGerman(content)) {
+      return `${name || 'Ihr Kollege'} ist derzeit nicht im Büro und hat Sie als Ansprechpartner genannt.`
+    }
+    return `${name || 'Your colleague'} is out of the office and named you as their contact.`
+  }
+  if (isGerman(content)) {
+    return name
+      ? `${name} hat mir empfohlen, mich direkt an Sie zu wenden.`
+      : 'Ihr Kollege hat mir empfohlen, mich direkt an Sie zu wenden.'
+  }
+  return name
+    ? `${name} suggested I reach out to you directly.`
+    : 'Your colleague suggested I reach out to you directly.'
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Put the opener after the greeting of an email ("Hi {{first_name}}," as the
+ * first paragraph or line), or in front when the email has no greeting
+ */
+export function applyReferralOpener(content: string, opener: string): string {
+  const text = opener.trim()
+  if (!text) return content
+
+  if (/<p[\s>]/i.test(content)) {
+    const paragraph = `<p>${escapeHtml(text)}</p>`
+    const first = content.match(/^\s*<p[^>]*>([\s\S]*?)<\/p>/i)
+    const greeting = first && first[1].replace(/<[^>]+>/g, '').trim()
+    if (first && greeting && greeting.length <= 60 && /[,!:]$/.test(greeting)) {
+      return content.slice(0, first[0].length) + paragraph + content.slice(first[0].length)
+    }
+    return paragraph + content
+  }
+
+  const lines = content.split('\n')
+  const firstLine = lines[0].trim()
+  if (firstLine.length > 0 && firstLine.length <= 60 && /[,!:]$/.test(firstLine)) {
+    return [lines[0], '', text, ...lines.slice(1)].join('\n')
+  }
+  return `${text}\n\n${content}`
+}
+
+const contactName = (contact: { first_name?: string | null; last_name?: string | null; email?: string } | null) =>
+  contact ? [contact.first_name, contact.last_name].filter(Boolean).join(' ') : ''
+
+/**
+ * Create the people named in a wrong-person reply as contacts and offer them
+ * for enrolment. Existing contacts are linked instead of duplicated.
+ */
+export async function createReferralsFromReply(
+  supabase: Supabase,
+  userId: string,
+  input: ReferralReplyInput
+): Promise<ContactReferral[]> {
+  const only = input.emails?.map(email => email.toLowerCase())
+  const candidates = extractReferrals(input.text, [input.fromAddress, input.toAddress || ''])
+    .filter(candidate => !only || only.includes(candidate.email))
+  if (candidates.length === 0) return []
+
+  const { data: referrer } = input.referrerContactId
+    ? await supabase
+      .from('contacts')
+      .select('id, company, website')
+      .eq('id', input.referrerContactId)
+      .eq('user_id', userId)
+      .maybeSingle()
+    : { data: null }
+
+  const contactService = new ContactService()
+  const referrals: ContactReferral[] = []
+
+  for (const candidate of candidates) {
+    let contact = await contactService.getContactByEmail(userId, candidate.email)
+
+    if (!contact) {
+      contact = await contactService.createContact(userId, {
+        email: candidate.email,
+        first_name: candidate.firstName || undefined,
+        last_name: candidate.lastName || undefined,
+        position: candidate.role || undefined,
+        company: referrer?.company || undefined,
+        website: referrer?.website || undefined,
+        tags: ['referral'],
+        source: 'referral',
+      })
+    }
+
+    if (referrer && contact.id !== referrer.id && !contact.referred_by_contact_id) {
+      const { error: linkError } = await supabase
+        .from('contacts')
+        .update({ referred_by_contact_id: referrer.id })
+        .eq('id', contact.id)
+        .eq('user_id', userId)
+
+      if (linkError) {
+        throw new Error(`Failed to link referred contact: ${linkError.message}`)
+      }
+    }
+
+    const { data: referral, error } = await supabase
+      .from('contact_referrals')
+      .upsert({
+        user_id: userId,
+        incoming_email_id: input.incomingEmailId,
+        referrer_contact_id: referrer?.id || null,
+        contact_id: contact.id,
+        campaign_id: input.campaignId || null,
+        role: candidate.role,
+        source: input.source || 'wrong_person',
+      }, { onConflict: 'incoming_email_id,contact_id', ignoreDuplicates: true })
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to record referral: ${error.message}`)
+    }
+    if (referral) referrals.push(referral)
+  }
+
+  return referrals
+}
+
+/**
+ * Find and create the referrals of an email the user classified as
+ * wrong_person after the fact, or the alternates of an auto-reply
+ */
+export async function createReferralsForEmail(
+  supabase: Supabase,
+  userId: string,
+  incomingEmailId: string
+): Promise<ContactReferral[] | null> {
+  const { data: email, error } = await supabase
+    .from('incoming_emails')
+    .select('id, from_address, to_address, text_content, html_content')
+    .eq('id', incomingEmailId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load email: ${error.message}`)
+  }
+  if (!email) return null
+
+  const { data: reply } = await supabase
+    .from('email_replies')
+    .select('contact_id, campaign_id, reply_type')
+    .eq('incoming_email_id', incomingEmailId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return createReferralsFromReply(supabase, userId, {
+    incomingEmailId,
+    fromAddress: email.from_address,
+    toAddress: email.to_address,
+    text: email.text_content || (email.html_content || '').replace(/<[^>]+>/g, ' '),
+    referrerContactId: reply?.contact_id,
+    campaignId: reply?.campaign_id,
+    source: reply?.reply_type === 'auto_reply' ? 'out_of_office' : 'wrong_person',
+  })
+}
+
+export async function listEmailReferrals(
+  supabase: Supabase,
+  userId: string,
+  incomingEmailId: string
+): Promise<ContactReferralWithContact[]> {
+  const { data, error } = await supabase
+    .from('contact_referrals')
+    .select(`
+      *,
+      contact:contacts!contact_referrals_contact_id_fkey(id, email, first_name, last_name, position),
+      campaign:campaigns(id, name, status, html_content)
+    `)
+    .eq('user_id', userId)
+    .eq('incoming_email_id', incomingEmailId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load referrals: ${error.message}`)
+  }
+
+  const rows = (data || []) as any[]
+  const referrerIds = Array.from(new Set(rows.map(row => row.referrer_contact_id).filter(Boolean)))
+  const { data: referrers } = referrerIds.length > 0
+    ? await supabase.from('contacts').select('id, email, first_name, last_name').in('id', referrerIds)
+    : { data: [] }
+
+  return rows.map(({ campaign, ...row }) => {
+    const referrer = (referrers || []).find(contact => contact.id === row.referrer_contact_id) || null
+    return {
+      ...row,
+      referrer,
+      campaign: campaign ? { id: campaign.id, name: campaign.name, status: campaign.status } : null,
+      suggestedOpener: campaign
+        ? referralOpener(contactName(referrer), campaign.html_content || '', row.source)
+        : null,
+    }
+  })
+}
+
+/**
+ * Enrol a referred contact in the campaign of the reply. The contact gets a
+ * batch of its own, due now, and a first email with the opener after the
+ * greeting. A completed campaign goes back to sending for it.
+ */
+export async function enrollReferral(
+  supabase: Supabase,
+  userId: string,
+  referralId: string,
+  opener?: string
+): Promise<ContactReferral | null> {
+  const { data: referral, error } = await supabase
+    .from('contact_referrals')
+    .select('*')
+    .eq('id', referralId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load referral: ${error.message}`)
+  }
+  if (!referral) return null
+  if (referral.status === 'enrolled') return referral
+  if (!referral.campaign_id) {
+    throw new ReferralEnrollmentError('The reply is not linked to a campaign')
+  }
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('campaigns')
+    .select('id, status, batch_schedule, email_subject, html_content')
+    .eq('id', referral.campaign_id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (campaignError) {
+    throw new Error(`Failed to load campaign: ${campaignError.message}`)
+  }
+
+  const schedule = campaign?.batch_schedule as { batches?: any[] } | null
+  if (!campaign || !schedule?.batches) {
+    throw new ReferralEnrollmentError('Only campaigns with a batch schedule can take new contacts')
+  }
+  if (!ENROLLABLE_CAMPAIGN_STATUSES.includes(campaign.status || '')) {
+    throw new ReferralEnrollmentError(`Contacts cannot be added to a ${campaign.status} campaign`)
+  }
+
+  const { data: existing } = await supabase
+    .from('campaign_contacts')
+    .select('id')
+    .eq('campaign_id', campaign.id)
+    .eq('contact_id', referral.contact_id)
+    .maybeSingle()
+
+  if (existing || schedule.batches.some(batch => (batch.contact_ids || []).includes(referral.contact_id))) {
+    throw new ReferralEnrollmentError('The contact is already in this campaign')
+  }
+
+  const { data: referrer } = referral.referrer_contact_id
+    ? await supabase
+      .from('contacts')
+      .select('first_name, last_name')
+      .eq('id', referral.referrer_contact_id)
+      .maybeSingle()
+    : { data: null }
+
+  const content = campaign.html_content || ''
+  const openerText = (opener ?? referralOpener(contactName(referrer), content, referral.source as ReferralSource)).trim()
+  const now = new Date().toISOString()
+
+  const { error: contactError } = await supabase
+    .from('campaign_contacts')
+    .insert({
+      campaign_id: campaign.id,
+      contact_id: referral.contact_id,
+      status: 'pending',
+      current_sequence: 1,
+      personalized_subject: campaign.email_subject,
+      personalized_body: applyReferralOpener(content, openerText),
+    })
+
+  if (contactError) {
+    throw new Error(`Failed to add contact to campaign: ${contactError.message}`)
+  }
+
+  // Appended under a row lock so a processor run writing the schedule at the same time keeps it
+  const { error: updateError } = await supabase.rpc('append_campaign_batch', {
+    p_campaign_id: campaign.id,
+    p_batch: {
+      scheduled_time: now,
+      contact_ids: [referral.contact_id],
+      contact_count: 1,
+      status: 'pending',
+      referral: true,
+    },
+  })
+
+  if (updateError) {
+    throw new Error(`Failed to schedule referral: ${updateError.message}`)
+  }
+
+  const { data: enrolled, error: referralError } = await supabase
+    .from('contact_referrals')
+    .update({ status: 'enrolled', opener: openerText, enrolled_at: now, updated_at: now })
+    .eq('id', referral.id)
+    .select()
+    .single()
+
+  if (referralError) {
+    throw new Error(`Failed to update referral: ${referralError.message}`)
+  }
+
+  return enrolled
+}
+
+/** Decline the enrolment offer; the contact itself is kept */
+export async function dismissReferral(supabase: Supabase, userId: string, referralId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('contact_referrals')
+    .update({ status: 'dismissed', updated_at: new Date().toISOString() })
+    .eq('id', referralId)
+    .eq('user_id', userId)
+    .eq('status', 'suggested')
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to dismiss referral: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
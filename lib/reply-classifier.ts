@@ -0,0 +1,440 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { AIPersonalizationService, type TextGenerationRequest } from './ai-providers'
+import {
+  REPLY_LABELS,
+  classificationLabel,
+  emailClassifier,
+  labelClassification,
+  replyRequiresHumanReview,
+  stripQuotedText,
+  type EmailClassificationResult,
+  type IncomingEmail,
+  type ReplyClassifier,
+  type ReplyLabel,
+} from './email-classifier'
+
+type Supabase = SupabaseClient<Database>
+
+/**
+ * LLM reply classification and its feedback loop.
+ *
+ * With REPLY_CLASSIFIER=llm, replies are labelled by an LLM through
+ * AIPersonalizationService instead of the pattern matcher in
+ * lib/email-classifier.ts. Reclassifications in the mailbox are stored in
+ * reply_classification_feedback; the latest ones become few-shot examples in
+ * the prompt, and all of them feed the accuracy metrics of both classifiers.
+ * Bounces and failed LLM calls keep the pattern matcher's result.
+ */
+
+export type ClassificationFeedback = Tables<'reply_classification_feedback'>
+
+export type FewShotExample = Pick<ClassificationFeedback, 'subject' | 'excerpt' | 'corrected_label'>
+
+export type ClassifierName = 'heuristic' | 'llm'
+
+export const CLASSIFIER_NAMES: ClassifierName[] = ['heuristic', 'llm']
+
+export interface ClassificationMetricsRow {
+  reviewed: number
+  corrected: number
+  /** Share of reviewed emails whose label was right, null without reviews */
+  accuracy: number | null
+}
+
+export interface ClassificationMetrics extends ClassificationMetricsRow {
+  classified: number
+  /** Share of all classified emails not corrected, assuming unreviewed ones are right */
+  estimatedAccuracy: number | null
+  classifiers: Array<ClassificationMetricsRow & { classifier: string; classified: number }>
+  labels: Array<ClassificationMetricsRow & { label: string }>
+  confusions: Array<{ predicted: string; corrected: string; count: number }>
+}
+
+const EXCERPT_LENGTH = 600
+const EXAMPLES_PER_LABEL = 2
+const MAX_EXAMPLES = 12
+const MAX_CONFUSIONS = 10
+
+const SENTIMENTS = ['positive', 'negative', 'neutral'] as const
+
+const SYSTEM_PROMPT = 'You classify replies to B2B cold outreach emails. Answer with one JSON object and nothing else.'
+
+const LABEL_DESCRIPTIONS: Record<ReplyLabel, string> = {
+  bounce: 'delivery failure notice from a mail server',
+  auto_reply: 'automatic reply such as out of office or vacation notice',
+  unsubscribe: 'asks to be removed from the list or to stop emailing',
+  spam: 'unrelated promotional or junk mail',
+  meeting_request: 'wants to schedule a call, meeting or demo, or proposes a time',
+  interested: 'positive and wants more information, without asking for a meeting yet',
+  objection_pricing: 'objects to the price or says there is no budget for it',
+  competitor: 'already uses or is happy with another provider',
+  wrong_person: 'not the right contact, has left, or refers us to someone else',
+  not_now: 'possibly interested later, but not at the moment',
+  question: 'asks a question before deciding',
+  not_interested: 'declines without asking to be removed',
+  unknown: 'human reply that fits none of the above',
+}
+
+/** Start of the new part of a reply, single spaced */
+export function replyExcerpt(text: string): string {
+  return stripQuotedText(text).replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH)
+}
+
+/**
+ * Few-shot examples from the newest feedback rows, at most two per label so
+ * one frequent correction does not crowd out the others
+ */
+export function selectFewShotExamples(rows: FewShotExample[], limit: number = MAX_EXAMPLES): FewShotExample[] {
+  const perLabel = new Map<string, number>()
+  const examples: FewShotExample[] = []
+
+  for (const row of rows) {
+    if (examples.length >= limit) break
+    if (!row.excerpt || !(REPLY_LABELS as readonly string[]).includes(row.corrected_label)) continue
+    const count = perLabel.get(row.corrected_label) || 0
+    if (count >= EXAMPLES_PER_LABEL) continue
+    perLabel.set(row.corrected_label, count + 1)
+    examples.push(row)
+  }
+
+  return examples
+}
+
+export function buildClassificationPrompt(email: IncomingEmail, examples: FewShotExample[]): string {
+  const labels = REPLY_LABELS.map(label => `- ${label}: ${LABEL_DESCRIPTIONS[label]}`).join('\n')
+  const body = replyExcerpt(email.textContent || (email.htmlContent || '').replace(/<[^>]+>/g, ' '))
+
+  let prompt = `Classify this email with exactly one label:
+${labels}
+`
+
+  if (examples.length > 0) {
+    prompt += '\nEXAMPLES LABELLED BY THE USER:\n'
+    examples.forEach(example => {
+      prompt += `Subject: ${example.subject || ''}\nReply: ${example.excerpt}\nLabel: ${example.corrected_label}\n\n`
+    })
+  }
+
+  prompt += `
+EMAIL:
+From: ${email.fromAddress}
+Subject: ${email.subject || ''}
+Reply: ${body}
+
+Return {"label": "<label>", "sentiment": "positive" | "negative" | "neutral", "confidence": <0 to 1>}`
+
+  return prompt
+}
+
+/** The JSON object of an LLM answer, or null if it has no known label */
+export function parseClassificationResponse(text: string): {
+  label: ReplyLabel
+  sentiment: EmailClassificationResult['sentiment']
+  confidence: number
+} | null {
+  const match = text.match(/\{[\s\S]*\}/)
+  if (!match) return null
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(match[0])
+  } catch {
+    return null
+  }
+
+  const label = typeof parsed?.label === 'string' ? parsed.label.trim().toLowerCase() : ''
+  if (!(REPLY_LABELS as readonly string[]).includes(label)) return null
+
+  const confidence = Number(parsed.confidence)
+  return {
+    label: label as ReplyLabel,
+    sentiment: (SENTIMENTS as readonly string[]).includes(parsed.sentiment) ? parsed.sentiment : 'neutral',
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0.7,
+  }
+}
+
+export interface LLMReplyClassifierOptions {
+  provider: TextGenerationRequest['provider']
+  examples?: FewShotExample[]
+  fallback?: ReplyClassifier
+  service?: Pick<AIPersonalizationService, 'generateText'>
+}
+
+/**
+ * Reply classifier backed by an LLM, with the user's corrections as few-shot
+ * examples. Falls back to the pattern matcher when the call fails.
+ */
+export class LLMReplyClassifier implements ReplyClassifier {
+  private readonly fallback: ReplyClassifier
+  private readonly service: Pick<AIPersonalizationService, 'generateText'>
+
+  constructor(private readonly options: LLMReplyClassifierOptions) {
+    this.fallback = options.fallback || emailClassifier
+    this.service = options.service || new AIPersonalizationService()
+  }
+
+  async classifyEmail(email: IncomingEmail): Promise<EmailClassificationResult> {
+    const heuristic = await this.fallback.classifyEmail(email)
+
+    // The bounce processor works from the parsed delivery status, not from a label
+    if (heuristic.type === 'bounce') return heuristic
+
+    try {
+      const response = await this.service.generateText({
+        provider: this.options.provider,
+        system: SYSTEM_PROMPT,
+        prompt: buildClassificationPrompt(email, this.options.examples || []),
+        maxTokens: 100,
+      })
+
+      const parsed = parseClassificationResponse(response.text)
+      if (!parsed) {
+        console.warn(`⚠️ Unusable LLM classification for email ${email.id}: ${response.text.slice(0, 200)}`)
+        return heuristic
+      }
+
+      const { type, intent } = labelClassification(parsed.label)
+
+      // Bounces and auto-replies drive contact status and send postponement, so
+      // the LLM alone cannot move an email there: only the pattern matcher's own
+      // detection (with its parsed auto-reply details) counts
+      if (type === 'bounce' || type === 'auto_reply') {
+        return heuristic
+      }
+
+      return {
+        type,
+        subtype: type === heuristic.type ? heuristic.subtype : undefined,
+        confidence: parsed.confidence,
+        sentiment: parsed.sentiment,
+        intent: intent || undefined,
+        keywords: heuristic.keywords,
+        requiresHumanReview: type === 'human_reply'
+          ? replyRequiresHumanReview(parsed.sentiment, intent || undefined)
+          : parsed.confidence < 0.7,
+        classifier: 'llm',
+      }
+    } catch (error) {
+      console.error(`❌ LLM classification failed for email ${email.id}:`, error)
+      return heuristic
+    }
+  }
+}
+
+/**
+ * The classifier for a user's replies: the LLM one when REPLY_CLASSIFIER=llm
+ * and a provider is configured (REPLY_CLASSIFIER_PROVIDER picks one),
+ * otherwise the pattern matcher
+ */
+export async function createReplyClassifier(supabase: Supabase, userId: string): Promise<ReplyClassifier> {
+  if (process.env.REPLY_CLASSIFIER !== 'llm') return emailClassifier
+
+  await AIPersonalizationService.initialize()
+  const available = AIPersonalizationService.getAvailableProviders().map(provider => provider.id)
+  const preferred = process.env.REPLY_CLASSIFIER_PROVIDER
+  const provider = (preferred && available.includes(preferred) ? preferred : available[0]) as TextGenerationRequest['provider']
+  if (!provider) return emailClassifier
+
+  return new LLMReplyClassifier({ provider, examples: await loadFewShotExamples(supabase, userId) })
+}
+
+export async function loadFewShotExamples(supabase: Supabase, userId: string): Promise<FewShotExample[]> {
+  const { data, error } = await supabase
+    .from('reply_classification_feedback')
+    .select('subject, excerpt, corrected_label')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  if (error) {
+    throw new Error(`Failed to load classification examples: ${error.message}`)
+  }
+
+  return selectFewShotExamples(data || [])
+}
+
+/**
+ * Store a user's label for an email and apply it to the email and its reply
+ * record. The prediction of the first correction is kept, so relabelling an
+ * email twice does not count the first correction as a prediction. Returns
+ * null when the email does not exist or was never classified.
+ */
+export async function recordClassificationFeedback(
+  supabase: Supabase,
+  userId: string,
+  emailId: string,
+  label: ReplyLabel
+): Promise<ClassificationFeedback | null> {
+  const { data: email, error: emailError } = await supabase
+    .from('incoming_emails')
+    .select('id, subject, text_content, html_content, classification_status, classification_confidence')
+    .eq('id', emailId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (emailError) {
+    throw new Error(`Failed to load email: ${emailError.message}`)
+  }
+  if (!email || email.classification_status === 'unclassified') return null
+
+  const [{ data: reply }, { data: previous }] = await Promise.all([
+    supabase
+      .from('email_replies')
+      .select('id, intent, classifier')
+      .eq('incoming_email_id', emailId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('reply_classification_feedback')
+      .select('predicted_label, predicted_confidence, classifier')
+      .eq('incoming_email_id', emailId)
+      .maybeSingle(),
+  ])
+
+  const predicted = previous?.predicted_label
+    || classificationLabel(email.classification_status || '', reply?.intent)
+  if (!predicted) return null
+
+  const now = new Date().toISOString()
+  const { data: feedback, error } = await supabase
+    .from('reply_classification_feedback')
+    .upsert({
+      user_id: userId,
+      incoming_email_id: emailId,
+      classifier: previous?.classifier || reply?.classifier || 'heuristic',
+      predicted_label: predicted,
+      predicted_confidence: previous ? previous.predicted_confidence : email.classification_confidence,
+      corrected_label: label,
+      subject: email.subject,
+      excerpt: replyExcerpt(email.text_content || (email.html_content || '').replace(/<[^>]+>/g, ' ')),
+      updated_at: now,
+    }, { onConflict: 'incoming_email_id' })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to record classification feedback: ${error.message}`)
+  }
+
+  const { type, intent } = labelClassification(label)
+
+  const { error: updateError } = await supabase
+    .from('incoming_emails')
+    .update({ classification_status: type, classification_confidence: 1, updated_at: now })
+    .eq('id', emailId)
+    .eq('user_id', userId)
+
+  if (updateError) {
+    throw new Error(`Failed to update email classification: ${updateError.message}`)
+  }
+
+  if (reply) {
+    const { error: replyError } = await supabase
+      .from('email_replies')
+      .update({
+        reply_type: type === 'spam' ? 'complaint' : type,
+        intent,
+        human_reviewed_at: now,
+        human_reviewer_id: userId,
+        requires_human_review: false,
+        updated_at: now,
+      })
+      .eq('id', reply.id)
+
+    if (replyError) {
+      throw new Error(`Failed to update email reply: ${replyError.message}`)
+    }
+  }
+
+  return feedback
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null)
+
+const metricsRow = (rows: Array<Pick<ClassificationFeedback, 'predicted_label' | 'corrected_label'>>): ClassificationMetricsRow => {
+  const corrected = rows.filter(row => row.predicted_label !== row.corrected_label).length
+  return { reviewed: rows.length, corrected, accuracy: ratio(rows.length - corrected, rows.length) }
+}
+
+/**
+ * Accuracy from the feedback rows and the number of emails each classifier
+ * labelled. Rows whose label the user kept count as confirmed predictions.
+ */
+export function computeClassificationMetrics(
+  classified: Record<string, number>,
+  feedback: Array<Pick<ClassificationFeedback, 'classifier' | 'predicted_label' | 'corrected_label'>>
+): ClassificationMetrics {
+  const total = Object.values(classified).reduce((sum, count) => sum + count, 0)
+  const overall = metricsRow(feedback)
+
+  const classifierNames = Array.from(new Set([...Object.keys(classified), ...feedback.map(row => row.classifier)]))
+  const classifiers = classifierNames.map(classifier => ({
+    classifier,
+    classified: classified[classifier] || 0,
+    ...metricsRow(feedback.filter(row => row.classifier === classifier)),
+  }))
+
+  const labels = Array.from(new Set(feedback.map(row => row.predicted_label)))
+    .map(label => ({ label, ...metricsRow(feedback.filter(row => row.predicted_label === label)) }))
+    .sort((a, b) => b.reviewed - a.reviewed || a.label.localeCompare(b.label))
+
+  const confusionCounts = new Map<string, { predicted: string; corrected: string; count: number }>()
+  for (const row of feedback) {
+    if (row.predicted_label === row.corrected_label) continue
+    const key = `${row.predicted_label}>${row.corrected_label}`
+    const entry = confusionCounts.get(key) || { predicted: row.predicted_label, corrected: row.corrected_label, count: 0 }
+    entry.count++
+    confusionCounts.set(key, entry)
+  }
+
+  return {
+    classified: total,
+    ...overall,
+    estimatedAccuracy: ratio(total - overall.corrected, total),
+    classifiers,
+    labels,
+    confusions: Array.from(confusionCounts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_CONFUSIONS),
+  }
+}
+
+export async function getClassificationMetrics(
+  supabase: Supabase,
+  userId: string,
+  days: number = 90
+): Promise<ClassificationMetrics> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+  const counts = await Promise.all(CLASSIFIER_NAMES.map(async classifier => {
+    const { count, error } = await supabase
+      .from('email_replies')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('classifier', classifier)
+      .gte('created_at', since)
+
+    if (error) {
+      throw new Error(`Failed to count classified emails: ${error.message}`)
+    }
+    return [classifier, count || 0] as const
+  }))
+
+  const { data: feedback, error } = await supabase
+    .from('reply_classification_feedback')
+    .select('classifier, predicted_label, corrected_label')
+    .eq('user_id', userId)
+    .gte('created_at', since)
+
+  if (error) {
+    throw new Error(`Failed to load classification feedback: ${error.message}`)
+  }
+
+  const classified: Record<string, number> = {}
+  counts.forEach(([classifier, count]) => {
+    if (count > 0) classified[classifier] = count
+  })
+
+  return computeClassificationMetrics(classified, feedback || [])
+}
@@ -2,9 +2,49 @@ import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from './database.types'
 import { GmailIMAPSMTPService } from './gmail-imap-smtp'
 import type { OAuthTokens } from './oauth-providers'
+import { findSuppressedRecipients } from './suppression'
+import { enqueueJob, runJobQueue } from './job-queue'
+import { recordContactChanges } from './contact-history'
 
 export type Supabase = SupabaseClient<Database>
 
+const REPLY_JOB_SELECT = `
+  *,
+  email_account:email_accounts!reply_jobs_email_account_id_fkey(
+    id,
+    email,
+    provider,
+    access_token,
+    refresh_token,
+    token_expires_at,
+    smtp_host,
+    smtp_port,
+    smtp_username,
+    smtp_password,
+    smtp_secure
+  ),
+  agent:ai_personas!reply_jobs_agent_id_fkey(
+    id,
+    name,
+    sender_name,
+    sender_role
+  ),
+  contact:contacts(
+    id,
+    email,
+    first_name,
+    last_name
+  ),
+  incoming_email:incoming_emails(
+    id,
+    from_address,
+    to_address,
+    cc_addresses,
+    bcc_addresses,
+    subject
+  )
+`
+
 export interface ReplyJobProcessingResult {
   processed: number
   sent: number
@@ -24,7 +64,8 @@ export class ReplyJobProcessor {
   }
 
   /**
-   * Process all ready reply jobs
+   * Queue all ready reply jobs and drain the reply_job queue.
+   * The queue lease guarantees a reply job is sent by one worker only.
    */
   async processReplyJobs(limit: number = 100): Promise<ReplyJobProcessingResult> {
     const result: ReplyJobProcessingResult = {
@@ -40,44 +81,9 @@ export class ReplyJobProcessor {
 
       // Get jobs that are ready to be sent
       const now = new Date().toISOString()
-      const { data: jobs, error } = await this.supabase
+      const { data: readyJobs, error } = await this.supabase
         .from('reply_jobs')
-        .select(`
-          *,
-          email_account:email_accounts!reply_jobs_email_account_id_fkey(
-            id,
-            email,
-            provider,
-            access_token,
-            refresh_token,
-            token_expires_at,
-            smtp_host,
-            smtp_port,
-            smtp_username,
-            smtp_password,
-            smtp_secure
-          ),
-          agent:ai_personas!reply_jobs_agent_id_fkey(
-            id,
-            name,
-            sender_name,
-            sender_role
-          ),
-          contact:contacts(
-            id,
-            email,
-            first_name,
-            last_name
-          ),
-          incoming_email:incoming_emails(
-            id,
-            from_address,
-            to_address,
-            cc_addresses,
-            bcc_addresses,
-            subject
-          )
-        `)
+        .select('id')
         .in('status', ['scheduled', 'approved'])
         .lte('scheduled_at', now)
         .order('scheduled_at', { ascending: true })
@@ -88,24 +94,33 @@ export class ReplyJobProcessor {
         return result
       }
 
-      if (!jobs || jobs.length === 0) {
-        console.log('📭 No reply jobs ready to be sent')
-        return result
+      for (const readyJob of readyJobs || []) {
+        await enqueueJob(this.supabase, 'reply_job', { replyJobId: readyJob.id }, {
+          dedupeKey: `reply_job:${readyJob.id}`,
+        })
       }
 
-      console.log(`📬 Found ${jobs.length} reply jobs ready to be sent`)
-
-      // Process each job
-      for (const job of jobs) {
-        result.processed++
-        try {
-          await this.processReplyJob(job)
-          result.sent++
-        } catch (error) {
-          result.failed++
-          result.errors.push(`Job ${job.id}: ${error.message}`)
-          console.error(`❌ Error processing reply job ${job.id}:`, error)
-        }
+      const queueResult = await runJobQueue<{ replyJobId: string }>(
+        this.supabase,
+        'reply_job',
+        async (queueJob) => {
+          const status = await this.processQueuedReplyJob(queueJob.payload.replyJobId, queueJob.attempts > 1)
+          if (status === 'sent') {
+            result.sent++
+          } else {
+            result.skipped++
+          }
+        },
+        { limit, visibilityTimeoutSeconds: 120 }
+      )
+
+      result.processed = queueResult.claimed
+      result.failed = queueResult.retried + queueResult.deadLettered
+      result.errors.push(...queueResult.errors)
+
+      if (queueResult.claimed === 0) {
+        console.log('📭 No reply jobs ready to be sent')
+        return result
       }
 
       console.log(`✅ Processed ${result.sent}/${result.processed} reply jobs successfully`)
@@ -118,48 +133,37 @@ export class ReplyJobProcessor {
     }
   }
 
+  /**
+   * Send a reply job leased from the queue. Jobs that are no longer due are skipped;
+   * a job left in 'sending' is only resumed when the previous lease expired.
+   */
+  private async processQueuedReplyJob(jobId: string, recovering: boolean): Promise<'sent' | 'skipped'> {
+    const { data: job, error } = await this.supabase
+      .from('reply_jobs')
+      .select(REPLY_JOB_SELECT)
+      .eq('id', jobId)
+      .single()
+
+    if (error || !job) {
+      throw new Error(`Reply job ${jobId} not found`)
+    }
+
+    const ready = ['scheduled', 'approved'].includes(job.status) || (recovering && job.status === 'sending')
+    if (!ready || new Date(job.scheduled_at) > new Date()) {
+      return 'skipped'
+    }
+
+    const sent = await this.processReplyJob(job)
+    return sent ? 'sent' : 'skipped'
+  }
+
   /**
    * Process a specific reply job immediately
    */
   async processReplyJobById(jobId: string, userId: string): Promise<boolean> {
       const { data: job, error } = await this.supabase
         .from('reply_jobs')
-        .select(`
-          *,
-          email_account:email_accounts!reply_jobs_email_account_id_fkey(
-            id,
-            email,
-            provider,
-          access_token,
-          refresh_token,
-          token_expires_at,
-          smtp_host,
-          smtp_port,
-          smtp_username,
-          smtp_password,
-          smtp_secure
-        ),
-          agent:ai_personas!reply_jobs_agent_id_fkey(
-            id,
-            name,
-            sender_name,
-          sender_role
-        ),
-        contact:contacts(
-          id,
-          email,
-          first_name,
-          last_name
-        ),
-        incoming_email:incoming_emails(
-          id,
-          from_address,
-          to_address,
-          cc_addresses,
-          bcc_addresses,
-          subject
-        )
-      `)
+        .select(REPLY_JOB_SELECT)
       .eq('id', jobId)
       .eq('user_id', userId)
       .single()
@@ -177,9 +181,9 @@ export class ReplyJobProcessor {
   }
 
   /**
-   * Process a single reply job
+   * Process a single reply job. Returns false when the job was skipped or cancelled.
    */
-  private async processReplyJob(job: any): Promise<void> {
+  private async processReplyJob(job: any): Promise<boolean> {
     console.log(`📤 Processing reply job ${job.id} for ${job.contact?.email || 'unknown'}`)
 
     // Check if job is still editable
@@ -188,10 +192,32 @@ export class ReplyJobProcessor {
       const now = new Date()
       if (now < editableUntil) {
         console.log(`⏳ Job ${job.id} is still editable (until ${editableUntil.toISOString()}) - skipping`)
-        return
+        return false
       }
     }
 
+    // Never email addresses or domains on the account's suppression list
+    const recipients = this.resolveRecipient(job)
+    const suppressed = recipients
+      ? await findSuppressedRecipients(this.supabase, job.user_id, recipients)
+      : []
+    if (suppressed.length > 0) {
+      await this.updateJobStatus(job.id, 'cancelled', {
+        error_message: `Recipient is on the suppression list: ${suppressed.join(', ')}`,
+        audit_log: [
+          ...(job.audit_log || []),
+          {
+            action: 'cancelled_suppressed',
+            timestamp: new Date().toISOString(),
+            recipients: suppressed,
+          },
+        ],
+      })
+
+      console.log(`🚫 Reply job ${job.id} cancelled - recipient on suppression list`)
+      return false
+    }
+
     // Update status to sending
     await this.updateJobStatus(job.id, 'sending')
 
@@ -223,9 +249,11 @@ export class ReplyJobProcessor {
       // Pause campaign if this is a successful reply
       if (job.contact_id) {
         await this.pauseCampaignForContact(job.contact_id, job.user_id)
+        await this.markContactContacted(job)
       }
 
       console.log(`✅ Reply job ${job.id} sent successfully (Message-ID: ${messageId})`)
+      return true
 
     } catch (error) {
       console.error(`❌ Failed to send reply job ${job.id}:`, error)
@@ -473,10 +501,11 @@ export class ReplyJobProcessor {
   /**
    * Update job status
    */
-  private async updateJobStatus(jobId: string, status: string): Promise<void> {
+  private async updateJobStatus(jobId: string, status: string, fields: Record<string, unknown> = {}): Promise<void> {
     const { error } = await this.supabase
       .from('reply_jobs')
       .update({
+        ...fields,
         status,
         updated_at: new Date().toISOString(),
       })
@@ -567,6 +596,43 @@ export class ReplyJobProcessor {
     }
   }
 
+  /**
+   * Stamp last_contacted_at on the contact and record the change under the persona that replied
+   */
+  private async markContactContacted(job: any): Promise<void> {
+    const { data: contact } = await this.supabase
+      .from('contacts')
+      .select('id, last_contacted_at')
+      .eq('id', job.contact_id)
+      .eq('user_id', job.user_id)
+      .single()
+
+    if (!contact) {
+      return
+    }
+
+    const updates = { last_contacted_at: new Date().toISOString() }
+    const { error } = await this.supabase
+      .from('contacts')
+      .update(updates)
+      .eq('id', job.contact_id)
+      .eq('user_id', job.user_id)
+
+    if (error) {
+      console.error(`❌ Error updating contact after autonomous reply:`, error)
+      return
+    }
+
+    await recordContactChanges(this.supabase, {
+      userId: job.user_id,
+      contactId: job.contact_id,
+      before: contact,
+      updates,
+      actor: { type: 'ai_persona', id: job.agent_id },
+      source: 'autonomous_reply',
+    })
+  }
+
   /**
    * Get reply job statistics for a user
    */
@@ -1,7 +1,10 @@
 import { createServerSupabaseClient } from './supabase-server'
-import { emailClassifier, EmailClassificationResult } from './email-classifier'
+import { EmailClassificationResult, ReplyClassifier } from './email-classifier'
+import { createReplyClassifier } from './reply-classifier'
 import { createDraftService } from './outreach-agent-draft'
 import { createBounceProcessor } from './bounce-processor'
+import { createReferralsFromReply } from './referrals'
+import { referOOOAlternate } from './ooo-rescheduling'
 
 export interface ReplyProcessingResult {
   processed: number
@@ -17,16 +20,35 @@ export interface ReplyAction {
   details?: any
 }
 
+const CLASSIFIER_CACHE_MS = 10 * 60 * 1000
+
 /**
  * Reply processing pipeline that classifies emails and takes appropriate actions
  */
 export class ReplyProcessor {
   private supabase: any
   private campaignSequenceCache: Map<string, string | null>
+  private classifierCache: Map<string, { classifier: ReplyClassifier; loadedAt: number }>
 
   constructor() {
     this.supabase = createServerSupabaseClient()
     this.campaignSequenceCache = new Map()
+    this.classifierCache = new Map()
+  }
+
+  /**
+   * Classifier for a user's emails. Cached for a few minutes so a batch loads
+   * the few-shot examples once while new corrections still get picked up.
+   */
+  private async getClassifier(userId: string): Promise<ReplyClassifier> {
+    const cached = this.classifierCache.get(userId)
+    if (cached && Date.now() - cached.loadedAt < CLASSIFIER_CACHE_MS) {
+      return cached.classifier
+    }
+
+    const classifier = await createReplyClassifier(this.supabase, userId)
+    this.classifierCache.set(userId, { classifier, loadedAt: Date.now() })
+    return classifier
   }
 
   /**
@@ -99,7 +121,8 @@ export class ReplyProcessor {
     console.log(`🔄 Processing email: ${email.subject} from ${email.from_address}`)
 
     // Classify the email
-    const classification = await emailClassifier.classifyEmail({
+    const classifier = await this.getClassifier(email.user_id)
+    const classification = await classifier.classifyEmail({
       id: email.id,
       messageId: email.message_id,
       inReplyTo: email.in_reply_to,
@@ -291,7 +314,8 @@ export class ReplyProcessor {
       intent: classification.intent,
       keywords: classification.keywords,
       confidence_score: classification.confidence,
-      requires_human_review: classification.requiresHumanReview
+      requires_human_review: classification.requiresHumanReview,
+      classifier: classification.classifier || 'heuristic'
     }
 
     // Add type-specific data
@@ -515,29 +539,55 @@ export class ReplyProcessor {
         }
       })
 
-      // Temporarily pause campaigns for this contact if they're away for a while
+      // Pending steps wait until the contact is back (return date plus the campaign's
+      // buffer); the sequence keeps going instead of being paused
       if (context.campaignId) {
-        const autoReplyDate = new Date(autoReplyUntil)
-        const awayDuration = autoReplyDate.getTime() - Date.now()
-
         await this.updateSequenceEnrollmentStatus(context.contactId, context.campaignId, {
-          status: 'paused',
-          error_reason: `Auto-reply active until ${autoReplyUntil}`
+          error_reason: `Auto-reply active until ${autoReplyUntil}, next step postponed`
         })
 
-        if (awayDuration > 7 * 24 * 60 * 60 * 1000) { // More than a week
-          await this.pauseCampaignForContact(context.campaignId, context.contactId)
-          console.log(`⏸️  Paused campaign ${context.campaignId} for contact ${context.contactId} (away >7 days)`)
+        actions.push({
+          action: 'sequence_postponed_until_return',
+          timestamp: now,
+          details: {
+            campaignId: context.campaignId,
+            awayUntil: autoReplyUntil
+          }
+        })
 
-          actions.push({
-            action: 'campaign_paused_extended_absence',
-            timestamp: now,
-            details: {
-              campaignId: context.campaignId,
-              awayUntil: autoReplyUntil,
-              awayDurationDays: Math.ceil(awayDuration / (24 * 60 * 60 * 1000))
+        // The alternate named in the auto-reply is offered (or enrolled) as a referral
+        const forwardedTo = classification.autoReplyInfo?.forwardedTo
+        if (forwardedTo) {
+          try {
+            const { referrals, enrolled } = await referOOOAlternate(this.supabase, email.user_id, {
+              incomingEmailId: email.id,
+              fromAddress: email.from_address,
+              toAddress: email.to_address,
+              text: email.text_content || (email.html_content || '').replace(/<[^>]+>/g, ' '),
+              forwardedTo,
+              contactId: context.contactId,
+              campaignId: context.campaignId
+            })
+
+            if (referrals.length > 0) {
+              console.log(`👥 Out-of-office alternate ${forwardedTo} ${enrolled.length > 0 ? 'enrolled' : 'offered'} for campaign ${context.campaignId}`)
+              actions.push({
+                action: enrolled.length > 0 ? 'ooo_alternate_enrolled' : 'ooo_alternate_referred',
+                timestamp: new Date().toISOString(),
+                details: {
+                  contactIds: referrals.map(referral => referral.contact_id),
+                  campaignId: context.campaignId
+                }
+              })
             }
-          })
+          } catch (error) {
+            console.error('❌ Error referring out-of-office alternate:', error)
+            actions.push({
+              action: 'ooo_alternate_failed',
+              timestamp: new Date().toISOString(),
+              details: { error: error.message, forwardedTo }
+            })
+          }
         }
       }
     }
@@ -633,6 +683,39 @@ export class ReplyProcessor {
       }
     }
 
+    // 👥 Wrong person: create the people the reply names and offer them for the campaign
+    if (classification.intent === 'wrong_person') {
+      try {
+        const referrals = await createReferralsFromReply(this.supabase, email.user_id, {
+          incomingEmailId: email.id,
+          fromAddress: email.from_address,
+          toAddress: email.to_address,
+          text: email.text_content || (email.html_content || '').replace(/<[^>]+>/g, ' '),
+          referrerContactId: context.contactId,
+          campaignId: context.campaignId
+        })
+
+        if (referrals.length > 0) {
+          console.log(`👥 Created ${referrals.length} referral(s) from ${email.from_address}`)
+          actions.push({
+            action: 'referral_contacts_created',
+            timestamp: new Date().toISOString(),
+            details: {
+              contactIds: referrals.map(referral => referral.contact_id),
+              campaignId: context.campaignId
+            }
+          })
+        }
+      } catch (error) {
+        console.error('❌ Error creating referral contacts:', error)
+        actions.push({
+          action: 'referral_extraction_failed',
+          timestamp: new Date().toISOString(),
+          details: { error: error.message }
+        })
+      }
+    }
+
     // 🤖 AUTONOMOUS REPLY DRAFTING
     // Check if this email account has an assigned outreach agent
     try {
@@ -215,6 +215,29 @@ export class ReputationMonitor {
     }
   }
 
+  /**
+   * Latest stored overall score for a domain, without recalculating.
+   * Returns null when the domain has not been scored yet.
+   */
+  async getStoredReputationScore(domain: string): Promise<number | null> {
+    try {
+      if (!this.supabase) return null
+
+      const { data, error } = await this.supabase
+        .from('reputation_scores')
+        .select('overall_score')
+        .eq('domain', domain.toLowerCase())
+        .maybeSingle()
+
+      if (error || !data) return null
+
+      return data.overall_score
+    } catch (error) {
+      console.error('Error getting stored reputation score:', error)
+      return null
+    }
+  }
+
   /**
    * Check domain and IP against blacklists
    */
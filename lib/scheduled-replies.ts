@@ -152,7 +152,7 @@ export async function getScheduledReplies(
     throw error
   }
 
-  return data as ScheduledReply[]
+  return data as unknown as ScheduledReply[]
 }
 
 /**
@@ -0,0 +1,528 @@
+import type { Json } from './database.types'
+import type { CustomFieldDefinition } from './custom-fields'
+
+/**
+ * Segment rules.
+ *
+ * A segment is a tree of AND / OR / NOT groups. Leaves are rules over a
+ * contact column ("company contains GmbH") or predicates over related data:
+ * campaign membership, recent opens, sequence replies, tags and the enriched
+ * industry. Trees are stored in contact_segments.rules and compiled to SQL by
+ * segment_rule_sql() in the database, which only accepts the fields listed in
+ * SEGMENT_FIELDS and the user's custom fields (custom.<key>). This module
+ * validates trees before they are saved and converts the older flat conditions
+ * into trees.
+ */
+
+export type SegmentOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than'
+  | 'in'
+  | 'not_in'
+  | 'within_last_days'
+
+export type SegmentFieldType = 'string' | 'number' | 'date' | 'array'
+
+export interface SegmentFieldDefinition {
+  field: string
+  label: string
+  type: SegmentFieldType
+  operators: SegmentOperator[]
+}
+
+export type SegmentGroupLogic = 'AND' | 'OR' | 'NOT'
+
+export interface SegmentRuleGroup {
+  type: 'group'
+  /** NOT matches contacts for which not all children match */
+  logic: SegmentGroupLogic
+  children: SegmentRuleNode[]
+}
+
+export interface SegmentFieldRule {
+  type: 'field'
+  field: string
+  operator: SegmentOperator
+  value?: string | number | string[]
+  /** Type of a custom field when the rule was saved, which the SQL compiler needs */
+  value_type?: SegmentFieldType
+}
+
+export interface InCampaignPredicate {
+  type: 'in_campaign'
+  campaign_id: string
+}
+
+export interface OpenedEmailPredicate {
+  type: 'opened_email'
+  within_days: number
+}
+
+export interface RepliedToSequencePredicate {
+  type: 'replied_to_sequence'
+  sequence_id: string
+}
+
+export interface HasTagPredicate {
+  type: 'has_tag'
+  tags: string[]
+  match: 'any' | 'all'
+}
+
+export interface EnrichedIndustryPredicate {
+  type: 'enriched_industry'
+  industry: string
+}
+
+export type SegmentPredicate =
+  | InCampaignPredicate
+  | OpenedEmailPredicate
+  | RepliedToSequencePredicate
+  | HasTagPredicate
+  | EnrichedIndustryPredicate
+
+export type SegmentRuleNode = SegmentRuleGroup | SegmentFieldRule | SegmentPredicate
+
+/** Flat rule of the original segment format, kept for conversion */
+export interface SegmentRule {
+  field: string
+  operator: Exclude<SegmentOperator, 'within_last_days'>
+  value: string | string[] | number
+}
+
+/** Flat group of rules of the original segment format, kept for conversion */
+export interface SegmentCondition {
+  rules: SegmentRule[]
+  logic: 'AND' | 'OR'
+}
+
+/** Filters of the segment creation form */
+export interface SegmentFilterCriteria {
+  company?: string
+  jobTitle?: string
+  location?: string
+  industry?: string
+  addedAfter?: string
+  tags?: string[]
+}
+
+/** Raised when a rule tree uses unknown fields, operators or predicates */
+export class SegmentRuleValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid segment rules: ${issues.join('; ')}`)
+    this.name = 'SegmentRuleValidationError'
+  }
+}
+
+export const MAX_SEGMENT_RULE_DEPTH = 8
+export const MAX_SEGMENT_RULES = 100
+
+const STRING_OPERATORS: SegmentOperator[] = ['equals', 'not_equals', 'contains', 'not_contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty', 'in', 'not_in']
+const NUMBER_OPERATORS: SegmentOperator[] = ['equals', 'not_equals', 'greater_than', 'less_than', 'is_empty', 'is_not_empty']
+const DATE_OPERATORS: SegmentOperator[] = ['greater_than', 'less_than', 'within_last_days', 'is_empty', 'is_not_empty']
+const ARRAY_OPERATORS: SegmentOperator[] = ['contains', 'not_contains', 'is_empty', 'is_not_empty']
+
+/** Must match the field list of segment_rule_sql() */
+export const SEGMENT_FIELDS: SegmentFieldDefinition[] = [
+  { field: 'email', label: 'Email', type: 'string', operators: STRING_OPERATORS },
+  { field: 'first_name', label: 'First Name', type: 'string', operators: STRING_OPERATORS },
+  { field: 'last_name', label: 'Last Name', type: 'string', operators: STRING_OPERATORS },
+  { field: 'company', label: 'Company', type: 'string', operators: STRING_OPERATORS },
+  { field: 'position', label: 'Job Title', type: 'string', operators: STRING_OPERATORS },
+  { field: 'industry', label: 'Industry', type: 'string', operators: STRING_OPERATORS },
+  { field: 'website', label: 'Website', type: 'string', operators: STRING_OPERATORS },
+  { field: 'phone', label: 'Phone', type: 'string', operators: STRING_OPERATORS },
+  { field: 'city', label: 'City', type: 'string', operators: STRING_OPERATORS },
+  { field: 'country', label: 'Country', type: 'string', operators: STRING_OPERATORS },
+  { field: 'source', label: 'Source', type: 'string', operators: STRING_OPERATORS },
+  { field: 'engagement_status', label: 'Engagement Status', type: 'string', operators: ['equals', 'not_equals', 'in', 'not_in'] },
+  { field: 'enrichment_status', label: 'Enrichment Status', type: 'string', operators: ['equals', 'not_equals', 'in', 'not_in', 'is_empty', 'is_not_empty'] },
+  { field: 'tags', label: 'Tags', type: 'array', operators: ARRAY_OPERATORS },
+  { field: 'engagement_score', label: 'Engagement Score', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'lead_score', label: 'Lead Score', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'engagement_sent_count', label: 'Emails Sent', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'engagement_open_count', label: 'Emails Opened', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'engagement_click_count', label: 'Emails Clicked', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'engagement_reply_count', label: 'Emails Replied', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'engagement_bounce_count', label: 'Bounces', type: 'number', operators: NUMBER_OPERATORS },
+  { field: 'created_at', label: 'Created Date', type: 'date', operators: DATE_OPERATORS },
+  { field: 'last_contacted_at', label: 'Last Contacted', type: 'date', operators: DATE_OPERATORS },
+  { field: 'last_opened_at', label: 'Last Opened', type: 'date', operators: DATE_OPERATORS },
+  { field: 'last_replied_at', label: 'Last Replied', type: 'date', operators: DATE_OPERATORS },
+  { field: 'unsubscribed_at', label: 'Unsubscribed', type: 'date', operators: DATE_OPERATORS },
+]
+
+const FIELDS_BY_NAME = new Map(SEGMENT_FIELDS.map(definition => [definition.field, definition]))
+
+/** Custom fields are segment fields named custom.<key> */
+export const CUSTOM_SEGMENT_FIELD_PREFIX = 'custom.'
+
+const CUSTOM_FIELD_SEGMENT_TYPES: Record<CustomFieldDefinition['type'], { type: SegmentFieldType; operators: SegmentOperator[] }> = {
+  text: { type: 'string', operators: STRING_OPERATORS },
+  select: { type: 'string', operators: ['equals', 'not_equals', 'in', 'not_in', 'is_empty', 'is_not_empty'] },
+  boolean: { type: 'string', operators: ['equals', 'not_equals', 'is_empty', 'is_not_empty'] },
+  number: { type: 'number', operators: NUMBER_OPERATORS },
+  date: { type: 'date', operators: DATE_OPERATORS },
+  multi_select: { type: 'array', operators: ARRAY_OPERATORS },
+}
+
+/**
+ * Segment fields of a user's custom fields. Yes / no fields compare against
+ * "true" and "false".
+ */
+export function customFieldSegmentFields(
+  definitions: Pick<CustomFieldDefinition, 'key' | 'label' | 'type'>[]
+): SegmentFieldDefinition[] {
+  return definitions
+    .filter(definition => CUSTOM_FIELD_SEGMENT_TYPES[definition.type])
+    .map(definition => ({
+      field: `${CUSTOM_SEGMENT_FIELD_PREFIX}${definition.key}`,
+      label: definition.label,
+      ...CUSTOM_FIELD_SEGMENT_TYPES[definition.type],
+    }))
+}
+
+/** Field names of the original segment format */
+const LEGACY_FIELD_ALIASES: Record<string, string> = {
+  company_name: 'company',
+  job_title: 'position',
+  last_contacted: 'last_contacted_at',
+  emails_sent: 'engagement_sent_count',
+  emails_opened: 'engagement_open_count',
+  emails_clicked: 'engagement_click_count',
+  emails_replied: 'engagement_reply_count',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const VALUELESS_OPERATORS = new Set<SegmentOperator>(['is_empty', 'is_not_empty'])
+
+export function getSegmentField(field: string): SegmentFieldDefinition | undefined {
+  return FIELDS_BY_NAME.get(field)
+}
+
+/**
+ * Check a rule tree from a request. Returns the tree with a normalized shape
+ * (trimmed strings, default tag match) or throws SegmentRuleValidationError
+ * listing every problem with its path in the tree. Rules on custom fields are
+ * only accepted for the given customFields (see customFieldSegmentFields).
+ */
+export function validateSegmentRules(input: unknown, customFields: SegmentFieldDefinition[] = []): SegmentRuleNode {
+  const issues: string[] = []
+  let ruleCount = 0
+  const fields = customFields.length > 0
+    ? new Map([...Array.from(FIELDS_BY_NAME), ...customFields.map(definition => [definition.field, definition] as const)])
+    : FIELDS_BY_NAME
+
+  const visit = (node: any, path: string, depth: number): SegmentRuleNode | null => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      issues.push(`${path}: expected a rule or group`)
+      return null
+    }
+    if (depth > MAX_SEGMENT_RULE_DEPTH) {
+      issues.push(`${path}: groups are nested deeper than ${MAX_SEGMENT_RULE_DEPTH} levels`)
+      return null
+    }
+    if (node.type !== 'group' && ++ruleCount > MAX_SEGMENT_RULES) {
+      if (ruleCount === MAX_SEGMENT_RULES + 1) issues.push(`a segment can have at most ${MAX_SEGMENT_RULES} rules`)
+      return null
+    }
+
+    switch (node.type) {
+      case 'group': {
+        if (!['AND', 'OR', 'NOT'].includes(node.logic)) {
+          issues.push(`${path}.logic: must be AND, OR or NOT`)
+        }
+        if (!Array.isArray(node.children)) {
+          issues.push(`${path}.children: expected a list of rules`)
+          return null
+        }
+        const children = node.children
+          .map((child: unknown, index: number) => visit(child, `${path}.children[${index}]`, depth + 1))
+          .filter((child: SegmentRuleNode | null): child is SegmentRuleNode => child !== null)
+        return { type: 'group', logic: node.logic, children }
+      }
+
+      case 'field': {
+        const rule = validateFieldRule(node, path, issues, fields)
+        return rule && rule.field.startsWith(CUSTOM_SEGMENT_FIELD_PREFIX)
+          ? { ...rule, value_type: fields.get(rule.field)!.type }
+          : rule
+      }
+
+      case 'in_campaign':
+      case 'replied_to_sequence': {
+        const key = node.type === 'in_campaign' ? 'campaign_id' : 'sequence_id'
+        if (typeof node[key] !== 'string' || !UUID_PATTERN.test(node[key])) {
+          issues.push(`${path}.${key}: expected an id`)
+          return null
+        }
+        return node.type === 'in_campaign'
+          ? { type: 'in_campaign', campaign_id: node.campaign_id }
+          : { type: 'replied_to_sequence', sequence_id: node.sequence_id }
+      }
+
+      case 'opened_email': {
+        const days = Number(node.within_days)
+        if (!Number.isInteger(days) || days < 1 || days > 3650) {
+          issues.push(`${path}.within_days: expected a number of days between 1 and 3650`)
+          return null
+        }
+        return { type: 'opened_email', within_days: days }
+      }
+
+      case 'has_tag': {
+        const tags = Array.isArray(node.tags)
+          ? node.tags.filter((tag: unknown): tag is string => typeof tag === 'string').map((tag: string) => tag.trim()).filter(Boolean)
+          : []
+        if (tags.length === 0) {
+          issues.push(`${path}.tags: expected at least one tag`)
+          return null
+        }
+        if (node.match !== undefined && node.match !== 'any' && node.match !== 'all') {
+          issues.push(`${path}.match: must be any or all`)
+        }
+        return { type: 'has_tag', tags, match: node.match === 'all' ? 'all' : 'any' }
+      }
+
+      case 'enriched_industry': {
+        const industry = typeof node.industry === 'string' ? node.industry.trim() : ''
+        if (!industry) {
+          issues.push(`${path}.industry: expected an industry`)
+          return null
+        }
+        return { type: 'enriched_industry', industry }
+      }
+
+      default:
+        issues.push(`${path}.type: unknown rule type ${JSON.stringify(node.type)}`)
+        return null
+    }
+  }
+
+  const rules = visit(input, 'rules', 0)
+  if (issues.length > 0 || !rules) {
+    throw new SegmentRuleValidationError(issues.length > 0 ? issues : ['rules: expected a rule or group'])
+  }
+  return rules
+}
+
+function validateFieldRule(
+  node: any,
+  path: string,
+  issues: string[],
+  fields: Map<string, SegmentFieldDefinition>
+): SegmentFieldRule | null {
+  const definition = fields.get(node.field)
+  if (!definition) {
+    issues.push(`${path}.field: unknown field ${JSON.stringify(node.field)}`)
+    return null
+  }
+  if (!definition.operators.includes(node.operator)) {
+    issues.push(`${path}.operator: ${JSON.stringify(node.operator)} is not supported for ${definition.field}`)
+    return null
+  }
+
+  const operator = node.operator as SegmentOperator
+  if (VALUELESS_OPERATORS.has(operator)) {
+    return { type: 'field', field: definition.field, operator }
+  }
+
+  const value = node.value
+  if (operator === 'in' || operator === 'not_in') {
+    const values = (Array.isArray(value) ? value : [value]).filter(item => item !== null && item !== undefined && item !== '').map(String)
+    if (values.length === 0) {
+      issues.push(`${path}.value: expected at least one value`)
+      return null
+    }
+    return { type: 'field', field: definition.field, operator, value: values }
+  }
+
+  if (operator === 'within_last_days') {
+    const days = Number(value)
+    if (!Number.isInteger(days) || days < 1) {
+      issues.push(`${path}.value: expected a number of days`)
+      return null
+    }
+    return { type: 'field', field: definition.field, operator, value: days }
+  }
+
+  if (definition.type === 'number') {
+    const number = typeof value === 'number' ? value : Number(value)
+    if (value === '' || value === null || value === undefined || !Number.isFinite(number)) {
+      issues.push(`${path}.value: expected a number`)
+      return null
+    }
+    return { type: 'field', field: definition.field, operator, value: number }
+  }
+
+  if (definition.type === 'date') {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      issues.push(`${path}.value: expected a date`)
+      return null
+    }
+    return { type: 'field', field: definition.field, operator, value }
+  }
+
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    issues.push(`${path}.value: expected a value`)
+    return null
+  }
+  const text = String(value).trim()
+  if (!text) {
+    issues.push(`${path}.value: expected a value`)
+    return null
+  }
+  return { type: 'field', field: definition.field, operator, value: text }
+}
+
+/**
+ * Whether membership can change just because time passes ("opened in the last
+ * 7 days"). Such segments are fully refreshed periodically, everything else
+ * only when a contact or its related data changes.
+ */
+export function segmentRulesDependOnTime(node: SegmentRuleNode): boolean {
+  switch (node.type) {
+    case 'group':
+      return node.children.some(segmentRulesDependOnTime)
+    case 'opened_email':
+      return true
+    case 'field':
+      return node.operator === 'within_last_days'
+    default:
+      return false
+  }
+}
+
+/**
+ * Fields and predicate types a tree uses, once per rule
+ */
+export function segmentRuleFields(node: SegmentRuleNode): string[] {
+  switch (node.type) {
+    case 'group':
+      return node.children.flatMap(segmentRuleFields)
+    case 'field':
+      return [node.field]
+    default:
+      return [node.type]
+  }
+}
+
+/**
+ * Convert flat conditions of the original format. Unknown legacy fields
+ * (status, email_status) have no column anymore; status rules are mapped
+ * onto bounces and unsubscribes, other unknown fields are dropped.
+ */
+export function segmentRulesFromConditions(conditions: SegmentCondition[], logic: 'AND' | 'OR' = 'AND'): SegmentRuleGroup {
+  return {
+    type: 'group',
+    logic,
+    children: conditions
+      .map((condition): SegmentRuleGroup => ({
+        type: 'group',
+        logic: condition.logic === 'OR' ? 'OR' : 'AND',
+        children: (condition.rules || [])
+          .map(legacyRuleToNode)
+          .filter((rule): rule is SegmentRuleNode => rule !== null),
+      }))
+      .filter(group => group.children.length > 0),
+  }
+}
+
+function legacyRuleToNode(rule: SegmentRule): SegmentRuleNode | null {
+  if (rule.field === 'status') {
+    const statuses = Array.isArray(rule.value) ? rule.value : [String(rule.value)]
+    const negate = rule.operator === 'not_equals' || rule.operator === 'not_in'
+    const nodes = statuses.map((status): SegmentRuleNode | null => {
+      switch (status) {
+        case 'bounced':
+          return { type: 'field', field: 'engagement_bounce_count', operator: 'greater_than', value: 0 }
+        case 'unsubscribed':
+          return { type: 'field', field: 'unsubscribed_at', operator: 'is_not_empty' }
+        case 'active':
+          return { type: 'field', field: 'unsubscribed_at', operator: 'is_empty' }
+        default:
+          return null
+      }
+    }).filter((node): node is SegmentRuleNode => node !== null)
+
+    if (nodes.length === 0) return null
+    const match: SegmentRuleNode = nodes.length === 1 ? nodes[0] : { type: 'group', logic: 'OR', children: nodes }
+    return negate ? { type: 'group', logic: 'NOT', children: [match] } : match
+  }
+
+  const field = LEGACY_FIELD_ALIASES[rule.field] || rule.field
+  const definition = getSegmentField(field)
+  if (!definition || !definition.operators.includes(rule.operator)) return null
+
+  return VALUELESS_OPERATORS.has(rule.operator)
+    ? { type: 'field', field, operator: rule.operator }
+    : { type: 'field', field, operator: rule.operator, value: rule.value }
+}
+
+/**
+ * Convert the filters of the segment creation form
+ */
+export function segmentRulesFromFilterCriteria(criteria: SegmentFilterCriteria): SegmentRuleGroup {
+  const children: SegmentRuleNode[] = []
+  const text = (value: string | undefined) => (value || '').trim()
+
+  if (text(criteria.company)) {
+    children.push({ type: 'field', field: 'company', operator: 'contains', value: text(criteria.company) })
+  }
+  if (text(criteria.jobTitle)) {
+    children.push({ type: 'field', field: 'position', operator: 'contains', value: text(criteria.jobTitle) })
+  }
+  if (text(criteria.location)) {
+    children.push({
+      type: 'group',
+      logic: 'OR',
+      children: [
+        { type: 'field', field: 'city', operator: 'contains', value: text(criteria.location) },
+        { type: 'field', field: 'country', operator: 'contains', value: text(criteria.location) },
+      ],
+    })
+  }
+  if (text(criteria.industry)) {
+    children.push({ type: 'enriched_industry', industry: text(criteria.industry) })
+  }
+  if (text(criteria.addedAfter)) {
+    children.push({ type: 'field', field: 'created_at', operator: 'greater_than', value: text(criteria.addedAfter) })
+  }
+  if (criteria.tags && criteria.tags.length > 0) {
+    children.push({ type: 'has_tag', tags: criteria.tags, match: 'any' })
+  }
+
+  return { type: 'group', logic: 'AND', children }
+}
+
+/**
+ * Rules for a segment saved before rule trees existed, from its conditions
+ * column: either flat conditions or the filters of the creation form
+ */
+export function segmentRulesFromLegacy(conditions: Json | null): SegmentRuleGroup {
+  if (Array.isArray(conditions)) {
+    return segmentRulesFromConditions(conditions as unknown as SegmentCondition[])
+  }
+  if (conditions && typeof conditions === 'object') {
+    return segmentRulesFromFilterCriteria(conditions as SegmentFilterCriteria)
+  }
+  return { type: 'group', logic: 'AND', children: [] }
+}
+
+/**
+ * Rules of a segment request: an explicit rule tree, or the creation form's filters
+ */
+export function segmentRulesFromInput(input: { rules?: unknown; filterCriteria?: SegmentFilterCriteria }): unknown {
+  if (input.rules !== undefined) return input.rules
+  if (input.filterCriteria !== undefined) return segmentRulesFromFilterCriteria(input.filterCriteria)
+  return undefined
+}
@@ -0,0 +1,326 @@
+import { getDefaultTimezone, inferContactCountry, type ContactLocation } from './holiday-calendars'
+import { selectAllPages } from './supabase-paging'
+
+/**
+ * Send-time optimization from historical engagement.
+ *
+ * Opens and clicks recorded in email_tracking are bucketed by the recipient's
+ * local hour, weighted towards recent activity, and the busiest hour becomes the
+ * predicted send hour. A contact's own history wins when it has enough events;
+ * otherwise the recipient domain's history is used. With too little data there
+ * is no prediction and the campaign's regular window applies. Predictions are
+ * kept inside the campaign's business hours and custom time windows.
+ */
+
+export interface EngagementEvent {
+  contact_id: string
+  opened_at?: string | null
+  clicked_at?: string | null
+}
+
+export interface SendTimeContact extends ContactLocation {
+  id: string
+  email: string
+}
+
+export interface SendTimePrediction {
+  hour: number // 0-23, recipient local time
+  timezone: string
+  source: 'contact' | 'domain'
+  sampleSize: number
+  confidence: number // 0-1, share of engagement around the predicted hour
+}
+
+/** The campaign settings that limit when an optimized send may go out */
+export interface SendWindowSettings {
+  business_hours_only?: boolean
+  business_hours_start?: string // HH:MM
+  business_hours_end?: string // HH:MM
+  business_days?: number[] // 0-6, Sunday = 0
+  custom_time_windows?: Array<{ start_time: string; end_time: string; days?: number[] }>
+}
+
+export interface SendTimeModel {
+  contacts: Map<string, number[]>
+  domains: Map<string, number[]>
+  contactSamples: Map<string, number>
+  domainSamples: Map<string, number>
+  fallbackTimezone: string
+}
+
+/** Minimum events before a contact's own history is trusted */
+export const MIN_CONTACT_EVENTS = 3
+/** Minimum events across a recipient domain before it is used for its contacts */
+export const MIN_DOMAIN_EVENTS = 10
+
+const CLICK_WEIGHT = 2
+const OPEN_WEIGHT = 1
+const HALF_LIFE_DAYS = 90
+const HISTORY_DAYS = 365
+const MAX_EVENTS = 5000
+const DEFAULT_BUSINESS_DAYS = [1, 2, 3, 4, 5]
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+function emptyHistogram(): number[] {
+  return new Array(24).fill(0)
+}
+
+function domainOf(email: string): string {
+  return (email.split('@')[1] || '').toLowerCase()
+}
+
+/**
+ * Hour of day (0-23) of an instant in a timezone
+ */
+export function getLocalHour(date: Date, timezone: string): number {
+  try {
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(date)
+    return Number(hour) % 24
+  } catch {
+    return date.getUTCHours()
+  }
+}
+
+/**
+ * Day of week (0-6, Sunday = 0) of an instant in a timezone
+ */
+export function getLocalWeekday(date: Date, timezone: string): number {
+  try {
+    return WEEKDAYS.indexOf(new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(date))
+  } catch {
+    return date.getUTCDay()
+  }
+}
+
+export function resolveContactTimezone(contact: ContactLocation, fallbackTimezone: string): string {
+  return contact.timezone || getDefaultTimezone(inferContactCountry(contact)) || fallbackTimezone
+}
+
+/**
+ * Recency-weighted engagement per local hour
+ */
+export function addToHistogram(histogram: number[], event: EngagementEvent, timezone: string, now: Date = new Date()): number {
+  let added = 0
+  const samples: Array<[string | null | undefined, number]> = [[event.opened_at, OPEN_WEIGHT], [event.clicked_at, CLICK_WEIGHT]]
+  for (const [timestamp, weight] of samples) {
+    if (!timestamp) continue
+    const at = new Date(timestamp)
+    if (isNaN(at.getTime())) continue
+    const ageDays = Math.max(0, (now.getTime() - at.getTime()) / DAY_MS)
+    histogram[getLocalHour(at, timezone)] += weight * Math.pow(0.5, ageDays / HALF_LIFE_DAYS)
+    added++
+  }
+  return added
+}
+
+/**
+ * Busiest hour of a histogram, smoothed with its neighbouring hours so a single
+ * outlier does not win over a consistent morning or afternoon pattern
+ */
+export function pickBestHour(histogram: number[]): { hour: number; confidence: number } | null {
+  const total = histogram.reduce((sum, value) => sum + value, 0)
+  if (total <= 0) return null
+
+  let best = { hour: 0, score: -1 }
+  for (let hour = 0; hour < 24; hour++) {
+    const score = 0.25 * histogram[(hour + 23) % 24] + 0.5 * histogram[hour] + 0.25 * histogram[(hour + 1) % 24]
+    if (score > best.score) best = { hour, score }
+  }
+
+  const around = histogram[(best.hour + 23) % 24] + histogram[best.hour] + histogram[(best.hour + 1) % 24]
+  return { hour: best.hour, confidence: Math.min(1, around / total) }
+}
+
+/**
+ * Build the per-contact and per-domain hour histograms from engagement events
+ */
+export function buildSendTimeModel(
+  events: EngagementEvent[],
+  contacts: Map<string, SendTimeContact>,
+  fallbackTimezone: string,
+  now: Date = new Date(),
+): SendTimeModel {
+  const model: SendTimeModel = {
+    contacts: new Map(),
+    domains: new Map(),
+    contactSamples: new Map(),
+    domainSamples: new Map(),
+    fallbackTimezone,
+  }
+
+  for (const event of events) {
+    const contact = contacts.get(event.contact_id)
+    if (!contact) continue
+
+    const timezone = resolveContactTimezone(contact, fallbackTimezone)
+    const domain = domainOf(contact.email)
+
+    const contactHistogram = model.contacts.get(contact.id) || emptyHistogram()
+    const added = addToHistogram(contactHistogram, event, timezone, now)
+    model.contacts.set(contact.id, contactHistogram)
+    model.contactSamples.set(contact.id, (model.contactSamples.get(contact.id) || 0) + added)
+
+    if (domain) {
+      const domainHistogram = model.domains.get(domain) || emptyHistogram()
+      addToHistogram(domainHistogram, event, timezone, now)
+      model.domains.set(domain, domainHistogram)
+      model.domainSamples.set(domain, (model.domainSamples.get(domain) || 0) + added)
+    }
+  }
+
+  return model
+}
+
+/**
+ * Predicted local send hour for a contact, or null when there is too little data
+ */
+export function predictSendHour(model: SendTimeModel, contact: SendTimeContact): SendTimePrediction | null {
+  const timezone = resolveContactTimezone(contact, model.fallbackTimezone)
+
+  const contactSamples = model.contactSamples.get(contact.id) || 0
+  if (contactSamples >= MIN_CONTACT_EVENTS) {
+    const best = pickBestHour(model.contacts.get(contact.id)!)
+    if (best) return { ...best, timezone, source: 'contact', sampleSize: contactSamples }
+  }
+
+  const domain = domainOf(contact.email)
+  const domainSamples = model.domainSamples.get(domain) || 0
+  if (domainSamples >= MIN_DOMAIN_EVENTS) {
+    const best = pickBestHour(model.domains.get(domain)!)
+    if (best) return { ...best, timezone, source: 'domain', sampleSize: domainSamples }
+  }
+
+  return null
+}
+
+/**
+ * Next instant at or after `from` where the local time is `hour`:00 in the timezone
+ */
+export function nextOccurrenceOfHour(from: Date, hour: number, timezone: string): Date {
+  if (getLocalHour(from, timezone) === hour) return new Date(from)
+
+  const start = new Date(Math.ceil(from.getTime() / HOUR_MS) * HOUR_MS)
+  for (let offset = 0; offset < 48; offset++) {
+    const candidate = new Date(start.getTime() + offset * HOUR_MS)
+    if (getLocalHour(candidate, timezone) === hour) {
+      // Half-hour timezones land between UTC hours; move back to the top of the local hour
+      const minutes = Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, minute: 'numeric' }).format(candidate))
+      return new Date(candidate.getTime() - (minutes || 0) * 60 * 1000)
+    }
+  }
+  return new Date(from)
+}
+
+function toMinutes(time: string | undefined, fallback: number): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '')
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback
+}
+
+/**
+ * Whether a send starting at `hour`:00 local time on `weekday` falls inside the
+ * campaign's business hours and (when configured) one of its custom time windows
+ */
+export function isWithinSendWindow(weekday: number, hour: number, settings: SendWindowSettings): boolean {
+  const minutes = hour * 60
+
+  if (settings.business_hours_only) {
+    const days = settings.business_days?.length ? settings.business_days : DEFAULT_BUSINESS_DAYS
+    const start = toMinutes(settings.business_hours_start, 9 * 60)
+    const end = toMinutes(settings.business_hours_end, 17 * 60)
+    if (!days.includes(weekday) || minutes < start || minutes >= end) return false
+  }
+
+  const windows = settings.custom_time_windows || []
+  if (windows.length > 0) {
+    return windows.some(window =>
+      (!window.days?.length || window.days.includes(weekday)) &&
+      minutes >= toMinutes(window.start_time, 0) &&
+      minutes < toMinutes(window.end_time, 24 * 60)
+    )
+  }
+
+  return true
+}
+
+/**
+ * Next time a contact with a predicted hour should be emailed: the predicted
+ * hour itself, or the allowed hour closest to it when the campaign's window
+ * excludes it, on the next day the window is open. Returns null when the
+ * window never opens within a week.
+ */
+export function nextOptimizedSendTime(
+  from: Date,
+  hour: number,
+  timezone: string,
+  settings: SendWindowSettings = {},
+): Date | null {
+  let target: number | null = null
+  for (let distance = 0; distance <= 12 && target === null; distance++) {
+    for (const candidate of [(hour - distance + 24) % 24, (hour + distance) % 24]) {
+      if ([0, 1, 2, 3, 4, 5, 6].some(weekday => isWithinSendWindow(weekday, candidate, settings))) {
+        target = candidate
+        break
+      }
+    }
+  }
+  if (target === null) return null
+
+  let candidate = nextOccurrenceOfHour(from, target, timezone)
+  for (let day = 0; day < 8; day++) {
+    if (isWithinSendWindow(getLocalWeekday(candidate, timezone), target, settings)) {
+      return candidate
+    }
+    candidate = nextOccurrenceOfHour(new Date(candidate.getTime() + HOUR_MS), target, timezone)
+  }
+
+  return null
+}
+
+/**
+ * Load a user's recent opens/clicks and build the model. Contacts outside the
+ * batch are loaded too so their engagement counts towards their domain.
+ */
+export async function loadSendTimeModel(
+  supabase: any,
+  userId: string,
+  contacts: SendTimeContact[],
+  fallbackTimezone: string,
+): Promise<SendTimeModel> {
+  const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString()
+
+  // The most recent events, up to MAX_EVENTS
+  const { data: events, error } = await selectAllPages<EngagementEvent>((from, to) => supabase
+    .from('email_tracking')
+    .select('contact_id, opened_at, clicked_at')
+    .eq('user_id', userId)
+    .not('contact_id', 'is', null)
+    .not('opened_at', 'is', null)
+    .gte('sent_at', since)
+    .order('opened_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to), { maxRows: MAX_EVENTS })
+
+  if (error) {
+    throw new Error(`Failed to load engagement history: ${error.message}`)
+  }
+
+  const contactMap = new Map<string, SendTimeContact>(contacts.map(contact => [contact.id, contact]))
+  const missingIds = Array.from(new Set(events.map(event => event.contact_id)))
+    .filter((id): id is string => typeof id === 'string' && !contactMap.has(id))
+
+  for (let i = 0; i < missingIds.length; i += 500) {
+    const { data: more, error: contactsError } = await supabase
+      .from('contacts')
+      .select('id, email, country, address, city, timezone, linkedin_country, linkedin_country_code')
+      .in('id', missingIds.slice(i, i + 500))
+
+    if (contactsError) {
+      throw new Error(`Failed to load contacts for send-time model: ${contactsError.message}`)
+    }
+    for (const contact of more || []) contactMap.set(contact.id, contact)
+  }
+
+  return buildSendTimeModel(events, contactMap, fallbackTimezone)
+}
@@ -1,6 +1,13 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from './database.types'
 import type { SequenceLinkRecord } from './sequences'
+import { edgeBypassesFilter, matchesEdgeCondition } from './sequence-graph'
+import {
+  getOOOResumeTime,
+  recordOOOPostponement,
+  resolveOOORules,
+  type OOOSettingsSource,
+} from './ooo-rescheduling'
 
 type Supabase = SupabaseClient<Database>
 
@@ -33,7 +40,7 @@ export async function advanceSequenceForCampaign(
   try {
     const { data: campaign, error: campaignError } = await supabase
       .from('campaigns')
-      .select('id, user_id, sequence_id, sequence_position, status, name')
+      .select('id, user_id, sequence_id, sequence_position, status, name, send_settings')
       .eq('id', campaignId)
       .single()
 
@@ -69,6 +76,7 @@ export async function advanceSequenceForCampaign(
       .select('*')
       .eq('sequence_id', sequence.id as string)
       .eq('parent_campaign_id', campaign.id)
+      .order('priority', { ascending: true })
 
     if (linksError) {
       console.error('❌ Sequence automation: failed to load sequence links', linksError)
@@ -176,6 +184,8 @@ export async function advanceSequenceForCampaign(
       return
     }
 
+    // A contact follows the first matching edge only (links are ordered by priority)
+    const assignedContacts = new Set<string>()
     for (const link of sequenceLinks) {
       await processLinkTransition({
         supabase,
@@ -186,6 +196,7 @@ export async function advanceSequenceForCampaign(
         contactInfoMap,
         trackingMap,
         enrollmentMap,
+        assignedContacts,
       })
     }
   } catch (error) {
@@ -274,12 +285,13 @@ async function markEnrollmentsCompleted(
 async function processLinkTransition(params: {
   supabase: Supabase
   link: SequenceLinkRecord
-  campaign: { id: string; sequence_position?: number | null }
+  campaign: { id: string; user_id: string; sequence_position?: number | null; send_settings?: unknown }
   sequenceId: string
   contactRows: CampaignContactRow[]
   contactInfoMap: Map<string, ContactInfoRow>
   trackingMap: Map<string, TrackingStats>
   enrollmentMap: Map<string, any>
+  assignedContacts: Set<string>
 }) {
   const {
     supabase,
@@ -290,37 +302,49 @@ async function processLinkTransition(params: {
     contactInfoMap,
     trackingMap,
     enrollmentMap,
+    assignedContacts,
   } = params
 
   if (!link.next_campaign_id) {
     return
   }
 
+  // Out-of-office contacts still follow the link; their next step waits until they are back
+  const { bufferDays } = resolveOOORules(campaign as OOOSettingsSource)
+  const postponedUntil = new Map<string, Date>()
+
   const eligibleContacts = contactRows.filter((contactRow) => {
-    const enrollment = enrollmentMap.get(contactRow.contact_id)
-    if (enrollment && FINAL_STATUSES.has(enrollment.status)) {
+    if (assignedContacts.has(contactRow.contact_id)) {
       return false
     }
 
-    if (['bounced', 'unsubscribed', 'stopped'].includes(contactRow.status)) {
+    const enrollment = enrollmentMap.get(contactRow.contact_id)
+    if (enrollment && FINAL_STATUSES.has(enrollment.status)) {
       return false
     }
 
     const contactInfo = contactInfoMap.get(contactRow.contact_id)
-    const filterAutoReply = link.filter_auto_reply !== false
-    const filterBounced = link.filter_bounced !== false
+    const bouncedEdge = edgeBypassesFilter(link.condition_type, 'bounced')
+    const autoReplyEdge = edgeBypassesFilter(link.condition_type, 'auto_reply')
+    const filterAutoReply = link.filter_auto_reply !== false && !autoReplyEdge
+    const filterBounced = link.filter_bounced !== false && !bouncedEdge
     const filterUnsubscribed = link.filter_unsubscribed !== false
 
-    if (filterUnsubscribed && contactInfo?.status === 'unsubscribed') {
+    const blockedStatuses = bouncedEdge ? ['unsubscribed', 'stopped'] : ['bounced', 'unsubscribed', 'stopped']
+    if (blockedStatuses.includes(contactRow.status)) {
       return false
     }
 
-    if (filterAutoReply && contactInfo?.auto_reply_until) {
-      if (new Date(contactInfo.auto_reply_until) > new Date()) {
-        return false
-      }
+    if (filterUnsubscribed && contactInfo?.status === 'unsubscribed') {
+      return false
     }
 
+    const autoReplyActive = Boolean(
+      contactInfo?.auto_reply_until && new Date(contactInfo.auto_reply_until) > new Date(),
+    )
+
+    const resumeAt = filterAutoReply ? getOOOResumeTime(contactInfo || {}, bufferDays) : null
+
     if (filterBounced && contactInfo?.status === 'bounced') {
       return false
     }
@@ -336,7 +360,15 @@ async function processLinkTransition(params: {
       return false
     }
 
-    return evaluateLinkCondition(link, stats)
+    const matches = evaluateLinkCondition(link, {
+      ...stats,
+      bounced: stats.bounced || contactInfo?.status === 'bounced',
+    }, autoReplyActive)
+
+    if (matches && resumeAt) {
+      postponedUntil.set(contactRow.contact_id, resumeAt)
+    }
+    return matches
   })
 
   if (!eligibleContacts.length) {
@@ -346,6 +378,8 @@ async function processLinkTransition(params: {
     return
   }
 
+  eligibleContacts.forEach((row) => assignedContacts.add(row.contact_id))
+
   const timestamp = new Date().toISOString()
   const delayMs =
     ((link.delay_days || 0) * 24 * 60 * 60 * 1000) + ((link.delay_hours || 0) * 60 * 60 * 1000)
@@ -410,12 +444,39 @@ async function processLinkTransition(params: {
     (campaign.sequence_position ?? 1) + 1,
   )
 
+  // The next campaign holds these contacts back when it sends; record why for their timeline
+  for (const [contactId, resumeAt] of Array.from(postponedUntil.entries())) {
+    const contactInfo = contactInfoMap.get(contactId)
+    try {
+      await recordOOOPostponement(supabase, {
+        userId: campaign.user_id,
+        contactId,
+        campaignId: link.next_campaign_id,
+        stage: 'sequence_link',
+        autoReplyUntil: contactInfo?.auto_reply_until as string,
+        postponedUntil: resumeAt > scheduledTime ? resumeAt : scheduledTime,
+      })
+    } catch (error) {
+      console.error('⚠️ Sequence automation: failed to record out-of-office postponement', error)
+    }
+  }
+
+  if (postponedUntil.size > 0) {
+    console.log(
+      `🏖️ Sequence automation: ${postponedUntil.size} out-of-office contacts postponed until their return`,
+    )
+  }
+
   console.log(
     `✅ Sequence automation: moved ${eligibleContacts.length} contacts from campaign ${campaign.id} to next campaign ${link.next_campaign_id}`,
   )
 }
 
-function evaluateLinkCondition(link: SequenceLinkRecord, stats: TrackingStats): boolean {
+function evaluateLinkCondition(
+  link: SequenceLinkRecord,
+  stats: TrackingStats,
+  autoReplyActive: boolean,
+): boolean {
   if (link.min_opens > stats.openedCount) {
     return false
   }
@@ -428,16 +489,7 @@ function evaluateLinkCondition(link: SequenceLinkRecord, stats: TrackingStats):
     return false
   }
 
-  switch (link.condition_type) {
-    case 'no_reply':
-      return !stats.replied
-    case 'opened_no_reply':
-      return stats.openedCount > 0 && !stats.replied
-    case 'always':
-    case 'custom':
-    default:
-      return true
-  }
+  return matchesEdgeCondition(link.condition_type, { ...stats, autoReplyActive })
 }
 
 async function updateNextCampaignMetadata(
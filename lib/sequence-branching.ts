@@ -0,0 +1,289 @@
+import type { EmailStep, StepCondition } from './campaigns'
+
+/**
+ * Sequence Branching
+ * Evaluates EmailStep conditions per contact against email_tracking engagement
+ * and decides which step the contact should receive next.
+ */
+
+export interface StepEngagementSignals {
+  opened: boolean
+  clicked: boolean
+  replied: boolean
+  open_count: number
+  click_count: number
+  last_email_sent_at: string | null
+  previous_step_opened: boolean
+  previous_step_clicked: boolean
+}
+
+export type BranchAction = 'continue' | 'stop' | 'skip' | 'branch' | 'delay'
+
+export interface BranchDecision {
+  action: BranchAction
+  from_step: number
+  next_step: number | null
+  delay_hours?: number
+  condition_id?: string
+  reason: string
+}
+
+export interface BranchPathEntry {
+  from_step: number
+  to_step: number | null
+  action: BranchAction
+  condition_id?: string
+  reason: string
+  decided_at: string
+}
+
+interface TrackingRow {
+  message_id: string | null
+  sent_at: string | null
+  opened_at: string | null
+  clicked_at: string | null
+  replied_at: string | null
+  open_count?: number | null
+  click_count?: number | null
+}
+
+const EMPTY_SIGNALS: StepEngagementSignals = {
+  opened: false,
+  clicked: false,
+  replied: false,
+  open_count: 0,
+  click_count: 0,
+  last_email_sent_at: null,
+  previous_step_opened: false,
+  previous_step_clicked: false,
+}
+
+/**
+ * Build engagement signals for one contact from their email_tracking rows.
+ * `previousStepMessageIds` identifies the rows that belong to the step that was
+ * sent last, so `previous_step_*` conditions only look at that email.
+ */
+export function buildEngagementSignals(
+  rows: TrackingRow[],
+  previousStepMessageIds: string[] = [],
+): StepEngagementSignals {
+  if (!rows.length) {
+    return { ...EMPTY_SIGNALS }
+  }
+
+  const previousIds = new Set(previousStepMessageIds)
+  const signals: StepEngagementSignals = { ...EMPTY_SIGNALS }
+
+  for (const row of rows) {
+    const opened = Boolean(row.opened_at) || (row.open_count || 0) > 0
+    const clicked = Boolean(row.clicked_at) || (row.click_count || 0) > 0
+
+    if (opened) {
+      signals.opened = true
+      signals.open_count += Math.max(row.open_count || 0, 1)
+    }
+    if (clicked) {
+      signals.clicked = true
+      signals.click_count += Math.max(row.click_count || 0, 1)
+    }
+    if (row.replied_at) {
+      signals.replied = true
+    }
+    if (row.sent_at && (!signals.last_email_sent_at || row.sent_at > signals.last_email_sent_at)) {
+      signals.last_email_sent_at = row.sent_at
+    }
+    if (row.message_id && previousIds.has(row.message_id)) {
+      signals.previous_step_opened = signals.previous_step_opened || opened
+      signals.previous_step_clicked = signals.previous_step_clicked || clicked
+    }
+  }
+
+  return signals
+}
+
+/**
+ * Evaluate a single step condition against a contact's engagement signals
+ */
+export function evaluateStepCondition(
+  condition: StepCondition,
+  signals: StepEngagementSignals,
+  now: Date = new Date(),
+): boolean {
+  let actualValue: any
+
+  switch (condition.type) {
+    case 'reply_received':
+      actualValue = signals.replied
+      break
+    case 'email_opened':
+      actualValue = signals.opened
+      break
+    case 'link_clicked':
+      actualValue = signals.clicked
+      break
+    case 'previous_step_opened':
+      actualValue = signals.previous_step_opened
+      break
+    case 'previous_step_clicked':
+      actualValue = signals.previous_step_clicked
+      break
+    case 'time_elapsed':
+      if (!signals.last_email_sent_at) return false
+      actualValue = Math.floor(
+        (now.getTime() - new Date(signals.last_email_sent_at).getTime()) / (1000 * 60 * 60),
+      )
+      break
+    default:
+      return false
+  }
+
+  const expected = normalizeConditionValue(condition.value, typeof actualValue)
+
+  switch (condition.operator) {
+    case 'equals':
+      return actualValue === expected
+    case 'not_equals':
+      return actualValue !== expected
+    case 'greater_than':
+      return Number(actualValue) > Number(expected)
+    case 'less_than':
+      return Number(actualValue) < Number(expected)
+    case 'contains':
+      return String(actualValue).includes(String(expected))
+    default:
+      return false
+  }
+}
+
+/**
+ * Decide what happens before `upcomingStep` is sent, based on the conditions
+ * configured on the step the contact received last. The first matching
+ * condition wins, mirroring the order the conditions were defined in.
+ */
+export function resolveBranchDecision(
+  previousStep: EmailStep,
+  upcomingStep: EmailStep,
+  sequence: EmailStep[],
+  signals: StepEngagementSignals,
+  options: { delayAlreadyApplied?: boolean; now?: Date } = {},
+): BranchDecision {
+  const base = { from_step: previousStep.step_number }
+
+  for (const condition of previousStep.conditions || []) {
+    if (condition.action === 'delay_step' && options.delayAlreadyApplied) {
+      continue
+    }
+
+    if (!evaluateStepCondition(condition, signals, options.now)) {
+      continue
+    }
+
+    const reason = `Condition met: ${condition.type} ${condition.operator} ${String(condition.value)}`
+
+    switch (condition.action) {
+      case 'stop_sequence':
+        return { ...base, action: 'stop', next_step: null, condition_id: condition.id, reason }
+
+      case 'skip_step': {
+        const following = sequence.find(s => s.step_number === upcomingStep.step_number + 1)
+        return {
+          ...base,
+          action: following ? 'skip' : 'stop',
+          next_step: following ? following.step_number : null,
+          condition_id: condition.id,
+          reason,
+        }
+      }
+
+      case 'branch_to_step': {
+        const target = sequence.find(s => s.id === condition.target_step_id)
+        if (!target) {
+          continue
+        }
+        return {
+          ...base,
+          action: 'branch',
+          next_step: target.step_number,
+          delay_hours: condition.delay_hours || 0,
+          condition_id: condition.id,
+          reason,
+        }
+      }
+
+      case 'delay_step':
+        return {
+          ...base,
+          action: 'delay',
+          next_step: upcomingStep.step_number,
+          delay_hours: condition.delay_hours || 24,
+          condition_id: condition.id,
+          reason,
+        }
+    }
+  }
+
+  return {
+    ...base,
+    action: 'continue',
+    next_step: upcomingStep.step_number,
+    reason: 'No conditions met - continue sequence',
+  }
+}
+
+/**
+ * Convert a decision into the entry stored on campaign_contacts.branch_path
+ */
+export function toBranchPathEntry(decision: BranchDecision, decidedAt: Date = new Date()): BranchPathEntry {
+  return {
+    from_step: decision.from_step,
+    to_step: decision.next_step,
+    action: decision.action,
+    condition_id: decision.condition_id,
+    reason: decision.reason,
+    decided_at: decidedAt.toISOString(),
+  }
+}
+
+/**
+ * The branch path with a decision appended. A due job that is held back and
+ * evaluated again (delay, out-of-office postponement) reaches the same
+ * decision each cycle; that repeat is not recorded again.
+ */
+export function appendBranchPathEntry(
+  path: BranchPathEntry[],
+  decision: BranchDecision,
+  decidedAt: Date = new Date()
+): BranchPathEntry[] {
+  const last = path[path.length - 1]
+  if (last && last.from_step === decision.from_step && last.to_step === decision.next_step && last.action === decision.action) {
+    return path
+  }
+  return [...path, toBranchPathEntry(decision, decidedAt)]
+}
+
+/**
+ * Render a branch path as a compact "1 → 3 → 4" style label
+ */
+export function formatBranchPath(path: BranchPathEntry[] | null | undefined): string {
+  if (!path || path.length === 0) return ''
+
+  const steps: string[] = [String(path[0].from_step)]
+  for (const entry of path) {
+    if (entry.action === 'delay') continue
+    steps.push(entry.to_step === null ? 'stop' : String(entry.to_step))
+  }
+  return steps.join(' → ')
+}
+
+function normalizeConditionValue(value: any, targetType: string): any {
+  if (targetType === 'boolean') {
+    if (value === undefined || value === null || value === '') return true
+    if (typeof value === 'string') return value.toLowerCase() === 'true'
+    return Boolean(value)
+  }
+  if (targetType === 'number') {
+    const num = Number(value)
+    return Number.isFinite(num) ? num : 0
+  }
+  return value
+}
@@ -0,0 +1,251 @@
+/**
+ * Sequence Graph
+ * Directed-graph view of a sequence: campaigns are nodes, sequence_links are
+ * conditional edges. Used by the graph editor to validate a sequence before save.
+ */
+
+export const SEQUENCE_EDGE_CONDITIONS = [
+  'no_reply',
+  'opened_no_reply',
+  'opened',
+  'not_opened',
+  'clicked',
+  'replied',
+  'bounced',
+  'auto_reply',
+  'always',
+  'custom',
+] as const
+
+export type SequenceEdgeCondition = (typeof SEQUENCE_EDGE_CONDITIONS)[number]
+
+export interface SequenceGraphNode {
+  id: string
+  name?: string
+  position: { x: number; y: number }
+}
+
+export interface SequenceGraphEdge {
+  id?: string | null
+  source: string
+  target: string
+  condition_type: SequenceEdgeCondition
+  delay_days: number
+  delay_hours: number
+  priority: number
+}
+
+export interface SequenceGraph {
+  entry_campaign_id: string | null
+  nodes: SequenceGraphNode[]
+  edges: SequenceGraphEdge[]
+}
+
+export interface SequenceGraphValidation {
+  valid: boolean
+  errors: string[]
+  cycles: string[][]
+  unreachable: string[]
+}
+
+export interface SequenceEdgeStats {
+  total: number
+  in_progress: number
+  completed: number
+  stopped: number
+}
+
+export interface EdgeEngagement {
+  openedCount: number
+  clickedCount: number
+  replied: boolean
+  bounced: boolean
+  autoReplyActive: boolean
+}
+
+/**
+ * Validate a sequence graph: edges must reference known nodes, the graph must
+ * be acyclic and every node must be reachable from the entry campaign.
+ */
+export function validateSequenceGraph(graph: SequenceGraph): SequenceGraphValidation {
+  const errors: string[] = []
+  const nodeIds = new Set(graph.nodes.map((node) => node.id))
+  const nodeName = (id: string) => graph.nodes.find((node) => node.id === id)?.name || id
+
+  if (graph.nodes.length === 0) {
+    return { valid: true, errors, cycles: [], unreachable: [] }
+  }
+
+  if (!graph.entry_campaign_id) {
+    errors.push('An entry campaign is required')
+  } else if (!nodeIds.has(graph.entry_campaign_id)) {
+    errors.push('Entry campaign is not part of this sequence')
+  }
+
+  const seenEdges = new Set<string>()
+  for (const edge of graph.edges) {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      errors.push(`Edge ${nodeName(edge.source)} → ${nodeName(edge.target)} references a campaign outside this sequence`)
+      continue
+    }
+    if (edge.source === edge.target) {
+      errors.push(`${nodeName(edge.source)} cannot link to itself`)
+      continue
+    }
+    const key = `${edge.source}->${edge.target}`
+    if (seenEdges.has(key)) {
+      errors.push(`Duplicate edge ${nodeName(edge.source)} → ${nodeName(edge.target)}`)
+    }
+    seenEdges.add(key)
+    if (!SEQUENCE_EDGE_CONDITIONS.includes(edge.condition_type)) {
+      errors.push(`Unknown condition "${edge.condition_type}" on edge ${nodeName(edge.source)} → ${nodeName(edge.target)}`)
+    }
+    if (edge.delay_days < 0 || edge.delay_hours < 0 || edge.delay_hours > 23) {
+      errors.push(`Invalid delay on edge ${nodeName(edge.source)} → ${nodeName(edge.target)}`)
+    }
+  }
+
+  const adjacency = buildAdjacency(graph)
+
+  const cycles = findCycles(graph.nodes.map((node) => node.id), adjacency)
+  for (const cycle of cycles) {
+    errors.push(`Cycle detected: ${cycle.map(nodeName).join(' → ')}`)
+  }
+
+  let unreachable: string[] = []
+  if (graph.entry_campaign_id && nodeIds.has(graph.entry_campaign_id)) {
+    const reachable = new Set<string>([graph.entry_campaign_id])
+    const queue = [graph.entry_campaign_id]
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      for (const next of adjacency.get(current) || []) {
+        if (!reachable.has(next)) {
+          reachable.add(next)
+          queue.push(next)
+        }
+      }
+    }
+    unreachable = graph.nodes.map((node) => node.id).filter((id) => !reachable.has(id))
+    for (const id of unreachable) {
+      errors.push(`${nodeName(id)} is not reachable from the entry campaign`)
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    cycles,
+    unreachable,
+  }
+}
+
+/**
+ * Decide whether a contact's engagement satisfies an edge condition
+ */
+export function matchesEdgeCondition(
+  condition: SequenceEdgeCondition | string,
+  stats: EdgeEngagement,
+): boolean {
+  switch (condition) {
+    case 'no_reply':
+      return !stats.replied
+    case 'opened_no_reply':
+      return stats.openedCount > 0 && !stats.replied
+    case 'opened':
+      return stats.openedCount > 0
+    case 'not_opened':
+      return stats.openedCount === 0 && !stats.replied
+    case 'clicked':
+      return stats.clickedCount > 0
+    case 'replied':
+      return stats.replied
+    case 'bounced':
+      return stats.bounced
+    case 'auto_reply':
+      return stats.autoReplyActive
+    case 'always':
+    case 'custom':
+    default:
+      return true
+  }
+}
+
+/**
+ * Conditions that target contacts the default link filters would otherwise drop
+ */
+export function edgeBypassesFilter(condition: string, filter: 'bounced' | 'auto_reply'): boolean {
+  return (filter === 'bounced' && condition === 'bounced') ||
+    (filter === 'auto_reply' && condition === 'auto_reply')
+}
+
+/**
+ * Aggregate sequence_enrollments rows into live counts per link
+ */
+export function aggregateEdgeStats(
+  enrollments: Array<{ current_link_id: string | null; status: string }>,
+): Record<string, SequenceEdgeStats> {
+  const stats: Record<string, SequenceEdgeStats> = {}
+
+  for (const enrollment of enrollments) {
+    if (!enrollment.current_link_id) continue
+    const entry = stats[enrollment.current_link_id] || { total: 0, in_progress: 0, completed: 0, stopped: 0 }
+    entry.total += 1
+    if (enrollment.status === 'in_progress' || enrollment.status === 'pending') {
+      entry.in_progress += 1
+    } else if (enrollment.status === 'completed') {
+      entry.completed += 1
+    } else if (enrollment.status === 'stopped') {
+      entry.stopped += 1
+    }
+    stats[enrollment.current_link_id] = entry
+  }
+
+  return stats
+}
+
+function buildAdjacency(graph: SequenceGraph): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>()
+  for (const node of graph.nodes) {
+    adjacency.set(node.id, [])
+  }
+  for (const edge of graph.edges) {
+    if (adjacency.has(edge.source) && adjacency.has(edge.target) && edge.source !== edge.target) {
+      adjacency.get(edge.source)!.push(edge.target)
+    }
+  }
+  return adjacency
+}
+
+function findCycles(nodeIds: string[], adjacency: Map<string, string[]>): string[][] {
+  const WHITE = 0
+  const GREY = 1
+  const BLACK = 2
+  const color = new Map<string, number>(nodeIds.map((id) => [id, WHITE]))
+  const stack: string[] = []
+  const cycles: string[][] = []
+
+  const visit = (nodeId: string) => {
+    color.set(nodeId, GREY)
+    stack.push(nodeId)
+
+    for (const next of adjacency.get(nodeId) || []) {
+      if (color.get(next) === GREY) {
+        const start = stack.indexOf(next)
+        cycles.push([...stack.slice(start), next])
+      } else if (color.get(next) === WHITE) {
+        visit(next)
+      }
+    }
+
+    stack.pop()
+    color.set(nodeId, BLACK)
+  }
+
+  for (const nodeId of nodeIds) {
+    if (color.get(nodeId) === WHITE) {
+      visit(nodeId)
+    }
+  }
+
+  return cycles
+}
@@ -1,10 +1,18 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type {
   Database,
+  Json,
   Tables,
   TablesInsert,
   TablesUpdate,
 } from './database.types'
+import {
+  aggregateEdgeStats,
+  validateSequenceGraph,
+  type SequenceEdgeStats,
+  type SequenceGraph,
+  type SequenceGraphEdge,
+} from './sequence-graph'
 
 type Supabase = SupabaseClient<Database>
 
@@ -70,6 +78,19 @@ export interface SequenceLinkInput {
   personaOverrideId?: string | null
   deliveryWindow?: Record<string, any> | null
   metadata?: Record<string, any> | null
+  priority?: number
+}
+
+export interface SequenceGraphWithStats {
+  graph: SequenceGraph
+  edgeStats: Record<string, SequenceEdgeStats>
+}
+
+export class SequenceGraphValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid sequence graph: ${errors.join('; ')}`)
+    this.name = 'SequenceGraphValidationError'
+  }
 }
 
 export class SequenceService {
@@ -353,6 +374,7 @@ export class SequenceService {
       persona_override_id: input.personaOverrideId ?? null,
       delivery_window: input.deliveryWindow ?? null,
       metadata: input.metadata ?? {},
+      priority: input.priority ?? 0,
     }
 
     const { data, error } = await this.supabase
@@ -407,6 +429,7 @@ export class SequenceService {
     if (updates.personaOverrideId !== undefined) payload.persona_override_id = updates.personaOverrideId ?? null
     if (updates.deliveryWindow !== undefined) payload.delivery_window = updates.deliveryWindow ?? null
     if (updates.metadata !== undefined) payload.metadata = updates.metadata ?? {}
+    if (updates.priority !== undefined) payload.priority = updates.priority
 
     const { data, error } = await this.supabase
       .from('sequence_links')
@@ -455,6 +478,123 @@ export class SequenceService {
     return this.updateSequence(sequenceId, { entryCampaignId: campaignId })
   }
 
+  /**
+   * Build the graph representation of a sequence along with live per-edge enrollment counts
+   */
+  async getGraph(sequenceId: string): Promise<SequenceGraphWithStats | null> {
+    const detail = await this.getSequence(sequenceId)
+    if (!detail) return null
+
+    const layout = (detail.sequence.graph_layout || {}) as Record<string, { x: number; y: number }>
+    const nodes = detail.campaigns.map((campaign, index) => ({
+      id: campaign.id,
+      name: campaign.name,
+      position: layout[campaign.id] || { x: 80 + index * 260, y: 120 },
+    }))
+
+    const edges: SequenceGraphEdge[] = detail.links
+      .filter((link) => link.parent_campaign_id)
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .map((link) => ({
+        id: link.id,
+        source: link.parent_campaign_id as string,
+        target: link.next_campaign_id,
+        condition_type: link.condition_type as SequenceGraphEdge['condition_type'],
+        delay_days: link.delay_days,
+        delay_hours: link.delay_hours,
+        priority: link.priority ?? 0,
+      }))
+
+    const edgeStats = await this.getEdgeStats(sequenceId)
+
+    return {
+      graph: {
+        entry_campaign_id: detail.sequence.entry_campaign_id,
+        nodes,
+        edges,
+      },
+      edgeStats,
+    }
+  }
+
+  /**
+   * Count enrollments that travelled along each link of the sequence
+   */
+  async getEdgeStats(sequenceId: string): Promise<Record<string, SequenceEdgeStats>> {
+    await this.ensureSequenceOwnership(sequenceId)
+
+    const { data, error } = await this.supabase
+      .from('sequence_enrollments')
+      .select('current_link_id, status')
+      .eq('sequence_id', sequenceId)
+      .not('current_link_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load sequence edge statistics: ${error.message}`)
+    }
+
+    return aggregateEdgeStats(data || [])
+  }
+
+  /**
+   * Persist a full graph: node layout, entry campaign and the set of links.
+   * Links missing from the graph are removed, existing ones updated and new ones created.
+   */
+  async saveGraph(sequenceId: string, graph: SequenceGraph): Promise<SequenceGraphWithStats> {
+    const detail = await this.getSequence(sequenceId)
+    if (!detail) {
+      throw new Error('Sequence not found or access denied')
+    }
+
+    const campaignIds = new Set(detail.campaigns.map((campaign) => campaign.id))
+    const foreignNodes = graph.nodes.filter((node) => !campaignIds.has(node.id))
+    if (foreignNodes.length > 0) {
+      throw new SequenceGraphValidationError(
+        foreignNodes.map((node) => `${node.name || node.id} is not assigned to this sequence`),
+      )
+    }
+
+    const validation = validateSequenceGraph(graph)
+    if (!validation.valid) {
+      throw new SequenceGraphValidationError(validation.errors)
+    }
+
+    const existingLinks = new Map(detail.links.map((link) => [link.id, link]))
+    const keptLinkIds = new Set(
+      graph.edges.map((edge) => edge.id).filter((id): id is string => Boolean(id && existingLinks.has(id))),
+    )
+
+    // Removed, updated and new links are written in one transaction
+    const links = graph.edges.map((edge) => ({
+      id: edge.id && keptLinkIds.has(edge.id) ? edge.id : null,
+      parent_campaign_id: edge.source,
+      next_campaign_id: edge.target,
+      condition_type: edge.condition_type,
+      delay_days: edge.delay_days,
+      delay_hours: edge.delay_hours,
+      priority: edge.priority,
+    }))
+    const layout = Object.fromEntries(graph.nodes.map((node) => [node.id, node.position]))
+
+    const { error } = await this.supabase.rpc('save_sequence_graph', {
+      p_user_id: this.userId,
+      p_sequence_id: sequenceId,
+      p_links: links as unknown as Json,
+      p_entry_campaign_id: graph.entry_campaign_id,
+      p_layout: layout as unknown as Json,
+    })
+
+    if (error) {
+      throw new Error(`Failed to save sequence graph: ${error.message}`)
+    }
+
+    const saved = await this.getGraph(sequenceId)
+    if (!saved) {
+      throw new Error('Sequence not found or access denied')
+    }
+    return saved
+  }
+
   private async ensureSequenceOwnership(sequenceId: string): Promise<void> {
     const { data, error } = await this.supabase
       .from('sequences')
@@ -2,6 +2,7 @@
 import { createServerSupabaseClient } from '../supabase'
 import { decryptOAuthTokens } from '../encryption'
 import type { OAuthTokens } from '../oauth-providers'
+import type { SendEmailOptions } from '../gmail-imap-smtp'
 
 // Dynamic imports to ensure Node.js modules are only loaded server-side
 async function getGmailService() {
@@ -121,20 +122,7 @@ export class GmailIMAPSMTPServerService {
    */
   async sendGmailEmail(
     accountId: string,
-    options: {
-      to: string | string[]
-      cc?: string | string[]
-      bcc?: string | string[]
-      subject: string
-      text?: string
-      html?: string
-      attachments?: Array<{
-        filename: string
-        path?: string
-        content?: Buffer | string
-        contentType?: string
-      }>
-    }
+    options: SendEmailOptions
   ) {
     const service = await this.createGmailIMAPSMTPService(accountId)
     return await service.sendEmail(options)
@@ -1,21 +1,47 @@
-import { ContactEnrichmentService } from './contact-enrichment'
-import { LinkedInProfileExtractorService, LinkedInEnrichmentData, LinkedInExtractionResult } from './linkedin-profile-extractor'
+import type { LinkedInEnrichmentData } from './linkedin-profile-extractor'
 import { createServerSupabaseClient } from './supabase-server'
-
-interface EnrichmentSource {
-  type: 'website' | 'linkedin'
-  available: boolean
-  url: string
-  status?: string
+import {
+  DEFAULT_PROVIDER_TIMEOUT_MS,
+  DEFAULT_WATERFALL_CONFIG,
+  fieldsStillNeeded,
+  getEnrichmentProvider,
+  mergeWaterfallResults,
+  parseWaterfallOrder,
+  recordProviderCall,
+  reserveProviderCall,
+  type EnrichmentFieldSource,
+  type EnrichmentProvider,
+  type EnrichmentProviderContext,
+  type EnrichmentProviderResult,
+  type EnrichmentProviderRun,
+  type EnrichmentWaterfallConfig,
+} from './enrichment-providers'
+import { registerBuiltinEnrichmentProviders } from './enrichment-builtin-providers'
+import { recordContactChanges } from './contact-history'
+import { recalculateLeadScores } from './lead-scoring'
+import { saveCompanyEnrichment } from './companies'
+
+interface ProviderRunSummary {
+  provider: string
+  status: EnrichmentProviderRun['status']
+  fields: string[]
+  cost_usd: number
+  duration_ms: number
+  error?: string
 }
 
 interface SmartEnrichmentResult {
   success: boolean
   sources_used: string[]
-  primary_source: 'website' | 'linkedin' | 'none'
-  secondary_source: 'website' | 'linkedin' | 'none'
+  primary_source: string
+  secondary_source: string
   enrichment_data?: any
   linkedin_data?: LinkedInEnrichmentData
+  field_sources?: Record<string, EnrichmentFieldSource>
+  providers?: ProviderRunSummary[]
+  total_cost_usd?: number
+  // Contact history group of this run, to revert it as a whole
+  history_group_id?: string | null
   errors: string[]
   warnings: string[]
   contact_id: string
@@ -29,6 +55,8 @@ interface MergedContactData {
   company?: string
   city?: string
   country?: string
+  phone?: string
+  website?: string
   
   // Company-focused data (from website)
   enrichment_data?: {
@@ -46,21 +74,29 @@ interface MergedContactData {
   // Metadata
   enrichment_sources: string[]
   enrichment_priority: 'company_first' | 'linkedin_only' | 'website_only'
+  // Provider and confidence of every enriched field
+  field_sources: Record<string, EnrichmentFieldSource>
 }
 
 /**
  * Smart Enrichment Orchestrator
- * Handles hierarchical enrichment strategy:
+ * Runs the registered enrichment providers as a waterfall (see enrichment-providers.ts).
+ * The default order is:
  * 1. Company website (primary) - for business context
- * 2. LinkedIn profile (secondary) - fills gaps with personal/professional data
+ * 2. Jina website crawler - fallback when the website analysis fails
+ * 3. LinkedIn profile (secondary) - fills gaps with personal/professional data
+ * The order can be changed with ENRICHMENT_WATERFALL or the constructor config.
  */
 export class SmartEnrichmentOrchestrator {
-  private contactEnrichmentService: ContactEnrichmentService
-  private linkedinExtractorService: LinkedInProfileExtractorService
-
-  constructor() {
-    this.contactEnrichmentService = new ContactEnrichmentService()
-    this.linkedinExtractorService = new LinkedInProfileExtractorService()
+  private config: EnrichmentWaterfallConfig
+
+  constructor(config: Partial<EnrichmentWaterfallConfig> = {}) {
+    registerBuiltinEnrichmentProviders()
+    this.config = {
+      ...DEFAULT_WATERFALL_CONFIG,
+      providers: parseWaterfallOrder(process.env.ENRICHMENT_WATERFALL) || DEFAULT_WATERFALL_CONFIG.providers,
+      ...config,
+    }
   }
 
   /**
@@ -92,90 +128,14 @@ export class SmartEnrichmentOrchestrator {
         }
       }
 
-      // 2. Analyze available enrichment sources
-      const sources = this.analyzeEnrichmentSources(contact)
-      console.log('📊 Available sources:', sources)
-
-      // 3. Execute enrichment strategy based on available sources
-      return await this.executeEnrichmentStrategy(contactId, userId, contact, sources)
-
-    } catch (error) {
-      console.error('❌ Smart enrichment error:', error)
-      return {
-        success: false,
-        sources_used: [],
-        primary_source: 'none',
-        secondary_source: 'none',
-        errors: [error instanceof Error ? error.message : 'Unknown error'],
-        warnings: [],
-        contact_id: contactId
-      }
-    }
-  }
-
-  /**
-   * Analyze what enrichment sources are available
-   */
-  private analyzeEnrichmentSources(contact: any): {
-    website: EnrichmentSource
-    linkedin: EnrichmentSource
-    strategy: 'dual' | 'website_only' | 'linkedin_only' | 'none'
-  } {
-    const website: EnrichmentSource = {
-      type: 'website',
-      available: !!contact.website,
-      url: contact.website || '',
-      status: contact.enrichment_status
-    }
-
-    const linkedin: EnrichmentSource = {
-      type: 'linkedin',
-      available: !!contact.linkedin_url,
-      url: contact.linkedin_url || '',
-      status: contact.linkedin_extraction_status
-    }
+      // 2. Pick the providers that can enrich this contact
+      const { providers, warnings } = this.resolveProviders(contact)
+      console.log('📊 Available providers:', providers.map(provider => provider.name))
 
-    let strategy: 'dual' | 'website_only' | 'linkedin_only' | 'none' = 'none'
-    
-    if (website.available && linkedin.available) {
-      strategy = 'dual'
-    } else if (website.available) {
-      strategy = 'website_only'
-    } else if (linkedin.available) {
-      strategy = 'linkedin_only'
-    }
-
-    return { website, linkedin, strategy }
-  }
-
-  /**
-   * Execute the appropriate enrichment strategy
-   */
-  private async executeEnrichmentStrategy(
-    contactId: string,
-    userId: string,
-    contact: any,
-    sources: any
-  ): Promise<SmartEnrichmentResult> {
-    const { website, linkedin, strategy } = sources
-
-    console.log(`📋 Executing enrichment strategy: ${strategy}`)
-
-    switch (strategy) {
-      case 'dual':
-        return await this.executeDualEnrichment(contactId, userId, contact, website, linkedin)
-      
-      case 'website_only':
-        return await this.executeWebsiteOnlyEnrichment(contactId, userId, contact)
-      
-      case 'linkedin_only':
-        return await this.executeLinkedInOnlyEnrichment(contactId, userId, contact)
-      
-      default:
+      if (providers.length === 0) {
         console.log(`⏭️ Skipping contact ${contactId} - No enrichment sources available`)
 
         // Mark both statuses as failed to prevent retries
-        const supabase = await createServerSupabaseClient()
         await supabase
           .from('contacts')
           .update({
@@ -192,101 +152,104 @@ export class SmartEnrichmentOrchestrator {
           primary_source: 'none',
           secondary_source: 'none',
           errors: ['No enrichment sources available'],
-          warnings: ['Contact has no website URL or LinkedIn URL'],
+          warnings: [...warnings, 'Contact has no website URL or LinkedIn URL'],
           contact_id: contactId
         }
+      }
+
+      // 3. Run the waterfall
+      return await this.executeWaterfall(contactId, userId, contact, providers, warnings)
+
+    } catch (error) {
+      console.error('❌ Smart enrichment error:', error)
+      return {
+        success: false,
+        sources_used: [],
+        primary_source: 'none',
+        secondary_source: 'none',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        warnings: [],
+        contact_id: contactId
+      }
+    }
+  }
+
+  /**
+   * Configured providers, in waterfall order, that are able to enrich this contact
+   */
+  private resolveProviders(contact: any): { providers: EnrichmentProvider[]; warnings: string[] } {
+    const providers: EnrichmentProvider[] = []
+    const warnings: string[] = []
+
+    for (const name of this.config.providers) {
+      const provider = getEnrichmentProvider(name)
+      if (!provider) {
+        warnings.push(`Unknown enrichment provider "${name}" skipped`)
+      } else if (provider.isAvailable(contact)) {
+        providers.push(provider)
+      }
     }
+
+    return { providers, warnings }
   }
 
   /**
-   * Dual enrichment: Company website first, LinkedIn fills gaps
+   * Run each provider in order, skipping those with nothing left to fill
    */
-  private async executeDualEnrichment(
+  private async executeWaterfall(
     contactId: string,
     userId: string,
     contact: any,
-    website: EnrichmentSource,
-    linkedin: EnrichmentSource
+    providers: EnrichmentProvider[],
+    warnings: string[]
   ): Promise<SmartEnrichmentResult> {
-    console.log('🔄 Executing dual enrichment: Company first, LinkedIn fills gaps')
+    console.log(`📋 Executing enrichment waterfall: ${providers.map(provider => provider.name).join(' → ')}`)
 
+    const supabase = await createServerSupabaseClient()
     const errors: string[] = []
-    const warnings: string[] = []
-    const sourcesUsed: string[] = []
-
-    let websiteData: any = null
-    let linkedinData: LinkedInEnrichmentData | null = null
-
-    // PHASE 1: Company website enrichment (PRIMARY with 90s timeout)
-    console.log('🌐 Phase 1: Company website enrichment')
-    try {
-      const websiteResult = await Promise.race([
-        this.contactEnrichmentService.enrichContact(contactId, userId),
-        new Promise<{ success: false; error: string; contact_id: string; website_url: string }>((resolve) =>
-          setTimeout(() => {
-            console.warn(`⏰ Website enrichment timeout after 90 seconds`)
-            resolve({ success: false, error: 'Timeout after 90 seconds', contact_id: contactId, website_url: '' })
-          }, 90000)
-        )
-      ])
-
-      if (websiteResult.success && websiteResult.data) {
-        websiteData = websiteResult.data
-        sourcesUsed.push('website')
-        console.log('✅ Website enrichment successful')
+    const runs: EnrichmentProviderRun[] = []
+
+    for (const provider of providers) {
+      const run = await this.runProvider(supabase, provider, { contactId, userId, contact }, runs)
+      runs.push(run)
+
+      if (run.status === 'success') {
+        console.log(`✅ ${provider.name} enrichment successful`)
+      } else if (run.status === 'failed') {
+        errors.push(`${provider.name} enrichment failed: ${run.error}`)
+      } else if (run.status === 'rate_limited') {
+        warnings.push(`${provider.name} skipped: ${run.error}`)
       } else {
-        errors.push(`Website enrichment failed: ${websiteResult.error}`)
-        warnings.push('Primary enrichment source (website) failed, relying on LinkedIn')
+        console.log(`⏭️ ${provider.name} skipped - earlier providers already filled its fields`)
       }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Website enrichment failed'
-      errors.push(errorMsg)
-      console.warn('⚠️ Website enrichment failed:', errorMsg)
     }
 
-    // PHASE 2: LinkedIn enrichment (SECONDARY - fills gaps with 90s timeout)
-    console.log('🔗 Phase 2: LinkedIn profile enrichment (gap filling)')
-    try {
-      const linkedinResult = await Promise.race([
-        this.linkedinExtractorService.extractContactLinkedIn(contactId, userId),
-        new Promise<{ success: false; error: string; contact_id: string; linkedin_url: string; status: 'failed' }>((resolve) =>
-          setTimeout(() => {
-            console.warn(`⏰ LinkedIn enrichment timeout after 90 seconds`)
-            resolve({ success: false, error: 'Timeout after 90 seconds', contact_id: contactId, linkedin_url: '', status: 'failed' })
-          }, 90000)
-        )
-      ])
+    const sourcesUsed = runs.filter(run => run.status === 'success').map(run => run.provider)
+    const mergedData = this.smartMergeData(contact, runs)
 
-      if (linkedinResult.success && linkedinResult.data) {
-        linkedinData = linkedinResult.data
-        sourcesUsed.push('linkedin')
-        console.log('✅ LinkedIn enrichment successful')
-      } else {
-        errors.push(`LinkedIn enrichment failed: ${linkedinResult.error}`)
-        warnings.push('Secondary enrichment source (LinkedIn) failed')
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'LinkedIn enrichment failed'
-      errors.push(errorMsg)
-      console.warn('⚠️ LinkedIn enrichment failed:', errorMsg)
+    let historyGroupId: string | null = null
+    if (sourcesUsed.length > 0) {
+      historyGroupId = await this.saveMergedData(contactId, userId, contact, mergedData)
     }
 
-    // PHASE 3: Smart merging (company data has priority)
-    console.log('🔄 Phase 3: Smart data merging')
-    const mergedData = this.smartMergeData(contact, websiteData, linkedinData)
-    
-    // PHASE 4: Save merged results
-    await this.saveMergedData(contactId, userId, mergedData)
-
-    const success = sourcesUsed.length > 0
-
     return {
-      success,
+      success: sourcesUsed.length > 0,
       sources_used: sourcesUsed,
-      primary_source: sourcesUsed.includes('website') ? 'website' : 'none',
-      secondary_source: sourcesUsed.includes('linkedin') ? 'linkedin' : 'none',
-      enrichment_data: websiteData,
-      linkedin_data: linkedinData,
+      primary_source: sourcesUsed[0] || 'none',
+      secondary_source: sourcesUsed[1] || 'none',
+      enrichment_data: mergedData.enrichment_data,
+      linkedin_data: mergedData.linkedin_profile_data,
+      field_sources: mergedData.field_sources,
+      providers: runs.map(run => ({
+        provider: run.provider,
+        status: run.status,
+        fields: Object.keys(run.fields),
+        cost_usd: run.costUsd,
+        duration_ms: run.durationMs,
+        error: run.error
+      })),
+      total_cost_usd: runs.reduce((sum, run) => sum + run.costUsd, 0),
+      history_group_id: historyGroupId,
       errors,
       warnings,
       contact_id: contactId
@@ -294,157 +257,110 @@ export class SmartEnrichmentOrchestrator {
   }
 
   /**
-   * Website-only enrichment (existing functionality)
+   * Run one provider with its rate limit and timeout, and record the call and its cost
    */
-  private async executeWebsiteOnlyEnrichment(
-    contactId: string,
-    userId: string,
-    contact: any
-  ): Promise<SmartEnrichmentResult> {
-    console.log('🌐 Executing website-only enrichment')
+  private async runProvider(
+    supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+    provider: EnrichmentProvider,
+    context: EnrichmentProviderContext,
+    previousRuns: EnrichmentProviderRun[]
+  ): Promise<EnrichmentProviderRun> {
+    const run: EnrichmentProviderRun = {
+      provider: provider.name,
+      category: provider.category,
+      status: 'skipped',
+      fields: {},
+      costUsd: 0,
+      durationMs: 0
+    }
 
-    try {
-      // Add 90 second timeout
-      const result = await Promise.race([
-        this.contactEnrichmentService.enrichContact(contactId, userId),
-        new Promise<{ success: false; error: string; contact_id: string; website_url: string }>((resolve) =>
-          setTimeout(() => {
-            console.warn(`⏰ Website enrichment timeout after 90 seconds`)
-            resolve({ success: false, error: 'Timeout after 90 seconds', contact_id: contactId, website_url: '' })
-          }, 90000)
+    if (fieldsStillNeeded(provider, previousRuns, this.config.minConfidence).length === 0) {
+      return run
+    }
+
+    let reservedCallId: string | null = null
+    if (provider.rateLimit) {
+      try {
+        reservedCallId = await reserveProviderCall(
+          supabase,
+          context.userId,
+          context.contactId,
+          provider.name,
+          provider.rateLimit
         )
-      ])
-      
-      return {
-        success: result.success,
-        sources_used: result.success ? ['website'] : [],
-        primary_source: result.success ? 'website' : 'none',
-        secondary_source: 'none',
-        enrichment_data: result.data,
-        errors: result.success ? [] : [result.error || 'Website enrichment failed'],
-        warnings: [],
-        contact_id: contactId
-      }
-    } catch (error) {
-      return {
-        success: false,
-        sources_used: [],
-        primary_source: 'none',
-        secondary_source: 'none',
-        errors: [error instanceof Error ? error.message : 'Website enrichment failed'],
-        warnings: [],
-        contact_id: contactId
+        if (!reservedCallId) {
+          return {
+            ...run,
+            status: 'rate_limited',
+            error: `Rate limit of ${provider.rateLimit.maxCalls} calls per ${provider.rateLimit.windowSeconds}s reached`
+          }
+        }
+      } catch (error) {
+        // Enrich anyway rather than block on the usage table
+        console.warn(`⚠️ Could not check rate limit for ${provider.name}:`, error)
       }
     }
-  }
 
-  /**
-   * LinkedIn-only enrichment
-   */
-  private async executeLinkedInOnlyEnrichment(
-    contactId: string,
-    userId: string,
-    contact: any
-  ): Promise<SmartEnrichmentResult> {
-    console.log('🔗 Executing LinkedIn-only enrichment')
+    console.log(`🔎 Running ${provider.name} enrichment`)
+    const timeoutMs = provider.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS
+    const startedAt = Date.now()
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
 
     try {
-      // Add 90 second timeout
       const result = await Promise.race([
-        this.linkedinExtractorService.extractContactLinkedIn(contactId, userId),
-        new Promise<{ success: false; error: string; contact_id: string; linkedin_url: string; status: 'failed' }>((resolve) =>
-          setTimeout(() => {
-            console.warn(`⏰ LinkedIn enrichment timeout after 90 seconds`)
-            resolve({ success: false, error: 'Timeout after 90 seconds', contact_id: contactId, linkedin_url: '', status: 'failed' })
-          }, 90000)
-        )
+        provider.enrich(context),
+        new Promise<EnrichmentProviderResult>((resolve) => {
+          timeoutId = setTimeout(() => {
+            console.warn(`⏰ ${provider.name} enrichment timeout after ${timeoutMs / 1000} seconds`)
+            resolve({ success: false, fields: {}, error: `Timeout after ${timeoutMs / 1000} seconds` })
+          }, timeoutMs)
+        })
       ])
-      
-      if (result.success && result.data) {
-        // Perform smart merge even for LinkedIn-only to save enrichment metadata
-        console.log('🔄 Saving LinkedIn enrichment metadata')
-        const mergedData = this.smartMergeData(contact, null, result.data)
-        await this.saveMergedData(contactId, userId, mergedData)
-      }
-      
-      return {
-        success: result.success,
-        sources_used: result.success ? ['linkedin'] : [],
-        primary_source: result.success ? 'linkedin' : 'none',
-        secondary_source: 'none',
-        linkedin_data: result.data,
-        errors: result.success ? [] : [result.error || 'LinkedIn enrichment failed'],
-        warnings: [],
-        contact_id: contactId
-      }
+
+      run.status = result.success ? 'success' : 'failed'
+      run.fields = result.success ? result.fields : {}
+      run.error = result.error
+      run.costUsd = result.costUsd ?? provider.costPerCallUsd
     } catch (error) {
-      return {
-        success: false,
-        sources_used: [],
-        primary_source: 'none',
-        secondary_source: 'none',
-        errors: [error instanceof Error ? error.message : 'LinkedIn enrichment failed'],
-        warnings: [],
-        contact_id: contactId
-      }
+      run.status = 'failed'
+      run.error = error instanceof Error ? error.message : `${provider.name} enrichment failed`
+      run.costUsd = provider.costPerCallUsd
+      console.warn(`⚠️ ${provider.name} enrichment failed:`, run.error)
+    } finally {
+      clearTimeout(timeoutId)
     }
+
+    run.durationMs = Date.now() - startedAt
+    await recordProviderCall(supabase, context.userId, context.contactId, run, reservedCallId)
+    return run
   }
 
   /**
-   * Smart data merging with company data priority
+   * Smart data merging: per field, the first confident provider in waterfall
+   * order wins, and the winning provider is recorded in field_sources
    */
   private smartMergeData(
     existingContact: any,
-    websiteData: any,
-    linkedinData: LinkedInEnrichmentData | null
+    runs: EnrichmentProviderRun[]
   ): MergedContactData {
-    console.log('🧠 Performing smart data merge (company data has priority)')
+    console.log('🧠 Performing smart data merge (waterfall order has priority)')
 
-    const merged: MergedContactData = {
-      enrichment_sources: [],
-      enrichment_priority: websiteData && linkedinData ? 'company_first' : 
-                          websiteData ? 'website_only' : 
-                          linkedinData ? 'linkedin_only' : 'company_first'
-    }
-
-    // PRIORITY 1: Company website data (never overwrite)
-    if (websiteData) {
-      merged.enrichment_data = websiteData
-      merged.enrichment_sources.push('website')
-      
-      // Company data takes precedence for business context
-      merged.company = websiteData.company_name
-      console.log('✅ Company data from website applied')
-    }
+    const succeeded = runs.filter(run => run.status === 'success')
+    const hasCompanyData = succeeded.some(run => run.category === 'company')
+    const hasPersonData = succeeded.some(run => run.category === 'person')
+    const { values, fieldSources } = mergeWaterfallResults(existingContact, runs, this.config)
 
-    // PRIORITY 2: LinkedIn data (fills gaps only)
-    if (linkedinData) {
-      merged.linkedin_profile_data = linkedinData
-      merged.enrichment_sources.push('linkedin')
-      
-      // Personal/professional data from LinkedIn (only if not already set)
-      if (!existingContact.first_name && linkedinData.first_name) {
-        merged.first_name = linkedinData.first_name
-      }
-      if (!existingContact.last_name && linkedinData.last_name) {
-        merged.last_name = linkedinData.last_name
-      }
-      if (!existingContact.position && linkedinData.position) {
-        merged.position = linkedinData.position
-      }
-      if (!existingContact.city && linkedinData.city) {
-        merged.city = linkedinData.city
-      }
-      if (!existingContact.country && linkedinData.country) {
-        merged.country = linkedinData.country
-      }
-      
-      // Company name from LinkedIn ONLY if no website data
-      if (!merged.company && linkedinData.current_company) {
-        merged.company = linkedinData.current_company
+    const merged: MergedContactData = {
+      ...(values as Partial<MergedContactData>),
+      enrichment_sources: succeeded.map(run => run.provider),
+      enrichment_priority: hasCompanyData && hasPersonData ? 'company_first' :
+                          hasCompanyData ? 'website_only' :
+                          hasPersonData ? 'linkedin_only' : 'company_first',
+      // Keep the provenance of fields this run did not touch
+      field_sources: {
+        ...(existingContact.enrichment_field_sources || {}),
+        ...fieldSources
       }
-      
-      console.log('✅ LinkedIn data applied to fill gaps')
     }
 
     console.log(`🎯 Merge completed using sources: ${merged.enrichment_sources.join(', ')}`)
@@ -452,18 +368,21 @@ export class SmartEnrichmentOrchestrator {
   }
 
   /**
-   * Save merged enrichment data to database
+   * Save merged enrichment data to database and record the run in the contact history,
+   * diffed against the contact as it was before the run. Returns the history group id.
    */
   private async saveMergedData(
     contactId: string,
     userId: string,
+    existingContact: any,
     mergedData: MergedContactData
-  ): Promise<void> {
+  ): Promise<string | null> {
     try {
       const supabase = await createServerSupabaseClient()
+      const now = new Date().toISOString()
       
       const updateData: any = {
-        updated_at: new Date().toISOString()
+        updated_at: now
       }
       
       // Add basic contact fields
@@ -473,10 +392,20 @@ export class SmartEnrichmentOrchestrator {
       if (mergedData.company) updateData.company = mergedData.company
       if (mergedData.city) updateData.city = mergedData.city
       if (mergedData.country) updateData.country = mergedData.country
+      if (mergedData.phone) updateData.phone = mergedData.phone
+      if (mergedData.website) updateData.website = mergedData.website
       
       // Add enrichment metadata
       updateData.enrichment_sources = mergedData.enrichment_sources
       updateData.enrichment_priority = mergedData.enrichment_priority
+      updateData.enrichment_field_sources = mergedData.field_sources
+      
+      // Company data may come from a fallback provider that does not save it itself
+      if (mergedData.enrichment_data) {
+        updateData.enrichment_data = mergedData.enrichment_data
+        updateData.enrichment_status = 'completed'
+        updateData.enrichment_updated_at = now
+      }
       
       // Add LinkedIn profile data if available
       if (mergedData.linkedin_profile_data) {
@@ -495,6 +424,31 @@ export class SmartEnrichmentOrchestrator {
       }
 
       console.log('✅ Merged enrichment data saved successfully')
+
+      // Colleagues at the same company reuse this company's enrichment
+      if (mergedData.enrichment_data && mergedData.field_sources.enrichment_data?.provider !== 'account') {
+        try {
+          await saveCompanyEnrichment(supabase, userId, contactId, mergedData.enrichment_data)
+        } catch (companyError) {
+          console.error('⚠️ Failed to share enrichment with company:', companyError)
+        }
+      }
+
+      // Firmographic lead scoring rules depend on the enriched fields
+      try {
+        await recalculateLeadScores(supabase, userId, [contactId])
+      } catch (scoreError) {
+        console.error('⚠️ Failed to recalculate lead score after enrichment:', scoreError)
+      }
+
+      return await recordContactChanges(supabase, {
+        userId,
+        contactId,
+        before: existingContact,
+        updates: updateData,
+        actor: { type: 'enrichment', id: mergedData.enrichment_sources.join(',') },
+        source: 'enrichment'
+      })
     } catch (error) {
       console.error('❌ Error saving merged data:', error)
       throw error
@@ -509,6 +463,7 @@ export class SmartEnrichmentOrchestrator {
     linkedin_status: string | null
     sources_used: string[]
     priority_strategy: string | null
+    field_sources: Record<string, EnrichmentFieldSource>
     last_enriched: string | null
   }> {
     const supabase = await createServerSupabaseClient()
@@ -521,7 +476,8 @@ export class SmartEnrichmentOrchestrator {
         linkedin_extraction_status,
         linkedin_extracted_at,
         enrichment_sources,
-        enrichment_priority
+        enrichment_priority,
+        enrichment_field_sources
       `)
       .eq('id', contactId)
       .eq('user_id', userId)
@@ -534,6 +490,7 @@ export class SmartEnrichmentOrchestrator {
         linkedin_status: null,
         sources_used: [],
         priority_strategy: null,
+        field_sources: {},
         last_enriched: null
       }
     }
@@ -543,6 +500,7 @@ export class SmartEnrichmentOrchestrator {
       linkedin_status: data.linkedin_extraction_status,
       sources_used: data.enrichment_sources || [],
       priority_strategy: data.enrichment_priority,
+      field_sources: (data.enrichment_field_sources || {}) as unknown as Record<string, EnrichmentFieldSource>,
       last_enriched: data.enrichment_updated_at || data.linkedin_extracted_at
     }
   }
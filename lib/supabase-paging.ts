@@ -0,0 +1,48 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+/**
+ * Paged selects.
+ *
+ * PostgREST caps every response at 1000 rows (max-rows) and cuts larger
+ * results off silently. selectAllPages runs a select range by range until a
+ * page comes back short, so reads that must see every row (suppression lists,
+ * tracking rows of a campaign, ...) are not truncated.
+ */
+
+/** PostgREST returns at most this many rows per request */
+export const PAGE_SIZE = 1000
+
+export interface PagedSelectResult<T> {
+  data: T[]
+  /** Count of the last page, when the select asked for one */
+  count: number | null
+  error: PostgrestError | null
+}
+
+/**
+ * Read every row of a select. `page` builds the select for rows from..to
+ * (inclusive) and must have a stable order, e.g. `.order('id')`. With
+ * `maxRows`, reading stops after that many rows.
+ */
+export async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null; count?: number | null }>,
+  options: { maxRows?: number } = {},
+): Promise<PagedSelectResult<T>> {
+  const rows: T[] = []
+  let count: number | null = null
+
+  for (let from = 0; options.maxRows === undefined || from < options.maxRows; from += PAGE_SIZE) {
+    const to = Math.min(from + PAGE_SIZE, options.maxRows ?? Infinity) - 1
+    const { data, error, count: pageCount } = await page(from, to)
+
+    if (error) {
+      return { data: rows, count, error }
+    }
+
+    rows.push(...(data || []))
+    count = pageCount ?? count
+    if (!data || data.length < to - from + 1) break
+  }
+
+  return { data: rows, count, error: null }
+}
@@ -0,0 +1,332 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from './database.types'
+import { selectAllPages } from './supabase-paging'
+
+type Supabase = SupabaseClient<Database>
+
+export type SuppressionEntry = Tables<'suppression_list'>
+export type SuppressionSource = 'manual' | 'import' | 'unsubscribe' | 'bounce' | 'complaint'
+
+export interface SuppressionInput {
+  email?: string | null
+  domain?: string | null
+  reason?: string | null
+}
+
+export interface SuppressionSet {
+  emails: Set<string>
+  domains: Set<string>
+}
+
+export interface SuppressionImportResult {
+  added: number
+  skipped: number
+  invalid: string[]
+}
+
+/**
+ * Raised when a send is attempted to a recipient on the account's suppression list
+ */
+export class SuppressedRecipientError extends Error {
+  constructor(public readonly recipients: string[]) {
+    super(`Recipient is on the suppression list: ${recipients.join(', ')}`)
+    this.name = 'SuppressedRecipientError'
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function getEmailDomain(email: string): string {
+  const at = email.lastIndexOf('@')
+  return at === -1 ? '' : normalizeEmail(email.slice(at + 1))
+}
+
+/**
+ * Classify a raw value as an email address or a whole domain ("@example.com" or "example.com")
+ */
+export function parseSuppressionValue(value: string): { email?: string; domain?: string } | null {
+  const trimmed = normalizeEmail(value.replace(/^["']|["']$/g, ''))
+  if (!trimmed) return null
+
+  if (trimmed.startsWith('@')) {
+    const domain = trimmed.slice(1)
+    return DOMAIN_PATTERN.test(domain) ? { domain } : null
+  }
+
+  if (trimmed.includes('@')) {
+    return EMAIL_PATTERN.test(trimmed) ? { email: trimmed } : null
+  }
+
+  return DOMAIN_PATTERN.test(trimmed) ? { domain: trimmed } : null
+}
+
+export function buildSuppressionSet(entries: Array<Pick<SuppressionEntry, 'email' | 'domain'>>): SuppressionSet {
+  const set: SuppressionSet = { emails: new Set(), domains: new Set() }
+  for (const entry of entries) {
+    if (entry.email) set.emails.add(normalizeEmail(entry.email))
+    if (entry.domain) set.domains.add(normalizeEmail(entry.domain))
+  }
+  return set
+}
+
+export function isSuppressed(set: SuppressionSet, email: string): boolean {
+  if (!email) return false
+  const normalized = normalizeEmail(email)
+  return set.emails.has(normalized) || set.domains.has(getEmailDomain(normalized))
+}
+
+/**
+ * Parse a CSV or newline separated list of emails/domains.
+ * Accepts an optional header row and an optional second "reason" column.
+ */
+export function parseSuppressionCsv(text: string): { entries: SuppressionInput[]; invalid: string[] } {
+  const entries: SuppressionInput[] = []
+  const invalid: string[] = []
+
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+
+  lines.forEach((line, index) => {
+    const columns = line.split(/[,;\t]/).map((column) => column.trim())
+    // Exports are "type,value,reason,..." - imports may also be plain "value[,reason]"
+    const hasType = columns[0] === 'email' || columns[0] === 'domain'
+    const value = hasType ? columns[1] : columns[0]
+    const reason = (hasType ? columns[2] : columns[1]) || null
+
+    if (index === 0 && /^(type|email|domain|value)$/i.test(columns[0]) && !value?.includes('.')) {
+      return
+    }
+
+    const parsed = value ? parseSuppressionValue(value) : null
+    if (!parsed) {
+      invalid.push(line)
+      return
+    }
+
+    entries.push({ ...parsed, reason })
+  })
+
+  return { entries, invalid }
+}
+
+/**
+ * RFC 8058 one-click unsubscribe headers. Mail clients POST
+ * "List-Unsubscribe=One-Click" to the https URL.
+ */
+export function buildListUnsubscribeHeaders(url: string, mailto?: string): Record<string, string> {
+  const targets = [`<${url}>`]
+  if (mailto) {
+    targets.push(`<mailto:${mailto}?subject=unsubscribe>`)
+  }
+
+  return {
+    'List-Unsubscribe': targets.join(', '),
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
+
+export function toSuppressionCsv(entries: SuppressionEntry[]): string {
+  const escape = (value: string | null | undefined) => {
+    const text = value ?? ''
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const rows = entries.map((entry) => [
+    entry.email ? 'email' : 'domain',
+    entry.email || entry.domain,
+    entry.reason,
+    entry.source,
+    entry.created_at,
+  ].map(escape).join(','))
+
+  return ['type,value,reason,source,created_at', ...rows].join('\n')
+}
+
+/**
+ * Load the user's suppression list into a lookup set
+ */
+export async function loadSuppressionSet(supabase: Supabase, userId: string): Promise<SuppressionSet> {
+  const { data: rows, error } = await selectAllPages((from, to) => supabase
+    .from('suppression_list')
+    .select('email, domain')
+    .eq('user_id', userId)
+    .order('id', { ascending: true })
+    .range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load suppression list: ${error.message}`)
+  }
+
+  return buildSuppressionSet(rows)
+}
+
+/**
+ * Return the recipients that must not be emailed
+ */
+export async function findSuppressedRecipients(
+  supabase: Supabase,
+  userId: string,
+  recipients: string | string[],
+): Promise<string[]> {
+  const list = (Array.isArray(recipients) ? recipients : recipients.split(','))
+    .map((recipient) => extractAddress(recipient))
+    .filter(Boolean)
+
+  if (list.length === 0) return []
+
+  const emails = list.map(normalizeEmail)
+  const domains = Array.from(new Set(emails.map(getEmailDomain)))
+
+  const [emailMatches, domainMatches] = await Promise.all([
+    supabase.from('suppression_list').select('email, domain').eq('user_id', userId).in('email', emails),
+    supabase.from('suppression_list').select('email, domain').eq('user_id', userId).in('domain', domains),
+  ])
+
+  if (emailMatches.error || domainMatches.error) {
+    throw new Error(`Failed to check suppression list: ${(emailMatches.error || domainMatches.error)!.message}`)
+  }
+
+  const set = buildSuppressionSet([...(emailMatches.data || []), ...(domainMatches.data || [])])
+  return emails.filter((email) => isSuppressed(set, email))
+}
+
+/**
+ * Throw SuppressedRecipientError when any recipient is suppressed
+ */
+export async function assertNotSuppressed(
+  supabase: Supabase,
+  userId: string,
+  recipients: string | string[],
+): Promise<void> {
+  const suppressed = await findSuppressedRecipients(supabase, userId, recipients)
+  if (suppressed.length > 0) {
+    throw new SuppressedRecipientError(suppressed)
+  }
+}
+
+/**
+ * PostgREST `or` filter matching the search term anywhere in the email or
+ * domain. The term is quoted so commas, dots and parentheses stay literal, and
+ * LIKE wildcards in it are escaped.
+ */
+export function suppressionSearchFilter(search: string): string {
+  const pattern = `%${search.trim().toLowerCase().replace(/[\\%_]/g, '\\$&')}%`
+  const quoted = `"${pattern.replace(/["\\]/g, '\\$&')}"`
+  return `email.ilike.${quoted},domain.ilike.${quoted}`
+}
+
+export async function listSuppressionEntries(
+  supabase: Supabase,
+  userId: string,
+  options: { search?: string; limit?: number; offset?: number } = {},
+): Promise<{ entries: SuppressionEntry[]; total: number }> {
+  const buildQuery = () => {
+    let query = supabase
+      .from('suppression_list')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+
+    if (options.search?.trim()) {
+      query = query.or(suppressionSearchFilter(options.search))
+    }
+
+    return query
+  }
+
+  if (options.limit) {
+    const offset = options.offset || 0
+    const { data, error, count } = await buildQuery().range(offset, offset + options.limit - 1)
+
+    if (error) {
+      throw new Error(`Failed to load suppression list: ${error.message}`)
+    }
+
+    return { entries: data || [], total: count || 0 }
+  }
+
+  // Without a limit (e.g. CSV export) read every page
+  const { data: entries, count, error } = await selectAllPages((from, to) => buildQuery().range(from, to))
+
+  if (error) {
+    throw new Error(`Failed to load suppression list: ${error.message}`)
+  }
+
+  return { entries, total: count || entries.length }
+}
+
+/**
+ * Add entries to the suppression list, skipping values that are already present
+ */
+export async function addSuppressionEntries(
+  supabase: Supabase,
+  userId: string,
+  inputs: SuppressionInput[],
+  source: SuppressionSource,
+): Promise<SuppressionImportResult> {
+  const existing = await loadSuppressionSet(supabase, userId)
+  const seen = new Set<string>()
+  const invalid: string[] = []
+  const rows: Database['public']['Tables']['suppression_list']['Insert'][] = []
+
+  for (const input of inputs) {
+    const parsed = input.email
+      ? parseSuppressionValue(input.email)
+      : input.domain
+        ? parseSuppressionValue(input.domain.startsWith('@') ? input.domain : `@${input.domain}`)
+        : null
+
+    if (!parsed) {
+      invalid.push(input.email || input.domain || '')
+      continue
+    }
+
+    const key = parsed.email ? `e:${parsed.email}` : `d:${parsed.domain}`
+    const alreadyListed = parsed.email ? existing.emails.has(parsed.email) : existing.domains.has(parsed.domain!)
+    if (alreadyListed || seen.has(key)) continue
+    seen.add(key)
+
+    rows.push({
+      user_id: userId,
+      email: parsed.email ?? null,
+      domain: parsed.domain ?? null,
+      reason: input.reason ?? null,
+      source,
+    })
+  }
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase.from('suppression_list').insert(rows.slice(i, i + 500))
+    if (error) {
+      throw new Error(`Failed to add suppression entries: ${error.message}`)
+    }
+  }
+
+  return {
+    added: rows.length,
+    skipped: inputs.length - rows.length - invalid.length,
+    invalid,
+  }
+}
+
+export async function removeSuppressionEntry(supabase: Supabase, userId: string, entryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('suppression_list')
+    .delete()
+    .eq('id', entryId)
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to remove suppression entry: ${error.message}`)
+  }
+}
+
+function extractAddress(recipient: string): string {
+  const match = recipient.match(/<([^>]+)>/)
+  return (match ? match[1] : recipient).trim()
+}
@@ -0,0 +1,1045 @@
+import {
+  coerceCustomFieldValue,
+  customFieldLocale,
+  formatCustomFieldValue,
+  type CustomFieldSpec,
+  type CustomFieldType,
+} from './custom-fields'
+
+/**
+ * Template language for campaign subjects and bodies.
+ *
+ * Templates are parsed and interpreted here; nothing in a template is ever
+ * evaluated as code. Supported syntax:
+ *
+ *   {{ first_name | default: "there" }}      variables with filters
+ *   {% if custom.seats > 10 %}…{% elsif industry %}…{% else %}…{% endif %}
+ *   {% unless company %}…{% endunless %}
+ *   {% for item in enrichment.products_services limit: 3 %}{{ item }}{% endfor %}
+ *   {Hi|Hello|Hey}                            spintax, stable per contact
+ *
+ * Variables resolve against a context object (see contactTemplateContext).
+ * Unknown variables render empty; analyzeTemplate lists the variables a
+ * template uses so editors can warn about unknown ones and the launch check
+ * can find contacts without the data a template needs.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid template: ${issues.join('; ')}`)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+export interface TemplateRenderOptions {
+  /** Locale for numbers, dates and Yes / No */
+  locale?: string
+  /** Picks the spintax variations; the same seed always gives the same text */
+  seed?: string
+  /** Escape variable values for HTML bodies */
+  escapeHtml?: boolean
+  /** Custom field types by variable path, for type-aware formatting */
+  fieldTypes?: Record<string, CustomFieldType>
+  /** Fallbacks for variables used without a default filter */
+  defaults?: Record<string, string>
+  /** Variables left in place for a later step, e.g. AI-generated paragraphs */
+  passthrough?: string[]
+}
+
+export interface TemplateVariableUsage {
+  path: string
+  /** Used outside a condition on it and without a default filter */
+  required: boolean
+}
+
+export interface TemplateAnalysis {
+  issues: string[]
+  variables: TemplateVariableUsage[]
+}
+
+const MAX_NESTING_DEPTH = 16
+const MAX_LOOP_ITERATIONS = 100
+const MAX_OUTPUT_LENGTH = 500000
+const MAX_SPINTAX_GROUPS = 1000
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type Expression =
+  | { kind: 'path'; path: string }
+  | { kind: 'literal'; value: string | number | boolean | null }
+
+type ComparisonOperator = '==' | '!=' | '>' | '<' | '>=' | '<=' | 'contains'
+
+type Condition =
+  | { kind: 'truthy'; expression: Expression }
+  | { kind: 'compare'; left: Expression; operator: ComparisonOperator; right: Expression }
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; condition: Condition }
+
+interface FilterCall {
+  name: string
+  args: Expression[]
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; filters: FilterCall[]; source: string }
+  | { type: 'if'; branches: Array<{ condition: Condition; body: TemplateNode[] }>; otherwise: TemplateNode[] }
+  | { type: 'for'; variable: string; collection: string; limit: number | null; body: TemplateNode[] }
+
+interface Token {
+  type: 'string' | 'number' | 'ident' | 'op' | 'punct'
+  value: string
+}
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}|\{%([\s\S]*?)%\}/g
+const TOKEN_PATTERN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)(?![\w.])|(==|!=|>=|<=|>|<)|([|:,])|([A-Za-z_]\w*(?:\.\w+)*))/g
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&quot;': '"',
+  '&#34;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+}
+
+/**
+ * Rich text editors encode braces and quotes; decode them so {{ … }} and
+ * {% … %} written in the editor parse like typed ones
+ */
+function decodeTemplate(template: string): string {
+  return template
+    .replace(/&#123;/g, '{')
+    .replace(/&#125;/g, '}')
+    .replace(TAG_PATTERN, match => match.replace(/&(?:quot|#34|#39|apos|amp|lt|gt|nbsp);/g, entity => HTML_ENTITIES[entity]))
+}
+
+function tokenize(source: string): { tokens: Token[]; error?: string } {
+  const tokens: Token[] = []
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g')
+  let position = 0
+
+  while (position < source.length) {
+    if (!source.slice(position).trim()) break
+    pattern.lastIndex = position
+    const match = pattern.exec(source)
+    if (!match || match.index !== position) {
+      return { tokens, error: `unexpected "${source.slice(position).trim().slice(0, 20)}"` }
+    }
+    position = pattern.lastIndex
+
+    if (match[1] !== undefined) tokens.push({ type: 'string', value: match[1].slice(1, -1).replace(/\\(.)/g, '$1') })
+    else if (match[2] !== undefined) tokens.push({ type: 'number', value: match[2] })
+    else if (match[3] !== undefined) tokens.push({ type: 'op', value: match[3] })
+    else if (match[4] !== undefined) tokens.push({ type: 'punct', value: match[4] })
+    else tokens.push({ type: 'ident', value: match[5] })
+  }
+
+  return { tokens }
+}
+
+/** Cursor over the tokens of one tag */
+class TokenReader {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.index++]
+  }
+
+  accept(type: Token['type'], value?: string): boolean {
+    const token = this.peek()
+    if (token && token.type === type && (value === undefined || token.value === value)) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  done(): boolean {
+    return this.index >= this.tokens.length
+  }
+}
+
+const KEYWORD_LITERALS: Record<string, boolean | null> = { true: true, false: false, nil: null, null: null, empty: null }
+
+function parseExpression(reader: TokenReader): Expression {
+  const token = reader.next()
+  if (!token) throw new Error('expected a value')
+  if (token.type === 'string') return { kind: 'literal', value: token.value }
+  if (token.type === 'number') return { kind: 'literal', value: Number(token.value) }
+  if (token.type === 'ident') {
+    if (Object.prototype.hasOwnProperty.call(KEYWORD_LITERALS, token.value)) return { kind: 'literal', value: KEYWORD_LITERALS[token.value] }
+    return { kind: 'path', path: token.value }
+  }
+  throw new Error(`unexpected "${token.value}"`)
+}
+
+function parseComparison(reader: TokenReader): Condition {
+  if (reader.accept('ident', 'not')) {
+    return { kind: 'not', condition: parseComparison(reader) }
+  }
+
+  const left = parseExpression(reader)
+  const token = reader.peek()
+  if (token && (token.type === 'op' || (token.type === 'ident' && token.value === 'contains'))) {
+    reader.next()
+    return { kind: 'compare', left, operator: token.value as ComparisonOperator, right: parseExpression(reader) }
+  }
+  return { kind: 'truthy', expression: left }
+}
+
+function parseCondition(reader: TokenReader): Condition {
+  let condition = parseComparison(reader)
+  for (;;) {
+    if (reader.accept('ident', 'and')) {
+      condition = { kind: 'and', left: condition, right: parseComparison(reader) }
+    } else if (reader.accept('ident', 'or')) {
+      condition = { kind: 'or', left: condition, right: parseComparison(reader) }
+    } else {
+      return condition
+    }
+  }
+}
+
+function parseFilters(reader: TokenReader): FilterCall[] {
+  const filters: FilterCall[] = []
+
+  while (reader.accept('punct', '|')) {
+    const name = reader.next()
+    if (!name || name.type !== 'ident') throw new Error('expected a filter name after "|"')
+    const filter = FILTERS[name.value]
+    if (!filter) throw new Error(`unknown filter "${name.value}"`)
+
+    const args: Expression[] = []
+    if (reader.accept('punct', ':')) {
+      do {
+        args.push(parseExpression(reader))
+      } while (reader.accept('punct', ','))
+    }
+    if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+      const expected = filter.minArgs === filter.maxArgs ? `${filter.minArgs}` : `${filter.minArgs}-${filter.maxArgs}`
+      throw new Error(`filter "${name.value}" takes ${expected} argument(s)`)
+    }
+    filters.push({ name: name.value, args })
+  }
+
+  return filters
+}
+
+function readTokens(source: string): TokenReader {
+  const { tokens, error } = tokenize(source)
+  if (error) throw new Error(error)
+  return new TokenReader(tokens)
+}
+
+function parseOutput(source: string, raw: string): TemplateNode {
+  const reader = readTokens(source)
+  const expression = parseExpression(reader)
+  const filters = parseFilters(reader)
+  if (!reader.done()) throw new Error(`unexpected "${reader.peek()!.value}"`)
+  return { type: 'output', expression, filters, source: raw }
+}
+
+function parseTagCondition(source: string): Condition {
+  const reader = readTokens(source)
+  const condition = parseCondition(reader)
+  if (!reader.done()) throw new Error(`unexpected "${reader.peek()!.value}"`)
+  return condition
+}
+
+function parseFor(source: string): { variable: string; collection: string; limit: number | null } {
+  const reader = readTokens(source)
+  const variable = reader.next()
+  if (!variable || variable.type !== 'ident' || variable.value.includes('.')) throw new Error('expected "for item in list"')
+  if (!reader.accept('ident', 'in')) throw new Error('expected "in" after the loop variable')
+  const collection = reader.next()
+  if (!collection || collection.type !== 'ident') throw new Error('expected a list to loop over')
+
+  let limit: number | null = null
+  if (reader.accept('ident', 'limit')) {
+    reader.accept('punct', ':')
+    const value = reader.next()
+    if (!value || value.type !== 'number' || Number(value.value) < 1) throw new Error('limit must be a positive number')
+    limit = Math.floor(Number(value.value))
+  }
+  if (!reader.done()) throw new Error(`unexpected "${reader.peek()!.value}"`)
+  return { variable: variable.value, collection: collection.value, limit }
+}
+
+interface OpenBlock {
+  tag: 'if' | 'unless' | 'for'
+  node: Extract<TemplateNode, { type: 'if' | 'for' }>
+  /** Where the nodes of the current branch go */
+  body: TemplateNode[]
+  hasElse: boolean
+}
+
+function parseNodes(template: string, issues: string[]): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: OpenBlock[] = []
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].body : root)
+  const pattern = new RegExp(TAG_PATTERN.source, 'g')
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(template)) !== null) {
+    if (match.index > lastIndex) current().push({ type: 'text', value: template.slice(lastIndex, match.index) })
+    lastIndex = pattern.lastIndex
+
+    const raw = match[0]
+    try {
+      if (match[1] !== undefined) {
+        current().push(parseOutput(match[1], raw))
+        continue
+      }
+
+      const content = match[2].trim()
+      const [name] = content.split(/\s+/, 1)
+      const args = content.slice(name.length)
+      const open = stack[stack.length - 1]
+
+      switch (name) {
+        case 'if':
+        case 'unless': {
+          if (stack.length >= MAX_NESTING_DEPTH) throw new Error(`blocks are nested deeper than ${MAX_NESTING_DEPTH} levels`)
+          const condition = parseTagCondition(args)
+          const body: TemplateNode[] = []
+          const node: TemplateNode = {
+            type: 'if',
+            branches: [{ condition: name === 'unless' ? { kind: 'not', condition } : condition, body }],
+            otherwise: [],
+          }
+          current().push(node)
+          stack.push({ tag: name, node, body, hasElse: false })
+          break
+        }
+        case 'elsif': {
+          if (!open || open.tag !== 'if' || open.hasElse) throw new Error('"elsif" without a matching "if"')
+          const body: TemplateNode[] = []
+          ;(open.node as Extract<TemplateNode, { type: 'if' }>).branches.push({ condition: parseTagCondition(args), body })
+          open.body = body
+          break
+        }
+        case 'else': {
+          if (!open || open.tag === 'for' || open.hasElse) throw new Error('"else" without a matching "if"')
+          if (args.trim()) throw new Error('"else" takes no condition, use "elsif"')
+          open.hasElse = true
+          open.body = (open.node as Extract<TemplateNode, { type: 'if' }>).otherwise
+          break
+        }
+        case 'for': {
+          if (stack.length >= MAX_NESTING_DEPTH) throw new Error(`blocks are nested deeper than ${MAX_NESTING_DEPTH} levels`)
+          const body: TemplateNode[] = []
+          const node: TemplateNode = { type: 'for', ...parseFor(args), body }
+          current().push(node)
+          stack.push({ tag: 'for', node, body, hasElse: false })
+          break
+        }
+        case 'endif':
+        case 'endunless':
+        case 'endfor': {
+          const expected = name.slice(3)
+          if (!open || open.tag !== expected) throw new Error(`"${name}" without a matching "${expected}"`)
+          stack.pop()
+          break
+        }
+        default:
+          throw new Error(`unknown tag "${name || ''}"`)
+      }
+    } catch (error) {
+      issues.push(`${raw.length > 40 ? `${raw.slice(0, 40)}…` : raw}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (lastIndex < template.length) current().push({ type: 'text', value: template.slice(lastIndex) })
+  for (const open of stack.reverse()) {
+    issues.push(`"${open.tag}" is never closed with "end${open.tag}"`)
+  }
+
+  return root
+}
+
+// ============================================================================
+// Spintax
+// ============================================================================
+
+const SPINTAX_PATTERN = /\{([^{}]*\|[^{}]*)\}/
+
+/** FNV-1a, to pick spintax options from a seed */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Resolve {a|b|c} groups, innermost first. Tags are set aside first so
+ * variables may appear inside options. Without a seed every option is kept,
+ * which lets analysis see the variables of all variations.
+ */
+function resolveSpintax(template: string, seed: string | null, issues: string[]): string {
+  if (!template.includes('|')) return template
+
+  const stash: string[] = []
+  let text = template.replace(new RegExp(TAG_PATTERN.source, 'g'), tag => {
+    stash.push(tag)
+    return `\u0000${stash.length - 1}\u0000`
+  })
+
+  let group = 0
+  let match: RegExpExecArray | null
+  while ((match = SPINTAX_PATTERN.exec(text)) !== null) {
+    if (++group > MAX_SPINTAX_GROUPS) {
+      issues.push(`more than ${MAX_SPINTAX_GROUPS} spintax groups`)
+      break
+    }
+
+    const options = match[1].split('|')
+    const hasBlockTag = options.some(option =>
+      (option.match(/\u0000\d+\u0000/g) || ([] as string[])).some(ref => stash[Number(ref.slice(1, -1))].startsWith('{%')))
+    if (hasBlockTag) {
+      issues.push(`{${match[1].replace(/\u0000(\d+)\u0000/g, (_, index) => stash[Number(index)])}}: spintax options cannot contain {% %} tags`)
+      text = text.slice(0, match.index) + text.slice(match.index + match[0].length)
+      continue
+    }
+
+    const replacement = seed === null
+      ? options.join(' ')
+      : options[hashString(`${seed}:${group}`) % options.length]
+    text = text.slice(0, match.index) + replacement + text.slice(match.index + match[0].length)
+  }
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index) => stash[Number(index)])
+}
+
+function parseTemplate(template: string, seed: string | null): { nodes: TemplateNode[]; issues: string[] } {
+  const issues: string[] = []
+  const text = resolveSpintax(decodeTemplate(template || ''), seed, issues)
+  const nodes = parseNodes(text, issues)
+  return { nodes, issues }
+}
+
+// ============================================================================
+// Values and filters
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === false ||
+    (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0)
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || !value.trim()) return null
+  const coerced = coerceCustomFieldValue({ key: '', label: '', type: 'number', options: [] }, value).value
+  return typeof coerced === 'number' ? coerced : null
+}
+
+function asDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value
+  if (typeof value === 'number') return new Date(value)
+  if (typeof value !== 'string' || !value.trim()) return null
+  // Timestamps keep their time; plain dates are taken as UTC midnight
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const parsed = new Date(value)
+    return Number.isNaN(parsed.getTime()) ? null : parsed
+  }
+  const coerced = coerceCustomFieldValue({ key: '', label: '', type: 'date', options: [] }, value).value
+  return typeof coerced === 'string' ? new Date(`${coerced}T00:00:00Z`) : null
+}
+
+function toText(value: unknown, locale: string): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return Number.isFinite(value) ? value.toLocaleString(locale) : ''
+  if (typeof value === 'boolean') return formatCustomFieldValue({ type: 'boolean' }, value, locale)
+  if (value instanceof Date) return value.toLocaleDateString(locale, { timeZone: 'UTC' })
+  if (Array.isArray(value)) return value.map(item => toText(item, locale)).filter(Boolean).join(', ')
+  return ''
+}
+
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { year: 'numeric', month: '2-digit', day: '2-digit' },
+  medium: { year: 'numeric', month: 'short', day: 'numeric' },
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  full: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+}
+
+function formatDate(date: Date, format: string, locale: string): string {
+  const style = DATE_STYLES[format]
+  if (style) return date.toLocaleDateString(locale, { ...style, timeZone: 'UTC' })
+
+  const pattern = format === 'iso' ? 'YYYY-MM-DD' : format
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const part = (options: Intl.DateTimeFormatOptions) => date.toLocaleDateString(locale, { ...options, timeZone: 'UTC' })
+
+  return pattern.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd/g, token => {
+    switch (token) {
+      case 'YYYY': return String(date.getUTCFullYear())
+      case 'YY': return pad(date.getUTCFullYear() % 100)
+      case 'MMMM': return part({ month: 'long' })
+      case 'MMM': return part({ month: 'short' })
+      case 'MM': return pad(date.getUTCMonth() + 1)
+      case 'M': return String(date.getUTCMonth() + 1)
+      case 'DD': return pad(date.getUTCDate())
+      case 'D': return String(date.getUTCDate())
+      case 'dddd': return part({ weekday: 'long' })
+      default: return part({ weekday: 'short' })
+    }
+  })
+}
+
+interface TemplateFilter {
+  minArgs: number
+  maxArgs: number
+  apply: (value: unknown, args: unknown[], locale: string) => unknown
+}
+
+const textFilter = (transform: (text: string, locale: string) => string): TemplateFilter => ({
+  minArgs: 0,
+  maxArgs: 0,
+  apply: (value, _args, locale) => (isBlank(value) ? value : transform(toText(value, locale), locale)),
+})
+
+const FILTERS: Record<string, TemplateFilter> = {
+  default: { minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => (isBlank(value) ? fallback : value) },
+  upcase: textFilter((text, locale) => text.toLocaleUpperCase(locale)),
+  downcase: textFilter((text, locale) => text.toLocaleLowerCase(locale)),
+  capitalize: textFilter((text, locale) => text.charAt(0).toLocaleUpperCase(locale) + text.slice(1)),
+  titlecase: textFilter((text, locale) =>
+    text.toLocaleLowerCase(locale).replace(/(^|[\s\-'’])(\S)/g, (_, separator: string, letter: string) =>
+      separator + letter.toLocaleUpperCase(locale))),
+  trim: textFilter(text => text.trim()),
+  truncate: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, [length, ellipsis = '…'], locale) => {
+      const text = toText(value, locale)
+      const max = Math.max(0, Math.floor(Number(length) || 0))
+      return text.length <= max ? text : `${text.slice(0, max).trimEnd()}${toText(ellipsis, locale)}`
+    },
+  },
+  append: { minArgs: 1, maxArgs: 1, apply: (value, [suffix], locale) => (isBlank(value) ? value : toText(value, locale) + toText(suffix, locale)) },
+  prepend: { minArgs: 1, maxArgs: 1, apply: (value, [prefix], locale) => (isBlank(value) ? value : toText(prefix, locale) + toText(value, locale)) },
+  date: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [format = 'long'], locale) => {
+      const date = asDate(value)
+      return date ? formatDate(date, String(format), locale) : value
+    },
+  },
+  number: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [decimals], locale) => {
+      const number = asNumber(value)
+      if (number === null) return value
+      if (decimals === undefined) return number.toLocaleString(locale)
+      const digits = Math.min(10, Math.max(0, Math.floor(Number(decimals) || 0)))
+      return number.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+    },
+  },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, [separator = ', '], locale) =>
+      Array.isArray(value) ? value.map(item => toText(item, locale)).filter(Boolean).join(toText(separator, locale)) : value,
+  },
+  first: { minArgs: 0, maxArgs: 0, apply: value => (Array.isArray(value) ? value[0] : value) },
+  last: { minArgs: 0, maxArgs: 0, apply: value => (Array.isArray(value) ? value[value.length - 1] : value) },
+  size: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => (Array.isArray(value) || typeof value === 'string' ? value.length : isBlank(value) ? 0 : 1),
+  },
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface RenderState {
+  context: Record<string, unknown>
+  scopes: Array<Record<string, unknown>>
+  options: TemplateRenderOptions
+  locale: string
+  length: number
+}
+
+function property(target: unknown, key: string): unknown {
+  if (Array.isArray(target) || typeof target === 'string') {
+    if (key === 'size') return target.length
+    if (key === 'first') return target[0]
+    if (key === 'last') return target[target.length - 1]
+    if (/^\d+$/.test(key)) return target[Number(key)]
+    return undefined
+  }
+  // Only own properties, so templates cannot reach prototypes
+  if (target && typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, key)) {
+    return (target as Record<string, unknown>)[key]
+  }
+  return undefined
+}
+
+function resolvePath(path: string, state: RenderState): unknown {
+  const [root, ...rest] = path.split('.')
+  let value: unknown
+  const scope = state.scopes.slice().reverse().find(candidate => Object.prototype.hasOwnProperty.call(candidate, root))
+  value = scope ? scope[root] : property(state.context, root)
+
+  for (const key of rest) {
+    if (value === null || value === undefined) return undefined
+    value = property(value, key)
+  }
+  return value
+}
+
+function evaluate(expression: Expression, state: RenderState): unknown {
+  return expression.kind === 'literal' ? expression.value : resolvePath(expression.path, state)
+}
+
+function compare(left: unknown, operator: ComparisonOperator, right: unknown, locale: string): boolean {
+  if (operator === 'contains') {
+    const needle = toText(right, locale).toLowerCase()
+    if (Array.isArray(left)) return left.some(item => toText(item, locale).toLowerCase() === needle)
+    return typeof left === 'string' && left.toLowerCase().includes(needle)
+  }
+
+  // Comparing with nil / empty checks for a missing value
+  if (left === null || right === null) {
+    const blank = isBlank(left === null ? right : left)
+    return operator === '==' ? blank : operator === '!=' ? !blank : false
+  }
+
+  const leftNumber = asNumber(left)
+  const rightNumber = asNumber(right)
+  let order: number
+  if (leftNumber !== null && rightNumber !== null) {
+    order = leftNumber - rightNumber
+  } else {
+    const leftText = toText(left, locale).toLowerCase()
+    const rightText = toText(right, locale).toLowerCase()
+    order = leftText === rightText ? 0 : leftText < rightText ? -1 : 1
+  }
+
+  switch (operator) {
+    case '==': return order === 0
+    case '!=': return order !== 0
+    case '>': return order > 0
+    case '<': return order < 0
+    case '>=': return order >= 0
+    default: return order <= 0
+  }
+}
+
+function test(condition: Condition, state: RenderState): boolean {
+  switch (condition.kind) {
+    case 'truthy': return !isBlank(evaluate(condition.expression, state))
+    case 'compare':
+      return compare(evaluate(condition.left, state), condition.operator, evaluate(condition.right, state), state.locale)
+    case 'and': return test(condition.left, state) && test(condition.right, state)
+    case 'or': return test(condition.left, state) || test(condition.right, state)
+    default: return !test(condition.condition, state)
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/** Own keys only, so {{ constructor }} or {{ __proto__ }} never resolve to a default */
+function hasTemplateDefault(defaults: Record<string, string> | undefined, path: string): boolean {
+  return !!defaults && Object.prototype.hasOwnProperty.call(defaults, path)
+}
+
+function renderOutput(node: Extract<TemplateNode, { type: 'output' }>, state: RenderState): string {
+  const { options, locale } = state
+  const path = node.expression.kind === 'path' ? node.expression.path : null
+
+  if (path && node.filters.length === 0 && options.passthrough?.includes(path)) return node.source
+
+  let value = evaluate(node.expression, state)
+  const hasDefault = node.filters.some(filter => filter.name === 'default')
+  if (path && isBlank(value) && !hasDefault && hasTemplateDefault(options.defaults, path)) {
+    value = options.defaults[path]
+  }
+
+  for (const filter of node.filters) {
+    value = FILTERS[filter.name].apply(value, filter.args.map(arg => evaluate(arg, state)), locale)
+  }
+
+  // Custom fields keep their typed formatting unless a filter reshaped the value
+  const fieldType = path ? options.fieldTypes?.[path] : undefined
+  const text = fieldType && node.filters.every(filter => filter.name === 'default') && !isBlank(value)
+    ? formatCustomFieldValue({ type: fieldType }, value, locale)
+    : toText(value, locale)
+
+  return options.escapeHtml ? escapeHtml(text) : text
+}
+
+function renderNodes(nodes: TemplateNode[], state: RenderState): string {
+  let output = ''
+
+  for (const node of nodes) {
+    let chunk: string
+    switch (node.type) {
+      case 'text':
+        chunk = node.value
+        break
+      case 'output':
+        chunk = renderOutput(node, state)
+        break
+      case 'if': {
+        const branch = node.branches.find(candidate => test(candidate.condition, state))
+        chunk = renderNodes(branch ? branch.body : node.otherwise, state)
+        break
+      }
+      default: {
+        const collection = resolvePath(node.collection, state)
+        const items = (Array.isArray(collection) ? collection : isBlank(collection) ? [] : [collection])
+          .slice(0, Math.min(node.limit ?? MAX_LOOP_ITERATIONS, MAX_LOOP_ITERATIONS))
+        chunk = ''
+        items.forEach((item, index) => {
+          state.scopes.push({
+            [node.variable]: item,
+            forloop: { index: index + 1, index0: index, first: index === 0, last: index === items.length - 1, length: items.length },
+          })
+          chunk += renderNodes(node.body, state)
+          state.scopes.pop()
+        })
+      }
+    }
+
+    state.length += chunk.length
+    if (state.length > MAX_OUTPUT_LENGTH) {
+      throw new TemplateSyntaxError([`output is longer than ${MAX_OUTPUT_LENGTH} characters`])
+    }
+    output += chunk
+  }
+
+  return output
+}
+
+/**
+ * Render a template against a context. Throws TemplateSyntaxError for
+ * templates that do not parse.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  options: TemplateRenderOptions = {}
+): string {
+  if (!template) return ''
+
+  const { nodes, issues } = parseTemplate(template, options.seed ?? '')
+  if (issues.length > 0) throw new TemplateSyntaxError(issues)
+
+  return renderNodes(nodes, { context, scopes: [], options, locale: options.locale || 'en-US', length: 0 })
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function conditionPaths(condition: Condition, paths: string[] = []): string[] {
+  switch (condition.kind) {
+    case 'truthy':
+      if (condition.expression.kind === 'path') paths.push(condition.expression.path)
+      break
+    case 'compare':
+      for (const side of [condition.left, condition.right]) {
+        if (side.kind === 'path') paths.push(side.path)
+      }
+      break
+    case 'not':
+      conditionPaths(condition.condition, paths)
+      break
+    default:
+      conditionPaths(condition.left, paths)
+      conditionPaths(condition.right, paths)
+  }
+  return paths
+}
+
+function collectVariables(
+  nodes: TemplateNode[],
+  guards: Set<string>,
+  locals: Set<string>,
+  usage: Map<string, boolean>
+): void {
+  const record = (path: string, required: boolean) => {
+    const root = path.split('.')[0]
+    if (locals.has(root)) return
+    usage.set(path, (usage.get(path) ?? false) || required)
+  }
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'output': {
+        const hasDefault = node.filters.some(filter => filter.name === 'default')
+        if (node.expression.kind === 'path') {
+          record(node.expression.path, !hasDefault && !guards.has(node.expression.path))
+        }
+        for (const filter of node.filters) {
+          for (const arg of filter.args) {
+            if (arg.kind === 'path') record(arg.path, false)
+          }
+        }
+        break
+      }
+      case 'if':
+        for (const branch of node.branches) {
+          const paths = conditionPaths(branch.condition)
+          paths.forEach(path => record(path, false))
+          collectVariables(branch.body, new Set([...Array.from(guards), ...paths]), locals, usage)
+        }
+        collectVariables(node.otherwise, guards, locals, usage)
+        break
+      case 'for':
+        record(node.collection, false)
+        collectVariables(node.body, guards, new Set([...Array.from(locals), node.variable, 'forloop']), usage)
+        break
+    }
+  }
+}
+
+/**
+ * Syntax problems and the variables a template uses. Variables in every
+ * spintax variation are included.
+ */
+export function analyzeTemplate(template: string): TemplateAnalysis {
+  const { nodes, issues } = parseTemplate(template || '', null)
+  const usage = new Map<string, boolean>()
+  collectVariables(nodes, new Set(), new Set(), usage)
+
+  return {
+    issues,
+    variables: Array.from(usage.entries()).map(([path, required]) => ({ path, required })),
+  }
+}
+
+// ============================================================================
+// Contact templates
+// ============================================================================
+
+export interface TemplateVariableDefinition {
+  name: string
+  label: string
+}
+
+/** Variables every contact provides; enrichment and custom hold nested values */
+export const CONTACT_TEMPLATE_VARIABLES: TemplateVariableDefinition[] = [
+  { name: 'first_name', label: 'First name' },
+  { name: 'last_name', label: 'Last name' },
+  { name: 'name', label: 'Full name' },
+  { name: 'email', label: 'Email' },
+  { name: 'company', label: 'Company' },
+  { name: 'company_name', label: 'Company name' },
+  { name: 'position', label: 'Position' },
+  { name: 'phone', label: 'Phone' },
+  { name: 'website', label: 'Website' },
+  { name: 'city', label: 'City' },
+  { name: 'country', label: 'Country' },
+  { name: 'industry', label: 'Industry' },
+  { name: 'sender_name', label: 'Sender name' },
+  { name: 'enrichment', label: 'Enrichment data, e.g. enrichment.products_services' },
+  // German aliases of existing templates
+  { name: 'Vorname', label: 'First name' },
+  { name: 'Nachname', label: 'Last name' },
+]
+
+/** Fallbacks of the original variable replacement, kept for existing templates */
+export const CONTACT_TEMPLATE_DEFAULTS: Record<string, string> = {
+  first_name: 'there',
+  name: 'there',
+}
+
+/** Filled in after rendering: the AI-generated paragraph of personalised emails */
+export const PASSTHROUGH_TEMPLATE_VARIABLES = ['personalised']
+
+const NESTED_TEMPLATE_VARIABLES = new Set(['enrichment'])
+
+export function templateVariableCatalog(
+  customFields: Pick<CustomFieldSpec, 'key' | 'label'>[] = []
+): TemplateVariableDefinition[] {
+  return [
+    ...CONTACT_TEMPLATE_VARIABLES,
+    ...customFields.map(field => ({ name: `custom.${field.key}`, label: field.label })),
+  ]
+}
+
+/**
+ * Variables of an analysis that no contact provides
+ */
+export function undefinedTemplateVariables(
+  variables: TemplateVariableUsage[],
+  catalog: TemplateVariableDefinition[]
+): string[] {
+  const names = new Set([...catalog.map(variable => variable.name), ...PASSTHROUGH_TEMPLATE_VARIABLES])
+
+  return variables
+    .map(variable => variable.path)
+    .filter(path => {
+      if (names.has(path)) return false
+      const segments = path.split('.')
+      if (NESTED_TEMPLATE_VARIABLES.has(segments[0])) return false
+      // list helpers on known variables, e.g. custom.modules.size
+      return !names.has(segments.slice(0, -1).join('.')) && !names.has(segments.slice(0, 2).join('.'))
+    })
+}
+
+export function contactTemplateContext(
+  contact: Record<string, any>,
+  options: { senderName?: string | null } = {}
+): Record<string, unknown> {
+  const enrichment = contact.enrichment_data && typeof contact.enrichment_data === 'object' ? contact.enrichment_data : {}
+  const firstName = contact.first_name || contact.name || ''
+  const lastName = contact.last_name || ''
+
+  return {
+    first_name: firstName,
+    last_name: lastName,
+    name: contact.name || `${contact.first_name || ''} ${lastName}`.trim(),
+    email: contact.email || '',
+    company: contact.company || '',
+    company_name: contact.company_name || contact.company || enrichment.company_name || '',
+    position: contact.position || contact.job_title || '',
+    phone: contact.phone || '',
+    website: contact.website || '',
+    city: contact.city || '',
+    country: contact.country || '',
+    industry: enrichment.industry || contact.industry || '',
+    sender_name: options.senderName || '',
+    enrichment,
+    custom: contact.custom_fields && typeof contact.custom_fields === 'object' ? contact.custom_fields : {},
+    Vorname: firstName,
+    Nachname: lastName,
+  }
+}
+
+export interface ContactTemplateOptions {
+  customFields?: Pick<CustomFieldSpec, 'key' | 'type'>[]
+  senderName?: string | null
+  escapeHtml?: boolean
+}
+
+/**
+ * Render a subject or body for one contact, the way campaigns send it:
+ * values in the contact's locale and spintax picked per contact
+ */
+export function renderContactTemplate(
+  template: string,
+  contact: Record<string, any>,
+  options: ContactTemplateOptions = {}
+): string {
+  const fieldTypes: Record<string, CustomFieldType> = {}
+  for (const field of options.customFields || []) {
+    fieldTypes[`custom.${field.key}`] = field.type
+  }
+
+  return renderTemplate(template, contactTemplateContext(contact, { senderName: options.senderName }), {
+    locale: customFieldLocale(contact),
+    seed: String(contact.id || contact.email || ''),
+    escapeHtml: options.escapeHtml,
+    fieldTypes,
+    defaults: CONTACT_TEMPLATE_DEFAULTS,
+    passthrough: PASSTHROUGH_TEMPLATE_VARIABLES,
+  })
+}
+
+/**
+ * Required variables of a template that a contact has no value for
+ */
+export function missingTemplateData(
+  variables: TemplateVariableUsage[],
+  contact: Record<string, any>,
+  options: { senderName?: string | null } = {}
+): string[] {
+  const context = contactTemplateContext(contact, options)
+  const state: RenderState = { context, scopes: [], options: {}, locale: 'en-US', length: 0 }
+
+  return variables
+    .filter(variable => variable.required)
+    .filter(variable => !PASSTHROUGH_TEMPLATE_VARIABLES.includes(variable.path))
+    .filter(variable => !hasTemplateDefault(CONTACT_TEMPLATE_DEFAULTS, variable.path))
+    .filter(variable => isBlank(resolvePath(variable.path, state)))
+    .map(variable => variable.path)
+}
+
+export interface LabelledTemplate {
+  label: string
+  content: string
+}
+
+export interface CampaignTemplateCheck {
+  /** Syntax problems; the templates cannot be sent */
+  errors: string[]
+  /** Required variables some contacts have no value for; they render empty */
+  warnings: string[]
+}
+
+/**
+ * The pre-launch check of campaign templates: syntax problems are errors and
+ * block the launch, required variables that some contacts have no value for
+ * are warnings. One message per problem.
+ */
+export function checkCampaignTemplates(
+  templates: LabelledTemplate[],
+  contacts: Record<string, any>[],
+  options: { senderName?: string | null } = {}
+): CampaignTemplateCheck {
+  const check: CampaignTemplateCheck = { errors: [], warnings: [] }
+
+  for (const template of templates) {
+    const analysis = analyzeTemplate(template.content)
+    if (analysis.issues.length > 0) {
+      check.errors.push(...analysis.issues.map(issue => `${template.label}: ${issue}`))
+      continue
+    }
+
+    const missing = new Map<string, string[]>()
+    for (const contact of contacts) {
+      for (const path of missingTemplateData(analysis.variables, contact, options)) {
+        missing.set(path, [...(missing.get(path) || []), contact.email || contact.id])
+      }
+    }
+
+    missing.forEach((emails, path) => {
+      const examples = emails.slice(0, 3).join(', ')
+      check.warnings.push(
+        `${template.label}: ${emails.length} contact(s) have no value for {{${path}}} (${examples}${emails.length > 3 ? ', …' : ''}). ` +
+        `Add a default, e.g. {{ ${path} | default: "…" }}, or wrap it in {% if ${path} %}`
+      )
+    })
+  }
+
+  return check
+}
+
+/** Whether any template needs contact data to be checked */
+export function templatesRequireContactData(templates: LabelledTemplate[]): boolean {
+  return templates.some(template => analyzeTemplate(template.content).variables.some(variable =>
+    variable.required &&
+    !PASSTHROUGH_TEMPLATE_VARIABLES.includes(variable.path) &&
+    !hasTemplateDefault(CONTACT_TEMPLATE_DEFAULTS, variable.path)))
+}
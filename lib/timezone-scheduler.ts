@@ -1,4 +1,10 @@
 import { z } from 'zod'
+import {
+  getCountryFromTimezone,
+  inferContactCountry,
+  nextSendableTime,
+  normalizeCountryCode,
+} from './holiday-calendars'
 
 // Timezone and scheduling interfaces
 export interface TimeWindow {
@@ -20,6 +26,7 @@ export interface ScheduleSettings {
   avoid_weekends: boolean
   avoid_holidays: boolean
   holiday_list: string[] // YYYY-MM-DD format
+  quiet_days?: Record<string, string[]> // country code (or "*") -> YYYY-MM-DD or recurring MM-DD
   optimal_send_times: OptimalSendTime[]
   recipient_timezone_override?: string
 }
@@ -46,6 +53,8 @@ export interface SchedulingContext {
     email: string
     timezone?: string
     country?: string
+    address?: string
+    city?: string
     company_domain?: string
     last_activity_timezone?: string
   }
@@ -84,6 +93,7 @@ const scheduleSettingsSchema = z.object({
   avoid_weekends: z.boolean(),
   avoid_holidays: z.boolean(),
   holiday_list: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  quiet_days: z.record(z.array(z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/))).optional(),
   optimal_send_times: z.array(z.object({
     day_of_week: z.number().min(0).max(6),
     hour: z.number().min(0).max(23),
@@ -209,12 +219,17 @@ export class TimezoneScheduler {
         }
       }
 
-      // Avoid holidays
-      if ((validatedSettings as ScheduleSettings).avoid_holidays && (validatedSettings as ScheduleSettings).holiday_list.length > 0) {
+      // Avoid public holidays and quiet days in the recipient's country
+      if ((validatedSettings as ScheduleSettings).avoid_holidays) {
+        const recipientCountry = inferContactCountry({ ...context.contact, timezone: recipientTimezone.timezone })
+        if (recipientCountry) {
+          reasoning.push(`Using holiday calendar: ${recipientCountry}`)
+        }
         const holidayResult = await this.adjustForHolidays(
           scheduledTime,
-          (validatedSettings as ScheduleSettings).holiday_list,
-          recipientTimezone.timezone
+          validatedSettings as ScheduleSettings,
+          recipientTimezone.timezone,
+          recipientCountry
         )
         scheduledTime = holidayResult.adjustedTime
         if (holidayResult.wasAdjusted) {
@@ -295,8 +310,9 @@ export class TimezoneScheduler {
     }
 
     // Try to detect from country
-    if (contact.country) {
-      const timezone = this.TIMEZONE_MAPPINGS[contact.country.toUpperCase()]
+    const countryCode = normalizeCountryCode(contact.country)
+    if (countryCode) {
+      const timezone = this.TIMEZONE_MAPPINGS[countryCode]
       if (timezone) {
         return this.getTimezoneInfo(timezone)
       }
@@ -751,33 +767,28 @@ export class TimezoneScheduler {
   }
 
   /**
-   * Adjust time to avoid holidays
+   * Adjust time to avoid the campaign's holiday list, its quiet days and the
+   * public holidays of the recipient's country (dates in the recipient timezone)
    */
   private async adjustForHolidays(
     time: Date,
-    holidayList: string[],
-    timezone: string
+    settings: ScheduleSettings,
+    timezone: string,
+    country: string | null
   ): Promise<{ adjustedTime: Date; wasAdjusted: boolean; reason: string }> {
-    const adjustedTime = new Date(time)
-    const dateString = adjustedTime.toISOString().split('T')[0]
-    
-    if (holidayList.includes(dateString)) {
-      // Move to next non-holiday
-      let attempts = 0
-      while (holidayList.includes(adjustedTime.toISOString().split('T')[0]) && attempts < 30) {
-        adjustedTime.setDate(adjustedTime.getDate() + 1)
-        attempts++
-      }
-      
+    const { sendAt, skipped } = nextSendableTime(time, { country, timezone, settings })
+
+    if (skipped.length > 0) {
+      const holidays = skipped.map(day => `${day.name} ${day.date}`).join(', ')
       return {
-        adjustedTime,
+        adjustedTime: sendAt,
         wasAdjusted: true,
-        reason: `Moved to avoid holiday (${dateString})`
+        reason: `Moved to avoid holiday${country ? ` in ${country}` : ''} (${holidays})`
       }
     }
-    
+
     return {
-      adjustedTime,
+      adjustedTime: sendAt,
       wasAdjusted: false,
       reason: 'Not a holiday'
     }
@@ -883,7 +894,7 @@ export class TimezoneScheduler {
       'Australia/Sydney': 'AU'
     }
     
-    return countryMappings[timezone]
+    return countryMappings[timezone] || getCountryFromTimezone(timezone) || undefined
   }
 
   private getRegionFromTimezone(timezone: string): string | undefined {
@@ -926,8 +937,9 @@ export class TimezoneScheduler {
     }
     
     // Add country-based suggestions
-    if (contact.country) {
-      const timezone = this.TIMEZONE_MAPPINGS[contact.country.toUpperCase()]
+    const countryCode = normalizeCountryCode(contact.country)
+    if (countryCode) {
+      const timezone = this.TIMEZONE_MAPPINGS[countryCode]
       if (timezone && !suggestions.includes(timezone)) {
         suggestions.push(timezone)
       }
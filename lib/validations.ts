@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { REPLY_LABELS } from './email-classifier'
+import { CONVERSATION_STATUSES } from './conversations'
 
 // User validation schemas
 export const userSchema = z.object({
@@ -176,8 +178,94 @@ export const bulkContactsSchema = z.object({
   contacts: z.array(csvContactSchema), // Use lenient schema for bulk imports
   skip_duplicates: z.boolean().default(true),
   validate_emails: z.boolean().default(true),
+  exclude_email_statuses: z.array(z.enum(['invalid', 'risky'])).default(['invalid']),
 })
 
+export const mergeContactClustersSchema = z.object({
+  merges: z.array(z.object({
+    primary_contact_id: z.string().uuid(),
+    duplicate_contact_ids: z.array(z.string().uuid()).min(1),
+    // field name -> id of the contact whose value wins
+    field_resolutions: z.record(z.string().uuid()).default({}),
+  })).min(1).max(100),
+})
+
+// Revert one history change, or every change of one operation
+export const revertContactChangesSchema = z.union([
+  z.object({ change_id: z.string().uuid() }),
+  z.object({ group_id: z.string().uuid() }),
+])
+
+// Contact segments: rules is a rule tree checked by validateSegmentRules, filterCriteria
+// the simple filters of the creation form
+const segmentFilterCriteriaSchema = z.object({
+  company: z.string().optional(),
+  jobTitle: z.string().optional(),
+  location: z.string().optional(),
+  industry: z.string().optional(),
+  addedAfter: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+})
+
+export const contactSegmentSchema = z.object({
+  name: z.string().min(1, 'Segment name is required').max(100),
+  description: z.string().max(500).optional(),
+  rules: z.unknown().optional(),
+  filterCriteria: segmentFilterCriteriaSchema.optional(),
+  isDynamic: z.boolean().optional(),
+})
+
+export const updateContactSegmentSchema = contactSegmentSchema.partial()
+
+export const segmentPreviewSchema = contactSegmentSchema.pick({ rules: true, filterCriteria: true })
+
+// Lead scoring model, see lib/lead-scoring.ts
+const behaviourWeightSchema = z.object({
+  points: z.number().min(0).max(100),
+  maxEvents: z.number().int().min(0).max(50),
+})
+
+export const leadScoringModelSchema = z.object({
+  firmographic: z.array(z.object({
+    id: z.string().min(1).max(100),
+    label: z.string().min(1, 'Rule label is required').max(100),
+    attribute: z.enum(['industry', 'company_size', 'position', 'country', 'company', 'tags']),
+    keywords: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    minEmployees: z.number().int().min(0).optional(),
+    maxEmployees: z.number().int().min(0).optional(),
+    points: z.number().min(-100).max(100),
+  }).refine(
+    rule => rule.attribute === 'company_size'
+      ? rule.minEmployees !== undefined || rule.maxEmployees !== undefined
+      : (rule.keywords?.length ?? 0) > 0,
+    { message: 'Company size rules need an employee range, other rules at least one keyword' }
+  )).max(50),
+  behaviour: z.object({
+    open: behaviourWeightSchema,
+    click: behaviourWeightSchema,
+    reply: behaviourWeightSchema,
+  }),
+  halfLifeDays: z.number().min(1).max(365),
+  negative: z.object({
+    bounce: z.number().min(-100).max(0),
+    complaint: z.number().min(-100).max(0),
+    unsubscribe: z.number().min(-100).max(0),
+    out_of_office: z.number().min(-100).max(0),
+  }),
+})
+
+export const customFieldDefinitionSchema = z.object({
+  key: z.string().max(50).optional(),
+  label: z.string().trim().min(1, 'Field label is required').max(100),
+  type: z.enum(['text', 'number', 'date', 'select', 'multi_select', 'boolean']),
+  options: z.array(z.string().max(100)).max(100).default([]),
+  position: z.number().int().min(0).optional(),
+})
+
+export const updateCustomFieldDefinitionSchema = customFieldDefinitionSchema
+  .pick({ label: true, options: true, position: true })
+  .partial()
+
 // Campaign validation schemas
 export const campaignEmailSchema = z.object({
   step_number: z.number().min(1).max(7),
@@ -235,6 +323,29 @@ export const emailValidationSchema = z.object({
   emails: z.array(z.string().email()),
 })
 
+// Mailbox reclassification of a received email
+export const reclassifyEmailSchema = z.object({
+  label: z.enum(REPLY_LABELS),
+})
+
+// Mailbox conversation status, assignees and labels
+export const updateConversationSchema = z.object({
+  status: z.enum(CONVERSATION_STATUSES).optional(),
+  snoozed_until: z.string().datetime().nullable().optional(),
+  assignees: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  labels: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).refine(data => data.status !== 'snoozed' || !!data.snoozed_until, {
+  message: 'snoozed_until is required when snoozing a conversation',
+  path: ['snoozed_until'],
+})
+
+// "Remind me if no reply" on mail sent from the mailbox composer
+export const followUpReminderSchema = z.object({
+  remind_after_days: z.number().int().min(1).max(30),
+  draft_nudge: z.boolean().default(true),
+  agent_id: z.string().uuid().nullable().optional(),
+})
+
 // Warmup configuration schemas
 export const warmupConfigSchema = z.object({
   email_account_id: z.string().uuid(),
@@ -300,6 +411,10 @@ export type Contact = z.infer<typeof contactSchema>
 export type CSVContact = z.infer<typeof csvContactSchema>
 export type UpdateContact = z.infer<typeof updateContactSchema>
 export type BulkContacts = z.infer<typeof bulkContactsSchema>
+export type MergeContactClusters = z.infer<typeof mergeContactClustersSchema>
+export type RevertContactChanges = z.infer<typeof revertContactChangesSchema>
+export type ContactSegmentInput = z.infer<typeof contactSegmentSchema>
+export type LeadScoringModelInput = z.infer<typeof leadScoringModelSchema>
 export type Campaign = z.infer<typeof campaignSchema>
 export type UpdateCampaign = z.infer<typeof updateCampaignSchema>
 export type CampaignEmail = z.infer<typeof campaignEmailSchema>
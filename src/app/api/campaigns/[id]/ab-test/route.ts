@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { withAuth } from '@/lib/auth-middleware'
+import { ABTestService } from '@/lib/ab-testing'
+import { evaluateCampaignABTest, getCampaignABTest } from '@/lib/campaign-ab-testing'
+
+/**
+ * Get the campaign's A/B test with statistics recomputed from email_tracking.
+ * Read-only: winners are promoted by the campaign processor.
+ */
+export const GET = withAuth(async (_request: NextRequest, { user, supabase }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: campaignId } = await params
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, user_id, ab_test_enabled, ab_test_config')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const test = getCampaignABTest(campaign)
+    if (!test) {
+      return NextResponse.json({ success: true, data: null })
+    }
+
+    const result = await evaluateCampaignABTest(supabase, campaignId, test)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        test: result.test,
+        analysis: result.analysis,
+        promoted_variant_id: result.test.winner_variant_id || null,
+      },
+    })
+  } catch (error: any) {
+    console.error('Failed to load A/B test:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load A/B test' },
+      { status: 500 },
+    )
+  }
+})
+
+/**
+ * Configure an A/B test for a campaign that has not started sending yet
+ */
+export const POST = withAuth(async (request: NextRequest, { user, supabase }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: campaignId } = await params
+    const body = await request.json()
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, user_id, status')
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (campaignError || !campaign) {
+      return NextResponse.json({ success: false, error: 'Campaign not found' }, { status: 404 })
+    }
+
+    if (!['draft', 'scheduled'].includes(campaign.status || '')) {
+      return NextResponse.json(
+        { success: false, error: 'A/B tests can only be configured before the campaign starts sending' },
+        { status: 409 },
+      )
+    }
+
+    const test = ABTestService.createTest(campaignId, user.id, body)
+
+    const { error: updateError } = await supabase
+      .from('campaigns')
+      .update({
+        ab_test_enabled: true,
+        ab_test_config: test as any,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', campaignId)
+      .eq('user_id', user.id)
+
+    if (updateError) {
+      throw new Error(`Failed to save A/B test: ${updateError.message}`)
+    }
+
+    return NextResponse.json({ success: true, data: test })
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid A/B test configuration', details: error.errors },
+        { status: 400 },
+      )
+    }
+
+    console.error('Failed to create A/B test:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to create A/B test' },
+      { status: 500 },
+    )
+  }
+})
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { campaignProcessor } from '@/lib/campaign-processor'
+import { formatBranchPath } from '@/lib/sequence-branching'
+import { listSendDeferrals } from '@/lib/domain-throttle'
+import type { Tables } from '@/lib/database.types'
 
 export const GET = withAuth(async (request: NextRequest, user, { params }) => {
   try {
@@ -67,11 +70,27 @@ export const GET = withAuth(async (request: NextRequest, user, { params }) => {
     const from = (page - 1) * pageSize
     const to = from + pageSize - 1
 
-    const { data: rows, error } = await query.range(from, to)
-    if (error) throw error
+    // Deferred sends have no tracking row yet; they are listed on the first page
+    const deferrals = await listSendDeferrals(supabase, campaignId)
+    const deferralMap = Object.fromEntries(deferrals.map(d => [d.contact_id, d]))
+
+    let rows: Tables<'email_tracking'>[] = []
+    if (status !== 'deferred') {
+      const { data, error } = await query.range(from, to)
+      if (error) throw error
+      rows = data || []
+    }
+
+    const trackedContactIds = new Set(rows.map(r => r.contact_id).filter(Boolean))
+    const pendingDeferrals = (status === 'all' || status === 'deferred') && page === 1
+      ? deferrals.filter(d => !trackedContactIds.has(d.contact_id))
+      : []
 
     // Build contact map
-    const contactIds = Array.from(new Set((rows || []).map(r => r.contact_id).filter(Boolean)))
+    const contactIds = Array.from(new Set([
+      ...rows.map(r => r.contact_id).filter(Boolean),
+      ...pendingDeferrals.map(d => d.contact_id),
+    ]))
     let contactMap: Record<string, any> = {}
     if (contactIds.length > 0) {
       const { data: contacts } = await supabase
@@ -105,8 +124,48 @@ export const GET = withAuth(async (request: NextRequest, user, { params }) => {
       }
     }
 
+    // Branch path per contact (only populated for sequences with step conditions)
+    const pathContactIds = Array.from(new Set([
+      ...(rows || []).map(r => r.contact_id).filter(Boolean),
+      ...pendingDeferrals.map(d => d.contact_id),
+    ])) as string[]
+    let branchPathMap: Record<string, any[]> = {}
+    if (pathContactIds.length > 0) {
+      const { data: campaignContacts } = await supabase
+        .from('campaign_contacts')
+        .select('contact_id, branch_path')
+        .eq('campaign_id', campaignId)
+        .in('contact_id', pathContactIds)
+      branchPathMap = Object.fromEntries(
+        (campaignContacts || [])
+          .filter(cc => Array.isArray(cc.branch_path) && cc.branch_path.length > 0)
+          .map(cc => [cc.contact_id, cc.branch_path as any[]])
+      )
+    }
+
     // Enrich rows
-    const details = (rows || []).map(r => {
+    const deferredDetails = pendingDeferrals.map(d => {
+      const c = contactMap[d.contact_id] || {}
+      return {
+        id: d.id,
+        recipient_email: c.email || 'Unknown',
+        subject: '',
+        status: 'deferred',
+        sent_at: null,
+        delivered_at: null,
+        opened_at: null,
+        clicked_at: null,
+        replied_at: null,
+        bounce_reason: null,
+        contact_name: [c.first_name, c.last_name].filter(Boolean).join(' ') || null,
+        contact_company: c.company || null,
+        branch_path: formatBranchPath(branchPathMap[d.contact_id]) || null,
+        deferral_reason: d.reason,
+        deferred_until: d.deferred_until,
+      }
+    })
+
+    const trackedDetails = (rows || []).map(r => {
       const c = r.contact_id ? (contactMap[r.contact_id] || {}) : {}
       const derivedStatus = r.replied_at ? 'replied' : r.clicked_at ? 'clicked' : r.opened_at ? 'opened' : (r.delivered_at || r.opened_at || r.clicked_at || r.replied_at) ? 'delivered' : r.sent_at ? 'sent' : (r.bounced_at || r.bounce_reason) ? 'bounced' : r.status || 'pending'
       return {
@@ -122,9 +181,14 @@ export const GET = withAuth(async (request: NextRequest, user, { params }) => {
         bounce_reason: r.bounce_reason || null,
         contact_name: [c.first_name, c.last_name].filter(Boolean).join(' ') || null,
         contact_company: c.company || null,
+        branch_path: r.contact_id ? formatBranchPath(branchPathMap[r.contact_id]) || null : null,
+        deferral_reason: r.contact_id && !r.sent_at ? deferralMap[r.contact_id]?.reason || null : null,
+        deferred_until: r.contact_id && !r.sent_at ? deferralMap[r.contact_id]?.deferred_until || null : null,
       }
     })
 
+    const details = [...deferredDetails, ...trackedDetails]
+
     // Optional search filter applied after enrichment (covers email/name/subject)
     const filtered = q
       ? details.filter(d =>
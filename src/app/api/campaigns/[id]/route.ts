@@ -70,6 +70,7 @@ const updateCampaign = withAuth(async (request: NextRequest, { user, supabase },
     if (body.html_content !== undefined) updates.html_content = body.html_content
     if (Array.isArray(body.contact_list_ids)) updates.contact_list_ids = body.contact_list_ids
     if (body.from_email_account_id !== undefined) updates.from_email_account_id = body.from_email_account_id
+    if (Array.isArray(body.email_account_ids)) updates.email_account_ids = body.email_account_ids
     if (body.daily_send_limit !== undefined) updates.daily_send_limit = body.daily_send_limit
     if (body.emailSequence) updates.email_sequence = body.emailSequence
     if (body.aiSettings) updates.ai_settings = body.aiSettings
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { previewHolidayDelays } from '@/lib/holiday-calendars'
+
+const BATCH_INTERVAL_MINUTES = 20
+
+/**
+ * Preview which contacts of a new campaign will be delayed by a public holiday
+ * or quiet day in their country, using the same batch plan as campaign creation
+ */
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const {
+      contact_list_ids,
+      scheduled_date,
+      daily_send_limit,
+      timezone,
+      holiday_list = [],
+      quiet_days = {}
+    } = body
+
+    if (!Array.isArray(contact_list_ids) || contact_list_ids.length === 0) {
+      return NextResponse.json({ error: 'At least one contact list is required' }, { status: 400 })
+    }
+
+    const startTime = scheduled_date ? new Date(scheduled_date) : new Date()
+    if (isNaN(startTime.getTime())) {
+      return NextResponse.json({ error: 'Invalid scheduled date' }, { status: 400 })
+    }
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: contactLists, error: listsError } = await supabase
+      .from('contact_lists')
+      .select('contact_ids')
+      .in('id', contact_list_ids)
+      .eq('user_id', user.id)
+
+    if (listsError) throw listsError
+
+    // Same order as the batch schedule built on campaign creation
+    const contactIds = (contactLists || [])
+      .flatMap(list => list.contact_ids || [])
+      .filter((id, index, arr) => arr.indexOf(id) === index)
+
+    const contacts = []
+    for (let i = 0; i < contactIds.length; i += 500) {
+      const chunk = contactIds.slice(i, i + 500)
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, email, first_name, last_name, country, address, city, timezone, linkedin_country, linkedin_country_code')
+        .eq('user_id', user.id)
+        .in('id', chunk)
+      if (error) throw error
+      const byId = new Map((data || []).map(contact => [contact.id, contact]))
+      contacts.push(...chunk.map(id => byId.get(id)).filter((contact): contact is NonNullable<typeof contact> => Boolean(contact)))
+    }
+
+    const delays = previewHolidayDelays(contacts, {
+      startTime,
+      batchSize: daily_send_limit || 5,
+      intervalMinutes: BATCH_INTERVAL_MINUTES,
+      fallbackTimezone: timezone,
+      settings: { avoid_holidays: true, holiday_list, quiet_days }
+    })
+
+    const holidays = Object.values(delays.reduce((groups, delay) => {
+      const key = `${delay.country}:${delay.holiday_date}`
+      groups[key] = groups[key] || { country: delay.country, holiday: delay.holiday, date: delay.holiday_date, contact_count: 0 }
+      groups[key].contact_count++
+      return groups
+    }, {} as Record<string, { country: string; holiday: string; date: string; contact_count: number }>))
+
+    return createSuccessResponse({
+      total_contacts: contacts.length,
+      delayed_count: delays.length,
+      holidays,
+      delays
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+})
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { getCampaignSenderIds } from '@/lib/inbox-rotation'
+import { EmailValidationService, type EmailValidationStatus, type ExcludableEmailStatus } from '@/lib/email-validation'
+import { verifyContactEmails, type ContactEmailRow } from '@/lib/contact-email-verification'
+import { checkCampaignTemplates, templatesRequireContactData, type LabelledTemplate } from '@/lib/template-language'
 
 export const POST = withAuth(async (request: NextRequest, user) => {
   const supabase = (await import('@/lib/supabase-server')).createServerSupabaseClient()
@@ -16,7 +20,13 @@ export const POST = withAuth(async (request: NextRequest, user) => {
       scheduled_date,
       timezone,
       from_email_account_id,
+      email_account_ids = [], // Optional sender pool for inbox rotation
       daily_send_limit,
+      send_time_mode = 'window', // 'optimized' sends each contact at their predicted best hour
+      exclude_email_statuses = [], // Verification statuses ('invalid', 'risky') to leave out at launch
+      stop_on_account_reply = false, // Skip colleagues once someone at the same company replied
+      ooo_buffer_days = 1, // Days after an out-of-office contact's return before the next email
+      enroll_ooo_alternates = false, // Enrol the alternate named in an out-of-office reply
       status: providedStatus,
       personalized_emails = {} // Map of contact_id -> { subject, content }
     } = body
@@ -68,6 +78,28 @@ export const POST = withAuth(async (request: NextRequest, user) => {
       return NextResponse.json({ error: 'Email account is required' }, { status: 400 })
     }
 
+    // The sender pool always includes from_email_account_id; extra accounts must be active and owned by the user
+    const senderPoolIds = getCampaignSenderIds({
+      from_email_account_id,
+      email_account_ids: Array.isArray(email_account_ids) ? email_account_ids : []
+    })
+    if (senderPoolIds.length > 1) {
+      const { data: poolAccounts, error: poolError } = await supabase
+        .from('email_accounts')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .in('id', senderPoolIds)
+
+      if (poolError) {
+        console.error('❌ Error validating sender pool:', poolError)
+        return NextResponse.json({ error: 'Failed to validate email accounts' }, { status: 500 })
+      }
+      if ((poolAccounts || []).length !== senderPoolIds.length) {
+        return NextResponse.json({ error: 'One or more rotation email accounts are not available' }, { status: 400 })
+      }
+    }
+
     // ============================================================================
     // ENHANCED VALIDATION: Check for time period overlap with existing campaigns
     // ============================================================================
@@ -90,6 +122,46 @@ export const POST = withAuth(async (request: NextRequest, user) => {
       .flatMap(list => list.contact_ids || [])
       .filter((id, index, arr) => arr.indexOf(id) === index) // Remove duplicates
 
+    // Pre-launch template check: templates must parse; contacts without the data
+    // the templates use without a default are reported as warnings. Drafts are
+    // checked when launched.
+    let templateWarnings: string[] = []
+    if (status !== 'draft') {
+      const templates: LabelledTemplate[] = [
+        { label: 'Subject', content: email_subject },
+        { label: 'Email content', content: html_content }
+      ]
+      // Contacts with their own AI-written email do not use the shared templates
+      const templateContactIds = allContactIdsPreview.filter(id => !personalized_emails[id])
+      const templateContacts: Record<string, any>[] = []
+
+      if (templatesRequireContactData(templates)) {
+        for (let i = 0; i < templateContactIds.length; i += 500) {
+          const { data: chunk, error: templateContactsError } = await supabase
+            .from('contacts')
+            .select('*')
+            .eq('user_id', user.id)
+            .in('id', templateContactIds.slice(i, i + 500))
+
+          if (templateContactsError) {
+            console.error('❌ Error loading contacts for the template check:', templateContactsError)
+            return NextResponse.json({ error: 'Failed to validate campaign' }, { status: 500 })
+          }
+          templateContacts.push(...(chunk || []))
+        }
+      }
+
+      const templateCheck = checkCampaignTemplates(templates, templateContacts, { senderName: sender_name })
+      if (templateCheck.errors.length > 0) {
+        return NextResponse.json({
+          error: `Template check failed: ${templateCheck.errors.join(' ')}`,
+          type: 'TEMPLATE_CHECK',
+          problems: templateCheck.errors
+        }, { status: 400 })
+      }
+      templateWarnings = templateCheck.warnings
+    }
+
     const allowedDaily = new Set([5,10,15,20,30,50])
     const finalDailyLimit = allowedDaily.has(Number(daily_send_limit)) ? Number(daily_send_limit) : 50
     const totalContactsPreview = allContactIdsPreview.length
@@ -201,6 +273,10 @@ export const POST = withAuth(async (request: NextRequest, user) => {
 
     console.log('✅ No time period conflicts found, proceeding with campaign creation')
 
+    const excludeEmailStatuses: ExcludableEmailStatus[] = Array.isArray(exclude_email_statuses)
+      ? exclude_email_statuses.filter((s: string): s is ExcludableEmailStatus => s === 'invalid' || s === 'risky')
+      : []
+
     // Note: finalDailyLimit already calculated above in overlap validation (line 94)
     // CRITICAL FIX: Create send_settings object with proper batch_size configuration
     // This is what the campaign processor reads to determine batch size
@@ -215,6 +291,15 @@ export const POST = withAuth(async (request: NextRequest, user) => {
         batch_delay_minutes: 5
       },
       send_immediately: send_immediately || false,
+      send_time_mode: send_time_mode === 'optimized' ? 'optimized' : 'window',
+      exclude_email_statuses: excludeEmailStatuses,
+      account_rules: {
+        stop_on_reply: stop_on_account_reply === true
+      },
+      out_of_office: {
+        buffer_days: Math.min(Math.max(Number(ooo_buffer_days) || 0, 0), 30),
+        enroll_alternates: enroll_ooo_alternates === true
+      },
       avoid_weekends: true,
       avoid_holidays: true,
       holiday_list: [],
@@ -245,6 +330,7 @@ export const POST = withAuth(async (request: NextRequest, user) => {
         timezone: timezone || 'UTC',
         // New: sending controls
         from_email_account_id,
+        email_account_ids: senderPoolIds,
         daily_send_limit: finalDailyLimit,
         send_settings: sendSettings, // CRITICAL FIX: Store send_settings with batch_size
         track_opens: true,
@@ -294,10 +380,38 @@ export const POST = withAuth(async (request: NextRequest, user) => {
     }
 
     // Flatten all contact IDs
-    const allContactIds = contactLists
+    let allContactIds = contactLists
       .flatMap(list => list.contact_ids || [])
       .filter((id, index, arr) => arr.indexOf(id) === index) // Remove duplicates
 
+    // Verify recipients and drop the excluded statuses before batches are assigned
+    let excludedContacts: Array<{ contact_id: string; email: string; status: EmailValidationStatus; reason?: string }> = []
+    if (excludeEmailStatuses.length > 0 && allContactIds.length > 0) {
+      const contactEmails: ContactEmailRow[] = []
+      for (let i = 0; i < allContactIds.length; i += 500) {
+        const { data: chunk, error: emailsError } = await supabase
+          .from('contacts')
+          .select('id, email, email_verification_status, email_checked_at')
+          .eq('user_id', user.id)
+          .in('id', allContactIds.slice(i, i + 500))
+
+        if (emailsError) {
+          console.error('Error loading contact emails for verification:', emailsError)
+          return NextResponse.json({ error: 'Failed to verify contact emails' }, { status: 500 })
+        }
+        contactEmails.push(...(chunk || []))
+      }
+
+      // Launches reuse stored results (SMTP-probed by background imports) and only run DNS-level checks
+      const verifications = await verifyContactEmails(supabase, contactEmails, { smtp: false })
+      excludedContacts = verifications
+        .filter(result => EmailValidationService.isExcluded(result.status, excludeEmailStatuses))
+
+      const excludedIds = new Set(excludedContacts.map(c => c.contact_id))
+      allContactIds = allContactIds.filter(id => !excludedIds.has(id))
+      console.log(`🧹 Excluded ${excludedContacts.length} contacts with ${excludeEmailStatuses.join('/')} emails`)
+    }
+
     console.log(`📋 Campaign ${campaign.id} will target ${allContactIds.length} contacts`)
 
     // Calculate batch schedule with 20-minute intervals
@@ -436,7 +550,9 @@ export const POST = withAuth(async (request: NextRequest, user) => {
 
     return NextResponse.json({
       success: true,
-      data: campaign
+      data: campaign,
+      excluded_contacts: excludedContacts,
+      template_warnings: templateWarnings
     }, { status: 201 })
 
   } catch (error) {
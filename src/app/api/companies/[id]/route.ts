@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getCompany, getCompanyContacts } from '@/lib/companies'
+
+// GET /api/companies/[id] - A company with its contacts
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const supabase = createServerSupabaseClient()
+
+    const company = await getCompany(supabase, user.id, id)
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 })
+    }
+
+    const contacts = await getCompanyContacts(supabase, user.id, id)
+    return createSuccessResponse({ company, contacts })
+
+  } catch (error) {
+    console.error('Get company error:', error)
+    return handleApiError(error)
+  }
+})
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { listCompanies, type CompanyListOptions } from '@/lib/companies'
+
+const SORT_FIELDS: CompanyListOptions['sortBy'][] = ['engagement_score', 'contact_count', 'name', 'last_engaged_at']
+
+// GET /api/companies - Companies with their aggregated engagement
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sortBy = searchParams.get('sortBy') as CompanyListOptions['sortBy']
+
+    const supabase = createServerSupabaseClient()
+    const result = await listCompanies(supabase, user.id, {
+      search: searchParams.get('search') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '25'),
+      sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : undefined,
+    })
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    console.error('List companies error:', error)
+    return handleApiError(error)
+  }
+})
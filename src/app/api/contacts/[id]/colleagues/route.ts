@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getContactColleagues } from '@/lib/companies'
+
+// GET /api/contacts/[id]/colleagues - The contact's company and the other contacts at it
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const supabase = createServerSupabaseClient()
+
+    const result = await getContactColleagues(supabase, user.id, id)
+    if (!result) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    console.error('Get contact colleagues error:', error)
+    return handleApiError(error)
+  }
+})
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { listContactPostponements, oooPostponementReason } from '@/lib/ooo-rescheduling'
 
 export const GET = withAuth(async (
   request: NextRequest,
@@ -62,6 +63,21 @@ export const GET = withAuth(async (
     addEvent('unsubscribed', row.unsubscribed_at)
   }
 
+  // Campaign emails and sequence steps held back while the contact was out of office
+  try {
+    const postponements = await listContactPostponements(supabase, user.id, contactId)
+    for (const postponement of postponements) {
+      const campaignName = postponement.campaign?.name || 'Campaign'
+      events.push({
+        type: 'postponed',
+        timestamp: postponement.created_at,
+        details: `${campaignName}: ${oooPostponementReason(postponement.auto_reply_until)}, next email on ${postponement.postponed_until.slice(0, 10)}`,
+      })
+    }
+  } catch (postponementError) {
+    console.error('Failed to load out-of-office postponements:', postponementError)
+  }
+
   events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
 
   return addSecurityHeaders(
@@ -30,6 +30,9 @@ export const POST = withAuth(async (request: NextRequest, { user }, { params }:
           secondary_source: result.secondary_source,
           enrichment_data: result.enrichment_data,
           linkedin_data: result.linkedin_data,
+          field_sources: result.field_sources,
+          providers: result.providers,
+          total_cost_usd: result.total_cost_usd,
           strategy: result.sources_used.length > 1 ? 'dual_enrichment' : 'single_source'
         },
         errors: result.errors,
@@ -107,6 +110,7 @@ export const GET = withAuth(async (request: NextRequest, { user }, { params }: {
           linkedin_status: enrichmentStatus.linkedin_status,
           sources_used: enrichmentStatus.sources_used,
           priority_strategy: enrichmentStatus.priority_strategy,
+          field_sources: enrichmentStatus.field_sources,
           last_enriched: enrichmentStatus.last_enriched
         }
       }
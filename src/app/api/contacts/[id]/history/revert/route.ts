@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ContactRevertConflictError, revertContactChanges } from '@/lib/contact-history'
+import { revertContactChangesSchema } from '@/lib/validations'
+
+/**
+ * POST /api/contacts/[id]/history/revert
+ * Revert a single change ({ change_id }) or a whole operation such as an enrichment run ({ group_id })
+ */
+export const POST = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: contactId } = await params
+    const parsed = revertContactChangesSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid revert request', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data: { change_id?: string; group_id?: string } = parsed.data
+    const target = data.change_id
+      ? { changeId: data.change_id }
+      : { groupId: data.group_id }
+
+    const result = await revertContactChanges(
+      createServerSupabaseClient(),
+      user.id,
+      contactId,
+      target,
+      { type: 'user', id: user.id }
+    )
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Change not found' },
+        { status: 404 }
+      )
+    }
+
+    return createSuccessResponse(result)
+
+  } catch (error) {
+    if (error instanceof ContactRevertConflictError) {
+      return NextResponse.json(
+        { error: error.message, fields: error.fields },
+        { status: 409 }
+      )
+    }
+    console.error('Contact revert error:', error)
+    return handleApiError(error)
+  }
+})
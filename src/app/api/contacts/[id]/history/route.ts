@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getContactHistory } from '@/lib/contact-history'
+
+/**
+ * GET /api/contacts/[id]/history
+ * Field-level change history of a contact, newest first. Pass ?before=<created_at> for older entries.
+ */
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: contactId } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Number(searchParams.get('limit')) || 200, 500)
+
+    const history = await getContactHistory(createServerSupabaseClient(), user.id, contactId, {
+      limit,
+      before: searchParams.get('before') || undefined
+    })
+
+    return createSuccessResponse({ history, hasMore: history.length === limit })
+
+  } catch (error) {
+    console.error('Contact history error:', error)
+    return handleApiError(error)
+  }
+})
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { recalculateLeadScores } from '@/lib/lead-scoring'
+
+async function loadLeadScore(supabase: ReturnType<typeof createServerSupabaseClient>, contactId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('lead_score, lead_score_breakdown, lead_score_updated_at')
+    .eq('id', contactId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  return {
+    score: data.lead_score,
+    breakdown: data.lead_score_breakdown,
+    updatedAt: data.lead_score_updated_at,
+  }
+}
+
+// GET /api/contacts/[id]/lead-score - Lead score with its breakdown, computed on first access
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const supabase = createServerSupabaseClient()
+
+    let leadScore = await loadLeadScore(supabase, id, user.id)
+    if (!leadScore) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    if (!leadScore.breakdown) {
+      await recalculateLeadScores(supabase, user.id, [id])
+      leadScore = await loadLeadScore(supabase, id, user.id)
+    }
+
+    return createSuccessResponse(leadScore)
+
+  } catch (error) {
+    console.error('Get lead score error:', error)
+    return handleApiError(error)
+  }
+})
+
+// POST /api/contacts/[id]/lead-score - Recompute the lead score now
+export const POST = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const supabase = createServerSupabaseClient()
+
+    await recalculateLeadScores(supabase, user.id, [id])
+    const leadScore = await loadLeadScore(supabase, id, user.id)
+    if (!leadScore) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    return createSuccessResponse(leadScore)
+
+  } catch (error) {
+    console.error('Recalculate lead score error:', error)
+    return handleApiError(error)
+  }
+})
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { ContactService } from '@/lib/contacts'
 import { updateContactSchema } from '@/lib/validations'
+import { CustomFieldValidationError } from '@/lib/custom-fields'
 
 // PUT /api/contacts/[id] - Update a single contact
 export async function PUT(request: NextRequest, ctx: { params: { id: string } }) {
@@ -39,6 +40,9 @@ export async function PUT(request: NextRequest, ctx: { params: { id: string } })
 
   } catch (error: any) {
     console.error('Contact update error:', error)
+    if (error instanceof CustomFieldValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
     return NextResponse.json({ 
       success: false, 
       error: error.message || 'Failed to update contact' 
@@ -18,7 +18,8 @@ export async function POST(request: NextRequest) {
       validatedData.contacts,
       {
         skipDuplicates: validatedData.skip_duplicates,
-        validateEmails: validatedData.validate_emails
+        validateEmails: validatedData.validate_emails,
+        excludeEmailStatuses: validatedData.exclude_email_statuses
       }
     )
 
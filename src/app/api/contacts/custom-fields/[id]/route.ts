@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  CustomFieldValidationError,
+  deleteCustomFieldDefinition,
+  updateCustomFieldDefinition,
+} from '@/lib/custom-fields'
+import { updateCustomFieldDefinitionSchema } from '@/lib/validations'
+
+// PUT /api/contacts/custom-fields/[id] - Change the label, options or order of a custom field
+export const PUT = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const parsed = updateCustomFieldDefinitionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid custom field', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const field = await updateCustomFieldDefinition(createServerSupabaseClient(), user.id, id, parsed.data)
+    if (!field) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+    }
+
+    return createSuccessResponse({ field })
+
+  } catch (error) {
+    if (error instanceof CustomFieldValidationError) {
+      return NextResponse.json({ error: error.issues.join('; '), details: error.issues }, { status: 400 })
+    }
+    console.error('Update custom field error:', error)
+    return handleApiError(error)
+  }
+})
+
+// DELETE /api/contacts/custom-fields/[id] - Remove a definition; stored values are kept untyped
+export const DELETE = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+    const deleted = await deleteCustomFieldDefinition(createServerSupabaseClient(), user.id, id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+    }
+
+    return createSuccessResponse({ deleted: true })
+
+  } catch (error) {
+    console.error('Delete custom field error:', error)
+    return handleApiError(error)
+  }
+})
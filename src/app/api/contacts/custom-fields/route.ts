@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  CustomFieldValidationError,
+  createCustomFieldDefinition,
+  listCustomFieldDefinitions,
+  type CustomFieldDefinitionInput,
+} from '@/lib/custom-fields'
+import { customFieldDefinitionSchema } from '@/lib/validations'
+
+// GET /api/contacts/custom-fields - The user's custom field definitions
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const fields = await listCustomFieldDefinitions(createServerSupabaseClient(), user.id)
+    return createSuccessResponse({ fields })
+
+  } catch (error) {
+    console.error('List custom fields error:', error)
+    return handleApiError(error)
+  }
+})
+
+// POST /api/contacts/custom-fields - Define a custom field
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const parsed = customFieldDefinitionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid custom field', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const field = await createCustomFieldDefinition(
+      createServerSupabaseClient(),
+      user.id,
+      parsed.data as CustomFieldDefinitionInput
+    )
+    return createSuccessResponse({ field }, 201)
+
+  } catch (error) {
+    if (error instanceof CustomFieldValidationError) {
+      return NextResponse.json({ error: error.issues.join('; '), details: error.issues }, { status: 400 })
+    }
+    console.error('Create custom field error:', error)
+    return handleApiError(error)
+  }
+})
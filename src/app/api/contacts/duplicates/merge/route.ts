@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { ContactService } from '@/lib/contacts'
+import { mergeContactClustersSchema } from '@/lib/validations'
+
+// POST /api/contacts/duplicates/merge - Merge one or more duplicate clusters
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const parsed = mergeContactClustersSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid merge request', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const contactService = new ContactService()
+    const merged = []
+    const failed = []
+
+    // Clusters are independent; one failing merge should not block the others
+    for (const merge of parsed.data.merges) {
+      try {
+        const result = await contactService.mergeContactCluster(
+          user.id,
+          merge.primary_contact_id,
+          merge.duplicate_contact_ids,
+          merge.field_resolutions
+        )
+        merged.push({
+          primary_contact_id: merge.primary_contact_id,
+          merged_contact_ids: result.mergedContactIds,
+          summary: result.summary
+        })
+      } catch (error) {
+        failed.push({
+          primary_contact_id: merge.primary_contact_id,
+          error: error instanceof Error ? error.message : 'Merge failed'
+        })
+      }
+    }
+
+    return createSuccessResponse({ merged, failed })
+
+  } catch (error) {
+    console.error('Merge duplicate contacts error:', error)
+    return handleApiError(error)
+  }
+})
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { ContactService } from '@/lib/contacts'
+
+// GET /api/contacts/duplicates - Clusters of likely duplicate contacts with their field conflicts
+export const GET = withAuth(async (_request: NextRequest, user) => {
+  try {
+    const contactService = new ContactService()
+    const { clusters, skippedBlocks } = await contactService.findDuplicateClusters(user.id)
+
+    return createSuccessResponse({
+      clusters,
+      total_clusters: clusters.length,
+      total_duplicates: clusters.reduce((sum, cluster) => sum + cluster.contacts.length - 1, 0),
+      skipped_blocks: skippedBlocks
+    })
+
+  } catch (error) {
+    console.error('Find duplicate contacts error:', error)
+    return handleApiError(error)
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getImportJob } from '@/lib/contact-import-jobs'
+
+/**
+ * GET /api/contacts/import/[job_id]
+ * Progress of a background contact import
+ */
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ job_id: string }> }) => {
+  try {
+    const { job_id: jobId } = await params
+    const job = await getImportJob(createServerSupabaseClient(), user.id, jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      )
+    }
+
+    return createSuccessResponse({
+      id: job.id,
+      status: job.status,
+      fileName: job.file_name,
+      format: job.format,
+      dialect: job.dialect,
+      sheet: job.sheet_name,
+      totalRows: job.total_rows,
+      processedRows: job.processed_rows,
+      created: job.created_count,
+      skipped: job.skipped_count,
+      errorCount: job.error_count,
+      errors: job.errors,
+      validationSummary: job.validation_summary,
+      error: job.error,
+      completedAt: job.completed_at
+    })
+
+  } catch (error) {
+    console.error('Import job status error:', error)
+    return handleApiError(error)
+  }
+})
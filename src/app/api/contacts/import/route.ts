@@ -1,90 +1,96 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
-import { ContactService } from '@/lib/contacts'
-import { CSVParser } from '@/lib/csv-parser'
+import { CSVParser, type FieldMapping } from '@/lib/csv-parser'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  detectImportFormat,
+  parseImportFile,
+  readCsvRowBatches,
+  type CsvDialect,
+  type ImportFileFormat,
+} from '@/lib/contact-import-formats'
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  IMPORT_CHUNK_SIZE,
+  createImportJob,
+  failImportJob,
+  runContactImportQueue,
+  stageImportRows,
+  startImportJob,
+  type ContactImportOptions,
+} from '@/lib/contact-import-jobs'
+import { CUSTOM_FIELD_MAPPING_PREFIX, customFieldKey, listCustomFieldDefinitions } from '@/lib/custom-fields'
 
+export const maxDuration = 60
+
+/**
+ * Check the uploaded file's type and size. Returns an error response, or the detected format.
+ */
+function checkImportFile(file: File | null): NextResponse | ImportFileFormat {
+  if (!file) {
+    return NextResponse.json(
+      { error: 'No file provided' },
+      { status: 400 }
+    )
+  }
+
+  const format = detectImportFormat(file.name)
+  if (!format) {
+    return NextResponse.json(
+      { error: 'Unsupported file type. Upload a CSV, Excel (.xlsx) or vCard (.vcf) file' },
+      { status: 400 }
+    )
+  }
+
+  if (file.size > MAX_IMPORT_FILE_SIZE[format]) {
+    return NextResponse.json(
+      { error: `File size must be less than ${MAX_IMPORT_FILE_SIZE[format] / (1024 * 1024)}MB` },
+      { status: 400 }
+    )
+  }
+
+  return format
+}
+
+/**
+ * Start a background import. The file is read and its rows are staged in chunks;
+ * the contact_import queue then imports them while the client polls
+ * /api/contacts/import/[job_id] for progress.
+ */
 export const POST = withAuth(async (request: NextRequest, user) => {
+  let jobId: string | null = null
+  const supabase = createServerSupabaseClient()
+
   try {
 
     const formData = await request.formData()
-    const file = formData.get('file') as File
+    const file = formData.get('file') as File | null
     const mappingsJson = formData.get('mappings') as string
     const options = formData.get('options') as string
+    const sheet = (formData.get('sheet') as string) || null
 
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      )
-    }
-
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      return NextResponse.json(
-        { error: 'Only CSV files are supported' },
-        { status: 400 }
-      )
-    }
-
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      return NextResponse.json(
-        { error: 'File size must be less than 10MB' },
-        { status: 400 }
-      )
-    }
-
-    // Parse CSV content
-    const csvContent = await file.text()
-    const delimiter = CSVParser.detectDelimiter(csvContent)
-    const parseResult = CSVParser.parseCSV(csvContent, { 
-      delimiter,
-      maxRows: 10000 // Limit to prevent memory issues
-    })
-
-    if (parseResult.errors.length > 0 && parseResult.rows.length === 0) {
-      return NextResponse.json(
-        { error: 'Failed to parse CSV file. Please check the format.' },
-        { status: 400 }
-      )
+    const format = checkImportFile(file)
+    if (format instanceof NextResponse) {
+      return format
     }
 
     // Parse field mappings if provided
-    let fieldMappings = []
+    let providedMappings: FieldMapping[] | null = null
     if (mappingsJson) {
       try {
-        fieldMappings = JSON.parse(mappingsJson)
+        providedMappings = JSON.parse(mappingsJson)
       } catch (error) {
         return NextResponse.json(
           { error: 'Invalid field mappings format' },
           { status: 400 }
         )
       }
-    } else {
-      // Auto-detect field mappings
-      fieldMappings = CSVParser.detectFieldMappings(parseResult.headers)
     }
 
-    // Validate field mappings
-    const mappingErrors = CSVParser.validateFieldMappings(fieldMappings)
-    if (mappingErrors.length > 0) {
-      return NextResponse.json(
-        { 
-          error: 'Invalid field mappings',
-          details: mappingErrors
-        },
-        { status: 400 }
-      )
-    }
-
-    // Transform CSV rows to contacts
-    const transformResults = CSVParser.transformRowsToContacts(parseResult.rows, fieldMappings)
-    
     // Parse import options
-    let importOptions = {
-      skipDuplicates: true,
-      validateEmails: true,
-      importInvalidContacts: false
-    }
-    
+    let importOptions: ContactImportOptions = { ...DEFAULT_IMPORT_OPTIONS }
     if (options) {
       try {
         importOptions = { ...importOptions, ...JSON.parse(options) }
@@ -93,99 +99,179 @@ export const POST = withAuth(async (request: NextRequest, user) => {
       }
     }
 
-    // Filter contacts based on options
-    let contactsToImport = transformResults
-    if (!importOptions.importInvalidContacts) {
-      contactsToImport = transformResults.filter(result => result.errors.length === 0)
+    // Auto-detect field mappings unless provided, and create the job once headers are known
+    const openJob = async (headers: string[], dialect: CsvDialect, sheetName: string | null) => {
+      const fieldMappings = providedMappings || CSVParser.detectFieldMappings(headers)
+      const mappingErrors = CSVParser.validateFieldMappings(fieldMappings)
+      if (mappingErrors.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Invalid field mappings',
+            details: mappingErrors
+          },
+          { status: 400 }
+        )
+      }
+
+      const job = await createImportJob(supabase, user.id, {
+        fileName: file!.name,
+        format,
+        dialect,
+        sheet: sheetName,
+        fieldMappings,
+        options: importOptions
+      })
+      jobId = job.id
+      return null
     }
 
-    const validContacts = contactsToImport.map(result => result.contact)
-
-    // Import contacts using the ContactService
-    const contactService = new ContactService()
-    const importResult = await contactService.bulkCreateContacts(
-      user.id,
-      validContacts,
-      {
-        skipDuplicates: importOptions.skipDuplicates,
-        validateEmails: importOptions.validateEmails,
-        source: `import:${file.name}` // Use filename as source
+    let totalRows = 0
+    let dialect: CsvDialect = 'generic'
+
+    if (format === 'csv') {
+      // CSV is streamed so large exports never sit in memory as a whole
+      for await (const batch of readCsvRowBatches(file!.stream(), { batchSize: IMPORT_CHUNK_SIZE })) {
+        if (!jobId) {
+          dialect = batch.dialect
+          const mappingError = await openJob(batch.headers, batch.dialect, null)
+          if (mappingError) return mappingError
+        }
+        await stageImportRows(supabase, jobId!, totalRows + 1, batch.rows)
+        totalRows += batch.rows.length
       }
-    )
+    } else {
+      const parsed = parseImportFile(Buffer.from(await file!.arrayBuffer()), format, { sheet })
 
-    // Combine results with transformation errors
-    const transformErrors = transformResults
-      .filter(result => result.errors.length > 0)
-      .map(result => ({
-        row: result.rowIndex + 2, // +2 because CSV is 1-indexed and has header
-        error: result.errors.join(', '),
-        data: result.contact
-      }))
-
-    const finalResult = {
-      ...importResult,
-      errors: [...importResult.errors, ...transformErrors],
-      processingStats: {
-        totalRows: parseResult.totalRows,
-        validRows: transformResults.filter(r => r.errors.length === 0).length,
-        invalidRows: transformResults.filter(r => r.errors.length > 0).length,
-        parseErrors: parseResult.errors.length
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        return NextResponse.json(
+          { error: parsed.errors[0]?.error || 'No contacts found in file' },
+          { status: 400 }
+        )
       }
+
+      dialect = parsed.dialect
+      const mappingError = await openJob(parsed.headers, parsed.dialect, parsed.sheet)
+      if (mappingError) return mappingError
+
+      for (let i = 0; i < parsed.rows.length; i += IMPORT_CHUNK_SIZE) {
+        await stageImportRows(supabase, jobId!, i + 1, parsed.rows.slice(i, i + IMPORT_CHUNK_SIZE))
+      }
+      totalRows = parsed.rows.length
     }
 
-    return createSuccessResponse(finalResult)
+    if (!jobId || totalRows === 0) {
+      if (jobId) await failImportJob(supabase, jobId, 'No contacts found in file')
+      return NextResponse.json(
+        { error: 'No contacts found in file. Please check the format.' },
+        { status: 400 }
+      )
+    }
+
+    await startImportJob(supabase, jobId, totalRows)
+
+    // Start importing right away; the contact import cron picks up anything left over
+    after(async () => {
+      try {
+        await runContactImportQueue(createServerSupabaseClient())
+      } catch (error) {
+        console.error('Contact import processing error:', error)
+      }
+    })
+
+    return createSuccessResponse({
+      job_id: jobId,
+      total_rows: totalRows,
+      truncated: totalRows >= MAX_IMPORT_ROWS,
+      format,
+      dialect
+    })
 
   } catch (error) {
-    console.error('CSV import error:', error)
-    return handleApiError(error, 'CSV import failed')
+    console.error('Contact import error:', error)
+    if (jobId) {
+      await failImportJob(supabase, jobId, error instanceof Error ? error.message : 'Import failed')
+    }
+    return handleApiError(error)
   }
 })
 
-// Handle CSV preview without importing
+// Handle file preview without importing
 export const PUT = withAuth(async (request: NextRequest, user) => {
   try {
 
     const formData = await request.formData()
-    const file = formData.get('file') as File
+    const file = formData.get('file') as File | null
+    const sheet = (formData.get('sheet') as string) || null
 
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      )
+    const format = checkImportFile(file)
+    if (format instanceof NextResponse) {
+      return format
     }
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      return NextResponse.json(
-        { error: 'Only CSV files are supported' },
-        { status: 400 }
-      )
+    let parseResult: {
+      headers: string[]
+      rows: Record<string, string>[]
+      totalRows: number
+      errors: Array<{ row: number; error: string }>
+      dialect: CsvDialect
+      sheets: string[]
+      sheet: string | null
+      delimiter: string | null
     }
 
-    // Parse CSV content for preview
-    const csvContent = await file.text()
-    const delimiter = CSVParser.detectDelimiter(csvContent)
-    const parseResult = CSVParser.parseCSV(csvContent, { 
-      delimiter,
-      maxRows: 100 // Limit for preview
-    })
+    if (format === 'csv') {
+      // Only the first rows are read for the preview
+      const batches = readCsvRowBatches(file!.stream(), { batchSize: 100, maxRows: 100 })
+      const { value: first } = await batches.next()
+      await batches.return(undefined)
 
-    if (parseResult.errors.length > 0 && parseResult.rows.length === 0) {
+      parseResult = {
+        headers: first?.headers || [],
+        rows: first?.rows || [],
+        totalRows: first?.rows.length || 0,
+        errors: [],
+        dialect: first?.dialect || 'generic',
+        sheets: [],
+        sheet: null,
+        delimiter: first?.delimiter || null
+      }
+    } else {
+      const parsed = parseImportFile(Buffer.from(await file!.arrayBuffer()), format, { sheet, maxRows: 100 })
+      parseResult = { ...parsed, delimiter: null }
+    }
+
+    if (parseResult.headers.length === 0 || parseResult.rows.length === 0) {
       return NextResponse.json(
-        { error: 'Failed to parse CSV file. Please check the format.' },
+        { error: parseResult.errors[0]?.error || 'Failed to parse file. Please check the format.' },
         { status: 400 }
       )
     }
 
     // Auto-detect field mappings
     const fieldMappings = CSVParser.detectFieldMappings(parseResult.headers)
-    
+
+    // Columns named like one of the user's custom fields map to it
+    const customFields = await listCustomFieldDefinitions(createServerSupabaseClient(), user.id)
+    const mappedHeaders = new Set(fieldMappings.map(mapping => mapping.csvField).filter(Boolean))
+    for (const header of parseResult.headers) {
+      if (mappedHeaders.has(header)) continue
+      const field = customFields.find(definition => definition.key === customFieldKey(header))
+      if (field) {
+        fieldMappings.push({
+          csvField: header,
+          contactField: `${CUSTOM_FIELD_MAPPING_PREFIX}${field.key}`,
+          required: false,
+          confidence: 1
+        })
+      }
+    }
+
     // Get sample data for preview
     const sampleData = CSVParser.getSampleData(parseResult.rows, 10)
-    
+
     // Transform sample data to show preview
-    const previewResults = CSVParser.transformRowsToContacts(sampleData, fieldMappings)
-    
+    const previewResults = CSVParser.transformRowsToContacts(sampleData, fieldMappings, customFields)
+
     return createSuccessResponse({
       headers: parseResult.headers,
       sampleRows: sampleData,
@@ -193,11 +279,16 @@ export const PUT = withAuth(async (request: NextRequest, user) => {
       previewContacts: previewResults,
       totalRows: parseResult.totalRows,
       parseErrors: parseResult.errors,
-      detectedDelimiter: delimiter
+      detectedDelimiter: parseResult.delimiter,
+      format,
+      dialect: parseResult.dialect,
+      sheets: parseResult.sheets,
+      selectedSheet: parseResult.sheet,
+      customFields
     })
 
   } catch (error) {
-    console.error('CSV preview error:', error)
-    return handleApiError(error, 'CSV preview failed')
+    console.error('Import preview error:', error)
+    return handleApiError(error)
   }
-})
\ No newline at end of file
+})
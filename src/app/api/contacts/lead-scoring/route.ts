@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  DEFAULT_LEAD_SCORING_MODEL,
+  getLeadScoringModel,
+  saveLeadScoringModel,
+  type LeadScoringModel,
+} from '@/lib/lead-scoring'
+import { leadScoringModelSchema } from '@/lib/validations'
+
+// GET /api/contacts/lead-scoring - Get the user's lead scoring model
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const model = await getLeadScoringModel(createServerSupabaseClient(), user.id)
+    return createSuccessResponse({ model, defaultModel: DEFAULT_LEAD_SCORING_MODEL })
+
+  } catch (error) {
+    console.error('Get lead scoring model error:', error)
+    return handleApiError(error)
+  }
+})
+
+// PUT /api/contacts/lead-scoring - Save the model; all contacts are rescored in the background
+export const PUT = withAuth(async (request: NextRequest, user) => {
+  try {
+    const parsed = leadScoringModelSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid lead scoring model', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const model = await saveLeadScoringModel(createServerSupabaseClient(), user.id, parsed.data as LeadScoringModel)
+    return createSuccessResponse({ model })
+
+  } catch (error) {
+    console.error('Save lead scoring model error:', error)
+    return handleApiError(error)
+  }
+})
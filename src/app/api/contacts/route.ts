@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
 import { ContactService } from '@/lib/contacts'
 import { contactSchema } from '@/lib/validations'
+import { CustomFieldValidationError } from '@/lib/custom-fields'
 
 export const GET = withAuth(async (request: NextRequest, user) => {
   try {
@@ -75,6 +76,10 @@ export const POST = withAuth(async (request: NextRequest, user) => {
         { status: 409 } // Conflict
       )
     }
+
+    if (error instanceof CustomFieldValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 400 })
+    }
     
     return handleApiError(error)
   }
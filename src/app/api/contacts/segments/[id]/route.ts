@@ -1,95 +1,98 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient } from '@/lib/supabase'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ContactSegmentationService, toSegmentResponse } from '@/lib/contact-segmentation'
+import { SegmentRuleValidationError, segmentRulesFromInput } from '@/lib/segment-rules'
+import { updateContactSegmentSchema } from '@/lib/validations'
 
 // GET /api/contacts/segments/[id] - Get a specific segment
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
+    const { id } = await params
     const supabase = createServerSupabaseClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
 
     // Handle special "all-contacts" segment
-    if (params.id === 'all-contacts') {
-      return NextResponse.json({
-        success: true,
-        data: {
-          id: 'all-contacts',
-          name: 'All Contacts',
-          description: 'All contacts in your database',
-          contactCount: 100,
-          createdAt: new Date().toISOString()
-        }
+    if (id === 'all-contacts') {
+      const { count, error } = await supabase
+        .from('contacts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+
+      if (error) throw error
+
+      return createSuccessResponse({
+        id: 'all-contacts',
+        name: 'All Contacts',
+        description: 'All contacts in your database',
+        contactCount: count || 0
       })
     }
 
-    // Get segment from database
-    const { data: segment, error: segmentError } = await supabase
-      .from('contact_segments')
-      .select('*')
-      .eq('id', params.id)
-      .eq('user_id', user.id)
-      .single()
-
-    if (segmentError || !segment) {
+    const segment = await new ContactSegmentationService(supabase).getSegment(id, user.id)
+    if (!segment) {
       return NextResponse.json({ error: 'Segment not found' }, { status: 404 })
     }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        id: segment.id,
-        name: segment.name,
-        description: segment.description,
-        contactCount: segment.contact_count,
-        createdAt: segment.created_at,
-        filterCriteria: segment.conditions
-      }
-    })
+    return createSuccessResponse(toSegmentResponse(segment))
 
   } catch (error) {
     console.error('Get segment error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleApiError(error)
   }
-}
+})
 
-// DELETE /api/contacts/segments/[id] - Delete a segment
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// PATCH /api/contacts/segments/[id] - Rename a segment or change its rules
+export const PATCH = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const supabase = createServerSupabaseClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await params
+    if (id === 'all-contacts') {
+      return NextResponse.json({ error: 'Cannot edit default segment' }, { status: 400 })
     }
 
-    // Don't allow deleting the default "all-contacts" segment
-    if (params.id === 'all-contacts') {
-      return NextResponse.json({ error: 'Cannot delete default segment' }, { status: 400 })
+    const parsed = updateContactSegmentSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0]?.message || 'Invalid segment', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const segment = await new ContactSegmentationService(createServerSupabaseClient()).updateSegment(id, user.id, {
+      name: parsed.data.name,
+      description: parsed.data.description,
+      rules: segmentRulesFromInput(parsed.data),
+      is_dynamic: parsed.data.isDynamic,
+    })
+
+    if (!segment) {
+      return NextResponse.json({ error: 'Segment not found' }, { status: 404 })
     }
 
-    // Delete from database
-    const { error: deleteError } = await supabase
-      .from('contact_segments')
-      .delete()
-      .eq('id', params.id)
-      .eq('user_id', user.id)
+    return createSuccessResponse(toSegmentResponse(segment))
 
-    if (deleteError) {
-      console.error('Error deleting segment:', deleteError)
-      return NextResponse.json({ error: 'Failed to delete segment' }, { status: 500 })
+  } catch (error) {
+    if (error instanceof SegmentRuleValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
     }
+    console.error('Update segment error:', error)
+    return handleApiError(error)
+  }
+})
+
+// DELETE /api/contacts/segments/[id] - Delete a segment
+export const DELETE = withAuth(async (request: NextRequest, user, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id } = await params
+
+    // Don't allow deleting the default "all-contacts" segment
+    if (id === 'all-contacts') {
+      return NextResponse.json({ error: 'Cannot delete default segment' }, { status: 400 })
+    }
+
+    await new ContactSegmentationService(createServerSupabaseClient()).deleteSegment(id, user.id)
 
     return NextResponse.json({
       success: true,
@@ -98,9 +101,6 @@ export async function DELETE(
 
   } catch (error) {
     console.error('Delete segment error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleApiError(error)
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ContactSegmentationService } from '@/lib/contact-segmentation'
+import { SegmentRuleValidationError, segmentRulesFromInput } from '@/lib/segment-rules'
+import { segmentPreviewSchema } from '@/lib/validations'
+
+/**
+ * POST /api/contacts/segments/preview
+ * Count the contacts matching rules ({ rules } or { filterCriteria }) before the segment is saved
+ */
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const parsed = segmentPreviewSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid segment rules', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const segmentService = new ContactSegmentationService(createServerSupabaseClient())
+    const contactCount = await segmentService.countMatchingContacts(
+      user.id,
+      segmentRulesFromInput(parsed.data) ?? { type: 'group', logic: 'AND', children: [] }
+    )
+
+    return createSuccessResponse({ contactCount })
+
+  } catch (error) {
+    if (error instanceof SegmentRuleValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('Segment preview error:', error)
+    return handleApiError(error)
+  }
+})
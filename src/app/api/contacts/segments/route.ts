@@ -1,46 +1,37 @@
-import { NextRequest } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, createSuccessResponse, handleApiError } from '@/lib/api-auth'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { ContactSegmentationService, toSegmentResponse } from '@/lib/contact-segmentation'
+import { SegmentRuleValidationError, segmentRulesFromInput } from '@/lib/segment-rules'
+import { contactSegmentSchema } from '@/lib/validations'
 
 export const GET = withAuth(async (request: NextRequest, user) => {
   try {
-    const supabase = await createServerSupabaseClient()
+    const supabase = createServerSupabaseClient()
+    const segmentService = new ContactSegmentationService(supabase)
 
-    // Get segments from database
-    const { data: segments, error: segmentsError } = await supabase
-      .from('contact_segments')
-      .select(`
-        id,
-        name,
-        description,
-        conditions,
-        contact_count,
-        created_at
-      `)
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
+    const [segments, { count: totalContacts, error: countError }] = await Promise.all([
+      segmentService.getUserSegments(user.id),
+      supabase
+        .from('contacts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id),
+    ])
 
-    if (segmentsError) {
-      console.error('Error fetching segments:', segmentsError)
+    if (countError) {
+      console.error('Error counting contacts:', countError)
       return NextResponse.json({ error: 'Failed to fetch segments' }, { status: 500 })
     }
 
-    // Add default "All Contacts" segment if no segments exist
+    // Default "All Contacts" segment first
     const allSegments = [
       {
         id: 'all-contacts',
         name: 'All Contacts',
         description: 'All contacts in your database',
-        contactCount: 100 // Based on our populated data
+        contactCount: totalContacts || 0
       },
-      ...(segments || []).map(segment => ({
-        id: segment.id,
-        name: segment.name,
-        description: segment.description,
-        contactCount: segment.contact_count,
-        createdAt: segment.created_at,
-        filterCriteria: segment.conditions
-      }))
+      ...segments.map(toSegmentResponse)
     ]
 
     return createSuccessResponse(allSegments)
@@ -53,60 +44,35 @@ export const GET = withAuth(async (request: NextRequest, user) => {
 
 export const POST = withAuth(async (request: NextRequest, user) => {
   try {
-    const supabase = await createServerSupabaseClient()
-
-    const body = await request.json()
-    const { name, description, filterCriteria } = body
-
-    // Validate required fields
-    if (!name) {
+    const parsed = contactSegmentSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Segment name is required' },
+        { error: parsed.error.errors[0]?.message || 'Invalid segment', details: parsed.error.errors },
         { status: 400 }
       )
     }
 
-    // Calculate estimated contact count based on filters
-    let estimatedCount = 100 // Base count from our populated data
-    if (filterCriteria?.company) estimatedCount = Math.floor(estimatedCount * 0.3)
-    if (filterCriteria?.jobTitle) estimatedCount = Math.floor(estimatedCount * 0.4)
-    if (filterCriteria?.location) estimatedCount = Math.floor(estimatedCount * 0.6)
-    if (filterCriteria?.industry) estimatedCount = Math.floor(estimatedCount * 0.5)
-    if (filterCriteria?.addedAfter) estimatedCount = Math.floor(estimatedCount * 0.2)
-    estimatedCount = Math.max(estimatedCount, 5)
-
-    // Save to database
-    const { data: segment, error: segmentError } = await supabase
-      .from('contact_segments')
-      .insert({
-        user_id: user.id,
-        name,
-        description: description || '',
-        conditions: filterCriteria || {},
-        contact_count: estimatedCount
-      })
-      .select()
-      .single()
+    const { name, description, isDynamic } = parsed.data
+    const segmentService = new ContactSegmentationService(createServerSupabaseClient())
 
-    if (segmentError) {
-      console.error('Error creating segment:', segmentError)
-      return NextResponse.json({ error: 'Failed to create segment' }, { status: 500 })
-    }
-
-    // Return the created segment
-    const responseSegment = {
-      id: segment.id,
-      name: segment.name,
-      description: segment.description,
-      contactCount: segment.contact_count,
-      createdAt: segment.created_at,
-      filterCriteria: segment.conditions
-    }
+    // Without rules or filters the segment holds all contacts
+    const segment = await segmentService.createSegment(user.id, {
+      name,
+      description,
+      rules: segmentRulesFromInput(parsed.data) ?? { type: 'group', logic: 'AND', children: [] },
+      is_dynamic: isDynamic,
+    })
 
-    return createSuccessResponse(responseSegment, 201)
+    return createSuccessResponse(toSegmentResponse(segment), 201)
 
   } catch (error) {
+    if (error instanceof SegmentRuleValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
     console.error('Error creating contact segment:', error)
     return handleApiError(error)
   }
-})
\ No newline at end of file
+})
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { ContactSegmentationService } from '@/lib/contact-segmentation'
+import { listCustomFieldDefinitions } from '@/lib/custom-fields'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
 
 // GET /api/contacts/segments/templates - Get segment templates and field info
 export async function GET(request: NextRequest) {
@@ -17,7 +19,8 @@ export async function GET(request: NextRequest) {
     const type = url.searchParams.get('type') // 'templates' or 'fields'
 
     if (type === 'fields') {
-      const fields = ContactSegmentationService.getAvailableFields()
+      const customFields = await listCustomFieldDefinitions(createServerSupabaseClient(), user.id)
+      const fields = ContactSegmentationService.getAvailableFields(customFields)
       return NextResponse.json({
         success: true,
         data: fields
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { addSecurityHeaders } from '@/lib/auth-middleware'
 import { IMAPProcessor } from '@/lib/imap-processor'
+import { enqueueJob, runJobQueue } from '@/lib/job-queue'
 
 // Configure function to run up to 60 seconds (Vercel limit)
 export const maxDuration = 60 // seconds
@@ -283,44 +284,70 @@ export async function POST(request: NextRequest) {
       throw new Error(`Failed to fetch accounts: ${accountsError.message}`)
     }
 
+    for (const account of accounts || []) {
+      await enqueueJob(supabase, 'imap_sync', { emailAccountId: account.id, syncSent }, {
+        dedupeKey: `imap_sync:${account.id}`,
+        maxAttempts: 3
+      })
+    }
+
+    const accountsById = new Map((accounts || []).map((account) => [account.id, account]))
     const results = []
     let totalNewEmails = 0
 
-    for (const account of accounts || []) {
-      try {
-        let result
-        if (account.provider === 'gmail' && account.access_token) {
-          result = await syncGmailAccount(supabase, account, syncSent)
-        } else if (account.provider === 'gmail' && !account.access_token) {
-          result = await syncImapAccount(supabase, account, syncSent)
-        } else if (account.provider === 'smtp' || account.provider === 'gmail-imap-smtp') {
-          result = await syncImapAccount(supabase, account, syncSent)
-        } else {
+    // Each account sync is a leased job, so overlapping cron runs never sync the same mailbox twice
+    const queueResult = await runJobQueue<{ emailAccountId: string; syncSent: boolean }>(
+      supabase,
+      'imap_sync',
+      async (job) => {
+        const account = accountsById.get(job.payload.emailAccountId) || (await supabase
+          .from('email_accounts')
+          .select('*')
+          .eq('id', job.payload.emailAccountId)
+          .single()).data
+
+        if (!account) {
+          return
+        }
+
+        try {
+          let result
+          if (account.provider === 'gmail' && account.access_token) {
+            result = await syncGmailAccount(supabase, account, job.payload.syncSent)
+          } else if (account.provider === 'gmail' && !account.access_token) {
+            result = await syncImapAccount(supabase, account, job.payload.syncSent)
+          } else if (account.provider === 'smtp' || account.provider === 'gmail-imap-smtp') {
+            result = await syncImapAccount(supabase, account, job.payload.syncSent)
+          } else {
+            results.push({
+              success: false,
+              account: account.email,
+              error: `Provider ${account.provider} not supported by cron`
+            })
+            return
+          }
+
+          results.push(result)
+          totalNewEmails += (result.newEmails || 0) + (result.newSentEmails || 0)
+        } catch (error: any) {
           results.push({
             success: false,
             account: account.email,
-            error: `Provider ${account.provider} not supported by cron`
+            error: error.message
           })
-          continue
+          throw error
         }
-
-        results.push(result)
-        totalNewEmails += (result.newEmails || 0) + (result.newSentEmails || 0)
-      } catch (error: any) {
-        results.push({
-          success: false,
-          account: account.email,
-          error: error.message
-        })
-      }
-    }
+      },
+      { limit: 50, visibilityTimeoutSeconds: 120 }
+    )
 
     const result = {
       totalAccounts: accounts?.length || 0,
       successfulAccounts: results.filter(r => r.success).length,
       failedAccounts: results.filter(r => !r.success).length,
       totalNewEmails,
-      results
+      results,
+      errors: queueResult.errors
     }
 
     console.log(`✅ Cron: Fetched ${result.totalNewEmails} new emails from ${result.successfulAccounts}/${result.totalAccounts} accounts`)
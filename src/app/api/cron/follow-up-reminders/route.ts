@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { runFollowUpReminders } from '@/lib/follow-up-reminders'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cron/follow-up-reminders
+ * Fires "remind me if no reply" reminders that are due: reopens the
+ * conversation with the follow-up label and drafts a nudge with the mailbox's
+ * persona. Also wakes snoozed conversations whose snooze time has passed.
+ *
+ * Recommended schedule: every 15 minutes
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request - invalid or missing CRON_SECRET')
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const result = await runFollowUpReminders(supabase)
+
+    if (result.errors.length > 0) {
+      console.error('⚠️ Cron: Errors occurred while processing follow-up reminders:', result.errors)
+    }
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: result,
+      message: `Fired ${result.fired} of ${result.due} due reminder(s), ${result.replied} already answered; woke ${result.woken} snoozed conversation(s)`,
+      timestamp: new Date().toISOString(),
+    }))
+
+  } catch (error) {
+    console.error('❌ Cron: Error processing follow-up reminders:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { getQueueStats, requeueDeadJob } from '@/lib/job-queue'
+
+export const dynamic = 'force-dynamic'
+
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  return !cronSecret || request.headers.get('authorization') === `Bearer ${cronSecret}`
+}
+
+/**
+ * GET /api/cron/job-queue
+ * Live job counts per queue and the most recent dead-lettered jobs
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createServerSupabaseClient()
+    const stats = await getQueueStats(supabase)
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: stats,
+      timestamp: new Date().toISOString(),
+    }))
+  } catch (error) {
+    console.error('❌ Error loading job queue stats:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/cron/job-queue
+ * Body: { action: 'requeue', jobId } moves a dead-lettered job back onto its queue
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, { status: 401 })
+  }
+
+  try {
+    const { action, jobId } = await request.json()
+
+    if (action !== 'requeue' || typeof jobId !== 'string') {
+      return NextResponse.json({
+        error: 'Expected { action: "requeue", jobId }',
+        code: 'VALIDATION_ERROR',
+      }, { status: 400 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    await requeueDeadJob(supabase, jobId)
+
+    return addSecurityHeaders(NextResponse.json({ success: true, message: `Job ${jobId} requeued` }))
+  } catch (error) {
+    console.error('❌ Error requeueing job:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 })
+  }
+}
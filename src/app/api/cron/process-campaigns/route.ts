@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { enqueueJob } from '@/lib/job-queue'
 
 /**
  * Universal Cron Job Endpoint for Processing Campaigns
@@ -11,10 +12,11 @@ import { createClient } from '@supabase/supabase-js'
  *
  * Processes TWO types of campaigns:
  * 1. 'scheduled' campaigns → Updates to 'sending' when ready
- * 2. 'sending' campaigns → Processes stuck campaigns directly
+ * 2. 'sending' campaigns → Queued for sending again
  *
- * This fixes the workflow gap where 'sending' campaigns weren't being processed
- * by Docker cron jobs, ensuring scheduled Gmail campaigns work properly.
+ * Each campaign is queued as a campaign_send job and the queue is drained here.
+ * Jobs are leased, so overlapping cron runs never send the same campaign twice
+ * and a job whose worker died becomes claimable again once its lease expires.
  *
  * Security: Uses CRON_SECRET environment variable to verify legitimate requests
  * Authentication: Uses Supabase service role key (no user authentication needed)
@@ -155,48 +157,22 @@ export async function GET(request: NextRequest) {
           console.log(`🔄 Campaign ${campaign.name} already in 'sending' status - will process directly`)
         }
 
-        // Trigger campaign processor - use regular processor for batch functionality
-        try {
-          // Import the regular campaign processor (has batch scheduling logic)
-          const { CampaignProcessor } = await import('@/lib/campaign-processor')
-          const processor = CampaignProcessor.getInstance()
-
-          // Process this specific campaign
-          console.log(`🚀 Processing campaign ${campaign.name} with batch-enabled processor`)
+        // Queue the send; the worker below leases it so overlapping cron runs never double-send
+        const job = await enqueueJob(supabase, 'campaign_send', { campaignId: campaign.id }, {
+          dedupeKey: `campaign:${campaign.id}`,
+          maxAttempts: 3
+        })
 
-          // Wait for the processor to complete (instead of background processing)
-          // This ensures we catch any errors and report them properly
-          await processor.processReadyCampaigns()
-          
-          successCount++
-          results.push({
-            campaignId: campaign.id,
-            campaignName: campaign.name,
-            success: true,
-            message: 'Campaign processing completed successfully',
-            originalStatus: campaign.status
-          })
+        successCount++
+        results.push({
+          campaignId: campaign.id,
+          campaignName: campaign.name,
+          success: true,
+          message: job ? 'Campaign send queued' : 'Campaign send already queued or running',
+          originalStatus: campaign.status
+        })
 
-          console.log(`✅ Successfully processed ${campaign.name}`)
-          
-        } catch (processingError) {
-          console.error(`❌ Error processing ${campaign.name}:`, processingError)
-          
-          // Revert status back to scheduled if processing failed
-          await supabase
-            .from('campaigns')
-            .update({ status: 'scheduled' })
-            .eq('id', campaign.id)
-            
-          errorCount++
-          results.push({
-            campaignId: campaign.id,
-            campaignName: campaign.name,
-            success: false,
-            error: processingError instanceof Error ? processingError.message : 'Campaign processing failed',
-            originalStatus: campaign.status
-          })
-        }
+        console.log(`✅ ${job ? 'Queued' : 'Already queued'}: ${campaign.name}`)
         
       } catch (campaignError) {
         console.error(`❌ Error processing campaign ${campaign.name}:`, campaignError)
@@ -211,8 +187,13 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Drain the campaign_send queue with the batch-enabled processor
+    const { CampaignProcessor } = await import('@/lib/campaign-processor')
+    const queueResult = await CampaignProcessor.getInstance().drainCampaignQueue()
+
     const summary = {
       success: true,
+      queue: queueResult,
       processed: campaignsToProcess.length,
       successful: successCount,
       errors: errorCount,
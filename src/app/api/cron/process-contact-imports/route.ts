@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { runContactImportQueue } from '@/lib/contact-import-jobs'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cron/process-contact-imports
+ * Continues background contact imports. Uploads start importing immediately;
+ * this picks up imports that did not finish within the upload request's time
+ * and retries chunks that failed.
+ *
+ * Recommended schedule: every minute
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request - invalid or missing CRON_SECRET')
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const result = await runContactImportQueue(supabase)
+
+    if (result.errors.length > 0) {
+      console.error('⚠️ Cron: Errors occurred during contact imports:', result.errors)
+    }
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: result,
+      message: `Processed ${result.completed}/${result.claimed} contact import job(s)`,
+      timestamp: new Date().toISOString(),
+    }))
+
+  } catch (error) {
+    console.error('❌ Cron: Error processing contact imports:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 })
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { enqueueJob, runJobQueue } from '@/lib/job-queue'
 
 export const maxDuration = 300 // 5 minutes for cron job
 export const dynamic = 'force-dynamic'
 
 /**
  * Cron job to process stuck enrichment jobs
- * Runs every 5 minutes to resume jobs that failed to chain to next batch
+ * Runs every 5 minutes to resume jobs that failed to chain to next batch.
+ * Resumes go through the enrichment job queue, which retries with backoff.
  *
  * Ubuntu Server Cron Configuration:
  * Add to crontab: crontab -e
@@ -35,7 +37,7 @@ export async function GET(request: NextRequest) {
 
     const { data: stuckJobs, error: fetchError } = await supabase
       .from('bulk_enrichment_jobs')
-      .select('*')
+      .select('id')
       .in('status', ['processing', 'running'])
       .lt('updated_at', fiveMinutesAgo)
       .order('created_at', { ascending: true })
@@ -46,23 +48,33 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch stuck jobs' }, { status: 500 })
     }
 
-    if (!stuckJobs || stuckJobs.length === 0) {
-      console.log('✅ No stuck enrichment jobs found')
-      return NextResponse.json({
-        success: true,
-        message: 'No stuck jobs to process',
-        processed: 0
+    for (const job of stuckJobs || []) {
+      await enqueueJob(supabase, 'enrichment', { jobId: job.id }, {
+        dedupeKey: `enrichment:${job.id}`,
+        maxAttempts: 4
       })
     }
 
-    console.log(`🔍 Found ${stuckJobs.length} stuck enrichment job(s)`)
-
-    const results = []
+    const results: Array<{ job_id: string; action: string; success: boolean; error?: string }> = []
     const processorBaseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://pitchdonkey.vercel.app'
 
-    for (const job of stuckJobs) {
-      try {
-        console.log(`🔄 Attempting to resume job ${job.id}`)
+    // Resume jobs through the queue: failed resumes retry with backoff and are
+    // marked failed once the queue dead-letters them
+    const queueResult = await runJobQueue<{ jobId: string }>(
+      supabase,
+      'enrichment',
+      async (queueJob) => {
+        const jobId = queueJob.payload.jobId
+        const { data: job } = await supabase
+          .from('bulk_enrichment_jobs')
+          .select('*')
+          .eq('id', jobId)
+          .single()
+
+        if (!job || !['processing', 'running', 'pending'].includes(job.status)) {
+          results.push({ job_id: jobId, action: 'skipped', success: true })
+          return
+        }
 
         // Check if there are actually more contacts to process
         const progress = job.progress as any
@@ -73,72 +85,58 @@ export async function GET(request: NextRequest) {
 
         if (processed >= total) {
           // Job is actually complete, just mark it as such
-          console.log(`✅ Job ${job.id} is complete (${processed}/${total}), marking as completed`)
+          console.log(`✅ Job ${jobId} is complete (${processed}/${total}), marking as completed`)
           await supabase
             .from('bulk_enrichment_jobs')
             .update({ status: 'completed', updated_at: new Date().toISOString() })
-            .eq('id', job.id)
+            .eq('id', jobId)
 
-          results.push({ job_id: job.id, action: 'marked_complete', success: true })
-          continue
+          results.push({ job_id: jobId, action: 'marked_complete', success: true })
+          return
         }
 
         // Trigger processor to resume the job
         const processorUrl = `${processorBaseUrl}/api/contacts/bulk-enrich/process`
-        console.log(`🔄 Triggering processor for job ${job.id} at ${processorUrl}`)
+        console.log(`🔄 Triggering processor for job ${jobId} at ${processorUrl}`)
 
         const response = await fetch(processorUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ job_id: job.id })
+          body: JSON.stringify({ job_id: jobId })
         })
 
-        if (response.ok) {
-          console.log(`✅ Successfully resumed job ${job.id}`)
-          results.push({ job_id: job.id, action: 'resumed', success: true })
-        } else {
+        if (!response.ok) {
           const errorText = await response.text()
-          console.error(`❌ Failed to resume job ${job.id}: HTTP ${response.status}`, errorText)
+          results.push({ job_id: jobId, action: 'retry_scheduled', success: false, error: `HTTP ${response.status}: ${errorText}` })
+          throw new Error(`Failed to resume job ${jobId}: HTTP ${response.status}`)
+        }
+
+        console.log(`✅ Successfully resumed job ${jobId}`)
+        results.push({ job_id: jobId, action: 'resumed', success: true })
+      },
+      {
+        limit: 10,
+        onDeadLetter: async (queueJob, error) => {
+          console.log(`⏰ Job ${queueJob.payload.jobId} could not be resumed after ${queueJob.attempts} attempts, marking as failed`)
           await supabase
             .from('bulk_enrichment_jobs')
             .update({
-              status: 'pending',
-              error: `Retry scheduled: ${errorText}`,
+              status: 'failed',
+              error: `Job could not be resumed after ${queueJob.attempts} attempts: ${error.message}`,
               updated_at: new Date().toISOString()
             })
-            .eq('id', job.id)
-          results.push({
-            job_id: job.id,
-            action: 'reset_pending',
-            success: false,
-            error: `HTTP ${response.status}: ${errorText}`
-          })
-
-          // If job has been stuck for >30 minutes, mark as failed
-          const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000).toISOString()
-          if (job.updated_at < thirtyMinutesAgo) {
-            console.log(`⏰ Job ${job.id} has been stuck for >30 minutes, marking as failed`)
-            await supabase
-              .from('bulk_enrichment_jobs')
-              .update({
-                status: 'failed',
-                error: 'Job stuck for >30 minutes after multiple retry attempts',
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', job.id)
-
-            results[results.length - 1].action = 'marked_failed'
-          }
+            .eq('id', queueJob.payload.jobId)
         }
-      } catch (err) {
-        console.error(`❌ Exception processing job ${job.id}:`, err)
-        results.push({
-          job_id: job.id,
-          action: 'exception',
-          success: false,
-          error: err instanceof Error ? err.message : String(err)
-        })
       }
+    )
+
+    if (queueResult.claimed === 0) {
+      console.log('✅ No stuck enrichment jobs found')
+      return NextResponse.json({
+        success: true,
+        message: 'No stuck jobs to process',
+        processed: 0
+      })
     }
 
     const successCount = results.filter(r => r.success).length
@@ -149,6 +147,7 @@ export async function GET(request: NextRequest) {
       message: `Processed ${results.length} stuck job(s)`,
       processed: results.length,
       successful: successCount,
+      queue: queueResult,
       results
     })
 
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { runLeadScoring } from '@/lib/lead-scoring'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cron/process-lead-scores
+ * Rescores all contacts of users who changed their lead scoring model and
+ * recomputes scores older than a day, so event decay shows up in lead_score
+ * without new activity.
+ *
+ * Recommended schedule: every 15 minutes
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request - invalid or missing CRON_SECRET')
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const result = await runLeadScoring(supabase)
+
+    if (result.queue.errors.length > 0) {
+      console.error('⚠️ Cron: Errors occurred during lead scoring:', result.queue.errors)
+    }
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: result,
+      message: `Processed ${result.queue.completed} rescoring job(s) and refreshed ${result.staleContacts} stale lead score(s)`,
+      timestamp: new Date().toISOString(),
+    }))
+
+  } catch (error) {
+    console.error('❌ Cron: Error processing lead scores:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { runSegmentRefresh } from '@/lib/contact-segmentation'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cron/refresh-segments
+ * Keeps materialized contact segments current. Re-evaluates dynamic segments
+ * for contacts changed since the last run and fully refreshes segments with
+ * time-relative rules such as "opened an email in the last 7 days".
+ *
+ * Recommended schedule: every 5 minutes
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request - invalid or missing CRON_SECRET')
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const result = await runSegmentRefresh(supabase)
+
+    if (result.errors.length > 0) {
+      console.error('⚠️ Cron: Errors occurred during segment refresh:', result.errors)
+    }
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: result,
+      message: `Re-evaluated ${result.dirtyContacts} changed contact(s) and fully refreshed ${result.fullRefreshes} segment(s)`,
+      timestamp: new Date().toISOString(),
+    }))
+
+  } catch (error) {
+    console.error('❌ Cron: Error refreshing segments:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 })
+  }
+}
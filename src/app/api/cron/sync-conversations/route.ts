@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { addSecurityHeaders } from '@/lib/auth-middleware'
+import { runConversationSync } from '@/lib/conversations'
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cron/sync-conversations
+ * Drains the conversation_sync queue: assigns messages received or sent since
+ * the last sync to conversations for users who opened their inbox.
+ *
+ * Recommended schedule: every 5 minutes
+ *
+ * Security: Uses CRON_SECRET for authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('❌ Unauthorized cron request - invalid or missing CRON_SECRET')
+      return NextResponse.json({
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED'
+      }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const result = await runConversationSync(supabase)
+
+    if (result.errors.length > 0) {
+      console.error('⚠️ Cron: Errors occurred during conversation sync:', result.errors)
+    }
+
+    return addSecurityHeaders(NextResponse.json({
+      success: true,
+      data: result,
+      message: `Processed ${result.completed} conversation sync job(s)`,
+      timestamp: new Date().toISOString(),
+    }))
+
+  } catch (error) {
+    console.error('❌ Cron: Error syncing conversations:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString(),
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { GmailIMAPSMTPServerService } from '@/lib/server/gmail-imap-smtp-server'
+import type { SendEmailOptions } from '@/lib/gmail-imap-smtp'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { findSuppressedRecipients } from '@/lib/suppression'
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined
+
+const addressList = (value: unknown): string | string[] | undefined => {
+  if (typeof value === 'string') return value || undefined
+  if (Array.isArray(value)) {
+    const addresses = value.filter((address): address is string => typeof address === 'string' && address.length > 0)
+    return addresses.length > 0 ? addresses : undefined
+  }
+  return undefined
+}
+
+/**
+ * Build the send options from the request body field by field. Extra headers
+ * and file-path attachments are never taken from the client.
+ */
+function toSendEmailOptions(body: any): SendEmailOptions | null {
+  const to = addressList(body?.to)
+  const subject = optionalString(body?.subject)
+  if (!to || !subject) return null
+
+  const attachments = Array.isArray(body.attachments)
+    ? body.attachments
+        .filter((attachment: any) => typeof attachment?.filename === 'string' && typeof attachment?.content === 'string')
+        .map((attachment: any) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: optionalString(attachment.contentType),
+        }))
+    : undefined
+
+  return {
+    to,
+    cc: addressList(body.cc),
+    bcc: addressList(body.bcc),
+    subject,
+    text: optionalString(body.text),
+    html: optionalString(body.html),
+    senderName: optionalString(body.senderName),
+    inReplyTo: optionalString(body.inReplyTo),
+    references: optionalString(body.references),
+    threadId: optionalString(body.threadId),
+    attachments,
+  }
+}
 
 export async function POST(
   request: NextRequest,
@@ -7,7 +56,32 @@ export async function POST(
 ) {
   try {
     const accountId = params.id
-    const emailOptions = await request.json()
+    const emailOptions = toSendEmailOptions(await request.json())
+    if (!emailOptions) {
+      return NextResponse.json({ error: 'Recipient and subject are required' }, { status: 400 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('user_id')
+      .eq('id', accountId)
+      .single()
+
+    if (accountError || !account) {
+      return NextResponse.json({ error: 'Email account not found' }, { status: 404 })
+    }
+
+    const recipients = [emailOptions.to, emailOptions.cc, emailOptions.bcc]
+      .flat()
+      .filter((recipient): recipient is string => typeof recipient === 'string' && recipient.length > 0)
+    const suppressed = await findSuppressedRecipients(supabase, account.user_id, recipients)
+    if (suppressed.length > 0) {
+      return NextResponse.json(
+        { error: `Recipient is on the suppression list: ${suppressed.join(', ')}` },
+        { status: 422 }
+      )
+    }
 
     const gmailService = new GmailIMAPSMTPServerService()
 
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth } from '@/lib/auth-middleware'
 import nodemailer from 'nodemailer'
+import { findSuppressedRecipients } from '@/lib/suppression'
+import { createFollowUpReminder } from '@/lib/follow-up-reminders'
+import { followUpReminderSchema } from '@/lib/validations'
 
 const stripHtml = (input: string) => input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
 
@@ -9,6 +12,7 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
     const { id } = await params
     const body = await request.json()
     const { to, subject, message } = body
+    const reminderRequest = body.reminder ? followUpReminderSchema.safeParse(body.reminder) : null
 
     if (!to || !subject || !message) {
       return NextResponse.json({
@@ -17,6 +21,13 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
       }, { status: 400 })
     }
 
+    if (reminderRequest && !reminderRequest.success) {
+      return NextResponse.json({
+        error: 'Invalid follow-up reminder',
+        code: 'VALIDATION_ERROR'
+      }, { status: 400 })
+    }
+
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
@@ -39,6 +50,14 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
       }, { status: 400 })
     }
 
+    const suppressed = await findSuppressedRecipients(supabase, user.id, to)
+    if (suppressed.length > 0) {
+      return NextResponse.json({
+        error: `Recipient is on the suppression list: ${suppressed.join(', ')}`,
+        code: 'RECIPIENT_SUPPRESSED'
+      }, { status: 422 })
+    }
+
     let sendResult = {
       success: false,
       message: '',
@@ -48,6 +67,7 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
       details: null
     }
 
+    let reminder = null
     let htmlBodyForStorage = ''
     const plainTextBodyForStorage = stripHtml(message || '')
 
@@ -197,7 +217,7 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
       if (sendResult.success) {
         try {
           const fallbackMessageId = sendResult.messageId || `manual-${Date.now()}`
-          await supabase
+          const { data: outgoingEmail } = await supabase
             .from('outgoing_emails')
             .insert({
               user_id: user.id,
@@ -210,8 +230,23 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
               html_content: htmlBodyForStorage || message,
               date_sent: new Date().toISOString()
             })
+            .select('id')
+            .single()
+
+          if (reminderRequest?.success) {
+            reminder = await createFollowUpReminder(supabase, user.id, {
+              emailAccountId: account.id,
+              outgoingEmailId: outgoingEmail?.id || null,
+              messageId: sendResult.messageId,
+              recipientEmail: to,
+              subject,
+              remindAfterDays: reminderRequest.data.remind_after_days,
+              draftNudge: reminderRequest.data.draft_nudge,
+              agentId: reminderRequest.data.agent_id,
+            })
+          }
         } catch (outgoingError: any) {
-          console.error('⚠️ Failed to insert sent email into outgoing_emails:', outgoingError)
+          console.error('⚠️ Failed to record sent email or follow-up reminder:', outgoingError)
         }
       }
 
@@ -234,7 +269,7 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
 
     return NextResponse.json({
       success: true,
-      data: sendResult
+      data: { ...sendResult, reminder }
     })
 
   } catch (error) {
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { getClassificationMetrics } from '@/lib/reply-classifier'
+
+// GET /api/inbox/classification-metrics?days=90 - Reply classifier accuracy from mailbox corrections
+export const GET = withAuth(async (
+  request: NextRequest,
+  { user, supabase }
+) => {
+  try {
+    const days = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('days') || '90', 10) || 90, 1), 365)
+    const metrics = await getClassificationMetrics(supabase, user.id, days)
+
+    const res = NextResponse.json({ success: true, days, metrics })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Classification metrics error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load classification metrics' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { getConversation, updateConversation } from '@/lib/conversations'
+import { listConversationReminders } from '@/lib/follow-up-reminders'
+import { updateConversationSchema } from '@/lib/validations'
+
+// GET /api/inbox/conversations/[id] - A conversation with its messages, oldest first, and follow-up reminders
+export const GET = withAuth(async (
+  _request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const detail = await getConversation(supabase, user.id, id)
+    if (!detail) {
+      return NextResponse.json({ success: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const sentMessageIds = detail.messages
+      .filter(message => message.direction === 'outbound' && message.messageId)
+      .map(message => message.messageId as string)
+    const reminders = await listConversationReminders(supabase, user.id, id, sentMessageIds)
+
+    const res = NextResponse.json({ success: true, ...detail, reminders })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Get conversation error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load conversation' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/inbox/conversations/[id] - Change status, assignees or labels
+export const PATCH = withAuth(async (
+  request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const parsed = updateConversationSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0]?.message || 'Invalid conversation update' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await updateConversation(supabase, user.id, id, parsed.data)
+    if (!conversation) {
+      return NextResponse.json({ success: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const res = NextResponse.json({ success: true, conversation })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Update conversation error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update conversation' },
+      { status: 500 }
+    )
+  }
+})
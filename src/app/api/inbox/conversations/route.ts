@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { CONVERSATION_STATUSES, enqueueConversationSync, listConversations, type ConversationStatus } from '@/lib/conversations'
+
+// GET /api/inbox/conversations - Thread list across inbox, sent mail and campaign sends
+export const GET = withAuth(async (
+  request: NextRequest,
+  { user, supabase }
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    if (status && !CONVERSATION_STATUSES.includes(status as ConversationStatus)) {
+      return NextResponse.json({ success: false, error: 'Unknown conversation status' }, { status: 400 })
+    }
+
+    // Messages received or sent since the last visit are picked up by the
+    // conversation_sync queue; the list still loads if queueing fails
+    try {
+      await enqueueConversationSync(supabase, user.id)
+    } catch (error) {
+      console.error('Conversation sync error:', error)
+    }
+
+    const { conversations, total } = await listConversations(supabase, user.id, {
+      status: (status as ConversationStatus) || undefined,
+      label: searchParams.get('label') || undefined,
+      assignee: searchParams.get('assignee') || undefined,
+      accountId: searchParams.get('account_id') || undefined,
+      search: searchParams.get('search') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50'),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    })
+
+    const res = NextResponse.json({ success: true, conversations, total })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('List conversations error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load conversations' },
+      { status: 500 }
+    )
+  }
+})
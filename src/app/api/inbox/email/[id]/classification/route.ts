@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { recordClassificationFeedback } from '@/lib/reply-classifier'
+import { reclassifyEmailSchema } from '@/lib/validations'
+
+// PUT /api/inbox/email/[id]/classification - Relabel an email and keep the correction as a training example
+export const PUT = withAuth(async (
+  request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id: emailId } = await params
+    const parsed = reclassifyEmailSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: 'Unknown classification label' }, { status: 400 })
+    }
+
+    const feedback = await recordClassificationFeedback(supabase, user.id, emailId, parsed.data.label)
+    if (!feedback) {
+      return NextResponse.json({ success: false, error: 'Classified email not found' }, { status: 404 })
+    }
+
+    const res = NextResponse.json({ success: true, feedback })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Reclassify email error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to reclassify email' },
+      { status: 500 }
+    )
+  }
+})
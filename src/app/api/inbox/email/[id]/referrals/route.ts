@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { createReferralsForEmail, listEmailReferrals } from '@/lib/referrals'
+
+// GET /api/inbox/email/[id]/referrals - People a wrong-person reply referred us to
+export const GET = withAuth(async (
+  _request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id: emailId } = await params
+    const referrals = await listEmailReferrals(supabase, user.id, emailId)
+
+    const res = NextResponse.json({ success: true, referrals })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('List referrals error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load referrals' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inbox/email/[id]/referrals - Find the referred people in the reply and create them as contacts
+export const POST = withAuth(async (
+  _request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id: emailId } = await params
+    const created = await createReferralsForEmail(supabase, user.id, emailId)
+    if (!created) {
+      return NextResponse.json({ success: false, error: 'Email not found' }, { status: 404 })
+    }
+
+    const referrals = await listEmailReferrals(supabase, user.id, emailId)
+    const res = NextResponse.json({ success: true, created: created.length, referrals })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Create referrals error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create referrals' },
+      { status: 500 }
+    )
+  }
+})
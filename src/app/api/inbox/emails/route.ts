@@ -53,6 +53,7 @@ export const GET = withAuth(async (
         email_replies (
           campaign_id,
           contact_id,
+          intent,
           campaigns (
             id,
             name
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { ReferralEnrollmentError, enrollReferral } from '@/lib/referrals'
+
+// POST /api/inbox/referrals/[id]/enroll - Add a referred contact to the reply's campaign with a referral opener
+export const POST = withAuth(async (
+  request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const opener = typeof body?.opener === 'string' ? body.opener.slice(0, 1000) : undefined
+
+    const referral = await enrollReferral(supabase, user.id, id, opener)
+    if (!referral) {
+      return NextResponse.json({ success: false, error: 'Referral not found' }, { status: 404 })
+    }
+
+    const res = NextResponse.json({ success: true, referral })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    if (error instanceof ReferralEnrollmentError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 })
+    }
+    console.error('Enroll referral error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to enroll referral' },
+      { status: 500 }
+    )
+  }
+})
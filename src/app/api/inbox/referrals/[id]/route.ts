@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { dismissReferral } from '@/lib/referrals'
+
+// DELETE /api/inbox/referrals/[id] - Dismiss the enrolment offer; the contact is kept
+export const DELETE = withAuth(async (
+  _request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const dismissed = await dismissReferral(supabase, user.id, id)
+    if (!dismissed) {
+      return NextResponse.json({ success: false, error: 'Open referral not found' }, { status: 404 })
+    }
+
+    const res = NextResponse.json({ success: true })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Dismiss referral error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to dismiss referral' },
+      { status: 500 }
+    )
+  }
+})
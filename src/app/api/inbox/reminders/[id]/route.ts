@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, addSecurityHeaders } from '@/lib/auth-middleware'
+import { dismissFollowUpReminder } from '@/lib/follow-up-reminders'
+
+// DELETE /api/inbox/reminders/[id] - Cancel a pending follow-up reminder or dismiss a fired one
+export const DELETE = withAuth(async (
+  _request: NextRequest,
+  { user, supabase },
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const dismissed = await dismissFollowUpReminder(supabase, user.id, id)
+    if (!dismissed) {
+      return NextResponse.json({ success: false, error: 'Reminder not found' }, { status: 404 })
+    }
+
+    const res = NextResponse.json({ success: true })
+    return addSecurityHeaders(res)
+  } catch (error) {
+    console.error('Dismiss reminder error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to dismiss reminder' },
+      { status: 500 }
+    )
+  }
+})
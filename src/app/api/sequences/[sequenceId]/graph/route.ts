@@ -0,0 +1,87 @@
+'use server'
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { SequenceGraphValidationError, SequenceService } from '@/lib/sequences'
+import { validateSequenceGraph, type SequenceGraph } from '@/lib/sequence-graph'
+
+export const GET = withAuth(async (_request: NextRequest, { user, supabase }, { params }: { params: { sequenceId: string } }) => {
+  try {
+    const service = new SequenceService(supabase, user.id)
+    const result = await service.getGraph(params.sequenceId)
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Sequence not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        validation: validateSequenceGraph(result.graph),
+      },
+    })
+  } catch (error: any) {
+    console.error('Failed to fetch sequence graph:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to fetch sequence graph' },
+      { status: 500 },
+    )
+  }
+})
+
+export const PUT = withAuth(async (request: NextRequest, { user, supabase }, { params }: { params: { sequenceId: string } }) => {
+  try {
+    const body = await request.json()
+
+    if (!Array.isArray(body?.nodes) || !Array.isArray(body?.edges)) {
+      return NextResponse.json(
+        { success: false, error: 'nodes and edges are required' },
+        { status: 400 },
+      )
+    }
+
+    const graph: SequenceGraph = {
+      entry_campaign_id: body.entry_campaign_id ?? null,
+      nodes: body.nodes.map((node: any) => ({
+        id: String(node.id),
+        name: node.name,
+        position: {
+          x: Number(node.position?.x) || 0,
+          y: Number(node.position?.y) || 0,
+        },
+      })),
+      edges: body.edges.map((edge: any, index: number) => ({
+        id: edge.id ?? null,
+        source: String(edge.source),
+        target: String(edge.target),
+        condition_type: edge.condition_type ?? 'no_reply',
+        delay_days: Number(edge.delay_days ?? 3),
+        delay_hours: Number(edge.delay_hours ?? 0),
+        priority: Number(edge.priority ?? index),
+      })),
+    }
+
+    const service = new SequenceService(supabase, user.id)
+    const saved = await service.saveGraph(params.sequenceId, graph)
+
+    return NextResponse.json({ success: true, data: saved })
+  } catch (error: any) {
+    if (error instanceof SequenceGraphValidationError) {
+      return NextResponse.json(
+        { success: false, error: 'Sequence graph is invalid', errors: error.errors },
+        { status: 422 },
+      )
+    }
+
+    console.error('Failed to save sequence graph:', error)
+    const status = error?.message === 'Sequence not found or access denied' ? 404 : 500
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save sequence graph' },
+      { status },
+    )
+  }
+})
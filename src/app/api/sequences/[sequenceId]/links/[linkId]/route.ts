@@ -25,6 +25,7 @@ export const PUT = withAuth(async (request: NextRequest, { user, supabase }, { p
       personaOverrideId: body.personaOverrideId,
       deliveryWindow: body.deliveryWindow,
       metadata: body.metadata,
+      priority: body.priority,
     })
 
     return NextResponse.json({ success: true, data: updated })
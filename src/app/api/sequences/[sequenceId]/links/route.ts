@@ -38,6 +38,7 @@ export const POST = withAuth(async (request: NextRequest, { user, supabase }, {
       personaOverrideId: body.personaOverrideId,
       deliveryWindow: body.deliveryWindow,
       metadata: body.metadata,
+      priority: body.priority,
     })
 
     return NextResponse.json({ success: true, data: link })
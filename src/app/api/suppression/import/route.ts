@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { addSuppressionEntries, parseSuppressionCsv } from '@/lib/suppression'
+
+/**
+ * Import suppression entries from a CSV upload (multipart "file") or raw CSV text
+ */
+export const POST = withAuth(async (request: NextRequest, { user, supabase }) => {
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    let text: string
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 })
+      }
+      text = await file.text()
+    } else if (contentType.includes('application/json')) {
+      const body = await request.json()
+      text = typeof body.csv === 'string' ? body.csv : ''
+    } else {
+      text = await request.text()
+    }
+
+    if (!text.trim()) {
+      return NextResponse.json({ success: false, error: 'Import file is empty' }, { status: 400 })
+    }
+
+    const { entries, invalid } = parseSuppressionCsv(text)
+    const result = await addSuppressionEntries(supabase, user.id, entries, 'import')
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        invalid: [...invalid, ...result.invalid],
+      },
+    })
+  } catch (error: any) {
+    console.error('Failed to import suppression list:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to import suppression list' },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z, ZodError } from 'zod'
+import { withAuth } from '@/lib/auth-middleware'
+import {
+  addSuppressionEntries,
+  listSuppressionEntries,
+  removeSuppressionEntry,
+  toSuppressionCsv,
+} from '@/lib/suppression'
+
+const addEntriesSchema = z.object({
+  values: z.array(z.string().min(1)).min(1).max(1000),
+  reason: z.string().max(500).optional(),
+})
+
+/**
+ * List the account's suppression list, or export it with ?format=csv
+ */
+export const GET = withAuth(async (request: NextRequest, { user, supabase }) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+    const search = searchParams.get('search') || undefined
+
+    if (format === 'csv') {
+      const { entries } = await listSuppressionEntries(supabase, user.id, { search })
+
+      return new NextResponse(toSuppressionCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': 'attachment; filename="suppression-list.csv"',
+        },
+      })
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 500)
+    const offset = parseInt(searchParams.get('offset') || '0')
+    const result = await listSuppressionEntries(supabase, user.id, { search, limit, offset })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error: any) {
+    console.error('Failed to load suppression list:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load suppression list' },
+      { status: 500 },
+    )
+  }
+})
+
+/**
+ * Suppress email addresses or whole domains ("@example.com")
+ */
+export const POST = withAuth(async (request: NextRequest, { user, supabase }) => {
+  try {
+    const { values, reason } = addEntriesSchema.parse(await request.json())
+
+    const inputs = values.map((value) =>
+      value.includes('@') && !value.trim().startsWith('@')
+        ? { email: value, reason }
+        : { domain: value, reason },
+    )
+
+    const result = await addSuppressionEntries(supabase, user.id, inputs, 'manual')
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid suppression entries', details: error.errors },
+        { status: 400 },
+      )
+    }
+
+    console.error('Failed to add suppression entries:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to add suppression entries' },
+      { status: 500 },
+    )
+  }
+})
+
+/**
+ * Remove a single entry by ?id=
+ */
+export const DELETE = withAuth(async (request: NextRequest, { user, supabase }) => {
+  try {
+    const entryId = new URL(request.url).searchParams.get('id')
+    if (!entryId) {
+      return NextResponse.json({ success: false, error: 'Entry id is required' }, { status: 400 })
+    }
+
+    await removeSuppressionEntry(supabase, user.id, entryId)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to remove suppression entry:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to remove suppression entry' },
+      { status: 500 },
+    )
+  }
+})
@@ -245,6 +245,30 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
-  // Handle one-click unsubscribe (List-Unsubscribe-Post header)
-  return GET(request, { params })
+  // RFC 8058 one-click unsubscribe: mail clients POST "List-Unsubscribe=One-Click"
+  // and only look at the status code, so skip the confirmation page
+  const contentType = request.headers.get('content-type') || ''
+  const body = contentType.includes('form') ? await request.text() : ''
+  if (!body.includes('List-Unsubscribe=One-Click')) {
+    return GET(request, { params })
+  }
+
+  try {
+    const { token } = await params
+    const forwarded = request.headers.get('x-forwarded-for')
+    const ipAddress = forwarded ? forwarded.split(',')[0].trim() :
+                     request.headers.get('x-real-ip') ||
+                     undefined
+
+    const result = await emailTracker.processUnsubscribe(token, ipAddress, request.headers.get('user-agent') || undefined)
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: 'Invalid unsubscribe token' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('One-click unsubscribe error:', error)
+    return NextResponse.json({ success: false, error: 'Failed to unsubscribe' }, { status: 500 })
+  }
 }
\ No newline at end of file
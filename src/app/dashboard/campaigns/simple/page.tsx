@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge'
 import { ApiClient } from '@/lib/api-client'
 import { UnifiedEmailContentEditor } from '@/components/campaigns/UnifiedEmailContentEditor'
 import { SaveTemplateDialog } from '@/components/campaigns/SaveTemplateDialog'
+import { HolidayDelayPreview } from '@/components/campaigns/HolidayDelayPreview'
 import { ViewContactListModal } from '@/components/contacts/ViewContactListModal'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { 
@@ -25,7 +26,8 @@ import {
   Save,
   Eye,
   CheckCircle,
-  BarChart3
+  BarChart3,
+  Building
 } from 'lucide-react'
 
 interface SimpleCampaignData {
@@ -40,6 +42,11 @@ interface SimpleCampaignData {
   timezone: string
   from_email_account_id?: string
   daily_send_limit?: number
+  send_time_mode?: 'window' | 'optimized'
+  exclude_email_statuses?: Array<'invalid' | 'risky'>
+  stop_on_account_reply?: boolean
+  ooo_buffer_days?: number
+  enroll_ooo_alternates?: boolean
   // Enhanced template fields
   email_purpose?: string
   language?: 'English' | 'German'
@@ -75,6 +82,11 @@ export default function SimpleCampaignPage() {
     timezone: '',
     from_email_account_id: '',
     daily_send_limit: 5,
+    send_time_mode: 'window',
+    exclude_email_statuses: [],
+    stop_on_account_reply: false,
+    ooo_buffer_days: 1,
+    enroll_ooo_alternates: false,
     // Enhanced template fields
     email_purpose: '',
     language: 'English',
@@ -1004,6 +1016,103 @@ export default function SimpleCampaignPage() {
                   </div>
                 </div>
 
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    id="send-time-optimized"
+                    className="mt-1"
+                    checked={campaignData.send_time_mode === 'optimized'}
+                    onChange={(e) => setCampaignData(prev => ({ ...prev, send_time_mode: e.target.checked ? 'optimized' : 'window' }))}
+                  />
+                  <label htmlFor="send-time-optimized" className="flex items-start">
+                    <Clock className="h-4 w-4 mr-2 mt-0.5 text-purple-600" />
+                    <div>
+                      <p className="font-medium">Send at each contact's best time</p>
+                      <p className="text-sm text-gray-600">
+                        Uses past opens and clicks to pick the local hour each contact (or their company) usually engages.
+                        Contacts without enough history are sent in the regular batches.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    id="exclude-unverified"
+                    className="mt-1"
+                    checked={(campaignData.exclude_email_statuses || []).length > 0}
+                    onChange={(e) => setCampaignData(prev => ({ ...prev, exclude_email_statuses: e.target.checked ? ['invalid', 'risky'] : [] }))}
+                  />
+                  <label htmlFor="exclude-unverified" className="flex items-start">
+                    <CheckCircle className="h-4 w-4 mr-2 mt-0.5 text-green-600" />
+                    <div>
+                      <p className="font-medium">Skip invalid and risky addresses</p>
+                      <p className="text-sm text-gray-600">
+                        Verifies every recipient before launch. Mailboxes that do not exist, catch-all domains,
+                        role accounts and disposable addresses are left out of the campaign.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    id="stop-on-account-reply"
+                    className="mt-1"
+                    checked={!!campaignData.stop_on_account_reply}
+                    onChange={(e) => setCampaignData(prev => ({ ...prev, stop_on_account_reply: e.target.checked }))}
+                  />
+                  <label htmlFor="stop-on-account-reply" className="flex items-start">
+                    <Building className="h-4 w-4 mr-2 mt-0.5 text-blue-600" />
+                    <div>
+                      <p className="font-medium">Stop emailing a company once someone replies</p>
+                      <p className="text-sm text-gray-600">
+                        Contacts are grouped by company domain. When one person at a company replies, their
+                        colleagues in this campaign are not emailed anymore.
+                      </p>
+                    </div>
+                  </label>
+                </div>
+
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    id="enroll-ooo-alternates"
+                    className="mt-1"
+                    checked={!!campaignData.enroll_ooo_alternates}
+                    onChange={(e) => setCampaignData(prev => ({ ...prev, enroll_ooo_alternates: e.target.checked }))}
+                  />
+                  <label htmlFor="enroll-ooo-alternates" className="flex items-start">
+                    <Calendar className="h-4 w-4 mr-2 mt-0.5 text-amber-600" />
+                    <div>
+                      <p className="font-medium">Out-of-office contacts</p>
+                      <p className="text-sm text-gray-600">
+                        Emails to contacts with an active auto-reply wait until their return date plus the buffer
+                        below. When checked, the colleague named in the auto-reply is added to this campaign.
+                      </p>
+                      <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="number"
+                          min={0}
+                          max={30}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                          value={campaignData.ooo_buffer_days ?? 1}
+                          onChange={(e) => {
+                            const value = Number(e.target.value)
+                            setCampaignData(prev => ({
+                              ...prev,
+                              ooo_buffer_days: Number.isFinite(value) ? Math.min(Math.max(value, 0), 30) : 1
+                            }))
+                          }}
+                        />
+                        <span>days after their return</span>
+                      </div>
+                    </div>
+                  </label>
+                </div>
+
                 {!campaignData.send_immediately && (
                   <div className="pl-7 space-y-4 border-l-2 border-blue-100">
                     <div className="grid grid-cols-2 gap-4">
@@ -1215,6 +1324,14 @@ export default function SimpleCampaignPage() {
               )
             })()}
 
+            {/* Contacts delayed by public holidays in their country */}
+            <HolidayDelayPreview
+              contactListIds={campaignData.contact_list_ids}
+              scheduledDate={campaignData.send_immediately ? undefined : campaignData.scheduled_date}
+              dailySendLimit={campaignData.daily_send_limit || 5}
+              timezone={campaignData.timezone}
+            />
+
             {/* Campaign Summary */}
             <Card>
               <CardHeader>
@@ -11,7 +11,10 @@ import { ContactsStats } from '@/components/contacts/ContactsStats'
 import { ContactsFilters } from '@/components/contacts/ContactsFilters'
 import { AddContactModal } from '@/components/contacts/AddContactModal'
 import { ImportContactsModal } from '@/components/contacts/ImportContactsModal'
+import { DuplicateContactsModal } from '@/components/contacts/DuplicateContactsModal'
 import { SegmentManager } from '@/components/contacts/SegmentManager'
+import { LeadScoringSettings } from '@/components/contacts/LeadScoringSettings'
+import { CustomFieldsSettings } from '@/components/contacts/CustomFieldsSettings'
 import { ContactListManager } from '@/components/contacts/ContactListManager'
 import { AIContactQuery } from '@/components/contacts/AIContactQuery'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -174,6 +177,7 @@ function ContactsPageContent() {
               <p className="text-gray-600">Manage your contact database and segments</p>
             </div>
             <div className="flex space-x-3">
+              <DuplicateContactsModal onMergeComplete={handleContactAdded} />
               <ImportContactsModal onImportComplete={handleContactAdded} />
               <AddContactModal 
                 onContactAdded={handleContactAdded} 
@@ -192,6 +196,8 @@ function ContactsPageContent() {
             <TabsTrigger value="contacts">Contacts</TabsTrigger>
             <TabsTrigger value="segments">Segments</TabsTrigger>
             <TabsTrigger value="lists">Lists</TabsTrigger>
+            <TabsTrigger value="lead-scoring">Lead Scoring</TabsTrigger>
+            <TabsTrigger value="custom-fields">Custom Fields</TabsTrigger>
           </TabsList>
 
           <TabsContent value="contacts" className="space-y-6">
@@ -255,6 +261,14 @@ function ContactsPageContent() {
           <TabsContent value="lists">
             <ContactListManager userId={user.id} />
           </TabsContent>
+
+          <TabsContent value="lead-scoring">
+            <LeadScoringSettings />
+          </TabsContent>
+
+          <TabsContent value="custom-fields">
+            <CustomFieldsSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
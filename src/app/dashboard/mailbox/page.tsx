@@ -28,6 +28,7 @@ import {
   X,
   Sparkles,
   RotateCcw,
+  MessagesSquare,
 } from 'lucide-react'
 import clsx from 'clsx'
 import { Dialog, DialogClose, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
@@ -36,7 +37,16 @@ import { EmailRichTextEditor } from '@/components/ui/EmailRichTextEditor'
 import { MailboxToolbar } from '../../../components/mailbox/MailboxToolbar'
 import { AISummaryButton } from '@/components/mailbox/AISummaryButton'
 import { AISummaryCard } from '@/components/mailbox/AISummaryCard'
+import { ReferralsCard } from '@/components/mailbox/ReferralsCard'
+import { ConversationList } from '@/components/mailbox/ConversationList'
 import { toast } from 'sonner'
+import {
+  REPLY_LABELS,
+  REPLY_LABEL_NAMES,
+  classificationLabel,
+  labelClassification,
+  type ReplyLabel,
+} from '@/lib/email-classifier'
 
 interface EmailAccount {
   id: string
@@ -101,6 +111,7 @@ interface IncomingEmail {
     } | null
   }
   email_replies?: Array<{
+    intent?: string | null
     campaigns: Campaign | null
     contacts: Contact | null
   }>
@@ -139,7 +150,7 @@ type MailboxSelection =
 type MailboxTarget = {
   key: string
   accountId: string | null
-  folder: 'inbox' | 'outbox'
+  folder: 'inbox' | 'outbox' | 'threads'
 }
 
 interface AutoReplyDraft {
@@ -187,12 +198,14 @@ const STATUS_META: Record<'green' | 'yellow' | 'red', { label: string; className
   red: { label: 'At Risk', className: 'bg-rose-500/10 text-rose-700 border border-rose-500/30' },
 }
 
+const FOLLOW_UP_REMINDER_DAYS = [1, 2, 3, 5, 7, 14]
+
 const parseMailboxKey = (key: string): MailboxTarget => {
   const [accountToken, folderToken] = key.split(':')
   return {
     key,
     accountId: accountToken === 'all' ? null : accountToken,
-    folder: folderToken === 'outbox' ? 'outbox' : 'inbox',
+    folder: folderToken === 'outbox' || folderToken === 'threads' ? folderToken : 'inbox',
   }
 }
 
@@ -301,6 +314,7 @@ export default function MailboxPage() {
   const [classificationFilter, setClassificationFilter] = useState<'all' | 'unclassified' | 'human_reply' | 'bounce' | 'auto_reply' | 'spam' | 'unsubscribe'>('all')
   const [loadingList, setLoadingList] = useState(false)
   const [syncing, setSyncing] = useState(false)
+  const [conversationsRefreshKey, setConversationsRefreshKey] = useState(0)
   const [syncStatus, setSyncStatus] = useState<string>('')
 
   const [inboxEmails, setInboxEmails] = useState<IncomingEmail[]>([])
@@ -315,6 +329,8 @@ export default function MailboxPage() {
   const [composeAccountId, setComposeAccountId] = useState<string | null>(null)
   const [composeSending, setComposeSending] = useState(false)
   const [composeError, setComposeError] = useState('')
+  const [composeRemindDays, setComposeRemindDays] = useState<number | null>(null)
+  const [composeDraftNudge, setComposeDraftNudge] = useState(true)
   const [composeAgents, setComposeAgents] = useState<OutreachAgentOption[]>([])
   const [composeAgentId, setComposeAgentId] = useState<string | null>(null)
   const [composeAssistMode, setComposeAssistMode] = useState<'improve' | 'generate'>('improve')
@@ -328,6 +344,8 @@ export default function MailboxPage() {
   const [autoReplyDraft, setAutoReplyDraft] = useState<AutoReplyDraft | null>(null)
   const [autoReplyModalOpen, setAutoReplyModalOpen] = useState(false)
   const [autoReplyLoading, setAutoReplyLoading] = useState(false)
+  const [reclassifying, setReclassifying] = useState(false)
+  const [classifierAccuracy, setClassifierAccuracy] = useState<{ accuracy: number | null; reviewed: number } | null>(null)
   const [autoReplyActionLoading, setAutoReplyActionLoading] = useState(false)
   const selectedComposeAgent = useMemo(
     () => composeAgents.find(agent => agent.id === composeAgentId) || null,
@@ -383,13 +401,15 @@ export default function MailboxPage() {
     const { accountId, folder } = mailboxTarget
     if (folder === 'inbox') {
       fetchInboxEmails(accountId)
-    } else {
+    } else if (folder === 'outbox') {
       fetchSentEmails(accountId)
     }
   }, [mailboxTarget, classificationFilter, searchTerm])
 
   useEffect(() => {
     const { folder } = mailboxTarget
+    // The thread list keeps its own selection
+    if (folder === 'threads') return
     if (folder === 'inbox') {
       if (inboxEmails.length === 0) {
         if (selectedItem?.type === 'inbox') {
@@ -431,7 +451,7 @@ export default function MailboxPage() {
     const interval = setInterval(() => {
       if (mailboxTarget.folder === 'inbox') {
         fetchInboxEmails(mailboxTarget.accountId, { silent: true })
-      } else {
+      } else if (mailboxTarget.folder === 'outbox') {
         fetchSentEmails(mailboxTarget.accountId, { silent: true })
       }
     }, 5 * 60 * 1000)
@@ -739,6 +759,53 @@ export default function MailboxPage() {
     }
   }
 
+  const loadClassifierAccuracy = async () => {
+    try {
+      const response = await fetch('/api/inbox/classification-metrics')
+      const payload = await response.json().catch(() => null)
+      if (response.ok && payload?.success) {
+        setClassifierAccuracy({ accuracy: payload.metrics.accuracy, reviewed: payload.metrics.reviewed })
+      }
+    } catch (error) {
+      console.error('Error loading classifier accuracy:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadClassifierAccuracy()
+  }, [])
+
+  const reclassifyInboxEmail = async (email: IncomingEmail, label: ReplyLabel) => {
+    try {
+      setReclassifying(true)
+      const response = await fetch(`/api/inbox/email/${email.id}/classification`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label }),
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to reclassify email')
+      }
+
+      const { type, intent } = labelClassification(label)
+      const updated: IncomingEmail = {
+        ...email,
+        classification_status: type,
+        email_replies: email.email_replies?.map(reply => ({ ...reply, intent })),
+      }
+      setInboxEmails(prev => prev.map(item => (item.id === email.id ? updated : item)))
+      setSelectedItem({ type: 'inbox', email: updated })
+      toast.success(`Reclassified as ${REPLY_LABEL_NAMES[label]}`)
+      loadClassifierAccuracy()
+    } catch (error) {
+      console.error('Error reclassifying email:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to reclassify email')
+    } finally {
+      setReclassifying(false)
+    }
+  }
+
   const deleteInboxEmail = async (emailId: string) => {
     try {
       await fetch('/api/inbox/delete', {
@@ -812,6 +879,8 @@ export default function MailboxPage() {
     setComposeSubject(subject)
     setComposeBody(body)
     setComposeError('')
+    setComposeRemindDays(null)
+    setComposeDraftNudge(true)
     const account = emailAccounts.find(acc => acc.id === accountId) || null
     const defaultAgentId =
       account?.outreach_agents_via_outreach?.id ||
@@ -856,6 +925,9 @@ export default function MailboxPage() {
           to: composeTo,
           subject: composeSubject,
           message: composeBody,
+          reminder: composeRemindDays
+            ? { remind_after_days: composeRemindDays, draft_nudge: composeDraftNudge, agent_id: composeAgentId }
+            : undefined,
         }),
       })
 
@@ -864,9 +936,15 @@ export default function MailboxPage() {
         throw new Error(data.error || 'Failed to send email')
       }
 
+      const result = await response.json().catch(() => null)
+      if (result?.data?.reminder) {
+        toast.success(`We'll remind you if ${composeTo} hasn't replied in ${composeRemindDays} day${composeRemindDays === 1 ? '' : 's'}`)
+      }
+
       setComposeOpen(false)
       setComposeBody('')
       setComposeSubject('')
+      setComposeRemindDays(null)
       // Refresh sent folder for the account used
       await fetchSentEmails(composeAccountId)
     } catch (error: any) {
@@ -1227,6 +1305,8 @@ export default function MailboxPage() {
       if (folder === 'inbox') {
         await fetchInboxEmails(accountId)
         await fetchSentEmails(accountId, { silent: true })
+      } else if (folder === 'threads') {
+        setConversationsRefreshKey(key => key + 1)
       } else {
         await fetchSentEmails(accountId)
         await fetchInboxEmails(accountId, { silent: true })
@@ -1328,6 +1408,8 @@ export default function MailboxPage() {
     setComposeSubject('')
     setComposeBody('<p></p>')
     setComposeError('')
+    setComposeRemindDays(null)
+    setComposeDraftNudge(true)
     setComposeAssistMode('improve')
     setAssistPrompt('')
     setAssistStatus(null)
@@ -1689,6 +1771,7 @@ export default function MailboxPage() {
       const email = selectedItem.email
       const contact = email.contact || email.email_replies?.[0]?.contacts || null
       const campaign = email.email_replies?.[0]?.campaigns || null
+      const currentLabel = classificationLabel(email.classification_status, email.email_replies?.[0]?.intent)
       const fromName = email.from_address || 'Unknown sender'
       const receivedAt = new Date(email.date_received).toLocaleString()
       const assignedAgentId = email.email_accounts?.assigned_agent?.id
@@ -1771,9 +1854,34 @@ export default function MailboxPage() {
                 </div>
               </div>
               <div className="flex flex-wrap items-center gap-2">
-                <span className="inline-flex items-center rounded-full bg-blue-50 px-3 py-1 text-xs font-medium capitalize text-blue-600">
-                  {email.classification_status.replace('_', ' ')}
-                </span>
+                {currentLabel ? (
+                  <Select
+                    value={currentLabel}
+                    onValueChange={(value) => reclassifyInboxEmail(email, value as ReplyLabel)}
+                    disabled={reclassifying}
+                  >
+                    <SelectTrigger
+                      className="h-7 w-auto gap-1 rounded-full border-0 bg-blue-50 px-3 text-xs font-medium text-blue-600"
+                      title="Reclassify: corrections train the reply classifier"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPLY_LABELS.map(label => (
+                        <SelectItem key={label} value={label}>{REPLY_LABEL_NAMES[label]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="inline-flex items-center rounded-full bg-blue-50 px-3 py-1 text-xs font-medium capitalize text-blue-600">
+                    {email.classification_status.replace('_', ' ')}
+                  </span>
+                )}
+                {currentLabel && classifierAccuracy?.accuracy != null && (
+                  <span className="text-xs text-slate-500">
+                    Classifier accuracy {Math.round(classifierAccuracy.accuracy * 100)}% ({classifierAccuracy.reviewed} reviewed)
+                  </span>
+                )}
                 <span className="inline-flex items-center rounded-full bg-emerald-50 px-3 py-1 text-xs font-medium text-emerald-600">
                   {email.processing_status === 'completed' ? 'Processed' : `Processing: ${email.processing_status}`}
                 </span>
@@ -1805,6 +1913,10 @@ export default function MailboxPage() {
                 onFlagContact={handleFlagContact}
               />
 
+              {(currentLabel === 'wrong_person' || currentLabel === 'auto_reply') && (
+                <ReferralsCard emailId={email.id} />
+              )}
+
               {/* Email Content */}
               <article className="rounded-3xl bg-white px-4 sm:px-6 py-8 shadow-sm ring-1 ring-slate-100">
                 {email.html_content ? (
@@ -1978,6 +2090,21 @@ export default function MailboxPage() {
               </span>
               <ChevronRight className={clsx('h-4 w-4 transition-transform', selectedMailboxKey === 'all:outbox' && 'translate-x-0.5')} />
             </button>
+            <button
+              onClick={() => handleMailboxSelect('all:threads')}
+              className={clsx(
+                'flex w-full items-center justify-between rounded-2xl border px-4 py-3 text-sm font-medium transition-all',
+                selectedMailboxKey === 'all:threads'
+                  ? 'border-transparent bg-gradient-to-r from-blue-600 to-indigo-500 text-white shadow-md'
+                  : 'border-transparent bg-slate-100/70 text-slate-700 hover:border-blue-200 hover:bg-white hover:text-blue-700 shadow-sm'
+              )}
+            >
+              <span className="flex items-center gap-2">
+                <MessagesSquare className="h-4 w-4" />
+                Conversations
+              </span>
+              <ChevronRight className={clsx('h-4 w-4 transition-transform', selectedMailboxKey === 'all:threads' && 'translate-x-0.5')} />
+            </button>
           </div>
         </div>
 
@@ -2106,7 +2233,9 @@ export default function MailboxPage() {
                     </div>
                     <h1 className="mt-2 text-2xl font-semibold leading-tight sm:text-3xl">Mailbox</h1>
                     <p className="text-sm text-white/90">
-                      {mailboxTarget.folder === 'inbox' ? 'Inbox' : 'Sent'} • {getAccountLabel(mailboxTarget.accountId)} • {currentCount} message{currentCount !== 1 ? 's' : ''}
+                      {mailboxTarget.folder === 'threads'
+                        ? `Conversations • ${getAccountLabel(mailboxTarget.accountId)}`
+                        : <>{mailboxTarget.folder === 'inbox' ? 'Inbox' : 'Sent'} • {getAccountLabel(mailboxTarget.accountId)} • {currentCount} message{currentCount !== 1 ? 's' : ''}</>}
                     </p>
                   </div>
                 </div>
@@ -2136,7 +2265,11 @@ export default function MailboxPage() {
                   <Input
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder={mailboxTarget.folder === 'inbox' ? 'Search incoming mail…' : 'Search sent mail…'}
+                    placeholder={
+                      mailboxTarget.folder === 'threads'
+                        ? 'Search conversations…'
+                        : mailboxTarget.folder === 'inbox' ? 'Search incoming mail…' : 'Search sent mail…'
+                    }
                     className="h-11 rounded-2xl border border-white/30 bg-white/20 pl-11 text-white placeholder:text-white/70 focus-visible:ring-white/70"
                   />
                 </div>
@@ -2174,7 +2307,13 @@ export default function MailboxPage() {
 
           <div className="flex flex-1 min-h-0 overflow-hidden">
             <section className="flex-1 overflow-hidden bg-white">
-              {loadingList ? (
+              {mailboxTarget.folder === 'threads' ? (
+                <ConversationList
+                  accountId={mailboxTarget.accountId}
+                  search={searchTerm}
+                  refreshKey={conversationsRefreshKey}
+                />
+              ) : loadingList ? (
                 <div className="flex h-full items-center justify-center text-slate-400">
                   <RefreshCw className="h-6 w-6 animate-spin" />
                 </div>
@@ -2408,6 +2547,37 @@ export default function MailboxPage() {
                   </div>
                 </div>
 
+                <div className="flex flex-wrap items-center gap-3 rounded-2xl bg-white px-4 py-3 shadow-sm ring-1 ring-slate-200">
+                  <span className="text-sm font-medium text-slate-700">Remind me if no reply</span>
+                  <Select
+                    value={composeRemindDays ? String(composeRemindDays) : 'off'}
+                    onValueChange={(value) => setComposeRemindDays(value === 'off' ? null : Number(value))}
+                  >
+                    <SelectTrigger className="h-9 w-36 rounded-xl text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      {FOLLOW_UP_REMINDER_DAYS.map(days => (
+                        <SelectItem key={days} value={String(days)}>
+                          in {days} day{days === 1 ? '' : 's'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {composeRemindDays && (
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={composeDraftNudge}
+                        onChange={(event) => setComposeDraftNudge(event.target.checked)}
+                        className="h-4 w-4 rounded border-slate-300"
+                      />
+                      Draft a nudge with {selectedComposeAgent?.name || 'the mailbox agent'}
+                    </label>
+                  )}
+                </div>
+
                 {composeError && <p className="text-sm text-red-600">{composeError}</p>}
               </div>
             </div>
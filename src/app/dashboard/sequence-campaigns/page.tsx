@@ -22,6 +22,7 @@ import {
 } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
 import { SequenceBoard } from '@/components/sequences/SequenceBoard'
+import { SequenceGraphEditor } from '@/components/sequences/SequenceGraphEditor'
 import type { SequenceLinkRecord, SequenceWithRelations, SequenceStatus } from '@/components/sequences/types'
 import { useRouter } from 'next/navigation'
 
@@ -70,6 +71,7 @@ export default function SequenceCampaignsPage() {
   const [savingLink, setSavingLink] = useState(false)
   const [activeLinkContext, setActiveLinkContext] = useState<ActiveLinkContext | null>(null)
   const [linkForm, setLinkForm] = useState<LinkFormState>(() => createDefaultLinkForm())
+  const [viewMode, setViewMode] = useState<'board' | 'graph'>('board')
 
   const selectedSequence = useMemo(
     () => sequences.find((item) => item.sequence.id === selectedSequenceId) ?? null,
@@ -436,6 +438,25 @@ export default function SequenceCampaignsPage() {
 
           {selectedSequence ? (
             <div className="rounded-3xl border border-slate-200 bg-gradient-to-br from-slate-50 via-white to-slate-50 p-6 shadow-lg shadow-slate-100">
+              <div className="mb-4 flex justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant={viewMode === 'board' ? 'default' : 'outline'}
+                  onClick={() => setViewMode('board')}
+                >
+                  Board
+                </Button>
+                <Button
+                  size="sm"
+                  variant={viewMode === 'graph' ? 'default' : 'outline'}
+                  onClick={() => setViewMode('graph')}
+                >
+                  Graph
+                </Button>
+              </div>
+              {viewMode === 'graph' ? (
+                <SequenceGraphEditor sequence={selectedSequence} onSaved={refreshSequences} />
+              ) : (
               <SequenceBoard
                 sequence={selectedSequence}
                 onAddCampaign={handleAddCampaign}
@@ -452,6 +473,7 @@ export default function SequenceCampaignsPage() {
                 }
                 onRefreshSequence={refreshSequences}
               />
+              )}
             </div>
           ) : (
             <div className="rounded-2xl border border-dashed border-slate-200 bg-slate-50 p-10 text-center text-sm text-slate-500">
@@ -516,6 +538,12 @@ export default function SequenceCampaignsPage() {
                 <SelectContent>
                   <SelectItem value="no_reply">No reply</SelectItem>
                   <SelectItem value="opened_no_reply">Opened but no reply</SelectItem>
+                  <SelectItem value="opened">Opened</SelectItem>
+                  <SelectItem value="not_opened">Not opened</SelectItem>
+                  <SelectItem value="clicked">Clicked a link</SelectItem>
+                  <SelectItem value="replied">Replied</SelectItem>
+                  <SelectItem value="bounced">Bounced</SelectItem>
+                  <SelectItem value="auto_reply">Auto-reply active</SelectItem>
                   <SelectItem value="always">Always send</SelectItem>
                   <SelectItem value="custom">Custom (manual logic)</SelectItem>
                 </SelectContent>
@@ -18,7 +18,8 @@ import {
   Download,
   RefreshCw,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  GitBranch
 } from 'lucide-react'
 import { ApiClient } from '@/lib/api-client'
 
@@ -40,6 +41,9 @@ interface EmailDetails {
   bounce_reason: string | null
   contact_name?: string
   contact_company?: string
+  branch_path?: string | null
+  deferral_reason?: string | null
+  deferred_until?: string | null
 }
 
 export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTableProps) {
@@ -107,7 +111,8 @@ export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTablePr
       clicked: { color: 'bg-purple-100 text-purple-800', icon: MousePointer },
       replied: { color: 'bg-emerald-100 text-emerald-800', icon: Reply },
       bounced: { color: 'bg-red-100 text-red-800', icon: AlertTriangle },
-      failed: { color: 'bg-red-100 text-red-800', icon: AlertTriangle }
+      failed: { color: 'bg-red-100 text-red-800', icon: AlertTriangle },
+      deferred: { color: 'bg-orange-100 text-orange-800', icon: Clock }
     }
     
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.sent
@@ -133,7 +138,7 @@ export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTablePr
 
   const exportToCSV = () => {
     const csvData = [
-      ['Email', 'Name', 'Company', 'Subject', 'Status', 'Sent At', 'Delivered At', 'Opened At', 'Clicked At', 'Replied At', 'Bounce Reason'],
+      ['Email', 'Name', 'Company', 'Subject', 'Status', 'Sent At', 'Delivered At', 'Opened At', 'Clicked At', 'Replied At', 'Bounce Reason', 'Branch Path', 'Deferral Reason', 'Deferred Until'],
       ...filteredEmails.map(email => [
         email.recipient_email,
         email.contact_name || '',
@@ -145,7 +150,10 @@ export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTablePr
         email.opened_at ? formatDate(email.opened_at) : '',
         email.clicked_at ? formatDate(email.clicked_at) : '',
         email.replied_at ? formatDate(email.replied_at) : '',
-        email.bounce_reason || ''
+        email.bounce_reason || '',
+        email.branch_path || '',
+        email.deferral_reason || '',
+        email.deferred_until ? formatDate(email.deferred_until) : ''
       ])
     ]
     
@@ -254,9 +262,18 @@ export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTablePr
                     <div className="text-sm font-medium truncate max-w-xs" title={email.subject}>
                       {email.subject}
                     </div>
+                    {email.branch_path && (
+                      <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1" title="Sequence path followed by this contact">
+                        <GitBranch className="h-3 w-3" />
+                        <span>Steps {email.branch_path}</span>
+                      </div>
+                    )}
                   </td>
                   <td className="py-3 px-3">
                     {getStatusBadge(email.status)}
+                    {email.deferral_reason && (
+                      <div className="text-xs text-orange-600 mt-1">{email.deferral_reason}</div>
+                    )}
                   </td>
                   <td className="py-3 px-3 text-sm text-gray-600">
                     {formatDate(email.sent_at)}
@@ -283,6 +300,11 @@ export function EmailDetailsTable({ campaignId, analytics }: EmailDetailsTablePr
                         <Eye className="h-3 w-3" />
                         <span>{formatDate(email.opened_at)}</span>
                       </div>
+                    ) : email.deferral_reason ? (
+                      <div className="flex items-center space-x-1 text-orange-600" title={email.deferral_reason}>
+                        <Clock className="h-3 w-3" />
+                        <span>Deferred until {formatDate(email.deferred_until || null)}</span>
+                      </div>
                     ) : email.bounce_reason ? (
                       <div className="flex items-center space-x-1 text-red-600" title={email.bounce_reason}>
                         <AlertTriangle className="h-3 w-3" />
@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CalendarX, CheckCircle } from 'lucide-react'
+import { ApiClient } from '@/lib/api-client'
+
+interface HolidayGroup {
+  country: string
+  holiday: string
+  date: string
+  contact_count: number
+}
+
+interface HolidayDelay {
+  contact_id: string
+  email: string | null
+  name: string | null
+  country: string
+  holiday: string
+  holiday_date: string
+  delayed_until: string
+}
+
+interface HolidayPreview {
+  total_contacts: number
+  delayed_count: number
+  holidays: HolidayGroup[]
+  delays: HolidayDelay[]
+}
+
+interface HolidayDelayPreviewProps {
+  contactListIds: string[]
+  scheduledDate?: string
+  dailySendLimit?: number
+  timezone?: string
+}
+
+const MAX_CONTACTS_PER_HOLIDAY = 5
+
+export function HolidayDelayPreview({ contactListIds, scheduledDate, dailySendLimit, timezone }: HolidayDelayPreviewProps) {
+  const [preview, setPreview] = useState<HolidayPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (contactListIds.length === 0) {
+      setPreview(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true)
+        const res = await ApiClient.post('/api/campaigns/holiday-preview', {
+          contact_list_ids: contactListIds,
+          scheduled_date: scheduledDate ? new Date(scheduledDate).toISOString() : undefined,
+          daily_send_limit: dailySendLimit,
+          timezone
+        })
+        if (!cancelled && res?.success) {
+          setPreview(res.data as HolidayPreview)
+        }
+      } catch (error) {
+        console.error('Error loading holiday preview:', error)
+        if (!cancelled) setPreview(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [contactListIds.join(','), scheduledDate, dailySendLimit, timezone])
+
+  if (!preview && !loading) return null
+
+  const formatDate = (value: string) => new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarX className="h-5 w-5 mr-2" />
+          Holiday Check
+        </CardTitle>
+        <CardDescription>
+          Emails are not sent on public holidays in the recipient&apos;s country
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && !preview && (
+          <p className="text-sm text-gray-500">Checking holiday calendars...</p>
+        )}
+
+        {preview && preview.delayed_count === 0 && (
+          <div className="bg-green-50 p-3 rounded-lg flex items-center gap-2 text-sm text-green-800">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            No contacts fall on a holiday in their country
+          </div>
+        )}
+
+        {preview && preview.holidays.map(group => {
+          const contacts = preview.delays.filter(d => d.country === group.country && d.holiday_date === group.date)
+          return (
+            <div key={`${group.country}-${group.date}`} className="p-3 bg-amber-50 rounded-md">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-sm text-amber-900">{group.holiday}</p>
+                  <p className="text-xs text-amber-700">{group.country} • {group.date}</p>
+                </div>
+                <Badge className="bg-amber-100 text-amber-800">
+                  {group.contact_count} contact{group.contact_count !== 1 ? 's' : ''} delayed
+                </Badge>
+              </div>
+              <ul className="mt-2 space-y-1">
+                {contacts.slice(0, MAX_CONTACTS_PER_HOLIDAY).map(contact => (
+                  <li key={contact.contact_id} className="text-xs text-amber-800 flex justify-between">
+                    <span>{contact.name || contact.email}</span>
+                    <span>sends {formatDate(contact.delayed_until)}</span>
+                  </li>
+                ))}
+                {contacts.length > MAX_CONTACTS_PER_HOLIDAY && (
+                  <li className="text-xs text-amber-700">+ {contacts.length - MAX_CONTACTS_PER_HOLIDAY} more</li>
+                )}
+              </ul>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -27,6 +27,13 @@ import {
 } from 'lucide-react'
 import { EmailRichTextEditor } from '@/components/ui/EmailRichTextEditor'
 import type { AITemplate } from '@/lib/ai-templates'
+import type { CustomFieldDefinition } from '@/lib/custom-fields'
+import {
+  analyzeTemplate,
+  renderContactTemplate,
+  templateVariableCatalog,
+  undefinedTemplateVariables,
+} from '@/lib/template-language'
 
 interface Contact {
   id: string
@@ -35,6 +42,9 @@ interface Contact {
   email: string
   company_name?: string
   company?: string
+  website?: string
+  country?: string
+  custom_fields?: Record<string, any>
   enrichment_data?: any
 }
 
@@ -93,6 +103,7 @@ export function UnifiedEmailContentEditor({
   const [searchTerm, setSearchTerm] = useState('')
   const [isDropdownOpen, setIsDropdownOpen] = useState(false)
   const [templates, setTemplates] = useState<AITemplate[]>([])
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([])
 
   // Personalized Reason state
   const [isGeneratingReason, setIsGeneratingReason] = useState(false)
@@ -290,6 +301,50 @@ export function UnifiedEmailContentEditor({
   }
   useEffect(() => { loadTemplates() }, [])
 
+  // Custom fields are template variables ({{custom.key}}) with typed formatting
+  useEffect(() => {
+    const loadCustomFields = async () => {
+      try {
+        const res = await fetch('/api/contacts/custom-fields')
+        if (res.ok) {
+          const json = await res.json()
+          setCustomFields(json.data?.fields || [])
+        }
+      } catch (e) {
+        console.warn('Failed to load custom fields', e)
+      }
+    }
+    loadCustomFields()
+  }, [])
+
+  // Syntax problems and unknown variables of the subject and content
+  const templateWarnings = useMemo(() => {
+    const catalog = templateVariableCatalog(customFields)
+    return [
+      { label: 'Subject', template: subject },
+      { label: 'Content', template: htmlContent }
+    ].flatMap(({ label, template }) => {
+      const analysis = analyzeTemplate(template)
+      return [
+        ...analysis.issues.map(issue => ({ type: 'error' as const, message: `${label}: ${issue}` })),
+        ...undefinedTemplateVariables(analysis.variables, catalog).map(variable => ({
+          type: 'warning' as const,
+          message: `${label}: {{${variable}}} is not a contact variable and will be empty`
+        }))
+      ]
+    })
+  }, [subject, htmlContent, customFields])
+
+  // Render a template the way the campaign sends it to this contact
+  const renderForContact = (template: string, escapeHtml: boolean) => {
+    try {
+      return renderContactTemplate(template, selectedContact, { customFields, senderName: 'Your Team', escapeHtml })
+    } catch {
+      // Syntax problems are listed above the preview
+      return template
+    }
+  }
+
   // Smart activation logic for personalized reason button
   const isReasonButtonEnabled = () => {
     return emailPurpose.trim() !== '' && 
@@ -715,21 +770,8 @@ IMPORTANT: No contact info is provided. You MUST use placeholders only and NOT i
     const contentToUse = generatedEmail?.content || htmlContent
 
     // Replace variables with actual contact data
-    let previewContent = contentToUse
-    
-    // English placeholders  
-    previewContent = previewContent.replace(/\{\{first_name\}\}/g, selectedContact.first_name)
-    previewContent = previewContent.replace(/\{\{last_name\}\}/g, selectedContact.last_name)
-    previewContent = previewContent.replace(/\{\{company\}\}/g, selectedContact.company_name || selectedContact.company || '')
-    previewContent = previewContent.replace(/\{\{company_name\}\}/g, selectedContact.company_name || selectedContact.company || '')
-    previewContent = previewContent.replace(/\{\{email\}\}/g, selectedContact.email)
-    previewContent = previewContent.replace(/\{\{sender_name\}\}/g, 'Your Team')
-    previewContent = previewContent.replace(/\{\{website\}\}/g, selectedContact.website || '')
-    
-    // Support existing German placeholders in content (but don't add new UI for them)
-    previewContent = previewContent.replace(/\{\{Nachname\}\}/g, selectedContact.last_name)
-    previewContent = previewContent.replace(/\{\{Vorname\}\}/g, selectedContact.first_name)
-    
+    let previewContent = renderForContact(contentToUse, true)
+
     // Replace personalized reason placeholder if we have a generated reason for this contact
     const generatedReason = generatedReasons.get(selectedContact.id)
     console.log('🔍 Preview Debug:', {
@@ -776,18 +818,7 @@ IMPORTANT: No contact info is provided. You MUST use placeholders only and NOT i
     const generatedEmail = generatedEmails.get(selectedContact.id)
     const subjectToUse = generatedEmail?.subject || subject
 
-    let previewSubject = subjectToUse
-    
-    // English placeholders
-    previewSubject = previewSubject.replace(/\{\{first_name\}\}/g, selectedContact.first_name)
-    previewSubject = previewSubject.replace(/\{\{last_name\}\}/g, selectedContact.last_name)
-    previewSubject = previewSubject.replace(/\{\{company\}\}/g, selectedContact.company_name || selectedContact.company || '')
-    previewSubject = previewSubject.replace(/\{\{company_name\}\}/g, selectedContact.company_name || selectedContact.company || '')
-    previewSubject = previewSubject.replace(/\{\{website\}\}/g, selectedContact.website || '')
-    
-    // Support existing German placeholders in content (but don't add new UI for them)
-    previewSubject = previewSubject.replace(/\{\{Nachname\}\}/g, selectedContact.last_name)
-    previewSubject = previewSubject.replace(/\{\{Vorname\}\}/g, selectedContact.first_name)
+    const previewSubject = renderForContact(subjectToUse, false)
 
     return previewSubject
   }
@@ -1352,6 +1383,20 @@ IMPORTANT: No contact info is provided. You MUST use placeholders only and NOT i
                 </div>
               )}
 
+              {templateWarnings.length > 0 && (
+                <div className="space-y-1 mb-4">
+                  {templateWarnings.map((warning, index) => (
+                    <div
+                      key={index}
+                      className={`flex items-start text-xs p-2 rounded-md border ${warning.type === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+                    >
+                      <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>{warning.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Email Preview */}
               <div className={`border rounded-md p-4 bg-white max-w-full overflow-hidden ${viewMode === 'mobile' ? 'max-w-sm mx-auto' : 'w-full'}`}>
                 {/* Subject Preview */}
@@ -301,6 +301,7 @@ function formatFunctionName(name: string): string {
   const nameMap: Record<string, string> = {
     query_contacts_basic: 'Profile Filtering',
     query_contacts_by_engagement: 'Engagement',
+    query_contacts_by_lead_score: 'Lead Score',
     query_never_contacted: 'Never Contacted',
     query_contacts_by_agent_fit: 'ICP Fit',
     query_contacts_by_status: 'Status',
@@ -0,0 +1,137 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { EngagementBadge } from './EngagementBadge'
+import type { Company, CompanyContact } from '@/lib/companies'
+import type { ContactEngagementStatus } from '@/lib/contact-engagement'
+import { Building, Users } from 'lucide-react'
+
+interface ContactColleaguesProps {
+  contactId: string
+  className?: string
+}
+
+interface ColleaguesResponse {
+  company: Company | null
+  colleagues: CompanyContact[]
+}
+
+export function ContactColleagues({ contactId, className = '' }: ContactColleaguesProps) {
+  const [result, setResult] = useState<ColleaguesResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/contacts/${contactId}/colleagues`)
+        if (response.ok) {
+          const data = await response.json()
+          setResult(data.data)
+        }
+      } catch (error) {
+        console.error('Error fetching colleagues:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [contactId])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const company = result?.company
+  if (!company) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        This contact is not linked to a company. Contacts are grouped by their business email domain or website.
+      </p>
+    )
+  }
+
+  const colleagues = result?.colleagues ?? []
+  const stats = [
+    { label: 'Contacts', value: company.contact_count },
+    { label: 'Engaged', value: company.engaged_contact_count },
+    { label: 'Replies', value: company.reply_count },
+    { label: 'Best score', value: company.engagement_score },
+  ]
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Building className="h-4 w-4" />
+            <span>{company.name || company.domain}</span>
+            <Badge variant="outline" className="font-normal">{company.domain}</Badge>
+          </CardTitle>
+          {company.industry && (
+            <p className="text-sm text-muted-foreground">{company.industry}</p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-4 gap-3 text-center">
+            {stats.map(stat => (
+              <div key={stat.label}>
+                <div className="text-lg font-semibold">{stat.value}</div>
+                <div className="text-xs text-muted-foreground">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+          {company.last_engaged_at && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Last engagement {new Date(company.last_engaged_at).toLocaleDateString()}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Users className="h-4 w-4" />
+            Colleagues ({colleagues.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {colleagues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other contacts at this company yet.</p>
+          ) : (
+            colleagues.map(colleague => {
+              const name = [colleague.first_name, colleague.last_name].filter(Boolean).join(' ')
+              return (
+                <div key={colleague.id} className="flex items-center justify-between border-b last:border-0 pb-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{name || colleague.email}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {colleague.position ? `${colleague.position} · ` : ''}{colleague.email}
+                    </div>
+                    {colleague.last_replied_at && (
+                      <div className="text-xs text-green-700">
+                        Replied {new Date(colleague.last_replied_at).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                  <EngagementBadge
+                    status={(colleague.engagement_status || 'not_contacted') as ContactEngagementStatus}
+                    score={colleague.engagement_score ?? 0}
+                    size="sm"
+                  />
+                </div>
+              )
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -9,13 +9,15 @@ import { LinkedInTab } from './tabs/LinkedInTab'
 import { NotesTab } from './tabs/NotesTab'
 import { CampaignsListsTab } from './tabs/CampaignsListsTab'
 import { ContactEmailsTab } from './tabs/ContactEmailsTab'
+import { HistoryTab } from './tabs/HistoryTab'
 import {
   User,
   Award,
   Linkedin,
   FileText,
   Send,
-  Mail
+  Mail,
+  History
 } from 'lucide-react'
 
 interface ContactDetailTabsProps {
@@ -45,7 +47,7 @@ export function ContactDetailTabs({
     <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <div className="border-b border-gray-200">
-          <TabsList className={`grid w-full ${showLinkedInTab ? 'grid-cols-6' : 'grid-cols-5'} h-auto p-1 bg-gray-50`}>
+          <TabsList className={`grid w-full ${showLinkedInTab ? 'grid-cols-7' : 'grid-cols-6'} h-auto p-1 bg-gray-50`}>
             <TabsTrigger
               value="details"
               className="flex items-center gap-2 py-3 px-4 data-[state=active]:bg-white data-[state=active]:shadow-sm"
@@ -101,6 +103,15 @@ export function ContactDetailTabs({
               <span className="hidden sm:inline">Campaigns & Lists</span>
               <span className="sm:hidden">Campaigns</span>
             </TabsTrigger>
+
+            <TabsTrigger
+              value="history"
+              className="flex items-center gap-2 py-3 px-4 data-[state=active]:bg-white data-[state=active]:shadow-sm"
+            >
+              <History className="h-4 w-4" />
+              <span className="hidden sm:inline">History</span>
+              <span className="sm:hidden">History</span>
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -145,6 +156,13 @@ export function ContactDetailTabs({
               onContactUpdate={onContactUpdate}
             />
           </TabsContent>
+
+          <TabsContent value="history" className="mt-0">
+            <HistoryTab
+              contact={contact}
+              onContactUpdate={onContactUpdate}
+            />
+          </TabsContent>
         </div>
       </Tabs>
     </div>
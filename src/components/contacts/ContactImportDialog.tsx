@@ -56,7 +56,7 @@ function ContactImportDialog({ onImportComplete }: ContactImportDialogProps) {
         setOpen(false)
         setFile(null)
         onImportComplete()
-        alert(`Successfully imported ${data.imported || 0} contacts!`)
+        alert(`Importing ${data.data?.total_rows || 0} contacts in the background`)
       } else {
         const data = await response.json()
         throw new Error(data.error || 'Import failed')
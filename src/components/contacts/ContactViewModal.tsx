@@ -33,6 +33,8 @@ import { EnrichmentButton } from './EnrichmentButton'
 import { RichTextEditor } from '@/components/ui/RichTextEditor'
 import { EngagementBadge } from './EngagementBadge'
 import { EngagementBreakdown } from './EngagementBreakdown'
+import { LeadScoreBreakdown } from './LeadScoreBreakdown'
+import { ContactColleagues } from './ContactColleagues'
 import { EngagementTimeline, type EngagementEvent } from './EngagementTimeline'
 import type { ContactEngagementStatus } from '@/lib/contact-engagement'
 import { useEffect, useState } from 'react'
@@ -369,7 +371,7 @@ export function ContactViewModal({
         </DialogHeader>
 
         <Tabs defaultValue="details" className="w-full">
-          <TabsList className={`grid w-full mb-6 ${(hasLinkedInData && lp) || hydratedContact.linkedin_extraction_status === 'failed' ? 'grid-cols-5' : 'grid-cols-4'}`}>
+          <TabsList className={`grid w-full mb-6 ${(hasLinkedInData && lp) || hydratedContact.linkedin_extraction_status === 'failed' ? 'grid-cols-6' : 'grid-cols-5'}`}>
             <TabsTrigger value="details" className="flex items-center gap-2">
               <User className="h-4 w-4" />
               Contact Details
@@ -384,6 +386,10 @@ export function ContactViewModal({
                 LinkedIn Profile
               </TabsTrigger>
             )}
+            <TabsTrigger value="colleagues" className="flex items-center gap-2">
+              <Building className="h-4 w-4" />
+              Colleagues
+            </TabsTrigger>
             <TabsTrigger value="notes" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               Notes
@@ -737,6 +743,7 @@ export function ContactViewModal({
                   sentCount={hydratedContact.engagement_sent_count || 0}
                   lastPositiveAt={hydratedContact.engagement_last_positive_at}
                 />
+                <LeadScoreBreakdown contactId={hydratedContact.id} className="mt-6" />
               </div>
 
               {/* Engagement Timeline */}
@@ -1376,6 +1383,11 @@ export function ContactViewModal({
             </TabsContent>
           )}
 
+          {/* Colleagues Tab */}
+          <TabsContent value="colleagues" className="space-y-6">
+            <ContactColleagues contactId={hydratedContact.id} />
+          </TabsContent>
+
           {/* Notes Tab */}
           <TabsContent value="notes" className="space-y-6">
             <div className="bg-white border border-gray-200 rounded-lg">
@@ -26,6 +26,7 @@ interface ContactSegment {
   name: string
   description: string
   contactCount: number
+  isDynamic?: boolean
 }
 
 interface FilterCriteria {
@@ -44,80 +45,66 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
     description: ''
   })
   const [filters, setFilters] = useState<FilterCriteria>({})
+  const [isDynamic, setIsDynamic] = useState(true)
   const [loading, setLoading] = useState(false)
-  const [estimatedCount, setEstimatedCount] = useState(100) // Start with total count
+  const [matchingCount, setMatchingCount] = useState<number | null>(null)
+  const [counting, setCounting] = useState(false)
 
-  // Update estimation whenever filters change
+  // Count matching contacts once the filters stop changing
   useEffect(() => {
-    estimateContactCount()
-  }, [filters.company, filters.jobTitle, filters.location, filters.industry, filters.addedAfter])
+    if (!isOpen || step !== 'filters') return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setCounting(true)
+      try {
+        const response = await fetch('/api/contacts/segments/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filterCriteria: filters })
+        })
+        const result = await response.json()
+        if (!cancelled && response.ok && result.success) {
+          setMatchingCount(result.data.contactCount)
+        }
+      } catch (error) {
+        console.error('Error counting matching contacts:', error)
+      } finally {
+        if (!cancelled) setCounting(false)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isOpen, step, filters])
 
   const handleBasicNext = () => {
     if (segmentData.name.trim()) {
       setStep('filters')
-      // Estimation will be handled by useEffect
+      // Matching contacts are counted by the useEffect
     }
   }
 
-  const estimateContactCount = () => {
-    // Start with base count from our populated database
-    let count = 100 // We know we have 100 contacts
-    
-    // Apply filters to estimate count
-    if (filters.company && filters.company.trim()) {
-      count = Math.floor(count * 0.3) // ~30 contacts might match company filter
-    }
-    if (filters.jobTitle && filters.jobTitle.trim()) {
-      count = Math.floor(count * 0.4) // ~40% might match job title
-    }
-    if (filters.location && filters.location.trim()) {
-      count = Math.floor(count * 0.6) // ~60% might match location
-    }
-    if (filters.industry && filters.industry !== '') {
-      count = Math.floor(count * 0.5) // ~50% might match industry
-    }
-    if (filters.addedAfter && filters.addedAfter !== '') {
-      count = Math.floor(count * 0.2) // ~20% might be recent
-    }
-    
-    // Ensure minimum count
-    const finalCount = Math.max(count, 5)
-    setEstimatedCount(finalCount)
-  }
-
   const handleCreateSegment = async () => {
     try {
       setLoading(true)
-      console.log('Creating segment with data:', {
-        name: segmentData.name,
-        description: segmentData.description,
-        filterCriteria: filters
-      })
-      
       const response = await fetch('/api/contacts/segments', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: segmentData.name,
           description: segmentData.description,
-          filterCriteria: filters
+          filterCriteria: filters,
+          isDynamic
         })
       })
 
-      console.log('API Response status:', response.status)
-
       if (response.ok) {
-        const newSegment = await response.json()
-        console.log('Created segment:', newSegment)
-        
-        // Use the contact count from the API response or fall back to estimated count
-        const segmentWithCount = {
-          ...newSegment,
-          contactCount: newSegment.contactCount || estimatedCount
-        }
-        
-        console.log('Calling onSegmentCreated with:', segmentWithCount)
-        onSegmentCreated(segmentWithCount)
+        const result = await response.json()
+        // The count comes from the segment's materialized members
+        onSegmentCreated(result.data)
         onClose()
         resetForm()
       } else {
@@ -137,7 +124,8 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
     setStep('basic')
     setSegmentData({ name: '', description: '' })
     setFilters({})
-    setEstimatedCount(100) // Reset to total count
+    setIsDynamic(true)
+    setMatchingCount(null)
   }
 
   if (!isOpen) return null
@@ -308,15 +296,30 @@ export function CreateSegmentModal({ isOpen, onClose, onSegmentCreated }: Create
                 </div>
               </div>
 
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={isDynamic}
+                  onChange={(e) => setIsDynamic(e.target.checked)}
+                />
+                <span>
+                  <span className="font-medium">Keep updated automatically</span>
+                  <span className="block text-gray-600">
+                    Contacts join and leave the segment as they change. Unchecked, the segment keeps the contacts that match now.
+                  </span>
+                </span>
+              </label>
+
               <Card>
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h4 className="font-medium">Estimated Contacts</h4>
+                      <h4 className="font-medium">Matching Contacts</h4>
                       <p className="text-sm text-gray-600">Based on current filters</p>
                     </div>
                     <Badge variant="secondary" className="text-lg px-3 py-1">
-                      {estimatedCount.toLocaleString()}
+                      {counting || matchingCount === null ? '…' : matchingCount.toLocaleString()}
                     </Badge>
                   </div>
                 </CardContent>
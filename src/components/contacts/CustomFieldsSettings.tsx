@@ -0,0 +1,229 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2, Save } from 'lucide-react'
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from '@/lib/custom-fields'
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select'
+
+const parseOptions = (value: string) => value.split(',').map(option => option.trim()).filter(Boolean)
+
+export function CustomFieldsSettings() {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [newField, setNewField] = useState<{ label: string; type: CustomFieldType; options: string }>({
+    label: '',
+    type: 'text',
+    options: '',
+  })
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/contacts/custom-fields')
+      if (response.ok) {
+        const result = await response.json()
+        setFields(result.data.fields)
+      }
+    } catch (error) {
+      console.error('Error fetching custom fields:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    try {
+      setSaving(true)
+      setMessage(null)
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save custom field')
+      }
+      setMessage({ type: 'success', text: success })
+      await load()
+      return true
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save custom field' })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    const created = await request('/api/contacts/custom-fields', {
+      method: 'POST',
+      body: JSON.stringify({
+        label: newField.label,
+        type: newField.type,
+        options: hasOptions(newField.type) ? parseOptions(newField.options) : [],
+        position: fields.length,
+      }),
+    }, `Added ${newField.label}.`)
+    if (created) setNewField({ label: '', type: 'text', options: '' })
+  }
+
+  const handleUpdate = (field: CustomFieldDefinition) =>
+    request(`/api/contacts/custom-fields/${field.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ label: field.label, options: field.options }),
+    }, `Saved ${field.label}.`)
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.label}"? Values already stored on contacts are kept but no longer typed.`)) return
+    request(`/api/contacts/custom-fields/${field.id}`, { method: 'DELETE' }, `Deleted ${field.label}.`)
+  }
+
+  const updateField = (id: string, changes: Partial<CustomFieldDefinition>) => {
+    setFields(prev => prev.map(field => (field.id === id ? { ...field, ...changes } : field)))
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Custom Fields</h2>
+        <p className="text-gray-600 text-sm">
+          Typed fields for your contacts. Map them when importing, filter segments by them and use them in emails
+          as {'{{custom.key}}'}.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg border p-3 text-sm ${message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Fields</CardTitle>
+          <CardDescription>The key and type of a field cannot change once it is created.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+          )}
+          {fields.map(field => (
+            <div key={field.id} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-3">
+                <Label className="text-xs">Label</Label>
+                <Input value={field.label} onChange={(e) => updateField(field.id, { label: e.target.value })} />
+              </div>
+              <div className="col-span-3 pb-2 space-x-1">
+                <Badge variant="outline" className="font-mono">{`{{custom.${field.key}}}`}</Badge>
+                <Badge variant="secondary">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</Badge>
+              </div>
+              <div className="col-span-4">
+                {hasOptions(field.type) && (
+                  <>
+                    <Label className="text-xs">Options (comma separated)</Label>
+                    <Input
+                      value={field.options.join(', ')}
+                      onChange={(e) => updateField(field.id, { options: parseOptions(e.target.value) })}
+                    />
+                  </>
+                )}
+              </div>
+              <div className="col-span-2 flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => handleUpdate(field)} disabled={saving}>
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(field)} disabled={saving}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">New field</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-12 gap-2 items-end">
+            <div className="col-span-3">
+              <Label className="text-xs">Label</Label>
+              <Input
+                value={newField.label}
+                placeholder="Contract value"
+                onChange={(e) => setNewField({ ...newField, label: e.target.value })}
+              />
+            </div>
+            <div className="col-span-3">
+              <Label className="text-xs">Type</Label>
+              <Select
+                value={newField.type}
+                onValueChange={(value) => setNewField({ ...newField, type: value as CustomFieldType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-4">
+              {hasOptions(newField.type) && (
+                <>
+                  <Label className="text-xs">Options (comma separated)</Label>
+                  <Input
+                    value={newField.options}
+                    placeholder="Starter, Pro, Enterprise"
+                    onChange={(e) => setNewField({ ...newField, options: e.target.value })}
+                  />
+                </>
+              )}
+            </div>
+            <div className="col-span-2">
+              <Button onClick={handleAdd} disabled={saving || !newField.label.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertCircle, CheckCircle, Copy, GitMerge, X } from 'lucide-react'
+import { ApiClient } from '@/lib/api-client'
+
+interface DuplicateContact {
+  id: string
+  email: string
+  first_name?: string | null
+  last_name?: string | null
+  company?: string | null
+  tags?: string[] | null
+  created_at?: string | null
+  [field: string]: any
+}
+
+interface DuplicateCluster {
+  contacts: DuplicateContact[]
+  reasons: Array<'email' | 'linkedin' | 'phone' | 'name_company'>
+  suggestedPrimaryId: string
+  conflicts: Array<{
+    field: string
+    values: Array<{ contactId: string; value: any }>
+  }>
+}
+
+interface SkippedBlock {
+  companyPrefix: string
+  contacts: number
+}
+
+interface ClusterSelection {
+  primaryId: string
+  resolutions: Record<string, string>
+}
+
+interface DuplicateContactsModalProps {
+  onMergeComplete: () => void
+}
+
+const REASON_LABELS: Record<DuplicateCluster['reasons'][number], string> = {
+  email: 'Same email',
+  linkedin: 'Same LinkedIn profile',
+  phone: 'Same phone',
+  name_company: 'Similar name & company'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  email: 'Email',
+  first_name: 'First name',
+  last_name: 'Last name',
+  company: 'Company',
+  position: 'Position',
+  phone: 'Phone',
+  website: 'Website',
+  linkedin_url: 'LinkedIn',
+  twitter_url: 'Twitter',
+  address: 'Address',
+  postcode: 'Postcode',
+  city: 'City',
+  country: 'Country',
+  timezone: 'Timezone',
+  sex: 'Sex'
+}
+
+const clusterKey = (cluster: DuplicateCluster) => cluster.suggestedPrimaryId
+
+const contactName = (contact: DuplicateContact) =>
+  [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.email
+
+export function DuplicateContactsModal({ onMergeComplete }: DuplicateContactsModalProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [merging, setMerging] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([])
+  const [skippedBlocks, setSkippedBlocks] = useState<SkippedBlock[]>([])
+  const [selections, setSelections] = useState<Record<string, ClusterSelection>>({})
+  const [mergedCount, setMergedCount] = useState(0)
+
+  const loadClusters = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await ApiClient.get('/api/contacts/duplicates')
+      const found: DuplicateCluster[] = res?.data?.clusters || []
+      setClusters(found)
+      setSkippedBlocks(res?.data?.skipped_blocks || [])
+      setSelections(Object.fromEntries(found.map(cluster => [
+        clusterKey(cluster),
+        { primaryId: cluster.suggestedPrimaryId, resolutions: {} }
+      ])))
+    } catch (err) {
+      console.error('Error loading duplicate contacts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const open = () => {
+    setIsOpen(true)
+    setMergedCount(0)
+    loadClusters()
+  }
+
+  const handleClose = () => {
+    setIsOpen(false)
+    setClusters([])
+    setSkippedBlocks([])
+    setSelections({})
+    setError(null)
+  }
+
+  // Conflicting fields default to the primary's value, or the first contact that has one
+  const resolutionFor = (cluster: DuplicateCluster, field: string) => {
+    const selection = selections[clusterKey(cluster)]
+    const conflict = cluster.conflicts.find(c => c.field === field)
+    if (!selection || !conflict) return undefined
+    if (selection.resolutions[field]) return selection.resolutions[field]
+    return conflict.values.find(v => v.contactId === selection.primaryId)?.contactId || conflict.values[0]?.contactId
+  }
+
+  const updateSelection = (cluster: DuplicateCluster, update: Partial<ClusterSelection>) => {
+    const key = clusterKey(cluster)
+    setSelections(prev => ({ ...prev, [key]: { ...prev[key], ...update } }))
+  }
+
+  const buildMerge = (cluster: DuplicateCluster) => {
+    const selection = selections[clusterKey(cluster)]
+    return {
+      primary_contact_id: selection.primaryId,
+      duplicate_contact_ids: cluster.contacts.map(c => c.id).filter(id => id !== selection.primaryId),
+      field_resolutions: Object.fromEntries(
+        cluster.conflicts.map(conflict => [conflict.field, resolutionFor(cluster, conflict.field)!])
+      )
+    }
+  }
+
+  const mergeClusters = async (toMerge: DuplicateCluster[], busyKey: string) => {
+    if (toMerge.length === 0) return
+    setMerging(busyKey)
+    setError(null)
+    try {
+      const res = await ApiClient.post('/api/contacts/duplicates/merge', {
+        merges: toMerge.map(buildMerge)
+      })
+      const mergedPrimaryIds = new Set<string>((res?.data?.merged || []).map((m: any) => m.primary_contact_id))
+      const failed = res?.data?.failed || []
+
+      setClusters(prev => prev.filter(cluster => !mergedPrimaryIds.has(selections[clusterKey(cluster)]?.primaryId)))
+      setMergedCount(prev => prev + mergedPrimaryIds.size)
+      if (failed.length > 0) {
+        setError(`${failed.length} cluster${failed.length !== 1 ? 's' : ''} could not be merged: ${failed[0].error}`)
+      }
+      if (mergedPrimaryIds.size > 0) onMergeComplete()
+    } catch (err) {
+      console.error('Error merging duplicate contacts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to merge contacts')
+    } finally {
+      setMerging(null)
+    }
+  }
+
+  const skipCluster = (cluster: DuplicateCluster) => {
+    setClusters(prev => prev.filter(c => clusterKey(c) !== clusterKey(cluster)))
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        onClick={open}
+        className="flex items-center space-x-2"
+      >
+        <Copy className="h-4 w-4" />
+        <span>Find Duplicates</span>
+      </Button>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Duplicate Contacts</CardTitle>
+            <div className="flex items-center space-x-2">
+              {clusters.length > 1 && (
+                <Button
+                  size="sm"
+                  onClick={() => mergeClusters(clusters, 'all')}
+                  disabled={merging !== null}
+                >
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  {merging === 'all' ? 'Merging...' : `Merge all (${clusters.length})`}
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={handleClose}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Contacts are grouped by normalized email, LinkedIn profile, phone number or a similar name at the same company.
+            Merging keeps tags, list memberships, notes, email history and campaign progress on the contact you keep.
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!loading && skippedBlocks.length > 0 && (
+            <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {skippedBlocks.reduce((sum, block) => sum + block.contacts, 0)} contacts at companies starting with{' '}
+                {skippedBlocks.map(block => `"${block.companyPrefix}"`).join(', ')} were too many to compare by name and company.
+                Matching email, LinkedIn or phone duplicates among them are still listed.
+              </span>
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="text-gray-600 mt-3">Looking for duplicates...</p>
+            </div>
+          )}
+
+          {!loading && clusters.length === 0 && (
+            <div className="text-center py-8 space-y-2">
+              <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+              <p className="text-gray-900 font-medium">
+                {mergedCount > 0 ? `Merged ${mergedCount} cluster${mergedCount !== 1 ? 's' : ''}` : 'No duplicates found'}
+              </p>
+              <p className="text-sm text-gray-500">Your contact list has no remaining duplicates</p>
+            </div>
+          )}
+
+          {!loading && clusters.map(cluster => {
+            const key = clusterKey(cluster)
+            const selection = selections[key]
+            if (!selection) return null
+
+            return (
+              <div key={key} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center flex-wrap gap-2">
+                    <span className="font-medium text-gray-900">{cluster.contacts.length} contacts</span>
+                    {cluster.reasons.map(reason => (
+                      <Badge key={reason} className="bg-blue-100 text-blue-800">{REASON_LABELS[reason]}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => skipCluster(cluster)} disabled={merging !== null}>
+                      Skip
+                    </Button>
+                    <Button size="sm" onClick={() => mergeClusters([cluster], key)} disabled={merging !== null}>
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      {merging === key ? 'Merging...' : 'Merge'}
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {cluster.contacts.map(contact => (
+                    <label key={contact.id} className="flex items-center space-x-3 text-sm p-2 rounded hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name={`primary-${key}`}
+                        checked={selection.primaryId === contact.id}
+                        onChange={() => updateSelection(cluster, { primaryId: contact.id, resolutions: {} })}
+                      />
+                      <span className="font-medium text-gray-900 w-48 truncate">{contactName(contact)}</span>
+                      <span className="text-gray-600 flex-1 truncate">{contact.email}</span>
+                      <span className="text-gray-500 w-40 truncate">{contact.company || '—'}</span>
+                      {selection.primaryId === contact.id && (
+                        <Badge className="bg-green-100 text-green-800">Keep</Badge>
+                      )}
+                    </label>
+                  ))}
+                </div>
+
+                {cluster.conflicts.length > 0 && (
+                  <div className="bg-gray-50 rounded-md p-3 space-y-2">
+                    <p className="text-xs font-medium text-gray-700 uppercase tracking-wide">Conflicting fields</p>
+                    {cluster.conflicts.map(conflict => (
+                      <div key={conflict.field} className="flex items-start text-sm">
+                        <span className="w-28 text-gray-600 shrink-0">{FIELD_LABELS[conflict.field] || conflict.field}</span>
+                        <div className="flex flex-wrap gap-3">
+                          {conflict.values.map(value => (
+                            <label key={value.contactId} className="flex items-center space-x-1">
+                              <input
+                                type="radio"
+                                name={`${key}-${conflict.field}`}
+                                checked={resolutionFor(cluster, conflict.field) === value.contactId}
+                                onChange={() => updateSelection(cluster, {
+                                  resolutions: { ...selection.resolutions, [conflict.field]: value.contactId }
+                                })}
+                              />
+                              <span className="text-gray-900">{String(value.value)}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
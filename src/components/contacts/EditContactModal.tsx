@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea'
 import { AlertCircle, AlertTriangle, X, Sparkles, Eye, EyeOff } from 'lucide-react'
 import { EnrichmentDisplay } from './EnrichmentDisplay'
+import type { CustomFieldDefinition } from '@/lib/custom-fields'
 
 // Simple Contact interface to avoid import issues
 interface Contact {
@@ -44,6 +45,7 @@ interface Contact {
   enrichment_status?: 'pending' | 'completed' | 'failed' | null
   enrichment_updated_at?: string | null
   source?: string
+  custom_fields?: Record<string, any>
 }
 
 interface EditContactModalProps {
@@ -82,6 +84,8 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showEnrichmentFields, setShowEnrichmentFields] = useState(false)
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([])
+  const [customValues, setCustomValues] = useState<Record<string, any>>({})
   const [formData, setFormData] = useState<ContactFormData>({
     email: '',
     first_name: '',
@@ -107,6 +111,23 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
     source: ''
   })
 
+  // Load the user's custom field definitions when the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    const loadCustomFields = async () => {
+      try {
+        const response = await fetch('/api/contacts/custom-fields')
+        if (response.ok) {
+          const result = await response.json()
+          setCustomFields(result.data.fields)
+        }
+      } catch (error) {
+        console.error('Error fetching custom fields:', error)
+      }
+    }
+    loadCustomFields()
+  }, [isOpen])
+
   // Update form data when contact changes
   useEffect(() => {
     if (contact) {
@@ -144,6 +165,8 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
         source: contact.source || 'manual'
       })
       
+      setCustomValues({ ...(contact.custom_fields || {}) })
+
       // Show enrichment fields only if we truly have meaningful enrichment data
       setShowEnrichmentFields(Boolean(hasMeaningful && contact.enrichment_status === 'completed'))
     }
@@ -158,6 +181,79 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
     setFormData(prev => ({ ...prev, [name]: value }))
   }
 
+  const handleCustomValueChange = (key: string, value: any) => {
+    setCustomValues(prev => ({ ...prev, [key]: value }))
+  }
+
+  const toggleCustomOption = (key: string, option: string, checked: boolean) => {
+    setCustomValues(prev => {
+      const current: string[] = Array.isArray(prev[key]) ? prev[key] : []
+      const next = checked ? [...current, option] : current.filter(item => item !== option)
+      return { ...prev, [key]: next }
+    })
+  }
+
+  const renderCustomFieldInput = (field: CustomFieldDefinition) => {
+    const value = customValues[field.key]
+    const id = `custom_${field.key}`
+
+    switch (field.type) {
+      case 'select':
+        return (
+          <Select value={value ?? ''} onValueChange={(option) => handleCustomValueChange(field.key, option)}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder="Not set" />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      case 'boolean':
+        return (
+          <Select
+            value={value === true ? 'true' : value === false ? 'false' : ''}
+            onValueChange={(option) => handleCustomValueChange(field.key, option === 'true')}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder="Not set" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        )
+      case 'multi_select':
+        return (
+          <div className="flex flex-wrap gap-3 pt-1">
+            {field.options.map(option => (
+              <label key={option} className="flex items-center space-x-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={Array.isArray(value) && value.includes(option)}
+                  onChange={(e) => toggleCustomOption(field.key, option, e.target.checked)}
+                />
+                <span>{option}</span>
+              </label>
+            ))}
+          </div>
+        )
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+            step={field.type === 'number' ? 'any' : undefined}
+            value={value ?? ''}
+            onChange={(e) => handleCustomValueChange(field.key, e.target.value)}
+          />
+        )
+    }
+  }
+
   const validateForm = () => {
     if (!formData.email) {
       setError('Email is required')
@@ -212,6 +308,8 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
         enriched_target_audience: formData.enriched_target_audience?.trim() || undefined,
         enriched_unique_points: formData.enriched_unique_points?.trim() || undefined,
         enriched_tone_style: formData.enriched_tone_style?.trim() || undefined,
+        // Empty values clear the custom field
+        ...(customFields.length > 0 ? { custom_fields: customValues } : {}),
       }
       
       console.log('Sending contact data:', cleanedData)
@@ -503,6 +601,20 @@ export function EditContactModal({ contact, isOpen, onClose, onContactUpdated }:
               </div>
             </div>
 
+            {customFields.length > 0 && (
+              <div className="border-t pt-4 space-y-4">
+                <h3 className="text-sm font-medium text-gray-900">Custom Fields</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {customFields.map(field => (
+                    <div key={field.id}>
+                      <Label htmlFor={`custom_${field.key}`}>{field.label}</Label>
+                      {renderCustomFieldInput(field)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Enrichment Section */}
             {/* Informational banner when enrichment could not find/extract data */}
             {(() => {
@@ -2,10 +2,10 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Mail, MousePointer, MessageSquare, Ban, AlertTriangle } from 'lucide-react'
+import { Mail, MousePointer, MessageSquare, Ban, AlertTriangle, CalendarClock } from 'lucide-react'
 
 export interface EngagementEvent {
-  type: 'sent' | 'delivered' | 'opened' | 'clicked' | 'replied' | 'bounced' | 'complained' | 'unsubscribed'
+  type: 'sent' | 'delivered' | 'opened' | 'clicked' | 'replied' | 'bounced' | 'complained' | 'unsubscribed' | 'postponed'
   timestamp: string
   details?: string
 }
@@ -41,6 +41,8 @@ export function EngagementTimeline({
       case 'complained':
       case 'unsubscribed':
         return <AlertTriangle className="h-4 w-4 text-red-600" />
+      case 'postponed':
+        return <CalendarClock className="h-4 w-4 text-amber-500" />
       default:
         return <Mail className="h-4 w-4 text-gray-500" />
     }
@@ -64,6 +66,8 @@ export function EngagementTimeline({
         return 'Spam Complaint'
       case 'unsubscribed':
         return 'Unsubscribed'
+      case 'postponed':
+        return 'Follow-up Postponed'
       default:
         return 'Unknown Event'
     }
@@ -84,6 +88,8 @@ export function EngagementTimeline({
       case 'complained':
       case 'unsubscribed':
         return 'bg-red-100 text-red-800'
+      case 'postponed':
+        return 'bg-amber-100 text-amber-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { AlertCircle, CheckCircle, Info } from 'lucide-react'
+import { CUSTOM_FIELD_MAPPING_PREFIX, type CustomFieldSpec } from '@/lib/custom-fields'
 
 interface FieldMapping {
   csvField: string
@@ -18,6 +19,7 @@ interface FieldMappingPreviewProps {
   headers: string[]
   sampleRows: Record<string, string>[]
   fieldMappings: FieldMapping[]
+  customFields?: CustomFieldSpec[]
   onMappingChange: (csvField: string, contactField: string) => void
   errors: string[]
 }
@@ -46,9 +48,16 @@ export function FieldMappingPreview({
   headers,
   sampleRows,
   fieldMappings,
+  customFields = [],
   onMappingChange,
   errors
 }: FieldMappingPreviewProps) {
+  // Contact fields followed by the user's custom fields
+  const fieldOptions: Record<string, { label: string; required: boolean }> = { ...CONTACT_FIELD_OPTIONS }
+  customFields.forEach(field => {
+    fieldOptions[`${CUSTOM_FIELD_MAPPING_PREFIX}${field.key}`] = { label: `Custom: ${field.label}`, required: false }
+  })
+
   // Create lookup for current mappings
   const mappingLookup = new Map<string, string>()
   fieldMappings.forEach(mapping => {
@@ -129,7 +138,7 @@ export function FieldMappingPreview({
                   <span className="text-yellow-800 text-sm font-medium">Duplicate Mappings:</span>
                   <div className="text-yellow-700 text-sm mt-1">
                     {duplicateFields.map(([contactField, csvFields]) => 
-                      `${CONTACT_FIELD_OPTIONS[contactField as keyof typeof CONTACT_FIELD_OPTIONS]?.label} is mapped from: ${csvFields.join(', ')}`
+                      `${fieldOptions[contactField]?.label} is mapped from: ${csvFields.join(', ')}`
                     ).join('. ')}
                   </div>
                 </div>
@@ -223,7 +232,7 @@ export function FieldMappingPreview({
                         <SelectValue placeholder="Select field..." />
                       </SelectTrigger>
                       <SelectContent className="z-50">
-                        {Object.entries(CONTACT_FIELD_OPTIONS).map(([value, config]) => {
+                        {Object.entries(fieldOptions).map(([value, config]) => {
                           // Check if this field is already mapped to prevent duplicates
                           const isAlreadyMapped = Array.from(mappingLookup.values()).includes(value) && mappingLookup.get(header) !== value
                           
@@ -251,7 +260,7 @@ export function FieldMappingPreview({
 
                   {/* Status Indicator */}
                   <div className="w-6">
-                    {currentMapping && currentMapping !== '__skip__' && CONTACT_FIELD_OPTIONS[currentMapping as keyof typeof CONTACT_FIELD_OPTIONS] ? (
+                    {currentMapping && currentMapping !== '__skip__' && fieldOptions[currentMapping] ? (
                       <CheckCircle className="h-5 w-5 text-green-500" />
                     ) : currentMapping === '__skip__' ? (
                       <Info className="h-5 w-5 text-gray-400" />
@@ -280,7 +289,7 @@ export function FieldMappingPreview({
               <table className="w-full text-sm border-collapse">
                 <thead>
                   <tr className="border-b">
-                    {Object.entries(CONTACT_FIELD_OPTIONS)
+                    {Object.entries(fieldOptions)
                       .filter(([field]) => field && field !== '__skip__' && fieldMappings.some(m => m.contactField === field && m.csvField && m.csvField !== '__skip__'))
                       .map(([field, config]) => (
                         <th key={field} className="text-left p-2 font-medium">
@@ -307,7 +316,7 @@ export function FieldMappingPreview({
                     
                     return (
                       <tr key={index} className="border-b">
-                        {Object.entries(CONTACT_FIELD_OPTIONS)
+                        {Object.entries(fieldOptions)
                           .filter(([field]) => field && field !== '__skip__' && fieldMappings.some(m => m.contactField === field && m.csvField && m.csvField !== '__skip__'))
                           .map(([field]) => (
                             <td key={field} className="p-2 text-gray-700">
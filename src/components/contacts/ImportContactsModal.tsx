@@ -1,10 +1,11 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { AlertCircle, Upload, X, FileText, CheckCircle, XCircle, ChevronLeft, ChevronRight } from 'lucide-react'
 import { FieldMappingPreview } from './FieldMappingPreview'
+import type { CustomFieldDefinition } from '@/lib/custom-fields'
 
 interface ImportContactsModalProps {
   onImportComplete: () => void
@@ -32,7 +33,12 @@ interface PreviewData {
     row: number
     error: string
   }>
-  detectedDelimiter: string
+  detectedDelimiter: string | null
+  format: 'csv' | 'xlsx' | 'vcard'
+  dialect: 'generic' | 'google' | 'outlook' | 'linkedin'
+  sheets: string[]
+  selectedSheet: string | null
+  customFields: CustomFieldDefinition[]
 }
 
 type ImportStep = 'file-upload' | 'field-mapping' | 'importing' | 'results'
@@ -40,10 +46,11 @@ type ImportStep = 'file-upload' | 'field-mapping' | 'importing' | 'results'
 interface ImportResult {
   created: number
   skipped: number
+  errorCount: number
   errors: Array<{
     row: number
     error: string
-    data: any
+    data?: any
   }>
   validationSummary: {
     total: number
@@ -53,6 +60,25 @@ interface ImportResult {
   }
 }
 
+interface ImportJobProgress extends ImportResult {
+  id: string
+  status: 'staging' | 'pending' | 'processing' | 'completed' | 'failed'
+  totalRows: number
+  processedRows: number
+  error: string | null
+}
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx', '.vcf', '.vcard']
+const MAX_FILE_SIZE_MB = 100
+const PROGRESS_POLL_INTERVAL_MS = 1500
+
+const DIALECT_LABELS: Record<PreviewData['dialect'], string | null> = {
+  generic: null,
+  google: 'Google Contacts export',
+  outlook: 'Outlook export',
+  linkedin: 'LinkedIn Connections export'
+}
+
 export function ImportContactsModal({ onImportComplete }: ImportContactsModalProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [currentStep, setCurrentStep] = useState<ImportStep>('file-upload')
@@ -62,21 +88,34 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
   const [previewData, setPreviewData] = useState<PreviewData | null>(null)
   const [customFieldMappings, setCustomFieldMappings] = useState<FieldMapping[]>([])
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [excludeRiskyEmails, setExcludeRiskyEmails] = useState(false)
+  const [selectedSheet, setSelectedSheet] = useState<string | null>(null)
+  const [jobProgress, setJobProgress] = useState<ImportJobProgress | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const stopPolling = () => {
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current)
+      pollTimerRef.current = null
+    }
+  }
+
+  useEffect(() => stopPolling, [])
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please select a CSV file')
+    if (!ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
+      setError('Please select a CSV, Excel (.xlsx) or vCard (.vcf) file')
       return
     }
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('File size must be less than 10MB')
+    // Validate file size (the server applies a lower limit to XLSX and vCard files)
+    if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+      setError(`File size must be less than ${MAX_FILE_SIZE_MB}MB`)
       return
     }
 
@@ -85,16 +124,20 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
     setImportResult(null)
     setPreviewData(null)
     setCustomFieldMappings([])
+    setSelectedSheet(null)
 
     // Generate preview data
-    await generatePreview(file)
+    await generatePreview(file, null)
   }
 
-  const generatePreview = async (file: File) => {
+  const generatePreview = async (file: File, sheet: string | null) => {
     setLoading(true)
     try {
       const formData = new FormData()
       formData.append('file', file)
+      if (sheet) {
+        formData.append('sheet', sheet)
+      }
 
       const response = await fetch('/api/contacts/import', {
         method: 'PUT', // Use PUT for preview
@@ -104,28 +147,38 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to preview CSV file')
+        throw new Error(data.error || 'Failed to preview file')
       }
 
       setPreviewData(data.data)
       setCustomFieldMappings(data.data.fieldMappings || [])
+      setSelectedSheet(data.data.selectedSheet || null)
       
     } catch (error) {
       console.error('Error generating preview:', error)
-      setError(error instanceof Error ? error.message : 'Failed to preview CSV file')
+      setError(error instanceof Error ? error.message : 'Failed to preview file')
     } finally {
       setLoading(false)
     }
   }
 
+  const handleSheetChange = async (sheet: string) => {
+    if (!selectedFile) return
+    setError(null)
+    setSelectedSheet(sheet)
+    await generatePreview(selectedFile, sheet)
+  }
+
   const handleMappingChange = (csvField: string, contactField: string) => {
     console.log(`ImportContactsModal: Mapping ${csvField} to ${contactField}`)
     setCustomFieldMappings(prev => {
-      const updated = prev.map(mapping => 
-        mapping.csvField === csvField 
-          ? { ...mapping, contactField }
-          : mapping
-      )
+      const updated = prev.some(mapping => mapping.csvField === csvField)
+        ? prev.map(mapping =>
+          mapping.csvField === csvField
+            ? { ...mapping, contactField }
+            : mapping
+        )
+        : [...prev, { csvField, contactField, required: false }]
       console.log('ImportContactsModal: Updated mappings:', updated)
       return updated
     })
@@ -154,7 +207,7 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
 
   const handleImport = async () => {
     if (!selectedFile || !customFieldMappings) {
-      setError('Please select a CSV file and configure field mappings')
+      setError('Please select a file and configure field mappings')
       return
     }
 
@@ -166,11 +219,15 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
       
       const formData = new FormData()
       formData.append('file', selectedFile)
+      if (selectedSheet) {
+        formData.append('sheet', selectedSheet)
+      }
       formData.append('mappings', JSON.stringify(customFieldMappings))
       formData.append('options', JSON.stringify({
         skipDuplicates: true,
         validateEmails: true,
-        importInvalidContacts: false
+        importInvalidContacts: false,
+        excludeRiskyEmails
       }))
 
       const response = await fetch('/api/contacts/import', {
@@ -182,27 +239,57 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to import contacts')
-        setCurrentStep('field-mapping') // Go back to mapping step on error
-        return
       }
 
-      console.log('ImportContactsModal: Import completed:', data)
-      setImportResult(data.data)
-      setCurrentStep('results')
-      
-      // Call the completion callback to refresh the contacts list
-      onImportComplete()
+      // The import runs in the background; follow its progress
+      console.log('ImportContactsModal: Import job started:', data.data)
+      pollImportJob(data.data.job_id)
 
     } catch (error) {
       console.error('ImportContactsModal: Error importing contacts:', error)
       setError(error instanceof Error ? error.message : 'Failed to import contacts')
       setCurrentStep('field-mapping') // Go back to mapping step on error
-    } finally {
+      setLoading(false)
+    }
+  }
+
+  const pollImportJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/contacts/import/${jobId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load import progress')
+      }
+
+      const job: ImportJobProgress = data.data
+      setJobProgress(job)
+
+      if (job.status === 'completed') {
+        setImportResult(job)
+        setCurrentStep('results')
+        setLoading(false)
+
+        // Call the completion callback to refresh the contacts list
+        onImportComplete()
+        return
+      }
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Import failed')
+      }
+
+      pollTimerRef.current = setTimeout(() => pollImportJob(jobId), PROGRESS_POLL_INTERVAL_MS)
+    } catch (error) {
+      console.error('ImportContactsModal: Error importing contacts:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import contacts')
+      setCurrentStep('field-mapping')
       setLoading(false)
     }
   }
 
   const handleClose = () => {
+    stopPolling()
     setIsOpen(false)
     setCurrentStep('file-upload')
     setError(null)
@@ -210,6 +297,8 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
     setPreviewData(null)
     setCustomFieldMappings([])
     setImportResult(null)
+    setSelectedSheet(null)
+    setJobProgress(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -221,6 +310,8 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
     setPreviewData(null)
     setCustomFieldMappings([])
     setImportResult(null)
+    setSelectedSheet(null)
+    setJobProgress(null)
     setError(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
@@ -247,18 +338,18 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
         className="flex items-center space-x-2"
       >
         <Upload className="h-4 w-4" />
-        <span>Import CSV</span>
+        <span>Import Contacts</span>
       </Button>
     )
   }
 
   const getStepTitle = () => {
     switch (currentStep) {
-      case 'file-upload': return 'Select CSV File'
+      case 'file-upload': return 'Select File'
       case 'field-mapping': return 'Configure Field Mapping'
       case 'importing': return 'Importing Contacts'
       case 'results': return 'Import Complete'
-      default: return 'Import Contacts from CSV'
+      default: return 'Import Contacts'
     }
   }
 
@@ -317,12 +408,13 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
             <div className="space-y-6">
               {/* Instructions */}
               <div className="bg-blue-50 p-4 rounded-lg">
-                <h4 className="font-medium text-blue-900 mb-2">CSV Format Requirements</h4>
+                <h4 className="font-medium text-blue-900 mb-2">File Format Requirements</h4>
                 <ul className="text-sm text-blue-800 space-y-1">
+                  <li>• <strong>Supported files:</strong> CSV, Excel (.xlsx), vCard (.vcf) and the contact exports of Google Contacts, Outlook and LinkedIn</li>
                   <li>• <strong>Required column:</strong> <code>email</code> (only field that's mandatory)</li>
                   <li>• <strong>Optional columns:</strong> <code>first_name</code>, <code>last_name</code>, <code>company</code>, <code>position</code>, <code>phone</code>, <code>website</code>, <code>address</code>, <code>postcode</code></li>
                   <li>• First row should contain column headers</li>
-                  <li>• Maximum file size: 10MB</li>
+                  <li>• Maximum file size: {MAX_FILE_SIZE_MB}MB for CSV, 25MB for Excel and vCard</li>
                   <li>• You can customize field mappings in the next step</li>
                   <li>• Any unmapped columns will be saved as custom fields</li>
                 </ul>
@@ -351,7 +443,7 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                   ) : (
                     <div className="space-y-2">
                       <p className="text-sm text-gray-600">
-                        Click to select a CSV file
+                        Click to select a file
                       </p>
                       <Button
                         variant="outline"
@@ -359,7 +451,7 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                         disabled={loading}
                       >
                         <Upload className="h-4 w-4 mr-2" />
-                        Select CSV File
+                        Select File
                       </Button>
                     </div>
                   )}
@@ -367,16 +459,44 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept={ACCEPTED_EXTENSIONS.join(',')}
                     onChange={handleFileSelect}
                     className="hidden"
                   />
                 </div>
               </div>
 
+              {previewData && previewData.sheets.length > 1 && (
+                <div className="flex items-center space-x-3">
+                  <label htmlFor="import-sheet" className="text-sm font-medium text-gray-700">Sheet</label>
+                  <select
+                    id="import-sheet"
+                    className="border rounded-md px-3 py-2 text-sm"
+                    value={selectedSheet || ''}
+                    onChange={(e) => handleSheetChange(e.target.value)}
+                    disabled={loading}
+                  >
+                    {previewData.sheets.map(sheet => (
+                      <option key={sheet} value={sheet}>{sheet}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {previewData && !loading && (
+                <div className="text-sm text-gray-600">
+                  {DIALECT_LABELS[previewData.dialect] && (
+                    <span className="font-medium text-gray-900">Detected {DIALECT_LABELS[previewData.dialect]}. </span>
+                  )}
+                  {previewData.format === 'csv'
+                    ? `${previewData.headers.length} columns found`
+                    : `${previewData.totalRows} contacts found`}
+                </div>
+              )}
+
               {loading && (
                 <div className="text-center text-sm text-gray-600">
-                  Analyzing CSV file...
+                  Analyzing file...
                 </div>
               )}
 
@@ -403,9 +523,25 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                 headers={previewData.headers}
                 sampleRows={previewData.sampleRows}
                 fieldMappings={customFieldMappings}
+                customFields={previewData.customFields}
                 onMappingChange={handleMappingChange}
                 errors={[]}
               />
+
+              <label className="flex items-start space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={excludeRiskyEmails}
+                  onChange={(e) => setExcludeRiskyEmails(e.target.checked)}
+                />
+                <span>
+                  <span className="font-medium text-gray-900">Skip risky emails</span>
+                  <span className="block text-gray-600">
+                    Invalid addresses are always skipped. Also leave out catch-all domains, role accounts (info@, sales@) and disposable addresses.
+                  </span>
+                </span>
+              </label>
               
               {/* Actions */}
               <div className="flex justify-between">
@@ -426,7 +562,22 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
             <div className="text-center space-y-4">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
               <p className="text-gray-600">Importing your contacts...</p>
-              <p className="text-sm text-gray-500">This may take a few moments depending on file size</p>
+              {jobProgress && jobProgress.totalRows > 0 ? (
+                <div className="max-w-md mx-auto space-y-2">
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{ width: `${Math.min(100, Math.round((jobProgress.processedRows / jobProgress.totalRows) * 100))}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {jobProgress.processedRows} of {jobProgress.totalRows} rows processed, {jobProgress.created} contacts created
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Uploading and reading your file...</p>
+              )}
+              <p className="text-xs text-gray-500">The import keeps running if you close this dialog</p>
             </div>
           )}
 
@@ -454,7 +605,7 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                 </Card>
                 <Card>
                   <CardContent className="p-4 text-center">
-                    <div className="text-3xl font-bold text-red-600">{importResult.errors.length}</div>
+                    <div className="text-3xl font-bold text-red-600">{importResult.errorCount}</div>
                     <div className="text-sm text-gray-600">Errors</div>
                   </CardContent>
                 </Card>
@@ -495,7 +646,7 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                   <CardContent className="p-4">
                     <h4 className="font-medium text-gray-900 mb-3 flex items-center">
                       <XCircle className="h-4 w-4 text-red-600 mr-2" />
-                      Import Errors ({importResult.errors.length})
+                      Import Errors ({importResult.errorCount})
                     </h4>
                     <div className="max-h-48 overflow-y-auto space-y-2">
                       {importResult.errors.slice(0, 10).map((error, index) => (
@@ -509,9 +660,9 @@ export function ImportContactsModal({ onImportComplete }: ImportContactsModalPro
                           )}
                         </div>
                       ))}
-                      {importResult.errors.length > 10 && (
+                      {importResult.errorCount > 10 && (
                         <div className="text-sm text-gray-600 text-center py-2">
-                          ... and {importResult.errors.length - 10} more errors
+                          ... and {importResult.errorCount - 10} more errors
                         </div>
                       )}
                     </div>
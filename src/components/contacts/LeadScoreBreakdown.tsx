@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { getEngagementScoreColor } from '@/lib/contact-engagement'
+import type { LeadScoreBreakdown as Breakdown, LeadScoreItem } from '@/lib/lead-scoring'
+import { RefreshCw } from 'lucide-react'
+
+interface LeadScoreBreakdownProps {
+  contactId: string
+  className?: string
+}
+
+interface LeadScoreResponse {
+  score: number
+  breakdown: Breakdown | null
+  updatedAt: string | null
+}
+
+const CATEGORY_TITLES: Record<LeadScoreItem['category'], string> = {
+  firmographic: 'Company & role fit',
+  behaviour: 'Engagement (with decay)',
+  negative: 'Negative signals',
+}
+
+export function LeadScoreBreakdown({ contactId, className = '' }: LeadScoreBreakdownProps) {
+  const [leadScore, setLeadScore] = useState<LeadScoreResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [recalculating, setRecalculating] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/contacts/${contactId}/lead-score`)
+        if (response.ok) {
+          const result = await response.json()
+          setLeadScore(result.data)
+        }
+      } catch (error) {
+        console.error('Error fetching lead score:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [contactId])
+
+  const recalculate = async () => {
+    try {
+      setRecalculating(true)
+      const response = await fetch(`/api/contacts/${contactId}/lead-score`, { method: 'POST' })
+      if (response.ok) {
+        const result = await response.json()
+        setLeadScore(result.data)
+      }
+    } catch (error) {
+      console.error('Error recalculating lead score:', error)
+    } finally {
+      setRecalculating(false)
+    }
+  }
+
+  const score = leadScore?.score ?? 0
+  const items = leadScore?.breakdown?.items ?? []
+  const scoreColor = getEngagementScoreColor(score)
+
+  const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${points}`
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <span>Lead Score</span>
+            {!loading && (
+              <Badge variant="secondary" className={`${scoreColor.bgColor} ${scoreColor.color} border-0`}>
+                {score}/100
+              </Badge>
+            )}
+          </span>
+          <Button variant="ghost" size="sm" onClick={recalculate} disabled={loading || recalculating}>
+            <RefreshCw className={`h-4 w-4 ${recalculating ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            <Progress value={score} className="h-2" />
+
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No scoring rule applies to this contact yet.
+              </p>
+            ) : (
+              (Object.keys(CATEGORY_TITLES) as LeadScoreItem['category'][]).map(category => {
+                const categoryItems = items.filter(item => item.category === category)
+                if (categoryItems.length === 0) return null
+
+                return (
+                  <div key={category} className="border-t pt-3 space-y-1">
+                    <div className="text-sm font-medium">{CATEGORY_TITLES[category]}</div>
+                    {categoryItems.map(item => (
+                      <div key={item.key} className="flex justify-between text-xs">
+                        <span>
+                          {item.label}
+                          {item.category !== 'firmographic' && (
+                            <span className="text-muted-foreground"> ({item.count}×)</span>
+                          )}
+                        </span>
+                        <span className={item.points < 0 ? 'text-red-600' : 'text-green-700'}>
+                          {formatPoints(item.points)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )
+              })
+            )}
+
+            {leadScore?.breakdown && leadScore.breakdown.rawScore !== score && (
+              <p className="text-xs text-muted-foreground">
+                Raw total {leadScore.breakdown.rawScore}, limited to the 0-100 range.
+              </p>
+            )}
+            {leadScore?.updatedAt && (
+              <p className="text-xs text-muted-foreground">
+                Calculated {new Date(leadScore.updatedAt).toLocaleString()}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
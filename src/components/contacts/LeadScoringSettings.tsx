@@ -0,0 +1,296 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2, Save, RotateCcw } from 'lucide-react'
+import {
+  BEHAVIOUR_EVENTS,
+  FIRMOGRAPHIC_ATTRIBUTE_LABELS,
+  NEGATIVE_SIGNALS,
+  type FirmographicAttribute,
+  type FirmographicRule,
+  type LeadScoringModel,
+} from '@/lib/lead-scoring'
+
+const BEHAVIOUR_LABELS = { open: 'Email open', click: 'Link click', reply: 'Reply' }
+const NEGATIVE_LABELS = { bounce: 'Bounce', complaint: 'Spam complaint', unsubscribe: 'Unsubscribe', out_of_office: 'Out of office' }
+
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+
+export function LeadScoringSettings() {
+  const [model, setModel] = useState<LeadScoringModel | null>(null)
+  const [defaultModel, setDefaultModel] = useState<LeadScoringModel | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/contacts/lead-scoring')
+        if (response.ok) {
+          const result = await response.json()
+          setModel(result.data.model)
+          setDefaultModel(result.data.defaultModel)
+        }
+      } catch (error) {
+        console.error('Error fetching lead scoring model:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const updateRule = (index: number, changes: Partial<FirmographicRule>) => {
+    setModel(prev => prev && {
+      ...prev,
+      firmographic: prev.firmographic.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    })
+  }
+
+  const addRule = () => {
+    setModel(prev => prev && {
+      ...prev,
+      firmographic: [
+        ...prev.firmographic,
+        { id: crypto.randomUUID(), label: 'New rule', attribute: 'industry', keywords: [], points: 10 },
+      ],
+    })
+  }
+
+  const removeRule = (index: number) => {
+    setModel(prev => prev && { ...prev, firmographic: prev.firmographic.filter((_, i) => i !== index) })
+  }
+
+  const handleSave = async () => {
+    if (!model) return
+    try {
+      setSaving(true)
+      setMessage(null)
+      const response = await fetch('/api/contacts/lead-scoring', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(model),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save lead scoring model')
+      }
+      setModel(result.data.model)
+      setMessage({ type: 'success', text: 'Saved. All contacts are being rescored in the background.' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save lead scoring model' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading || !model) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-center">
+            {loading
+              ? <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              : <p className="text-sm text-gray-600">Lead scoring settings could not be loaded.</p>}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Lead Scoring</h2>
+          <p className="text-gray-600 text-sm">
+            Scores from 0 to 100 combine company and role fit, recent engagement and negative signals
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {defaultModel && (
+            <Button variant="outline" onClick={() => setModel(defaultModel)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Defaults
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Model'}
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg border p-3 text-sm ${message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Company & role fit</CardTitle>
+          <CardDescription>
+            Points for what enrichment knows about the contact. Keywords match case-insensitively anywhere in the value.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {model.firmographic.map((rule, index) => (
+            <div key={rule.id} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-3">
+                <Label className="text-xs">Label</Label>
+                <Input value={rule.label} onChange={(e) => updateRule(index, { label: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <Label className="text-xs">Attribute</Label>
+                <Select
+                  value={rule.attribute}
+                  onValueChange={(value) => updateRule(index, { attribute: value as FirmographicAttribute })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FIRMOGRAPHIC_ATTRIBUTE_LABELS) as FirmographicAttribute[]).map(attribute => (
+                      <SelectItem key={attribute} value={attribute}>
+                        {FIRMOGRAPHIC_ATTRIBUTE_LABELS[attribute]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {rule.attribute === 'company_size' ? (
+                <>
+                  <div className="col-span-2">
+                    <Label className="text-xs">Min employees</Label>
+                    <Input
+                      type="number"
+                      value={rule.minEmployees ?? ''}
+                      onChange={(e) => updateRule(index, { minEmployees: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Label className="text-xs">Max employees</Label>
+                    <Input
+                      type="number"
+                      value={rule.maxEmployees ?? ''}
+                      onChange={(e) => updateRule(index, { maxEmployees: toNumber(e.target.value) })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="col-span-4">
+                  <Label className="text-xs">Keywords (comma separated)</Label>
+                  <Input
+                    value={(rule.keywords || []).join(', ')}
+                    onChange={(e) => updateRule(index, {
+                      keywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean),
+                    })}
+                  />
+                </div>
+              )}
+              <div className="col-span-2">
+                <Label className="text-xs">Points</Label>
+                <Input
+                  type="number"
+                  value={rule.points}
+                  onChange={(e) => updateRule(index, { points: Number(e.target.value) })}
+                />
+              </div>
+              <div className="col-span-1">
+                <Button variant="ghost" size="sm" onClick={() => removeRule(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Engagement</CardTitle>
+            <CardDescription>
+              Points per event, counting only the most recent events. An event is worth half after the half-life.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {BEHAVIOUR_EVENTS.map(event => (
+              <div key={event} className="grid grid-cols-3 gap-2 items-end">
+                <span className="text-sm">{BEHAVIOUR_LABELS[event]}</span>
+                <div>
+                  <Label className="text-xs">Points</Label>
+                  <Input
+                    type="number"
+                    value={model.behaviour[event].points}
+                    onChange={(e) => setModel({
+                      ...model,
+                      behaviour: { ...model.behaviour, [event]: { ...model.behaviour[event], points: Number(e.target.value) } },
+                    })}
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Max events</Label>
+                  <Input
+                    type="number"
+                    value={model.behaviour[event].maxEvents}
+                    onChange={(e) => setModel({
+                      ...model,
+                      behaviour: { ...model.behaviour, [event]: { ...model.behaviour[event], maxEvents: Number(e.target.value) } },
+                    })}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="grid grid-cols-3 gap-2 items-end">
+              <span className="text-sm">Half-life (days)</span>
+              <Input
+                type="number"
+                value={model.halfLifeDays}
+                onChange={(e) => setModel({ ...model, halfLifeDays: Number(e.target.value) })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Negative signals</CardTitle>
+            <CardDescription>
+              Applied once when present. Out-of-office replies fade with the half-life.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {NEGATIVE_SIGNALS.map(signal => (
+              <div key={signal} className="grid grid-cols-3 gap-2 items-end">
+                <span className="text-sm col-span-2">{NEGATIVE_LABELS[signal]}</span>
+                <Input
+                  type="number"
+                  value={model.negative[signal]}
+                  onChange={(e) => setModel({ ...model, negative: { ...model.negative, [signal]: Number(e.target.value) } })}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -26,6 +26,8 @@ interface ContactSegment {
   name: string
   description: string
   contactCount: number
+  isDynamic?: boolean
+  refreshedAt?: string | null
   createdAt?: string
 }
 
@@ -48,9 +50,9 @@ export function SegmentManager({ userId }: SegmentManagerProps) {
       const response = await fetch('/api/contacts/segments')
       
       if (response.ok) {
-        const data = await response.json()
-        if (Array.isArray(data)) {
-          setSegments(data)
+        const result = await response.json()
+        if (Array.isArray(result.data)) {
+          setSegments(result.data)
         }
       }
     } catch (error) {
@@ -61,7 +63,8 @@ export function SegmentManager({ userId }: SegmentManagerProps) {
   }
 
   const handleSegmentCreated = (newSegment: ContactSegment) => {
-    setSegments(prev => [...prev, newSegment])
+    // Keep the default segment first, newest custom segments next
+    setSegments(prev => [...prev.filter(s => s.id === 'all-contacts'), newSegment, ...prev.filter(s => s.id !== 'all-contacts')])
   }
 
   const handleDeleteSegment = async (segmentId: string) => {
@@ -155,7 +158,7 @@ export function SegmentManager({ userId }: SegmentManagerProps) {
                     <span>{(segment.contactCount || 0).toLocaleString()} contacts</span>
                   </div>
                   <Badge variant="secondary">
-                    {segment.id === 'all-contacts' ? 'Default' : 'Custom'}
+                    {segment.id === 'all-contacts' ? 'Default' : segment.isDynamic === false ? 'Static' : 'Dynamic'}
                   </Badge>
                 </div>
               </CardContent>
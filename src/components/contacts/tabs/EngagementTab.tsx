@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { Contact } from '@/lib/contacts'
 import { EngagementBreakdown } from '../EngagementBreakdown'
+import { LeadScoreBreakdown } from '../LeadScoreBreakdown'
 import { EngagementTimeline, type EngagementEvent } from '../EngagementTimeline'
 import type { ContactEngagementStatus } from '@/lib/contact-engagement'
 import { Badge } from '@/components/ui/badge'
@@ -218,6 +219,8 @@ export function EngagementTab({
             lastPositiveAt={(contact as any).engagement_last_positive_at}
           />
 
+          {contact.id && <LeadScoreBreakdown contactId={contact.id} />}
+
           {/* Quick Actions based on engagement status */}
           <div className="bg-gray-50 rounded-lg p-6">
             <h4 className="text-sm font-medium text-gray-900 mb-4">Recommended Actions</h4>
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Contact } from '@/lib/contacts'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { History, RotateCcw, User, Sparkles, MailWarning, Bot, Settings } from 'lucide-react'
+
+interface HistoryTabProps {
+  contact: Contact
+  onContactUpdate: (contact: Contact) => void
+}
+
+interface HistoryEntry {
+  id: string
+  group_id: string
+  field: string
+  old_value: unknown
+  new_value: unknown
+  actor_type: 'user' | 'enrichment' | 'bounce_processor' | 'ai_persona' | 'system'
+  actor_id: string | null
+  source: string
+  reverts_change_id: string | null
+  reverted: boolean
+  created_at: string
+}
+
+interface HistoryGroup {
+  id: string
+  entries: HistoryEntry[]
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  contact_update: 'Edited',
+  tags_add: 'Tags added',
+  tags_remove: 'Tags removed',
+  enrichment: 'Enrichment run',
+  bounce: 'Bounce',
+  merge: 'Merged duplicates',
+  autonomous_reply: 'AI persona reply',
+  revert: 'Reverted',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  linkedin_url: 'LinkedIn URL',
+  twitter_url: 'Twitter URL',
+  enrichment_data: 'Company enrichment',
+  linkedin_profile_data: 'LinkedIn profile',
+  enrichment_field_sources: 'Enrichment field sources',
+}
+
+function fieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field]
+  const words = field.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '—' : value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ')
+  }
+  if (typeof value === 'object') {
+    const text = JSON.stringify(value)
+    return text.length > 120 ? `${text.slice(0, 120)}…` : text
+  }
+  const text = String(value)
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text
+}
+
+function actorLabel(entry: HistoryEntry): string {
+  switch (entry.actor_type) {
+    case 'user':
+      return 'You'
+    case 'enrichment':
+      return entry.actor_id ? `Enrichment (${entry.actor_id.split(',').join(' + ')})` : 'Enrichment'
+    case 'bounce_processor':
+      return 'Bounce processor'
+    case 'ai_persona':
+      return 'AI persona'
+    default:
+      return 'System'
+  }
+}
+
+function ActorIcon({ type }: { type: HistoryEntry['actor_type'] }) {
+  switch (type) {
+    case 'user':
+      return <User className="h-4 w-4 text-blue-600" />
+    case 'enrichment':
+      return <Sparkles className="h-4 w-4 text-purple-600" />
+    case 'bounce_processor':
+      return <MailWarning className="h-4 w-4 text-red-600" />
+    case 'ai_persona':
+      return <Bot className="h-4 w-4 text-green-600" />
+    default:
+      return <Settings className="h-4 w-4 text-gray-600" />
+  }
+}
+
+/**
+ * Group consecutive entries of the same operation, keeping the newest first order
+ */
+function groupEntries(entries: HistoryEntry[]): HistoryGroup[] {
+  const groups: HistoryGroup[] = []
+  for (const entry of entries) {
+    const last = groups[groups.length - 1]
+    if (last && last.id === entry.group_id) {
+      last.entries.push(entry)
+    } else {
+      groups.push({ id: entry.group_id, entries: [entry] })
+    }
+  }
+  return groups
+}
+
+const canRevert = (entry: HistoryEntry) => !entry.reverted && entry.source !== 'revert'
+
+export function HistoryTab({
+  contact,
+  onContactUpdate
+}: HistoryTabProps) {
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [reverting, setReverting] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    if (!contact.id) return
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}/history`)
+      const result = await response.json()
+
+      if (result.success) {
+        setHistory(result.data?.history || [])
+      } else {
+        console.error('Failed to fetch contact history:', result.error)
+      }
+    } catch (error) {
+      console.error('Error fetching contact history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [contact.id])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const revert = async (target: { change_id: string } | { group_id: string }, key: string) => {
+    setReverting(key)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}/history/revert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(target)
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setMessage({ type: 'error', text: result.error || 'Failed to revert change' })
+        return
+      }
+
+      if (result.data?.contact) {
+        onContactUpdate({ ...contact, ...result.data.contact })
+      }
+      if (result.data?.conflicts?.length > 0) {
+        const fields = result.data.conflicts.map((conflict: { field: string }) => fieldLabel(conflict.field))
+        setMessage({ type: 'info', text: `Not reverted because they changed since: ${fields.join(', ')}` })
+      }
+      await loadHistory()
+    } catch (error) {
+      console.error('Error reverting change:', error)
+      setMessage({ type: 'error', text: 'Failed to revert change' })
+    } finally {
+      setReverting(null)
+    }
+  }
+
+  if (loading && history.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading history...</p>
+      </div>
+    )
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No changes yet</h3>
+        <p className="text-gray-600">Edits, enrichment runs and bounces will show up here.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className={`rounded-md border px-4 py-3 text-sm ${message.type === 'error' ? 'border-red-200 bg-red-50 text-red-700' : 'border-yellow-200 bg-yellow-50 text-yellow-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {groupEntries(history).map(group => {
+        const first = group.entries[0]
+        const revertable = group.entries.filter(canRevert)
+
+        return (
+          <div key={group.id} className="border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200">
+              <div className="flex items-center gap-2 text-sm">
+                <ActorIcon type={first.actor_type} />
+                <span className="font-medium text-gray-900">{actorLabel(first)}</span>
+                <Badge variant="outline">{SOURCE_LABELS[first.source] || first.source}</Badge>
+                <span className="text-gray-500">{new Date(first.created_at).toLocaleString()}</span>
+              </div>
+              {revertable.length > 1 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={reverting !== null}
+                  onClick={() => revert({ group_id: group.id }, group.id)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  {reverting === group.id ? 'Reverting...' : first.source === 'enrichment' ? 'Revert run' : 'Revert all'}
+                </Button>
+              )}
+            </div>
+
+            <ul className="divide-y divide-gray-100">
+              {group.entries.map(entry => (
+                <li key={entry.id} className="flex items-start justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0 text-sm">
+                    <div className="font-medium text-gray-700">
+                      {fieldLabel(entry.field)}
+                      {entry.reverted && <Badge variant="secondary" className="ml-2">Reverted</Badge>}
+                    </div>
+                    <div className="mt-1 break-words">
+                      <span className="text-gray-500 line-through">{formatValue(entry.old_value)}</span>
+                      <span className="mx-2 text-gray-400">→</span>
+                      <span className="text-gray-900">{formatValue(entry.new_value)}</span>
+                    </div>
+                  </div>
+                  {canRevert(entry) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={reverting !== null}
+                      onClick={() => revert({ change_id: entry.id }, entry.id)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {reverting === entry.id ? 'Reverting...' : 'Revert'}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
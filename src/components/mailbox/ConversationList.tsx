@@ -0,0 +1,685 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { AlarmClock, BellRing, CheckCircle2, Inbox, MessagesSquare, RefreshCw, RotateCcw, Send, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+type ConversationStatus = 'open' | 'snoozed' | 'done'
+
+interface Conversation {
+  id: string
+  subject: string | null
+  participants: string[]
+  status: ConversationStatus
+  snoozed_until: string | null
+  assignees: string[]
+  labels: string[]
+  message_count: number
+  last_message_at: string | null
+  last_direction: 'inbound' | 'outbound' | null
+  contact: { id: string; email: string; first_name: string | null; last_name: string | null; company: string | null } | null
+}
+
+interface ConversationMessage {
+  id: string
+  source: 'incoming' | 'outgoing' | 'campaign'
+  direction: 'inbound' | 'outbound'
+  from: string | null
+  to: string | null
+  subject: string | null
+  sentAt: string
+  text: string | null
+  html: string | null
+  campaignId: string | null
+}
+
+interface FollowUpReminder {
+  id: string
+  email_account_id: string
+  recipient_email: string
+  subject: string | null
+  sent_at: string
+  remind_after_days: number
+  remind_at: string
+  status: 'pending' | 'replied' | 'fired' | 'dismissed'
+  draft_nudge: boolean
+  agent_id: string | null
+  nudge_subject: string | null
+  nudge_body: string | null
+}
+
+interface ConversationListProps {
+  accountId: string | null
+  search: string
+  /** Changes after a mailbox sync to reload the list */
+  refreshKey?: number
+  className?: string
+}
+
+const STATUS_TABS: Array<{ value: ConversationStatus; label: string; icon: typeof Inbox }> = [
+  { value: 'open', label: 'Open', icon: Inbox },
+  { value: 'snoozed', label: 'Snoozed', icon: AlarmClock },
+  { value: 'done', label: 'Done', icon: CheckCircle2 },
+]
+
+const SOURCE_LABELS: Record<ConversationMessage['source'], string> = {
+  incoming: 'Received',
+  outgoing: 'Sent',
+  campaign: 'Campaign',
+}
+
+const SHORTCUTS = 'j/k move • Enter open • Esc close • e done • s snooze'
+
+const formatTimestamp = (value: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+const messageBody = (message: ConversationMessage) =>
+  message.text?.trim() ||
+  (message.html || '').replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '').replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+
+/** Tomorrow at 08:00 local time */
+const nextMorning = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + 1)
+  date.setHours(8, 0, 0, 0)
+  return date
+}
+
+const SNOOZE_OPTIONS: Array<{ label: string; until: () => Date }> = [
+  { label: 'Later today', until: () => new Date(Date.now() + 3 * 60 * 60 * 1000) },
+  { label: 'Tomorrow morning', until: nextMorning },
+  {
+    label: 'Next week',
+    until: () => {
+      // Monday 08:00
+      const date = nextMorning()
+      date.setDate(date.getDate() + ((8 - date.getDay()) % 7))
+      return date
+    },
+  },
+]
+
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null
+  if (!element) return false
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)
+}
+
+export function ConversationList({ accountId, search, refreshKey, className }: ConversationListProps) {
+  const [status, setStatus] = useState<ConversationStatus>('open')
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [loading, setLoading] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<ConversationMessage[]>([])
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [assigneeInput, setAssigneeInput] = useState('')
+  const [labelInput, setLabelInput] = useState('')
+  const [snoozeMenuOpen, setSnoozeMenuOpen] = useState(false)
+  const [customSnooze, setCustomSnooze] = useState('')
+  const [reminders, setReminders] = useState<FollowUpReminder[]>([])
+  const [nudges, setNudges] = useState<Record<string, { subject: string; body: string }>>({})
+  const [detailVersion, setDetailVersion] = useState(0)
+  const [busyReminderId, setBusyReminderId] = useState<string | null>(null)
+
+  const active = conversations[activeIndex] || null
+  const opened = conversations.find(conversation => conversation.id === openId) || null
+
+  const loadConversations = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ status })
+      if (accountId) params.set('account_id', accountId)
+      if (search.trim()) params.set('search', search.trim())
+
+      const response = await fetch(`/api/inbox/conversations?${params.toString()}`)
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load conversations')
+      }
+      setConversations(payload.conversations || [])
+      setActiveIndex(index => Math.min(index, Math.max((payload.conversations || []).length - 1, 0)))
+    } catch (error) {
+      console.error('Error loading conversations:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load conversations')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, accountId, search])
+
+  useEffect(() => {
+    loadConversations()
+  }, [loadConversations, refreshKey])
+
+  useEffect(() => {
+    setActiveIndex(0)
+    setOpenId(null)
+  }, [status, accountId, search])
+
+  useEffect(() => {
+    setSnoozeMenuOpen(false)
+    if (!openId) {
+      setMessages([])
+      setReminders([])
+      return
+    }
+
+    let cancelled = false
+    const loadMessages = async () => {
+      try {
+        setDetailLoading(true)
+        const response = await fetch(`/api/inbox/conversations/${openId}`)
+        const payload = await response.json().catch(() => null)
+        if (!response.ok || !payload?.success) {
+          throw new Error(payload?.error || 'Failed to load conversation')
+        }
+        if (cancelled) return
+        setMessages(payload.messages || [])
+        setReminders(payload.reminders || [])
+        setNudges(prev => {
+          const next: Record<string, { subject: string; body: string }> = {}
+          ;(payload.reminders || []).forEach((reminder: FollowUpReminder) => {
+            next[reminder.id] = prev[reminder.id] || {
+              subject: reminder.nudge_subject || `Re: ${reminder.subject || ''}`.trim(),
+              body: reminder.nudge_body ? htmlToText(reminder.nudge_body) : '',
+            }
+          })
+          return next
+        })
+      } catch (error) {
+        console.error('Error loading conversation:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load conversation')
+      } finally {
+        if (!cancelled) setDetailLoading(false)
+      }
+    }
+    loadMessages()
+    return () => {
+      cancelled = true
+    }
+  }, [openId, detailVersion])
+
+  useEffect(() => {
+    if (!active) return
+    document.getElementById(`conversation-${active.id}`)?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  const updateConversation = useCallback(async (
+    conversation: Conversation,
+    changes: Partial<Pick<Conversation, 'status' | 'snoozed_until' | 'assignees' | 'labels'>>
+  ) => {
+    try {
+      const response = await fetch(`/api/inbox/conversations/${conversation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to update conversation')
+      }
+
+      const updated: Conversation = { ...conversation, ...payload.conversation, contact: conversation.contact }
+      if (updated.status !== status) {
+        // Moved to another tab
+        setConversations(prev => prev.filter(item => item.id !== conversation.id))
+        setOpenId(current => (current === conversation.id ? null : current))
+      } else {
+        setConversations(prev => prev.map(item => (item.id === conversation.id ? updated : item)))
+      }
+    } catch (error) {
+      console.error('Error updating conversation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update conversation')
+    }
+  }, [status])
+
+  const markDone = useCallback((conversation: Conversation) => updateConversation(conversation, { status: 'done' }), [updateConversation])
+  const reopen = useCallback((conversation: Conversation) => updateConversation(conversation, { status: 'open' }), [updateConversation])
+  const snooze = useCallback((conversation: Conversation, until: Date = nextMorning()) => {
+    if (until <= new Date()) {
+      toast.error('Pick a time in the future')
+      return
+    }
+    setSnoozeMenuOpen(false)
+    toast.success(`Snoozed until ${until.toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`)
+    return updateConversation(conversation, { status: 'snoozed', snoozed_until: until.toISOString() })
+  }, [updateConversation])
+
+  const dismissReminder = async (reminder: FollowUpReminder) => {
+    const response = await fetch(`/api/inbox/reminders/${reminder.id}`, { method: 'DELETE' })
+    const payload = await response.json().catch(() => null)
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error || 'Failed to dismiss reminder')
+    }
+    setReminders(prev => prev.filter(item => item.id !== reminder.id))
+  }
+
+  const handleDismissReminder = async (reminder: FollowUpReminder) => {
+    try {
+      setBusyReminderId(reminder.id)
+      await dismissReminder(reminder)
+    } catch (error) {
+      console.error('Error dismissing reminder:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to dismiss reminder')
+    } finally {
+      setBusyReminderId(null)
+    }
+  }
+
+  const sendNudge = async (reminder: FollowUpReminder) => {
+    const nudge = nudges[reminder.id]
+    if (!nudge?.subject.trim() || !nudge.body.trim()) {
+      toast.error('Write a subject and message first')
+      return
+    }
+
+    try {
+      setBusyReminderId(reminder.id)
+      const response = await fetch(`/api/email-accounts/${reminder.email_account_id}/send-test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to: reminder.recipient_email,
+          subject: nudge.subject,
+          message: nudge.body,
+          // Keep watching for an answer to the nudge
+          reminder: {
+            remind_after_days: reminder.remind_after_days,
+            draft_nudge: reminder.draft_nudge,
+            agent_id: reminder.agent_id,
+          },
+        }),
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || payload?.data?.success === false) {
+        throw new Error(payload?.error || payload?.data?.message || 'Failed to send nudge')
+      }
+
+      await dismissReminder(reminder)
+      toast.success(`Nudge sent to ${reminder.recipient_email}`)
+      setDetailVersion(version => version + 1)
+    } catch (error) {
+      console.error('Error sending nudge:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send nudge')
+    } finally {
+      setBusyReminderId(null)
+    }
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) return
+      if (document.querySelector('[role="dialog"]')) return
+
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          event.preventDefault()
+          setActiveIndex(index => Math.min(index + 1, Math.max(conversations.length - 1, 0)))
+          break
+        case 'k':
+        case 'ArrowUp':
+          event.preventDefault()
+          setActiveIndex(index => Math.max(index - 1, 0))
+          break
+        case 'Enter':
+        case 'o':
+          if (active) setOpenId(active.id)
+          break
+        case 'Escape':
+          setOpenId(null)
+          break
+        case 'e':
+          if (active?.status === 'done') reopen(active)
+          else if (active) markDone(active)
+          break
+        case 's':
+          if (active) snooze(active)
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [conversations.length, active, markDone, reopen, snooze])
+
+  const addValue = (conversation: Conversation, field: 'assignees' | 'labels', value: string) => {
+    const trimmed = value.trim()
+    if (!trimmed || conversation[field].includes(trimmed)) return
+    updateConversation(conversation, { [field]: [...conversation[field], trimmed] })
+  }
+
+  const removeValue = (conversation: Conversation, field: 'assignees' | 'labels', value: string) => {
+    updateConversation(conversation, { [field]: conversation[field].filter(item => item !== value) })
+  }
+
+  const renderChips = (conversation: Conversation, field: 'assignees' | 'labels') => (
+    <div className="flex flex-wrap gap-1.5">
+      {conversation[field].map(value => (
+        <span
+          key={value}
+          className={clsx(
+            'inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium',
+            field === 'labels' ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-700'
+          )}
+        >
+          {value}
+          <button
+            type="button"
+            onClick={() => removeValue(conversation, field, value)}
+            className="text-slate-400 hover:text-slate-700"
+            aria-label={`Remove ${value}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  )
+
+  const contactName = (conversation: Conversation) => {
+    const name = [conversation.contact?.first_name, conversation.contact?.last_name].filter(Boolean).join(' ')
+    return name || conversation.contact?.email || conversation.participants[0] || 'Unknown'
+  }
+
+  return (
+    <div className={clsx('flex h-full min-h-0', className)}>
+      <div className={clsx('flex min-h-0 flex-col border-r border-slate-200', opened ? 'hidden w-full md:flex md:w-[42%]' : 'w-full')}>
+        <div className="flex items-center justify-between gap-2 border-b border-slate-200 px-4 py-3">
+          <div className="flex gap-1">
+            {STATUS_TABS.map(tab => {
+              const Icon = tab.icon
+              return (
+                <button
+                  key={tab.value}
+                  onClick={() => setStatus(tab.value)}
+                  className={clsx(
+                    'flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-semibold transition-colors',
+                    status === tab.value ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+                  )}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                  {tab.label}
+                </button>
+              )
+            })}
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadConversations} disabled={loading} className="text-slate-500">
+            <RefreshCw className={clsx('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {!loading && conversations.length === 0 && (
+            <div className="flex h-full flex-col items-center justify-center px-6 py-16 text-center text-slate-400">
+              <MessagesSquare className="h-12 w-12" />
+              <p className="mt-3 text-sm font-semibold">No {status} conversations</p>
+            </div>
+          )}
+
+          {conversations.map((conversation, index) => (
+            <button
+              key={conversation.id}
+              id={`conversation-${conversation.id}`}
+              onClick={() => {
+                setActiveIndex(index)
+                setOpenId(conversation.id)
+              }}
+              className={clsx(
+                'block w-full border-b border-slate-100 px-4 py-3 text-left transition-colors',
+                index === activeIndex ? 'bg-blue-50 ring-1 ring-inset ring-blue-200' : 'hover:bg-slate-50',
+                conversation.id === openId && 'bg-blue-100/60'
+              )}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <p className={clsx('truncate text-sm', conversation.last_direction === 'inbound' ? 'font-semibold text-slate-900' : 'text-slate-700')}>
+                  {contactName(conversation)}
+                </p>
+                <span className="shrink-0 text-xs text-slate-400">{formatTimestamp(conversation.last_message_at)}</span>
+              </div>
+              <div className="mt-0.5 flex items-center gap-2">
+                <p className="truncate text-sm text-slate-600">{conversation.subject || '(No subject)'}</p>
+                {conversation.message_count > 1 && (
+                  <span className="shrink-0 rounded-full bg-slate-100 px-1.5 text-xs text-slate-500">{conversation.message_count}</span>
+                )}
+              </div>
+              {(conversation.labels.length > 0 || conversation.assignees.length > 0 || conversation.snoozed_until) && (
+                <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs">
+                  {conversation.labels.map(label => (
+                    <span key={label} className="rounded-full bg-indigo-50 px-2 py-0.5 font-medium text-indigo-700">{label}</span>
+                  ))}
+                  {conversation.assignees.map(assignee => (
+                    <span key={assignee} className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-600">@{assignee}</span>
+                  ))}
+                  {conversation.status === 'snoozed' && conversation.snoozed_until && (
+                    <span className="flex items-center gap-1 text-amber-600">
+                      <AlarmClock className="h-3 w-3" />
+                      {formatTimestamp(conversation.snoozed_until)}
+                    </span>
+                  )}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <p className="hidden border-t border-slate-200 px-4 py-2 text-xs text-slate-400 md:block">{SHORTCUTS}</p>
+      </div>
+
+      {opened && (
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="space-y-3 border-b border-slate-200 px-6 py-4">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <h2 className="truncate text-lg font-semibold text-slate-900">{opened.subject || '(No subject)'}</h2>
+                <p className="truncate text-xs text-slate-500">{opened.participants.join(', ')}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {opened.status === 'done' ? (
+                  <Button size="sm" variant="outline" onClick={() => reopen(opened)} className="gap-1">
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    Reopen
+                  </Button>
+                ) : (
+                  <>
+                    <div className="relative">
+                      <Button size="sm" variant="outline" onClick={() => setSnoozeMenuOpen(open => !open)} className="gap-1">
+                        <AlarmClock className="h-3.5 w-3.5" />
+                        {opened.status === 'snoozed' ? 'Snooze again' : 'Snooze'}
+                      </Button>
+                      {snoozeMenuOpen && (
+                        <div className="absolute right-0 z-20 mt-2 w-60 space-y-1 rounded-2xl border border-slate-200 bg-white p-2 shadow-lg">
+                          {SNOOZE_OPTIONS.map(option => {
+                            const until = option.until()
+                            return (
+                              <button
+                                key={option.label}
+                                onClick={() => snooze(opened, until)}
+                                className="flex w-full items-center justify-between rounded-xl px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-100"
+                              >
+                                <span>{option.label}</span>
+                                <span className="text-xs text-slate-400">
+                                  {until.toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                              </button>
+                            )
+                          })}
+                          <div className="flex items-center gap-2 border-t border-slate-100 px-1 pt-2">
+                            <Input
+                              type="datetime-local"
+                              value={customSnooze}
+                              onChange={(event) => setCustomSnooze(event.target.value)}
+                              className="h-8 text-xs"
+                            />
+                            <Button
+                              size="sm"
+                              disabled={!customSnooze}
+                              onClick={() => snooze(opened, new Date(customSnooze))}
+                            >
+                              Set
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                    <Button size="sm" onClick={() => markDone(opened)} className="gap-1">
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                      Done
+                    </Button>
+                  </>
+                )}
+                <Button size="icon" variant="ghost" onClick={() => setOpenId(null)} aria-label="Close conversation">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Assignees</p>
+                {renderChips(opened, 'assignees')}
+                <Input
+                  value={assigneeInput}
+                  onChange={(event) => setAssigneeInput(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key !== 'Enter') return
+                    addValue(opened, 'assignees', assigneeInput)
+                    setAssigneeInput('')
+                  }}
+                  placeholder="Assign to…"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Labels</p>
+                {renderChips(opened, 'labels')}
+                <Input
+                  value={labelInput}
+                  onChange={(event) => setLabelInput(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key !== 'Enter') return
+                    addValue(opened, 'labels', labelInput)
+                    setLabelInput('')
+                  }}
+                  placeholder="Add label…"
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex-1 space-y-3 overflow-y-auto bg-slate-50 px-6 py-4">
+            {!detailLoading && reminders.filter(reminder => reminder.status === 'fired').map(reminder => (
+              <div key={reminder.id} className="space-y-3 rounded-2xl bg-amber-50 p-4 ring-1 ring-amber-200">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="flex items-center gap-2 text-sm font-medium text-amber-800">
+                    <BellRing className="h-4 w-4" />
+                    No reply from {reminder.recipient_email} since {new Date(reminder.sent_at).toLocaleDateString()}
+                  </p>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDismissReminder(reminder)}
+                    disabled={busyReminderId === reminder.id}
+                    className="text-amber-800"
+                  >
+                    Dismiss
+                  </Button>
+                </div>
+                <Input
+                  value={nudges[reminder.id]?.subject ?? ''}
+                  onChange={(event) => {
+                    const value = event.target.value
+                    setNudges(prev => ({ ...prev, [reminder.id]: { ...prev[reminder.id], subject: value } }))
+                  }}
+                  className="bg-white text-sm"
+                  placeholder="Subject"
+                />
+                <Textarea
+                  value={nudges[reminder.id]?.body ?? ''}
+                  onChange={(event) => {
+                    const value = event.target.value
+                    setNudges(prev => ({ ...prev, [reminder.id]: { ...prev[reminder.id], body: value } }))
+                  }}
+                  rows={5}
+                  className="bg-white text-sm"
+                  placeholder={reminder.nudge_body ? undefined : 'Write a short follow-up…'}
+                />
+                <Button size="sm" onClick={() => sendNudge(reminder)} disabled={busyReminderId === reminder.id} className="gap-1">
+                  <Send className="h-3.5 w-3.5" />
+                  Send nudge
+                </Button>
+              </div>
+            ))}
+
+            {!detailLoading && reminders.filter(reminder => reminder.status === 'pending').map(reminder => (
+              <div key={reminder.id} className="flex items-center justify-between gap-3 rounded-2xl bg-white px-4 py-2 text-xs text-slate-600 ring-1 ring-slate-200">
+                <span className="flex items-center gap-2">
+                  <BellRing className="h-3.5 w-3.5 text-slate-400" />
+                  Reminder on {new Date(reminder.remind_at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} if {reminder.recipient_email} doesn&apos;t reply
+                </span>
+                <button
+                  onClick={() => handleDismissReminder(reminder)}
+                  disabled={busyReminderId === reminder.id}
+                  className="font-medium text-slate-500 hover:text-slate-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            ))}
+
+            {detailLoading ? (
+              <div className="flex justify-center py-12 text-slate-400">
+                <RefreshCw className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              messages.map(message => (
+                <div
+                  key={message.id}
+                  className={clsx(
+                    'rounded-2xl p-4 shadow-sm ring-1',
+                    message.direction === 'inbound' ? 'mr-8 bg-white ring-slate-200' : 'ml-8 bg-blue-50 ring-blue-100'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-3 text-xs text-slate-500">
+                    <span className="truncate">
+                      <span className="font-medium text-slate-700">{message.from || 'Unknown'}</span>
+                      {message.to && <> → {message.to}</>}
+                    </span>
+                    <span className="flex shrink-0 items-center gap-2">
+                      <span className="rounded-full bg-slate-100 px-2 py-0.5 font-medium text-slate-600">{SOURCE_LABELS[message.source]}</span>
+                      {new Date(message.sentAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="mt-2 whitespace-pre-wrap break-words text-sm text-slate-700">
+                    {messageBody(message) || '(No content)'}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
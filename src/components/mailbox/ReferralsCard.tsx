@@ -0,0 +1,225 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { RefreshCw, UserPlus, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+interface Referral {
+  id: string
+  role: string | null
+  status: 'suggested' | 'enrolled' | 'dismissed'
+  opener: string | null
+  suggestedOpener: string | null
+  contact: {
+    id: string
+    email: string
+    first_name: string | null
+    last_name: string | null
+    position: string | null
+  } | null
+  campaign: { id: string; name: string; status: string } | null
+}
+
+interface ReferralsCardProps {
+  emailId: string
+  className?: string
+}
+
+const STATUS_META: Record<Referral['status'], { label: string; className: string }> = {
+  suggested: { label: 'Suggested', className: 'bg-amber-500/10 text-amber-700 border border-amber-500/30' },
+  enrolled: { label: 'Enrolled', className: 'bg-emerald-500/10 text-emerald-700 border border-emerald-500/30' },
+  dismissed: { label: 'Dismissed', className: 'bg-slate-100 text-slate-500 border border-slate-200' },
+}
+
+export function ReferralsCard({ emailId, className }: ReferralsCardProps) {
+  const [referrals, setReferrals] = useState<Referral[]>([])
+  const [openers, setOpeners] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const applyReferrals = (items: Referral[]) => {
+    setReferrals(items)
+    setOpeners(prev => {
+      const next: Record<string, string> = {}
+      items.forEach(item => {
+        next[item.id] = prev[item.id] ?? item.opener ?? item.suggestedOpener ?? ''
+      })
+      return next
+    })
+  }
+
+  const loadReferrals = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/inbox/email/${emailId}/referrals`)
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load referrals')
+      }
+      applyReferrals(payload.referrals || [])
+    } catch (error) {
+      console.error('Error loading referrals:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [emailId])
+
+  useEffect(() => {
+    setReferrals([])
+    setOpeners({})
+    loadReferrals()
+  }, [loadReferrals])
+
+  const findReferrals = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/inbox/email/${emailId}/referrals`, { method: 'POST' })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to find referred contacts')
+      }
+      applyReferrals(payload.referrals || [])
+      if (payload.created > 0) {
+        toast.success(`Created ${payload.created} referred contact${payload.created === 1 ? '' : 's'}`)
+      } else {
+        toast.info('No referred contacts found in this reply')
+      }
+    } catch (error) {
+      console.error('Error finding referrals:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to find referred contacts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const enrollReferral = async (referral: Referral) => {
+    try {
+      setBusyId(referral.id)
+      const response = await fetch(`/api/inbox/referrals/${referral.id}/enroll`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ opener: openers[referral.id] }),
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to enrol contact')
+      }
+      toast.success(`Enrolled ${referral.contact?.email} in ${referral.campaign?.name}`)
+      await loadReferrals()
+    } catch (error) {
+      console.error('Error enrolling referral:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to enrol contact')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const dismissReferral = async (referral: Referral) => {
+    try {
+      setBusyId(referral.id)
+      const response = await fetch(`/api/inbox/referrals/${referral.id}`, { method: 'DELETE' })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to dismiss referral')
+      }
+      setReferrals(prev => prev.map(item => (item.id === referral.id ? { ...item, status: 'dismissed' } : item)))
+    } catch (error) {
+      console.error('Error dismissing referral:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to dismiss referral')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className={clsx('rounded-3xl border border-slate-200 bg-white p-6 shadow-sm', className)}>
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-100 text-amber-700">
+              <UserPlus className="h-5 w-5" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">Referred contacts</h3>
+              <p className="mt-1 text-xs text-slate-500">People this reply pointed you to instead</p>
+            </div>
+          </div>
+          <Button
+            onClick={findReferrals}
+            disabled={loading}
+            variant="ghost"
+            size="sm"
+            className="gap-2 text-slate-600"
+          >
+            <RefreshCw className={clsx('h-3.5 w-3.5', loading && 'animate-spin')} />
+            <span>{referrals.length > 0 ? 'Scan again' : 'Find referred contacts'}</span>
+          </Button>
+        </div>
+
+        {referrals.length === 0 && !loading && (
+          <p className="text-sm text-slate-500">No referred contacts yet.</p>
+        )}
+
+        {referrals.map(referral => {
+          const contact = referral.contact
+          const name = [contact?.first_name, contact?.last_name].filter(Boolean).join(' ')
+          const statusMeta = STATUS_META[referral.status]
+          const role = referral.role || contact?.position
+
+          return (
+            <div key={referral.id} className="space-y-3 rounded-2xl bg-slate-50 p-4 ring-1 ring-slate-100">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-slate-900">{name || contact?.email}</p>
+                  {name && <p className="truncate text-xs text-slate-500">{contact?.email}</p>}
+                  {role && <p className="truncate text-xs text-slate-500">{role}</p>}
+                </div>
+                <span className={clsx('rounded-full px-3 py-1 text-xs font-semibold', statusMeta.className)}>
+                  {statusMeta.label}
+                </span>
+              </div>
+
+              {referral.status === 'suggested' && referral.campaign && (
+                <>
+                  <Textarea
+                    value={openers[referral.id] ?? ''}
+                    onChange={(event) => {
+                      const value = event.target.value
+                      setOpeners(prev => ({ ...prev, [referral.id]: value }))
+                    }}
+                    rows={2}
+                    maxLength={1000}
+                    className="bg-white text-sm"
+                    placeholder="Opener added after the greeting of the first email"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button size="sm" onClick={() => enrollReferral(referral)} disabled={busyId === referral.id}>
+                      Enrol in {referral.campaign.name}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => dismissReferral(referral)}
+                      disabled={busyId === referral.id}
+                      className="gap-1 text-slate-600"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                      <span>Dismiss</span>
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {referral.status === 'enrolled' && referral.opener && (
+                <p className="text-xs italic text-slate-500">Opener: {referral.opener}</p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -63,9 +63,15 @@ const STATUS_VARIANTS: Record<string, { label: string; className: string }> = {
   stopped: { label: 'Stopped', className: 'bg-red-100 text-red-700' },
 }
 
-const CONDITION_LABELS: Record<SequenceLinkRecord['condition_type'], string> = {
+export const CONDITION_LABELS: Record<SequenceLinkRecord['condition_type'], string> = {
   no_reply: 'No reply',
   opened_no_reply: 'Opened • No reply',
+  opened: 'Opened',
+  not_opened: 'Not opened',
+  clicked: 'Clicked',
+  replied: 'Replied',
+  bounced: 'Bounced',
+  auto_reply: 'Auto-reply',
   always: 'Always send',
   custom: 'Custom',
 }
@@ -0,0 +1,412 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle, Loader2, Save, Star, Trash2, Users } from 'lucide-react'
+import { ApiClient, authenticatedFetch } from '@/lib/api-client'
+import {
+  SEQUENCE_EDGE_CONDITIONS,
+  validateSequenceGraph,
+  type SequenceEdgeStats,
+  type SequenceGraph,
+  type SequenceGraphEdge,
+} from '@/lib/sequence-graph'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CONDITION_LABELS } from './SequenceBoard'
+import type { SequenceWithRelations } from './types'
+
+interface SequenceGraphEditorProps {
+  sequence: SequenceWithRelations
+  onSaved?: () => void
+}
+
+interface GraphResponse {
+  success: boolean
+  data?: { graph: SequenceGraph; edgeStats: Record<string, SequenceEdgeStats> }
+  error?: string
+  errors?: string[]
+}
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 72
+
+export function SequenceGraphEditor({ sequence, onSaved }: SequenceGraphEditorProps) {
+  const [graph, setGraph] = useState<SequenceGraph | null>(null)
+  const [edgeStats, setEdgeStats] = useState<Record<string, SequenceEdgeStats>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+  const [connectFrom, setConnectFrom] = useState<string | null>(null)
+  const [selectedEdge, setSelectedEdge] = useState<number | null>(null)
+  const dragRef = useRef<{ nodeId: string; offsetX: number; offsetY: number } | null>(null)
+  const canvasRef = useRef<SVGSVGElement | null>(null)
+
+  const sequenceId = sequence.sequence.id
+
+  const loadGraph = useCallback(async () => {
+    try {
+      setLoading(true)
+      setServerErrors([])
+      const response = (await ApiClient.get(`/api/sequences/${sequenceId}/graph`)) as GraphResponse
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to load sequence graph')
+      }
+      setGraph(response.data.graph)
+      setEdgeStats(response.data.edgeStats)
+      setSelectedEdge(null)
+      setConnectFrom(null)
+    } catch (err: any) {
+      console.error('Failed to load sequence graph:', err)
+      setServerErrors([err.message || 'Failed to load sequence graph'])
+    } finally {
+      setLoading(false)
+    }
+  }, [sequenceId])
+
+  useEffect(() => {
+    loadGraph()
+  }, [loadGraph])
+
+  const validation = useMemo(() => (graph ? validateSequenceGraph(graph) : null), [graph])
+
+  const nodeById = useMemo(
+    () => new Map((graph?.nodes || []).map((node) => [node.id, node])),
+    [graph],
+  )
+
+  function updateEdge(index: number, changes: Partial<SequenceGraphEdge>) {
+    setGraph((prev) =>
+      prev
+        ? { ...prev, edges: prev.edges.map((edge, i) => (i === index ? { ...edge, ...changes } : edge)) }
+        : prev,
+    )
+  }
+
+  function removeEdge(index: number) {
+    setGraph((prev) => (prev ? { ...prev, edges: prev.edges.filter((_, i) => i !== index) } : prev))
+    setSelectedEdge(null)
+  }
+
+  function handleNodeClick(nodeId: string) {
+    if (!graph) return
+
+    if (!connectFrom) {
+      setConnectFrom(nodeId)
+      return
+    }
+
+    if (connectFrom !== nodeId) {
+      const siblings = graph.edges.filter((edge) => edge.source === connectFrom)
+      setGraph({
+        ...graph,
+        edges: [
+          ...graph.edges,
+          {
+            id: null,
+            source: connectFrom,
+            target: nodeId,
+            condition_type: 'no_reply',
+            delay_days: 3,
+            delay_hours: 0,
+            priority: siblings.length,
+          },
+        ],
+      })
+      setSelectedEdge(graph.edges.length)
+    }
+    setConnectFrom(null)
+  }
+
+  function handlePointerDown(event: React.PointerEvent, nodeId: string) {
+    const node = nodeById.get(nodeId)
+    const point = toCanvasPoint(event)
+    if (!node || !point) return
+    dragRef.current = { nodeId, offsetX: point.x - node.position.x, offsetY: point.y - node.position.y }
+  }
+
+  function handlePointerMove(event: React.PointerEvent) {
+    const drag = dragRef.current
+    const point = toCanvasPoint(event)
+    if (!drag || !point) return
+    setGraph((prev) =>
+      prev
+        ? {
+            ...prev,
+            nodes: prev.nodes.map((node) =>
+              node.id === drag.nodeId
+                ? { ...node, position: { x: Math.max(0, point.x - drag.offsetX), y: Math.max(0, point.y - drag.offsetY) } }
+                : node,
+            ),
+          }
+        : prev,
+    )
+  }
+
+  function toCanvasPoint(event: React.PointerEvent) {
+    const rect = canvasRef.current?.getBoundingClientRect()
+    if (!rect) return null
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  async function handleSave() {
+    if (!graph) return
+
+    try {
+      setSaving(true)
+      setServerErrors([])
+      const response = await authenticatedFetch(`/api/sequences/${sequenceId}/graph`, {
+        method: 'PUT',
+        body: JSON.stringify(graph),
+      })
+      const result = (await response.json()) as GraphResponse
+
+      if (!response.ok || !result.success || !result.data) {
+        setServerErrors(result.errors?.length ? result.errors : [result.error || 'Failed to save sequence graph'])
+        return
+      }
+
+      setGraph(result.data.graph)
+      setEdgeStats(result.data.edgeStats)
+      onSaved?.()
+    } catch (err: any) {
+      console.error('Failed to save sequence graph:', err)
+      setServerErrors([err.message || 'Failed to save sequence graph'])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading && !graph) {
+    return (
+      <div className="flex items-center justify-center py-12 text-sm text-slate-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading sequence graph…
+      </div>
+    )
+  }
+
+  if (!graph) {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-600">
+        {serverErrors[0] || 'Sequence graph unavailable'}
+      </div>
+    )
+  }
+
+  const canvasWidth = Math.max(800, ...graph.nodes.map((node) => node.position.x + NODE_WIDTH + 40))
+  const canvasHeight = Math.max(360, ...graph.nodes.map((node) => node.position.y + NODE_HEIGHT + 40))
+  const errors = serverErrors.length ? serverErrors : validation?.errors || []
+  const activeEdge = selectedEdge !== null ? graph.edges[selectedEdge] : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-slate-500">
+          {connectFrom
+            ? `Select the campaign that ${nodeById.get(connectFrom)?.name || 'this campaign'} should lead to`
+            : 'Drag campaigns to arrange them. Use Connect on two campaigns in turn to add an edge.'}
+        </div>
+        <div className="flex items-center gap-2">
+          {connectFrom && (
+            <Button variant="ghost" size="sm" onClick={() => setConnectFrom(null)}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={saving || !validation?.valid}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save graph
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <div className="mb-1 flex items-center font-medium">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            Fix these issues before saving
+          </div>
+          <ul className="list-disc space-y-0.5 pl-6">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-auto rounded-2xl border border-slate-200 bg-white">
+        <svg
+          ref={canvasRef}
+          width={canvasWidth}
+          height={canvasHeight}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerLeave={() => (dragRef.current = null)}
+        >
+          <defs>
+            <marker id="sequence-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+            </marker>
+          </defs>
+
+          {graph.edges.map((edge, index) => {
+            const source = nodeById.get(edge.source)
+            const target = nodeById.get(edge.target)
+            if (!source || !target) return null
+
+            const x1 = source.position.x + NODE_WIDTH
+            const y1 = source.position.y + NODE_HEIGHT / 2
+            const x2 = target.position.x
+            const y2 = target.position.y + NODE_HEIGHT / 2
+            const midX = (x1 + x2) / 2
+            const midY = (y1 + y2) / 2
+            const stats = edge.id ? edgeStats[edge.id] : undefined
+            const isSelected = selectedEdge === index
+            const inCycle = validation?.cycles.some((cycle) =>
+              cycle.some((nodeId, i) => nodeId === edge.source && cycle[i + 1] === edge.target),
+            )
+
+            return (
+              <g key={edge.id || `${edge.source}-${edge.target}-${index}`} onClick={() => setSelectedEdge(index)} className="cursor-pointer">
+                <path
+                  d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={inCycle ? '#f87171' : isSelected ? '#0ea5e9' : '#94a3b8'}
+                  strokeWidth={isSelected ? 3 : 2}
+                  markerEnd="url(#sequence-arrow)"
+                />
+                <foreignObject x={midX - 80} y={midY - 22} width={160} height={44}>
+                  <div className="flex flex-col items-center rounded-md border border-slate-200 bg-white px-2 py-0.5 text-[10px] leading-tight text-slate-600 shadow-sm">
+                    <span className="font-semibold">
+                      {edge.priority + 1}. {CONDITION_LABELS[edge.condition_type] ?? edge.condition_type}
+                    </span>
+                    <span>
+                      {edge.delay_days}d {edge.delay_hours}h · {stats?.in_progress ?? 0} active / {stats?.total ?? 0} total
+                    </span>
+                  </div>
+                </foreignObject>
+              </g>
+            )
+          })}
+
+          {graph.nodes.map((node) => {
+            const isEntry = graph.entry_campaign_id === node.id
+            const isUnreachable = validation?.unreachable.includes(node.id)
+            const isConnecting = connectFrom === node.id
+
+            return (
+              <foreignObject key={node.id} x={node.position.x} y={node.position.y} width={NODE_WIDTH} height={NODE_HEIGHT}>
+                <div
+                  onPointerDown={(event) => handlePointerDown(event, node.id)}
+                  className={`flex h-full cursor-move select-none flex-col justify-between rounded-xl border bg-white p-2 text-xs shadow-sm ${
+                    isConnecting
+                      ? 'border-sky-400 ring-2 ring-sky-200'
+                      : isUnreachable
+                        ? 'border-amber-300'
+                        : 'border-slate-200'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="line-clamp-1 font-semibold text-slate-800">{node.name}</span>
+                    {isEntry && <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      className="text-[10px] text-sky-600 hover:underline"
+                      onPointerDown={(event) => event.stopPropagation()}
+                      onClick={() => handleNodeClick(node.id)}
+                    >
+                      {connectFrom ? (isConnecting ? 'Cancel' : 'Connect here') : 'Connect'}
+                    </button>
+                    {!isEntry && (
+                      <button
+                        type="button"
+                        className="text-[10px] text-slate-500 hover:underline"
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onClick={() => setGraph({ ...graph, entry_campaign_id: node.id })}
+                      >
+                        Set as entry
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </foreignObject>
+            )
+          })}
+        </svg>
+      </div>
+
+      {activeEdge && selectedEdge !== null && (
+        <div className="flex flex-wrap items-end gap-4 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm">
+          <div className="font-medium text-slate-700">
+            {nodeById.get(activeEdge.source)?.name} → {nodeById.get(activeEdge.target)?.name}
+          </div>
+          <div className="w-48">
+            <Select
+              value={activeEdge.condition_type}
+              onValueChange={(value: SequenceGraphEdge['condition_type']) => updateEdge(selectedEdge, { condition_type: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Condition" />
+              </SelectTrigger>
+              <SelectContent>
+                {SEQUENCE_EDGE_CONDITIONS.map((condition) => (
+                  <SelectItem key={condition} value={condition}>
+                    {CONDITION_LABELS[condition]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Days
+            <input
+              type="number"
+              min={0}
+              className="w-16 rounded border border-slate-200 px-2 py-1"
+              value={activeEdge.delay_days}
+              onChange={(event) => updateEdge(selectedEdge, { delay_days: Number(event.target.value) || 0 })}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Hours
+            <input
+              type="number"
+              min={0}
+              max={23}
+              className="w-16 rounded border border-slate-200 px-2 py-1"
+              value={activeEdge.delay_hours}
+              onChange={(event) => updateEdge(selectedEdge, { delay_hours: Number(event.target.value) || 0 })}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Priority
+            <input
+              type="number"
+              min={1}
+              className="w-16 rounded border border-slate-200 px-2 py-1"
+              value={activeEdge.priority + 1}
+              onChange={(event) => updateEdge(selectedEdge, { priority: Math.max(0, (Number(event.target.value) || 1) - 1) })}
+            />
+          </label>
+          {activeEdge.id && edgeStats[activeEdge.id] && (
+            <Badge variant="outline" className="gap-1">
+              <Users className="h-3 w-3" />
+              {edgeStats[activeEdge.id].completed} completed · {edgeStats[activeEdge.id].stopped} stopped
+            </Badge>
+          )}
+          <Button variant="ghost" size="sm" className="text-red-600" onClick={() => removeEdge(selectedEdge)}>
+            <Trash2 className="mr-1 h-4 w-4" /> Remove edge
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
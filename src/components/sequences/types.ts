@@ -7,6 +7,7 @@ export interface SequenceRecord {
   description: string | null
   status: SequenceStatus
   entry_campaign_id: string | null
+  graph_layout?: Record<string, { x: number; y: number }>
   created_at: string
   updated_at: string
 }
@@ -27,7 +28,17 @@ export interface SequenceCampaignSummary {
   emails_replied?: number | null
 }
 
-export type SequenceConditionType = 'no_reply' | 'opened_no_reply' | 'always' | 'custom'
+export type SequenceConditionType =
+  | 'no_reply'
+  | 'opened_no_reply'
+  | 'opened'
+  | 'not_opened'
+  | 'clicked'
+  | 'replied'
+  | 'bounced'
+  | 'auto_reply'
+  | 'always'
+  | 'custom'
 
 export interface SequenceLinkRecord {
   id: string
@@ -46,6 +57,7 @@ export interface SequenceLinkRecord {
   persona_override_id: string | null
   delivery_window: Record<string, any> | null
   metadata: Record<string, any>
+  priority?: number
   created_at: string | null
   updated_at: string | null
 }
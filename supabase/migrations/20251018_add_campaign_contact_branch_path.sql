@@ -0,0 +1,10 @@
+-- Migration: Per-contact branch path for sequence step conditions
+-- Description: Records which branch each contact followed when step conditions
+--              (branch_to_step, skip_step, delay_step, stop_sequence) are evaluated
+-- Date: 2025-10-18
+
+ALTER TABLE campaign_contacts
+ADD COLUMN IF NOT EXISTS branch_path JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN campaign_contacts.branch_path IS 'Ordered list of branch decisions ({from_step, to_step, action, condition_id, reason, decided_at}) taken for this contact';
+
@@ -0,0 +1,43 @@
+-- Migration: Sequence graph editor
+-- Purpose: Allow sequences to be modelled as a directed graph with conditional edges
+-- Date: 2025-10-19
+
+-- Extend the edge conditions available on sequence links
+ALTER TABLE sequence_links
+  DROP CONSTRAINT IF EXISTS sequence_links_condition_type_check;
+
+ALTER TABLE sequence_links
+  ADD CONSTRAINT sequence_links_condition_type_check
+  CHECK (condition_type IN (
+    'no_reply',
+    'opened_no_reply',
+    'always',
+    'custom',
+    'opened',
+    'not_opened',
+    'clicked',
+    'replied',
+    'bounced',
+    'auto_reply'
+  ));
+
+-- When a campaign has several outgoing edges, lower priority values are evaluated first
+ALTER TABLE sequence_links
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN sequence_links.priority IS 'Evaluation order among links sharing the same parent campaign (ascending). A contact follows the first matching link only.';
+
+CREATE INDEX IF NOT EXISTS idx_sequence_links_parent_priority
+  ON sequence_links(parent_campaign_id, priority)
+  WHERE parent_campaign_id IS NOT NULL;
+
+-- Node positions for the graph editor
+ALTER TABLE sequences
+  ADD COLUMN IF NOT EXISTS graph_layout JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+COMMENT ON COLUMN sequences.graph_layout IS 'Graph editor node positions keyed by campaign id ({ "<campaign_id>": { "x": 0, "y": 0 } })';
+
+-- Edge statistics count enrollments per link
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_current_link
+  ON sequence_enrollments(current_link_id)
+  WHERE current_link_id IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Migration: Persist A/B test variant assignment for simple campaigns
+-- Description: Stores the variant each contact receives so results can be computed
+--              from real email_tracking events and the winner promoted to remaining contacts
+-- Date: 2025-10-20
+
+ALTER TABLE campaign_contacts
+ADD COLUMN IF NOT EXISTS ab_test_variant VARCHAR(100);
+
+ALTER TABLE email_tracking
+ADD COLUMN IF NOT EXISTS ab_test_variant VARCHAR(100);
+
+COMMENT ON COLUMN campaign_contacts.ab_test_variant IS 'Variant id from campaigns.ab_test_config assigned to this contact';
+COMMENT ON COLUMN email_tracking.ab_test_variant IS 'Variant id from campaigns.ab_test_config used for this send';
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_campaign_variant
+  ON email_tracking(campaign_id, ab_test_variant)
+  WHERE ab_test_variant IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Migration: Account-wide suppression list
+-- Description: Emails and whole domains that must never be emailed by any send path
+--              (campaigns, sequences, autonomous replies, manual and test sends)
+-- Date: 2025-10-21
+
+CREATE TABLE IF NOT EXISTS suppression_list (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email TEXT,
+  domain TEXT,
+  reason TEXT,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'import', 'unsubscribe', 'bounce', 'complaint')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT suppression_list_target_check CHECK (
+    (email IS NOT NULL AND domain IS NULL) OR (email IS NULL AND domain IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppression_list_user_email
+  ON suppression_list(user_id, lower(email))
+  WHERE email IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppression_list_user_domain
+  ON suppression_list(user_id, lower(domain))
+  WHERE domain IS NOT NULL;
+
+ALTER TABLE suppression_list ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own suppression list" ON suppression_list;
+CREATE POLICY "Users manage their own suppression list"
+  ON suppression_list
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE suppression_list IS 'Account-wide do-not-email list checked before every send';
@@ -0,0 +1,131 @@
+-- Migration: Durable Postgres job queue
+-- Description: Leased jobs with visibility timeouts, retries with backoff and dead-lettering.
+--              Campaign sends, reply jobs, enrichment jobs and IMAP syncs are dispatched
+--              through this table so multiple workers can run without double-processing.
+-- Date: 2025-10-22
+
+CREATE TABLE IF NOT EXISTS job_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue TEXT NOT NULL
+    CHECK (queue IN ('campaign_send', 'reply_job', 'enrichment', 'imap_sync')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  dedupe_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Claim scan: pending jobs that are due, plus running jobs whose lease expired
+CREATE INDEX IF NOT EXISTS idx_job_queue_claim
+  ON job_queue(queue, status, run_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_dead
+  ON job_queue(queue, updated_at DESC)
+  WHERE status = 'dead';
+
+-- At most one live job per dedupe key (e.g. one send job per campaign)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_dedupe
+  ON job_queue(queue, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+
+ALTER TABLE job_queue ENABLE ROW LEVEL SECURITY;
+-- No policies: only the service role (which bypasses RLS) reads or writes the queue
+
+-- ============================================================================
+-- Claim due jobs for a worker
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS claim_queue_jobs(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION claim_queue_jobs(
+  p_queue TEXT,
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_visibility_timeout_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+  -- Jobs whose lease expired on their final attempt go to the dead-letter state
+  UPDATE job_queue
+  SET
+    status = 'dead',
+    last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+    locked_by = NULL,
+    locked_until = NULL,
+    updated_at = NOW()
+  WHERE queue = p_queue
+    AND status = 'running'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE job_queue AS job
+  SET
+    status = 'running',
+    attempts = job.attempts + 1,
+    locked_by = p_worker_id,
+    locked_until = NOW() + make_interval(secs => p_visibility_timeout_seconds),
+    updated_at = NOW()
+  WHERE job.id IN (
+    SELECT candidate.id
+    FROM job_queue AS candidate
+    WHERE candidate.queue = p_queue
+      AND (
+        (candidate.status = 'pending' AND candidate.run_at <= NOW())
+        OR (candidate.status = 'running' AND candidate.locked_until < NOW())
+      )
+    ORDER BY candidate.priority DESC, candidate.run_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_queue_jobs(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION claim_queue_jobs IS 'Atomically leases due jobs (and jobs with expired leases) to a worker using FOR UPDATE SKIP LOCKED. Dead-letters jobs whose lease expired on their last attempt.';
+
+-- ============================================================================
+-- Extend a lease while a long-running job is still being worked on
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS extend_queue_job_lease(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION extend_queue_job_lease(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_visibility_timeout_seconds INTEGER DEFAULT 300
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE job_queue
+  SET
+    locked_until = NOW() + make_interval(secs => p_visibility_timeout_seconds),
+    updated_at = NOW()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker_id;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION extend_queue_job_lease(UUID, TEXT, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION extend_queue_job_lease IS 'Heartbeat for a running job. Returns false when the worker no longer holds the lease.';
+
+COMMENT ON TABLE job_queue IS 'Durable background job queue with leases, retries and dead-lettering';
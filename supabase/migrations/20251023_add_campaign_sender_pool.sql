@@ -0,0 +1,45 @@
+-- Migration: Sender pool for inbox rotation
+-- Description: Campaigns can send from a pool of email accounts instead of a single
+--              from_email_account_id. Sends are spread across the pool by remaining daily
+--              quota, warmup stage and domain reputation (reputation_scores).
+-- Date: 2025-10-23
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS email_account_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN campaigns.email_account_ids IS 'Sender pool for inbox rotation. Empty means the campaign only sends from from_email_account_id.';
+
+-- Existing single-sender campaigns start with a pool of one
+UPDATE campaigns
+SET email_account_ids = ARRAY[from_email_account_id]
+WHERE from_email_account_id IS NOT NULL
+  AND cardinality(email_account_ids) = 0;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_email_account_ids
+  ON campaigns USING GIN (email_account_ids);
+
+-- ============================================================================
+-- Domain reputation scores written by ReputationMonitor
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reputation_scores (
+  domain TEXT PRIMARY KEY,
+  ip_address TEXT,
+  overall_score INTEGER NOT NULL CHECK (overall_score BETWEEN 0 AND 100),
+  factors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL
+    CHECK (status IN ('excellent', 'good', 'fair', 'poor', 'critical')),
+  alerts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  recommendations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE reputation_scores ENABLE ROW LEVEL SECURITY;
+
+-- Sending domains are shared infrastructure; any signed-in user may read scores
+CREATE POLICY "Authenticated users can read reputation scores"
+  ON reputation_scores FOR SELECT
+  TO authenticated
+  USING (true);
+
+COMMENT ON TABLE reputation_scores IS 'Latest reputation score per sending domain, used to weight inbox rotation';
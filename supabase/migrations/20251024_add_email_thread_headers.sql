@@ -0,0 +1,18 @@
+-- Migration: Thread headers for follow-up steps
+-- Description: Store the RFC 5322 Message-ID, the References chain and the provider thread id
+--              of every sent campaign email so follow-up steps can reply in the same thread
+--              (In-Reply-To / References headers, "Re:" subject, Gmail threadId).
+-- Date: 2025-10-24
+
+ALTER TABLE email_tracking
+  ADD COLUMN IF NOT EXISTS header_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS thread_references TEXT,
+  ADD COLUMN IF NOT EXISTS provider_thread_id TEXT;
+
+COMMENT ON COLUMN email_tracking.header_message_id IS 'Message-ID header of the sent email, e.g. <123.abc@example.com>';
+COMMENT ON COLUMN email_tracking.thread_references IS 'References header the email was sent with (space separated Message-IDs)';
+COMMENT ON COLUMN email_tracking.provider_thread_id IS 'Provider conversation id (Gmail threadId) for threaded follow-ups';
+
+CREATE INDEX IF NOT EXISTS idx_email_tracking_thread_lookup
+  ON email_tracking(campaign_id, contact_id, sent_at DESC)
+  WHERE header_message_id IS NOT NULL;
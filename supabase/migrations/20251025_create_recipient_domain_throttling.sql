@@ -0,0 +1,105 @@
+-- Migration: Per-recipient-domain send throttling
+-- Description: Hourly send counters per user and recipient domain (across all campaigns),
+--              an atomic reserve function enforcing hourly/daily domain caps, and a table
+--              recording why a send was deferred and when it will be retried.
+-- Date: 2025-10-25
+
+CREATE TABLE IF NOT EXISTS recipient_domain_send_counts (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,
+  hour_start TIMESTAMPTZ NOT NULL,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, domain, hour_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipient_domain_send_counts_recent
+  ON recipient_domain_send_counts(user_id, hour_start DESC);
+
+ALTER TABLE recipient_domain_send_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own domain send counts"
+  ON recipient_domain_send_counts FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Deferred sends
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS send_deferrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  email_job_id UUID,
+  recipient_domain TEXT NOT NULL,
+  limit_window TEXT NOT NULL CHECK (limit_window IN ('hour', 'day')),
+  reason TEXT NOT NULL,
+  deferred_until TIMESTAMPTZ NOT NULL,
+  deferral_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_send_deferrals_campaign ON send_deferrals(campaign_id, deferred_until);
+
+ALTER TABLE send_deferrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own send deferrals"
+  ON send_deferrals FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Reserve one send to a recipient domain
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS reserve_recipient_domain_send(UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION reserve_recipient_domain_send(
+  p_user_id UUID,
+  p_domain TEXT,
+  p_hourly_limit INTEGER DEFAULT NULL,
+  p_daily_limit INTEGER DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_hour_start TIMESTAMPTZ := date_trunc('hour', NOW());
+  v_day_start TIMESTAMPTZ := date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_hour_count INTEGER;
+  v_day_count INTEGER;
+BEGIN
+  -- Serialize reservations for the same user and domain so concurrent workers cannot overshoot
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || p_domain));
+
+  SELECT
+    COALESCE(SUM(sent_count) FILTER (WHERE hour_start = v_hour_start), 0),
+    COALESCE(SUM(sent_count), 0)
+  INTO v_hour_count, v_day_count
+  FROM recipient_domain_send_counts
+  WHERE user_id = p_user_id
+    AND domain = p_domain
+    AND hour_start >= v_day_start;
+
+  IF p_daily_limit IS NOT NULL AND v_day_count >= p_daily_limit THEN
+    RETURN 'day';
+  END IF;
+
+  IF p_hourly_limit IS NOT NULL AND v_hour_count >= p_hourly_limit THEN
+    RETURN 'hour';
+  END IF;
+
+  INSERT INTO recipient_domain_send_counts (user_id, domain, hour_start, sent_count)
+  VALUES (p_user_id, p_domain, v_hour_start, 1)
+  ON CONFLICT (user_id, domain, hour_start)
+  DO UPDATE SET sent_count = recipient_domain_send_counts.sent_count + 1;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reserve_recipient_domain_send(UUID, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION reserve_recipient_domain_send IS 'Counts one send to a recipient domain unless the hourly or daily cap is reached. Returns NULL when reserved, otherwise the exhausted window (hour or day).';
+
+COMMENT ON TABLE recipient_domain_send_counts IS 'Hourly send counts per user and recipient domain across all campaigns';
+COMMENT ON TABLE send_deferrals IS 'Sends postponed by a recipient domain cap, with the reason shown in campaign email details';
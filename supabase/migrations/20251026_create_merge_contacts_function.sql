@@ -0,0 +1,153 @@
+-- Migration: Merge duplicate contacts
+-- Description: Transactional merge of a duplicate cluster into one surviving contact.
+--              Moves email_tracking history, campaign_contacts rows, tag links, list
+--              memberships and other contact references onto the primary contact,
+--              applies the merged field values and deletes the duplicates.
+-- Date: 2025-10-26
+
+DROP FUNCTION IF EXISTS merge_contacts(UUID, UUID, UUID[], JSONB);
+
+CREATE OR REPLACE FUNCTION merge_contacts(
+  p_user_id UUID,
+  p_primary_id UUID,
+  p_duplicate_ids UUID[],
+  p_updates JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_duplicate_ids UUID[];
+  v_owned INTEGER;
+  v_count INTEGER;
+  v_summary JSONB := '{}'::JSONB;
+  v_table TEXT;
+BEGIN
+  SELECT ARRAY(SELECT DISTINCT id FROM unnest(p_duplicate_ids) AS id WHERE id <> p_primary_id)
+  INTO v_duplicate_ids;
+
+  IF array_length(v_duplicate_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'No duplicate contacts to merge';
+  END IF;
+
+  SELECT COUNT(*) INTO v_owned
+  FROM contacts
+  WHERE user_id = p_user_id
+    AND (id = p_primary_id OR id = ANY(v_duplicate_ids));
+
+  IF v_owned <> array_length(v_duplicate_ids, 1) + 1 THEN
+    RAISE EXCEPTION 'One or more contacts not found';
+  END IF;
+
+  -- Send/open/click history
+  UPDATE email_tracking SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('email_tracking', v_count);
+
+  -- Campaign membership: a campaign can hold the contact only once, so when the primary is
+  -- already enrolled the duplicate's row is dropped (its sends stay in email_tracking)
+  DELETE FROM campaign_contacts d
+  WHERE d.contact_id = ANY(v_duplicate_ids)
+    AND EXISTS (
+      SELECT 1 FROM campaign_contacts p
+      WHERE p.campaign_id = d.campaign_id AND p.contact_id = p_primary_id
+    );
+  DELETE FROM campaign_contacts d
+  WHERE d.contact_id = ANY(v_duplicate_ids)
+    AND EXISTS (
+      SELECT 1 FROM campaign_contacts o
+      WHERE o.campaign_id = d.campaign_id
+        AND o.contact_id = ANY(v_duplicate_ids)
+        AND o.id < d.id
+    );
+  UPDATE campaign_contacts SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('campaign_contacts', v_count);
+
+  -- Tag links
+  INSERT INTO contact_tags (contact_id, tag_id)
+  SELECT DISTINCT p_primary_id, tag_id FROM contact_tags WHERE contact_id = ANY(v_duplicate_ids)
+  ON CONFLICT (contact_id, tag_id) DO NOTHING;
+  DELETE FROM contact_tags WHERE contact_id = ANY(v_duplicate_ids);
+
+  -- Sequence enrollments and domain deferrals are unique per contact
+  DELETE FROM sequence_enrollments d
+  WHERE d.contact_id = ANY(v_duplicate_ids)
+    AND EXISTS (
+      SELECT 1 FROM sequence_enrollments p
+      WHERE p.sequence_id = d.sequence_id AND p.contact_id = p_primary_id
+    );
+  UPDATE sequence_enrollments SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+
+  DELETE FROM send_deferrals d
+  WHERE d.contact_id = ANY(v_duplicate_ids)
+    AND EXISTS (
+      SELECT 1 FROM send_deferrals p
+      WHERE p.campaign_id = d.campaign_id AND p.contact_id = p_primary_id
+    );
+  UPDATE send_deferrals SET contact_id = p_primary_id WHERE contact_id = ANY(v_duplicate_ids);
+
+  -- Remaining references without uniqueness constraints (tables may not exist on older installs)
+  FOREACH v_table IN ARRAY ARRAY[
+    'email_jobs', 'email_replies', 'reply_jobs', 'email_events', 'click_tracking',
+    'email_sends', 'ai_persona_email_interactions'
+  ] LOOP
+    IF to_regclass('public.' || v_table) IS NOT NULL THEN
+      EXECUTE format('UPDATE %I SET contact_id = $1 WHERE contact_id = ANY($2)', v_table)
+      USING p_primary_id, v_duplicate_ids;
+    END IF;
+  END LOOP;
+
+  -- List memberships: swap duplicate ids for the primary, keeping the original order
+  UPDATE contact_lists cl
+  SET contact_ids = ARRAY(
+        SELECT s.id FROM (
+          SELECT CASE WHEN u.x = ANY(v_duplicate_ids) THEN p_primary_id ELSE u.x END AS id, MIN(u.ord) AS ord
+          FROM unnest(cl.contact_ids) WITH ORDINALITY AS u(x, ord)
+          GROUP BY 1
+        ) s
+        ORDER BY s.ord
+      ),
+      updated_at = NOW()
+  WHERE cl.user_id = p_user_id
+    AND cl.contact_ids && v_duplicate_ids;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('contact_lists', v_count);
+
+  DELETE FROM contacts WHERE user_id = p_user_id AND id = ANY(v_duplicate_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_summary := v_summary || jsonb_build_object('deleted_contacts', v_count);
+
+  -- Merged field values (applied after the duplicates are gone so a chosen email cannot collide)
+  UPDATE contacts c SET
+    email = CASE WHEN p_updates ? 'email' THEN p_updates->>'email' ELSE c.email END,
+    first_name = CASE WHEN p_updates ? 'first_name' THEN p_updates->>'first_name' ELSE c.first_name END,
+    last_name = CASE WHEN p_updates ? 'last_name' THEN p_updates->>'last_name' ELSE c.last_name END,
+    company = CASE WHEN p_updates ? 'company' THEN p_updates->>'company' ELSE c.company END,
+    position = CASE WHEN p_updates ? 'position' THEN p_updates->>'position' ELSE c.position END,
+    phone = CASE WHEN p_updates ? 'phone' THEN p_updates->>'phone' ELSE c.phone END,
+    website = CASE WHEN p_updates ? 'website' THEN p_updates->>'website' ELSE c.website END,
+    linkedin_url = CASE WHEN p_updates ? 'linkedin_url' THEN p_updates->>'linkedin_url' ELSE c.linkedin_url END,
+    twitter_url = CASE WHEN p_updates ? 'twitter_url' THEN p_updates->>'twitter_url' ELSE c.twitter_url END,
+    address = CASE WHEN p_updates ? 'address' THEN p_updates->>'address' ELSE c.address END,
+    postcode = CASE WHEN p_updates ? 'postcode' THEN p_updates->>'postcode' ELSE c.postcode END,
+    city = CASE WHEN p_updates ? 'city' THEN p_updates->>'city' ELSE c.city END,
+    country = CASE WHEN p_updates ? 'country' THEN p_updates->>'country' ELSE c.country END,
+    timezone = CASE WHEN p_updates ? 'timezone' THEN p_updates->>'timezone' ELSE c.timezone END,
+    sex = CASE WHEN p_updates ? 'sex' THEN p_updates->>'sex' ELSE c.sex END,
+    notes = CASE WHEN p_updates ? 'notes' THEN p_updates->>'notes' ELSE c.notes END,
+    tags = CASE WHEN p_updates ? 'tags'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'tags')) ELSE c.tags END,
+    lists = CASE WHEN p_updates ? 'lists'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'lists')) ELSE c.lists END,
+    segments = CASE WHEN p_updates ? 'segments'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_updates->'segments')) ELSE c.segments END,
+    custom_fields = CASE WHEN p_updates ? 'custom_fields' THEN p_updates->'custom_fields' ELSE c.custom_fields END,
+    updated_at = NOW()
+  WHERE c.id = p_primary_id AND c.user_id = p_user_id;
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION merge_contacts(UUID, UUID, UUID[], JSONB) TO authenticated, service_role;
+
+COMMENT ON FUNCTION merge_contacts IS 'Merges duplicate contacts into a primary contact in one transaction, moving tracking history, campaign rows, tags and list memberships before deleting the duplicates. Returns counts of moved rows.';
@@ -0,0 +1,61 @@
+-- Migration: Background contact imports
+-- Description: Import jobs with progress counters and a staging table holding the parsed
+--              rows of an upload. Rows are staged in chunks while the file is read and
+--              imported chunk by chunk through the contact_import job queue.
+-- Date: 2025-10-27
+
+CREATE TABLE IF NOT EXISTS contact_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'xlsx', 'vcard')),
+  dialect TEXT NOT NULL DEFAULT 'generic'
+    CHECK (dialect IN ('generic', 'google', 'outlook', 'linkedin')),
+  sheet_name TEXT,
+  status TEXT NOT NULL DEFAULT 'staging'
+    CHECK (status IN ('staging', 'pending', 'processing', 'completed', 'failed')),
+  field_mappings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  -- First errors only, the counters above hold the totals
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  validation_summary JSONB NOT NULL DEFAULT '{"total": 0, "valid": 0, "invalid": 0, "risky": 0}'::jsonb,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_import_jobs_user
+  ON contact_import_jobs(user_id, created_at DESC);
+
+ALTER TABLE contact_import_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import jobs"
+  ON contact_import_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS contact_import_rows (
+  job_id UUID NOT NULL REFERENCES contact_import_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  data JSONB NOT NULL,
+  PRIMARY KEY (job_id, row_number)
+);
+
+ALTER TABLE contact_import_rows ENABLE ROW LEVEL SECURITY;
+-- No policies: staged rows are only read and written with the service role
+
+-- ============================================================================
+-- Import queue
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_queue_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_queue_check
+  CHECK (queue IN ('campaign_send', 'reply_job', 'enrichment', 'imap_sync', 'contact_import'));
+
+COMMENT ON TABLE contact_import_jobs IS 'Background contact imports (CSV, XLSX, vCard) with progress counters';
+COMMENT ON TABLE contact_import_rows IS 'Parsed rows of an upload waiting to be imported; deleted once their chunk is processed';
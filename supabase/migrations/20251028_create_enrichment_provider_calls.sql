@@ -0,0 +1,42 @@
+-- Migration: Enrichment provider waterfall
+-- Description: Records every call to an enrichment provider (website, Jina, LinkedIn, ...)
+--              for per-provider rate limits and cost reporting, and stores which
+--              provider supplied each enriched contact field.
+-- Date: 2025-10-28
+
+CREATE TABLE IF NOT EXISTS enrichment_provider_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'skipped', 'rate_limited')),
+  cost_usd NUMERIC(10, 5) NOT NULL DEFAULT 0,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  -- Fields the provider returned
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Rate limits count recent calls per provider
+CREATE INDEX IF NOT EXISTS idx_enrichment_provider_calls_provider
+  ON enrichment_provider_calls(provider, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_enrichment_provider_calls_user
+  ON enrichment_provider_calls(user_id, created_at DESC);
+
+ALTER TABLE enrichment_provider_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own enrichment provider calls"
+  ON enrichment_provider_calls FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Field provenance
+-- ============================================================================
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS enrichment_field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON TABLE enrichment_provider_calls IS 'Enrichment provider calls for rate limiting and cost tracking';
+COMMENT ON COLUMN contacts.enrichment_field_sources IS 'Per enriched field: {provider, confidence, updated_at}';
@@ -0,0 +1,44 @@
+-- Migration: Contact change history
+-- Description: Append-only field-level history of contact changes with the actor
+--              (user, enrichment, bounce processor, AI persona) and old/new values.
+--              Changes of one operation share a group_id; reverts point at the change
+--              they undo through reverts_change_id.
+-- Date: 2025-10-29
+
+CREATE TABLE IF NOT EXISTS contact_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL,
+  field TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  actor_type TEXT NOT NULL
+    CHECK (actor_type IN ('user', 'enrichment', 'bounce_processor', 'ai_persona', 'system')),
+  actor_id TEXT,
+  source TEXT NOT NULL,
+  reverts_change_id UUID REFERENCES contact_history(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_history_contact
+  ON contact_history(contact_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_contact_history_group
+  ON contact_history(group_id);
+
+CREATE INDEX IF NOT EXISTS idx_contact_history_reverts
+  ON contact_history(reverts_change_id)
+  WHERE reverts_change_id IS NOT NULL;
+
+ALTER TABLE contact_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact history"
+  ON contact_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- History is append-only: rows are written with the service role and never updated
+REVOKE UPDATE ON contact_history FROM authenticated, anon;
+
+COMMENT ON TABLE contact_history IS 'Append-only field-level history of contact changes';
+COMMENT ON COLUMN contact_history.group_id IS 'Shared by all field changes of one operation, e.g. an enrichment run';
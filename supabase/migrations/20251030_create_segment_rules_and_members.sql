@@ -0,0 +1,396 @@
+-- Migration: Nested segment rules and materialized segment members
+-- Description: Segments store a tree of AND/OR/NOT groups in contact_segments.rules with
+--              leaves over contact columns and related data (campaign membership, recent
+--              opens, sequence replies, tags, enriched industry). segment_rule_sql() compiles
+--              a tree to a WHERE clause over contacts c. Matching contacts are materialized
+--              in contact_segment_members; changes to contacts and their related rows mark
+--              the contact dirty and process_segment_dirty_contacts() re-evaluates only
+--              those contacts, keeping contact_count accurate on large contact bases.
+-- Date: 2025-10-30
+
+ALTER TABLE contact_segments
+  ADD COLUMN IF NOT EXISTS rules JSONB,
+  ADD COLUMN IF NOT EXISTS is_dynamic BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN contact_segments.rules IS 'Rule tree compiled by segment_rule_sql(); NULL for segments saved before rule trees, which only have conditions';
+COMMENT ON COLUMN contact_segments.is_dynamic IS 'Dynamic segments follow contact changes; static segments keep the members they had when saved';
+COMMENT ON COLUMN contact_segments.refreshed_at IS 'Last full re-evaluation of the segment';
+
+CREATE TABLE IF NOT EXISTS contact_segment_members (
+  segment_id UUID NOT NULL REFERENCES contact_segments(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (segment_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_segment_members_contact
+  ON contact_segment_members(contact_id);
+
+ALTER TABLE contact_segment_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own segment members"
+  ON contact_segment_members FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE contact_segment_members IS 'Materialized segment membership, maintained by refresh_segment_members()';
+
+-- Contacts whose segment membership may have changed since the last refresh
+CREATE TABLE IF NOT EXISTS segment_dirty_contacts (
+  contact_id UUID PRIMARY KEY REFERENCES contacts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  marked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_dirty_contacts_marked
+  ON segment_dirty_contacts(marked_at);
+
+ALTER TABLE segment_dirty_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Compile a field rule. Fields must match SEGMENT_FIELDS in lib/segment-rules.ts.
+CREATE OR REPLACE FUNCTION segment_field_rule_sql(p_rule JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_field TEXT := p_rule->>'field';
+  v_operator TEXT := p_rule->>'operator';
+  v_value TEXT := p_rule->>'value';
+  v_column TEXT;
+  v_type TEXT;
+  v_values TEXT[];
+  v_sql TEXT;
+  v_negate BOOLEAN := v_operator IN ('not_equals', 'not_contains', 'not_in', 'is_not_empty');
+BEGIN
+  CASE
+    WHEN v_field IN ('email', 'first_name', 'last_name', 'company', 'position', 'website', 'phone',
+                     'city', 'country', 'source', 'engagement_status', 'enrichment_status') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'string';
+    WHEN v_field = 'industry' THEN
+      v_column := '(c.enrichment_data->>''industry'')';
+      v_type := 'string';
+    WHEN v_field = 'tags' THEN
+      v_column := 'c.tags';
+      v_type := 'array';
+    WHEN v_field IN ('engagement_score', 'engagement_sent_count', 'engagement_open_count',
+                     'engagement_click_count', 'engagement_reply_count', 'engagement_bounce_count') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'number';
+    WHEN v_field IN ('created_at', 'last_contacted_at', 'last_opened_at', 'last_replied_at', 'unsubscribed_at') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'date';
+    ELSE
+      RAISE EXCEPTION 'Unknown segment field: %', v_field;
+  END CASE;
+
+  -- Negated operators are compiled as NOT of their positive form
+  v_operator := CASE v_operator
+    WHEN 'not_equals' THEN 'equals'
+    WHEN 'not_contains' THEN 'contains'
+    WHEN 'not_in' THEN 'in'
+    WHEN 'is_not_empty' THEN 'is_empty'
+    ELSE v_operator
+  END;
+
+  IF v_operator = 'is_empty' THEN
+    v_sql := CASE v_type
+      WHEN 'string' THEN format('COALESCE(%s, '''') = ''''', v_column)
+      WHEN 'array' THEN format('COALESCE(cardinality(%s), 0) = 0', v_column)
+      ELSE format('%s IS NULL', v_column)
+    END;
+  ELSIF v_type = 'string' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('lower(%s) = lower(%L)', v_column, v_value)
+      WHEN 'contains' THEN format('position(lower(%L) in lower(%s)) > 0', v_value, v_column)
+      WHEN 'starts_with' THEN format('left(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'ends_with' THEN format('right(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'in' THEN NULL
+    END;
+    IF v_operator = 'in' THEN
+      SELECT ARRAY(
+        SELECT lower(value)
+        FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(p_rule->'value') = 'array' THEN p_rule->'value' ELSE jsonb_build_array(p_rule->'value') END
+        ) AS value
+      ) INTO v_values;
+      v_sql := format('lower(%s) = ANY(%L::text[])', v_column, v_values);
+    END IF;
+  ELSIF v_type = 'number' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('%s = %L::numeric', v_column, v_value)
+      WHEN 'greater_than' THEN format('%s > %L::numeric', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::numeric', v_column, v_value)
+    END;
+  ELSIF v_type = 'date' THEN
+    v_sql := CASE v_operator
+      WHEN 'greater_than' THEN format('%s > %L::timestamptz', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::timestamptz', v_column, v_value)
+      WHEN 'within_last_days' THEN format('%s >= NOW() - make_interval(days => %s)', v_column, v_value::INTEGER)
+    END;
+  ELSIF v_type = 'array' THEN
+    v_sql := CASE v_operator
+      WHEN 'contains' THEN format('EXISTS (SELECT 1 FROM unnest(%s) AS item WHERE lower(item) = lower(%L))', v_column, v_value)
+    END;
+  END IF;
+
+  IF v_sql IS NULL THEN
+    RAISE EXCEPTION 'Operator % is not supported for segment field %', p_rule->>'operator', v_field;
+  END IF;
+
+  -- Rules are two-valued: a NULL column never matches the positive form
+  RETURN CASE WHEN v_negate
+    THEN format('NOT COALESCE(%s, FALSE)', v_sql)
+    ELSE format('COALESCE(%s, FALSE)', v_sql)
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Compile a rule tree to a condition over contacts c
+CREATE OR REPLACE FUNCTION segment_rule_sql(p_node JSONB, p_depth INTEGER DEFAULT 0)
+RETURNS TEXT AS $$
+DECLARE
+  v_parts TEXT[] := '{}';
+  v_child JSONB;
+  v_tag TEXT;
+BEGIN
+  IF p_depth > 8 THEN
+    RAISE EXCEPTION 'Segment rules are nested too deeply';
+  END IF;
+
+  CASE p_node->>'type'
+    WHEN 'group' THEN
+      FOR v_child IN SELECT value FROM jsonb_array_elements(COALESCE(p_node->'children', '[]'::JSONB))
+      LOOP
+        v_parts := v_parts || segment_rule_sql(v_child, p_depth + 1);
+      END LOOP;
+
+      -- An empty group matches every contact, NOT of it none
+      IF cardinality(v_parts) = 0 THEN
+        RETURN CASE WHEN p_node->>'logic' = 'NOT' THEN 'FALSE' ELSE 'TRUE' END;
+      END IF;
+
+      CASE p_node->>'logic'
+        WHEN 'AND' THEN RETURN '(' || array_to_string(v_parts, ' AND ') || ')';
+        WHEN 'OR' THEN RETURN '(' || array_to_string(v_parts, ' OR ') || ')';
+        WHEN 'NOT' THEN RETURN 'NOT (' || array_to_string(v_parts, ' AND ') || ')';
+        ELSE RAISE EXCEPTION 'Unknown segment group logic: %', p_node->>'logic';
+      END CASE;
+
+    WHEN 'field' THEN
+      RETURN segment_field_rule_sql(p_node);
+
+    WHEN 'in_campaign' THEN
+      RETURN format(
+        'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.campaign_id = %L::uuid)',
+        p_node->>'campaign_id'
+      );
+
+    WHEN 'opened_email' THEN
+      RETURN format(
+        'EXISTS (SELECT 1 FROM email_tracking et WHERE et.contact_id = c.id'
+        || ' AND GREATEST(et.last_opened_at, et.first_opened_at, et.opened_at) >= NOW() - make_interval(days => %s))',
+        (p_node->>'within_days')::INTEGER
+      );
+
+    WHEN 'replied_to_sequence' THEN
+      RETURN format(
+        '(EXISTS (SELECT 1 FROM email_tracking et WHERE et.contact_id = c.id AND et.replied_at IS NOT NULL'
+        || ' AND (et.sequence_id = %1$L::uuid OR et.campaign_id IN (SELECT id FROM campaigns WHERE sequence_id = %1$L::uuid)))'
+        || ' OR EXISTS (SELECT 1 FROM email_replies er JOIN campaigns cp ON cp.id = er.campaign_id'
+        || ' WHERE er.contact_id = c.id AND er.reply_type = ''human_reply'' AND cp.sequence_id = %1$L::uuid))',
+        p_node->>'sequence_id'
+      );
+
+    WHEN 'has_tag' THEN
+      FOR v_tag IN SELECT value FROM jsonb_array_elements_text(COALESCE(p_node->'tags', '[]'::JSONB))
+      LOOP
+        -- Tags live in contacts.tags and in contact_tags
+        v_parts := v_parts || format(
+          '(EXISTS (SELECT 1 FROM unnest(c.tags) AS tag WHERE lower(tag) = lower(%1$L))'
+          || ' OR EXISTS (SELECT 1 FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id'
+          || ' WHERE ct.contact_id = c.id AND lower(t.name) = lower(%1$L)))',
+          v_tag
+        );
+      END LOOP;
+      IF cardinality(v_parts) = 0 THEN
+        RAISE EXCEPTION 'Tag rule without tags';
+      END IF;
+      RETURN '(' || array_to_string(v_parts, CASE WHEN p_node->>'match' = 'all' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'enriched_industry' THEN
+      RETURN format(
+        'COALESCE(position(lower(%L) in lower(c.enrichment_data->>''industry'')) > 0, FALSE)',
+        p_node->>'industry'
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Unknown segment rule type: %', p_node->>'type';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Contacts of a user matching a rule tree, optionally only among the given contacts
+CREATE OR REPLACE FUNCTION segment_matching_contacts(
+  p_user_id UUID,
+  p_rules JSONB,
+  p_contact_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (contact_id UUID) AS $$
+BEGIN
+  RETURN QUERY EXECUTE format(
+    'SELECT c.id FROM contacts c WHERE c.user_id = $1 AND ($2::uuid[] IS NULL OR c.id = ANY($2)) AND %s',
+    segment_rule_sql(p_rules)
+  ) USING p_user_id, p_contact_ids;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Re-evaluate a segment for all contacts, or incrementally for the given contacts.
+-- Returns the new member count.
+CREATE OR REPLACE FUNCTION refresh_segment_members(
+  p_segment_id UUID,
+  p_contact_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_segment contact_segments%ROWTYPE;
+  v_matching UUID[];
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_segment FROM contact_segments WHERE id = p_segment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Segment not found';
+  END IF;
+  IF v_segment.rules IS NULL THEN
+    RAISE EXCEPTION 'Segment has no rules';
+  END IF;
+
+  SELECT COALESCE(array_agg(m.contact_id), '{}') INTO v_matching
+  FROM segment_matching_contacts(v_segment.user_id, v_segment.rules, p_contact_ids) AS m;
+
+  DELETE FROM contact_segment_members
+  WHERE segment_id = p_segment_id
+    AND (p_contact_ids IS NULL OR contact_id = ANY(p_contact_ids))
+    AND NOT (contact_id = ANY(v_matching));
+
+  INSERT INTO contact_segment_members (segment_id, contact_id, user_id)
+  SELECT p_segment_id, id, v_segment.user_id FROM unnest(v_matching) AS id
+  ON CONFLICT (segment_id, contact_id) DO NOTHING;
+
+  SELECT COUNT(*) INTO v_count FROM contact_segment_members WHERE segment_id = p_segment_id;
+
+  UPDATE contact_segments
+  SET contact_count = v_count,
+      refreshed_at = CASE WHEN p_contact_ids IS NULL THEN NOW() ELSE refreshed_at END
+  WHERE id = p_segment_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Re-evaluate dynamic segments for up to p_limit dirty contacts, oldest first
+CREATE OR REPLACE FUNCTION process_segment_dirty_contacts(p_limit INTEGER DEFAULT 5000)
+RETURNS JSONB AS $$
+DECLARE
+  v_batches JSONB;
+  v_batch RECORD;
+  v_contact_ids UUID[];
+  v_segment_id UUID;
+  v_contacts INTEGER := 0;
+  v_refreshes INTEGER := 0;
+BEGIN
+  WITH picked AS (
+    DELETE FROM segment_dirty_contacts
+    WHERE contact_id IN (
+      SELECT contact_id FROM segment_dirty_contacts
+      ORDER BY marked_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING contact_id, user_id
+  )
+  SELECT COALESCE(jsonb_object_agg(user_id, contact_ids), '{}'::JSONB) INTO v_batches
+  FROM (SELECT user_id, array_agg(contact_id) AS contact_ids FROM picked GROUP BY user_id) AS grouped;
+
+  FOR v_batch IN SELECT key, value FROM jsonb_each(v_batches)
+  LOOP
+    v_contact_ids := ARRAY(SELECT jsonb_array_elements_text(v_batch.value)::UUID);
+    v_contacts := v_contacts + cardinality(v_contact_ids);
+
+    FOR v_segment_id IN
+      SELECT id FROM contact_segments
+      WHERE user_id = v_batch.key::UUID AND is_dynamic AND rules IS NOT NULL
+    LOOP
+      PERFORM refresh_segment_members(v_segment_id, v_contact_ids);
+      v_refreshes := v_refreshes + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('contacts', v_contacts, 'segment_refreshes', v_refreshes);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Mark the contact of a changed row dirty. Deleted contacts leave their segments
+-- through the ON DELETE CASCADE of contact_segment_members.
+CREATE OR REPLACE FUNCTION mark_segment_contact_dirty()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_contact_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'contacts' THEN
+    v_contact_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_contact_id := (to_jsonb(OLD)->>'contact_id')::UUID;
+  ELSE
+    v_contact_id := (to_jsonb(NEW)->>'contact_id')::UUID;
+  END IF;
+
+  IF v_contact_id IS NOT NULL THEN
+    INSERT INTO segment_dirty_contacts (contact_id, user_id)
+    SELECT id, user_id FROM contacts WHERE id = v_contact_id
+    ON CONFLICT (contact_id) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS segment_dirty_contacts_on_contacts ON contacts;
+CREATE TRIGGER segment_dirty_contacts_on_contacts
+  AFTER INSERT OR UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION mark_segment_contact_dirty();
+
+DROP TRIGGER IF EXISTS segment_dirty_contacts_on_campaign_contacts ON campaign_contacts;
+CREATE TRIGGER segment_dirty_contacts_on_campaign_contacts
+  AFTER INSERT OR DELETE OR UPDATE OF campaign_id, contact_id ON campaign_contacts
+  FOR EACH ROW EXECUTE FUNCTION mark_segment_contact_dirty();
+
+DROP TRIGGER IF EXISTS segment_dirty_contacts_on_email_tracking ON email_tracking;
+CREATE TRIGGER segment_dirty_contacts_on_email_tracking
+  AFTER INSERT OR UPDATE OF contact_id, opened_at, first_opened_at, last_opened_at, replied_at ON email_tracking
+  FOR EACH ROW EXECUTE FUNCTION mark_segment_contact_dirty();
+
+DROP TRIGGER IF EXISTS segment_dirty_contacts_on_email_replies ON email_replies;
+CREATE TRIGGER segment_dirty_contacts_on_email_replies
+  AFTER INSERT OR UPDATE OF contact_id, reply_type ON email_replies
+  FOR EACH ROW EXECUTE FUNCTION mark_segment_contact_dirty();
+
+DROP TRIGGER IF EXISTS segment_dirty_contacts_on_contact_tags ON contact_tags;
+CREATE TRIGGER segment_dirty_contacts_on_contact_tags
+  AFTER INSERT OR DELETE ON contact_tags
+  FOR EACH ROW EXECUTE FUNCTION mark_segment_contact_dirty();
+
+-- The compiled SQL runs dynamically, so only the server may call these
+REVOKE ALL ON FUNCTION segment_field_rule_sql(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION segment_rule_sql(JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION segment_matching_contacts(UUID, JSONB, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_segment_members(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION process_segment_dirty_contacts(INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION segment_matching_contacts(UUID, JSONB, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_segment_members(UUID, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION process_segment_dirty_contacts(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION segment_rule_sql(JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION segment_field_rule_sql(JSONB) TO service_role;
+
+COMMENT ON FUNCTION refresh_segment_members IS 'Re-evaluates a segment for all contacts or only the given ones and updates contact_count';
+COMMENT ON FUNCTION process_segment_dirty_contacts IS 'Incrementally refreshes dynamic segments for contacts changed since the last run';
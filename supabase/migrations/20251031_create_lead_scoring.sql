@@ -0,0 +1,152 @@
+-- Migration: Configurable lead scoring
+-- Description: Each user can store a lead scoring model (firmographic rules, behavioural
+--              event weights with a decay half-life, negative signals) in
+--              lead_scoring_models. The resulting 0-100 score and its itemized breakdown
+--              are stored on the contact, recomputed on engagement events, after
+--              enrichment, after a model change (lead_scoring queue) and daily for decay.
+--              lead_score becomes a segment field.
+-- Date: 2025-10-31
+
+CREATE TABLE IF NOT EXISTS lead_scoring_models (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  model JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE lead_scoring_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lead scoring model"
+  ON lead_scoring_models FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own lead scoring model"
+  ON lead_scoring_models FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE lead_scoring_models IS 'Per-user lead scoring model; users without a row use the default model of lib/lead-scoring.ts';
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS lead_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lead_score_breakdown JSONB,
+  ADD COLUMN IF NOT EXISTS lead_score_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_user_lead_score
+  ON contacts(user_id, lead_score DESC);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_lead_score_updated_at
+  ON contacts(lead_score_updated_at NULLS FIRST);
+
+COMMENT ON COLUMN contacts.lead_score IS 'Lead score 0-100 computed from the user''s lead scoring model';
+COMMENT ON COLUMN contacts.lead_score_breakdown IS 'Itemized points behind lead_score (firmographic rules, decayed events, negative signals)';
+
+-- ============================================================================
+-- Rescoring queue
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_queue_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_queue_check
+  CHECK (queue IN ('campaign_send', 'reply_job', 'enrichment', 'imap_sync', 'contact_import', 'lead_scoring'));
+
+-- ============================================================================
+-- lead_score as a segment field
+-- ============================================================================
+
+-- Compile a field rule. Fields must match SEGMENT_FIELDS in lib/segment-rules.ts.
+CREATE OR REPLACE FUNCTION segment_field_rule_sql(p_rule JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_field TEXT := p_rule->>'field';
+  v_operator TEXT := p_rule->>'operator';
+  v_value TEXT := p_rule->>'value';
+  v_column TEXT;
+  v_type TEXT;
+  v_values TEXT[];
+  v_sql TEXT;
+  v_negate BOOLEAN := v_operator IN ('not_equals', 'not_contains', 'not_in', 'is_not_empty');
+BEGIN
+  CASE
+    WHEN v_field IN ('email', 'first_name', 'last_name', 'company', 'position', 'website', 'phone',
+                     'city', 'country', 'source', 'engagement_status', 'enrichment_status') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'string';
+    WHEN v_field = 'industry' THEN
+      v_column := '(c.enrichment_data->>''industry'')';
+      v_type := 'string';
+    WHEN v_field = 'tags' THEN
+      v_column := 'c.tags';
+      v_type := 'array';
+    WHEN v_field IN ('engagement_score', 'engagement_sent_count', 'engagement_open_count',
+                     'engagement_click_count', 'engagement_reply_count', 'engagement_bounce_count',
+                     'lead_score') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'number';
+    WHEN v_field IN ('created_at', 'last_contacted_at', 'last_opened_at', 'last_replied_at', 'unsubscribed_at') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'date';
+    ELSE
+      RAISE EXCEPTION 'Unknown segment field: %', v_field;
+  END CASE;
+
+  -- Negated operators are compiled as NOT of their positive form
+  v_operator := CASE v_operator
+    WHEN 'not_equals' THEN 'equals'
+    WHEN 'not_contains' THEN 'contains'
+    WHEN 'not_in' THEN 'in'
+    WHEN 'is_not_empty' THEN 'is_empty'
+    ELSE v_operator
+  END;
+
+  IF v_operator = 'is_empty' THEN
+    v_sql := CASE v_type
+      WHEN 'string' THEN format('COALESCE(%s, '''') = ''''', v_column)
+      WHEN 'array' THEN format('COALESCE(cardinality(%s), 0) = 0', v_column)
+      ELSE format('%s IS NULL', v_column)
+    END;
+  ELSIF v_type = 'string' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('lower(%s) = lower(%L)', v_column, v_value)
+      WHEN 'contains' THEN format('position(lower(%L) in lower(%s)) > 0', v_value, v_column)
+      WHEN 'starts_with' THEN format('left(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'ends_with' THEN format('right(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'in' THEN NULL
+    END;
+    IF v_operator = 'in' THEN
+      SELECT ARRAY(
+        SELECT lower(value)
+        FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(p_rule->'value') = 'array' THEN p_rule->'value' ELSE jsonb_build_array(p_rule->'value') END
+        ) AS value
+      ) INTO v_values;
+      v_sql := format('lower(%s) = ANY(%L::text[])', v_column, v_values);
+    END IF;
+  ELSIF v_type = 'number' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('%s = %L::numeric', v_column, v_value)
+      WHEN 'greater_than' THEN format('%s > %L::numeric', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::numeric', v_column, v_value)
+    END;
+  ELSIF v_type = 'date' THEN
+    v_sql := CASE v_operator
+      WHEN 'greater_than' THEN format('%s > %L::timestamptz', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::timestamptz', v_column, v_value)
+      WHEN 'within_last_days' THEN format('%s >= NOW() - make_interval(days => %s)', v_column, v_value::INTEGER)
+    END;
+  ELSIF v_type = 'array' THEN
+    v_sql := CASE v_operator
+      WHEN 'contains' THEN format('EXISTS (SELECT 1 FROM unnest(%s) AS item WHERE lower(item) = lower(%L))', v_column, v_value)
+    END;
+  END IF;
+
+  IF v_sql IS NULL THEN
+    RAISE EXCEPTION 'Operator % is not supported for segment field %', p_rule->>'operator', v_field;
+  END IF;
+
+  -- Rules are two-valued: a NULL column never matches the positive form
+  RETURN CASE WHEN v_negate
+    THEN format('NOT COALESCE(%s, FALSE)', v_sql)
+    ELSE format('COALESCE(%s, FALSE)', v_sql)
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
@@ -0,0 +1,239 @@
+-- Migration: Company accounts
+-- Description: Groups contacts into companies keyed by domain (the business email domain,
+--              or the website host for contacts with a personal mailbox). A company holds
+--              its enrichment once and aggregates the engagement of all its contacts.
+--              Contacts are linked by trigger whenever their email, website or company
+--              changes, so imports, edits and merges all keep company_id current.
+-- Date: 2025-11-01
+
+CREATE TABLE IF NOT EXISTS companies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,
+  name TEXT,
+  website TEXT,
+  industry TEXT,
+  enrichment_data JSONB,
+  enrichment_updated_at TIMESTAMPTZ,
+  contact_count INTEGER NOT NULL DEFAULT 0,
+  engaged_contact_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  open_count INTEGER NOT NULL DEFAULT 0,
+  click_count INTEGER NOT NULL DEFAULT 0,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  bounce_count INTEGER NOT NULL DEFAULT 0,
+  engagement_score INTEGER NOT NULL DEFAULT 0,
+  last_engaged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_user_engagement
+  ON companies(user_id, engagement_score DESC);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own companies"
+  ON companies FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own companies"
+  ON companies FOR UPDATE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE companies IS 'Accounts grouping a user''s contacts by domain, with shared enrichment and aggregated engagement';
+COMMENT ON COLUMN companies.engagement_score IS 'Highest engagement_score among the company''s contacts';
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_company_id
+  ON contacts(company_id);
+
+-- ============================================================================
+-- Domain and name of a contact's company
+-- ============================================================================
+
+-- Business email domain, else the website host. Personal mailbox domains must match
+-- PERSONAL_EMAIL_DOMAINS in lib/contact-enrichment.ts.
+CREATE OR REPLACE FUNCTION company_domain(p_email TEXT, p_website TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_domain TEXT := lower(btrim(split_part(COALESCE(p_email, ''), '@', 2)));
+  v_host TEXT;
+BEGIN
+  IF v_domain <> '' AND v_domain NOT IN (
+    'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com',
+    'web.de', 'gmx.de', 'gmx.net', 't-online.de', 'freenet.de',
+    'aol.com', 'live.com', 'me.com', 'msn.com', 'ymail.com',
+    'protonmail.com', 'tutanota.com', '1und1.de', 'arcor.de'
+  ) THEN
+    RETURN v_domain;
+  END IF;
+
+  v_host := lower(btrim(COALESCE(p_website, '')));
+  v_host := regexp_replace(v_host, '^[a-z][a-z0-9+.-]*://', '');
+  v_host := regexp_replace(v_host, '^www\.', '');
+  v_host := split_part(split_part(split_part(v_host, '/', 1), '?', 1), ':', 1);
+
+  RETURN CASE WHEN position('.' in v_host) > 0 THEN v_host ELSE NULL END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Company name from contacts.company, which may hold {"name": ...} JSON (see parseCompanyName)
+CREATE OR REPLACE FUNCTION company_display_name(p_company TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_company IS NULL OR btrim(p_company) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF left(btrim(p_company), 1) = '{' THEN
+    BEGIN
+      RETURN NULLIF(btrim(p_company::JSONB->>'name'), '');
+    EXCEPTION WHEN others THEN
+      RETURN p_company;
+    END;
+  END IF;
+
+  RETURN p_company;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ============================================================================
+-- Backfill
+-- ============================================================================
+
+INSERT INTO companies (user_id, domain, name, website)
+SELECT DISTINCT ON (user_id, domain) user_id, domain, company_display_name(company), website
+FROM (
+  SELECT user_id, company_domain(email, website) AS domain, company, website, created_at
+  FROM contacts
+  WHERE user_id IS NOT NULL
+) candidates
+WHERE domain IS NOT NULL
+ORDER BY user_id, domain, (company IS NULL), created_at
+ON CONFLICT (user_id, domain) DO NOTHING;
+
+UPDATE contacts c
+SET company_id = co.id
+FROM companies co
+WHERE co.user_id = c.user_id
+  AND co.domain = company_domain(c.email, c.website)
+  AND c.company_id IS DISTINCT FROM co.id;
+
+-- Keep the most recent company enrichment of any contact
+UPDATE companies co
+SET enrichment_data = latest.enrichment_data,
+    industry = NULLIF(latest.enrichment_data->>'industry', ''),
+    enrichment_updated_at = latest.enrichment_updated_at
+FROM (
+  SELECT DISTINCT ON (company_id) company_id, enrichment_data, enrichment_updated_at
+  FROM contacts
+  WHERE company_id IS NOT NULL AND enrichment_data IS NOT NULL
+  ORDER BY company_id, enrichment_updated_at DESC NULLS LAST
+) latest
+WHERE co.id = latest.company_id;
+
+-- ============================================================================
+-- Linking and aggregation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION link_contact_company()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_domain TEXT := company_domain(NEW.email, NEW.website);
+BEGIN
+  IF v_domain IS NULL OR NEW.user_id IS NULL THEN
+    NEW.company_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO companies (user_id, domain, name, website)
+  VALUES (NEW.user_id, v_domain, company_display_name(NEW.company), NEW.website)
+  ON CONFLICT (user_id, domain) DO UPDATE
+    SET name = COALESCE(companies.name, EXCLUDED.name),
+        website = COALESCE(companies.website, EXCLUDED.website)
+  RETURNING id INTO NEW.company_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_contact_company ON contacts;
+CREATE TRIGGER link_contact_company
+  BEFORE INSERT OR UPDATE OF email, website, company ON contacts
+  FOR EACH ROW EXECUTE FUNCTION link_contact_company();
+
+CREATE OR REPLACE FUNCTION refresh_company_stats(p_company_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE companies co
+  SET contact_count = stats.contact_count,
+      engaged_contact_count = stats.engaged_contact_count,
+      sent_count = stats.sent_count,
+      open_count = stats.open_count,
+      click_count = stats.click_count,
+      reply_count = stats.reply_count,
+      bounce_count = stats.bounce_count,
+      engagement_score = stats.engagement_score,
+      last_engaged_at = stats.last_engaged_at,
+      updated_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS contact_count,
+      (COUNT(*) FILTER (WHERE engagement_status = 'engaged'))::INTEGER AS engaged_contact_count,
+      COALESCE(SUM(engagement_sent_count), 0)::INTEGER AS sent_count,
+      COALESCE(SUM(engagement_open_count), 0)::INTEGER AS open_count,
+      COALESCE(SUM(engagement_click_count), 0)::INTEGER AS click_count,
+      COALESCE(SUM(engagement_reply_count), 0)::INTEGER AS reply_count,
+      COALESCE(SUM(engagement_bounce_count), 0)::INTEGER AS bounce_count,
+      COALESCE(MAX(engagement_score), 0)::INTEGER AS engagement_score,
+      MAX(engagement_last_positive_at) AS last_engaged_at
+    FROM contacts
+    WHERE company_id = p_company_id
+  ) stats
+  WHERE co.id = p_company_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_contact_company_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.company_id IS NOT NULL THEN
+    PERFORM refresh_company_stats(OLD.company_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.company_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.company_id IS DISTINCT FROM OLD.company_id) THEN
+    PERFORM refresh_company_stats(NEW.company_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS company_stats_on_contact_insert_delete ON contacts;
+CREATE TRIGGER company_stats_on_contact_insert_delete
+  AFTER INSERT OR DELETE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION refresh_contact_company_stats();
+
+DROP TRIGGER IF EXISTS company_stats_on_contact_update ON contacts;
+CREATE TRIGGER company_stats_on_contact_update
+  AFTER UPDATE OF company_id, engagement_status, engagement_score, engagement_sent_count, engagement_open_count,
+    engagement_click_count, engagement_reply_count, engagement_bounce_count, engagement_last_positive_at ON contacts
+  FOR EACH ROW
+  WHEN (
+    ROW(OLD.company_id, OLD.engagement_status, OLD.engagement_score, OLD.engagement_sent_count, OLD.engagement_open_count,
+        OLD.engagement_click_count, OLD.engagement_reply_count, OLD.engagement_bounce_count, OLD.engagement_last_positive_at)
+    IS DISTINCT FROM
+    ROW(NEW.company_id, NEW.engagement_status, NEW.engagement_score, NEW.engagement_sent_count, NEW.engagement_open_count,
+        NEW.engagement_click_count, NEW.engagement_reply_count, NEW.engagement_bounce_count, NEW.engagement_last_positive_at)
+  )
+  EXECUTE FUNCTION refresh_contact_company_stats();
+
+SELECT refresh_company_stats(id) FROM companies;
+
+REVOKE ALL ON FUNCTION refresh_company_stats(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_company_stats(UUID) TO service_role;
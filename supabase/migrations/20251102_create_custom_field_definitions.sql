@@ -0,0 +1,192 @@
+-- Migration: Custom field definitions
+-- Description: Users define typed custom fields (text, number, date, select, multi-select,
+--              boolean) in custom_field_definitions. Values stay in contacts.custom_fields
+--              under the definition key, normalized by lib/custom-fields.ts (numbers as
+--              JSON numbers, dates as YYYY-MM-DD, multi-selects as arrays). Custom fields
+--              become segment fields named custom.<key>.
+-- Date: 2025-11-02
+
+CREATE TABLE IF NOT EXISTS custom_field_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,49}$'),
+  label TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'select', 'multi_select', 'boolean')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_field_definitions_user_position
+  ON custom_field_definitions(user_id, position);
+
+ALTER TABLE custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own custom fields"
+  ON custom_field_definitions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own custom fields"
+  ON custom_field_definitions FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE custom_field_definitions IS 'Typed custom contact fields; values live in contacts.custom_fields under key';
+COMMENT ON COLUMN custom_field_definitions.options IS 'Allowed values of select and multi_select fields';
+
+-- ============================================================================
+-- Typed access to custom field values
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION custom_field_number(p_value JSONB)
+RETURNS NUMERIC AS $$
+BEGIN
+  RETURN CASE
+    WHEN jsonb_typeof(p_value) = 'number' THEN (p_value #>> '{}')::NUMERIC
+    WHEN jsonb_typeof(p_value) = 'string' AND btrim(p_value #>> '{}') ~ '^-?[0-9]+(\.[0-9]+)?$'
+      THEN btrim(p_value #>> '{}')::NUMERIC
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION custom_field_date(p_value JSONB)
+RETURNS DATE AS $$
+BEGIN
+  IF jsonb_typeof(p_value) = 'string' AND (p_value #>> '{}') ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}' THEN
+    RETURN left(p_value #>> '{}', 10)::DATE;
+  END IF;
+  RETURN NULL;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION custom_field_array(p_value JSONB)
+RETURNS TEXT[] AS $$
+BEGIN
+  RETURN CASE
+    WHEN jsonb_typeof(p_value) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(p_value))
+    WHEN jsonb_typeof(p_value) = 'string' AND btrim(p_value #>> '{}') <> '' THEN ARRAY[p_value #>> '{}']
+    ELSE '{}'::TEXT[]
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ============================================================================
+-- Custom fields as segment fields
+-- ============================================================================
+
+-- Compile a field rule. Fields must match SEGMENT_FIELDS in lib/segment-rules.ts; custom fields
+-- are named custom.<key> and carry the segment type of their definition in value_type.
+CREATE OR REPLACE FUNCTION segment_field_rule_sql(p_rule JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_field TEXT := p_rule->>'field';
+  v_operator TEXT := p_rule->>'operator';
+  v_value TEXT := p_rule->>'value';
+  v_column TEXT;
+  v_type TEXT;
+  v_key TEXT;
+  v_values TEXT[];
+  v_sql TEXT;
+  v_negate BOOLEAN := v_operator IN ('not_equals', 'not_contains', 'not_in', 'is_not_empty');
+BEGIN
+  CASE
+    WHEN v_field IN ('email', 'first_name', 'last_name', 'company', 'position', 'website', 'phone',
+                     'city', 'country', 'source', 'engagement_status', 'enrichment_status') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'string';
+    WHEN v_field = 'industry' THEN
+      v_column := '(c.enrichment_data->>''industry'')';
+      v_type := 'string';
+    WHEN v_field = 'tags' THEN
+      v_column := 'c.tags';
+      v_type := 'array';
+    WHEN v_field IN ('engagement_score', 'engagement_sent_count', 'engagement_open_count',
+                     'engagement_click_count', 'engagement_reply_count', 'engagement_bounce_count',
+                     'lead_score') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'number';
+    WHEN v_field IN ('created_at', 'last_contacted_at', 'last_opened_at', 'last_replied_at', 'unsubscribed_at') THEN
+      v_column := format('c.%I', v_field);
+      v_type := 'date';
+    WHEN v_field ~ '^custom\.[a-z][a-z0-9_]{0,49}$' THEN
+      v_key := substr(v_field, 8);
+      v_type := COALESCE(p_rule->>'value_type', 'string');
+      IF v_type NOT IN ('string', 'number', 'date', 'array') THEN
+        RAISE EXCEPTION 'Unknown type % of custom segment field %', v_type, v_field;
+      END IF;
+      v_column := CASE v_type
+        WHEN 'number' THEN format('custom_field_number(c.custom_fields->%L)', v_key)
+        WHEN 'date' THEN format('custom_field_date(c.custom_fields->%L)', v_key)
+        WHEN 'array' THEN format('custom_field_array(c.custom_fields->%L)', v_key)
+        ELSE format('(c.custom_fields->>%L)', v_key)
+      END;
+    ELSE
+      RAISE EXCEPTION 'Unknown segment field: %', v_field;
+  END CASE;
+
+  -- Negated operators are compiled as NOT of their positive form
+  v_operator := CASE v_operator
+    WHEN 'not_equals' THEN 'equals'
+    WHEN 'not_contains' THEN 'contains'
+    WHEN 'not_in' THEN 'in'
+    WHEN 'is_not_empty' THEN 'is_empty'
+    ELSE v_operator
+  END;
+
+  IF v_operator = 'is_empty' THEN
+    v_sql := CASE v_type
+      WHEN 'string' THEN format('COALESCE(%s, '''') = ''''', v_column)
+      WHEN 'array' THEN format('COALESCE(cardinality(%s), 0) = 0', v_column)
+      ELSE format('%s IS NULL', v_column)
+    END;
+  ELSIF v_type = 'string' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('lower(%s) = lower(%L)', v_column, v_value)
+      WHEN 'contains' THEN format('position(lower(%L) in lower(%s)) > 0', v_value, v_column)
+      WHEN 'starts_with' THEN format('left(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'ends_with' THEN format('right(lower(%s), length(%L)) = lower(%L)', v_column, v_value, v_value)
+      WHEN 'in' THEN NULL
+    END;
+    IF v_operator = 'in' THEN
+      SELECT ARRAY(
+        SELECT lower(value)
+        FROM jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(p_rule->'value') = 'array' THEN p_rule->'value' ELSE jsonb_build_array(p_rule->'value') END
+        ) AS value
+      ) INTO v_values;
+      v_sql := format('lower(%s) = ANY(%L::text[])', v_column, v_values);
+    END IF;
+  ELSIF v_type = 'number' THEN
+    v_sql := CASE v_operator
+      WHEN 'equals' THEN format('%s = %L::numeric', v_column, v_value)
+      WHEN 'greater_than' THEN format('%s > %L::numeric', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::numeric', v_column, v_value)
+    END;
+  ELSIF v_type = 'date' THEN
+    v_sql := CASE v_operator
+      WHEN 'greater_than' THEN format('%s > %L::timestamptz', v_column, v_value)
+      WHEN 'less_than' THEN format('%s < %L::timestamptz', v_column, v_value)
+      WHEN 'within_last_days' THEN format('%s >= NOW() - make_interval(days => %s)', v_column, v_value::INTEGER)
+    END;
+  ELSIF v_type = 'array' THEN
+    v_sql := CASE v_operator
+      WHEN 'contains' THEN format('EXISTS (SELECT 1 FROM unnest(%s) AS item WHERE lower(item) = lower(%L))', v_column, v_value)
+    END;
+  END IF;
+
+  IF v_sql IS NULL THEN
+    RAISE EXCEPTION 'Operator % is not supported for segment field %', p_rule->>'operator', v_field;
+  END IF;
+
+  -- Rules are two-valued: a NULL column never matches the positive form
+  RETURN CASE WHEN v_negate
+    THEN format('NOT COALESCE(%s, FALSE)', v_sql)
+    ELSE format('COALESCE(%s, FALSE)', v_sql)
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
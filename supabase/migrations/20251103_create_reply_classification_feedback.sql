@@ -0,0 +1,45 @@
+-- Migration: Reply classification feedback
+-- Description: When a user reclassifies an email in the mailbox, the prediction and the
+--              corrected label are stored in reply_classification_feedback (one row per
+--              email; a later correction replaces the earlier one). The rows are the
+--              labelled examples of the LLM reply classifier and the basis of its accuracy
+--              metrics. email_replies.classifier records which classifier labelled a reply.
+-- Date: 2025-11-03
+
+ALTER TABLE email_replies
+  ADD COLUMN IF NOT EXISTS classifier TEXT NOT NULL DEFAULT 'heuristic';
+
+COMMENT ON COLUMN email_replies.classifier IS 'Classifier that labelled the reply: heuristic or llm';
+
+CREATE TABLE IF NOT EXISTS reply_classification_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  incoming_email_id UUID NOT NULL REFERENCES incoming_emails(id) ON DELETE CASCADE,
+  classifier TEXT NOT NULL DEFAULT 'heuristic',
+  predicted_label TEXT NOT NULL,
+  predicted_confidence NUMERIC(3,2),
+  corrected_label TEXT NOT NULL,
+  subject TEXT,
+  excerpt TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (incoming_email_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_classification_feedback_user_created
+  ON reply_classification_feedback(user_id, created_at DESC);
+
+ALTER TABLE reply_classification_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own classification feedback"
+  ON reply_classification_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own classification feedback"
+  ON reply_classification_feedback FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE reply_classification_feedback IS 'Mailbox reclassifications, used as few-shot examples and for classifier accuracy';
+COMMENT ON COLUMN reply_classification_feedback.predicted_label IS 'Label before the correction: the reply intent for human replies, otherwise the email type';
+COMMENT ON COLUMN reply_classification_feedback.excerpt IS 'Start of the reply without quoted text, shown to the LLM classifier as an example';
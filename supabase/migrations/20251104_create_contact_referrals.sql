@@ -0,0 +1,49 @@
+-- Migration: Contact referrals
+-- Description: When a reply says the contact is the wrong person and names someone else,
+--              the reply processor creates the referred people as contacts (linked to the
+--              replying contact through contacts.referred_by_contact_id) and records one
+--              contact_referrals row each. A referral can then be enrolled in the campaign
+--              the reply belongs to, with a referral opener in the first email, or dismissed.
+-- Date: 2025-11-04
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS referred_by_contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_referred_by_contact_id
+  ON contacts(referred_by_contact_id)
+  WHERE referred_by_contact_id IS NOT NULL;
+
+COMMENT ON COLUMN contacts.referred_by_contact_id IS 'Contact whose reply referred us to this contact';
+
+CREATE TABLE IF NOT EXISTS contact_referrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  incoming_email_id UUID NOT NULL REFERENCES incoming_emails(id) ON DELETE CASCADE,
+  referrer_contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  role TEXT,
+  status TEXT NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested', 'enrolled', 'dismissed')),
+  opener TEXT,
+  enrolled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (incoming_email_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_referrals_user_status
+  ON contact_referrals(user_id, status, created_at DESC);
+
+ALTER TABLE contact_referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referrals"
+  ON contact_referrals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own referrals"
+  ON contact_referrals FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE contact_referrals IS 'People named in wrong-person replies, offered for enrolment in the campaign of the reply';
+COMMENT ON COLUMN contact_referrals.opener IS 'Referral opener added to the first email when the contact was enrolled';
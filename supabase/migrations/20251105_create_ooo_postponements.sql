@@ -0,0 +1,44 @@
+-- Migration: Out-of-office postponements
+-- Description: While a contact's auto-reply is active (contacts.auto_reply_until), their next
+--              campaign email or sequence step is postponed until the return date plus the
+--              campaign's buffer (send_settings.out_of_office.buffer_days). Each postponement is
+--              recorded in ooo_postponements and shown on the contact's engagement timeline.
+--              Alternates named in an auto-reply become contact_referrals with source
+--              'out_of_office'.
+-- Date: 2025-11-05
+
+CREATE TABLE IF NOT EXISTS ooo_postponements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  email_job_id UUID,
+  stage TEXT NOT NULL CHECK (stage IN ('campaign', 'sequence_step', 'sequence_link')),
+  auto_reply_until TIMESTAMPTZ NOT NULL,
+  postponed_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, contact_id, postponed_until)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ooo_postponements_contact
+  ON ooo_postponements(contact_id, created_at DESC);
+
+ALTER TABLE ooo_postponements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own postponements"
+  ON ooo_postponements FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own postponements"
+  ON ooo_postponements FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE ooo_postponements IS 'Campaign emails and sequence steps postponed because the contact was out of office';
+COMMENT ON COLUMN ooo_postponements.stage IS 'campaign: batch send, sequence_step: follow-up email job, sequence_link: move to the next campaign of a sequence';
+
+ALTER TABLE contact_referrals
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'wrong_person'
+    CHECK (source IN ('wrong_person', 'out_of_office'));
+
+COMMENT ON COLUMN contact_referrals.source IS 'wrong_person: named in a reply, out_of_office: alternate named in an auto-reply';
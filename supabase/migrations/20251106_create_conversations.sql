@@ -0,0 +1,86 @@
+-- Migration: Conversations
+-- Description: One conversation per email thread across incoming_emails, outgoing_emails and
+--              campaign sends (email_tracking). Messages are grouped by Message-ID,
+--              In-Reply-To and References; without those headers by normalized subject plus
+--              participants (the addresses other than the user's own accounts).
+--              conversation_messages records which message belongs to which conversation.
+--              Conversations carry a status (open, snoozed, done), assignees and labels.
+-- Date: 2025-11-06
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email_account_id UUID REFERENCES email_accounts(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  subject TEXT,
+  subject_key TEXT NOT NULL DEFAULT '',
+  participants TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'snoozed', 'done')),
+  snoozed_until TIMESTAMPTZ,
+  assignees TEXT[] NOT NULL DEFAULT '{}',
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  message_count INTEGER NOT NULL DEFAULT 0,
+  last_message_at TIMESTAMPTZ,
+  last_direction TEXT CHECK (last_direction IN ('inbound', 'outbound')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_status_last
+  ON conversations(user_id, status, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_subject_key
+  ON conversations(user_id, subject_key);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_labels
+  ON conversations USING gin(labels);
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('incoming', 'outgoing', 'campaign')),
+  source_id UUID NOT NULL,
+  message_id TEXT,
+  in_reply_to TEXT,
+  message_references TEXT,
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  sent_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation
+  ON conversation_messages(conversation_id, sent_at);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_user_message_id
+  ON conversation_messages(user_id, message_id)
+  WHERE message_id IS NOT NULL;
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversations"
+  ON conversations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own conversations"
+  ON conversations FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own conversation messages"
+  ON conversation_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own conversation messages"
+  ON conversation_messages FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE conversations IS 'Email threads across inbox, sent mail and campaign sends';
+COMMENT ON COLUMN conversations.subject_key IS 'Subject without reply/forward prefixes, lowercased; fallback grouping with participants';
+COMMENT ON COLUMN conversations.participants IS 'Addresses in the thread other than the user''s own email accounts, sorted';
+COMMENT ON COLUMN conversations.assignees IS 'People handling the conversation';
+COMMENT ON TABLE conversation_messages IS 'Messages of a conversation; source_id points to incoming_emails, outgoing_emails or email_tracking';
@@ -0,0 +1,55 @@
+-- Migration: Follow-up reminders
+-- Description: "Remind me if no reply in N days" for mail sent from the mailbox composer.
+--              The follow-up-reminders cron checks due reminders: when the recipient answered
+--              the reminder is closed as replied, otherwise it fires, the conversation is
+--              reopened (and woken from snooze) with the follow-up label, and a nudge is
+--              drafted by the mailbox's assigned persona when asked for.
+-- Date: 2025-11-07
+
+CREATE TABLE IF NOT EXISTS follow_up_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  outgoing_email_id UUID REFERENCES outgoing_emails(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  message_id TEXT,
+  recipient_email TEXT NOT NULL,
+  subject TEXT,
+  sent_at TIMESTAMPTZ NOT NULL,
+  remind_after_days INTEGER NOT NULL CHECK (remind_after_days BETWEEN 1 AND 30),
+  remind_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'replied', 'fired', 'dismissed')),
+  draft_nudge BOOLEAN NOT NULL DEFAULT TRUE,
+  agent_id UUID,
+  nudge_subject TEXT,
+  nudge_body TEXT,
+  fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_reminders_due
+  ON follow_up_reminders(remind_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_reminders_user_message
+  ON follow_up_reminders(user_id, message_id);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_snoozed_until
+  ON conversations(snoozed_until)
+  WHERE status = 'snoozed';
+
+ALTER TABLE follow_up_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follow-up reminders"
+  ON follow_up_reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own follow-up reminders"
+  ON follow_up_reminders FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE follow_up_reminders IS 'Reminders to follow up on sent mail that gets no reply';
+COMMENT ON COLUMN follow_up_reminders.agent_id IS 'Persona drafting the nudge; defaults to the mailbox''s assigned persona';
+COMMENT ON COLUMN follow_up_reminders.status IS 'pending: waiting, replied: answered in time, fired: no reply and surfaced, dismissed: closed by the user';
@@ -0,0 +1,28 @@
+-- Migration: Release recipient domain reservations
+-- Description: Gives back a send counted by reserve_recipient_domain_send when the email was
+--              never delivered (send error, tracking insert failure), so failed sends do not
+--              use up the recipient domain's hourly/daily cap.
+-- Date: 2025-11-08
+
+DROP FUNCTION IF EXISTS release_recipient_domain_send(UUID, TEXT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION release_recipient_domain_send(
+  p_user_id UUID,
+  p_domain TEXT,
+  p_reserved_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || p_domain));
+
+  UPDATE recipient_domain_send_counts
+  SET sent_count = GREATEST(sent_count - 1, 0)
+  WHERE user_id = p_user_id
+    AND domain = p_domain
+    AND hour_start = date_trunc('hour', p_reserved_at);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION release_recipient_domain_send(UUID, TEXT, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON FUNCTION release_recipient_domain_send IS 'Undoes one reserve_recipient_domain_send in the hour it was made, for sends that failed.';
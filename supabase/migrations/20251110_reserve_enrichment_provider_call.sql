@@ -0,0 +1,49 @@
+-- Migration: Atomic enrichment provider rate limits
+-- Description: Reserves an enrichment provider call under an advisory lock before the provider
+--              runs, so concurrent enrichment runs cannot all pass the count check and exceed
+--              the provider's quota. The reserved row is completed once the call finishes.
+-- Date: 2025-11-10
+
+ALTER TABLE enrichment_provider_calls
+  DROP CONSTRAINT IF EXISTS enrichment_provider_calls_status_check;
+
+ALTER TABLE enrichment_provider_calls
+  ADD CONSTRAINT enrichment_provider_calls_status_check
+  CHECK (status IN ('pending', 'success', 'failed', 'skipped', 'rate_limited'));
+
+DROP FUNCTION IF EXISTS reserve_enrichment_provider_call(UUID, UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION reserve_enrichment_provider_call(
+  p_user_id UUID,
+  p_contact_id UUID,
+  p_provider TEXT,
+  p_window_seconds INTEGER,
+  p_max_calls INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_calls INTEGER;
+  v_call_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('enrichment_provider:' || p_provider));
+
+  SELECT COUNT(*) INTO v_calls
+  FROM enrichment_provider_calls
+  WHERE provider = p_provider
+    AND created_at >= NOW() - make_interval(secs => p_window_seconds);
+
+  IF v_calls >= p_max_calls THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO enrichment_provider_calls (user_id, contact_id, provider, status)
+  VALUES (p_user_id, p_contact_id, p_provider, 'pending')
+  RETURNING id INTO v_call_id;
+
+  RETURN v_call_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reserve_enrichment_provider_call(UUID, UUID, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION reserve_enrichment_provider_call IS 'Counts recent calls to a provider and, when under p_max_calls, inserts a pending call row. Returns the row id, or NULL when the rate limit is reached.';
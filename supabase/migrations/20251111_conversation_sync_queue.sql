@@ -0,0 +1,63 @@
+-- Migration: Conversation sync off the request path
+-- Description: Lists messages not yet assigned to a conversation, oldest first, so
+--              syncConversations works through the backlog instead of re-reading the
+--              newest (already assigned) messages. Adds the conversation_sync job queue
+--              that runs the sync in the background instead of on every inbox load.
+-- Date: 2025-11-11
+
+DROP FUNCTION IF EXISTS unassigned_conversation_messages(UUID, TIMESTAMPTZ, INTEGER);
+
+CREATE OR REPLACE FUNCTION unassigned_conversation_messages(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (source TEXT, source_id UUID) AS $$
+  (
+    SELECT 'incoming'::TEXT, e.id
+    FROM incoming_emails e
+    WHERE e.user_id = p_user_id
+      AND e.date_received >= p_since
+      AND NOT EXISTS (
+        SELECT 1 FROM conversation_messages m WHERE m.source = 'incoming' AND m.source_id = e.id
+      )
+    ORDER BY e.date_received ASC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'outgoing'::TEXT, e.id
+    FROM outgoing_emails e
+    WHERE e.user_id = p_user_id
+      AND e.date_sent >= p_since
+      AND NOT EXISTS (
+        SELECT 1 FROM conversation_messages m WHERE m.source = 'outgoing' AND m.source_id = e.id
+      )
+    ORDER BY e.date_sent ASC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'campaign'::TEXT, t.id
+    FROM email_tracking t
+    WHERE t.user_id = p_user_id
+      AND t.sent_at >= p_since
+      AND NOT EXISTS (
+        SELECT 1 FROM conversation_messages m WHERE m.source = 'campaign' AND m.source_id = t.id
+      )
+    ORDER BY t.sent_at ASC
+    LIMIT p_limit
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION unassigned_conversation_messages(UUID, TIMESTAMPTZ, INTEGER) TO service_role, authenticated;
+
+COMMENT ON FUNCTION unassigned_conversation_messages IS 'Up to p_limit messages per source (incoming, outgoing, campaign) since p_since that no conversation holds yet, oldest first.';
+
+-- ============================================================================
+-- Background sync queue
+-- ============================================================================
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_queue_check;
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_queue_check
+  CHECK (queue IN ('campaign_send', 'reply_job', 'enrichment', 'imap_sync', 'contact_import', 'lead_scoring', 'conversation_sync'));
@@ -0,0 +1,74 @@
+-- Migration: Save sequence graphs in one transaction
+-- Description: The graph editor's save removes, updates and creates sequence links and stores
+--              the layout. Doing that link by link from the app left a sequence with its
+--              links deleted and only some edges written when a write failed part-way;
+--              save_sequence_graph applies the whole diff in one transaction.
+-- Date: 2025-11-12
+
+DROP FUNCTION IF EXISTS save_sequence_graph(UUID, UUID, JSONB, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION save_sequence_graph(
+  p_user_id UUID,
+  p_sequence_id UUID,
+  p_links JSONB,
+  p_entry_campaign_id UUID,
+  p_layout JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1 FROM sequences
+  WHERE id = p_sequence_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sequence not found or access denied';
+  END IF;
+
+  -- Links missing from the graph (entry links without a parent are not part of it)
+  DELETE FROM sequence_links l
+  WHERE l.sequence_id = p_sequence_id
+    AND l.parent_campaign_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_links) link
+      WHERE link->>'id' IS NOT NULL AND (link->>'id')::UUID = l.id
+    );
+
+  UPDATE sequence_links l
+  SET parent_campaign_id = (link->>'parent_campaign_id')::UUID,
+      next_campaign_id = (link->>'next_campaign_id')::UUID,
+      condition_type = link->>'condition_type',
+      delay_days = (link->>'delay_days')::INTEGER,
+      delay_hours = (link->>'delay_hours')::INTEGER,
+      priority = (link->>'priority')::INTEGER,
+      updated_at = NOW()
+  FROM jsonb_array_elements(p_links) link
+  WHERE link->>'id' IS NOT NULL
+    AND l.id = (link->>'id')::UUID
+    AND l.sequence_id = p_sequence_id;
+
+  INSERT INTO sequence_links (
+    sequence_id, parent_campaign_id, next_campaign_id, condition_type, delay_days, delay_hours, priority, metadata
+  )
+  SELECT
+    p_sequence_id,
+    (link->>'parent_campaign_id')::UUID,
+    (link->>'next_campaign_id')::UUID,
+    link->>'condition_type',
+    (link->>'delay_days')::INTEGER,
+    (link->>'delay_hours')::INTEGER,
+    (link->>'priority')::INTEGER,
+    '{}'::JSONB
+  FROM jsonb_array_elements(p_links) link
+  WHERE link->>'id' IS NULL;
+
+  UPDATE sequences
+  SET entry_campaign_id = p_entry_campaign_id,
+      graph_layout = p_layout,
+      updated_at = NOW()
+  WHERE id = p_sequence_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_sequence_graph(UUID, UUID, JSONB, UUID, JSONB) TO service_role, authenticated;
+
+COMMENT ON FUNCTION save_sequence_graph IS 'Replaces the links of a sequence graph (links with an id are updated, without one created, missing ones removed) and stores the entry campaign and layout, in one transaction.';
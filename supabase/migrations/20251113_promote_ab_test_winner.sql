@@ -0,0 +1,38 @@
+-- Migration: Promote A/B test winners in one statement
+-- Description: When an A/B test completes, every contact of the campaign that has not been
+--              emailed yet moves to the winning variant. The app used to read all assigned and
+--              sent contacts and update them by id list, which was truncated past 1000 rows
+--              and hit URL limits on large campaigns.
+-- Date: 2025-11-13
+
+DROP FUNCTION IF EXISTS promote_ab_test_winner(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION promote_ab_test_winner(
+  p_campaign_id UUID,
+  p_winner_variant_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_promoted INTEGER;
+BEGIN
+  UPDATE campaign_contacts cc
+  SET ab_test_variant = p_winner_variant_id,
+      updated_at = NOW()
+  WHERE cc.campaign_id = p_campaign_id
+    AND cc.contact_id IS NOT NULL
+    AND cc.ab_test_variant IS DISTINCT FROM p_winner_variant_id
+    AND NOT EXISTS (
+      SELECT 1 FROM email_tracking et
+      WHERE et.campaign_id = cc.campaign_id
+        AND et.contact_id = cc.contact_id
+        AND et.sent_at IS NOT NULL
+    );
+
+  GET DIAGNOSTICS v_promoted = ROW_COUNT;
+  RETURN v_promoted;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION promote_ab_test_winner(UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION promote_ab_test_winner IS 'Moves contacts of a campaign that have not been sent an email yet to the winning A/B test variant. Returns the number of contacts moved.';
@@ -0,0 +1,20 @@
+-- Migration: Stored email verification results
+-- Description: Verification results (valid, invalid, risky, unknown) were only kept in an
+--              in-process cache, so a campaign launch on another worker or after a restart
+--              could not see the SMTP-probed results of a background import. Each contact now
+--              stores its last verification status and when it was checked; launches reuse
+--              recent results and only verify contacts without one. The column is named apart
+--              from the legacy email_status (bounced, unsubscribed) that older code still reads.
+-- Date: 2025-11-14
+
+ALTER TABLE contacts
+  ADD COLUMN IF NOT EXISTS email_verification_status TEXT
+    CHECK (email_verification_status IS NULL OR email_verification_status IN ('valid', 'invalid', 'risky', 'unknown')),
+  ADD COLUMN IF NOT EXISTS email_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_user_email_verification_status
+  ON contacts(user_id, email_verification_status)
+  WHERE email_verification_status IS NOT NULL;
+
+COMMENT ON COLUMN contacts.email_verification_status IS 'Result of the last email verification: valid, invalid, risky or unknown. NULL when never verified.';
+COMMENT ON COLUMN contacts.email_checked_at IS 'When email_verification_status was last determined';
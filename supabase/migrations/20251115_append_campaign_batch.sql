@@ -0,0 +1,58 @@
+-- Migration: Append campaign batches atomically
+-- Description: Enrolling a referral added a one-contact batch by reading campaigns.batch_schedule,
+--              appending in the app and writing the whole schedule back. A campaign processor
+--              run finishing in between lost either its sent marks or the new batch.
+--              append_campaign_batch appends under a row lock and numbers the batch from the
+--              schedule as it is at that moment.
+-- Date: 2025-11-15
+
+DROP FUNCTION IF EXISTS append_campaign_batch(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION append_campaign_batch(
+  p_campaign_id UUID,
+  p_batch JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_schedule JSONB;
+  v_batch_number INTEGER;
+  v_contact_count INTEGER := COALESCE((p_batch->>'contact_count')::INTEGER, 0);
+  v_scheduled_time TIMESTAMPTZ := (p_batch->>'scheduled_time')::TIMESTAMPTZ;
+BEGIN
+  SELECT batch_schedule INTO v_schedule
+  FROM campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF v_schedule IS NULL OR jsonb_typeof(v_schedule->'batches') <> 'array' THEN
+    RAISE EXCEPTION 'Campaign % has no batch schedule', p_campaign_id;
+  END IF;
+
+  SELECT COALESCE(MAX((batch->>'batch_number')::INTEGER), 0) + 1 INTO v_batch_number
+  FROM jsonb_array_elements(v_schedule->'batches') batch;
+
+  v_schedule := jsonb_set(
+    v_schedule,
+    '{batches}',
+    (v_schedule->'batches') || jsonb_build_array(p_batch || jsonb_build_object('batch_number', v_batch_number))
+  );
+  v_schedule := jsonb_set(v_schedule, '{total_batches}', to_jsonb(jsonb_array_length(v_schedule->'batches')));
+  IF v_schedule ? 'total_contacts' THEN
+    v_schedule := jsonb_set(v_schedule, '{total_contacts}', to_jsonb(COALESCE((v_schedule->>'total_contacts')::INTEGER, 0) + v_contact_count));
+  END IF;
+
+  UPDATE campaigns
+  SET batch_schedule = v_schedule,
+      total_contacts = COALESCE(total_contacts, 0) + v_contact_count,
+      next_batch_send_time = LEAST(COALESCE(next_batch_send_time, v_scheduled_time), v_scheduled_time),
+      status = CASE WHEN status = 'completed' THEN 'sending' ELSE status END,
+      updated_at = NOW()
+  WHERE id = p_campaign_id;
+
+  RETURN v_batch_number;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION append_campaign_batch(UUID, JSONB) TO service_role, authenticated;
+
+COMMENT ON FUNCTION append_campaign_batch IS 'Appends a batch to campaigns.batch_schedule under a row lock, numbering it after the existing batches, and schedules the campaign to send it. Returns the batch number.';